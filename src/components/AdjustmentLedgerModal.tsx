@@ -0,0 +1,459 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Loader, Receipt, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  ADJUSTMENT_TYPES,
+  ADJUSTMENT_TYPE_LABELS,
+  CONFIGURABLE_APPROVAL_ROLES,
+  DEFAULT_APPROVAL_LIMITS,
+  adjustmentBalanceEffect,
+  approvalLimitFor,
+  canPostAdjustment,
+  createAdjustment,
+  fetchApprovalLimits,
+  fetchPendingAdjustments,
+  fetchRowAdjustments,
+  reviewAdjustment,
+  saveApprovalLimits,
+  summarizePostedAdjustments,
+  totalAdjustments,
+  type ApprovalLimits,
+} from '@/lib/adjustments'
+import type { RowReimbursement } from '@/lib/feeSchedules'
+import { formatCurrency, toDisplayDate, todayIso, roundMoney } from '@/lib/utils'
+import type { AdjustmentStatus, AdjustmentType, SheetRow, SheetRowAdjustment } from '@/types'
+
+const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+const STATUS_CLASSES: Record<AdjustmentStatus, string> = {
+  pending: 'text-yellow-200',
+  posted: 'text-green-300',
+  rejected: 'text-red-300',
+  voided: 'text-white/50',
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  office_staff: 'Office staff',
+  billing_staff: 'Billing staff',
+  admin: 'Admin',
+}
+
+/** Row summary shown next to ledger entries; pending entries elsewhere in the clinic are looked up by id. */
+type RowInfo = Pick<SheetRow, 'id' | 'patient_id' | 'appointment_date' | 'cpt_code'>
+
+function rowLabel(row: RowInfo | undefined): string {
+  if (!row) return 'Unknown row'
+  return [row.patient_id || 'No patient', row.appointment_date ? toDisplayDate(row.appointment_date) : null, row.cpt_code]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+function limitLabel(limit: number | null): string {
+  return limit == null ? 'no limit' : formatCurrency(limit)
+}
+
+interface AdjustmentLedgerModalProps {
+  clinicId: string
+  /** Saved sheet rows selected in the grid; may be empty to review pending approvals only. */
+  rows: SheetRow[]
+  reimbursementByRowId?: Map<string, RowReimbursement>
+  onClose: () => void
+  /** Called after any entry is posted, approved, rejected or voided so balances can be recomputed. */
+  onChanged: () => void
+}
+
+export default function AdjustmentLedgerModal({ clinicId, rows, reimbursementByRowId, onClose, onChanged }: AdjustmentLedgerModalProps) {
+  const { userProfile } = useAuth()
+  const role = userProfile?.role
+  const canEnter = role === 'super_admin' || role === 'admin' || role === 'billing_staff' || role === 'office_staff'
+  const canEditLimits = role === 'super_admin' || role === 'admin'
+
+  const [entries, setEntries] = useState<SheetRowAdjustment[]>([])
+  const [pending, setPending] = useState<SheetRowAdjustment[]>([])
+  const [pendingRows, setPendingRows] = useState<Record<string, RowInfo>>({})
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const [limits, setLimits] = useState<ApprovalLimits>({ ...DEFAULT_APPROVAL_LIMITS })
+  const [limitDrafts, setLimitDrafts] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const [rowId, setRowId] = useState(rows[0]?.id ?? '')
+  const [type, setType] = useState<AdjustmentType>('small_balance')
+  const [amount, setAmount] = useState('')
+  const [date, setDate] = useState(() => todayIso())
+  const [reason, setReason] = useState('')
+
+  const rowsById = useMemo(() => {
+    const map: Record<string, RowInfo> = { ...pendingRows }
+    rows.forEach((r) => { map[r.id] = r })
+    return map
+  }, [rows, pendingRows])
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [rowEntries, clinicPending, clinicLimits] = await Promise.all([
+        fetchRowAdjustments(supabase, rows.map((r) => r.id)),
+        fetchPendingAdjustments(supabase, clinicId),
+        fetchApprovalLimits(supabase, clinicId),
+      ])
+      setEntries(rowEntries)
+      setPending(clinicPending)
+      setLimits(clinicLimits)
+      setLimitDrafts(Object.fromEntries(CONFIGURABLE_APPROVAL_ROLES.map((r) => [r, clinicLimits[r] == null ? '' : String(clinicLimits[r])])))
+
+      const known = new Set(rows.map((r) => r.id))
+      const missingRowIds = Array.from(new Set(clinicPending.map((a) => a.provider_sheet_row_id))).filter((id) => !known.has(id))
+      if (missingRowIds.length > 0) {
+        const { data, error } = await supabase.from('provider_sheet_rows').select('id, patient_id, appointment_date, cpt_code').in('id', missingRowIds)
+        if (error) throw error
+        setPendingRows(Object.fromEntries(((data || []) as RowInfo[]).map((r) => [r.id, r])))
+      }
+
+      const userIds = Array.from(new Set([...rowEntries, ...clinicPending].flatMap((a) => [a.created_by, a.reviewed_by]).filter((id): id is string => !!id)))
+      if (userIds.length > 0) {
+        const { data } = await supabase.from('users').select('id, full_name, email').in('id', userIds)
+        setUserNames(Object.fromEntries(((data || []) as Array<{ id: string; full_name: string | null; email: string }>).map((u) => [u.id, u.full_name || u.email])))
+      }
+    } catch (err) {
+      console.error('[AdjustmentLedgerModal] load', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId, rows])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const postedByRow = useMemo(() => summarizePostedAdjustments(entries), [entries])
+  const myLimit = approvalLimitFor(role, limits)
+  const amountValue = Number(amount)
+  const willPost = amountValue > 0 && canPostAdjustment(amountValue, role, limits)
+
+  const handleAdd = async () => {
+    if (!rowId) return
+    if (!(amountValue > 0)) {
+      alert('Enter an amount greater than zero.')
+      return
+    }
+    if (!reason.trim()) {
+      alert('Enter a reason for the adjustment.')
+      return
+    }
+    setSaving(true)
+    try {
+      await createAdjustment(
+        supabase,
+        { clinic_id: clinicId, provider_sheet_row_id: rowId, adjustment_type: type, amount: Math.round(amountValue * 100) / 100, reason, adjustment_date: date },
+        willPost
+      )
+      if (!willPost) alert(`${formatCurrency(amountValue)} is over your approval limit (${limitLabel(myLimit)}). It was saved as pending approval.`)
+      setAmount('')
+      setReason('')
+      await load()
+      onChanged()
+    } catch (err) {
+      console.error('[AdjustmentLedgerModal] add', err)
+      alert('Failed to save adjustment. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReview = async (entry: SheetRowAdjustment, status: 'posted' | 'rejected' | 'voided') => {
+    const verb = status === 'posted' ? 'Approve' : status === 'rejected' ? 'Reject' : 'Void'
+    const note = status === 'posted' ? '' : prompt(`${verb} this ${formatCurrency(entry.amount)} ${ADJUSTMENT_TYPE_LABELS[entry.adjustment_type].toLowerCase()} adjustment? Note (optional):`, '')
+    if (note === null) return
+    setSaving(true)
+    try {
+      await reviewAdjustment(supabase, entry.id, status, note)
+      await load()
+      onChanged()
+    } catch (err) {
+      console.error('[AdjustmentLedgerModal] review', err)
+      alert(`Failed to ${verb.toLowerCase()} adjustment. Please try again.`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSaveLimits = async () => {
+    const next = { ...limits }
+    for (const r of CONFIGURABLE_APPROVAL_ROLES) {
+      const raw = (limitDrafts[r] ?? '').trim()
+      const n = Number(raw)
+      if (raw !== '' && (!Number.isFinite(n) || n < 0)) {
+        alert(`Enter a limit of 0 or more for ${ROLE_LABELS[r]}, or leave it blank for no limit.`)
+        return
+      }
+      next[r] = raw === '' ? null : roundMoney(n)
+    }
+    setSaving(true)
+    try {
+      await saveApprovalLimits(supabase, clinicId, next, userProfile?.id ?? null)
+      setLimits(next)
+    } catch (err) {
+      console.error('[AdjustmentLedgerModal] save limits', err)
+      alert('Failed to save approval limits. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const actionButtons = (entry: SheetRowAdjustment) => {
+    const covers = canPostAdjustment(entry.amount, role, limits)
+    const buttonClass = 'text-primary-300 hover:text-primary-200 disabled:opacity-50'
+    return (
+      <div className="flex gap-3 whitespace-nowrap">
+        {entry.status === 'pending' && covers && (
+          <>
+            <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(entry, 'posted')}>Approve</button>
+            <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(entry, 'rejected')}>Reject</button>
+          </>
+        )}
+        {entry.status === 'pending' && !covers && entry.created_by === userProfile?.id && (
+          <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(entry, 'voided')}>Withdraw</button>
+        )}
+        {entry.status === 'posted' && covers && (
+          <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(entry, 'voided')}>Void</button>
+        )}
+      </div>
+    )
+  }
+
+  const entryCells = (entry: SheetRowAdjustment) => {
+    const effect = adjustmentBalanceEffect(entry)
+    return (
+      <>
+        <td>{toDisplayDate(entry.adjustment_date)}</td>
+        <td>{rowLabel(rowsById[entry.provider_sheet_row_id])}</td>
+        <td>{ADJUSTMENT_TYPE_LABELS[entry.adjustment_type]}</td>
+        <td className="text-right">{effect < 0 ? `+${formatCurrency(-effect)}` : `−${formatCurrency(effect)}`}</td>
+        <td>
+          {entry.reason}
+          {entry.review_note && <div className="text-white/60">Note: {entry.review_note}</div>}
+        </td>
+        <td>{entry.created_by ? userNames[entry.created_by] ?? '—' : '—'}</td>
+      </>
+    )
+  }
+
+  const otherPending = pending.filter((a) => !rows.some((r) => r.id === a.provider_sheet_row_id))
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <Receipt size={20} />
+          Adjustments
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          Posted adjustments reduce the row balance (refunds add back to it). Your approval limit: {canEnter ? limitLabel(myLimit) : 'none'}; larger
+          adjustments wait for someone whose limit covers them.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-white/80 flex items-center gap-2 mb-4"><Loader className="animate-spin" size={16} />Loading ledger...</p>
+        ) : (
+          <>
+            {rows.length > 0 && (
+              <div className="table-container dark-theme mb-4">
+                <table className="table-spreadsheet dark-theme w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Expected</th>
+                      <th>Collected</th>
+                      <th>Adjustments</th>
+                      <th>Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => {
+                      const reimbursement = reimbursementByRowId?.get(row.id)
+                      const adjusted = totalAdjustments(postedByRow.get(row.id))
+                      const balance = reimbursement?.expected != null ? reimbursement.expected - reimbursement.actual - adjusted : null
+                      return (
+                        <tr key={row.id}>
+                          <td>{rowLabel(row)}</td>
+                          <td className="text-right">{reimbursement?.expected != null ? formatCurrency(reimbursement.expected) : '—'}</td>
+                          <td className="text-right">{reimbursement ? formatCurrency(reimbursement.actual) : '—'}</td>
+                          <td className="text-right">{formatCurrency(adjusted)}</td>
+                          <td className="text-right font-medium">{balance != null ? formatCurrency(balance) : '—'}</td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {rows.length > 0 && canEnter && (
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-3 mb-4 items-end">
+                <div className="md:col-span-2">
+                  <label className={labelClass}>Row</label>
+                  <select className={inputClass} value={rowId} onChange={(e) => setRowId(e.target.value)}>
+                    {rows.map((r) => (
+                      <option key={r.id} value={r.id} className="bg-slate-900">{rowLabel(r)}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Type</label>
+                  <select className={inputClass} value={type} onChange={(e) => setType(e.target.value as AdjustmentType)}>
+                    {ADJUSTMENT_TYPES.map((t) => (
+                      <option key={t.key} value={t.key} className="bg-slate-900">{t.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Amount</label>
+                  <input type="number" min="0" step="0.01" className={inputClass} value={amount} onChange={(e) => setAmount(e.target.value)} placeholder="0.00" />
+                </div>
+                <div>
+                  <label className={labelClass}>Date</label>
+                  <input type="date" className={inputClass} value={date} onChange={(e) => setDate(e.target.value)} />
+                </div>
+                <div className="md:col-span-5">
+                  <label className={labelClass}>Reason</label>
+                  <input className={inputClass} value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Balance under $5 after secondary" />
+                </div>
+                <button
+                  type="button"
+                  onClick={handleAdd}
+                  disabled={saving || !rowId}
+                  className="flex items-center justify-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving && <Loader className="animate-spin" size={16} />}
+                  {amountValue > 0 && !willPost ? 'Submit for approval' : 'Post'}
+                </button>
+              </div>
+            )}
+
+            {entries.length > 0 && (
+              <>
+                <h3 className="text-white font-medium mb-2">Ledger</h3>
+                <div className="table-container dark-theme mb-4">
+                  <table className="table-spreadsheet dark-theme w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Row</th>
+                        <th>Type</th>
+                        <th>Balance effect</th>
+                        <th>Reason</th>
+                        <th>Entered by</th>
+                        <th>Status</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {entries.map((entry) => (
+                        <tr key={entry.id} className={entry.status === 'voided' || entry.status === 'rejected' ? 'opacity-60' : undefined}>
+                          {entryCells(entry)}
+                          <td className={STATUS_CLASSES[entry.status]}>
+                            {entry.status}
+                            {entry.reviewed_by && entry.status !== 'pending' && (
+                              <div className="text-white/60">by {userNames[entry.reviewed_by] ?? '—'}</div>
+                            )}
+                          </td>
+                          <td>{actionButtons(entry)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            {otherPending.length > 0 && (
+              <>
+                <h3 className="text-white font-medium mb-2">Awaiting approval in this clinic</h3>
+                <div className="table-container dark-theme mb-4">
+                  <table className="table-spreadsheet dark-theme w-full text-sm">
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Row</th>
+                        <th>Type</th>
+                        <th>Balance effect</th>
+                        <th>Reason</th>
+                        <th>Entered by</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {otherPending.map((entry) => (
+                        <tr key={entry.id}>
+                          {entryCells(entry)}
+                          <td>{actionButtons(entry)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+
+            {canEditLimits && (
+              <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4 mb-4">
+                <h3 className="text-white font-medium mb-1">Approval limits</h3>
+                <p className="text-xs text-white/60 mb-3">Largest adjustment each role may post without approval. Leave blank for no limit; 0 means every adjustment needs approval.</p>
+                <div className="flex flex-wrap items-end gap-3">
+                  {CONFIGURABLE_APPROVAL_ROLES.map((r) => (
+                    <div key={r} className="w-40">
+                      <label className={labelClass}>{ROLE_LABELS[r]}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        className={inputClass}
+                        value={limitDrafts[r] ?? ''}
+                        placeholder="No limit"
+                        onChange={(e) => setLimitDrafts((prev) => ({ ...prev, [r]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={handleSaveLimits}
+                    disabled={saving}
+                    className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+                  >
+                    Save limits
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,259 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Download, FileText, Loader, RefreshCw } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import {
+  AGING_BUCKETS,
+  agingGroupKey,
+  agingItemsToCsv,
+  fetchAgingData,
+  summarizeAging,
+  type AgingBucketKey,
+  type AgingData,
+  type AgingGroupBy,
+} from '@/lib/arAging'
+import { generateArAgingReport } from '@/lib/reports'
+import { formatCurrency, toDisplayDate } from '@/lib/utils'
+
+interface ArAgingPanelProps {
+  /** Clinics to include; one when a clinic is selected, else every clinic the user can see. */
+  clinicIds: string[]
+  /** Shown in the PDF header and file names. */
+  clinicLabel: string
+}
+
+const GROUP_BY_OPTIONS: Array<{ value: AgingGroupBy; label: string }> = [
+  { value: 'type', label: 'AR Type' },
+  { value: 'payer', label: 'Payer' },
+  { value: 'provider', label: 'Provider' },
+  { value: 'patient', label: 'Patient' },
+]
+
+/** Selected summary cell: a group, optionally narrowed to one bucket. */
+interface DrillDown {
+  key: string
+  bucket: AgingBucketKey | null
+}
+
+export default function ArAgingPanel({ clinicIds, clinicLabel }: ArAgingPanelProps) {
+  const [data, setData] = useState<AgingData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>('type')
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null)
+
+  const clinicKey = clinicIds.join(',')
+
+  const load = useCallback(async () => {
+    if (!clinicKey) return
+    setLoading(true)
+    setDrillDown(null)
+    try {
+      setData(await fetchAgingData(supabase, clinicKey.split(',')))
+    } catch (err) {
+      console.error('[ArAgingPanel] load', err)
+      alert('Failed to load AR aging. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicKey])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const summary = useMemo(
+    () => (data ? summarizeAging(data.items, groupBy, data.providersById) : []),
+    [data, groupBy]
+  )
+
+  const totals = useMemo(() => {
+    const buckets: Record<AgingBucketKey, number> = { '0-30': 0, '31-60': 0, '61-90': 0, '91-120': 0, '120+': 0 }
+    let total = 0
+    summary.forEach((row) => {
+      AGING_BUCKETS.forEach((b) => { buckets[b.key] += row.buckets[b.key] })
+      total += row.total
+    })
+    return { buckets, total }
+  }, [summary])
+
+  const drillItems = useMemo(() => {
+    if (!data || !drillDown) return []
+    return data.items.filter(
+      (item) =>
+        agingGroupKey(item, groupBy, data.providersById) === drillDown.key &&
+        (drillDown.bucket == null || item.bucket === drillDown.bucket)
+    )
+  }, [data, drillDown, groupBy])
+
+  const fileBase = `ar_aging_${clinicLabel.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}_${new Date().toISOString().split('T')[0]}`
+
+  const handleDownloadPdf = async () => {
+    if (!data) return
+    try {
+      const pdf = await generateArAgingReport(data, groupBy, clinicLabel)
+      pdf.save(`${fileBase}.pdf`)
+    } catch (err) {
+      console.error('[ArAgingPanel] pdf', err)
+      alert('Failed to generate report. Please try again.')
+    }
+  }
+
+  const handleDownloadCsv = () => {
+    if (!data) return
+    const blob = new Blob([agingItemsToCsv(drillDown ? drillItems : data.items, data.providersById)], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${fileBase}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const cellButton = (key: string, bucket: AgingBucketKey | null, amount: number) => {
+    const selected = drillDown?.key === key && drillDown.bucket === bucket
+    return (
+      <button
+        type="button"
+        onClick={() => setDrillDown(selected ? null : { key, bucket })}
+        disabled={amount === 0}
+        className={`w-full text-right ${selected ? 'text-primary-300 font-semibold' : 'hover:underline'} disabled:text-white/40 disabled:no-underline`}
+      >
+        {formatCurrency(amount)}
+      </button>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="text-sm text-white/90">Group by</label>
+        <select
+          value={groupBy}
+          onChange={(e) => {
+            setGroupBy(e.target.value as AgingGroupBy)
+            setDrillDown(null)
+          }}
+          className="px-3 py-2 border border-white/20 bg-white/10 text-white rounded-lg text-sm"
+        >
+          {GROUP_BY_OPTIONS.map((o) => (
+            <option key={o.value} value={o.value} className="bg-slate-900">{o.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+        >
+          <RefreshCw size={18} />
+          Refresh
+        </button>
+        <button
+          type="button"
+          onClick={handleDownloadPdf}
+          disabled={loading || !data}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={18} />
+          Download PDF
+        </button>
+        <button
+          type="button"
+          onClick={handleDownloadCsv}
+          disabled={loading || !data}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+        >
+          <FileText size={18} />
+          {drillDown ? 'Download CSV (selection)' : 'Download CSV'}
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading open balances...</p>
+      ) : data && (
+        <>
+          <p className="text-sm text-white/70">
+            Open AR entries plus provider sheet visits whose fee schedule amount is not yet covered by insurance and patient payments.
+            Click an amount to see the rows behind it.
+            {data.unpricedRows > 0 && ` ${data.unpricedRows} visit(s) have no fee schedule price and are not included.`}
+          </p>
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>{GROUP_BY_OPTIONS.find((o) => o.value === groupBy)?.label}</th>
+                  <th>Items</th>
+                  {AGING_BUCKETS.map((b) => <th key={b.key}>{b.label}</th>)}
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.length === 0 ? (
+                  <tr><td colSpan={AGING_BUCKETS.length + 3} className="text-center text-white/60">No open balances.</td></tr>
+                ) : summary.map((row) => (
+                  <tr key={row.key}>
+                    <td>{row.key}</td>
+                    <td>{row.count}</td>
+                    {AGING_BUCKETS.map((b) => <td key={b.key}>{cellButton(row.key, b.key, row.buckets[b.key])}</td>)}
+                    <td>{cellButton(row.key, null, row.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              {summary.length > 0 && (
+                <tfoot>
+                  <tr className="font-semibold">
+                    <td>Total</td>
+                    <td>{data.items.length}</td>
+                    {AGING_BUCKETS.map((b) => <td key={b.key} className="text-right">{formatCurrency(totals.buckets[b.key])}</td>)}
+                    <td className="text-right">{formatCurrency(totals.total)}</td>
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+
+          {drillDown && (
+            <div className="space-y-2">
+              <h3 className="text-white font-medium">
+                {drillDown.key}
+                {drillDown.bucket && ` · ${AGING_BUCKETS.find((b) => b.key === drillDown.bucket)?.label} days`}
+                {` · ${drillItems.length} item(s)`}
+              </h3>
+              <div className="table-container dark-theme">
+                <table className="table-spreadsheet dark-theme w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th>Source</th>
+                      <th>Type</th>
+                      <th>Payer</th>
+                      <th>Provider</th>
+                      <th>Patient</th>
+                      <th>Aged From</th>
+                      <th>Days</th>
+                      <th>Balance</th>
+                      <th>Detail</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drillItems.map((item) => (
+                      <tr key={`${item.source}-${item.id}`}>
+                        <td>{item.source === 'ar' ? 'AR' : 'Provider sheet'}</td>
+                        <td>{item.type}</td>
+                        <td>{item.payer}</td>
+                        <td>{agingGroupKey(item, 'provider', data.providersById)}</td>
+                        <td>{[item.patientId, item.patientName].filter(Boolean).join(' – ')}</td>
+                        <td title={item.agingBasis === 'date_of_service' ? 'Date of service' : 'Date recorded'}>{toDisplayDate(item.agingDate)}</td>
+                        <td>{item.days}</td>
+                        <td className="text-right">{formatCurrency(item.amount)}</td>
+                        <td>{item.detail}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,356 @@
+import { useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Download, FileText, AlertTriangle, Loader } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import {
+  build837pBatch,
+  validateClaimRows,
+  allocateInterchangeControlNumber,
+  fetchClaimBatches,
+  saveClaimBatch,
+  downloadClaimFile,
+  insuranceKey,
+  loadClaim837pSettings,
+  storeClaim837pSettings,
+  type Claim837pEnvelopeSettings,
+  type Claim837pOptions,
+} from '@/lib/claim837p'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { fetchPayers, findPayer } from '@/lib/payers'
+import { toDisplayDate, formatCurrency, formatDateTime } from '@/lib/utils'
+import type { ClaimBatch, Clinic, Patient, Payer, Provider, SheetRow } from '@/types'
+import { cptCodesForRow } from '@/lib/providerSheetRows'
+
+interface ClaimBatchModalProps {
+  clinicId: string
+  provider: Provider
+  /** Selected grid rows to bill. */
+  rows: SheetRow[]
+  patients: Patient[]
+  onClose: () => void
+  /** Persist claim_status = 'Claim Sent' and submit_date on the billed rows. */
+  onRowsClaimed: (rowIds: string[], submitDate: string) => Promise<void>
+}
+
+export default function ClaimBatchModal({ clinicId, provider, rows, patients, onClose, onRowsClaimed }: ClaimBatchModalProps) {
+  const { userProfile } = useAuth()
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [clinicAddressLines, setClinicAddressLines] = useState<string[]>([])
+  const [batches, setBatches] = useState<ClaimBatch[]>([])
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+  const [settings, setSettings] = useState<Claim837pEnvelopeSettings>(() => loadClaim837pSettings(clinicId))
+  const [defaultCharge, setDefaultCharge] = useState('')
+  const [chargeByRowId, setChargeByRowId] = useState<Record<string, string>>({})
+  const [payers, setPayers] = useState<Payer[]>([])
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    Promise.all([
+      supabase.from('clinics').select('*').eq('id', clinicId).single(),
+      fetchClinicAddressesByClinicIds([clinicId]),
+      fetchClaimBatches(supabase, clinicId, provider.id),
+      fetchPayers(supabase),
+    ])
+      .then(([clinicResult, addresses, existing, payerList]) => {
+        if (cancelled) return
+        if (clinicResult.error) throw clinicResult.error
+        setClinic(clinicResult.data as Clinic)
+        setClinicAddressLines(addresses[clinicId] ?? [])
+        setBatches(existing)
+        setPayers(payerList)
+      })
+      .catch((err) => {
+        console.error('[ClaimBatchModal] load', err)
+        if (!cancelled) alert('Failed to load clinic billing details. Please try again.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [clinicId, provider.id])
+
+  const patientsByKey = useMemo(() => {
+    const map = new Map<string, Patient>()
+    patients.forEach((p) => map.set(normalizePatientIdKey(p.patient_id), p))
+    return map
+  }, [patients])
+
+  const insuranceNames = useMemo(() => {
+    const names = new Map<string, string>()
+    rows.forEach((row) => {
+      const patient = row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined
+      const insurance = patient?.insurance ?? row.patient_insurance
+      const key = insuranceKey(insurance)
+      if (key && !names.has(key)) names.set(key, String(insurance).trim())
+    })
+    return Array.from(names.entries())
+  }, [rows, patientsByKey])
+
+  const options = useMemo((): Claim837pOptions => {
+    const lineChargeByRowId: Record<string, number> = {}
+    rows.forEach((row) => {
+      lineChargeByRowId[row.id] = parseFloat(chargeByRowId[row.id] ?? defaultCharge) || 0
+    })
+    // Payer IDs typed in this dialog win; otherwise use the payer master's electronic ID.
+    const payerIdByInsurance = { ...settings.payerIdByInsurance }
+    insuranceNames.forEach(([key, name]) => {
+      if (!payerIdByInsurance[key]?.trim()) payerIdByInsurance[key] = findPayer(name, payers)?.payer_id ?? ''
+    })
+    return { ...settings, payerIdByInsurance, interchangeControlNumber: 0, lineChargeByRowId }
+  }, [settings, rows, chargeByRowId, defaultCharge, insuranceNames, payers])
+
+  const issues = useMemo(() => {
+    if (!clinic) return []
+    return validateClaimRows(rows, { clinic, clinicAddressLines, provider, patients }, options)
+  }, [clinic, clinicAddressLines, provider, patients, rows, options])
+
+  const batchIssues = issues.filter((i) => i.rowId === null)
+  const issuesByRowId = useMemo(() => {
+    const map = new Map<string, string[]>()
+    issues.forEach((i) => {
+      if (!i.rowId) return
+      map.set(i.rowId, [...(map.get(i.rowId) ?? []), i.message])
+    })
+    return map
+  }, [issues])
+  const readyCount = rows.filter((r) => !issuesByRowId.has(r.id)).length
+
+  const updateSetting = <K extends keyof Claim837pEnvelopeSettings>(key: K, value: Claim837pEnvelopeSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleGenerate = async () => {
+    if (!clinic) return
+    setGenerating(true)
+    try {
+      storeClaim837pSettings(clinicId, settings)
+      const context = { clinic, clinicAddressLines, provider, patients }
+      // Build once with the placeholder number so a batch that fails validation does not use up an ISA13
+      build837pBatch(rows, context, options)
+      const interchangeControlNumber = await allocateInterchangeControlNumber(supabase, clinicId, '837P')
+      const result = build837pBatch(rows, context, { ...options, interchangeControlNumber })
+      const saved = await saveClaimBatch(supabase, {
+        clinic_id: clinicId,
+        provider_id: provider.id,
+        interchange_control_number: interchangeControlNumber,
+        file_name: result.fileName,
+        content: result.content,
+        row_ids: result.rowIds,
+        claim_count: result.claimCount,
+        total_charge: result.totalCharge,
+        submitter_id: settings.submitterId.trim() || null,
+        receiver_id: settings.receiverId.trim() || null,
+        payer_sequence: 'primary',
+        created_by: userProfile?.id ?? null,
+      })
+      const today = new Date()
+      const submitDate = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`
+      await onRowsClaimed(result.rowIds, submitDate)
+      downloadClaimFile(saved.file_name, saved.content)
+      setBatches((prev) => [saved, ...prev])
+    } catch (err) {
+      console.error('[ClaimBatchModal] generate', err)
+      alert(err instanceof Error && err.message ? err.message : 'Failed to create 837P batch. Please try again.')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <FileText size={20} />
+          Create 837P batch
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          {provider.first_name} {provider.last_name} · {rows.length} selected row{rows.length === 1 ? '' : 's'}
+        </p>
+
+        {loading ? (
+          <p className="text-white/80">Loading...</p>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-4 gap-3 mb-4">
+              <div>
+                <label className={labelClass}>Submitter ID (ETIN)</label>
+                <input className={inputClass} value={settings.submitterId} onChange={(e) => updateSetting('submitterId', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Submitter name</label>
+                <input className={inputClass} value={settings.submitterName} placeholder={clinic?.name ?? ''} onChange={(e) => updateSetting('submitterName', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Contact name</label>
+                <input className={inputClass} value={settings.submitterContactName} onChange={(e) => updateSetting('submitterContactName', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Contact phone</label>
+                <input className={inputClass} value={settings.submitterPhone} placeholder={clinic?.phone ?? ''} onChange={(e) => updateSetting('submitterPhone', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Receiver ID</label>
+                <input className={inputClass} value={settings.receiverId} onChange={(e) => updateSetting('receiverId', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Receiver name</label>
+                <input className={inputClass} value={settings.receiverName} onChange={(e) => updateSetting('receiverName', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Claim filing indicator</label>
+                <select className={inputClass} value={settings.claimFilingIndicator} onChange={(e) => updateSetting('claimFilingIndicator', e.target.value)}>
+                  <option value="CI" className="bg-slate-900">CI – Commercial</option>
+                  <option value="BL" className="bg-slate-900">BL – Blue Cross/Blue Shield</option>
+                  <option value="HM" className="bg-slate-900">HM – HMO</option>
+                  <option value="MB" className="bg-slate-900">MB – Medicare Part B</option>
+                  <option value="MC" className="bg-slate-900">MC – Medicaid</option>
+                  <option value="CH" className="bg-slate-900">CH – Tricare</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Usage</label>
+                <select className={inputClass} value={settings.usageIndicator} onChange={(e) => updateSetting('usageIndicator', e.target.value as 'P' | 'T')}>
+                  <option value="P" className="bg-slate-900">Production</option>
+                  <option value="T" className="bg-slate-900">Test</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Diagnosis (ICD-10)</label>
+                <input className={inputClass} value={settings.diagnosisCode} placeholder="F41.1" onChange={(e) => updateSetting('diagnosisCode', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Charge per CPT line</label>
+                <input className={inputClass} type="number" min="0" step="0.01" value={defaultCharge} onChange={(e) => setDefaultCharge(e.target.value)} />
+              </div>
+            </div>
+
+            {insuranceNames.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-white/90 mb-2">Payer IDs</p>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {insuranceNames.map(([key, name]) => (
+                    <div key={key}>
+                      <label className={labelClass}>{name}</label>
+                      <input
+                        className={inputClass}
+                        value={settings.payerIdByInsurance[key] ?? ''}
+                        placeholder={findPayer(name, payers)?.payer_id ?? ''}
+                        onChange={(e) => updateSetting('payerIdByInsurance', { ...settings.payerIdByInsurance, [key]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {batchIssues.length > 0 && (
+              <div className="mb-4 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm">
+                {batchIssues.map((i) => (
+                  <p key={i.message} className="flex items-start gap-2"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />{i.message}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="table-container dark-theme mb-4">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Patient ID</th>
+                    <th>Date of Service</th>
+                    <th>CPT</th>
+                    <th>Insurance</th>
+                    <th>Line charge</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const rowIssues = issuesByRowId.get(row.id)
+                    return (
+                      <tr key={row.id}>
+                        <td>{row.patient_id}</td>
+                        <td>{toDisplayDate(row.appointment_date)}</td>
+                        <td>{cptCodesForRow(row).join(', ')}</td>
+                        <td>{row.patient_insurance}</td>
+                        <td>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            className="w-24 px-2 py-1 border border-white/20 bg-white/10 text-white rounded"
+                            value={chargeByRowId[row.id] ?? defaultCharge}
+                            onChange={(e) => setChargeByRowId((prev) => ({ ...prev, [row.id]: e.target.value }))}
+                          />
+                        </td>
+                        <td className={rowIssues ? 'text-yellow-300' : 'text-emerald-300'}>
+                          {rowIssues ? rowIssues.join(' ') : 'Ready'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 mb-6">
+              <p className="text-sm text-white/70">
+                {readyCount} of {rows.length} row{rows.length === 1 ? '' : 's'} ready. Rows with issues are skipped; billed rows move to Claim Sent.
+              </p>
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={generating || readyCount === 0 || batchIssues.length > 0}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {generating ? <Loader className="animate-spin" size={18} /> : <Download size={18} />}
+                Generate & Download
+              </button>
+            </div>
+
+            <h3 className="text-sm font-semibold text-white/90 mb-2">Previous batches</h3>
+            {batches.length === 0 ? (
+              <p className="text-sm text-white/60">No batches yet for this provider.</p>
+            ) : (
+              <div className="space-y-2">
+                {batches.map((batch) => (
+                  <div key={batch.id} className="flex items-center justify-between p-3 bg-white/5 rounded-lg border border-white/10 text-sm text-white/90">
+                    <span>
+                      #{batch.interchange_control_number} · {formatDateTime(batch.created_at)} · {batch.claim_count} claim{batch.claim_count === 1 ? '' : 's'} · {formatCurrency(batch.total_charge)}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => downloadClaimFile(batch.file_name, batch.content)}
+                      className="text-primary-400 hover:text-primary-300"
+                      title="Download 837P file"
+                    >
+                      <Download size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
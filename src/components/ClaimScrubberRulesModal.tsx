@@ -0,0 +1,100 @@
+import { useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X, ShieldCheck } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { SCRUB_RULES, saveScrubSettings, type ScrubSettings } from '@/lib/claimScrubber'
+import type { ClaimScrubSeverity } from '@/types'
+
+interface ClaimScrubberRulesModalProps {
+  clinicId: string
+  settings: ScrubSettings
+  userId: string | null
+  onClose: () => void
+  onSaved: (settings: ScrubSettings) => void
+}
+
+const SEVERITY_LABELS: Record<ClaimScrubSeverity, string> = {
+  error: 'Error (block Claim Sent)',
+  warning: 'Warning (ask first)',
+  off: 'Off',
+}
+
+export default function ClaimScrubberRulesModal({ clinicId, settings, userId, onClose, onSaved }: ClaimScrubberRulesModalProps) {
+  const [draft, setDraft] = useState<ScrubSettings>(settings)
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await saveScrubSettings(supabase, clinicId, draft, userId)
+      onSaved(draft)
+      onClose()
+    } catch (err) {
+      console.error('[ClaimScrubberRulesModal] save', err)
+      alert('Failed to save scrubber rules. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-lg border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <ShieldCheck size={20} />
+          Claim scrubber rules
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          Checked on unsent rows and whenever Claim Status is set to Claim Sent. Applies to every provider in this clinic.
+        </p>
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {SCRUB_RULES.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3">
+              <span className="text-sm text-white">{rule.label}</span>
+              <select
+                className="px-2 py-1 border border-white/20 bg-white/10 text-white rounded-md text-sm"
+                value={draft[rule.id]}
+                onChange={(e) => setDraft((prev) => ({ ...prev, [rule.id]: e.target.value as ClaimScrubSeverity }))}
+              >
+                {(Object.keys(SEVERITY_LABELS) as ClaimScrubSeverity[]).map((s) => (
+                  <option key={s} value={s} className="bg-slate-900">
+                    {SEVERITY_LABELS[s]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
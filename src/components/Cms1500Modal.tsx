@@ -0,0 +1,140 @@
+import { useEffect, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Printer } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import { generateCms1500Pdf, type Cms1500Options } from '@/lib/cms1500Pdf'
+import type { Clinic, Patient, Provider, SheetRow } from '@/types'
+
+interface Cms1500ModalProps {
+  clinicId: string
+  provider: Provider
+  /** Selected grid rows; one claim form each. */
+  rows: SheetRow[]
+  patients: Patient[]
+  onClose: () => void
+}
+
+export default function Cms1500Modal({ clinicId, provider, rows, patients, onClose }: Cms1500ModalProps) {
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [clinicAddressLines, setClinicAddressLines] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [mode, setMode] = useState<Cms1500Options['mode']>('full')
+  const [diagnosisCode, setDiagnosisCode] = useState('')
+  const [offsetX, setOffsetX] = useState('0')
+  const [offsetY, setOffsetY] = useState('0')
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      supabase.from('clinics').select('*').eq('id', clinicId).single(),
+      fetchClinicAddressesByClinicIds([clinicId]),
+    ])
+      .then(([clinicResult, addresses]) => {
+        if (cancelled) return
+        if (clinicResult.error) throw clinicResult.error
+        setClinic(clinicResult.data as Clinic)
+        setClinicAddressLines(addresses[clinicId] ?? [])
+      })
+      .catch((err) => {
+        console.error('[Cms1500Modal] load', err)
+        if (!cancelled) alert('Failed to load clinic billing details. Please try again.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [clinicId])
+
+  const handleGenerate = () => {
+    if (!clinic) return
+    try {
+      const pdf = generateCms1500Pdf(
+        rows,
+        { clinic, clinicAddressLines, provider, patients },
+        { mode, diagnosisCode: diagnosisCode.trim(), offsetX: parseFloat(offsetX) || 0, offsetY: parseFloat(offsetY) || 0 }
+      )
+      pdf.save(`CMS1500_${provider.last_name || 'Provider'}_${new Date().toISOString().split('T')[0]}.pdf`)
+      onClose()
+    } catch (err) {
+      console.error('[Cms1500Modal] generate', err)
+      alert('Failed to generate CMS-1500. Please try again.')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-md border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <Printer size={20} />
+          CMS-1500 claim forms
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          {rows.length} form{rows.length === 1 ? '' : 's'} for {provider.first_name} {provider.last_name}
+        </p>
+        {loading ? (
+          <p className="text-white/80">Loading...</p>
+        ) : (
+          <div className="space-y-3">
+            <div>
+              <label className={labelClass}>Print style</label>
+              <select className={inputClass} value={mode} onChange={(e) => setMode(e.target.value as Cms1500Options['mode'])}>
+                <option value="full" className="bg-slate-900">Full form (plain paper)</option>
+                <option value="data" className="bg-slate-900">Data only (red pre-printed form)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Diagnosis (ICD-10, box 21A)</label>
+              <input className={inputClass} value={diagnosisCode} placeholder="F41.1" onChange={(e) => setDiagnosisCode(e.target.value)} />
+            </div>
+            {mode === 'data' && (
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Horizontal offset (in)</label>
+                  <input className={inputClass} type="number" step="0.05" value={offsetX} onChange={(e) => setOffsetX(e.target.value)} />
+                </div>
+                <div>
+                  <label className={labelClass}>Vertical offset (in)</label>
+                  <input className={inputClass} type="number" step="0.05" value={offsetY} onChange={(e) => setOffsetY(e.target.value)} />
+                </div>
+              </div>
+            )}
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleGenerate}
+                disabled={!clinic}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Printer size={18} />
+                Generate PDF
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,470 @@
+import { useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import type { CompensationModelType, Provider, ProviderCompensationModel } from '@/types'
+import { Plus, Edit, Trash2, X } from 'lucide-react'
+import {
+  saveCompensationModel,
+  deleteCompensationModel,
+  describeCompensationModel,
+  formatEffectiveRange,
+  validateCompensationModel,
+  COMPENSATION_MODEL_TYPES,
+  COMPENSATION_MODEL_TYPE_LABELS,
+  type CompensationModelInput,
+} from '@/lib/compensationModels'
+
+const percentValue = (rate: number | null) => (rate != null ? Math.round(rate * 10000) / 100 : '')
+const percentInput = (value: string) => (value === '' ? null : Number(value) / 100)
+const amountInput = (value: string) => (value === '' ? null : Number(value))
+
+function emptyInput(): CompensationModelInput {
+  return {
+    model_type: 'flat_percent',
+    effective_from: '',
+    effective_to: null,
+    percent: null,
+    tiers: [{ up_to: null, rate: 0 }],
+    code_rates: [],
+    default_code_amount: null,
+    salary: null,
+    bonus_threshold: null,
+    bonus_rate: null,
+    minimum_pay: null,
+    notes: null,
+  }
+}
+
+/** Lists a provider's compensation models by effective date and edits them. */
+export default function CompensationModelsModal({
+  provider,
+  models,
+  onClose,
+  onChanged,
+}: {
+  provider: Provider
+  /** This provider's models, oldest first. */
+  models: ProviderCompensationModel[]
+  onClose: () => void
+  onChanged: () => Promise<void>
+}) {
+  const [editing, setEditing] = useState<ProviderCompensationModel | null>(null)
+  const [showForm, setShowForm] = useState(false)
+
+  const handleSave = async (input: CompensationModelInput) => {
+    try {
+      await saveCompensationModel(supabase, provider.id, editing?.id ?? null, input)
+      setShowForm(false)
+      setEditing(null)
+      await onChanged()
+    } catch (error) {
+      console.error('Error saving compensation model:', error)
+      alert('Failed to save compensation model. Only one model can start on a given date. Please try again.')
+    }
+  }
+
+  const handleDelete = async (model: ProviderCompensationModel) => {
+    if (!confirm(`Delete the ${COMPENSATION_MODEL_TYPE_LABELS[model.model_type].toLowerCase()} model effective ${formatEffectiveRange(model)}? Months already saved keep their amounts.`)) return
+    try {
+      await deleteCompensationModel(supabase, model.id)
+      await onChanged()
+    } catch (error) {
+      console.error('Error deleting compensation model:', error)
+      alert('Failed to delete compensation model. Please try again.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Compensation – {provider.first_name} {provider.last_name}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        {showForm ? (
+          <CompensationModelForm
+            model={editing}
+            otherModels={models.filter((m) => m.id !== editing?.id)}
+            onCancel={() => {
+              setShowForm(false)
+              setEditing(null)
+            }}
+            onSave={handleSave}
+          />
+        ) : (
+          <div className="p-6 space-y-4 overflow-y-auto">
+            <div className="flex justify-between items-start gap-4">
+              <p className="text-sm text-gray-600">
+                The model in effect on the first day of a pay month computes the Provider Cut line for that month. Months with
+                no model use the provider cut of {Math.round((provider.provider_cut_percent ?? 0.7) * 100)}%.
+              </p>
+              <button
+                onClick={() => {
+                  setEditing(null)
+                  setShowForm(true)
+                }}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 whitespace-nowrap"
+              >
+                <Plus size={18} />
+                Add Model
+              </button>
+            </div>
+            {models.length === 0 ? (
+              <p className="text-sm text-gray-500">No compensation models yet.</p>
+            ) : (
+              <table className="w-full text-sm text-gray-900">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 font-medium">Effective</th>
+                    <th className="py-2 font-medium">Model</th>
+                    <th className="py-2 font-medium">Terms</th>
+                    <th className="py-2 font-medium" style={{ width: '70px' }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {models.map((model) => (
+                    <tr key={model.id} className="border-b border-gray-100 align-top">
+                      <td className="py-2 whitespace-nowrap">{formatEffectiveRange(model)}</td>
+                      <td className="py-2">{COMPENSATION_MODEL_TYPE_LABELS[model.model_type]}</td>
+                      <td className="py-2">
+                        {describeCompensationModel(model)}
+                        {model.notes && <div className="text-xs text-gray-500">{model.notes}</div>}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => {
+                              setEditing(model)
+                              setShowForm(true)
+                            }}
+                            className="text-primary-600 hover:text-primary-700"
+                            style={{ padding: '4px' }}
+                            title="Edit"
+                          >
+                            <Edit size={16} />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(model)}
+                            className="text-red-500 hover:text-red-700"
+                            style={{ padding: '4px' }}
+                            title="Delete"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function CompensationModelForm({
+  model,
+  otherModels,
+  onCancel,
+  onSave,
+}: {
+  model: ProviderCompensationModel | null
+  otherModels: ProviderCompensationModel[]
+  onCancel: () => void
+  onSave: (input: CompensationModelInput) => Promise<void>
+}) {
+  const [input, setInput] = useState<CompensationModelInput>(() => {
+    if (!model) return emptyInput()
+    const { id: _id, provider_id: _providerId, created_at: _createdAt, updated_at: _updatedAt, ...rest } = model
+    return {
+      ...rest,
+      tiers: model.tiers.length > 0 ? model.tiers.map((t) => ({ ...t })) : emptyInput().tiers,
+      code_rates: model.code_rates.map((r) => ({ ...r })),
+    }
+  })
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const update = (patch: Partial<CompensationModelInput>) => setInput((prev) => ({ ...prev, ...patch }))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const problems = validateCompensationModel(input, otherModels)
+    setErrors(problems)
+    if (problems.length > 0) return
+    setSaving(true)
+    try {
+      await onSave(input)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-black'
+  const smallInputClass = 'px-2 py-1 border border-gray-300 rounded text-black'
+
+  return (
+    <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Model *</label>
+          <select
+            value={input.model_type}
+            onChange={(e) => update({ model_type: e.target.value as CompensationModelType })}
+            className={inputClass}
+          >
+            {COMPENSATION_MODEL_TYPES.map((t) => (
+              <option key={t.key} value={t.key}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Effective from *</label>
+          <input
+            type="date"
+            required
+            value={input.effective_from}
+            onChange={(e) => update({ effective_from: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Effective to</label>
+          <input
+            type="date"
+            value={input.effective_to ?? ''}
+            onChange={(e) => update({ effective_to: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {input.model_type === 'flat_percent' && (
+        <div className="w-48">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Percent of total *</label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="0.01"
+            value={percentValue(input.percent)}
+            onChange={(e) => update({ percent: percentInput(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {input.model_type === 'tiered_percent' && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-700">Tiers (per pay period)</label>
+            <button
+              type="button"
+              onClick={() => {
+                // New tier goes before the open-ended last one
+                const tiers = [...input.tiers]
+                tiers.splice(Math.max(tiers.length - 1, 0), 0, { up_to: null, rate: 0 })
+                update({ tiers })
+              }}
+              className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+            >
+              <Plus size={16} />
+              Add tier
+            </button>
+          </div>
+          <div className="space-y-2">
+            {input.tiers.map((tier, i) => {
+              const last = i === input.tiers.length - 1
+              const from = i > 0 ? input.tiers[i - 1].up_to : 0
+              return (
+                <div key={i} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    value={percentValue(tier.rate)}
+                    onChange={(e) => update({ tiers: input.tiers.map((t, j) => (j === i ? { ...t, rate: percentInput(e.target.value) ?? 0 } : t)) })}
+                    className={`${smallInputClass} w-24`}
+                  />
+                  <span>% of the amount from ${from ?? '?'}</span>
+                  {last ? (
+                    <span>and above</span>
+                  ) : (
+                    <>
+                      <span>up to $</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={tier.up_to ?? ''}
+                        onChange={(e) => update({ tiers: input.tiers.map((t, j) => (j === i ? { ...t, up_to: amountInput(e.target.value) } : t)) })}
+                        className={`${smallInputClass} w-32`}
+                      />
+                    </>
+                  )}
+                  {input.tiers.length > 1 && !last && (
+                    <button
+                      type="button"
+                      onClick={() => update({ tiers: input.tiers.filter((_, j) => j !== i) })}
+                      className="text-red-500 hover:text-red-700"
+                      title="Remove tier"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
+      {input.model_type === 'per_code' && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-700">Fee per visit by CPT code</label>
+            <button
+              type="button"
+              onClick={() => update({ code_rates: [...input.code_rates, { code: '', amount: 0 }] })}
+              className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+            >
+              <Plus size={16} />
+              Add code
+            </button>
+          </div>
+          <div className="space-y-2">
+            {input.code_rates.map((rate, i) => (
+              <div key={i} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="text"
+                  value={rate.code}
+                  onChange={(e) => update({ code_rates: input.code_rates.map((r, j) => (j === i ? { ...r, code: e.target.value } : r)) })}
+                  placeholder="CPT, e.g. 90837"
+                  className={`${smallInputClass} w-32`}
+                />
+                <span>$</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={rate.amount}
+                  onChange={(e) => update({ code_rates: input.code_rates.map((r, j) => (j === i ? { ...r, amount: Number(e.target.value) } : r)) })}
+                  className={`${smallInputClass} w-32`}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ code_rates: input.code_rates.filter((_, j) => j !== i) })}
+                  className="text-red-500 hover:text-red-700"
+                  title="Remove code"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Other codes $
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={input.default_code_amount ?? ''}
+                onChange={(e) => update({ default_code_amount: amountInput(e.target.value) })}
+                placeholder="0"
+                className={`${smallInputClass} w-32`}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">Visits are counted from the provider's sheet for the pay period; no-charge appointments are not paid.</p>
+        </div>
+      )}
+
+      {input.model_type === 'salary_bonus' && (
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Salary per pay period *</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={input.salary ?? ''}
+              onChange={(e) => update({ salary: amountInput(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Bonus %</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step="0.01"
+              value={percentValue(input.bonus_rate)}
+              onChange={(e) => update({ bonus_rate: percentInput(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">of total above $</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={input.bonus_threshold ?? ''}
+              onChange={(e) => update({ bonus_threshold: amountInput(e.target.value) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Guaranteed minimum $</label>
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={input.minimum_pay ?? ''}
+            onChange={(e) => update({ minimum_pay: amountInput(e.target.value) })}
+            placeholder="None"
+            className={inputClass}
+          />
+        </div>
+        <div className="col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+          <input
+            type="text"
+            value={input.notes ?? ''}
+            onChange={(e) => update({ notes: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-red-700 text-sm">
+          {errors.map((msg) => (
+            <p key={msg}>{msg}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3 pt-4">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+          Back
+        </button>
+        <button type="submit" disabled={saving} className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50">
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  )
+}
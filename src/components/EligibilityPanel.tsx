@@ -0,0 +1,377 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { AlertTriangle, Download, Loader, ShieldCheck, Upload } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  applyEligibilityResponse,
+  applyEligibilityToPatient,
+  build270,
+  fetchEligibilityChecks,
+  patientEligibilityUpdates,
+  saveEligibilityRequest,
+  validateEligibilityRequest,
+  type Eligibility270Options,
+  type PatientEligibilityUpdates,
+} from '@/lib/eligibility270'
+import { downloadClaimFile, allocateInterchangeControlNumber } from '@/lib/claim837p'
+import { fetchPayers, findPayer } from '@/lib/payers'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { formatCurrency, formatDateTime, toDisplayDate, todayIso } from '@/lib/utils'
+import type { Clinic, EligibilityCheck, EligibilityStatus, Patient, Payer } from '@/types'
+
+/** Envelope fields remembered per clinic so front desk doesn't re-enter clearinghouse IDs for every inquiry. */
+type EnvelopeSettings = Pick<Eligibility270Options, 'submitterId' | 'receiverId' | 'usageIndicator'>
+
+const SETTINGS_KEY_PREFIX = 'eligibility_270_settings_'
+
+function loadEnvelopeSettings(clinicId: string): EnvelopeSettings {
+  const defaults: EnvelopeSettings = { submitterId: '', receiverId: '', usageIndicator: 'P' }
+  try {
+    const raw = localStorage.getItem(`${SETTINGS_KEY_PREFIX}${clinicId}`)
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults
+  } catch {
+    return defaults
+  }
+}
+
+const STATUS_CLASSES: Record<EligibilityStatus, string> = {
+  pending: 'text-white/60',
+  active: 'text-emerald-300',
+  inactive: 'text-red-300',
+  rejected: 'text-yellow-300',
+}
+
+interface EligibilityPanelProps {
+  clinicId: string
+  /** Patient columns the user may not change (column locks); verified values are not offered for them. */
+  lockedPatientFields?: { copay: boolean; coinsurance: boolean }
+  /** Called after verified copay / coinsurance were written to a patient, so the grid can reload. */
+  onPatientUpdated?: () => void
+}
+
+export default function EligibilityPanel({ clinicId, lockedPatientFields, onPatientUpdated }: EligibilityPanelProps) {
+  const { userProfile } = useAuth()
+  const [checks, setChecks] = useState<EligibilityCheck[]>([])
+  const [patients, setPatients] = useState<Patient[]>([])
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [settings, setSettings] = useState<EnvelopeSettings>(() => loadEnvelopeSettings(clinicId))
+  const [patientId, setPatientId] = useState('')
+  const [serviceDate, setServiceDate] = useState(todayIso())
+  const [unmatchedMessage, setUnmatchedMessage] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const canEdit = ['super_admin', 'admin', 'billing_staff', 'office_staff'].includes(userProfile?.role ?? '')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [checksResult, patientsResult, clinicResult, payerList] = await Promise.all([
+        fetchEligibilityChecks(supabase, clinicId),
+        supabase.from('patients').select('*').eq('clinic_id', clinicId).order('patient_id'),
+        supabase.from('clinics').select('*').eq('id', clinicId).single(),
+        fetchPayers(supabase),
+      ])
+      if (patientsResult.error) throw patientsResult.error
+      if (clinicResult.error) throw clinicResult.error
+      setChecks(checksResult)
+      setPatients(((patientsResult.data || []) as Patient[]).filter((p) => p.patient_id?.trim()))
+      setClinic(clinicResult.data as Clinic)
+      setPayers(payerList)
+    } catch (err) {
+      console.error('[EligibilityPanel] load', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const patientsByKey = useMemo(() => {
+    const map = new Map<string, Patient>()
+    patients.forEach((p) => map.set(normalizePatientIdKey(p.patient_id), p))
+    return map
+  }, [patients])
+
+  const selectedPatient = patientId ? patientsByKey.get(normalizePatientIdKey(patientId)) ?? null : null
+  const payer = selectedPatient ? findPayer(selectedPatient.insurance, payers) : null
+
+  const issues = useMemo(() => {
+    if (!clinic || !selectedPatient) return []
+    return validateEligibilityRequest(
+      { clinic, patient: selectedPatient, payerName: payer?.name ?? selectedPatient.insurance ?? '', payerId: payer?.payer_id ?? '' },
+      { ...settings, interchangeControlNumber: 0, serviceDate }
+    )
+  }, [clinic, selectedPatient, payer, settings, serviceDate])
+
+  /** Verified values the user may apply, per check id (latest answered check per patient only). */
+  const updatesByCheckId = useMemo(() => {
+    const map = new Map<string, PatientEligibilityUpdates>()
+    const seen = new Set<string>()
+    checks.forEach((check) => {
+      const key = normalizePatientIdKey(check.patient_id)
+      if (check.status === 'pending' || seen.has(key)) return
+      seen.add(key)
+      const patient = patientsByKey.get(key)
+      if (!patient) return
+      const updates = patientEligibilityUpdates(patient, check)
+      if (lockedPatientFields?.copay) delete updates.copay
+      if (lockedPatientFields?.coinsurance) delete updates.coinsurance
+      if (updates.copay !== undefined || updates.coinsurance !== undefined) map.set(check.id, updates)
+    })
+    return map
+  }, [checks, patientsByKey, lockedPatientFields?.copay, lockedPatientFields?.coinsurance])
+
+  const updateSetting = <K extends keyof EnvelopeSettings>(key: K, value: EnvelopeSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const handleCreate270 = async () => {
+    if (!clinic || !selectedPatient) return
+    setBusy(true)
+    try {
+      localStorage.setItem(`${SETTINGS_KEY_PREFIX}${clinicId}`, JSON.stringify(settings))
+      const payerName = payer?.name ?? selectedPatient.insurance ?? ''
+      const context = { clinic, patient: selectedPatient, payerName, payerId: payer?.payer_id ?? '' }
+      // Validate with a placeholder number first so a rejected inquiry does not use up an ISA13
+      build270(context, { ...settings, interchangeControlNumber: 0, serviceDate })
+      const interchangeControlNumber = await allocateInterchangeControlNumber(supabase, clinicId, '270')
+      const result = build270(context, { ...settings, interchangeControlNumber, serviceDate })
+      const saved = await saveEligibilityRequest(supabase, {
+        clinic_id: clinicId,
+        patient_id: selectedPatient.patient_id,
+        patient_name: `${selectedPatient.first_name} ${selectedPatient.last_name}`.trim() || null,
+        subscriber_id: selectedPatient.subscriber_id,
+        payer_name: payerName || null,
+        payer_id: payer?.payer_id ?? null,
+        service_date: serviceDate,
+        interchange_control_number: interchangeControlNumber,
+        trace_number: result.traceNumber,
+        request_file_name: result.fileName,
+        request_content: result.content,
+        created_by: userProfile?.id ?? null,
+      })
+      downloadClaimFile(saved.request_file_name, saved.request_content)
+      setChecks((prev) => [saved, ...prev])
+    } catch (err) {
+      console.error('[EligibilityPanel] create 270', err)
+      alert(err instanceof Error && err.message ? err.message : 'Failed to create the 270 inquiry. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleLoad271 = async (file: File) => {
+    setBusy(true)
+    setUnmatchedMessage(null)
+    try {
+      const { updated, unmatched } = await applyEligibilityResponse(supabase, clinicId, await file.text())
+      if (unmatched.length > 0) {
+        const names = unmatched.map((s) => [s.firstName, s.lastName].filter(Boolean).join(' ') || s.memberId || 'unknown subscriber')
+        setUnmatchedMessage(`${updated.length} check(s) updated. No pending inquiry found for: ${names.join(', ')}.`)
+      }
+      await load()
+    } catch (err) {
+      console.error('[EligibilityPanel] load 271', err)
+      alert(err instanceof Error && err.message ? err.message : 'Failed to load the 271 response. Please try again.')
+    } finally {
+      setBusy(false)
+      if (fileInputRef.current) fileInputRef.current.value = ''
+    }
+  }
+
+  const handleApplyToPatient = async (check: EligibilityCheck, updates: PatientEligibilityUpdates) => {
+    const patient = patientsByKey.get(normalizePatientIdKey(check.patient_id))
+    if (!patient) return
+    const parts = [
+      updates.copay !== undefined ? `copay ${formatCurrency(updates.copay)}` : '',
+      updates.coinsurance !== undefined ? `coinsurance ${updates.coinsurance}%` : '',
+    ].filter(Boolean)
+    if (!confirm(`Update ${patient.first_name} ${patient.last_name} to the verified ${parts.join(' and ')}?`)) return
+    setBusy(true)
+    try {
+      await applyEligibilityToPatient(supabase, patient.id, updates)
+      await load()
+      onPatientUpdated?.()
+    } catch (err) {
+      console.error('[EligibilityPanel] apply to patient', err)
+      alert('Failed to update the patient. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-3">
+        <h3 className="text-white font-medium flex items-center gap-2">
+          <ShieldCheck size={18} />
+          Eligibility checks
+        </h3>
+        {canEdit && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.271,.x12,.edi"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleLoad271(file)
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm disabled:opacity-50"
+            >
+              <Upload size={16} />
+              Load 271 response
+            </button>
+          </>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="grid md:grid-cols-6 gap-3 mb-3 items-end">
+          <div className="md:col-span-2">
+            <label className={labelClass}>Patient</label>
+            <select className={inputClass} value={patientId} onChange={(e) => setPatientId(e.target.value)}>
+              <option value="" className="bg-slate-900">Select patient...</option>
+              {patients.map((p) => (
+                <option key={p.id} value={p.patient_id} className="bg-slate-900">
+                  {p.patient_id} – {p.first_name} {p.last_name}{p.insurance ? ` (${p.insurance})` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Date of service</label>
+            <input type="date" className={inputClass} value={serviceDate} onChange={(e) => setServiceDate(e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Submitter ID (ETIN)</label>
+            <input className={inputClass} value={settings.submitterId} onChange={(e) => updateSetting('submitterId', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Receiver ID</label>
+            <input className={inputClass} value={settings.receiverId} onChange={(e) => updateSetting('receiverId', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Usage</label>
+            <select className={inputClass} value={settings.usageIndicator} onChange={(e) => updateSetting('usageIndicator', e.target.value as 'P' | 'T')}>
+              <option value="P" className="bg-slate-900">Production</option>
+              <option value="T" className="bg-slate-900">Test</option>
+            </select>
+          </div>
+          <div className="md:col-span-6 flex items-center gap-3 flex-wrap">
+            <button
+              type="button"
+              onClick={handleCreate270}
+              disabled={busy || loading || !selectedPatient || issues.length > 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? <Loader className="animate-spin" size={16} /> : <Download size={16} />}
+              Create 270 inquiry
+            </button>
+            {selectedPatient && payer && <span className="text-sm text-white/70">Payer: {payer.name}{payer.payer_id ? ` (${payer.payer_id})` : ''}</span>}
+          </div>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <div className="mb-3 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm">
+          {issues.map((message) => (
+            <p key={message} className="flex items-start gap-2"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />{message}</p>
+          ))}
+        </div>
+      )}
+      {unmatchedMessage && (
+        <p className="mb-3 text-sm text-yellow-200 flex items-start gap-2"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />{unmatchedMessage}</p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={16} />Loading eligibility checks...</p>
+      ) : checks.length === 0 ? (
+        <p className="text-sm text-white/60">No eligibility checks yet.</p>
+      ) : (
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme w-full text-sm">
+            <thead>
+              <tr>
+                <th>Requested</th>
+                <th>Patient</th>
+                <th>Payer</th>
+                <th>Date of Service</th>
+                <th>Status</th>
+                <th>Verified</th>
+                <th>Plan</th>
+                <th>Copay</th>
+                <th>Coinsurance</th>
+                <th>Deductible Left</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {checks.map((check) => {
+                const updates = updatesByCheckId.get(check.id)
+                return (
+                  <tr key={check.id}>
+                    <td>{formatDateTime(check.created_at)}</td>
+                    <td>{check.patient_id} {check.patient_name}</td>
+                    <td>{check.payer_name}</td>
+                    <td>{toDisplayDate(check.service_date)}</td>
+                    <td className={`capitalize ${STATUS_CLASSES[check.status]}`} title={check.reject_reason ?? undefined}>
+                      {check.status}{check.reject_reason ? ` – ${check.reject_reason}` : ''}
+                    </td>
+                    <td>{check.responded_at ? formatDateTime(check.responded_at) : '—'}</td>
+                    <td>
+                      {check.plan_name}
+                      {(check.plan_begin_date || check.plan_end_date) && (
+                        <span className="text-white/60"> {check.plan_begin_date ? toDisplayDate(check.plan_begin_date) : '…'}–{check.plan_end_date ? toDisplayDate(check.plan_end_date) : '…'}</span>
+                      )}
+                    </td>
+                    <td className="text-right">{check.copay != null ? formatCurrency(check.copay) : '—'}</td>
+                    <td className="text-right">{check.coinsurance != null ? `${check.coinsurance}%` : '—'}</td>
+                    <td className="text-right">{check.deductible_remaining != null ? formatCurrency(check.deductible_remaining) : '—'}</td>
+                    <td>
+                      <div className="flex items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={() => downloadClaimFile(check.request_file_name, check.request_content)}
+                          className="text-primary-300 hover:text-primary-200"
+                          title="Download the 270 inquiry"
+                        >
+                          <Download size={16} />
+                        </button>
+                        {canEdit && updates && (
+                          <button
+                            type="button"
+                            onClick={() => handleApplyToPatient(check, updates)}
+                            disabled={busy}
+                            className="text-primary-300 hover:text-primary-200 whitespace-nowrap disabled:opacity-50"
+                            title="Copy the verified copay / coinsurance to the patient record"
+                          >
+                            Update patient
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,371 @@
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { supabase } from '@/lib/supabase'
+import { BillingCode, FeeSchedule, Payer } from '@/types'
+import { Plus, Edit, Trash2, X, Upload } from 'lucide-react'
+import { fetchPayers } from '@/lib/payers'
+import {
+  fetchFeeSchedules,
+  upsertFeeSchedules,
+  updateFeeSchedule,
+  deleteFeeSchedule,
+  parseFeeScheduleCsv,
+  type FeeScheduleInput,
+} from '@/lib/feeSchedules'
+import { formatCurrency, toDisplayDate } from '@/lib/utils'
+
+export default function FeeSchedulesTab({ billingCodes }: { billingCodes: BillingCode[] }) {
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [feeSchedules, setFeeSchedules] = useState<FeeSchedule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [payerFilter, setPayerFilter] = useState('')
+  const [editing, setEditing] = useState<FeeSchedule | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [importErrors, setImportErrors] = useState<string[]>([])
+  const [importing, setImporting] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const loadData = async () => {
+    try {
+      const [payerList, schedules] = await Promise.all([fetchPayers(supabase), fetchFeeSchedules(supabase)])
+      setPayers(payerList)
+      setFeeSchedules(schedules)
+    } catch (error) {
+      console.error('Error fetching fee schedules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const payerNameById = useMemo(() => new Map(payers.map((p) => [p.id, p.name])), [payers])
+  const codeById = useMemo(() => new Map(billingCodes.map((c) => [c.id, c.code])), [billingCodes])
+
+  const visibleSchedules = useMemo(() => {
+    const list = payerFilter ? feeSchedules.filter((f) => f.payer_id === payerFilter) : feeSchedules
+    return [...list].sort(
+      (a, b) =>
+        (payerNameById.get(a.payer_id) ?? '').localeCompare(payerNameById.get(b.payer_id) ?? '') ||
+        (codeById.get(a.billing_code_id) ?? '').localeCompare(codeById.get(b.billing_code_id) ?? '') ||
+        b.effective_from.localeCompare(a.effective_from)
+    )
+  }, [feeSchedules, payerFilter, payerNameById, codeById])
+
+  const handleSave = async (entry: FeeScheduleInput) => {
+    try {
+      if (editing) await updateFeeSchedule(supabase, editing.id, entry)
+      else await upsertFeeSchedules(supabase, [entry])
+      setShowForm(false)
+      setEditing(null)
+      await loadData()
+    } catch (error) {
+      console.error('Error saving fee schedule:', error)
+      alert('Failed to save fee schedule. Please try again.')
+    }
+  }
+
+  const handleDelete = async (entry: FeeSchedule) => {
+    if (!confirm('Delete this fee schedule entry?')) return
+    try {
+      await deleteFeeSchedule(supabase, entry.id)
+      await loadData()
+    } catch (error) {
+      console.error('Error deleting fee schedule:', error)
+      alert('Failed to delete fee schedule. Please try again.')
+    }
+  }
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setImporting(true)
+    try {
+      const { entries, errors } = parseFeeScheduleCsv(await file.text(), payers, billingCodes)
+      setImportErrors(errors)
+      if (entries.length === 0) return
+      if (errors.length > 0 && !confirm(`${errors.length} line(s) have errors and will be skipped. Import the other ${entries.length}?`)) return
+      await upsertFeeSchedules(supabase, entries)
+      await loadData()
+      alert(`Imported ${entries.length} fee schedule entr${entries.length === 1 ? 'y' : 'ies'}.`)
+    } catch (error) {
+      console.error('Error importing fee schedules:', error)
+      alert('Failed to import fee schedules. Please try again.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-700">Loading...</div>
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xl font-semibold text-white">Fee Schedules</h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={payerFilter}
+            onChange={(e) => setPayerFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-black bg-white"
+          >
+            <option value="">All payers</option>
+            {payers.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportFile} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50"
+          >
+            <Upload size={18} />
+            {importing ? 'Importing...' : 'Import CSV'}
+          </button>
+          <button
+            onClick={() => {
+              setEditing(null)
+              setShowForm(true)
+            }}
+            disabled={payers.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            <Plus size={18} />
+            Add Fee
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-white/70 mb-4">
+        CSV columns: payer, cpt_code, allowed_amount, effective_from, effective_to (optional). Payers match by name or alias;
+        codes must exist under Billing Codes. A row with the same payer, code and effective_from replaces the existing fee.
+      </p>
+
+      {importErrors.length > 0 && (
+        <div className="mb-4 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm">
+          <div className="flex justify-between items-start">
+            <p className="font-medium mb-1">Skipped lines</p>
+            <button onClick={() => setImportErrors([])} className="text-yellow-200/80 hover:text-yellow-100">
+              <X size={16} />
+            </button>
+          </div>
+          {importErrors.slice(0, 50).map((msg) => (
+            <p key={msg}>{msg}</p>
+          ))}
+          {importErrors.length > 50 && <p>…and {importErrors.length - 50} more</p>}
+        </div>
+      )}
+
+      <div className="table-container dark-theme">
+        <table className="table-spreadsheet dark-theme">
+          <thead>
+            <tr>
+              <th>Payer</th>
+              <th>CPT Code</th>
+              <th>Allowed</th>
+              <th>Effective from</th>
+              <th>Effective to</th>
+              <th style={{ width: '80px' }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleSchedules.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="text-center text-white/50">No fee schedule entries</td>
+              </tr>
+            ) : (
+              visibleSchedules.map((entry) => (
+                <tr key={entry.id}>
+                  <td>{payerNameById.get(entry.payer_id) ?? '-'}</td>
+                  <td>{codeById.get(entry.billing_code_id) ?? '-'}</td>
+                  <td>{formatCurrency(entry.allowed_amount)}</td>
+                  <td>{toDisplayDate(entry.effective_from)}</td>
+                  <td>{entry.effective_to ? toDisplayDate(entry.effective_to) : 'Open'}</td>
+                  <td>
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => {
+                          setEditing(entry)
+                          setShowForm(true)
+                        }}
+                        className="text-primary-400 hover:text-primary-300"
+                        style={{ padding: '4px' }}
+                        title="Edit"
+                      >
+                        <Edit size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="text-red-400 hover:text-red-300"
+                        style={{ padding: '4px' }}
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {showForm && (
+        <FeeScheduleFormModal
+          entry={editing}
+          payers={payers}
+          billingCodes={billingCodes}
+          defaultPayerId={payerFilter}
+          onClose={() => {
+            setShowForm(false)
+            setEditing(null)
+          }}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  )
+}
+
+function FeeScheduleFormModal({
+  entry,
+  payers,
+  billingCodes,
+  defaultPayerId,
+  onClose,
+  onSave,
+}: {
+  entry: FeeSchedule | null
+  payers: Payer[]
+  billingCodes: BillingCode[]
+  defaultPayerId: string
+  onSave: (data: FeeScheduleInput) => Promise<void>
+  onClose: () => void
+}) {
+  const [formData, setFormData] = useState({
+    payer_id: entry?.payer_id ?? (defaultPayerId || payers[0]?.id || ''),
+    billing_code_id: entry?.billing_code_id ?? billingCodes[0]?.id ?? '',
+    allowed_amount: entry ? String(entry.allowed_amount) : '',
+    effective_from: entry?.effective_from ?? `${new Date().getFullYear()}-01-01`,
+    effective_to: entry?.effective_to ?? '',
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const amount = Number(formData.allowed_amount)
+    if (!formData.payer_id || !formData.billing_code_id || !Number.isFinite(amount) || amount < 0 || !formData.effective_from) {
+      alert('Payer, code, allowed amount and effective from are required')
+      return
+    }
+    if (formData.effective_to && formData.effective_to < formData.effective_from) {
+      alert('Effective to must be on or after effective from')
+      return
+    }
+    await onSave({
+      payer_id: formData.payer_id,
+      billing_code_id: formData.billing_code_id,
+      allowed_amount: amount,
+      effective_from: formData.effective_from,
+      effective_to: formData.effective_to || null,
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {entry ? 'Edit Fee' : 'Add Fee'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Payer *</label>
+            <select
+              value={formData.payer_id}
+              onChange={(e) => setFormData({ ...formData, payer_id: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+            >
+              {payers.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">CPT Code *</label>
+              <select
+                value={formData.billing_code_id}
+                onChange={(e) => setFormData({ ...formData, billing_code_id: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              >
+                {billingCodes.map((c) => (
+                  <option key={c.id} value={c.id}>{c.code}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Allowed amount *</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                required
+                value={formData.allowed_amount}
+                onChange={(e) => setFormData({ ...formData, allowed_amount: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Effective from *</label>
+              <input
+                type="date"
+                required
+                value={formData.effective_from}
+                onChange={(e) => setFormData({ ...formData, effective_from: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Effective to</label>
+              <input
+                type="date"
+                value={formData.effective_to}
+                onChange={(e) => setFormData({ ...formData, effective_to: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,390 @@
+import { useCallback, useEffect, useState } from 'react'
+import { supabase } from '@/lib/supabase'
+import type { Provider, ProviderTaxInfo } from '@/types'
+import { Download, Edit, FileText, RefreshCw, X } from 'lucide-react'
+import {
+  fetchNec1099Summary,
+  formatTin,
+  mailingAddressLines,
+  necFilingThreshold,
+  nec1099RecipientsToCsv,
+  saveProviderTaxInfo,
+  validateProviderTaxInfo,
+  type Nec1099Recipient,
+  type Nec1099Summary,
+  type ProviderTaxInfoInput,
+} from '@/lib/form1099Nec'
+import { generateNec1099SummaryPdf } from '@/lib/form1099NecPdf'
+import { formatCurrency } from '@/lib/utils'
+
+export default function Form1099NecTab() {
+  // Year-end work is done early in the following year
+  const [year, setYear] = useState(() => new Date().getFullYear() - 1)
+  const [threshold, setThreshold] = useState(() => String(necFilingThreshold(new Date().getFullYear() - 1)))
+  const [summary, setSummary] = useState<Nec1099Summary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [editingRecipient, setEditingRecipient] = useState<Nec1099Recipient | null>(null)
+
+  const thresholdAmount = parseFloat(threshold) || 0
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      setSummary(await fetchNec1099Summary(supabase, year, thresholdAmount))
+    } catch (error) {
+      console.error('Error fetching 1099-NEC summary:', error)
+      alert('Failed to load 1099-NEC totals. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [year, thresholdAmount])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const filing = summary?.recipients.filter((r) => r.mustFile) ?? []
+  const incomplete = filing.filter((r) => r.missing.length > 0)
+
+  const handleDownloadCsv = () => {
+    if (!summary || filing.length === 0) return
+    if (incomplete.length > 0 && !confirm(`${incomplete.length} provider(s) to file are missing tax details. Export anyway?`)) return
+    const blob = new Blob([nec1099RecipientsToCsv(filing, summary.year)], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `1099-nec_${summary.year}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleDownloadPdf = () => {
+    if (!summary) return
+    try {
+      generateNec1099SummaryPdf(summary).save(`1099-nec_summary_${summary.year}.pdf`)
+    } catch (error) {
+      console.error('Error generating 1099-NEC summary PDF:', error)
+      alert('Failed to generate the summary. Please try again.')
+    }
+  }
+
+  const handleSaveTaxInfo = async (input: ProviderTaxInfoInput) => {
+    if (!editingRecipient) return
+    try {
+      await saveProviderTaxInfo(supabase, editingRecipient.provider.id, input)
+      setEditingRecipient(null)
+      await load()
+    } catch (error) {
+      console.error('Error saving provider tax info:', error)
+      alert('Failed to save tax details. Please try again.')
+    }
+  }
+
+  const currentYear = new Date().getFullYear()
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-4 flex-wrap">
+        <h2 className="text-xl font-semibold text-white">1099-NEC Year-End Export</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+          >
+            <RefreshCw size={18} />
+            Refresh
+          </button>
+          <button
+            onClick={handleDownloadPdf}
+            disabled={loading || !summary}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+          >
+            <FileText size={18} />
+            PDF summary
+          </button>
+          <button
+            onClick={handleDownloadCsv}
+            disabled={loading || filing.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download size={18} />
+            Export CSV ({filing.length})
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-white/70">
+        Box 1 totals are the Provider Cut saved in Provider Pay across all clinics, counted in the year of each period's pay
+        date (or the period's year when no pay date is set). The CSV lists providers at or above the threshold.
+      </p>
+
+      <div className="flex items-center gap-4 flex-wrap text-sm text-white/90">
+        <label className="flex items-center gap-2">
+          Tax year
+          <select
+            value={year}
+            onChange={(e) => {
+              const y = Number(e.target.value)
+              setYear(y)
+              setThreshold(String(necFilingThreshold(y)))
+            }}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-black bg-white"
+          >
+            {Array.from({ length: 5 }, (_, i) => currentYear - i).map((y) => (
+              <option key={y} value={y}>{y}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Filing threshold $
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className="w-28 px-3 py-1 border border-gray-300 rounded-lg text-black"
+          />
+        </label>
+        {summary && (
+          <span>
+            {filing.length} to file · {formatCurrency(filing.reduce((s, r) => s + r.total, 0))}
+            {incomplete.length > 0 && <span className="ml-2 text-yellow-300">{incomplete.length} missing tax details</span>}
+          </span>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-white/70">Loading...</div>
+      ) : (
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme">
+            <thead>
+              <tr>
+                <th>Recipient</th>
+                <th>TIN</th>
+                <th>Mailing address</th>
+                <th>Clinics</th>
+                <th>Box 1</th>
+                <th>Status</th>
+                <th style={{ width: '60px' }}></th>
+              </tr>
+            </thead>
+            <tbody>
+              {!summary || summary.recipients.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="text-center text-white/50">No Provider Cut paid in {year}</td>
+                </tr>
+              ) : (
+                summary.recipients.map((r) => (
+                  <tr key={r.provider.id}>
+                    <td>
+                      {r.name}
+                      {r.name !== `${r.provider.first_name} ${r.provider.last_name}` && (
+                        <div className="text-xs text-white/50">{r.provider.first_name} {r.provider.last_name}</div>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap">
+                      {r.taxInfo?.tin ? `${r.taxInfo.tin_type ?? ''} ${formatTin(r.taxInfo.tin, r.taxInfo.tin_type, true)}` : '—'}
+                    </td>
+                    <td className="text-sm">
+                      {mailingAddressLines(r.taxInfo).map((line) => (
+                        <div key={line}>{line}</div>
+                      ))}
+                    </td>
+                    <td className="text-sm">
+                      {r.byClinic.map((c) => (
+                        <div key={c.clinicId}>
+                          {c.clinicName}: {formatCurrency(c.amount)}
+                        </div>
+                      ))}
+                    </td>
+                    <td>{formatCurrency(r.total)}</td>
+                    <td className="text-sm">
+                      {!r.mustFile ? (
+                        <span className="text-white/50">Below threshold</span>
+                      ) : r.missing.length > 0 ? (
+                        <span className="text-yellow-300">File – missing {r.missing.join(', ')}</span>
+                      ) : (
+                        <span className="text-green-400">File</span>
+                      )}
+                    </td>
+                    <td>
+                      <button
+                        onClick={() => setEditingRecipient(r)}
+                        className="text-primary-400 hover:text-primary-300"
+                        style={{ padding: '4px' }}
+                        title="Edit tax details"
+                      >
+                        <Edit size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editingRecipient && (
+        <ProviderTaxInfoModal
+          provider={editingRecipient.provider}
+          taxInfo={editingRecipient.taxInfo}
+          onClose={() => setEditingRecipient(null)}
+          onSave={handleSaveTaxInfo}
+        />
+      )}
+    </div>
+  )
+}
+
+function ProviderTaxInfoModal({
+  provider,
+  taxInfo,
+  onClose,
+  onSave,
+}: {
+  provider: Provider
+  taxInfo: ProviderTaxInfo | null
+  onClose: () => void
+  onSave: (input: ProviderTaxInfoInput) => Promise<void>
+}) {
+  const [input, setInput] = useState<ProviderTaxInfoInput>({
+    tax_name: taxInfo?.tax_name ?? '',
+    tin: formatTin(taxInfo?.tin, taxInfo?.tin_type ?? null),
+    tin_type: taxInfo?.tin_type ?? null,
+    mailing_address_1: taxInfo?.mailing_address_1 ?? '',
+    mailing_address_2: taxInfo?.mailing_address_2 ?? '',
+    mailing_city: taxInfo?.mailing_city ?? '',
+    mailing_state: taxInfo?.mailing_state ?? '',
+    mailing_zip: taxInfo?.mailing_zip ?? '',
+  })
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const update = (patch: Partial<ProviderTaxInfoInput>) => setInput((prev) => ({ ...prev, ...patch }))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const problems = validateProviderTaxInfo(input)
+    setErrors(problems)
+    if (problems.length > 0) return
+    setSaving(true)
+    try {
+      await onSave(input)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-black'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            Tax Details – {provider.first_name} {provider.last_name}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name on 1099</label>
+            <input
+              type="text"
+              value={input.tax_name ?? ''}
+              onChange={(e) => update({ tax_name: e.target.value })}
+              placeholder={`${provider.first_name} ${provider.last_name}`}
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">TIN type</label>
+              <select
+                value={input.tin_type ?? ''}
+                onChange={(e) => update({ tin_type: (e.target.value || null) as ProviderTaxInfoInput['tin_type'] })}
+                className={inputClass}
+              >
+                <option value="">—</option>
+                <option value="SSN">SSN (individual)</option>
+                <option value="EIN">EIN (business)</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">TIN</label>
+              <input
+                type="text"
+                value={input.tin ?? ''}
+                onChange={(e) => update({ tin: e.target.value })}
+                placeholder="9 digits"
+                autoComplete="off"
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Mailing address</label>
+            <input
+              type="text"
+              value={input.mailing_address_1 ?? ''}
+              onChange={(e) => update({ mailing_address_1: e.target.value })}
+              placeholder="Street"
+              className={`${inputClass} mb-2`}
+            />
+            <input
+              type="text"
+              value={input.mailing_address_2 ?? ''}
+              onChange={(e) => update({ mailing_address_2: e.target.value })}
+              placeholder="Suite / unit (optional)"
+              className={inputClass}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">City</label>
+              <input type="text" value={input.mailing_city ?? ''} onChange={(e) => update({ mailing_city: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+              <input
+                type="text"
+                maxLength={2}
+                value={input.mailing_state ?? ''}
+                onChange={(e) => update({ mailing_state: e.target.value.toUpperCase() })}
+                placeholder="e.g. TX"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ZIP</label>
+              <input type="text" value={input.mailing_zip ?? ''} onChange={(e) => update({ mailing_zip: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-red-700 text-sm">
+              {errors.map((msg) => (
+                <p key={msg}>{msg}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
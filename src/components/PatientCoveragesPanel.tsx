@@ -0,0 +1,533 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, Layers, Loader, Pencil, Plus, Trash2 } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  COVERAGE_RELATIONSHIP_LABELS,
+  PAYER_SEQUENCE_LABELS,
+  applyPrimaryCoverageToPatient,
+  deletePatientCoverage,
+  endPatientCoverage,
+  fetchPatientCoverages,
+  fetchPatientServiceDates,
+  primaryCoverageUpdates,
+  savePatientCoverage,
+  sequenceForPriority,
+  supersededCoverages,
+  uncoveredServiceDates,
+  type PatientServiceDate,
+} from '@/lib/coordinationOfBenefits'
+import { fetchPayers } from '@/lib/payers'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { toDisplayDate, todayIso } from '@/lib/utils'
+import type { CoverageRelationship, Patient, PatientCoverage, Payer } from '@/types'
+
+interface CoverageDraft {
+  id?: string
+  priority: 1 | 2 | 3
+  payer_name: string
+  payer_id: string
+  subscriber_id: string
+  group_number: string
+  claim_filing_indicator: string
+  relationship: CoverageRelationship
+  subscriber_first_name: string
+  subscriber_last_name: string
+  subscriber_date_of_birth: string
+  effective_from: string
+  effective_to: string
+  notes: string
+}
+
+function emptyDraft(priority: 1 | 2 | 3): CoverageDraft {
+  return {
+    priority,
+    payer_name: '',
+    payer_id: '',
+    subscriber_id: '',
+    group_number: '',
+    claim_filing_indicator: '',
+    relationship: 'self',
+    subscriber_first_name: '',
+    subscriber_last_name: '',
+    subscriber_date_of_birth: '',
+    effective_from: '',
+    effective_to: '',
+    notes: '',
+  }
+}
+
+function draftFromCoverage(c: PatientCoverage): CoverageDraft {
+  return {
+    id: c.id,
+    priority: c.priority,
+    payer_name: c.payer_name,
+    payer_id: c.payer_id ?? '',
+    subscriber_id: c.subscriber_id ?? '',
+    group_number: c.group_number ?? '',
+    claim_filing_indicator: c.claim_filing_indicator ?? '',
+    relationship: c.relationship,
+    subscriber_first_name: c.subscriber_first_name ?? '',
+    subscriber_last_name: c.subscriber_last_name ?? '',
+    subscriber_date_of_birth: c.subscriber_date_of_birth ?? '',
+    effective_from: c.effective_from ?? '',
+    effective_to: c.effective_to ?? '',
+    notes: c.notes ?? '',
+  }
+}
+
+function effectiveRange(c: PatientCoverage): string {
+  return `${c.effective_from ? toDisplayDate(c.effective_from) : '…'}–${c.effective_to ? toDisplayDate(c.effective_to) : '…'}`
+}
+
+function dayNumber(iso: string): number {
+  const [y, m, d] = iso.split('-').map(Number)
+  return Date.UTC(y, m - 1, d) / 86400000
+}
+
+const TIMELINE_BAR_CLASSES: Record<1 | 2 | 3, string> = {
+  1: 'bg-primary-600/70 border-primary-300',
+  2: 'bg-emerald-600/60 border-emerald-300',
+  3: 'bg-purple-600/60 border-purple-300',
+}
+
+interface CoverageTimelineProps {
+  coverages: PatientCoverage[]
+  serviceDates: PatientServiceDate[]
+  uncoveredRowIds: Set<string>
+}
+
+/** One lane per payer order with a bar per plan, and the patient's visits underneath (red when no primary plan covers them). */
+function CoverageTimeline({ coverages, serviceDates, uncoveredRowIds }: CoverageTimelineProps) {
+  const bounds = [
+    todayIso(),
+    ...serviceDates.map((d) => d.dateOfService),
+    ...coverages.flatMap((c) => [c.effective_from, c.effective_to]).filter((d): d is string => Boolean(d)),
+  ].sort()
+  const first = bounds[0]!
+  const last = bounds[bounds.length - 1]!
+  const span = Math.max(1, dayNumber(last) - dayNumber(first))
+  const offset = (iso: string) => ((dayNumber(iso) - dayNumber(first)) / span) * 100
+
+  return (
+    <div className="mb-4">
+      <div className="flex justify-between text-xs text-white/60 mb-1 ml-[5.5rem]">
+        <span>{toDisplayDate(first)}</span>
+        <span>{toDisplayDate(last)}</span>
+      </div>
+      <div className="space-y-1">
+        {([1, 2, 3] as const).map((priority) => {
+          const lane = coverages.filter((c) => c.priority === priority)
+          if (lane.length === 0) return null
+          return (
+            <div key={priority} className="flex items-center gap-2">
+              <span className="w-20 flex-shrink-0 text-xs text-white/70">{PAYER_SEQUENCE_LABELS[sequenceForPriority(priority)]}</span>
+              <div className="relative flex-1 h-6 rounded bg-white/5">
+                {lane.map((c) => {
+                  const left = c.effective_from ? offset(c.effective_from) : 0
+                  const right = c.effective_to ? offset(c.effective_to) : 100
+                  return (
+                    <div
+                      key={c.id}
+                      className={`absolute top-0.5 bottom-0.5 rounded border px-1 text-[11px] leading-5 text-white truncate ${TIMELINE_BAR_CLASSES[priority]}`}
+                      style={{ left: `${left}%`, width: `${Math.max(right - left, 0.5)}%` }}
+                      title={`${c.payer_name}: ${effectiveRange(c)}`}
+                    >
+                      {c.payer_name}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )
+        })}
+        {serviceDates.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="w-20 flex-shrink-0 text-xs text-white/70">Visits</span>
+            <div className="relative flex-1 h-4">
+              {serviceDates.map((d) => (
+                <span
+                  key={d.rowId}
+                  className={`absolute top-0 h-4 w-0.5 ${uncoveredRowIds.has(d.rowId) ? 'bg-red-400' : 'bg-white/60'}`}
+                  style={{ left: `${offset(d.dateOfService)}%` }}
+                  title={toDisplayDate(d.dateOfService)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface PatientCoveragesPanelProps {
+  clinicId: string
+  /** Insurance column is locked; the primary plan is then not copied to Patient.insurance. */
+  insuranceLocked?: boolean
+  /** Called after the primary plan was copied to the patient record, so the grid can reload. */
+  onPatientUpdated?: () => void
+}
+
+export default function PatientCoveragesPanel({ clinicId, insuranceLocked, onPatientUpdated }: PatientCoveragesPanelProps) {
+  const { userProfile } = useAuth()
+  const [patients, setPatients] = useState<Patient[]>([])
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [patientId, setPatientId] = useState('')
+  const [coverages, setCoverages] = useState<PatientCoverage[]>([])
+  const [serviceDates, setServiceDates] = useState<PatientServiceDate[]>([])
+  const [draft, setDraft] = useState<CoverageDraft | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const canEdit = ['super_admin', 'admin', 'billing_staff', 'office_staff'].includes(userProfile?.role ?? '')
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([
+      supabase.from('patients').select('*').eq('clinic_id', clinicId).order('patient_id'),
+      fetchPayers(supabase),
+    ])
+      .then(([patientsResult, payerList]) => {
+        if (cancelled) return
+        if (patientsResult.error) throw patientsResult.error
+        setPatients(((patientsResult.data || []) as Patient[]).filter((p) => p.patient_id?.trim()))
+        setPayers(payerList)
+      })
+      .catch((err) => console.error('[PatientCoveragesPanel] load', err))
+    return () => { cancelled = true }
+  }, [clinicId])
+
+  const loadCoverages = useCallback(async () => {
+    if (!patientId) {
+      setCoverages([])
+      setServiceDates([])
+      return
+    }
+    setLoading(true)
+    try {
+      const [list, dates] = await Promise.all([
+        fetchPatientCoverages(supabase, clinicId, patientId),
+        fetchPatientServiceDates(supabase, clinicId, patientId),
+      ])
+      setCoverages(list)
+      setServiceDates(dates)
+    } catch (err) {
+      console.error('[PatientCoveragesPanel] fetch coverages', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId, patientId])
+
+  useEffect(() => {
+    setDraft(null)
+    loadCoverages()
+  }, [loadCoverages])
+
+  const selectedPatient = useMemo(
+    () => (patientId ? patients.find((p) => normalizePatientIdKey(p.patient_id) === normalizePatientIdKey(patientId)) ?? null : null),
+    [patients, patientId]
+  )
+
+  const uncovered = useMemo(
+    () => (selectedPatient ? uncoveredServiceDates(coverages, selectedPatient.patient_id, serviceDates) : []),
+    [coverages, selectedPatient, serviceDates]
+  )
+  const uncoveredRowIds = useMemo(() => new Set(uncovered.map((d) => d.rowId)), [uncovered])
+
+  const updateDraft = <K extends keyof CoverageDraft>(key: K, value: CoverageDraft[K]) => {
+    setDraft((prev) => (prev ? { ...prev, [key]: value } : prev))
+  }
+
+  /** Keeps Patient.insurance / subscriber_id on the primary plan active today. */
+  const syncPrimaryToPatient = async (patient: Patient, list: PatientCoverage[]) => {
+    const updates = primaryCoverageUpdates(patient, list, todayIso())
+    if (insuranceLocked) delete updates.insurance
+    if (updates.insurance === undefined && updates.subscriber_id === undefined) return
+    await applyPrimaryCoverageToPatient(supabase, patient.id, updates)
+    setPatients((prev) => prev.map((p) => (p.id === patient.id ? { ...p, ...updates } : p)))
+    onPatientUpdated?.()
+  }
+
+  const handleSave = async () => {
+    if (!draft || !selectedPatient) return
+    if (!draft.payer_name.trim()) {
+      alert('Payer is required.')
+      return
+    }
+    if (draft.effective_from && draft.effective_to && draft.effective_to < draft.effective_from) {
+      alert('Effective to must be on or after effective from.')
+      return
+    }
+    const notSelf = draft.relationship !== 'self'
+    const superseded = supersededCoverages(coverages, {
+      id: draft.id,
+      patient_id: selectedPatient.patient_id,
+      priority: draft.priority,
+      effective_from: draft.effective_from || null,
+    })
+    const endSuperseded =
+      superseded.length > 0 &&
+      confirm(
+        `${superseded.map(({ coverage }) => coverage.payer_name).join(', ')} is still open on ${toDisplayDate(draft.effective_from)}. ` +
+          `End it on ${toDisplayDate(superseded[0]!.effectiveTo)} so earlier visits keep their payer?`
+      )
+    setSaving(true)
+    try {
+      await savePatientCoverage(supabase, {
+        id: draft.id,
+        clinic_id: clinicId,
+        patient_id: selectedPatient.patient_id,
+        priority: draft.priority,
+        payer_name: draft.payer_name.trim(),
+        payer_id: draft.payer_id.trim() || null,
+        subscriber_id: draft.subscriber_id.trim() || null,
+        group_number: draft.group_number.trim() || null,
+        claim_filing_indicator: draft.claim_filing_indicator || null,
+        relationship: draft.relationship,
+        subscriber_first_name: notSelf ? draft.subscriber_first_name.trim() || null : null,
+        subscriber_last_name: notSelf ? draft.subscriber_last_name.trim() || null : null,
+        subscriber_date_of_birth: notSelf ? draft.subscriber_date_of_birth || null : null,
+        effective_from: draft.effective_from || null,
+        effective_to: draft.effective_to || null,
+        notes: draft.notes.trim() || null,
+        created_by: userProfile?.id ?? null,
+      })
+      if (endSuperseded) {
+        for (const { coverage, effectiveTo } of superseded) {
+          await endPatientCoverage(supabase, coverage.id, effectiveTo)
+        }
+      }
+      const list = await fetchPatientCoverages(supabase, clinicId, selectedPatient.patient_id)
+      setCoverages(list)
+      setDraft(null)
+      await syncPrimaryToPatient(selectedPatient, list)
+    } catch (err) {
+      console.error('[PatientCoveragesPanel] save', err)
+      alert('Failed to save coverage. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (coverage: PatientCoverage) => {
+    if (!confirm(`Remove ${coverage.payer_name} (${PAYER_SEQUENCE_LABELS[sequenceForPriority(coverage.priority)]}) from this patient?`)) return
+    try {
+      await deletePatientCoverage(supabase, coverage.id)
+      setCoverages((prev) => prev.filter((c) => c.id !== coverage.id))
+      if (draft?.id === coverage.id) setDraft(null)
+    } catch (err) {
+      console.error('[PatientCoveragesPanel] delete', err)
+      alert('Failed to remove coverage. Please try again.')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-3">
+        <h3 className="text-white font-medium flex items-center gap-2">
+          <Layers size={18} />
+          Insurance coverage
+        </h3>
+        <div className="flex items-center gap-3">
+          <select className={`${inputClass} w-72`} value={patientId} onChange={(e) => setPatientId(e.target.value)}>
+            <option value="" className="bg-slate-900">Select patient...</option>
+            {patients.map((p) => (
+              <option key={p.id} value={p.patient_id} className="bg-slate-900">
+                {p.patient_id} – {p.first_name} {p.last_name}
+              </option>
+            ))}
+          </select>
+          {canEdit && selectedPatient && !draft && (
+            <button
+              type="button"
+              onClick={() => setDraft(emptyDraft(Math.min(3, coverages.length + 1) as 1 | 2 | 3))}
+              className="flex items-center gap-1 px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm whitespace-nowrap"
+            >
+              <Plus size={16} />
+              Add coverage
+            </button>
+          )}
+        </div>
+      </div>
+
+      {draft && (
+        <div className="grid md:grid-cols-4 gap-3 mb-4 p-3 rounded-lg border border-white/10 bg-white/5">
+          <div>
+            <label className={labelClass}>Order</label>
+            <select className={inputClass} value={draft.priority} onChange={(e) => updateDraft('priority', Number(e.target.value) as 1 | 2 | 3)}>
+              {([1, 2, 3] as const).map((p) => (
+                <option key={p} value={p} className="bg-slate-900">{PAYER_SEQUENCE_LABELS[sequenceForPriority(p)]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Payer</label>
+            <input className={inputClass} list="coverage-payers" value={draft.payer_name} onChange={(e) => updateDraft('payer_name', e.target.value)} />
+            <datalist id="coverage-payers">
+              {payers.map((p) => <option key={p.id} value={p.name} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className={labelClass}>Payer ID</label>
+            <input className={inputClass} value={draft.payer_id} placeholder="From payer list" onChange={(e) => updateDraft('payer_id', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Subscriber ID</label>
+            <input className={inputClass} value={draft.subscriber_id} onChange={(e) => updateDraft('subscriber_id', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Group number</label>
+            <input className={inputClass} value={draft.group_number} onChange={(e) => updateDraft('group_number', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Claim filing indicator</label>
+            <select className={inputClass} value={draft.claim_filing_indicator} onChange={(e) => updateDraft('claim_filing_indicator', e.target.value)}>
+              <option value="" className="bg-slate-900">Batch default</option>
+              <option value="CI" className="bg-slate-900">CI – Commercial</option>
+              <option value="BL" className="bg-slate-900">BL – Blue Cross/Blue Shield</option>
+              <option value="HM" className="bg-slate-900">HM – HMO</option>
+              <option value="MB" className="bg-slate-900">MB – Medicare Part B</option>
+              <option value="MC" className="bg-slate-900">MC – Medicaid</option>
+              <option value="CH" className="bg-slate-900">CH – Tricare</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Effective from</label>
+            <input type="date" className={inputClass} value={draft.effective_from} onChange={(e) => updateDraft('effective_from', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Effective to</label>
+            <input type="date" className={inputClass} value={draft.effective_to} onChange={(e) => updateDraft('effective_to', e.target.value)} />
+          </div>
+          <div>
+            <label className={labelClass}>Relationship to subscriber</label>
+            <select className={inputClass} value={draft.relationship} onChange={(e) => updateDraft('relationship', e.target.value as CoverageRelationship)}>
+              {(Object.keys(COVERAGE_RELATIONSHIP_LABELS) as CoverageRelationship[]).map((r) => (
+                <option key={r} value={r} className="bg-slate-900">{COVERAGE_RELATIONSHIP_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+          {draft.relationship !== 'self' && (
+            <>
+              <div>
+                <label className={labelClass}>Subscriber first name</label>
+                <input className={inputClass} value={draft.subscriber_first_name} onChange={(e) => updateDraft('subscriber_first_name', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Subscriber last name</label>
+                <input className={inputClass} value={draft.subscriber_last_name} onChange={(e) => updateDraft('subscriber_last_name', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Subscriber DOB</label>
+                <input type="date" className={inputClass} value={draft.subscriber_date_of_birth} onChange={(e) => updateDraft('subscriber_date_of_birth', e.target.value)} />
+              </div>
+            </>
+          )}
+          <div className="md:col-span-4">
+            <label className={labelClass}>Notes</label>
+            <input className={inputClass} value={draft.notes} onChange={(e) => updateDraft('notes', e.target.value)} />
+          </div>
+          <div className="md:col-span-4 flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="flex items-center gap-1 px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving && <Loader className="animate-spin" size={16} />}
+              Save coverage
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!selectedPatient ? (
+        <p className="text-sm text-white/60">Select a patient to see primary, secondary and tertiary coverage.</p>
+      ) : loading ? (
+        <p className="text-sm text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={16} />Loading coverage...</p>
+      ) : coverages.length === 0 ? (
+        <p className="text-sm text-white/60">No coverage recorded. Claims use the Insurance and Subscriber ID columns.</p>
+      ) : (
+        <>
+          {uncovered.length > 0 && (
+            <div className="mb-3 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm">
+              <p className="flex items-start gap-2">
+                <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                {uncovered.length} visit{uncovered.length === 1 ? '' : 's'} outside any active primary coverage:{' '}
+                {uncovered.slice(0, 10).map((d) => toDisplayDate(d.dateOfService)).join(', ')}
+                {uncovered.length > 10 ? ` and ${uncovered.length - 10} more` : ''}. The sheet leaves Insurance blank on these rows until a plan covers them.
+              </p>
+            </div>
+          )}
+          <CoverageTimeline coverages={coverages} serviceDates={serviceDates} uncoveredRowIds={uncoveredRowIds} />
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Order</th>
+                  <th>Payer</th>
+                  <th>Subscriber ID</th>
+                  <th>Group</th>
+                  <th>Subscriber</th>
+                  <th>Effective</th>
+                  <th>Notes</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {coverages.map((c) => (
+                  <tr key={c.id}>
+                    <td>{PAYER_SEQUENCE_LABELS[sequenceForPriority(c.priority)]}</td>
+                    <td>{c.payer_name}{c.payer_id ? <span className="text-white/60"> ({c.payer_id})</span> : null}</td>
+                    <td>{c.subscriber_id}</td>
+                    <td>{c.group_number}</td>
+                    <td>
+                      {c.relationship === 'self'
+                        ? 'Self'
+                        : `${[c.subscriber_first_name, c.subscriber_last_name].filter(Boolean).join(' ')} (${COVERAGE_RELATIONSHIP_LABELS[c.relationship]})`}
+                    </td>
+                    <td>{effectiveRange(c)}</td>
+                    <td>{c.notes}</td>
+                    <td>
+                      {canEdit && (
+                        <div className="flex items-center gap-3">
+                          <button
+                            type="button"
+                            onClick={() => setDraft(draftFromCoverage(c))}
+                            className="text-primary-300 hover:text-primary-200"
+                            title="Edit coverage"
+                          >
+                            <Pencil size={16} />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(c)}
+                            className="text-red-300 hover:text-red-200"
+                            title="Remove coverage"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
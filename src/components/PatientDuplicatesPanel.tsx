@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { GitMerge, Loader, Users } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  DEFAULT_DUPLICATE_MIN_SCORE,
+  fetchPatientMergeLog,
+  findDuplicatePatients,
+  type PatientDuplicatePair,
+} from '@/lib/patientDuplicates'
+import PatientMergeModal from '@/components/PatientMergeModal'
+import { toDisplayDate } from '@/lib/utils'
+import type { AuditLog, Patient } from '@/types'
+
+const MAX_PAIRS_SHOWN = 100
+
+function patientLabel(p: Patient): string {
+  return `${p.first_name} ${p.last_name}`.trim()
+}
+
+interface PatientDuplicatesPanelProps {
+  clinicId: string
+  /** Called after a merge so the grid and provider sheets pick up the survivor's patient_id. */
+  onMerged?: (survivor: Patient, merged: Patient) => void
+}
+
+export default function PatientDuplicatesPanel({ clinicId, onMerged }: PatientDuplicatesPanelProps) {
+  const { userProfile } = useAuth()
+  const [patients, setPatients] = useState<Patient[]>([])
+  const [mergeLog, setMergeLog] = useState<AuditLog[]>([])
+  const [minScore, setMinScore] = useState(DEFAULT_DUPLICATE_MIN_SCORE)
+  const [loading, setLoading] = useState(false)
+  const [reviewPair, setReviewPair] = useState<PatientDuplicatePair | null>(null)
+
+  const canMerge = ['super_admin', 'admin', 'billing_staff', 'office_staff'].includes(userProfile?.role ?? '')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const { data, error } = await supabase.from('patients').select('*').eq('clinic_id', clinicId)
+      if (error) throw error
+      setPatients((data || []) as Patient[])
+      setMergeLog(await fetchPatientMergeLog(supabase, clinicId))
+    } catch (err) {
+      console.error('[PatientDuplicatesPanel] load', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const pairs = useMemo(() => findDuplicatePatients(patients, minScore), [patients, minScore])
+
+  const handleMerged = (survivor: Patient, merged: Patient) => {
+    setReviewPair(null)
+    onMerged?.(survivor, merged)
+    load()
+  }
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-3">
+        <h3 className="text-white font-medium flex items-center gap-2">
+          <Users size={18} />
+          Possible duplicate patients
+        </h3>
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-white/80">Minimum score</label>
+          <select
+            className="px-3 py-1.5 border border-white/20 bg-white/10 text-white rounded-md text-sm"
+            value={minScore}
+            onChange={(e) => setMinScore(Number(e.target.value))}
+          >
+            {[40, 50, 60, 70, 80].map((s) => (
+              <option key={s} value={s} className="bg-slate-900">{s}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm disabled:opacity-50"
+          >
+            {loading && <Loader className="animate-spin" size={16} />}
+            Rescan
+          </button>
+        </div>
+      </div>
+
+      {loading && patients.length === 0 ? (
+        <p className="text-sm text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={16} />Scanning patients...</p>
+      ) : pairs.length === 0 ? (
+        <p className="text-sm text-white/60">No likely duplicates at this score. Pairs are scored on name, DOB, phone, email and subscriber ID.</p>
+      ) : (
+        <>
+          <p className="text-sm text-white/70 mb-2">
+            {pairs.length} pair{pairs.length === 1 ? '' : 's'} found{pairs.length > MAX_PAIRS_SHOWN ? `; showing the top ${MAX_PAIRS_SHOWN}` : ''}.
+          </p>
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Score</th>
+                  <th>Patient A</th>
+                  <th>Patient B</th>
+                  <th>Matches</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {pairs.slice(0, MAX_PAIRS_SHOWN).map((pair) => (
+                  <tr key={`${pair.a.id}:${pair.b.id}`}>
+                    <td>{pair.score}</td>
+                    {[pair.a, pair.b].map((p) => (
+                      <td key={p.id}>
+                        <span className="font-medium">{p.patient_id}</span> – {patientLabel(p)}
+                        {p.date_of_birth ? <span className="text-white/60"> · {toDisplayDate(p.date_of_birth)}</span> : null}
+                      </td>
+                    ))}
+                    <td className="text-white/80">{pair.matches.map((m) => m.label).join(', ')}</td>
+                    <td>
+                      {canMerge && (
+                        <button
+                          type="button"
+                          onClick={() => setReviewPair(pair)}
+                          className="flex items-center gap-1 text-primary-300 hover:text-primary-200 whitespace-nowrap"
+                        >
+                          <GitMerge size={16} />
+                          Review
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {mergeLog.length > 0 && (
+        <div className="mt-4">
+          <h4 className="text-sm font-medium text-white/80 mb-2">Recent merges</h4>
+          <ul className="space-y-1 text-sm text-white/70">
+            {mergeLog.map((entry) => {
+              const mergedId = entry.old_values?.merged?.patient_id ?? '?'
+              const survivorId = entry.new_values?.survivor?.patient_id ?? entry.old_values?.survivor?.patient_id ?? '?'
+              const rewritten = (entry.new_values?.rewritten ?? {}) as Record<string, number>
+              const moved = Object.values(rewritten).reduce((sum, n) => sum + Number(n || 0), 0)
+              return (
+                <li key={entry.id}>
+                  {toDisplayDate(entry.created_at.slice(0, 10))}: {mergedId} merged into {survivorId} ({moved} record{moved === 1 ? '' : 's'} moved)
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+
+      {reviewPair && <PatientMergeModal pair={reviewPair} onClose={() => setReviewPair(null)} onMerged={handleMerged} />}
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { Patient } from '@/types'
 import { X } from 'lucide-react'
+import PaymentPlansPanel from '@/components/PaymentPlansPanel'
 
 interface PatientFormProps {
   patient: Patient | null
@@ -9,7 +10,7 @@ interface PatientFormProps {
   onSave: (patient: Partial<Patient>) => Promise<void>
 }
 
-export default function PatientForm({ patient, onClose, onSave }: PatientFormProps) {
+export default function PatientForm({ patient, clinicId, onClose, onSave }: PatientFormProps) {
   const [formData, setFormData] = useState({
     patient_id: patient?.patient_id || '',
     first_name: patient?.first_name || '',
@@ -182,6 +183,12 @@ export default function PatientForm({ patient, onClose, onSave }: PatientFormPro
             </button>
           </div>
         </form>
+
+        {patient && (
+          <div className="px-6 pb-6">
+            <PaymentPlansPanel clinicId={clinicId} patientId={patient.patient_id} />
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,347 @@
+import { useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { AlertTriangle, Loader, Upload, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import {
+  PATIENT_IMPORT_FIELDS,
+  addPatientsToProviderSheets,
+  autoMapPatientColumns,
+  commitPatientImport,
+  formatImportValue,
+  patientImportCounts,
+  planPatientImport,
+  readPatientImportFile,
+  type PatientImportFile,
+  type PatientImportMapping,
+  type PatientImportStatus,
+} from '@/lib/patientImport'
+import type { Patient } from '@/types'
+
+const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+const STATUS_CLASSES: Record<PatientImportStatus, string> = {
+  new: 'text-green-300',
+  updated: 'text-blue-300',
+  skipped: 'text-white/50',
+  invalid: 'text-red-300',
+}
+
+const MAX_PREVIEW_ROWS = 500
+
+/** "2026-3" / "2026-3-2" (provider sheet month key) -> month input value and pay period. */
+function parseMonthKey(monthKey: string): { month: string; payroll: 1 | 2 | null } {
+  const [year, month, payroll] = monthKey.split('-').map(Number)
+  return {
+    month: `${year}-${String(month).padStart(2, '0')}`,
+    payroll: payroll === 1 || payroll === 2 ? payroll : null,
+  }
+}
+
+interface PatientImportModalProps {
+  clinicId: string
+  /** Provider sheet month selected on the clinic page; its format tells whether the clinic uses two pay periods. */
+  defaultMonthKey: string
+  onClose: () => void
+  /** Called after the import committed; monthKey is set when new patients were added to that month's provider sheets. */
+  onImported: (inserted: Patient[], monthKey: string | null) => void
+}
+
+export default function PatientImportModal({ clinicId, defaultMonthKey, onClose, onImported }: PatientImportModalProps) {
+  const [step, setStep] = useState<'upload' | 'map' | 'preview'>('upload')
+  const [fileName, setFileName] = useState('')
+  const [file, setFile] = useState<PatientImportFile | null>(null)
+  const [mapping, setMapping] = useState<PatientImportMapping | null>(null)
+  const [existing, setExisting] = useState<Patient[]>([])
+  const [includeDuplicates, setIncludeDuplicates] = useState<Set<number>>(new Set())
+  const [reading, setReading] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const defaultMonth = parseMonthKey(defaultMonthKey)
+  const [addToSheets, setAddToSheets] = useState(true)
+  const [sheetMonth, setSheetMonth] = useState(defaultMonth.month)
+  const [sheetPayroll, setSheetPayroll] = useState<1 | 2>(defaultMonth.payroll ?? 1)
+
+  useEffect(() => {
+    supabase
+      .from('patients')
+      .select('*')
+      .eq('clinic_id', clinicId)
+      .then(({ data, error }) => {
+        if (error) console.error('[PatientImportModal] fetch patients', error)
+        else setExisting((data || []) as Patient[])
+      })
+  }, [clinicId])
+
+  const plan = useMemo(
+    () => (file && mapping ? planPatientImport(clinicId, file, mapping, existing, includeDuplicates) : []),
+    [clinicId, file, mapping, existing, includeDuplicates]
+  )
+  const counts = useMemo(() => patientImportCounts(plan), [plan])
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return
+    setReading(true)
+    try {
+      const parsed = await readPatientImportFile(selected)
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        alert('The file has no data rows. The first row must contain column headers.')
+        return
+      }
+      setFileName(selected.name)
+      setFile(parsed)
+      setMapping(autoMapPatientColumns(parsed.headers))
+      setIncludeDuplicates(new Set())
+      setStep('map')
+    } catch (err) {
+      console.error('[PatientImportModal] read file', err)
+      alert('Failed to read the file. Use a .csv or .xlsx export with a header row.')
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const toggleInclude = (line: number) => {
+    setIncludeDuplicates((prev) => {
+      const next = new Set(prev)
+      if (next.has(line)) next.delete(line)
+      else next.add(line)
+      return next
+    })
+  }
+
+  const handleImport = async () => {
+    if (counts.new + counts.updated === 0) return
+    const [year, month] = sheetMonth.split('-').map(Number)
+    const monthKey = addToSheets && year && month
+      ? defaultMonth.payroll != null ? `${year}-${month}-${sheetPayroll}` : `${year}-${month}`
+      : null
+    if (!confirm(`Import ${counts.new} new and update ${counts.updated} existing patient${counts.new + counts.updated === 1 ? '' : 's'}?`)) return
+    setImporting(true)
+    try {
+      const result = await commitPatientImport(supabase, clinicId, plan)
+      let added: number | null = null
+      if (monthKey && result.inserted.length > 0) {
+        try {
+          added = await addPatientsToProviderSheets(supabase, clinicId, monthKey, result.inserted)
+        } catch (err) {
+          console.error('[PatientImportModal] add to provider sheets', err)
+          alert('Patients were imported, but adding them to the provider sheets failed. Add them from the provider sheets instead.')
+        }
+      }
+      alert(
+        `Imported ${result.inserted.length} new and updated ${result.updated} existing patient${result.inserted.length + result.updated === 1 ? '' : 's'}.` +
+          (added != null ? ` Added ${added} provider sheet row${added === 1 ? '' : 's'}.` : '')
+      )
+      onImported(result.inserted, added != null ? monthKey : null)
+    } catch (err) {
+      console.error('[PatientImportModal] import', err)
+      alert('Failed to import patients. Nothing was saved. Please try again.')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const sample = (col: number | null) => (col != null && file ? file.rows.find((r) => (r[col] ?? '').trim() !== '')?.[col] ?? '' : '')
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-5xl max-h-[90vh] overflow-y-auto border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <Upload size={20} />
+          Import patients
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          {step === 'upload' && 'Upload a CSV or XLSX export. The first row must contain column headers.'}
+          {step === 'map' && `${fileName}: ${file?.rows.length ?? 0} rows. Match each patient field to a column.`}
+          {step === 'preview' && `${fileName}: nothing is saved until you import. Existing patients are matched by Patient ID.`}
+        </p>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-2 p-8 rounded-lg border-2 border-dashed border-white/20 text-white/80 cursor-pointer hover:bg-white/5">
+            {reading ? <Loader className="animate-spin" size={24} /> : <Upload size={24} />}
+            <span className="text-sm">{reading ? 'Reading file...' : 'Choose a .csv or .xlsx file'}</span>
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              disabled={reading}
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </label>
+        )}
+
+        {step === 'map' && file && mapping && (
+          <div className="table-container dark-theme mb-4">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Patient field</th>
+                  <th>Column in file</th>
+                  <th>First value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {PATIENT_IMPORT_FIELDS.map(({ key, label }) => (
+                  <tr key={key}>
+                    <td>{label}{key === 'patient_id' && <span className="text-red-300"> *</span>}</td>
+                    <td>
+                      <select
+                        className={inputClass}
+                        value={mapping[key] ?? ''}
+                        onChange={(e) => setMapping({ ...mapping, [key]: e.target.value === '' ? null : Number(e.target.value) })}
+                      >
+                        <option value="" className="bg-slate-900">— Not imported —</option>
+                        {file.headers.map((h, i) => (
+                          <option key={i} value={i} className="bg-slate-900">{h || `Column ${i + 1}`}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="text-white/70">{sample(mapping[key])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <>
+            <div className="flex flex-wrap gap-4 mb-3 text-sm">
+              {(Object.keys(counts) as PatientImportStatus[]).map((status) => (
+                <span key={status} className={STATUS_CLASSES[status]}>
+                  {counts[status]} {status}
+                </span>
+              ))}
+            </div>
+            {counts.invalid > 0 && (
+              <div className="mb-3 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm flex items-start gap-2">
+                <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                {counts.invalid} row{counts.invalid === 1 ? ' is' : 's are'} invalid and will not be imported. Fix the file and upload it again to include them.
+              </div>
+            )}
+            <div className="table-container dark-theme mb-4 max-h-[45vh] overflow-y-auto">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Line</th>
+                    <th>Status</th>
+                    <th>Patient ID</th>
+                    <th>Name</th>
+                    <th>Changes / notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.slice(0, MAX_PREVIEW_ROWS).map((row) => (
+                    <tr key={row.line}>
+                      <td>{row.line}</td>
+                      <td className={STATUS_CLASSES[row.status]}>{row.status}</td>
+                      <td>{row.values.patient_id ?? '—'}</td>
+                      <td>{[row.values.first_name ?? row.existing?.first_name, row.values.last_name ?? row.existing?.last_name].filter(Boolean).join(' ')}</td>
+                      <td>
+                        {row.changes.map((c) => (
+                          <div key={c.field}>
+                            <span className="text-white/60">{PATIENT_IMPORT_FIELDS.find((f) => f.key === c.field)?.label}:</span>{' '}
+                            <span className="line-through text-white/50">{formatImportValue(c.field, c.from)}</span> → {formatImportValue(c.field, c.to)}
+                          </div>
+                        ))}
+                        {row.messages.map((m) => (
+                          <div key={m} className={row.status === 'invalid' ? 'text-red-300' : 'text-white/70'}>{m}</div>
+                        ))}
+                        {row.possibleDuplicate && (
+                          <label className="flex items-center gap-2 text-white/80 cursor-pointer">
+                            <input type="checkbox" checked={includeDuplicates.has(row.line)} onChange={() => toggleInclude(row.line)} />
+                            Import as a new patient anyway
+                          </label>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {plan.length > MAX_PREVIEW_ROWS && (
+              <p className="text-xs text-white/60 mb-3">Showing the first {MAX_PREVIEW_ROWS} of {plan.length} rows; all rows are imported.</p>
+            )}
+            <div className="flex flex-wrap items-end gap-4 mb-4">
+              <label className="flex items-center gap-2 text-sm text-white/80 cursor-pointer pb-2">
+                <input type="checkbox" checked={addToSheets} onChange={(e) => setAddToSheets(e.target.checked)} />
+                Add new patients to provider sheets for
+              </label>
+              <div>
+                <label className={labelClass}>Month</label>
+                <input type="month" className={inputClass} value={sheetMonth} disabled={!addToSheets} onChange={(e) => setSheetMonth(e.target.value)} />
+              </div>
+              {defaultMonth.payroll != null && (
+                <div>
+                  <label className={labelClass}>Pay period</label>
+                  <select
+                    className={inputClass}
+                    value={sheetPayroll}
+                    disabled={!addToSheets}
+                    onChange={(e) => setSheetPayroll(Number(e.target.value) as 1 | 2)}
+                  >
+                    <option value={1} className="bg-slate-900">1st half</option>
+                    <option value={2} className="bg-slate-900">2nd half</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-3">
+          {step !== 'upload' && (
+            <button
+              type="button"
+              onClick={() => setStep(step === 'preview' ? 'map' : 'upload')}
+              disabled={importing}
+              className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+          >
+            Cancel
+          </button>
+          {step === 'map' && (
+            <button
+              type="button"
+              onClick={() => setStep('preview')}
+              disabled={mapping?.patient_id == null}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || counts.new + counts.updated === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? <Loader className="animate-spin" size={18} /> : <Upload size={18} />}
+              Import {counts.new} new, update {counts.updated}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
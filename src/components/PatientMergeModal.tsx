@@ -0,0 +1,187 @@
+import { useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { AlertTriangle, GitMerge, Loader, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import {
+  MERGE_FIELDS,
+  defaultMergeValues,
+  mergeFieldValue,
+  mergePatients,
+  type MergeField,
+  type PatientDuplicatePair,
+  type PatientMergeCounts,
+  type PatientMergeValues,
+} from '@/lib/patientDuplicates'
+import { toDisplayDate } from '@/lib/utils'
+import type { Patient } from '@/types'
+
+const TABLE_LABELS: Record<string, string> = {
+  provider_sheet_rows: 'provider sheet rows',
+  provider_schedules: 'schedule entries',
+  private_patient_claims: 'private patient claims',
+  patient_coverages: 'coverages',
+  payment_plans: 'payment plans',
+  patient_statements: 'statements',
+  eligibility_checks: 'eligibility checks',
+  claim_status_history: 'claim status entries',
+  denials: 'denials',
+  patient_refunds: 'refunds',
+  patient_collections: 'collections accounts',
+}
+
+function displayValue(field: MergeField, value: string | null): string {
+  if (value == null) return '—'
+  return field === 'date_of_birth' ? toDisplayDate(value) : value
+}
+
+function countsSummary(counts: PatientMergeCounts): string {
+  const parts = Object.entries(counts)
+    .filter(([, n]) => n > 0)
+    .map(([table, n]) => `${n} ${TABLE_LABELS[table] ?? table}`)
+  return parts.length > 0 ? parts.join(', ') : 'no other records'
+}
+
+interface PatientMergeModalProps {
+  pair: PatientDuplicatePair
+  onClose: () => void
+  /** Called after the merge committed; the duplicate no longer exists and its rows now carry the survivor's patient_id. */
+  onMerged: (survivor: Patient, merged: Patient) => void
+}
+
+export default function PatientMergeModal({ pair, onClose, onMerged }: PatientMergeModalProps) {
+  // The older record survives by default; it is the one most sheets already point at.
+  const [survivorId, setSurvivorId] = useState(() => (pair.a.created_at <= pair.b.created_at ? pair.a.id : pair.b.id))
+  const survivor = survivorId === pair.a.id ? pair.a : pair.b
+  const merged = survivorId === pair.a.id ? pair.b : pair.a
+  const [values, setValues] = useState<PatientMergeValues>(() => defaultMergeValues(survivor, merged))
+  const [merging, setMerging] = useState(false)
+
+  const conflicts = useMemo(
+    () => new Set(MERGE_FIELDS.filter(({ key }) => (mergeFieldValue(pair.a, key) ?? '') !== (mergeFieldValue(pair.b, key) ?? '')).map(({ key }) => key)),
+    [pair]
+  )
+
+  const handleSurvivorChange = (id: string) => {
+    setSurvivorId(id)
+    const nextSurvivor = id === pair.a.id ? pair.a : pair.b
+    setValues(defaultMergeValues(nextSurvivor, id === pair.a.id ? pair.b : pair.a))
+  }
+
+  const handleMerge = async () => {
+    if (!values.first_name || !values.last_name) {
+      alert('First and last name are required.')
+      return
+    }
+    if (
+      !confirm(
+        `Merge ${merged.patient_id} into ${survivor.patient_id}? Every sheet row, schedule entry and claim for ${merged.patient_id} ` +
+          `will move to ${survivor.patient_id} and the ${merged.patient_id} record will be deleted. This cannot be undone.`
+      )
+    ) return
+    setMerging(true)
+    try {
+      const counts = await mergePatients(supabase, survivor.id, merged.id, values)
+      alert(`Merged ${merged.patient_id} into ${survivor.patient_id}. Moved ${countsSummary(counts)}.`)
+      onMerged(survivor, merged)
+    } catch (err) {
+      console.error('[PatientMergeModal] merge', err)
+      alert('Failed to merge patients. Please try again.')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const radioCell = (patient: Patient, field: MergeField) => {
+    const value = mergeFieldValue(patient, field)
+    const selected = (values[field] ?? null) === value
+    return (
+      <label className={`flex items-center gap-2 cursor-pointer ${selected ? 'text-white' : 'text-white/60'}`}>
+        <input
+          type="radio"
+          name={`merge-${field}`}
+          checked={selected}
+          onChange={() => setValues((prev) => ({ ...prev, [field]: value }))}
+        />
+        {displayValue(field, value)}
+      </label>
+    )
+  }
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <GitMerge size={20} />
+          Merge patients
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          Score {pair.score} · {pair.matches.map((m) => m.label).join(' · ')}
+        </p>
+
+        <div className="table-container dark-theme mb-4">
+          <table className="table-spreadsheet dark-theme w-full text-sm">
+            <thead>
+              <tr>
+                <th>Field</th>
+                {[pair.a, pair.b].map((p) => (
+                  <th key={p.id}>
+                    <label className="flex items-center gap-2 cursor-pointer">
+                      <input type="radio" name="merge-survivor" checked={survivorId === p.id} onChange={() => handleSurvivorChange(p.id)} />
+                      Keep {p.patient_id}
+                    </label>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MERGE_FIELDS.map(({ key, label }) => (
+                <tr key={key}>
+                  <td className={conflicts.has(key) ? 'text-yellow-200' : undefined}>{label}</td>
+                  <td>{radioCell(pair.a, key)}</td>
+                  <td>{radioCell(pair.b, key)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <p className="mb-4 text-sm text-yellow-200 flex items-start gap-2">
+          <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+          {merged.patient_id} will be deleted and its provider sheet rows, schedules, coverages, statements, payment plans and claims will use{' '}
+          {survivor.patient_id}. The merge is recorded in the audit log with both original records.
+        </p>
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleMerge}
+            disabled={merging}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {merging ? <Loader className="animate-spin" size={18} /> : <GitMerge size={18} />}
+            Merge into {survivor.patient_id}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  )
+}
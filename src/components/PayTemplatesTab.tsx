@@ -0,0 +1,596 @@
+import { useState, useEffect, useMemo } from 'react'
+import { supabase } from '@/lib/supabase'
+import { PaySheetSource, PayTemplate, PayTemplateLineType, Provider, ProviderCompensationModel } from '@/types'
+import { Plus, Edit, Trash2, X, ArrowUp, ArrowDown, Star } from 'lucide-react'
+import {
+  fetchPayTemplates,
+  savePayTemplate,
+  deletePayTemplate,
+  setDefaultPayTemplate,
+  assignProviderPayTemplate,
+  describePayLine,
+  payLineKeyFromLabel,
+  validatePayTemplate,
+  PAY_LINE_TYPES,
+  PAY_SHEET_SOURCES,
+  type PayTemplateInput,
+  type PayTemplateLineInput,
+} from '@/lib/providerPayTemplates'
+import { activeCompensationModel, describeCompensationModel, fetchCompensationModels, COMPENSATION_MODEL_TYPE_LABELS } from '@/lib/compensationModels'
+import CompensationModelsModal from '@/components/CompensationModelsModal'
+
+/** Prefix for keys of lines added in the editor; replaced with a key made from the label on save. */
+const NEW_LINE_PREFIX = '__new_'
+
+/** Gives new lines a key from their label and rewrites formula references to them. Existing keys never change. */
+function finalizeLineKeys(lines: PayTemplateLineInput[]): PayTemplateLineInput[] {
+  const taken = lines.filter((l) => !l.line_key.startsWith(NEW_LINE_PREFIX)).map((l) => l.line_key)
+  const renamed = new Map<string, string>()
+  lines.forEach((l) => {
+    if (!l.line_key.startsWith(NEW_LINE_PREFIX)) return
+    const key = payLineKeyFromLabel(l.label, taken)
+    taken.push(key)
+    renamed.set(l.line_key, key)
+  })
+  return lines.map((l) => ({
+    ...l,
+    line_key: renamed.get(l.line_key) ?? l.line_key,
+    source_keys: l.source_keys.map((k) => renamed.get(k) ?? k),
+  }))
+}
+
+export default function PayTemplatesTab() {
+  const [templates, setTemplates] = useState<PayTemplate[]>([])
+  const [providers, setProviders] = useState<Provider[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<PayTemplate | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [assigningId, setAssigningId] = useState<string | null>(null)
+  const [compensationModels, setCompensationModels] = useState<ProviderCompensationModel[]>([])
+  const [compensationProvider, setCompensationProvider] = useState<Provider | null>(null)
+
+  const loadData = async () => {
+    try {
+      const [list, providersResult, models] = await Promise.all([
+        fetchPayTemplates(supabase),
+        supabase.from('providers').select('*').order('last_name', { ascending: true }),
+        fetchCompensationModels(supabase),
+      ])
+      if (providersResult.error) throw providersResult.error
+      setTemplates(list)
+      setCompensationModels(models)
+      setProviders((providersResult.data || []) as Provider[])
+    } catch (error) {
+      console.error('Error fetching pay templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const defaultTemplate = templates.find((t) => t.is_default)
+  const providerCountByTemplate = useMemo(() => {
+    const counts = new Map<string, number>()
+    providers.forEach((p) => {
+      const id = p.pay_template_id ?? defaultTemplate?.id
+      if (id) counts.set(id, (counts.get(id) ?? 0) + 1)
+    })
+    return counts
+  }, [providers, defaultTemplate])
+
+  const compensationModelsByProvider = useMemo(() => {
+    const byProvider = new Map<string, ProviderCompensationModel[]>()
+    compensationModels.forEach((m) => byProvider.set(m.provider_id, [...(byProvider.get(m.provider_id) ?? []), m]))
+    return byProvider
+  }, [compensationModels])
+
+  const today = new Date()
+
+  const handleSave = async (input: PayTemplateInput) => {
+    try {
+      await savePayTemplate(supabase, editing?.id ?? null, input)
+      setShowForm(false)
+      setEditing(null)
+      await loadData()
+    } catch (error) {
+      console.error('Error saving pay template:', error)
+      alert('Failed to save pay template. The name must be unique. Please try again.')
+    }
+  }
+
+  const handleDelete = async (template: PayTemplate) => {
+    const assigned = providers.filter((p) => p.pay_template_id === template.id).length
+    const note = assigned > 0 ? ` ${assigned} provider(s) using it will switch to the default template.` : ''
+    if (!confirm(`Delete pay template "${template.name}"?${note} Months already saved keep their amounts.`)) return
+    try {
+      await deletePayTemplate(supabase, template.id)
+      await loadData()
+    } catch (error) {
+      console.error('Error deleting pay template:', error)
+      alert('Failed to delete pay template. Please try again.')
+    }
+  }
+
+  const handleMakeDefault = async (template: PayTemplate) => {
+    if (!confirm(`Make "${template.name}" the default? Providers without an assigned template will use it for new pay months.`)) return
+    try {
+      await setDefaultPayTemplate(supabase, template.id)
+      await loadData()
+    } catch (error) {
+      console.error('Error setting default pay template:', error)
+      alert('Failed to set the default template. Please try again.')
+    }
+  }
+
+  const handleAssign = async (provider: Provider, templateId: string) => {
+    setAssigningId(provider.id)
+    try {
+      await assignProviderPayTemplate(supabase, provider.id, templateId || null)
+      setProviders((prev) => prev.map((p) => (p.id === provider.id ? { ...p, pay_template_id: templateId || null } : p)))
+    } catch (error) {
+      console.error('Error assigning pay template:', error)
+      alert('Failed to assign pay template. Please try again.')
+    } finally {
+      setAssigningId(null)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-700">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold text-white">Provider Pay Templates</h2>
+          <button
+            onClick={() => {
+              setEditing(null)
+              setShowForm(true)
+            }}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+          >
+            <Plus size={18} />
+            Add Template
+          </button>
+        </div>
+        <p className="text-sm text-white/70 mb-4">
+          Each template lists the lines of the Provider Pay table and how computed lines are worked out. Changes apply to new
+          pay months and to saved months the next time they are opened; saved months keep the template they were built with.
+        </p>
+
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Lines</th>
+                <th>Providers</th>
+                <th style={{ width: '110px' }}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="text-center text-white/50">No pay templates yet</td>
+                </tr>
+              ) : (
+                templates.map((template) => (
+                  <tr key={template.id}>
+                    <td>
+                      {template.name}
+                      {template.is_default && <span className="ml-2 text-xs text-primary-300">Default</span>}
+                      {template.description && <div className="text-xs text-white/50">{template.description}</div>}
+                    </td>
+                    <td className="text-sm">
+                      {template.lines.map((line) => (
+                        <div key={line.line_key}>
+                          <span className={line.is_payout ? 'font-semibold' : undefined}>{line.label}</span>
+                          <span className="text-white/50"> — {describePayLine(line, template.lines)}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td>{providerCountByTemplate.get(template.id) ?? 0}</td>
+                    <td>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => {
+                            setEditing(template)
+                            setShowForm(true)
+                          }}
+                          className="text-primary-400 hover:text-primary-300"
+                          style={{ padding: '4px' }}
+                          title="Edit"
+                        >
+                          <Edit size={16} />
+                        </button>
+                        {!template.is_default && (
+                          <>
+                            <button
+                              onClick={() => handleMakeDefault(template)}
+                              className="text-yellow-400 hover:text-yellow-300"
+                              style={{ padding: '4px' }}
+                              title="Make default"
+                            >
+                              <Star size={16} />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(template)}
+                              className="text-red-400 hover:text-red-300"
+                              style={{ padding: '4px' }}
+                              title="Delete"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <h2 className="text-xl font-semibold text-white mb-2">Provider Assignments</h2>
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme">
+            <thead>
+              <tr>
+                <th>Provider</th>
+                <th>Provider cut</th>
+                <th>Compensation model (this month)</th>
+                <th>Pay template</th>
+              </tr>
+            </thead>
+            <tbody>
+              {providers.length === 0 ? (
+                <tr>
+                  <td colSpan={4} className="text-center text-white/50">No providers</td>
+                </tr>
+              ) : (
+                providers.map((provider) => (
+                  <tr key={provider.id}>
+                    <td>
+                      {provider.first_name} {provider.last_name}
+                      {!provider.active && <span className="ml-2 text-xs text-white/50">Inactive</span>}
+                    </td>
+                    <td>{Math.round((provider.provider_cut_percent ?? 0.7) * 100)}%</td>
+                    <td className="text-sm">
+                      {(() => {
+                        const models = compensationModelsByProvider.get(provider.id) ?? []
+                        const current = activeCompensationModel(models, today.getFullYear(), today.getMonth() + 1)
+                        return (
+                          <div className="flex items-center gap-2">
+                            <span className={current ? undefined : 'text-white/50'}>
+                              {current ? `${COMPENSATION_MODEL_TYPE_LABELS[current.model_type]}: ${describeCompensationModel(current)}` : 'Provider cut %'}
+                            </span>
+                            <button
+                              onClick={() => setCompensationProvider(provider)}
+                              className="text-primary-400 hover:text-primary-300"
+                              style={{ padding: '4px' }}
+                              title={`Edit compensation models (${models.length})`}
+                            >
+                              <Edit size={16} />
+                            </button>
+                          </div>
+                        )
+                      })()}
+                    </td>
+                    <td>
+                      <select
+                        value={provider.pay_template_id ?? ''}
+                        onChange={(e) => handleAssign(provider, e.target.value)}
+                        disabled={assigningId === provider.id}
+                        className="px-3 py-1 border border-gray-300 rounded-lg text-black bg-white disabled:opacity-50"
+                      >
+                        <option value="">Default{defaultTemplate ? ` (${defaultTemplate.name})` : ''}</option>
+                        {templates.map((t) => (
+                          <option key={t.id} value={t.id}>{t.name}</option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {compensationProvider && (
+        <CompensationModelsModal
+          provider={compensationProvider}
+          models={compensationModelsByProvider.get(compensationProvider.id) ?? []}
+          onClose={() => setCompensationProvider(null)}
+          onChanged={loadData}
+        />
+      )}
+
+      {showForm && (
+        <PayTemplateFormModal
+          template={editing}
+          onClose={() => {
+            setShowForm(false)
+            setEditing(null)
+          }}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  )
+}
+
+function PayTemplateFormModal({
+  template,
+  onClose,
+  onSave,
+}: {
+  template: PayTemplate | null
+  onSave: (data: PayTemplateInput) => Promise<void>
+  onClose: () => void
+}) {
+  const [name, setName] = useState(template?.name ?? '')
+  const [description, setDescription] = useState(template?.description ?? '')
+  const [lines, setLines] = useState<PayTemplateLineInput[]>(() =>
+    (template?.lines ?? []).map((l) => ({
+      line_key: l.line_key,
+      label: l.label,
+      line_type: l.line_type,
+      source_keys: [...l.source_keys],
+      rate: l.rate,
+      amount: l.amount,
+      is_payout: l.is_payout,
+      sheet_source: l.sheet_source,
+    }))
+  )
+  const [nextNewId, setNextNewId] = useState(1)
+  const [errors, setErrors] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  const updateLine = (index: number, patch: Partial<PayTemplateLineInput>) => {
+    setLines((prev) => prev.map((l, i) => (i === index ? { ...l, ...patch } : l)))
+  }
+
+  const addLine = () => {
+    setLines((prev) => [
+      ...prev,
+      { line_key: `${NEW_LINE_PREFIX}${nextNewId}`, label: '', line_type: 'input', source_keys: [], rate: null, amount: null, is_payout: false, sheet_source: null },
+    ])
+    setNextNewId((n) => n + 1)
+  }
+
+  const removeLine = (index: number) => {
+    const key = lines[index].line_key
+    setLines((prev) =>
+      prev.filter((_, i) => i !== index).map((l) => ({ ...l, source_keys: l.source_keys.filter((k) => k !== key) }))
+    )
+  }
+
+  const moveLine = (index: number, delta: number) => {
+    const target = index + delta
+    if (target < 0 || target >= lines.length) return
+    setLines((prev) => {
+      const next = [...prev]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      return next
+    })
+  }
+
+  const toggleSource = (index: number, key: string) => {
+    const line = lines[index]
+    const source_keys = line.source_keys.includes(key) ? line.source_keys.filter((k) => k !== key) : [...line.source_keys, key]
+    updateLine(index, { source_keys })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const input: PayTemplateInput = { name, description: description || null, lines: finalizeLineKeys(lines) }
+    const problems = validatePayTemplate(input)
+    setErrors(problems)
+    if (problems.length > 0) return
+    setSaving(true)
+    try {
+      await onSave(input)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const usesSources = (type: PayTemplateLineType) => type === 'sum' || type === 'percent' || type === 'deduction'
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {template ? 'Edit Pay Template' : 'Add Pay Template'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+              <input
+                type="text"
+                required
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700">Lines</label>
+              <button type="button" onClick={addLine} className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700">
+                <Plus size={16} />
+                Add line
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-2">
+              Computed lines can only use lines above them. Leave a percent line's rate blank to use each provider's compensation
+              model (or cut percentage). Deductions are shown as negative amounts; include them in a sum line to get net pay. Mark the line
+              that is the provider's pay for the period as the payout.
+            </p>
+            <div className="space-y-2">
+              {lines.length === 0 && <p className="text-sm text-gray-500">No lines yet.</p>}
+              {lines.map((line, index) => (
+                <div key={line.line_key} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={line.label}
+                      onChange={(e) => updateLine(index, { label: e.target.value })}
+                      placeholder="Label, e.g. Supervision Fee"
+                      className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-black text-sm"
+                    />
+                    <select
+                      value={line.line_type}
+                      onChange={(e) => updateLine(index, { line_type: e.target.value as PayTemplateLineType })}
+                      className="px-3 py-1.5 border border-gray-300 rounded-lg text-black text-sm"
+                    >
+                      {PAY_LINE_TYPES.map((t) => (
+                        <option key={t.key} value={t.key}>{t.label}</option>
+                      ))}
+                    </select>
+                    <label className="flex items-center gap-1 text-sm text-gray-700 whitespace-nowrap">
+                      <input
+                        type="radio"
+                        name="payout-line"
+                        checked={line.is_payout}
+                        onChange={() => setLines((prev) => prev.map((l, i) => ({ ...l, is_payout: i === index })))}
+                      />
+                      Payout
+                    </label>
+                    <button type="button" onClick={() => moveLine(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" title="Move up">
+                      <ArrowUp size={16} />
+                    </button>
+                    <button type="button" onClick={() => moveLine(index, 1)} disabled={index === lines.length - 1} className="text-gray-500 hover:text-gray-700 disabled:opacity-30" title="Move down">
+                      <ArrowDown size={16} />
+                    </button>
+                    <button type="button" onClick={() => removeLine(index)} className="text-red-500 hover:text-red-700" title="Remove line">
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+
+                  {line.line_type === 'input' && (
+                    <label className="flex items-center gap-1 text-sm text-gray-700">
+                      Pull from sheet
+                      <select
+                        value={line.sheet_source ?? ''}
+                        onChange={(e) => updateLine(index, { sheet_source: (e.target.value || null) as PaySheetSource | null })}
+                        className="px-2 py-1 border border-gray-300 rounded text-black"
+                      >
+                        <option value="">— (entered by hand)</option>
+                        {PAY_SHEET_SOURCES.map((source) => (
+                          <option key={source.key} value={source.key}>{source.label}</option>
+                        ))}
+                      </select>
+                    </label>
+                  )}
+
+                  {line.line_type !== 'input' && (
+                    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                      {(line.line_type === 'percent' || line.line_type === 'deduction') && (
+                        <label className="flex items-center gap-1">
+                          Rate %
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            step="0.01"
+                            value={line.rate != null ? Math.round(line.rate * 10000) / 100 : ''}
+                            onChange={(e) => updateLine(index, { rate: e.target.value === '' ? null : Number(e.target.value) / 100 })}
+                            placeholder={line.line_type === 'percent' ? "Provider's cut" : 'Flat'}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-black"
+                          />
+                        </label>
+                      )}
+                      {(line.line_type === 'flat' || (line.line_type === 'deduction' && line.rate == null)) && (
+                        <label className="flex items-center gap-1">
+                          Amount $
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            value={line.amount ?? ''}
+                            onChange={(e) => updateLine(index, { amount: e.target.value === '' ? null : Number(e.target.value) })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded text-black"
+                          />
+                        </label>
+                      )}
+                      {usesSources(line.line_type) && !(line.line_type === 'deduction' && line.rate == null) && (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span>Of:</span>
+                          {index === 0 && <span className="text-gray-400">no lines above</span>}
+                          {lines.slice(0, index).map((source) => (
+                            <label key={source.line_key} className="flex items-center gap-1">
+                              <input
+                                type="checkbox"
+                                checked={line.source_keys.includes(source.line_key)}
+                                onChange={() => toggleSource(index, source.line_key)}
+                              />
+                              {source.label || '(unnamed)'}
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500">{describePayLine(line, lines)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded-lg border border-red-300 bg-red-50 text-red-700 text-sm">
+              {errors.map((msg) => (
+                <p key={msg}>{msg}</p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,484 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { Payer } from '@/types'
+import { Plus, Edit, Trash2, X, Search, Check } from 'lucide-react'
+import {
+  fetchPayers,
+  findPayer,
+  savePayer,
+  deletePayer,
+  fetchInsuranceValueUsage,
+  suggestPayers,
+  applyPayerMapping,
+  type PayerInput,
+  type InsuranceValueUsage,
+} from '@/lib/payers'
+
+/** Normalization review row: a free-text value and the payer chosen for it ('' = leave as is). */
+interface NormalizationRow extends InsuranceValueUsage {
+  payerId: string
+  score: number | null
+}
+
+/** Builds review rows; `previous` keeps payers the user already picked by hand when the list is rebuilt. */
+function toNormalizationRows(usage: InsuranceValueUsage[], payers: Payer[], previous: NormalizationRow[] = []): NormalizationRow[] {
+  const manual = new Map(previous.filter((r) => r.payerId && r.score == null).map((r) => [r.value, r.payerId]))
+  return usage
+    .map((u) => ({ ...u, matched: findPayer(u.value, payers) }))
+    .filter((u) => !u.matched || u.matched.name !== u.value)
+    .map((u) => {
+      if (u.matched) return { ...u, payerId: u.matched.id, score: 1 }
+      const picked = manual.get(u.value)
+      if (picked && payers.some((p) => p.id === picked)) return { ...u, payerId: picked, score: null }
+      const best = suggestPayers(u.value, payers, 1)[0]
+      return { ...u, payerId: best?.payer.id ?? '', score: best?.score ?? null }
+    })
+}
+
+export default function PayersTab() {
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingPayer, setEditingPayer] = useState<Payer | null>(null)
+  const [newPayerName, setNewPayerName] = useState<string | null>(null)
+  const [normalizationRows, setNormalizationRows] = useState<NormalizationRow[] | null>(null)
+  const [scanning, setScanning] = useState(false)
+  const [applying, setApplying] = useState(false)
+
+  const loadPayers = async () => {
+    try {
+      const list = await fetchPayers(supabase)
+      setPayers(list)
+      return list
+    } catch (error) {
+      console.error('Error fetching payers:', error)
+      return payers
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPayers()
+  }, [])
+
+  const handleSave = async (input: PayerInput) => {
+    try {
+      await savePayer(supabase, input, editingPayer?.id)
+      setEditingPayer(null)
+      setNewPayerName(null)
+      const list = await loadPayers()
+      if (normalizationRows) {
+        setNormalizationRows(toNormalizationRows(normalizationRows, list, normalizationRows))
+      }
+    } catch (error) {
+      console.error('Error saving payer:', error)
+      alert('Failed to save payer. The name must be unique. Please try again.')
+    }
+  }
+
+  const handleDelete = async (payer: Payer) => {
+    if (!confirm(`Delete payer "${payer.name}"? Insurance cells keep their text.`)) return
+    try {
+      await deletePayer(supabase, payer.id)
+      await loadPayers()
+    } catch (error) {
+      console.error('Error deleting payer:', error)
+      alert('Failed to delete payer. Please try again.')
+    }
+  }
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      const list = await loadPayers()
+      const usage = await fetchInsuranceValueUsage(supabase, list)
+      setNormalizationRows(toNormalizationRows(usage, list))
+    } catch (error) {
+      console.error('Error scanning insurance values:', error)
+      alert('Failed to scan insurance values. Please try again.')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const applyRows = async (rows: NormalizationRow[]) => {
+    const toApply = rows.filter((r) => r.payerId)
+    if (toApply.length === 0) return
+    const records = toApply.reduce((sum, r) => sum + r.patientCount + r.scheduleCount, 0)
+    if (!confirm(`Rewrite ${records} insurance cell(s) across ${toApply.length} value(s) to the chosen payer names?`)) return
+    setApplying(true)
+    try {
+      const byId = new Map(payers.map((p) => [p.id, p]))
+      for (const row of toApply) {
+        const payer = byId.get(row.payerId)
+        if (!payer) continue
+        byId.set(payer.id, await applyPayerMapping(supabase, row.value, payer))
+      }
+      const applied = new Set(toApply.map((r) => r.value))
+      setNormalizationRows((prev) => (prev ?? []).filter((r) => !applied.has(r.value)))
+      await loadPayers()
+    } catch (error) {
+      console.error('Error applying payer mapping:', error)
+      alert('Failed to update insurance values. Please try again.')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const setRowPayer = (value: string, payerId: string) => {
+    setNormalizationRows((prev) => (prev ?? []).map((r) => (r.value === value ? { ...r, payerId, score: null } : r)))
+  }
+
+  if (loading) {
+    return <div className="text-center py-8 text-gray-700">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-white">Payers</h2>
+          <button
+            onClick={() => {
+              setEditingPayer(null)
+              setNewPayerName('')
+            }}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+          >
+            <Plus size={18} />
+            Add Payer
+          </button>
+        </div>
+
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Aliases</th>
+                <th>Payer ID</th>
+                <th>Claim address</th>
+                <th>Phone</th>
+                <th>Timely filing</th>
+                <th>Submission</th>
+                <th>Active</th>
+                <th style={{ width: '80px' }}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {payers.length === 0 ? (
+                <tr>
+                  <td colSpan={9} className="text-center text-white/50">No payers yet</td>
+                </tr>
+              ) : (
+                payers.map((payer) => (
+                  <tr key={payer.id}>
+                    <td>{payer.name}</td>
+                    <td className="text-sm">{payer.aliases.length > 0 ? payer.aliases.join(', ') : '-'}</td>
+                    <td>{payer.payer_id || '-'}</td>
+                    <td className="text-sm">{payer.claim_address || '-'}</td>
+                    <td>{payer.phone || '-'}</td>
+                    <td>{payer.timely_filing_days != null ? `${payer.timely_filing_days} days` : '-'}</td>
+                    <td>{payer.submission_method === 'paper' ? 'Paper' : 'Electronic'}</td>
+                    <td>{payer.is_active ? 'Yes' : <span className="text-red-400">No</span>}</td>
+                    <td>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() => {
+                            setNewPayerName(null)
+                            setEditingPayer(payer)
+                          }}
+                          className="text-primary-400 hover:text-primary-300"
+                          style={{ padding: '4px' }}
+                          title="Edit"
+                        >
+                          <Edit size={16} />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(payer)}
+                          className="text-red-400 hover:text-red-300"
+                          style={{ padding: '4px' }}
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold text-white">Normalize insurance values</h2>
+          <div className="flex items-center gap-2">
+            {normalizationRows && normalizationRows.some((r) => r.payerId) && (
+              <button
+                onClick={() => applyRows(normalizationRows)}
+                disabled={applying}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                <Check size={18} />
+                Apply all mapped
+              </button>
+            )}
+            <button
+              onClick={handleScan}
+              disabled={scanning || applying}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-600 text-white rounded-lg hover:bg-slate-700 disabled:opacity-50"
+            >
+              <Search size={18} />
+              {scanning ? 'Scanning...' : 'Scan insurance values'}
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-white/70 mb-4">
+          Finds every insurance spelling in patients and provider schedules that is not a payer name. Review the suggested
+          payer for each, then apply to rewrite those cells to the payer name and save the spelling as an alias.
+        </p>
+
+        {normalizationRows && (
+          normalizationRows.length === 0 ? (
+            <p className="text-white/80">All insurance values match a payer name.</p>
+          ) : (
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme">
+                <thead>
+                  <tr>
+                    <th>Value</th>
+                    <th>Patients</th>
+                    <th>Schedule entries</th>
+                    <th>Map to payer</th>
+                    <th>Match</th>
+                    <th style={{ width: '160px' }}>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {normalizationRows.map((row) => (
+                    <tr key={row.value}>
+                      <td>{row.value}</td>
+                      <td>{row.patientCount}</td>
+                      <td>{row.scheduleCount}</td>
+                      <td>
+                        <select
+                          value={row.payerId}
+                          onChange={(e) => setRowPayer(row.value, e.target.value)}
+                          className="w-full px-2 py-1 border border-gray-300 rounded text-black bg-white"
+                        >
+                          <option value="">— Leave as is —</option>
+                          {payers.map((p) => (
+                            <option key={p.id} value={p.id}>{p.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="text-sm">
+                        {row.matched ? 'Alias' : row.score != null ? `Suggested (${Math.round(row.score * 100)}%)` : row.payerId ? 'Manual' : '-'}
+                      </td>
+                      <td>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => applyRows([row])}
+                            disabled={!row.payerId || applying}
+                            className="text-primary-400 hover:text-primary-300 disabled:opacity-40 text-sm"
+                          >
+                            Apply
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditingPayer(null)
+                              setNewPayerName(row.value)
+                            }}
+                            className="text-white/80 hover:text-white text-sm"
+                          >
+                            New payer
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        )}
+      </div>
+
+      {(editingPayer || newPayerName != null) && (
+        <PayerFormModal
+          payer={editingPayer}
+          initialName={newPayerName ?? ''}
+          onClose={() => {
+            setEditingPayer(null)
+            setNewPayerName(null)
+          }}
+          onSave={handleSave}
+        />
+      )}
+    </div>
+  )
+}
+
+function PayerFormModal({
+  payer,
+  initialName,
+  onClose,
+  onSave,
+}: {
+  payer: Payer | null
+  initialName: string
+  onSave: (data: PayerInput) => Promise<void>
+  onClose: () => void
+}) {
+  const [formData, setFormData] = useState({
+    name: payer?.name ?? initialName,
+    aliases: (payer?.aliases ?? []).join(', '),
+    payer_id: payer?.payer_id ?? '',
+    claim_address: payer?.claim_address ?? '',
+    phone: payer?.phone ?? '',
+    timely_filing_days: payer?.timely_filing_days != null ? String(payer.timely_filing_days) : '',
+    submission_method: payer?.submission_method ?? 'electronic',
+    is_active: payer?.is_active ?? true,
+  })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!formData.name.trim()) {
+      alert('Name is required')
+      return
+    }
+    const days = formData.timely_filing_days.trim() === '' ? null : parseInt(formData.timely_filing_days, 10)
+    await onSave({
+      name: formData.name,
+      aliases: formData.aliases.split(',').map((a) => a.trim()).filter(Boolean),
+      payer_id: formData.payer_id.trim() || null,
+      claim_address: formData.claim_address.trim() || null,
+      phone: formData.phone.trim() || null,
+      timely_filing_days: days != null && Number.isFinite(days) ? days : null,
+      submission_method: formData.submission_method,
+      is_active: formData.is_active,
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {payer ? 'Edit Payer' : 'Add Payer'}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={24} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name *</label>
+            <input
+              type="text"
+              required
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Aliases (comma-separated)</label>
+            <input
+              type="text"
+              value={formData.aliases}
+              onChange={(e) => setFormData({ ...formData, aliases: e.target.value })}
+              placeholder="BCBS, Blue Cross"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Payer ID</label>
+              <input
+                type="text"
+                value={formData.payer_id}
+                onChange={(e) => setFormData({ ...formData, payer_id: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                type="text"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Claim address</label>
+            <textarea
+              value={formData.claim_address}
+              onChange={(e) => setFormData({ ...formData, claim_address: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Timely filing (days)</label>
+              <input
+                type="number"
+                min={0}
+                value={formData.timely_filing_days}
+                onChange={(e) => setFormData({ ...formData, timely_filing_days: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Submission</label>
+              <select
+                value={formData.submission_method}
+                onChange={(e) => setFormData({ ...formData, submission_method: e.target.value as Payer['submission_method'] })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              >
+                <option value="electronic">Electronic</option>
+                <option value="paper">Paper</option>
+              </select>
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={formData.is_active}
+              onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+            />
+            Active (shown in the payer picker)
+          </label>
+
+          <div className="flex justify-end gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
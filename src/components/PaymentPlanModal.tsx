@@ -0,0 +1,484 @@
+import { useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Loader, Trash2, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  DEFAULT_PAYMENT_PLAN_GRACE_DAYS,
+  PAYMENT_PLAN_FREQUENCY_LABELS,
+  buildInstallmentSchedule,
+  createPaymentPlan,
+  deletePlanPayment,
+  recordPlanPayment,
+  summarizePaymentPlan,
+  updatePaymentPlanStatus,
+  type InstallmentStatus,
+  type PaymentPlanDetail,
+} from '@/lib/paymentPlans'
+import { fetchPatientStatements, type StatementLine } from '@/lib/patientStatements'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { formatCurrency, toDisplayDate, todayIso } from '@/lib/utils'
+import type { Patient, PaymentPlan, PaymentPlanFrequency } from '@/types'
+
+interface PaymentPlanModalProps {
+  clinicId: string
+  /** Clinic payroll setting, for the PT Payment AR Ref Date value written to sheet rows. */
+  payroll: 1 | 2
+  /** Existing plan to manage; null to create one. */
+  detail: PaymentPlanDetail | null
+  /** Patients to choose from when creating. */
+  patients: Patient[]
+  /** Preselected patient (patients.patient_id) when creating from a patient record. */
+  patientId?: string
+  /** Sheet rows already on another active plan; not offered again. */
+  rowIdsOnActivePlans: Set<string>
+  canEdit: boolean
+  onClose: () => void
+  onSaved: () => void
+}
+
+const INSTALLMENT_STATUS_CLASSES: Record<InstallmentStatus, string> = {
+  paid: 'bg-green-600 text-white',
+  missed: 'bg-red-600 text-white',
+  due: 'bg-amber-500 text-black',
+  upcoming: 'bg-white/20 text-white',
+}
+
+const PAYMENT_METHODS = ['Card', 'Cash', 'Check', 'Other']
+
+const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+export default function PaymentPlanModal(props: PaymentPlanModalProps) {
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-3xl border border-white/20 relative max-h-[90vh] overflow-y-auto">
+        <button
+          type="button"
+          onClick={props.onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        {props.detail ? <ManagePlan {...props} detail={props.detail} /> : <CreatePlan {...props} />}
+      </div>
+    </div>,
+    document.body
+  )
+}
+
+function CreatePlan({ clinicId, payroll, patients, patientId, rowIdsOnActivePlans, onSaved }: PaymentPlanModalProps) {
+  const { userProfile } = useAuth()
+  const [selectedPatientId, setSelectedPatientId] = useState(patientId ?? '')
+  const [linesByPatient, setLinesByPatient] = useState<Map<string, StatementLine[]> | null>(null)
+  const [selectedRowIds, setSelectedRowIds] = useState<Set<string>>(new Set())
+  const [totalOverride, setTotalOverride] = useState('')
+  const [installment, setInstallment] = useState('')
+  const [frequency, setFrequency] = useState<PaymentPlanFrequency>('monthly')
+  const [startDate, setStartDate] = useState(todayIso())
+  const [graceDays, setGraceDays] = useState(String(DEFAULT_PAYMENT_PLAN_GRACE_DAYS))
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetchPatientStatements(supabase, clinicId)
+      .then((statements) => {
+        if (cancelled) return
+        const map = new Map<string, StatementLine[]>()
+        statements.forEach((s) => map.set(normalizePatientIdKey(s.patientId), s.lines.filter((l) => !rowIdsOnActivePlans.has(l.rowId))))
+        setLinesByPatient(map)
+      })
+      .catch((err) => {
+        console.error('[PaymentPlanModal] load open lines', err)
+        if (!cancelled) setLinesByPatient(new Map())
+      })
+    return () => { cancelled = true }
+  }, [clinicId, rowIdsOnActivePlans])
+
+  const lines = useMemo(
+    () => (selectedPatientId && linesByPatient ? linesByPatient.get(normalizePatientIdKey(selectedPatientId)) ?? [] : []),
+    [linesByPatient, selectedPatientId]
+  )
+
+  useEffect(() => {
+    setSelectedRowIds(new Set(lines.map((l) => l.rowId)))
+    setTotalOverride('')
+  }, [lines])
+
+  const selectedLines = lines.filter((l) => selectedRowIds.has(l.rowId))
+  const linesTotal = Math.round(selectedLines.reduce((sum, l) => sum + l.balanceDue, 0) * 100) / 100
+  const total = totalOverride.trim() !== '' ? parseFloat(totalOverride) || 0 : linesTotal
+  const installmentAmount = parseFloat(installment) || 0
+
+  const preview = useMemo(() => {
+    if (total <= 0 || installmentAmount <= 0 || !startDate) return []
+    const plan = { total_amount: total, installment_amount: installmentAmount, frequency, start_date: startDate, grace_days: 0 } as PaymentPlan
+    return buildInstallmentSchedule(plan, [])
+  }, [total, installmentAmount, frequency, startDate])
+
+  const toggleRow = (rowId: string) =>
+    setSelectedRowIds((prev) => {
+      const next = new Set(prev)
+      if (next.has(rowId)) next.delete(rowId)
+      else next.add(rowId)
+      return next
+    })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedPatientId || total <= 0 || installmentAmount <= 0) return
+    setSaving(true)
+    try {
+      await createPaymentPlan(
+        supabase,
+        clinicId,
+        {
+          patient_id: selectedPatientId,
+          total_amount: total,
+          installment_amount: installmentAmount,
+          frequency,
+          start_date: startDate,
+          grace_days: parseInt(graceDays, 10) || 0,
+          notes: notes.trim() || null,
+        },
+        selectedLines,
+        userProfile?.id ?? null,
+        payroll
+      )
+      onSaved()
+    } catch (err) {
+      console.error('[PaymentPlanModal] create', err)
+      alert('Failed to create payment plan. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <h2 className="text-xl font-bold text-white mb-4 pr-8">New payment plan</h2>
+      <div className="grid grid-cols-2 gap-3">
+        <div className="col-span-2">
+          <label className={labelClass}>Patient</label>
+          <select
+            className={inputClass}
+            value={selectedPatientId}
+            onChange={(e) => setSelectedPatientId(e.target.value)}
+            disabled={!!patientId}
+            required
+          >
+            <option value="" className="bg-slate-900">Select a patient</option>
+            {patients.map((p) => (
+              <option key={p.id} value={p.patient_id} className="bg-slate-900">{p.patient_id} – {p.first_name} {p.last_name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="mt-4">
+        <h3 className="text-sm font-medium text-white mb-2">Visits on the plan</h3>
+        {!selectedPatientId ? (
+          <p className="text-sm text-white/60">Choose a patient to see their open balances.</p>
+        ) : linesByPatient == null ? (
+          <p className="text-sm text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={16} />Loading open balances...</p>
+        ) : lines.length === 0 ? (
+          <p className="text-sm text-white/60">No open balances on provider sheets; enter the total owed below.</p>
+        ) : (
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>Date of Service</th>
+                  <th>CPT</th>
+                  <th>Charges</th>
+                  <th>Patient Paid</th>
+                  <th>Balance Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.rowId}>
+                    <td><input type="checkbox" checked={selectedRowIds.has(line.rowId)} onChange={() => toggleRow(line.rowId)} /></td>
+                    <td>{toDisplayDate(line.dateOfService)}</td>
+                    <td>{line.cptCode}</td>
+                    <td className="text-right">{formatCurrency(line.charges)}</td>
+                    <td className="text-right">{formatCurrency(line.patientPaid)}</td>
+                    <td className="text-right">{formatCurrency(line.balanceDue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 mt-4">
+        <div>
+          <label className={labelClass}>Total owed</label>
+          <input
+            className={inputClass}
+            type="number"
+            step="0.01"
+            min="0.01"
+            value={totalOverride.trim() !== '' ? totalOverride : linesTotal || ''}
+            onChange={(e) => setTotalOverride(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Installment amount</label>
+          <input className={inputClass} type="number" step="0.01" min="0.01" value={installment} onChange={(e) => setInstallment(e.target.value)} required />
+        </div>
+        <div>
+          <label className={labelClass}>Frequency</label>
+          <select className={inputClass} value={frequency} onChange={(e) => setFrequency(e.target.value as PaymentPlanFrequency)}>
+            {(Object.keys(PAYMENT_PLAN_FREQUENCY_LABELS) as PaymentPlanFrequency[]).map((f) => (
+              <option key={f} value={f} className="bg-slate-900">{PAYMENT_PLAN_FREQUENCY_LABELS[f]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>First payment due</label>
+          <input className={inputClass} type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} required />
+        </div>
+        <div>
+          <label className={labelClass}>Grace days before missed</label>
+          <input className={inputClass} type="number" min="0" value={graceDays} onChange={(e) => setGraceDays(e.target.value)} />
+        </div>
+        <div className="col-span-3">
+          <label className={labelClass}>Notes</label>
+          <textarea className={inputClass} rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+      </div>
+
+      {preview.length > 0 && (
+        <p className="text-sm text-white/70 mt-3">
+          {preview.length} installment(s); last payment of {formatCurrency(preview[preview.length - 1].amount)} due {toDisplayDate(preview[preview.length - 1].dueDate)}.
+        </p>
+      )}
+
+      <div className="flex justify-end gap-3 pt-4 mt-4 border-t border-white/20">
+        <button
+          type="submit"
+          disabled={saving || !selectedPatientId || total <= 0 || installmentAmount <= 0}
+          className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Create plan'}
+        </button>
+      </div>
+    </form>
+  )
+}
+
+function ManagePlan({ detail: initialDetail, payroll, patients, canEdit, onSaved }: PaymentPlanModalProps & { detail: PaymentPlanDetail }) {
+  const { userProfile } = useAuth()
+  const [detail, setDetail] = useState(initialDetail)
+  const summary = useMemo(() => summarizePaymentPlan(detail), [detail])
+  const [amount, setAmount] = useState(() => {
+    const next = summary.nextDue
+    return next ? String(Math.round((next.amount - next.paidToward) * 100) / 100) : ''
+  })
+  const [paidDate, setPaidDate] = useState(todayIso())
+  const [method, setMethod] = useState(PAYMENT_METHODS[0])
+  const [paymentNotes, setPaymentNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+
+  const { plan } = detail
+  const patient = patients.find((p) => normalizePatientIdKey(p.patient_id) === normalizePatientIdKey(plan.patient_id))
+
+  const run = async (action: () => Promise<PaymentPlanDetail>, failure: string) => {
+    setSaving(true)
+    try {
+      setDetail(await action())
+      onSaved()
+    } catch (err) {
+      console.error('[PaymentPlanModal]', failure, err)
+      alert(`Failed to ${failure}. Please try again.`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRecordPayment = (e: React.FormEvent) => {
+    e.preventDefault()
+    const value = parseFloat(amount)
+    if (!(value > 0)) return
+    run(async () => {
+      const next = await recordPlanPayment(
+        supabase,
+        detail,
+        { amount: value, paid_date: paidDate, method: method || null, notes: paymentNotes.trim() || null },
+        userProfile?.id ?? null,
+        payroll
+      )
+      setPaymentNotes('')
+      return next
+    }, 'record payment')
+  }
+
+  const handleDeletePayment = (paymentId: string) => {
+    if (!confirm('Delete this payment? The linked sheet rows will be updated.')) return
+    run(() => deletePlanPayment(supabase, detail, paymentId, payroll), 'delete payment')
+  }
+
+  const handleStatus = (status: PaymentPlan['status']) => {
+    if (status === 'cancelled' && !confirm('Cancel this payment plan? Recorded payments stay on the sheet rows.')) return
+    run(async () => ({ ...detail, plan: await updatePaymentPlanStatus(supabase, plan.id, status) }), 'update plan')
+  }
+
+  return (
+    <div>
+      <h2 className="text-xl font-bold text-white mb-1 pr-8">
+        Payment plan – {plan.patient_id}{patient ? ` ${patient.first_name} ${patient.last_name}` : ''}
+      </h2>
+      <p className="text-sm text-white/70 mb-4">
+        {formatCurrency(plan.installment_amount)} {PAYMENT_PLAN_FREQUENCY_LABELS[plan.frequency].toLowerCase()} from {toDisplayDate(plan.start_date)}
+        {' · '}{detail.rows.length} visit(s) · Status: <span className="capitalize">{plan.status}</span>
+        {plan.notes ? ` · ${plan.notes}` : ''}
+      </p>
+
+      <div className="flex items-center gap-6 flex-wrap text-sm text-white/90 mb-4">
+        <span>Total: <strong>{formatCurrency(plan.total_amount)}</strong></span>
+        <span>Paid: <strong>{formatCurrency(summary.paid)}</strong></span>
+        <span>Remaining: <strong>{formatCurrency(summary.remaining)}</strong></span>
+        {summary.missedCount > 0 && <span className="text-red-300">Missed installments: <strong>{summary.missedCount}</strong></span>}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Schedule</h3>
+          <div className="table-container dark-theme max-h-72 overflow-y-auto">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Due</th>
+                  <th>Amount</th>
+                  <th>Paid</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.installments.map((i) => (
+                  <tr key={i.number}>
+                    <td>{i.number}</td>
+                    <td>{toDisplayDate(i.dueDate)}</td>
+                    <td className="text-right">{formatCurrency(i.amount)}</td>
+                    <td className="text-right">{formatCurrency(i.paidToward)}</td>
+                    <td><span className={`px-2 py-0.5 rounded text-xs font-medium capitalize ${INSTALLMENT_STATUS_CLASSES[i.status]}`}>{i.status}</span></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-white mb-2">Payments</h3>
+          {detail.payments.length === 0 ? (
+            <p className="text-sm text-white/60">No payments recorded yet.</p>
+          ) : (
+            <div className="table-container dark-theme max-h-40 overflow-y-auto">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Amount</th>
+                    <th>Method</th>
+                    {canEdit && <th></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.payments.map((p) => (
+                    <tr key={p.id} title={p.notes ?? undefined}>
+                      <td>{toDisplayDate(p.paid_date)}</td>
+                      <td className="text-right">{formatCurrency(p.amount)}</td>
+                      <td>{p.method}</td>
+                      {canEdit && (
+                        <td>
+                          <button
+                            type="button"
+                            onClick={() => handleDeletePayment(p.id)}
+                            disabled={saving}
+                            className="text-red-300 hover:text-red-200 disabled:opacity-50"
+                            aria-label="Delete payment"
+                          >
+                            <Trash2 size={14} />
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {canEdit && plan.status !== 'cancelled' && (
+            <form onSubmit={handleRecordPayment} className="grid grid-cols-2 gap-2 mt-3">
+              <div>
+                <label className={labelClass}>Amount</label>
+                <input className={inputClass} type="number" step="0.01" min="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} required />
+              </div>
+              <div>
+                <label className={labelClass}>Date paid</label>
+                <input className={inputClass} type="date" value={paidDate} onChange={(e) => setPaidDate(e.target.value)} required />
+              </div>
+              <div>
+                <label className={labelClass}>Method</label>
+                <select className={inputClass} value={method} onChange={(e) => setMethod(e.target.value)}>
+                  {PAYMENT_METHODS.map((m) => (
+                    <option key={m} value={m} className="bg-slate-900">{m}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Notes</label>
+                <input className={inputClass} value={paymentNotes} onChange={(e) => setPaymentNotes(e.target.value)} />
+              </div>
+              <div className="col-span-2 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Record payment'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="flex justify-end gap-3 pt-4 mt-4 border-t border-white/20">
+          {plan.status === 'cancelled' ? (
+            <button
+              type="button"
+              onClick={() => handleStatus(summary.remaining <= 0 ? 'completed' : 'active')}
+              disabled={saving}
+              className="px-4 py-2 text-white/70 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 disabled:opacity-50"
+            >
+              Reactivate plan
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => handleStatus('cancelled')}
+              disabled={saving}
+              className="px-4 py-2 text-red-300 bg-white/10 hover:bg-white/20 rounded-lg border border-white/20 disabled:opacity-50"
+            >
+              Cancel plan
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, Loader, Plus } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import PaymentPlanModal from '@/components/PaymentPlanModal'
+import { PAYMENT_PLAN_FREQUENCY_LABELS, fetchPaymentPlans, summarizePaymentPlan, type PaymentPlanDetail } from '@/lib/paymentPlans'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { formatCurrency, toDisplayDate } from '@/lib/utils'
+import type { Clinic, Patient } from '@/types'
+
+interface PaymentPlansPanelProps {
+  clinicId: string
+  /** Limit to one patient (patients.patient_id), e.g. inside the patient form. */
+  patientId?: string
+}
+
+export default function PaymentPlansPanel({ clinicId, patientId }: PaymentPlansPanelProps) {
+  const { userProfile } = useAuth()
+  const [plans, setPlans] = useState<PaymentPlanDetail[]>([])
+  const [patients, setPatients] = useState<Patient[]>([])
+  const [payroll, setPayroll] = useState<1 | 2>(1)
+  const [loading, setLoading] = useState(true)
+  const [showInactive, setShowInactive] = useState(false)
+  /** Plan being managed, 'new' for the create form, null when closed. */
+  const [openPlan, setOpenPlan] = useState<PaymentPlanDetail | 'new' | null>(null)
+
+  const canEdit = ['super_admin', 'admin', 'billing_staff', 'office_staff'].includes(userProfile?.role ?? '')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [plansResult, patientsResult, clinicResult] = await Promise.all([
+        fetchPaymentPlans(supabase, clinicId, patientId),
+        supabase.from('patients').select('*').eq('clinic_id', clinicId).order('patient_id'),
+        supabase.from('clinics').select('payroll').eq('id', clinicId).single(),
+      ])
+      if (patientsResult.error) throw patientsResult.error
+      setPlans(plansResult)
+      setPatients((patientsResult.data || []) as Patient[])
+      setPayroll(((clinicResult.data as Pick<Clinic, 'payroll'> | null)?.payroll ?? 1) as 1 | 2)
+    } catch (err) {
+      console.error('[PaymentPlansPanel] load', err)
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId, patientId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const rows = useMemo(
+    () =>
+      plans
+        .filter((d) => showInactive || d.plan.status === 'active')
+        .map((d) => ({ detail: d, summary: summarizePaymentPlan(d) })),
+    [plans, showInactive]
+  )
+
+  const rowIdsOnActivePlans = useMemo(
+    () => new Set(plans.filter((d) => d.plan.status === 'active').flatMap((d) => d.rows.map((r) => r.provider_sheet_row_id))),
+    [plans]
+  )
+
+  const patientName = (id: string) => {
+    const p = patients.find((x) => normalizePatientIdKey(x.patient_id) === normalizePatientIdKey(id))
+    return p ? `${p.first_name} ${p.last_name}` : ''
+  }
+
+  const missedTotal = rows.reduce((n, r) => n + r.summary.missedCount, 0)
+
+  return (
+    <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap mb-3">
+        <div className="flex items-center gap-4">
+          <h3 className="text-white font-medium">Payment plans</h3>
+          {missedTotal > 0 && (
+            <span className="flex items-center gap-1 text-sm text-red-300">
+              <AlertTriangle size={14} />
+              {missedTotal} missed installment(s)
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-white/80">
+            <input type="checkbox" checked={showInactive} onChange={(e) => setShowInactive(e.target.checked)} />
+            Show completed / cancelled
+          </label>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => setOpenPlan('new')}
+              className="flex items-center gap-1 px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700 text-sm"
+            >
+              <Plus size={16} />
+              New plan
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={16} />Loading payment plans...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-white/60">{patientId ? 'This patient has no payment plan.' : 'No active payment plans.'}</p>
+      ) : (
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme w-full text-sm">
+            <thead>
+              <tr>
+                {!patientId && <th>Patient</th>}
+                <th>Installment</th>
+                <th>Total</th>
+                <th>Paid</th>
+                <th>Remaining</th>
+                <th>Next Due</th>
+                <th>Missed</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ detail, summary }) => (
+                <tr key={detail.plan.id} className="cursor-pointer hover:bg-white/5" onClick={() => setOpenPlan(detail)}>
+                  {!patientId && <td>{detail.plan.patient_id} {patientName(detail.plan.patient_id)}</td>}
+                  <td>{formatCurrency(detail.plan.installment_amount)} {PAYMENT_PLAN_FREQUENCY_LABELS[detail.plan.frequency].toLowerCase()}</td>
+                  <td className="text-right">{formatCurrency(detail.plan.total_amount)}</td>
+                  <td className="text-right">{formatCurrency(summary.paid)}</td>
+                  <td className="text-right">{formatCurrency(summary.remaining)}</td>
+                  <td>{summary.nextDue ? toDisplayDate(summary.nextDue.dueDate) : '—'}</td>
+                  <td className={summary.missedCount > 0 ? 'text-red-300 font-medium' : undefined}>{summary.missedCount}</td>
+                  <td className="capitalize">{detail.plan.status}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {openPlan && (
+        <PaymentPlanModal
+          clinicId={clinicId}
+          payroll={payroll}
+          detail={openPlan === 'new' ? null : openPlan}
+          patients={patients}
+          patientId={patientId}
+          rowIdsOnActivePlans={rowIdsOnActivePlans}
+          canEdit={canEdit}
+          onClose={() => setOpenPlan(null)}
+          onSaved={() => {
+            if (openPlan === 'new') setOpenPlan(null)
+            load()
+          }}
+        />
+      )}
+    </div>
+  )
+}
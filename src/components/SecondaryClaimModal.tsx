@@ -0,0 +1,555 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Download, Layers, AlertTriangle, Loader, Printer, Save } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import {
+  build837pBatch,
+  validateClaimRows,
+  allocateInterchangeControlNumber,
+  saveClaimBatch,
+  downloadClaimFile,
+  insuranceKey,
+  loadClaim837pSettings,
+  storeClaim837pSettings,
+  type Claim837pCob,
+  type Claim837pEnvelopeSettings,
+  type Claim837pOptions,
+} from '@/lib/claim837p'
+import { generateCms1500Pdf } from '@/lib/cms1500Pdf'
+import {
+  PAYER_SEQUENCE_LABELS,
+  applyCobBalance,
+  buildClaimCob,
+  coveragesForRow,
+  fetchClaimPayerPayments,
+  fetchPatientCoverages,
+  rollCobBalance,
+  saveClaimPayerPayments,
+  sumAdjustments,
+  type ClaimPayerPaymentInput,
+} from '@/lib/coordinationOfBenefits'
+import { fetchPayers, findPayer } from '@/lib/payers'
+import { toDisplayDate, formatCurrency, toIsoDate, roundMoney } from '@/lib/utils'
+import type { ClaimAdjustment, ClaimPayerPayment, Clinic, Patient, PatientCoverage, Payer, PayerSequence, Provider, SheetRow } from '@/types'
+import { cptCodesForRow } from '@/lib/providerSheetRows'
+
+type BilledSequence = Exclude<PayerSequence, 'primary'>
+
+/** EOB amounts typed for the payer ahead of the one being billed; replaces its recorded remittance on save. */
+interface EobDraft {
+  charge: string
+  paid: string
+  contractual: string
+  deductible: string
+  coinsurance: string
+  paidDate: string
+}
+
+const EOB_FIELDS: Array<{ key: keyof EobDraft; label: string }> = [
+  { key: 'charge', label: 'Charge' },
+  { key: 'paid', label: 'Paid' },
+  { key: 'contractual', label: 'Contractual (CO-45)' },
+  { key: 'deductible', label: 'Deductible (PR-1)' },
+  { key: 'coinsurance', label: 'Coins / copay (PR-2)' },
+]
+
+function amount(value: string): number {
+  const n = parseFloat(value)
+  return Number.isFinite(n) ? roundMoney(n) : 0
+}
+
+const EMPTY_DRAFT: EobDraft = { charge: '', paid: '', contractual: '', deductible: '', coinsurance: '', paidDate: '' }
+
+/**
+ * Prefill from the recorded remittance. Without one, a primary EOB starts from the row's Ins Pay / PT Res / Ins Pay
+ * Date (what a single-payer posting left there); a secondary EOB starts empty since those columns are already combined.
+ */
+function draftFromRecord(row: SheetRow, payment: ClaimPayerPayment | undefined, prior: PayerSequence): EobDraft {
+  if (payment) {
+    const pr = sumAdjustments(payment.adjustments, 'PR')
+    const deductible = sumAdjustments(payment.adjustments.filter((a) => a.group === 'PR' && a.reason === '1'))
+    return {
+      charge: String(payment.charge_amount),
+      paid: String(payment.paid_amount),
+      contractual: String(Math.round((sumAdjustments(payment.adjustments) - pr) * 100) / 100),
+      deductible: String(deductible),
+      coinsurance: String(Math.round((pr - deductible) * 100) / 100),
+      paidDate: payment.paid_date ?? '',
+    }
+  }
+  if (prior !== 'primary') return EMPTY_DRAFT
+  const charge = amount(row.total ?? '')
+  const paid = amount(row.insurance_payment ?? '')
+  const patientResponsibility = amount(row.insurance_adjustment ?? '')
+  return {
+    charge: charge ? String(charge) : '',
+    paid: paid ? String(paid) : '',
+    contractual: charge ? String(Math.max(0, Math.round((charge - paid - patientResponsibility) * 100) / 100)) : '',
+    deductible: '',
+    coinsurance: patientResponsibility ? String(patientResponsibility) : '',
+    paidDate: toIsoDate(row.payment_date) ?? '',
+  }
+}
+
+function adjustmentsFromDraft(draft: EobDraft): ClaimAdjustment[] {
+  const adjustments: ClaimAdjustment[] = [
+    { group: 'CO', reason: '45', amount: amount(draft.contractual) },
+    { group: 'PR', reason: '1', amount: amount(draft.deductible) },
+    { group: 'PR', reason: '2', amount: amount(draft.coinsurance) },
+  ]
+  return adjustments.filter((a) => a.amount !== 0)
+}
+
+interface SecondaryClaimModalProps {
+  clinicId: string
+  provider: Provider
+  /** Selected grid rows to bill to the next payer. */
+  rows: SheetRow[]
+  patients: Patient[]
+  /** Sheet columns locked for the month; the rolled balance is not written into them. */
+  lockedFields: Set<keyof SheetRow>
+  onClose: () => void
+  /** Persist rows whose Ins Pay / PT Res / PT Pay Status were rolled across payers. */
+  onRowsUpdated: (rows: SheetRow[]) => Promise<void>
+}
+
+export default function SecondaryClaimModal({ clinicId, provider, rows, patients, lockedFields, onClose, onRowsUpdated }: SecondaryClaimModalProps) {
+  const { userProfile } = useAuth()
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [clinicAddressLines, setClinicAddressLines] = useState<string[]>([])
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [coverages, setCoverages] = useState<PatientCoverage[]>([])
+  const [payments, setPayments] = useState<ClaimPayerPayment[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [sequence, setSequence] = useState<BilledSequence>('secondary')
+  const [settings, setSettings] = useState<Claim837pEnvelopeSettings>(() => loadClaim837pSettings(clinicId))
+  const [drafts, setDrafts] = useState<Record<string, EobDraft>>({})
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    Promise.all([
+      supabase.from('clinics').select('*').eq('id', clinicId).single(),
+      fetchClinicAddressesByClinicIds([clinicId]),
+      fetchPayers(supabase),
+      fetchPatientCoverages(supabase, clinicId),
+      fetchClaimPayerPayments(supabase, rows.map((r) => r.id)),
+    ])
+      .then(([clinicResult, addresses, payerList, coverageList, paymentList]) => {
+        if (cancelled) return
+        if (clinicResult.error) throw clinicResult.error
+        setClinic(clinicResult.data as Clinic)
+        setClinicAddressLines(addresses[clinicId] ?? [])
+        setPayers(payerList)
+        setCoverages(coverageList)
+        setPayments(paymentList)
+      })
+      .catch((err) => {
+        console.error('[SecondaryClaimModal] load', err)
+        if (!cancelled) alert('Failed to load coverage and remittance details. Please try again.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [clinicId, rows])
+
+  const priorSequence: PayerSequence = sequence === 'secondary' ? 'primary' : 'secondary'
+
+  // Switching between secondary and tertiary changes which payer's EOB is being entered.
+  useEffect(() => {
+    setDrafts({})
+  }, [sequence])
+
+  const recordedPrior = useCallback(
+    (rowId: string) => payments.find((p) => p.provider_sheet_row_id === rowId && p.payer_sequence === priorSequence),
+    [payments, priorSequence]
+  )
+
+  const draftFor = (row: SheetRow): EobDraft => drafts[row.id] ?? draftFromRecord(row, recordedPrior(row.id), priorSequence)
+
+  /** Remittance inputs for rows whose EOB was edited, or that have no remittance recorded yet for the prior payer. */
+  const pendingPayments = useMemo((): ClaimPayerPaymentInput[] => {
+    return rows
+      .filter((row) => drafts[row.id] || !recordedPrior(row.id))
+      .flatMap((row) => {
+        const draft = drafts[row.id] ?? draftFromRecord(row, undefined, priorSequence)
+        if (!draft.charge && !draft.paid) return []
+        const priorCoverage = coveragesForRow(coverages, row)[priorSequence]
+        return [{
+          clinic_id: clinicId,
+          provider_sheet_row_id: row.id,
+          coverage_id: priorCoverage?.id ?? null,
+          payer_sequence: priorSequence,
+          payer_name: priorCoverage?.payer_name ?? null,
+          charge_amount: amount(draft.charge),
+          paid_amount: amount(draft.paid),
+          adjustments: adjustmentsFromDraft(draft),
+          paid_date: draft.paidDate || null,
+          payer_claim_number: recordedPrior(row.id)?.payer_claim_number ?? null,
+          source: 'manual' as const,
+          created_by: userProfile?.id ?? null,
+        }]
+      })
+  }, [rows, drafts, recordedPrior, coverages, priorSequence, clinicId, userProfile?.id])
+
+  /** Recorded remittances with the pending EOB entries in place of the prior payer's record. */
+  const effectivePayments = useMemo((): ClaimPayerPayment[] => {
+    const pendingRowIds = new Set(pendingPayments.map((p) => p.provider_sheet_row_id))
+    const kept = payments.filter((p) => !(pendingRowIds.has(p.provider_sheet_row_id) && p.payer_sequence === priorSequence))
+    return [
+      ...kept,
+      ...pendingPayments.map((p) => ({ ...p, id: `draft-${p.provider_sheet_row_id}`, created_at: '', updated_at: '' })),
+    ]
+  }, [payments, pendingPayments, priorSequence])
+
+  const cobResults = useMemo(() => {
+    const map = new Map<string, Claim837pCob | string>()
+    rows.forEach((row) => map.set(row.id, buildClaimCob(row, sequence, coverages, effectivePayments)))
+    return map
+  }, [rows, sequence, coverages, effectivePayments])
+
+  const cobByRowId = useMemo(() => {
+    const map: Record<string, Claim837pCob> = {}
+    cobResults.forEach((result, rowId) => {
+      if (typeof result !== 'string') map[rowId] = result
+    })
+    return map
+  }, [cobResults])
+
+  const cobRows = useMemo(() => rows.filter((r) => cobByRowId[r.id]), [rows, cobByRowId])
+
+  /** Payer names on the claims (billed plan and the plans ahead of it) without their own payer ID. */
+  const payerNames = useMemo(() => {
+    const names = new Map<string, string>()
+    Object.values(cobByRowId).forEach((cob) => {
+      ;[cob.coverage, ...cob.priorPayers.map((p) => p.coverage)].forEach((c) => {
+        const key = insuranceKey(c.payer_name)
+        if (key && !c.payer_id?.trim() && !names.has(key)) names.set(key, c.payer_name)
+      })
+    })
+    return Array.from(names.entries())
+  }, [cobByRowId])
+
+  const options = useMemo((): Claim837pOptions => {
+    const lineChargeByRowId: Record<string, number> = {}
+    Object.entries(cobByRowId).forEach(([rowId, cob]) => {
+      const row = rows.find((r) => r.id === rowId)
+      const codes = row ? cptCodesForRow(row).length : 0
+      lineChargeByRowId[rowId] = codes > 0 ? Math.round((cob.priorPayers[0].payment.charge_amount / codes) * 100) / 100 : 0
+    })
+    const payerIdByInsurance = { ...settings.payerIdByInsurance }
+    payerNames.forEach(([key, name]) => {
+      if (!payerIdByInsurance[key]?.trim()) payerIdByInsurance[key] = findPayer(name, payers)?.payer_id ?? ''
+    })
+    return { ...settings, payerIdByInsurance, interchangeControlNumber: 0, lineChargeByRowId, cobByRowId }
+  }, [settings, cobByRowId, rows, payerNames, payers])
+
+  const issues = useMemo(() => {
+    if (!clinic) return []
+    return validateClaimRows(cobRows, { clinic, clinicAddressLines, provider, patients }, options)
+  }, [clinic, clinicAddressLines, provider, patients, cobRows, options])
+
+  const batchIssues = issues.filter((i) => i.rowId === null)
+  const issuesByRowId = useMemo(() => {
+    const map = new Map<string, string[]>()
+    cobResults.forEach((result, rowId) => {
+      if (typeof result === 'string') map.set(rowId, [result])
+    })
+    issues.forEach((i) => {
+      if (!i.rowId) return
+      map.set(i.rowId, [...(map.get(i.rowId) ?? []), i.message])
+    })
+    return map
+  }, [cobResults, issues])
+  const readyRows = cobRows.filter((r) => !issuesByRowId.has(r.id))
+
+  const updateSetting = <K extends keyof Claim837pEnvelopeSettings>(key: K, value: Claim837pEnvelopeSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const updateDraft = (row: SheetRow, key: keyof EobDraft, value: string) => {
+    setDrafts((prev) => ({ ...prev, [row.id]: { ...draftFor(row), [key]: value } }))
+  }
+
+  /** Stores the entered remittances and writes the rolled balance back to the sheet rows. */
+  const saveRemittances = async (): Promise<ClaimPayerPayment[]> => {
+    if (pendingPayments.length === 0) return payments
+    await saveClaimPayerPayments(supabase, pendingPayments)
+    const reloaded = await fetchClaimPayerPayments(supabase, rows.map((r) => r.id))
+    const savedRowIds = new Set(pendingPayments.map((p) => p.provider_sheet_row_id))
+    const rolled = rows
+      .filter((row) => savedRowIds.has(row.id))
+      .map((row) =>
+        applyCobBalance(
+          row,
+          rollCobBalance(reloaded.filter((p) => p.provider_sheet_row_id === row.id), coveragesForRow(coverages, row)),
+          lockedFields
+        )
+      )
+    await onRowsUpdated(rolled)
+    setPayments(reloaded)
+    setDrafts({})
+    return reloaded
+  }
+
+  const handleSave = async () => {
+    setBusy(true)
+    try {
+      await saveRemittances()
+    } catch (err) {
+      console.error('[SecondaryClaimModal] save remittance', err)
+      alert('Failed to save remittance. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleGenerate837 = async () => {
+    if (!clinic) return
+    setBusy(true)
+    try {
+      storeClaim837pSettings(clinicId, settings)
+      await saveRemittances()
+      const context = { clinic, clinicAddressLines, provider, patients }
+      // Build once with the placeholder number so a batch that fails validation does not use up an ISA13
+      build837pBatch(readyRows, context, options)
+      const interchangeControlNumber = await allocateInterchangeControlNumber(supabase, clinicId, '837P')
+      const result = build837pBatch(readyRows, context, { ...options, interchangeControlNumber })
+      const saved = await saveClaimBatch(supabase, {
+        clinic_id: clinicId,
+        provider_id: provider.id,
+        interchange_control_number: interchangeControlNumber,
+        file_name: result.fileName,
+        content: result.content,
+        row_ids: result.rowIds,
+        claim_count: result.claimCount,
+        total_charge: result.totalCharge,
+        submitter_id: settings.submitterId.trim() || null,
+        receiver_id: settings.receiverId.trim() || null,
+        payer_sequence: sequence,
+        created_by: userProfile?.id ?? null,
+      })
+      downloadClaimFile(saved.file_name, saved.content)
+      onClose()
+    } catch (err) {
+      console.error('[SecondaryClaimModal] generate 837P', err)
+      alert(err instanceof Error && err.message ? err.message : 'Failed to create the secondary 837P. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handlePrintCms1500 = async () => {
+    if (!clinic) return
+    setBusy(true)
+    try {
+      storeClaim837pSettings(clinicId, settings)
+      await saveRemittances()
+      const pdf = generateCms1500Pdf(
+        readyRows,
+        { clinic, clinicAddressLines, provider, patients },
+        { mode: 'full', diagnosisCode: settings.diagnosisCode.trim(), cobByRowId }
+      )
+      pdf.save(`CMS1500_${PAYER_SEQUENCE_LABELS[sequence]}_${provider.last_name || 'Provider'}_${new Date().toISOString().split('T')[0]}.pdf`)
+      onClose()
+    } catch (err) {
+      console.error('[SecondaryClaimModal] print CMS-1500', err)
+      alert('Failed to generate CMS-1500. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+  const cellInputClass = 'w-24 px-2 py-1 border border-white/20 bg-white/10 text-white rounded'
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <div className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-6xl max-h-[90vh] overflow-y-auto border border-white/20 relative">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-1 pr-8 flex items-center gap-2">
+          <Layers size={20} />
+          {PAYER_SEQUENCE_LABELS[sequence]} claims
+        </h2>
+        <p className="text-sm text-white/70 mb-4">
+          {provider.first_name} {provider.last_name} · {rows.length} selected row{rows.length === 1 ? '' : 's'} · enter the {priorSequence} payer's EOB, or post its ERA first
+        </p>
+
+        {loading ? (
+          <p className="text-white/80">Loading...</p>
+        ) : (
+          <>
+            <div className="grid md:grid-cols-5 gap-3 mb-4">
+              <div>
+                <label className={labelClass}>Bill</label>
+                <select className={inputClass} value={sequence} onChange={(e) => setSequence(e.target.value as BilledSequence)}>
+                  <option value="secondary" className="bg-slate-900">Secondary (after primary)</option>
+                  <option value="tertiary" className="bg-slate-900">Tertiary (after secondary)</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Submitter ID (ETIN)</label>
+                <input className={inputClass} value={settings.submitterId} onChange={(e) => updateSetting('submitterId', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Receiver ID</label>
+                <input className={inputClass} value={settings.receiverId} onChange={(e) => updateSetting('receiverId', e.target.value)} />
+              </div>
+              <div>
+                <label className={labelClass}>Usage</label>
+                <select className={inputClass} value={settings.usageIndicator} onChange={(e) => updateSetting('usageIndicator', e.target.value as 'P' | 'T')}>
+                  <option value="P" className="bg-slate-900">Production</option>
+                  <option value="T" className="bg-slate-900">Test</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Diagnosis (ICD-10)</label>
+                <input className={inputClass} value={settings.diagnosisCode} placeholder="F41.1" onChange={(e) => updateSetting('diagnosisCode', e.target.value)} />
+              </div>
+            </div>
+
+            {payerNames.length > 0 && (
+              <div className="mb-4">
+                <p className="text-sm font-medium text-white/90 mb-2">Payer IDs</p>
+                <div className="grid md:grid-cols-3 gap-3">
+                  {payerNames.map(([key, name]) => (
+                    <div key={key}>
+                      <label className={labelClass}>{name}</label>
+                      <input
+                        className={inputClass}
+                        value={settings.payerIdByInsurance[key] ?? ''}
+                        placeholder={findPayer(name, payers)?.payer_id ?? ''}
+                        onChange={(e) => updateSetting('payerIdByInsurance', { ...settings.payerIdByInsurance, [key]: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {batchIssues.length > 0 && (
+              <div className="mb-4 p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm">
+                {batchIssues.map((i) => (
+                  <p key={i.message} className="flex items-start gap-2"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />{i.message}</p>
+                ))}
+              </div>
+            )}
+
+            <div className="table-container dark-theme mb-4">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Patient ID</th>
+                    <th>Date of Service</th>
+                    <th>CPT</th>
+                    <th>Billed payer</th>
+                    {EOB_FIELDS.map((f) => <th key={f.key}>{f.label}</th>)}
+                    <th>Paid date</th>
+                    <th>Balance</th>
+                    <th>Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => {
+                    const draft = draftFor(row)
+                    const result = cobResults.get(row.id)
+                    const cob = result && typeof result !== 'string' ? result : null
+                    const rowPayments = effectivePayments.filter((p) => p.provider_sheet_row_id === row.id)
+                    const balance = rollCobBalance(rowPayments, coveragesForRow(coverages, row))
+                    const rowIssues = issuesByRowId.get(row.id)
+                    const fromEra = recordedPrior(row.id)?.source === 'era' && !drafts[row.id]
+                    return (
+                      <tr key={row.id}>
+                        <td>{row.patient_id}</td>
+                        <td>{toDisplayDate(row.appointment_date)}</td>
+                        <td>{cptCodesForRow(row).join(', ')}</td>
+                        <td>{cob?.coverage.payer_name ?? '—'}</td>
+                        {EOB_FIELDS.map((f) => (
+                          <td key={f.key}>
+                            <input
+                              type="number"
+                              step="0.01"
+                              className={cellInputClass}
+                              value={draft[f.key]}
+                              onChange={(e) => updateDraft(row, f.key, e.target.value)}
+                            />
+                          </td>
+                        ))}
+                        <td>
+                          <input
+                            type="date"
+                            className="px-2 py-1 border border-white/20 bg-white/10 text-white rounded"
+                            value={draft.paidDate}
+                            onChange={(e) => updateDraft(row, 'paidDate', e.target.value)}
+                          />
+                        </td>
+                        <td className="whitespace-nowrap">
+                          {formatCurrency(balance.patientResponsibility)}
+                          <span className="text-white/60"> {balance.pendingSequence ? PAYER_SEQUENCE_LABELS[balance.pendingSequence].toLowerCase() : 'patient'}</span>
+                        </td>
+                        <td className={rowIssues ? 'text-yellow-300' : 'text-emerald-300'}>
+                          {rowIssues ? rowIssues.join(' ') : fromEra ? 'Ready (from ERA)' : 'Ready'}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <p className="text-sm text-white/70">
+                {readyRows.length} of {rows.length} row{rows.length === 1 ? '' : 's'} ready. Saving rolls Ins Pay and PT Res across payers; PT Pay Status shows Secondary until the next payer settles.
+              </p>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={busy || pendingPayments.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save size={18} />
+                  Save remittance
+                </button>
+                <button
+                  type="button"
+                  onClick={handlePrintCms1500}
+                  disabled={busy || readyRows.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Printer size={18} />
+                  CMS-1500
+                </button>
+                <button
+                  type="button"
+                  onClick={handleGenerate837}
+                  disabled={busy || readyRows.length === 0 || batchIssues.length > 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {busy ? <Loader className="animate-spin" size={18} /> : <Download size={18} />}
+                  Generate 837P
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -5,6 +5,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import HandsontableWrapper from '@/components/HandsontableWrapper'
 import Handsontable from 'handsontable'
 import { createBubbleDropdownRenderer } from '@/lib/handsontableCustomRenderers'
+import { fetchTimelyFilingItems, syncTimelyFilingTodos } from '@/lib/timelyFiling'
 
 function nextEmptyNumericIdSuffix(rows: { id: string }[]): number {
   let max = -1
@@ -192,6 +193,21 @@ export default function BillingTodoTab({ clinicId, canEdit, onDelete, isLockBill
     })
   }, [clinicId, fetchTodos])
 
+  // Add to-do items for visits nearing or past their timely filing deadline, then pull them in.
+  const canCreateTodos = userProfile?.role === 'super_admin' || userProfile?.role === 'admin' || userProfile?.role === 'billing_staff'
+  useEffect(() => {
+    if (!clinicId || !canCreateTodos || !userProfile?.id) return
+    let cancelled = false
+    fetchTimelyFilingItems(supabase, clinicId)
+      .then((items) => syncTimelyFilingTodos(supabase, clinicId, items, userProfile.id))
+      .then((created) => {
+        if (cancelled || created === 0) return
+        return fetchTodos().then(() => setStructureVersion((v) => v + 1))
+      })
+      .catch((error) => console.error('[BillingTodoTab] timely filing sync', error))
+    return () => { cancelled = true }
+  }, [clinicId, canCreateTodos, userProfile?.id, fetchTodos])
+
   const saveTodos = useCallback(async (todosToSave: TodoItem[]) => {
     if (!clinicId || !userProfile) return
 
@@ -0,0 +1,536 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, CheckCircle, Download, Loader, RefreshCw, Upload, XCircle } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  DEFAULT_CLAIM_STATUS_MIN_DAYS,
+  applyClaimStatusProposals,
+  build276Batch,
+  claimStatusCategoryLabel,
+  dismissClaimStatusProposals,
+  fetchClaimStatusCandidates,
+  fetchClaimStatusHistory,
+  fetchClaimStatusInquiries,
+  ingest277,
+  saveClaimStatusInquiry,
+  validateClaimStatusBatch,
+  type Claim276Options,
+  type ClaimStatusCandidate,
+} from '@/lib/claimStatus276'
+import { downloadClaimFile, allocateInterchangeControlNumber } from '@/lib/claim837p'
+import { fetchPayers } from '@/lib/payers'
+import { formatCurrency, formatDateTime, toDisplayDate } from '@/lib/utils'
+import type { ClaimStatusHistoryEntry, ClaimStatusInquiry, Clinic, Provider } from '@/types'
+
+interface ClaimStatusTabProps {
+  clinicId: string
+  /** Can export 276s, import 277s and apply proposed statuses (billing staff, admin, super admin). */
+  canEdit: boolean
+  /** Called after Claim Status was written to sheet rows so the parent drops cached provider sheet rows. */
+  onSheetRowsPosted?: () => void
+}
+
+/** Envelope fields remembered per clinic, like the 837P and 270 envelopes. */
+type EnvelopeSettings = Pick<Claim276Options, 'submitterId' | 'receiverId' | 'usageIndicator'>
+
+const SETTINGS_KEY_PREFIX = 'claim_status_276_settings_'
+
+function loadEnvelopeSettings(clinicId: string): EnvelopeSettings {
+  const defaults: EnvelopeSettings = { submitterId: '', receiverId: '', usageIndicator: 'P' }
+  try {
+    const raw = localStorage.getItem(`${SETTINGS_KEY_PREFIX}${clinicId}`)
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults
+  } catch {
+    return defaults
+  }
+}
+
+export default function ClaimStatusTab({ clinicId, canEdit, onSheetRowsPosted }: ClaimStatusTabProps) {
+  const { userProfile } = useAuth()
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [allCandidates, setAllCandidates] = useState<ClaimStatusCandidate[]>([])
+  const [history, setHistory] = useState<ClaimStatusHistoryEntry[]>([])
+  const [inquiries, setInquiries] = useState<ClaimStatusInquiry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const [minDays, setMinDays] = useState(String(DEFAULT_CLAIM_STATUS_MIN_DAYS))
+  const [settings, setSettings] = useState<EnvelopeSettings>(() => loadEnvelopeSettings(clinicId))
+  const [selectedProposalIds, setSelectedProposalIds] = useState<Set<string>>(new Set())
+  const [historySearch, setHistorySearch] = useState('')
+  const [unmatchedMessage, setUnmatchedMessage] = useState<string | null>(null)
+
+  const minDaysValue = Math.max(0, parseInt(minDays, 10) || 0)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const payerList = await fetchPayers(supabase)
+      const [clinicResult, { data: providersData }, candidateList, historyList, inquiryList] = await Promise.all([
+        supabase.from('clinics').select('*').eq('id', clinicId).single(),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+        fetchClaimStatusCandidates(supabase, clinicId, 0, payerList),
+        fetchClaimStatusHistory(supabase, clinicId),
+        fetchClaimStatusInquiries(supabase, clinicId),
+      ])
+      if (clinicResult.error) throw clinicResult.error
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+      setClinic(clinicResult.data as Clinic)
+      setProvidersById(providerMap)
+      setAllCandidates(candidateList)
+      setHistory(historyList)
+      setInquiries(inquiryList)
+      setSelectedProposalIds(new Set(historyList.filter((e) => e.review_status === 'open').map((e) => e.id)))
+    } catch (err) {
+      console.error('[ClaimStatusTab] load', err)
+      alert('Failed to load outstanding claims. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const candidates = useMemo(
+    () => allCandidates.filter((c) => c.daysOutstanding >= minDaysValue),
+    [allCandidates, minDaysValue]
+  )
+
+  const proposals = useMemo(() => history.filter((e) => e.review_status === 'open'), [history])
+
+  /** Newest 277 entry per sheet row, for the outstanding claims table. */
+  const latestByRowId = useMemo(() => {
+    const map = new Map<string, ClaimStatusHistoryEntry>()
+    history.forEach((e) => {
+      if (e.provider_sheet_row_id && !map.has(e.provider_sheet_row_id)) map.set(e.provider_sheet_row_id, e)
+    })
+    return map
+  }, [history])
+
+  const visibleHistory = useMemo(() => {
+    const q = historySearch.trim().toLowerCase()
+    if (!q) return history
+    return history.filter((e) =>
+      [e.patient_id, e.payer_claim_number, e.claim_control_number].some((v) => (v ?? '').toLowerCase().includes(q))
+    )
+  }, [history, historySearch])
+
+  const readyCount = candidates.filter((c) => c.issues.length === 0).length
+  const batchIssues = clinic ? validateClaimStatusBatch(clinic, settings) : []
+
+  const updateSetting = <K extends keyof EnvelopeSettings>(key: K, value: EnvelopeSettings[K]) => {
+    setSettings((prev) => ({ ...prev, [key]: value }))
+  }
+
+  const providerName = (providerId: string | null) => {
+    const p = providerId ? providersById[providerId] : undefined
+    return p ? `${p.first_name} ${p.last_name}` : ''
+  }
+
+  const handleExport276 = async () => {
+    if (!clinic) return
+    setBusy(true)
+    try {
+      localStorage.setItem(`${SETTINGS_KEY_PREFIX}${clinicId}`, JSON.stringify(settings))
+      // Validate with a placeholder number first so a rejected inquiry does not use up an ISA13
+      build276Batch(candidates, clinic, { ...settings, interchangeControlNumber: 0 })
+      const interchangeControlNumber = await allocateInterchangeControlNumber(supabase, clinicId, '276')
+      const result = build276Batch(candidates, clinic, { ...settings, interchangeControlNumber })
+      const saved = await saveClaimStatusInquiry(supabase, {
+        clinic_id: clinicId,
+        interchange_control_number: interchangeControlNumber,
+        file_name: result.fileName,
+        content: result.content,
+        row_ids: result.rowIds,
+        claim_count: result.claimCount,
+        min_days_outstanding: minDaysValue,
+        created_by: userProfile?.id ?? null,
+      })
+      downloadClaimFile(saved.file_name, saved.content)
+      setInquiries((prev) => [saved, ...prev])
+    } catch (err) {
+      console.error('[ClaimStatusTab] export 276', err)
+      alert(err instanceof Error && err.message ? err.message : 'Failed to create the 276 inquiry. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleImport277 = async (file: File) => {
+    setBusy(true)
+    setUnmatchedMessage(null)
+    try {
+      const { entries, unmatched } = await ingest277(supabase, clinicId, file.name, await file.text(), userProfile?.id ?? null)
+      const proposed = entries.filter((e) => e.review_status === 'open').length
+      setUnmatchedMessage(
+        unmatched.length > 0
+          ? `${unmatched.length} claim(s) in the 277 did not match a sheet row: ${unmatched.map((c) => c.patientName || c.traceNumber || c.memberId || 'unknown').join(', ')}.`
+          : null
+      )
+      await load()
+      alert(`Recorded ${entries.length} claim status response(s); ${proposed} proposed Claim Status change(s) to review.`)
+    } catch (err) {
+      console.error('[ClaimStatusTab] import 277', err)
+      alert(err instanceof Error && err.message ? err.message : 'Failed to read the 277 file. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleApply = async () => {
+    const selected = proposals.filter((e) => selectedProposalIds.has(e.id))
+    if (selected.length === 0) return
+    setBusy(true)
+    try {
+      const { applied, skipped } = await applyClaimStatusProposals(supabase, clinicId, selected, userProfile?.id ?? null)
+      if (applied > 0) onSheetRowsPosted?.()
+      alert(`Updated Claim Status on ${applied} row(s).${skipped > 0 ? ` ${skipped} left open because Claim Status is locked on the sheet.` : ''}`)
+      await load()
+    } catch (err) {
+      console.error('[ClaimStatusTab] apply', err)
+      alert('Failed to update Claim Status. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDismiss = async () => {
+    const ids = proposals.filter((e) => selectedProposalIds.has(e.id)).map((e) => e.id)
+    if (ids.length === 0) return
+    setBusy(true)
+    try {
+      await dismissClaimStatusProposals(supabase, ids, userProfile?.id ?? null)
+      await load()
+    } catch (err) {
+      console.error('[ClaimStatusTab] dismiss', err)
+      alert('Failed to dismiss proposals. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const statusText = (e: ClaimStatusHistoryEntry) =>
+    `${e.category_code}${e.status_code ? `:${e.status_code}` : ''} ${claimStatusCategoryLabel(e.category_code)}`
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Claim Status (276/277)</h2>
+          <p className="text-sm text-white/70">
+            Ask payers about claims still at Claim Sent / IP, then import the 277 and confirm the proposed Claim Status changes.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+          >
+            <RefreshCw size={18} />
+            Refresh
+          </button>
+          {canEdit && (
+            <label className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 cursor-pointer">
+              <Upload size={18} />
+              Import 277
+              <input
+                type="file"
+                accept=".277,.txt,.edi,.x12"
+                className="hidden"
+                disabled={busy}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) handleImport277(file)
+                }}
+              />
+            </label>
+          )}
+          {canEdit && (
+            <button
+              type="button"
+              onClick={handleExport276}
+              disabled={busy || loading || readyCount === 0 || batchIssues.length > 0}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {busy ? <Loader className="animate-spin" size={18} /> : <Download size={18} />}
+              Export 276 ({readyCount})
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-3">
+        <div>
+          <label className={labelClass}>Outstanding at least (days)</label>
+          <input type="number" min={0} className={inputClass} value={minDays} onChange={(e) => setMinDays(e.target.value)} />
+        </div>
+        {canEdit && (
+          <>
+            <div>
+              <label className={labelClass}>Submitter ID (ETIN)</label>
+              <input className={inputClass} value={settings.submitterId} onChange={(e) => updateSetting('submitterId', e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Receiver ID</label>
+              <input className={inputClass} value={settings.receiverId} onChange={(e) => updateSetting('receiverId', e.target.value)} />
+            </div>
+            <div>
+              <label className={labelClass}>Usage</label>
+              <select className={inputClass} value={settings.usageIndicator} onChange={(e) => updateSetting('usageIndicator', e.target.value as 'P' | 'T')}>
+                <option value="P" className="bg-slate-900">Production</option>
+                <option value="T" className="bg-slate-900">Test</option>
+              </select>
+            </div>
+          </>
+        )}
+      </div>
+
+      {canEdit && batchIssues.length > 0 && (
+        <div className="p-3 rounded-lg border border-yellow-400/40 bg-yellow-400/10 text-yellow-200 text-sm">
+          {batchIssues.map((message) => (
+            <p key={message} className="flex items-start gap-2"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />{message}</p>
+          ))}
+        </div>
+      )}
+      {unmatchedMessage && (
+        <p className="text-sm text-yellow-200 flex items-start gap-2"><AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />{unmatchedMessage}</p>
+      )}
+
+      {proposals.length > 0 && (
+        <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4 space-y-3">
+          <h3 className="text-white font-medium">Proposed Claim Status changes ({proposals.length})</h3>
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>
+                    <input
+                      type="checkbox"
+                      checked={selectedProposalIds.size === proposals.length}
+                      onChange={(e) => setSelectedProposalIds(e.target.checked ? new Set(proposals.map((p) => p.id)) : new Set())}
+                    />
+                  </th>
+                  <th>Provider</th>
+                  <th>Patient ID</th>
+                  <th>Date of Service</th>
+                  <th>Payer</th>
+                  <th>277 Status</th>
+                  <th>Effective</th>
+                  <th>Paid</th>
+                  <th>Payer Claim #</th>
+                  <th>Claim Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {proposals.map((e) => (
+                  <tr key={e.id}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={selectedProposalIds.has(e.id)}
+                        onChange={(ev) => {
+                          setSelectedProposalIds((prev) => {
+                            const next = new Set(prev)
+                            if (ev.target.checked) next.add(e.id)
+                            else next.delete(e.id)
+                            return next
+                          })
+                        }}
+                      />
+                    </td>
+                    <td>{providerName(e.provider_id)}</td>
+                    <td>{e.patient_id}</td>
+                    <td>{toDisplayDate(e.date_of_service)}</td>
+                    <td>{e.payer_name}</td>
+                    <td>{statusText(e)}</td>
+                    <td>{toDisplayDate(e.effective_date)}</td>
+                    <td className="text-right">{e.paid_amount != null ? formatCurrency(e.paid_amount) : '—'}</td>
+                    <td>{e.payer_claim_number}</td>
+                    <td>
+                      <span className="text-white/50">{e.claim_status_before || '—'} → </span>
+                      <span className={e.proposed_claim_status === 'Denial' || e.proposed_claim_status === 'Rejected' ? 'text-red-300' : undefined}>
+                        {e.proposed_claim_status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {canEdit && (
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={handleDismiss}
+                disabled={busy || selectedProposalIds.size === 0}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+              >
+                <XCircle size={18} />
+                Dismiss selected
+              </button>
+              <button
+                type="button"
+                onClick={handleApply}
+                disabled={busy || selectedProposalIds.size === 0}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <CheckCircle size={18} />
+                Apply {selectedProposalIds.size} change(s)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading provider sheets...</p>
+      ) : (
+        <div>
+          <h3 className="text-white font-medium mb-3">Outstanding claims ({candidates.length})</h3>
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Provider</th>
+                  <th>Patient ID</th>
+                  <th>Date of Service</th>
+                  <th>Claim Status</th>
+                  <th>Submitted</th>
+                  <th>Days</th>
+                  <th>Insurance</th>
+                  <th>Last 277</th>
+                  <th>Inquiry</th>
+                </tr>
+              </thead>
+              <tbody>
+                {candidates.length === 0 ? (
+                  <tr><td colSpan={9} className="text-center text-white/60">No Claim Sent / IP rows outstanding {minDaysValue}+ days.</td></tr>
+                ) : candidates.map((c) => {
+                  const last = latestByRowId.get(c.row.id)
+                  return (
+                    <tr key={c.row.id}>
+                      <td>{providerName(c.sheet.provider_id)}</td>
+                      <td>{c.row.patient_id}</td>
+                      <td>{toDisplayDate(c.dateOfService)}</td>
+                      <td>{c.row.claim_status}</td>
+                      <td>{toDisplayDate(c.row.submit_date)}</td>
+                      <td>{c.daysOutstanding}</td>
+                      <td>{c.insurance}</td>
+                      <td>{last ? `${statusText(last)} (${toDisplayDate(last.created_at.slice(0, 10))})` : '—'}</td>
+                      <td className={c.issues.length > 0 ? 'text-yellow-300' : 'text-emerald-300'}>
+                        {c.issues.length > 0 ? c.issues.join(' ') : 'Ready'}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+        <div className="flex items-center justify-between gap-4 flex-wrap mb-3">
+          <h3 className="text-white font-medium">Status history</h3>
+          <input
+            type="text"
+            value={historySearch}
+            onChange={(e) => setHistorySearch(e.target.value)}
+            placeholder="Search patient ID or claim #"
+            className="px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm"
+          />
+        </div>
+        {visibleHistory.length === 0 ? (
+          <p className="text-sm text-white/60">No 277 responses recorded yet.</p>
+        ) : (
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Received</th>
+                  <th>Provider</th>
+                  <th>Patient ID</th>
+                  <th>Date of Service</th>
+                  <th>Status</th>
+                  <th>Effective</th>
+                  <th>Payer Claim #</th>
+                  <th>Charge</th>
+                  <th>Paid</th>
+                  <th>Review</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleHistory.map((e) => (
+                  <tr key={e.id}>
+                    <td>{formatDateTime(e.created_at)}</td>
+                    <td>{providerName(e.provider_id)}</td>
+                    <td>{e.patient_id}</td>
+                    <td>{toDisplayDate(e.date_of_service)}</td>
+                    <td>{statusText(e)}</td>
+                    <td>{toDisplayDate(e.effective_date)}</td>
+                    <td>{e.payer_claim_number}</td>
+                    <td className="text-right">{e.charge_amount != null ? formatCurrency(e.charge_amount) : '—'}</td>
+                    <td className="text-right">{e.paid_amount != null ? formatCurrency(e.paid_amount) : '—'}</td>
+                    <td className="capitalize">
+                      {e.review_status ? `${e.review_status}${e.proposed_claim_status ? ` (${e.proposed_claim_status})` : ''}` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+        <h3 className="text-white font-medium mb-3">276 exports</h3>
+        {inquiries.length === 0 ? (
+          <p className="text-sm text-white/60">No claim status inquiries have been exported yet.</p>
+        ) : (
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Created</th>
+                  <th>File</th>
+                  <th>Claims</th>
+                  <th>Outstanding</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {inquiries.map((i) => (
+                  <tr key={i.id}>
+                    <td>{formatDateTime(i.created_at)}</td>
+                    <td>{i.file_name}</td>
+                    <td>{i.claim_count}</td>
+                    <td>{i.min_days_outstanding}+ days</td>
+                    <td>
+                      <button
+                        type="button"
+                        onClick={() => downloadClaimFile(i.file_name, i.content)}
+                        className="flex items-center gap-1 text-primary-300 hover:text-primary-200"
+                      >
+                        <Download size={16} />
+                        Download
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
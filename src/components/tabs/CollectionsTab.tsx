@@ -0,0 +1,641 @@
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+import { Download, Loader, Printer, RefreshCw, Settings } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  COLLECTION_STAGES,
+  COLLECTION_STAGE_LABELS,
+  DEFAULT_COLLECTION_LETTERS,
+  LETTER_PLACEHOLDERS,
+  addCollectionNote,
+  advanceCollections,
+  agencyPlacementsToCsv,
+  closeCollection,
+  fetchCollectionsData,
+  findCollectionCandidates,
+  isNextStepDue,
+  markAgencyExported,
+  nextCollectionStage,
+  nextStepDueDate,
+  saveCollectionSettings,
+  startCollections,
+  summarizeRecovery,
+  syncCollectionPayments,
+  type CollectionSettingsInput,
+  type CollectionsData,
+  type LetterStage,
+} from '@/lib/collections'
+import { generateCollectionLettersPdf, type CollectionLetter } from '@/lib/collectionLetterPdf'
+import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { formatCurrency, formatDateTime, toDisplayDate } from '@/lib/utils'
+import type { Clinic, PatientCollection, Provider } from '@/types'
+
+interface CollectionsTabProps {
+  clinicId: string
+  /** Can move patients through collections and export placements (billing staff, admin, super admin). */
+  canEdit: boolean
+}
+
+const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+const buttonClass = 'text-primary-300 hover:text-primary-200 disabled:opacity-50'
+
+const LETTER_FIELDS: Array<{ stage: LetterStage; field: 'statement_1_letter' | 'statement_2_letter' | 'final_notice_letter' }> = [
+  { stage: 'statement_1', field: 'statement_1_letter' },
+  { stage: 'statement_2', field: 'statement_2_letter' },
+  { stage: 'final_notice', field: 'final_notice_letter' },
+]
+
+export default function CollectionsTab({ clinicId, canEdit }: CollectionsTabProps) {
+  const { userProfile } = useAuth()
+  const isAdmin = userProfile?.role === 'admin' || userProfile?.role === 'super_admin'
+  const [data, setData] = useState<CollectionsData | null>(null)
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [addressLines, setAddressLines] = useState<string[]>([])
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [selectedCandidates, setSelectedCandidates] = useState<Set<string>>(new Set())
+  const [selectedDue, setSelectedDue] = useState<Set<string>>(new Set())
+  const [historyFor, setHistoryFor] = useState<string | null>(null)
+  const [includeExported, setIncludeExported] = useState(false)
+  const [showSettings, setShowSettings] = useState(false)
+  const [settingsDraft, setSettingsDraft] = useState<CollectionSettingsInput | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [collections, clinicResult, addresses, { data: providersData }] = await Promise.all([
+        fetchCollectionsData(supabase, clinicId),
+        supabase.from('clinics').select('*').eq('id', clinicId).single(),
+        fetchClinicAddressesByClinicIds([clinicId]),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+      ])
+      if (clinicResult.error) throw clinicResult.error
+      let current = collections
+      if (canEdit) {
+        const changed = await syncCollectionPayments(supabase, collections, userProfile?.id ?? null)
+        if (changed.length > 0) current = await fetchCollectionsData(supabase, clinicId)
+      }
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+      setData(current)
+      setSettingsDraft(current.settings)
+      setClinic(clinicResult.data as Clinic)
+      setAddressLines(addresses[clinicId] ?? [])
+      setProvidersById(providerMap)
+      setSelectedCandidates(new Set())
+      setSelectedDue(new Set())
+    } catch (err) {
+      console.error('[CollectionsTab] load', err)
+      alert('Failed to load collections. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId, canEdit, userProfile?.id])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const candidates = useMemo(() => (data ? findCollectionCandidates(data) : []), [data])
+  const activeAccounts = useMemo(() => (data ? data.accounts.filter((a) => a.status === 'active') : []), [data])
+  const dueAccounts = useMemo(
+    () => (data ? activeAccounts.filter((a) => isNextStepDue(a, data.settings)) : []),
+    [data, activeAccounts]
+  )
+  const placements = useMemo(
+    () => activeAccounts.filter((a) => a.stage === 'agency' && (includeExported || !a.agency_exported_at)),
+    [activeAccounts, includeExported]
+  )
+  const recovery = useMemo(() => (data ? summarizeRecovery(data.events) : []), [data])
+  const recoveredByAccount = useMemo(() => {
+    const map: Record<string, number> = {}
+    data?.events.forEach((e) => {
+      if (e.event_type === 'payment') map[e.collection_id] = (map[e.collection_id] ?? 0) + (e.amount ?? 0)
+    })
+    return map
+  }, [data])
+
+  const statementFor = (account: PatientCollection) => data?.statementsByKey.get(normalizePatientIdKey(account.patient_id))
+
+  const printLetters = (accounts: PatientCollection[]) => {
+    if (!data || !clinic) return
+    const letters: CollectionLetter[] = accounts
+      .filter((a) => a.stage !== 'agency')
+      .map((account) => ({ account, statement: statementFor(account)! }))
+      .filter((l) => !!l.statement)
+    if (letters.length === 0) return
+    const pdf = generateCollectionLettersPdf(letters, { clinic, addressLines, providersById }, data.settings)
+    pdf.save(`collection_letters_${new Date().toISOString().split('T')[0]}.pdf`)
+  }
+
+  const toggle = (set: Set<string>, id: string, update: (next: Set<string>) => void) => {
+    const next = new Set(set)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    update(next)
+  }
+
+  const handleStart = async () => {
+    if (!data) return
+    const chosen = candidates.filter((c) => selectedCandidates.has(c.statement.patientId))
+    if (chosen.length === 0) return
+    if (!confirm(`Start collections for ${chosen.length} patient(s) and print statement 1 letters?`)) return
+    setSaving(true)
+    try {
+      const accounts = await startCollections(supabase, clinicId, chosen, data.paidByKey, userProfile?.id ?? null)
+      printLetters(accounts)
+      await load()
+    } catch (err) {
+      console.error('[CollectionsTab] start', err)
+      alert('Failed to start collections. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAdvance = async () => {
+    if (!data) return
+    const chosen = dueAccounts.filter((a) => selectedDue.has(a.id))
+    if (chosen.length === 0) return
+    const toAgency = chosen.filter((a) => nextCollectionStage(a.stage) === 'agency').length
+    if (toAgency > 0 && !data.settings.agency_name?.trim()) {
+      if (!confirm('No collection agency is set in the collections settings. Place the accounts anyway?')) return
+    }
+    if (!confirm(`Move ${chosen.length} account(s) to their next step${toAgency > 0 ? ` (${toAgency} to the agency)` : ''} and print the letters?`)) return
+    setSaving(true)
+    try {
+      const updated = await advanceCollections(supabase, chosen, data.statementsByKey, data.settings.agency_name?.trim() || null, userProfile?.id ?? null)
+      printLetters(updated)
+      await load()
+    } catch (err) {
+      console.error('[CollectionsTab] advance', err)
+      alert('Failed to move accounts to the next step. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleNote = async (account: PatientCollection) => {
+    const note = prompt(`Note for ${account.patient_id}:`, '')
+    if (!note?.trim()) return
+    setSaving(true)
+    try {
+      await addCollectionNote(supabase, account, note, userProfile?.id ?? null)
+      await load()
+    } catch (err) {
+      console.error('[CollectionsTab] note', err)
+      alert('Failed to save note. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleClose = async (account: PatientCollection) => {
+    const reason = prompt(`Close collections for ${account.patient_id}? Reason (settled, disputed, bankruptcy, ...):`, '')
+    if (reason === null) return
+    setSaving(true)
+    try {
+      await closeCollection(supabase, account, reason, userProfile?.id ?? null)
+      await load()
+    } catch (err) {
+      console.error('[CollectionsTab] close', err)
+      alert('Failed to close account. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!data || !clinic || placements.length === 0) return
+    const csv = agencyPlacementsToCsv(placements, data.statementsByKey, clinic.name)
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `agency_placements_${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+    try {
+      await markAgencyExported(supabase, placements.map((p) => p.id))
+      await load()
+    } catch (err) {
+      console.error('[CollectionsTab] export', err)
+      alert('The file was downloaded but the accounts could not be marked as exported. Please try again.')
+    }
+  }
+
+  const handleSaveSettings = async () => {
+    if (!settingsDraft) return
+    const numbers = [settingsDraft.min_balance, settingsDraft.start_after_days, settingsDraft.statement_2_days, settingsDraft.final_notice_days, settingsDraft.agency_days]
+    if (numbers.some((n) => !Number.isFinite(n) || n < 0)) {
+      alert('Enter 0 or more for the minimum balance and every day threshold.')
+      return
+    }
+    setSaving(true)
+    try {
+      await saveCollectionSettings(supabase, clinicId, {
+        ...settingsDraft,
+        agency_name: settingsDraft.agency_name?.trim() || null,
+        statement_1_letter: settingsDraft.statement_1_letter?.trim() || null,
+        statement_2_letter: settingsDraft.statement_2_letter?.trim() || null,
+        final_notice_letter: settingsDraft.final_notice_letter?.trim() || null,
+      }, userProfile?.id ?? null)
+      setShowSettings(false)
+      await load()
+    } catch (err) {
+      console.error('[CollectionsTab] save settings', err)
+      alert('Failed to save collections settings. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setDraftNumber = (field: 'min_balance' | 'start_after_days' | 'statement_2_days' | 'final_notice_days' | 'agency_days', value: string) => {
+    setSettingsDraft((prev) => (prev ? { ...prev, [field]: value === '' ? NaN : Number(value) } : prev))
+  }
+
+  const settings = data?.settings
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Collections</h2>
+          {settings && (
+            <p className="text-sm text-white/70">
+              Patients owing {formatCurrency(settings.min_balance)} or more with a visit over {settings.start_after_days} days old move through
+              statement 1 → statement 2 ({settings.statement_2_days} days) → final notice ({settings.final_notice_days} days) → agency ({settings.agency_days} days).
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {isAdmin && (
+            <button
+              type="button"
+              onClick={() => setShowSettings((v) => !v)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+            >
+              <Settings size={18} />
+              Settings
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+          >
+            <RefreshCw size={18} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {showSettings && settingsDraft && (
+        <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4 space-y-4">
+          <h3 className="text-white font-medium">Collections settings</h3>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            <div>
+              <label className={labelClass}>Minimum balance ($)</label>
+              <input type="number" min={0} step="0.01" value={Number.isNaN(settingsDraft.min_balance) ? '' : settingsDraft.min_balance} onChange={(e) => setDraftNumber('min_balance', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Start after (days old)</label>
+              <input type="number" min={0} value={Number.isNaN(settingsDraft.start_after_days) ? '' : settingsDraft.start_after_days} onChange={(e) => setDraftNumber('start_after_days', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Statement 2 after (days)</label>
+              <input type="number" min={0} value={Number.isNaN(settingsDraft.statement_2_days) ? '' : settingsDraft.statement_2_days} onChange={(e) => setDraftNumber('statement_2_days', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Final notice after (days)</label>
+              <input type="number" min={0} value={Number.isNaN(settingsDraft.final_notice_days) ? '' : settingsDraft.final_notice_days} onChange={(e) => setDraftNumber('final_notice_days', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Agency after (days)</label>
+              <input type="number" min={0} value={Number.isNaN(settingsDraft.agency_days) ? '' : settingsDraft.agency_days} onChange={(e) => setDraftNumber('agency_days', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Collection agency</label>
+              <input
+                type="text"
+                value={settingsDraft.agency_name ?? ''}
+                onChange={(e) => setSettingsDraft({ ...settingsDraft, agency_name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-white/60">
+            Letters may use {LETTER_PLACEHOLDERS.map((p) => `{{${p}}}`).join(', ')}. Leave a letter blank to use the default.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {LETTER_FIELDS.map(({ stage, field }) => (
+              <div key={stage}>
+                <label className={labelClass}>{COLLECTION_STAGE_LABELS[stage]} letter</label>
+                <textarea
+                  rows={10}
+                  value={settingsDraft[field] ?? ''}
+                  placeholder={DEFAULT_COLLECTION_LETTERS[stage]}
+                  onChange={(e) => setSettingsDraft({ ...settingsDraft, [field]: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => { setShowSettings(false); setSettingsDraft(data?.settings ?? null) }}
+              className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSaveSettings}
+              disabled={saving}
+              className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm"
+            >
+              Save settings
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading || !data ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading provider sheets...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {COLLECTION_STAGES.map(({ key, label }) => {
+              const inStage = activeAccounts.filter((a) => a.stage === key)
+              return (
+                <div key={key} className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+                  <div className="text-sm text-white/70">{label}</div>
+                  <div className="text-xl font-semibold text-white">{inStage.length}</div>
+                  <div className="text-sm text-white/70">{formatCurrency(inStage.reduce((sum, a) => sum + a.current_balance, 0))} owed</div>
+                </div>
+              )
+            })}
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <div className="flex items-center justify-between gap-4 mb-3 flex-wrap">
+              <h3 className="text-white font-medium">Ready for collections ({candidates.length})</h3>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={handleStart}
+                  disabled={saving || selectedCandidates.size === 0}
+                  className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  <Printer size={16} />
+                  Send statement 1 ({selectedCandidates.size})
+                </button>
+              )}
+            </div>
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    {canEdit && (
+                      <th>
+                        <input
+                          type="checkbox"
+                          checked={candidates.length > 0 && selectedCandidates.size === candidates.length}
+                          onChange={(e) => setSelectedCandidates(e.target.checked ? new Set(candidates.map((c) => c.statement.patientId)) : new Set())}
+                        />
+                      </th>
+                    )}
+                    <th>Patient ID</th>
+                    <th>Patient</th>
+                    <th>Oldest Visit</th>
+                    <th>Days</th>
+                    <th>Last Statement</th>
+                    <th>Balance Due</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {candidates.length === 0 ? (
+                    <tr><td colSpan={canEdit ? 7 : 6} className="text-center text-white/60">No patients are past the collections threshold.</td></tr>
+                  ) : candidates.map(({ statement, oldestDays }) => (
+                    <tr key={statement.patientId}>
+                      {canEdit && (
+                        <td>
+                          <input
+                            type="checkbox"
+                            checked={selectedCandidates.has(statement.patientId)}
+                            onChange={() => toggle(selectedCandidates, statement.patientId, setSelectedCandidates)}
+                          />
+                        </td>
+                      )}
+                      <td>{statement.patientId}</td>
+                      <td>{statement.patientName}</td>
+                      <td>{toDisplayDate(statement.lines[0]?.dateOfService)}</td>
+                      <td>{oldestDays}</td>
+                      <td>{statement.lastStatementDate ? toDisplayDate(statement.lastStatementDate) : 'Never'}</td>
+                      <td className="text-right font-medium">{formatCurrency(statement.balanceDue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <div className="flex items-center justify-between gap-4 mb-3 flex-wrap">
+              <h3 className="text-white font-medium">In collections ({activeAccounts.length}, {dueAccounts.length} due for the next step)</h3>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => setSelectedDue(new Set(dueAccounts.map((a) => a.id)))}
+                    disabled={dueAccounts.length === 0}
+                    className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50 text-sm"
+                  >
+                    Select all due
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleAdvance}
+                    disabled={saving || selectedDue.size === 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                  >
+                    <Printer size={16} />
+                    Send next step ({selectedDue.size})
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    {canEdit && <th></th>}
+                    <th>Patient ID</th>
+                    <th>Patient</th>
+                    <th>Stage</th>
+                    <th>Since</th>
+                    <th>Next Step</th>
+                    <th>Balance at Statement 1</th>
+                    <th>Current Balance</th>
+                    <th>Recovered</th>
+                    <th>Notes</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {activeAccounts.length === 0 ? (
+                    <tr><td colSpan={canEdit ? 11 : 10} className="text-center text-white/60">No patients are in collections.</td></tr>
+                  ) : activeAccounts.map((account) => {
+                    const next = nextCollectionStage(account.stage)
+                    const dueDate = nextStepDueDate(account, data.settings)
+                    const due = isNextStepDue(account, data.settings)
+                    const history = data.events.filter((e) => e.collection_id === account.id)
+                    return (
+                      <Fragment key={account.id}>
+                        <tr className={due ? 'bg-amber-500/10' : undefined}>
+                          {canEdit && (
+                            <td>
+                              {due && (
+                                <input type="checkbox" checked={selectedDue.has(account.id)} onChange={() => toggle(selectedDue, account.id, setSelectedDue)} />
+                              )}
+                            </td>
+                          )}
+                          <td>{account.patient_id}</td>
+                          <td>{account.patient_name ?? ''}</td>
+                          <td>{COLLECTION_STAGE_LABELS[account.stage]}{account.stage === 'agency' && account.agency_name && <div className="text-white/60">{account.agency_name}</div>}</td>
+                          <td>{toDisplayDate(account.stage_date)}</td>
+                          <td>{next && dueDate ? `${COLLECTION_STAGE_LABELS[next]} ${due ? '(due)' : `on ${toDisplayDate(dueDate)}`}` : '—'}</td>
+                          <td className="text-right">{formatCurrency(account.balance_placed)}</td>
+                          <td className="text-right font-medium">{formatCurrency(account.current_balance)}</td>
+                          <td className="text-right">{formatCurrency(recoveredByAccount[account.id] ?? 0)}</td>
+                          <td className="max-w-[200px] truncate" title={account.notes ?? ''}>{account.notes ?? '—'}</td>
+                          <td>
+                            <div className="flex gap-3 whitespace-nowrap">
+                              <button type="button" className={buttonClass} onClick={() => setHistoryFor(historyFor === account.id ? null : account.id)}>
+                                History
+                              </button>
+                              {canEdit && (
+                                <>
+                                  <button type="button" disabled={saving} className={buttonClass} onClick={() => handleNote(account)}>Note</button>
+                                  <button type="button" disabled={saving} className={buttonClass} onClick={() => handleClose(account)}>Close</button>
+                                </>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {historyFor === account.id && (
+                          <tr>
+                            <td colSpan={canEdit ? 11 : 10}>
+                              <ul className="space-y-1 text-white/80">
+                                {history.map((e) => (
+                                  <li key={e.id}>
+                                    {formatDateTime(e.created_at)} · {COLLECTION_STAGE_LABELS[e.stage]} ·{' '}
+                                    {e.event_type === 'stage' && `Entered stage at ${formatCurrency(e.amount)}`}
+                                    {e.event_type === 'payment' && `Payment received ${formatCurrency(e.amount)}`}
+                                    {e.event_type === 'status' && 'Status changed'}
+                                    {e.event_type === 'note' && 'Note'}
+                                    {e.note && ` — ${e.note}`}
+                                  </li>
+                                ))}
+                              </ul>
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <div className="flex items-center justify-between gap-4 mb-3 flex-wrap">
+              <h3 className="text-white font-medium">Agency placements ({placements.length})</h3>
+              <div className="flex items-center gap-3 text-sm text-white/80">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={includeExported} onChange={(e) => setIncludeExported(e.target.checked)} />
+                  Include accounts already exported
+                </label>
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={handleExport}
+                    disabled={placements.length === 0}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+                  >
+                    <Download size={16} />
+                    Export placement file
+                  </button>
+                )}
+              </div>
+            </div>
+            {placements.length === 0 ? (
+              <p className="text-sm text-white/60">No accounts waiting to be sent to the agency.</p>
+            ) : (
+              <div className="table-container dark-theme">
+                <table className="table-spreadsheet dark-theme w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th>Patient ID</th>
+                      <th>Patient</th>
+                      <th>Placed</th>
+                      <th>Agency</th>
+                      <th>Balance</th>
+                      <th>Exported</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {placements.map((a) => (
+                      <tr key={a.id}>
+                        <td>{a.patient_id}</td>
+                        <td>{a.patient_name ?? ''}</td>
+                        <td>{toDisplayDate(a.placed_date)}</td>
+                        <td>{a.agency_name ?? '—'}</td>
+                        <td className="text-right">{formatCurrency(a.current_balance)}</td>
+                        <td>{a.agency_exported_at ? formatDateTime(a.agency_exported_at) : 'Not yet'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <h3 className="text-white font-medium mb-3">Recovery by stage</h3>
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Stage</th>
+                    <th>Accounts</th>
+                    <th>Balance at Stage</th>
+                    <th>Recovered</th>
+                    <th>Recovery Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {recovery.map((r) => (
+                    <tr key={r.stage}>
+                      <td>{COLLECTION_STAGE_LABELS[r.stage]}</td>
+                      <td>{r.accounts}</td>
+                      <td className="text-right">{formatCurrency(r.balance)}</td>
+                      <td className="text-right">{formatCurrency(r.recovered)}</td>
+                      <td className="text-right">{r.rate == null ? '—' : `${(r.rate * 100).toFixed(1)}%`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
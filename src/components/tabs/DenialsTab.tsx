@@ -0,0 +1,439 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { Edit, Loader, Plus, Trash2, X } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  APPEAL_LEVEL_LABELS,
+  DENIAL_CATEGORY_LABELS,
+  DENIAL_OUTCOME_LABELS,
+  deleteDenial,
+  denialInputFromRow,
+  denialToInput,
+  emptyDenialInput,
+  fetchDeniedRowsWithoutRecord,
+  fetchDenials,
+  saveDenial,
+  suggestDenialCategory,
+  type DeniedRowCandidate,
+  type DenialInput,
+} from '@/lib/denials'
+import { formatCurrency, toDisplayDate } from '@/lib/utils'
+import type { Denial, DenialCategory, DenialOutcome, Provider } from '@/types'
+
+interface DenialsTabProps {
+  clinicId: string
+  canEdit: boolean
+}
+
+type OutcomeFilter = 'open' | 'closed' | 'all'
+
+export default function DenialsTab({ clinicId, canEdit }: DenialsTabProps) {
+  const { userProfile } = useAuth()
+  const [denials, setDenials] = useState<Denial[]>([])
+  const [unrecorded, setUnrecorded] = useState<DeniedRowCandidate[]>([])
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [loading, setLoading] = useState(true)
+  const [outcomeFilter, setOutcomeFilter] = useState<OutcomeFilter>('open')
+  const [categoryFilter, setCategoryFilter] = useState<DenialCategory | ''>('')
+  const [form, setForm] = useState<{ id?: string; input: DenialInput } | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [denialList, { data: providersData }] = await Promise.all([
+        fetchDenials(supabase, clinicId),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+      ])
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+      setDenials(denialList)
+      setProvidersById(providerMap)
+      setUnrecorded(await fetchDeniedRowsWithoutRecord(supabase, clinicId, denialList))
+    } catch (err) {
+      console.error('[DenialsTab] load', err)
+      alert('Failed to load denials. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const visibleDenials = useMemo(
+    () =>
+      denials.filter((d) => {
+        if (categoryFilter && d.category !== categoryFilter) return false
+        if (outcomeFilter === 'open') return d.outcome === 'open'
+        if (outcomeFilter === 'closed') return d.outcome !== 'open'
+        return true
+      }),
+    [denials, outcomeFilter, categoryFilter]
+  )
+
+  const summary = useMemo(() => {
+    let open = 0
+    let appealed = 0
+    let overturned = 0
+    let recovered = 0
+    denials.forEach((d) => {
+      if (d.outcome === 'open') open++
+      if (d.appeal_level > 0) appealed++
+      if (d.outcome === 'overturned' || d.outcome === 'partially_overturned') overturned++
+      recovered += d.recovered_amount ?? 0
+    })
+    return { open, appealed, overturned, recovered }
+  }, [denials])
+
+  const handleSave = async (input: DenialInput, id?: string) => {
+    try {
+      await saveDenial(supabase, clinicId, input, userProfile?.id ?? null, id)
+      setForm(null)
+      await load()
+    } catch (err) {
+      console.error('[DenialsTab] save', err)
+      alert('Failed to save denial. Please try again.')
+    }
+  }
+
+  const handleDelete = async (denial: Denial) => {
+    if (!confirm(`Delete the denial record for ${denial.patient_id ?? 'this visit'} on ${toDisplayDate(denial.date_of_service)}?`)) return
+    try {
+      await deleteDenial(supabase, denial.id)
+      await load()
+    } catch (err) {
+      console.error('[DenialsTab] delete', err)
+      alert('Failed to delete denial. Please try again.')
+    }
+  }
+
+  const providerName = (providerId: string | null) => {
+    const p = providerId ? providersById[providerId] : undefined
+    return p ? `${p.first_name} ${p.last_name}` : ''
+  }
+
+  const filterSelectClass = 'px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md text-sm'
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Denials</h2>
+          <p className="text-sm text-white/70">Reason codes, appeals and outcomes for denied and rejected claims.</p>
+        </div>
+        {canEdit && (
+          <button
+            type="button"
+            onClick={() => setForm({ input: emptyDenialInput() })}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+          >
+            <Plus size={18} />
+            Add denial
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading denials...</p>
+      ) : (
+        <>
+          {unrecorded.length > 0 && (
+            <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+              <h3 className="text-md font-semibold text-white mb-3">Denied rows without a record ({unrecorded.length})</h3>
+              <div className="table-container dark-theme">
+                <table className="table-spreadsheet dark-theme w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th>Provider</th>
+                      <th>Patient ID</th>
+                      <th>Date of Service</th>
+                      <th>CPT</th>
+                      <th>Insurance</th>
+                      <th>Claim Status</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {unrecorded.map((c) => (
+                      <tr key={c.row.id}>
+                        <td>{providerName(c.sheet.provider_id)}</td>
+                        <td>{c.row.patient_id}</td>
+                        <td>{toDisplayDate(c.row.appointment_date)}</td>
+                        <td>{c.row.cpt_code}</td>
+                        <td>{c.patient?.insurance ?? ''}</td>
+                        <td>{c.row.claim_status}</td>
+                        <td>
+                          {canEdit && (
+                            <button
+                              type="button"
+                              onClick={() => setForm({ input: denialInputFromRow(c.row, c.sheet, c.patient) })}
+                              className="px-3 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700"
+                            >
+                              Record
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4 space-y-3">
+            <div className="flex items-center gap-6 flex-wrap text-sm text-white/90">
+              <span>Open: <strong>{summary.open}</strong></span>
+              <span>Appealed: <strong>{summary.appealed}</strong></span>
+              <span>Overturned: <strong>{summary.overturned}</strong></span>
+              <span>Recovered: <strong>{formatCurrency(summary.recovered)}</strong></span>
+              <select value={outcomeFilter} onChange={(e) => setOutcomeFilter(e.target.value as OutcomeFilter)} className={filterSelectClass}>
+                <option value="open" className="bg-slate-900">Open</option>
+                <option value="closed" className="bg-slate-900">Closed</option>
+                <option value="all" className="bg-slate-900">All</option>
+              </select>
+              <select value={categoryFilter} onChange={(e) => setCategoryFilter(e.target.value as DenialCategory | '')} className={filterSelectClass}>
+                <option value="" className="bg-slate-900">All categories</option>
+                {(Object.keys(DENIAL_CATEGORY_LABELS) as DenialCategory[]).map((c) => (
+                  <option key={c} value={c} className="bg-slate-900">{DENIAL_CATEGORY_LABELS[c]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Date of Service</th>
+                    <th>Provider</th>
+                    <th>Patient ID</th>
+                    <th>CPT</th>
+                    <th>Insurance</th>
+                    <th>CARC / RARC</th>
+                    <th>Category</th>
+                    <th>Appeal</th>
+                    <th>Sent</th>
+                    <th>Received</th>
+                    <th>Outcome</th>
+                    <th>Recovered</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleDenials.length === 0 ? (
+                    <tr><td colSpan={13} className="text-center text-white/60">No denials match this filter.</td></tr>
+                  ) : visibleDenials.map((d) => (
+                    <tr key={d.id}>
+                      <td>{toDisplayDate(d.date_of_service)}</td>
+                      <td>{providerName(d.provider_id)}</td>
+                      <td>{d.patient_id}</td>
+                      <td>{d.cpt_code}</td>
+                      <td>{d.insurance}</td>
+                      <td>{[d.carc_codes, d.rarc_codes].filter(Boolean).join(' · ')}</td>
+                      <td>{DENIAL_CATEGORY_LABELS[d.category]}</td>
+                      <td>{APPEAL_LEVEL_LABELS[d.appeal_level] ?? d.appeal_level}</td>
+                      <td>{toDisplayDate(d.appeal_sent_date)}</td>
+                      <td>{toDisplayDate(d.appeal_received_date)}</td>
+                      <td>{DENIAL_OUTCOME_LABELS[d.outcome]}</td>
+                      <td>{d.recovered_amount != null ? formatCurrency(d.recovered_amount) : ''}</td>
+                      <td>
+                        {canEdit && (
+                          <div className="flex items-center gap-1">
+                            <button
+                              type="button"
+                              onClick={() => setForm({ id: d.id, input: denialToInput(d) })}
+                              className="text-primary-400 hover:text-primary-300"
+                              style={{ padding: '4px' }}
+                              title="Edit"
+                            >
+                              <Edit size={16} />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(d)}
+                              className="text-red-400 hover:text-red-300"
+                              style={{ padding: '4px' }}
+                              title="Delete"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {form && (
+        <DenialFormModal
+          initial={form.input}
+          isNew={!form.id}
+          onClose={() => setForm(null)}
+          onSave={(input) => handleSave(input, form.id)}
+        />
+      )}
+    </div>
+  )
+}
+
+function DenialFormModal({
+  initial,
+  isNew,
+  onClose,
+  onSave,
+}: {
+  initial: DenialInput
+  isNew: boolean
+  onClose: () => void
+  onSave: (input: DenialInput) => Promise<void>
+}) {
+  const [input, setInput] = useState<DenialInput>(initial)
+  const [saving, setSaving] = useState(false)
+
+  const set = <K extends keyof DenialInput>(key: K, value: DenialInput[K]) => setInput((prev) => ({ ...prev, [key]: value }))
+  const text = (value: string) => (value.trim() === '' ? null : value)
+  const amount = (value: string) => {
+    const n = parseFloat(value)
+    return value.trim() === '' || !Number.isFinite(n) ? null : n
+  }
+
+  const handleCarcBlur = () => {
+    // Fill the category from the reason codes unless someone already picked one.
+    if (input.category === 'other') set('category', suggestDenialCategory(input.carc_codes))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      await onSave(input)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+  const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+
+  return createPortal(
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center z-[100] p-4"
+      onKeyDownCapture={(e) => e.stopPropagation()}
+    >
+      <form onSubmit={handleSubmit} className="bg-slate-800/95 backdrop-blur-md rounded-lg p-6 w-full max-w-2xl border border-white/20 relative max-h-[90vh] overflow-y-auto">
+        <button
+          type="button"
+          onClick={onClose}
+          className="absolute top-4 right-4 p-1 rounded text-white/70 hover:text-white hover:bg-white/10"
+          aria-label="Close"
+        >
+          <X size={20} />
+        </button>
+        <h2 className="text-xl font-bold text-white mb-4 pr-8">{isNew ? 'Record denial' : 'Edit denial'}</h2>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Patient ID</label>
+            <input className={inputClass} value={input.patient_id ?? ''} onChange={(e) => set('patient_id', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Date of service</label>
+            <input className={inputClass} type="date" value={input.date_of_service ?? ''} onChange={(e) => set('date_of_service', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>CPT</label>
+            <input className={inputClass} value={input.cpt_code ?? ''} onChange={(e) => set('cpt_code', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Insurance</label>
+            <input className={inputClass} value={input.insurance ?? ''} onChange={(e) => set('insurance', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Denied amount</label>
+            <input className={inputClass} type="number" step="0.01" value={input.denied_amount ?? ''} onChange={(e) => set('denied_amount', amount(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Denial date</label>
+            <input className={inputClass} type="date" value={input.denial_date ?? ''} onChange={(e) => set('denial_date', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>CARC codes</label>
+            <input
+              className={inputClass}
+              value={input.carc_codes ?? ''}
+              placeholder="CO-50, PR-1"
+              onChange={(e) => set('carc_codes', text(e.target.value))}
+              onBlur={handleCarcBlur}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>RARC codes</label>
+            <input className={inputClass} value={input.rarc_codes ?? ''} placeholder="N130, M15" onChange={(e) => set('rarc_codes', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Category</label>
+            <select className={inputClass} value={input.category} onChange={(e) => set('category', e.target.value as DenialCategory)}>
+              {(Object.keys(DENIAL_CATEGORY_LABELS) as DenialCategory[]).map((c) => (
+                <option key={c} value={c} className="bg-slate-900">{DENIAL_CATEGORY_LABELS[c]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Appeal level</label>
+            <select className={inputClass} value={input.appeal_level} onChange={(e) => set('appeal_level', Number(e.target.value))}>
+              {APPEAL_LEVEL_LABELS.map((label, level) => (
+                <option key={level} value={level} className="bg-slate-900">{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Appeal sent</label>
+            <input className={inputClass} type="date" value={input.appeal_sent_date ?? ''} onChange={(e) => set('appeal_sent_date', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Appeal received by payer</label>
+            <input className={inputClass} type="date" value={input.appeal_received_date ?? ''} onChange={(e) => set('appeal_received_date', text(e.target.value))} />
+          </div>
+          <div>
+            <label className={labelClass}>Outcome</label>
+            <select className={inputClass} value={input.outcome} onChange={(e) => set('outcome', e.target.value as DenialOutcome)}>
+              {(Object.keys(DENIAL_OUTCOME_LABELS) as DenialOutcome[]).map((o) => (
+                <option key={o} value={o} className="bg-slate-900">{DENIAL_OUTCOME_LABELS[o]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Recovered amount</label>
+            <input className={inputClass} type="number" step="0.01" value={input.recovered_amount ?? ''} onChange={(e) => set('recovered_amount', amount(e.target.value))} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Notes</label>
+            <textarea className={inputClass} rows={3} value={input.notes ?? ''} onChange={(e) => set('notes', text(e.target.value))} />
+          </div>
+        </div>
+        <div className="flex justify-end gap-3 pt-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </form>
+    </div>,
+    document.body
+  )
+}
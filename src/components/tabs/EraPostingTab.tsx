@@ -0,0 +1,440 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Upload, CheckCircle, AlertTriangle, Loader } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { fetchSheetRows, saveSheetRows } from '@/lib/providerSheetRows'
+import { fetchLockedFieldsBySheetId } from '@/lib/providerSheetLocks'
+import {
+  parse835,
+  matchEraToRows,
+  applyEraPosting,
+  priorInsurancePayment,
+  eraExceptionPayload,
+  formatAdjustmentCodes,
+  saveEraImport,
+  fetchEraImportsByCheckNumber,
+  fetchOpenEraExceptions,
+  resolveEraException,
+  type Era835,
+  type EraMatchResult,
+} from '@/lib/era835'
+import { recordEraDenials } from '@/lib/denials'
+import { applyCobBalance, planEraCob, saveClaimPayerPayments } from '@/lib/coordinationOfBenefits'
+import { fetchPayers } from '@/lib/payers'
+import { formatCurrency, toDisplayDate } from '@/lib/utils'
+import type { EraException, Patient, Provider, ProviderSheet, SheetRow } from '@/types'
+
+interface EraPostingTabProps {
+  clinicId: string
+  canEdit: boolean
+  /** Called after rows were written so the parent drops cached provider sheet rows. */
+  onSheetRowsPosted?: () => void
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  insurance_payment: 'Ins Pay',
+  insurance_adjustment: 'PT Res',
+  payment_date: 'Ins Pay Date',
+  claim_status: 'Claim Status',
+}
+
+export default function EraPostingTab({ clinicId, canEdit, onSheetRowsPosted }: EraPostingTabProps) {
+  const { userProfile } = useAuth()
+  const [fileName, setFileName] = useState('')
+  const [fileContent, setFileContent] = useState('')
+  const [era, setEra] = useState<Era835 | null>(null)
+  const [match, setMatch] = useState<EraMatchResult | null>(null)
+  const [selectedRowIds, setSelectedRowIds] = useState<Set<string>>(new Set())
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [lockedBySheet, setLockedBySheet] = useState<Map<string, Set<keyof SheetRow>>>(new Map())
+  const [duplicateWarning, setDuplicateWarning] = useState<string | null>(null)
+  const [loadingFile, setLoadingFile] = useState(false)
+  const [posting, setPosting] = useState(false)
+  const [exceptions, setExceptions] = useState<EraException[]>([])
+
+  const loadExceptions = useCallback(async () => {
+    try {
+      setExceptions(await fetchOpenEraExceptions(supabase, clinicId))
+    } catch (error) {
+      console.error('[EraPostingTab] fetch exceptions', error)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    loadExceptions()
+  }, [loadExceptions])
+
+  const resetReview = () => {
+    setFileName('')
+    setFileContent('')
+    setEra(null)
+    setMatch(null)
+    setSelectedRowIds(new Set())
+    setDuplicateWarning(null)
+    setLockedBySheet(new Map())
+  }
+
+  const handleFile = async (file: File) => {
+    setLoadingFile(true)
+    try {
+      const content = await file.text()
+      const parsed = parse835(content)
+
+      // Candidate rows: every provider sheet in the clinic for the months the ERA's dates of service fall in.
+      const months = new Set<string>()
+      parsed.claims.forEach((c) =>
+        c.services.forEach((s) => {
+          if (s.serviceDate) months.add(`${Number(s.serviceDate.slice(0, 4))}-${Number(s.serviceDate.slice(5, 7))}`)
+        })
+      )
+      const sheets: ProviderSheet[] = []
+      for (const key of months) {
+        const [year, month] = key.split('-').map(Number)
+        const { data, error } = await supabase
+          .from('provider_sheets')
+          .select('*')
+          .eq('clinic_id', clinicId)
+          .eq('year', year)
+          .eq('month', month)
+        if (error) throw error
+        sheets.push(...((data || []) as ProviderSheet[]))
+      }
+      const candidates: Array<{ row: SheetRow; sheet: ProviderSheet }> = []
+      await Promise.all(
+        sheets.map(async (sheet) => {
+          const rows = await fetchSheetRows(supabase, sheet.id)
+          rows.forEach((row) => candidates.push({ row, sheet }))
+        })
+      )
+      const [{ data: patientsData, error: patientsError }, { data: providersData }, lockedBySheet] = await Promise.all([
+        supabase.from('patients').select('*').eq('clinic_id', clinicId),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+        fetchLockedFieldsBySheetId(supabase, clinicId, sheets),
+      ])
+      if (patientsError) throw patientsError
+
+      const result = matchEraToRows(parsed, candidates, (patientsData || []) as Patient[], lockedBySheet)
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+
+      let warning: string | null = null
+      if (parsed.checkNumber) {
+        const previous = await fetchEraImportsByCheckNumber(supabase, clinicId, parsed.checkNumber)
+        if (previous.length > 0) warning = `Check/EFT ${parsed.checkNumber} was already posted on ${toDisplayDate(previous[0].created_at.slice(0, 10))}.`
+      }
+
+      setFileName(file.name)
+      setFileContent(content)
+      setEra(parsed)
+      setMatch(result)
+      setProvidersById(providerMap)
+      setLockedBySheet(lockedBySheet)
+      setSelectedRowIds(new Set(result.postings.map((p) => p.row.id)))
+      setDuplicateWarning(warning)
+    } catch (error) {
+      console.error('[EraPostingTab] read 835', error)
+      alert(error instanceof Error && error.message ? error.message : 'Failed to read 835 file. Please try again.')
+    } finally {
+      setLoadingFile(false)
+    }
+  }
+
+  const selectedPostings = useMemo(
+    () => (match ? match.postings.filter((p) => selectedRowIds.has(p.row.id)) : []),
+    [match, selectedRowIds]
+  )
+
+  const handlePost = async () => {
+    if (!era || !match) return
+    if (duplicateWarning && !confirm(`${duplicateWarning} Post again?`)) return
+    const replacing = selectedPostings.filter((p) => priorInsurancePayment(p) != null)
+    if (
+      replacing.length > 0 &&
+      !confirm(`${replacing.length} row(s) already have an insurance payment. Posting replaces it with this ERA's amount instead of adding to it. Post anyway?`)
+    ) return
+    setPosting(true)
+    try {
+      // Patients with more than one plan: record this payer's remittance and roll Ins Pay / PT Res across payers.
+      const cobPlans = await planEraCob(supabase, clinicId, selectedPostings, era.payerName, await fetchPayers(supabase), userProfile?.id ?? null)
+      await saveClaimPayerPayments(supabase, Array.from(cobPlans.values()).map((plan) => plan.payment))
+
+      // Re-read each sheet right before writing so edits made since the file was loaded are kept.
+      const bySheet = new Map<string, typeof selectedPostings>()
+      selectedPostings.forEach((p) => bySheet.set(p.sheet.id, [...(bySheet.get(p.sheet.id) ?? []), p]))
+      for (const [sheetId, postings] of bySheet) {
+        const rows = await fetchSheetRows(supabase, sheetId)
+        const byRowId = new Map(postings.map((p) => [p.row.id, p]))
+        const updated = rows.map((row) => {
+          const p = byRowId.get(row.id)
+          if (!p) return row
+          const posted = applyEraPosting(row, p)
+          const cob = cobPlans.get(row.id)
+          return cob ? applyCobBalance(posted, cob.balance, lockedBySheet.get(sheetId) ?? new Set()) : posted
+        })
+        await saveSheetRows(supabase, sheetId, updated)
+      }
+
+      const held = match.postings.filter((p) => !selectedRowIds.has(p.row.id))
+      const exceptionCount = match.unmatched.length + held.reduce((n, p) => n + p.lines.length, 0)
+      const saved = await saveEraImport(supabase, {
+        clinic_id: clinicId,
+        file_name: fileName,
+        content: fileContent,
+        payer_name: era.payerName,
+        check_number: era.checkNumber,
+        payment_date: era.paymentDate,
+        total_paid: era.totalPaid,
+        claim_count: era.claims.length,
+        posted_count: selectedPostings.length,
+        exception_count: exceptionCount,
+        created_by: userProfile?.id ?? null,
+      })
+      const exceptionRows = [
+        ...match.unmatched.map((u) => eraExceptionPayload(clinicId, saved.id, u.claim, u.line, u.reason)),
+        ...held.flatMap((p) =>
+          p.lines.map((line) => eraExceptionPayload(clinicId, saved.id, p.claim, line, 'Held at review (not posted).'))
+        ),
+      ]
+      if (exceptionRows.length > 0) {
+        const { error } = await supabase.from('era_exceptions').insert(exceptionRows)
+        if (error) throw error
+      }
+      // Rows are already posted; a failure here only means denial records must be added by hand.
+      await recordEraDenials(supabase, clinicId, selectedPostings, era.payerName, userProfile?.id ?? null).catch((error) =>
+        console.error('[EraPostingTab] record denials', error)
+      )
+      onSheetRowsPosted?.()
+      const cobNote = cobPlans.size > 0 ? ` ${cobPlans.size} row(s) with more than one plan were rolled across payers.` : ''
+      alert(`Posted ${selectedPostings.length} row(s). ${exceptionRows.length} line(s) added to the exception queue.${cobNote}`)
+      resetReview()
+      await loadExceptions()
+    } catch (error) {
+      console.error('[EraPostingTab] post', error)
+      alert('Failed to post ERA. Please try again.')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleResolve = async (id: string) => {
+    try {
+      await resolveEraException(supabase, id, userProfile?.id ?? null)
+      setExceptions((prev) => prev.filter((e) => e.id !== id))
+    } catch (error) {
+      console.error('[EraPostingTab] resolve exception', error)
+      alert('Failed to resolve exception. Please try again.')
+    }
+  }
+
+  const providerName = (providerId: string) => {
+    const p = providersById[providerId]
+    return p ? `${p.first_name} ${p.last_name}` : ''
+  }
+
+  const change = (current: string | null, proposed: string | null, locked: boolean) => (
+    <span className={locked ? 'line-through text-white/40' : undefined} title={locked ? 'Column locked; will not be posted' : undefined}>
+      {current ? <span className="text-white/50">{current} → </span> : null}
+      {proposed ?? ''}
+    </span>
+  )
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">ERA Posting (835)</h2>
+          <p className="text-sm text-white/70">Import a remittance file, review proposed payments, then post to provider sheets.</p>
+        </div>
+        {canEdit && (
+          <label className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 cursor-pointer">
+            {loadingFile ? <Loader className="animate-spin" size={18} /> : <Upload size={18} />}
+            Import 835
+            <input
+              type="file"
+              accept=".835,.txt,.edi,.x12"
+              className="hidden"
+              disabled={loadingFile}
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) handleFile(file)
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {era && match && (
+        <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4 space-y-4">
+          <div className="flex items-center gap-6 flex-wrap text-sm text-white/90">
+            <span><strong>File:</strong> {fileName}</span>
+            <span><strong>Payer:</strong> {era.payerName ?? '—'}</span>
+            <span><strong>Check/EFT:</strong> {era.checkNumber ?? '—'}</span>
+            <span><strong>Paid:</strong> {formatCurrency(era.totalPaid)} on {toDisplayDate(era.paymentDate)}</span>
+            <span><strong>Claims:</strong> {era.claims.length}</span>
+          </div>
+          {duplicateWarning && (
+            <p className="flex items-center gap-2 text-sm text-yellow-300"><AlertTriangle size={16} />{duplicateWarning}</p>
+          )}
+
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>
+                    <input
+                      type="checkbox"
+                      checked={match.postings.length > 0 && selectedRowIds.size === match.postings.length}
+                      onChange={(e) => setSelectedRowIds(e.target.checked ? new Set(match.postings.map((p) => p.row.id)) : new Set())}
+                    />
+                  </th>
+                  <th>Provider</th>
+                  <th>Patient ID</th>
+                  <th>Date of Service</th>
+                  <th>CPT</th>
+                  <th>Ins Pay</th>
+                  <th>PT Res</th>
+                  <th>Ins Pay Date</th>
+                  <th>Claim Status</th>
+                  <th>Adjustments / Remarks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {match.postings.length === 0 ? (
+                  <tr><td colSpan={10} className="text-center text-white/60">No service lines matched a sheet row.</td></tr>
+                ) : match.postings.map((p) => {
+                  const locked = new Set(p.lockedFields)
+                  const codes = formatAdjustmentCodes([...p.claim.adjustments, ...p.lines.flatMap((l) => l.adjustments)])
+                  const remarks = [...p.claim.remarkCodes, ...p.lines.flatMap((l) => l.remarkCodes)].join(', ')
+                  const prior = priorInsurancePayment(p)
+                  return (
+                    <tr key={p.row.id}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={selectedRowIds.has(p.row.id)}
+                          onChange={(e) => {
+                            setSelectedRowIds((prev) => {
+                              const next = new Set(prev)
+                              if (e.target.checked) next.add(p.row.id)
+                              else next.delete(p.row.id)
+                              return next
+                            })
+                          }}
+                        />
+                      </td>
+                      <td>{providerName(p.sheet.provider_id)}</td>
+                      <td>{p.row.patient_id}</td>
+                      <td>{toDisplayDate(p.row.appointment_date)}</td>
+                      <td>{p.row.cpt_code}</td>
+                      <td>
+                        {change(p.row.insurance_payment, p.proposed.insurance_payment, locked.has('insurance_payment'))}
+                        {prior != null && <div className="text-xs text-yellow-300">Replaces {formatCurrency(prior)} already posted</div>}
+                      </td>
+                      <td>{change(p.row.insurance_adjustment, p.proposed.insurance_adjustment, locked.has('insurance_adjustment'))}</td>
+                      <td>{change(toDisplayDate(p.row.payment_date), toDisplayDate(p.proposed.payment_date), locked.has('payment_date'))}</td>
+                      <td>{change(p.row.claim_status, p.proposed.claim_status, locked.has('claim_status'))}</td>
+                      <td className={p.proposed.claim_status === 'Denial' ? 'text-red-300' : undefined}>
+                        {[codes, remarks].filter(Boolean).join(' · ')}
+                        {p.lockedFields.length > 0 && (
+                          <div className="text-xs text-yellow-300">Locked: {p.lockedFields.map((f) => FIELD_LABELS[f]).join(', ')}</div>
+                        )}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {match.unmatched.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-yellow-300 mb-2 flex items-center gap-2">
+                <AlertTriangle size={16} />
+                {match.unmatched.length} line(s) will go to the exception queue
+              </p>
+              <ul className="text-sm text-white/80 space-y-1">
+                {match.unmatched.map((u, i) => (
+                  <li key={`${u.claim.controlNumber}-${i}`}>
+                    {[u.claim.patientFirstName, u.claim.patientLastName].filter(Boolean).join(' ') || u.claim.controlNumber} · {toDisplayDate(u.line.serviceDate)} · {u.line.cptCode ?? '—'} · {formatCurrency(u.line.paidAmount)} — {u.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={resetReview}
+              className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handlePost}
+              disabled={posting || !canEdit}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {posting ? <Loader className="animate-spin" size={18} /> : <CheckCircle size={18} />}
+              Post {selectedPostings.length} row(s)
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+        <h3 className="text-md font-semibold text-white mb-3">Exception queue ({exceptions.length})</h3>
+        {exceptions.length === 0 ? (
+          <p className="text-sm text-white/60">No open exceptions.</p>
+        ) : (
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Patient</th>
+                  <th>Member ID</th>
+                  <th>Claim #</th>
+                  <th>Date of Service</th>
+                  <th>CPT</th>
+                  <th>Paid</th>
+                  <th>PT Resp</th>
+                  <th>Codes</th>
+                  <th>Reason</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {exceptions.map((e) => (
+                  <tr key={e.id}>
+                    <td>{e.patient_name}</td>
+                    <td>{e.member_id}</td>
+                    <td>{e.claim_control_number}</td>
+                    <td>{toDisplayDate(e.date_of_service)}</td>
+                    <td>{e.cpt_code}</td>
+                    <td>{formatCurrency(e.paid_amount)}</td>
+                    <td>{formatCurrency(e.patient_responsibility)}</td>
+                    <td>{[e.adjustment_codes, e.remark_codes].filter(Boolean).join(' · ')}</td>
+                    <td>{e.reason}</td>
+                    <td>
+                      {canEdit && (
+                        <button
+                          type="button"
+                          onClick={() => handleResolve(e.id)}
+                          className="px-3 py-1 text-xs bg-emerald-600 text-white rounded hover:bg-emerald-700"
+                        >
+                          Resolve
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
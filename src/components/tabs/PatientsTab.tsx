@@ -1,11 +1,18 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { supabase } from '@/lib/supabase'
-import { Patient, IsLockPatients } from '@/types'
+import { Patient, IsLockPatients, Payer } from '@/types'
 import { useAuth } from '@/contexts/AuthContext'
 import HandsontableWrapper from '@/components/HandsontableWrapper'
+import PaymentPlansPanel from '@/components/PaymentPlansPanel'
+import EligibilityPanel from '@/components/EligibilityPanel'
+import PatientCoveragesPanel from '@/components/PatientCoveragesPanel'
+import PatientDuplicatesPanel from '@/components/PatientDuplicatesPanel'
+import PatientImportModal from '@/components/PatientImportModal'
 import Handsontable from 'handsontable'
-import { copayTextCellRenderer, coinsuranceTextCellRenderer } from '@/lib/handsontableCustomRenderers'
+import { copayTextCellRenderer, coinsuranceTextCellRenderer, PayerPickerEditor } from '@/lib/handsontableCustomRenderers'
+import { fetchPayers } from '@/lib/payers'
 import { toDisplayValue, toStoredString } from '@/lib/utils'
+import { Upload } from 'lucide-react'
 
 function nextEmptyNumericIdSuffix(rows: { id: string }[]): number {
   let max = -1
@@ -49,6 +56,12 @@ interface PatientsTabProps {
   onPatientCreated?: (patient: Patient) => void
   /** Optional: called with the full batch of new patients after save (e.g. for parent-side sync) */
   onPatientsCreated?: (patients: Patient[]) => void
+  /** Optional: called after two patients were merged (the duplicate's patient_id was rewritten to the survivor's) */
+  onPatientsMerged?: (survivor: Patient, merged: Patient) => void
+  /** Optional: called after a bulk import; monthKey is the provider sheet month the new patients were added to, if any */
+  onPatientsImported?: (patients: Patient[], monthKey: string | null) => void
+  /** Provider sheet month selected on the clinic page; the import offers it as the month to add new patients to */
+  providerSheetMonthKey?: string
   /** Register a flush function to call before switching away from this tab (so pending save completes with full row data) */
   onRegisterFlushBeforeTabLeave?: (flush: () => Promise<void>) => void
   /** When viewing a backup version, parent passes the patient list from backup. */
@@ -58,10 +71,11 @@ interface PatientsTabProps {
   backupVersionKey?: number
 }
 
-export default function PatientsTab({ clinicId, canEdit, onDelete, isLockPatients, onLockColumn, isColumnLocked, isInSplitScreen, onPatientCreated, onPatientsCreated, onRegisterFlushBeforeTabLeave, overridePatients = null, isViewingBackup = false, backupVersionKey = 0 }: PatientsTabProps) {
+export default function PatientsTab({ clinicId, canEdit, onDelete, isLockPatients, onLockColumn, isColumnLocked, isInSplitScreen, onPatientCreated, onPatientsCreated, onPatientsMerged, onPatientsImported, providerSheetMonthKey, onRegisterFlushBeforeTabLeave, overridePatients = null, isViewingBackup = false, backupVersionKey = 0 }: PatientsTabProps) {
   const { userProfile } = useAuth()
   const [patients, setPatients] = useState<Patient[]>([])
   const [loading, setLoading] = useState(true)
+  const [showImport, setShowImport] = useState(false)
   const patientsRef = useRef<Patient[]>([])
   const tableContainerRef = useRef<HTMLDivElement>(null)
   const hotRef = useRef<Handsontable | null>(null)
@@ -188,6 +202,13 @@ export default function PatientsTab({ clinicId, canEdit, onDelete, isLockPatient
     patientsRef.current = patients
   }, [patients])
 
+  const [payers, setPayers] = useState<Payer[]>([])
+  useEffect(() => {
+    fetchPayers(supabase)
+      .then((list) => setPayers(list.filter((p) => p.is_active)))
+      .catch((err) => console.error('[PatientData] Error fetching payers:', err))
+  }, [])
+
   // On unmount (or before clinicId change), flush any pending debounced save so the last edit is not lost
   useEffect(() => {
     return () => {
@@ -831,10 +852,13 @@ export default function PatientsTab({ clinicId, canEdit, onDelete, isLockPatient
     { data: 0, title: 'Patient ID', type: 'text' as const, width: 120, readOnly: !canEdit || getReadOnly('patient_id'), columnSorting: { indicator: true } },
     { data: 1, title: 'Patient First', type: 'text' as const, width: 150, readOnly: !canEdit || getReadOnly('first_name'), columnSorting: { headerAction: false } },
     { data: 2, title: 'Patient Last', type: 'text' as const, width: 150, readOnly: !canEdit || getReadOnly('last_name'), columnSorting: { headerAction: false } },
-    { data: 3, title: 'Insurance', type: 'text' as const, width: 150, readOnly: !canEdit || getReadOnly('insurance'), columnSorting: { headerAction: false } },
+    // Payer picker once payers are set up in settings; plain text until then so insurance stays editable.
+    payers.length > 0
+      ? { data: 3, title: 'Insurance', type: 'text' as const, width: 150, editor: PayerPickerEditor, selectOptions: payers.map((p) => p.name), payerAliases: Object.fromEntries(payers.map((p) => [p.name, p.aliases])), readOnly: !canEdit || getReadOnly('insurance'), columnSorting: { headerAction: false } }
+      : { data: 3, title: 'Insurance', type: 'text' as const, width: 150, readOnly: !canEdit || getReadOnly('insurance'), columnSorting: { headerAction: false } },
     { data: 4, title: 'Copay', type: 'text' as const, width: 100, renderer: copayTextCellRenderer, readOnly: !canEdit || getReadOnly('copay'), columnSorting: { headerAction: false } },
     { data: 5, title: 'Coinsurance', type: 'text' as const, width: 100, renderer: coinsuranceTextCellRenderer, readOnly: !canEdit || getReadOnly('coinsurance'), columnSorting: { headerAction: false } },
-  ], [canEdit, lockData])
+  ], [canEdit, lockData, payers])
   
   const handlePatientsHandsontableChange = useCallback((changes: Handsontable.CellChange[] | null, source: Handsontable.ChangeSource) => {
     if (!changes || source === 'loadData') return
@@ -988,6 +1012,18 @@ export default function PatientsTab({ clinicId, canEdit, onDelete, isLockPatient
       className="p-6" 
       style={isInSplitScreen ? { height: '100%', display: 'flex', flexDirection: 'column', minHeight: 0 } : {}}
     >
+      {canEdit && !isViewingBackup && !isInSplitScreen && providerSheetMonthKey && (
+        <div className="mb-3 flex justify-end">
+          <button
+            type="button"
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm"
+          >
+            <Upload size={16} />
+            Import patients
+          </button>
+        </div>
+      )}
       <div 
         ref={tableContainerRef}
         className="table-container dark-theme" 
@@ -1029,6 +1065,41 @@ export default function PatientsTab({ clinicId, canEdit, onDelete, isLockPatient
           className="handsontable-custom billing-todo-sortable"
         />
       </div>
+      {!isInSplitScreen && !isViewingBackup && (
+        <div className="mt-6 space-y-6">
+          <PatientCoveragesPanel
+            clinicId={clinicId}
+            insuranceLocked={Boolean(lockData?.insurance)}
+            onPatientUpdated={fetchPatients}
+          />
+          <EligibilityPanel
+            clinicId={clinicId}
+            lockedPatientFields={{ copay: Boolean(lockData?.copay), coinsurance: Boolean(lockData?.coinsurance) }}
+            onPatientUpdated={fetchPatients}
+          />
+          <PaymentPlansPanel clinicId={clinicId} />
+          <PatientDuplicatesPanel
+            clinicId={clinicId}
+            onMerged={(survivor, merged) => {
+              fetchPatients()
+              onPatientsMerged?.(survivor, merged)
+            }}
+          />
+        </div>
+      )}
+      {showImport && providerSheetMonthKey && (
+        <PatientImportModal
+          clinicId={clinicId}
+          defaultMonthKey={providerSheetMonthKey}
+          onClose={() => setShowImport(false)}
+          onImported={async (inserted, monthKey) => {
+            setShowImport(false)
+            await fetchPatients()
+            setStructureVersion((v) => v + 1)
+            onPatientsImported?.(inserted, monthKey)
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -1,9 +1,35 @@
-import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
-import { ChevronLeft, ChevronRight } from 'lucide-react'
+import { Fragment, useState, useRef, useCallback, useEffect, useMemo } from 'react'
+import { ChevronLeft, ChevronRight, Download, FileText, RefreshCw, X } from 'lucide-react'
 import HandsontableWrapper from '@/components/HandsontableWrapper'
 import Handsontable from 'handsontable'
-import type { Provider, StatusColor } from '@/types'
-import { fetchProviderPay, saveProviderPay } from '@/lib/providerPay'
+import type { PayTemplate, Provider, ProviderCompensationModel, StatusColor } from '@/types'
+import { supabase } from '@/lib/supabase'
+import { applySheetPay, diffSheetPay, fetchProviderPay, saveProviderPay, type SavedProviderPay, type SheetPayDiff, type SheetPayTotals } from '@/lib/providerPay'
+import { formatCurrency, formatDateTime, parseAmount, roundMoney, toDisplayDate } from '@/lib/utils'
+import {
+  applyPayTemplate,
+  buildPayTableRows,
+  fetchPayTemplates,
+  isComputedLine,
+  payLineForRow,
+  providerCutBasis,
+  resolvePayTemplate,
+  BUILTIN_PAY_TEMPLATE,
+  PAY_SHEET_SOURCE_LABELS,
+  DEFAULT_PROVIDER_CUT_PERCENT,
+} from '@/lib/providerPayTemplates'
+import {
+  activeCompensationModel,
+  compensationProviderCut,
+  computeCompensation,
+  fetchCompensationModels,
+  fetchCompensationVisits,
+  formatEffectiveRange,
+  COMPENSATION_MODEL_TYPE_LABELS,
+  type CompensationVisit,
+} from '@/lib/compensationModels'
+import { fetchClinicPayPeriodIds, fetchProviderPayStatements } from '@/lib/providerPayStatements'
+import { generateProviderPayStatementsPdf } from '@/lib/providerPayStatementPdf'
 
 export type IsLockProviderPay = {
   description?: boolean
@@ -14,67 +40,6 @@ export type IsLockProviderPay = {
   notes_comment?: string | null
 }
 
-/** Row indices for amount rows used to compute Total Payments. */
-const ROWS_FOR_TOTAL = [1, 2, 3] as const // Patient Payments, Insurance Payments, A/R Payments
-const ROW_TOTAL_PAYMENTS = 5
-const ROW_PROVIDER_CUT = 6
-
-const DEFAULT_PROVIDER_CUT_PERCENT = 0.7
-
-function parseAmount(val: unknown): number {
-  if (val == null || val === '') return 0
-  const s = String(val).replace(/,/g, '').replace(/\$/g, '').trim()
-  if (s === '') return 0
-  const n = parseFloat(s)
-  return Number.isNaN(n) ? 0 : n
-}
-
-/** Format a number or string as currency $x,xxx.xx for display in the Amount column. */
-function formatAmount(val: unknown): string {
-  const n = parseAmount(val)
-  if (n === 0 && (val == null || String(val).trim() === '')) return ''
-  return n.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 })
-}
-
-function computeTotalPayments(data: string[][]): string {
-  let sum = 0
-  for (const row of ROWS_FOR_TOTAL) {
-    if (row < data.length && data[row][1] != null) sum += parseAmount(data[row][1])
-  }
-  return sum === 0 ? '' : String(sum)
-}
-
-function computeProviderCut(totalAmount: number, percent: number): string {
-  if (totalAmount === 0 || percent <= 0) return ''
-  const cut = totalAmount * percent
-  return String(cut)
-}
-
-const INITIAL_TABLE_DATA: string[][] = (() => {
-  const rows: string[][] = [
-    ['Description', 'Amount', 'Notes'], // row 0 - header
-    ['Patient Payments', '', ''],
-    ['Insurance Payments', '', ''],
-    ['A/R Payments', '', ''],
-    ['', '', ''],
-    // ['', '', ''],
-    // ['', '', ''],
-    ['Total Payments', '', ''],
-    ['Provider Cut', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-    ['', '', ''],
-  ]
-  return rows
-})()
-
 export interface ProviderPayTabProps {
   clinicId: string
   /** 1 = default; 2 = clinic has two pay periods, show Payroll 1/2 selector */
@@ -128,12 +93,26 @@ export default function ProviderPayTab({
   const [payDate, setPayDate] = useState('')
   const [payPeriodFrom, setPayPeriodFrom] = useState('')
   const [payPeriodTo, setPayPeriodTo] = useState('')
-  const [tableData, setTableData] = useState<string[][]>(() => INITIAL_TABLE_DATA.map(row => [...row]))
+  const [tableData, setTableData] = useState<string[][]>(() => buildPayTableRows(BUILTIN_PAY_TEMPLATE, null))
+  /** Template the current table is laid out with (the month's saved template, else the provider's). */
+  const [tableTemplateId, setTableTemplateId] = useState<string>('')
+  const [templates, setTemplates] = useState<PayTemplate[]>([])
+  const [templatesLoaded, setTemplatesLoaded] = useState(false)
   const [providerPayDataVersion, setProviderPayDataVersion] = useState(0)
   const [sideNotes, setSideNotes] = useState('')
+  const [sheetPulledAt, setSheetPulledAt] = useState<string | null>(null)
+  /** "Pull from sheet" preview: saved vs sheet amounts per line, until applied or dismissed. */
+  const [sheetPull, setSheetPull] = useState<{ diffs: SheetPayDiff[]; totals: SheetPayTotals } | null>(null)
+  const [pullingSheet, setPullingSheet] = useState(false)
+  const [expandedPullLine, setExpandedPullLine] = useState<string | null>(null)
+  const [generatingStatements, setGeneratingStatements] = useState(false)
+  /** Set when sheet amounts were applied, so the next save stamps sheet_pulled_at. */
+  const pullAppliedRef = useRef(false)
   const [selectedPayroll, setSelectedPayroll] = useState<1 | 2>(1)
+  /** Compensation model in effect per provider/month/payroll, with sheet visits by CPT code for per-code models. */
+  const [compensationByKey, setCompensationByKey] = useState<Record<string, { model: ProviderCompensationModel | null; visits: CompensationVisit[] }>>({})
 
-  type CachedPay = { payDate: string; payPeriodFrom: string; payPeriodTo: string; sideNotes: string; tableData: string[][] }
+  type CachedPay = { payDate: string; payPeriodFrom: string; payPeriodTo: string; sideNotes: string; templateId: string; sheetPulledAt: string | null; tableData: string[][] }
   const [providerPayCache, setProviderPayCache] = useState<Record<string, CachedPay>>({})
 
   /** Serialize pay period for DB (single string). */
@@ -146,6 +125,8 @@ export default function ProviderPayTab({
   )
   const [loading, setLoading] = useState(false)
   const hasLoadedOnceRef = useRef(false)
+  /** Set by edits to the shown month; loading a month (and laying it out) never saves on its own. */
+  const editedRef = useRef(false)
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const savePayloadRef = useRef<{
     clinicId: string
@@ -159,6 +140,8 @@ export default function ProviderPayTab({
     tableData: string[][]
     sideNotes: string
     payrollForSave: number
+    template: PayTemplate
+    pulledFromSheet: boolean
   } | null>(null)
   const lockData = isLockProviderPay || null
 
@@ -170,6 +153,50 @@ export default function ProviderPayTab({
     () => providers.find((p) => p.id === effectiveProviderId)?.provider_cut_percent ?? DEFAULT_PROVIDER_CUT_PERCENT,
     [providers, effectiveProviderId]
   )
+  const payrollForCompensation = clinicPayroll === 2 ? selectedPayroll : 1
+  const compensationKey = `${effectiveProviderId}-${year}-${month}-${payrollForCompensation}`
+  const compensation = compensationByKey[compensationKey]
+  const compensationLoaded = compensation != null
+  const providerCut = useMemo(
+    () => compensationProviderCut(compensation?.model ?? null, providerCutPercent, compensation?.visits),
+    [compensation, providerCutPercent]
+  )
+  const assignedTemplateId = useMemo(
+    () => providers.find((p) => p.id === effectiveProviderId)?.pay_template_id ?? null,
+    [providers, effectiveProviderId]
+  )
+  const template = useMemo(() => resolvePayTemplate(templates, tableTemplateId), [templates, tableTemplateId])
+
+  useEffect(() => {
+    fetchPayTemplates(supabase)
+      .then(setTemplates)
+      .catch((err) => console.error('[ProviderPayTab] fetchPayTemplates error:', err))
+      .finally(() => setTemplatesLoaded(true))
+  }, [])
+
+  // Load the compensation model for the month (and per-code visits) before laying out the table
+  useEffect(() => {
+    if (!clinicId || !effectiveProviderId || compensationByKey[compensationKey]) return
+    let cancelled = false
+    const load = async () => {
+      const model = activeCompensationModel(await fetchCompensationModels(supabase, effectiveProviderId), year, month)
+      const visits = model?.model_type === 'per_code'
+        ? await fetchCompensationVisits(supabase, clinicId, effectiveProviderId, year, month, payrollForCompensation)
+        : []
+      return { model, visits }
+    }
+    load()
+      .catch((err) => {
+        console.error('[ProviderPayTab] compensation model load error:', err)
+        return { model: null, visits: [] }
+      })
+      .then((entry) => {
+        if (!cancelled) setCompensationByKey((prev) => ({ ...prev, [compensationKey]: entry }))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [clinicId, effectiveProviderId, year, month, payrollForCompensation, compensationKey, compensationByKey])
 
   // Sync selectedProviderId when providerIdProp or providers list changes (e.g. initial load or provider no longer in list)
   useEffect(() => {
@@ -191,24 +218,38 @@ export default function ProviderPayTab({
       setLoading(false)
       return
     }
+    // Wait for templates and the compensation model so the table is laid out (and saved) with the right ones
+    if (!templatesLoaded || (!isViewingBackup && !compensationLoaded)) {
+      setLoading(true)
+      return
+    }
     if (isViewingBackup) {
-      setTableData(overrideTableData && overrideTableData.length > 0 ? overrideTableData.map((r) => [...r]) : INITIAL_TABLE_DATA.map((row) => [...row]))
+      setTableData(overrideTableData && overrideTableData.length > 0 ? overrideTableData.map((r) => [...r]) : buildPayTableRows(BUILTIN_PAY_TEMPLATE, null))
       setLoading(false)
       return
     }
     const payrollForFetch = clinicPayroll === 2 ? selectedPayroll : 1
     const cacheKey = `${year}-${month}-${effectiveProviderId}-${payrollForFetch}`
+    // Table state still holds the previous month until the fetch lands; a pending edit was already flushed
+    editedRef.current = false
 
-    const applyDataToState = (payDateVal: string, payPeriodFromVal: string, payPeriodToVal: string, notesVal: string, rows: string[][]) => {
+    const applyDataToState = (payDateVal: string, payPeriodFromVal: string, payPeriodToVal: string, notesVal: string, templateIdVal: string, sheetPulledAtVal: string | null, rows: string[][]) => {
       setPayDate(payDateVal)
       setPayPeriodFrom(payPeriodFromVal)
       setPayPeriodTo(payPeriodToVal)
       setSideNotes(notesVal)
+      setTableTemplateId(templateIdVal)
+      setSheetPulledAt(sheetPulledAtVal)
       setTableData(rows)
       setProviderPayDataVersion((v) => v + 1)
     }
 
-    const processFetchResult = (data: { payDate: string; payPeriod: string; notes: string; rows: string[][] } | null): CachedPay => {
+    const processFetchResult = (data: SavedProviderPay | null): CachedPay => {
+      // Saved months keep the template they were built with and their stored amounts; new months use the
+      // provider's assignment with the computed lines filled in.
+      const monthTemplate = resolvePayTemplate(templates, data?.templateId ?? assignedTemplateId)
+      const laidOut = buildPayTableRows(monthTemplate, data)
+      const rows = data ? laidOut : applyPayTemplate(laidOut, monthTemplate, providerCut)
       if (data) {
         let payPeriodFromVal = ''
         let payPeriodToVal = ''
@@ -225,34 +266,14 @@ export default function ProviderPayTab({
         } else if (datePart.test(raw)) {
           payPeriodFromVal = raw
         }
-        const rows = data.rows.map((r) => [...r])
-        if (rows.length > ROW_TOTAL_PAYMENTS) {
-          rows[ROW_TOTAL_PAYMENTS][1] = formatAmount(computeTotalPayments(rows))
-        }
-        if (rows.length > ROW_PROVIDER_CUT) {
-          rows[ROW_PROVIDER_CUT][1] = formatAmount(computeProviderCut(parseAmount(rows[ROW_TOTAL_PAYMENTS][1]), providerCutPercent))
-        }
-        for (const r of [1, 2, 3]) {
-          if (rows[r]?.[1] != null && rows[r][1] !== '') rows[r][1] = formatAmount(rows[r][1])
-        }
-        return { payDate: data.payDate, payPeriodFrom: payPeriodFromVal, payPeriodTo: payPeriodToVal, sideNotes: data.notes ?? '', tableData: rows }
-      }
-      const initial = INITIAL_TABLE_DATA.map((r) => [...r])
-      if (initial.length > ROW_TOTAL_PAYMENTS) {
-        initial[ROW_TOTAL_PAYMENTS][1] = formatAmount(computeTotalPayments(initial))
-      }
-      if (initial.length > ROW_PROVIDER_CUT) {
-        initial[ROW_PROVIDER_CUT][1] = formatAmount(computeProviderCut(parseAmount(initial[ROW_TOTAL_PAYMENTS][1]), providerCutPercent))
-      }
-      for (const r of [1, 2, 3]) {
-        if (initial[r]?.[1] != null && initial[r][1] !== '') initial[r][1] = formatAmount(initial[r][1])
+        return { payDate: data.payDate, payPeriodFrom: payPeriodFromVal, payPeriodTo: payPeriodToVal, sideNotes: data.notes ?? '', templateId: monthTemplate.id, sheetPulledAt: data.sheetPulledAt, tableData: rows }
       }
-      return { payDate: '', payPeriodFrom: '', payPeriodTo: '', sideNotes: '', tableData: initial }
+      return { payDate: '', payPeriodFrom: '', payPeriodTo: '', sideNotes: '', templateId: monthTemplate.id, sheetPulledAt: null, tableData: rows }
     }
 
     const cached = providerPayCache[cacheKey]
     if (cached) {
-      applyDataToState(cached.payDate, cached.payPeriodFrom, cached.payPeriodTo, cached.sideNotes, cached.tableData.map((r) => [...r]))
+      applyDataToState(cached.payDate, cached.payPeriodFrom, cached.payPeriodTo, cached.sideNotes, cached.templateId, cached.sheetPulledAt, cached.tableData.map((r) => [...r]))
       setLoading(false)
     } else {
       // Only show full-page loading on very first load; when switching month, fetch in background without replacing content
@@ -262,7 +283,7 @@ export default function ProviderPayTab({
     fetchProviderPay(clinicId, effectiveProviderId, year, month, payrollForFetch)
       .then((data) => {
         const entry = processFetchResult(data)
-        applyDataToState(entry.payDate, entry.payPeriodFrom, entry.payPeriodTo, entry.sideNotes, entry.tableData.map((r) => [...r]))
+        applyDataToState(entry.payDate, entry.payPeriodFrom, entry.payPeriodTo, entry.sideNotes, entry.templateId, entry.sheetPulledAt, entry.tableData.map((r) => [...r]))
         setProviderPayCache((prev) => ({ ...prev, [cacheKey]: entry }))
       })
       .catch((err) => console.error('[ProviderPayTab] fetchProviderPay error:', err))
@@ -270,7 +291,13 @@ export default function ProviderPayTab({
         setLoading(false)
         hasLoadedOnceRef.current = true
       })
-  }, [clinicId, effectiveProviderId, year, month, providerCutPercent, clinicPayroll, selectedPayroll, isViewingBackup, overrideTableData])
+  }, [clinicId, effectiveProviderId, year, month, providerCut, compensationLoaded, assignedTemplateId, templates, templatesLoaded, clinicPayroll, selectedPayroll, isViewingBackup, overrideTableData])
+
+  // A pull preview belongs to one provider and month
+  useEffect(() => {
+    setSheetPull(null)
+    setExpandedPullLine(null)
+  }, [effectiveProviderId, year, month, selectedPayroll])
 
   /** When viewing backup, use override so the grid shows the correct version on first render (same fix as AR and Patients tabs). */
   const displayTableData = useMemo(
@@ -285,7 +312,8 @@ export default function ProviderPayTab({
   // Update cache on success so fetch effect re-runs don't overwrite state with stale cache. Flush on unmount and beforeunload.
   const runSave = useCallback((p: NonNullable<typeof savePayloadRef.current>) => {
     const cacheKey = `${p.year}-${p.month}-${p.effectiveProviderId}-${p.payrollForSave}`
-    saveProviderPay(p.clinicId, p.effectiveProviderId, p.year, p.month, p.payDate, p.payPeriod, p.tableData, p.sideNotes, p.payrollForSave)
+    const pulledAt = p.pulledFromSheet ? new Date().toISOString() : null
+    saveProviderPay(p.clinicId, p.effectiveProviderId, p.year, p.month, p.payDate, p.payPeriod, p.tableData, p.sideNotes, p.payrollForSave, p.template, { pulledFromSheet: p.pulledFromSheet })
       .then(() => {
         setProviderPayCache((prev) => ({
           ...prev,
@@ -294,6 +322,8 @@ export default function ProviderPayTab({
             payPeriodFrom: p.payPeriodFrom,
             payPeriodTo: p.payPeriodTo,
             sideNotes: p.sideNotes,
+            templateId: p.template.id,
+            sheetPulledAt: pulledAt ?? prev[cacheKey]?.sheetPulledAt ?? null,
             tableData: p.tableData.map((r) => [...r]),
           },
         }))
@@ -302,8 +332,11 @@ export default function ProviderPayTab({
   }, [])
 
   useEffect(() => {
-    if (!clinicId || !effectiveProviderId || !canEdit || loading) return
+    if (!clinicId || !effectiveProviderId || !canEdit || loading || !templatesLoaded || !compensationLoaded || !editedRef.current) return
     const payrollForSave = clinicPayroll === 2 ? selectedPayroll : 1
+    // Keep the flag if a pending save that applied sheet amounts is replaced by a newer edit
+    const pulledFromSheet = pullAppliedRef.current || (savePayloadRef.current?.pulledFromSheet ?? false)
+    pullAppliedRef.current = false
     savePayloadRef.current = {
       clinicId,
       effectiveProviderId,
@@ -316,6 +349,8 @@ export default function ProviderPayTab({
       tableData: tableData.map((r) => [...r]),
       sideNotes,
       payrollForSave,
+      template,
+      pulledFromSheet,
     }
     if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current)
     saveTimeoutRef.current = setTimeout(() => {
@@ -337,7 +372,7 @@ export default function ProviderPayTab({
         }
       }
     }
-  }, [clinicId, effectiveProviderId, year, month, canEdit, loading, payDate, payPeriod, payPeriodFrom, payPeriodTo, tableData, sideNotes, clinicPayroll, selectedPayroll, runSave])
+  }, [clinicId, effectiveProviderId, year, month, canEdit, loading, payDate, payPeriod, payPeriodFrom, payPeriodTo, tableData, sideNotes, template, templatesLoaded, compensationLoaded, clinicPayroll, selectedPayroll, runSave])
 
   // Flush pending save when user refreshes or closes tab so data persists
   useEffect(() => {
@@ -347,7 +382,7 @@ export default function ProviderPayTab({
         clearTimeout(saveTimeoutRef.current)
         saveTimeoutRef.current = null
         savePayloadRef.current = null
-        saveProviderPay(p.clinicId, p.effectiveProviderId, p.year, p.month, p.payDate, p.payPeriod, p.tableData, p.sideNotes, p.payrollForSave)
+        saveProviderPay(p.clinicId, p.effectiveProviderId, p.year, p.month, p.payDate, p.payPeriod, p.tableData, p.sideNotes, p.payrollForSave, p.template, { pulledFromSheet: p.pulledFromSheet })
       }
     }
     window.addEventListener('beforeunload', onBeforeUnload)
@@ -427,52 +462,118 @@ export default function ProviderPayTab({
         props.readOnly = true
         return props
       }
+      const line = payLineForRow(template, row)
+      // Template line descriptions come from the template
       if (col === 0) {
-        props.readOnly = row <= 6 ? true : !canEdit
-      }
-      // Total Payments amount is calculated from Patient + Insurance + A/R
-      if (row === ROW_TOTAL_PAYMENTS && col === 1) {
-        props.readOnly = true
+        props.readOnly = line ? true : !canEdit
       }
-      // Provider Cut amount is calculated as Total Payments × provider cut %
-      if (row === ROW_PROVIDER_CUT && col === 1) {
+      // Sum, percent, flat and deduction amounts are computed from the template formulas
+      if (line && isComputedLine(line) && col === 1) {
         props.readOnly = true
       }
       return props
     },
-    [canEdit]
+    [canEdit, template]
   )
 
   const afterChange = useCallback(
-    (changes: Handsontable.CellChange[] | null, _source?: Handsontable.ChangeSource) => {
-      if (!changes?.length || !canEdit) return
+    (changes: Handsontable.CellChange[] | null, source?: Handsontable.ChangeSource) => {
+      if (!changes?.length || !canEdit || source === 'loadData' || source === 'updateData') return
       setTableData((prev) => {
         const next = prev.map((r) => [...r])
+        let amountChanged = false
         for (const change of changes) {
           const row = typeof change[0] === 'number' ? change[0] : -1
           const col = typeof change[1] === 'number' ? change[1] : -1
           const newVal = change[3]
           if (row <= 0 || row >= next.length || col < 0 || col >= 3) continue
-          if (col === 0 && row <= 6) continue
-          let val = newVal == null ? '' : String(newVal)
-          if (col === 1 && (row === 1 || row === 2 || row === 3)) val = formatAmount(val)
-          if (next[row][col] !== val) next[row][col] = val
+          if (col === 0 && payLineForRow(template, row)) continue
+          const val = newVal == null ? '' : String(newVal)
+          if (next[row][col] === val) continue
+          next[row][col] = val
+          if (col === 1) amountChanged = true
         }
-        // Recalculate Total Payments when amount in Patient/Insurance/A/R row changes
-        if (next.length > ROW_TOTAL_PAYMENTS) {
-          next[ROW_TOTAL_PAYMENTS][1] = formatAmount(computeTotalPayments(next))
-        }
-        // Recalculate Provider Cut = Total Payments × provider cut %
-        if (next.length > ROW_PROVIDER_CUT) {
-          next[ROW_PROVIDER_CUT][1] = formatAmount(computeProviderCut(parseAmount(next[ROW_TOTAL_PAYMENTS][1]), providerCutPercent))
-        }
-        return next
+        // Reformat entered amounts and recalculate the template's computed lines; description and note
+        // edits leave the saved amounts alone
+        return amountChanged ? applyPayTemplate(next, template, providerCut) : next
       })
+      editedRef.current = true
       setProviderPayDataVersion((v) => v + 1)
     },
-    [canEdit, providerCutPercent]
+    [canEdit, template, providerCut]
   )
 
+  /** How the Provider Cut line is reached from the table's current totals. */
+  const cutBreakdown = useMemo(() => {
+    if (isViewingBackup || !compensation) return null
+    const cut = providerCutBasis(template, tableData, providerCut)
+    if (!cut) return null
+    const saved = roundMoney(parseAmount(tableData[template.lines.indexOf(cut.line) + 1]?.[1]))
+    return { line: cut.line, saved, ...computeCompensation(compensation.model, cut.basis, providerCutPercent, compensation.visits) }
+  }, [isViewingBackup, compensation, template, tableData, providerCut, providerCutPercent])
+
+  /** Lays the template's computed lines out again from the entered amounts and the month's compensation model. */
+  const handleRecompute = () => {
+    editedRef.current = true
+    setTableData((prev) => applyPayTemplate(prev, template, providerCut))
+    setProviderPayDataVersion((v) => v + 1)
+  }
+
+  const hasSheetLines = template.lines.some((l) => l.line_type === 'input' && l.sheet_source)
+
+  const handlePullFromSheet = async () => {
+    if (!clinicId || !effectiveProviderId) return
+    setPullingSheet(true)
+    try {
+      const payroll = clinicPayroll === 2 ? selectedPayroll : 1
+      const data = await fetchProviderPay(clinicId, effectiveProviderId, year, month, payroll, { pullFromSheet: true })
+      if (!data?.sheetTotals) throw new Error('No sheet totals returned')
+      // Compare with what is saved, laid out for the template the table is using
+      const savedRows = buildPayTableRows(template, data)
+      setSheetPull({ diffs: diffSheetPay(template, savedRows, data.sheetTotals, providerCut), totals: data.sheetTotals })
+      setExpandedPullLine(null)
+    } catch (err) {
+      console.error('[ProviderPayTab] pull from sheet error:', err)
+      alert('Failed to pull amounts from the provider sheet. Please try again.')
+    } finally {
+      setPullingSheet(false)
+    }
+  }
+
+  const handleApplySheetPull = () => {
+    if (!sheetPull) return
+    pullAppliedRef.current = true
+    editedRef.current = true
+    setTableData((prev) => applySheetPay(template, prev, sheetPull.totals, providerCut))
+    setProviderPayDataVersion((v) => v + 1)
+    setSheetPulledAt(new Date().toISOString())
+    setSheetPull(null)
+  }
+
+  /** One pay statement per provider with saved pay for the clinic's month and payroll. */
+  const handleBatchStatements = async () => {
+    if (!clinicId) return
+    setGeneratingStatements(true)
+    try {
+      const payroll = clinicPayroll === 2 ? selectedPayroll : 1
+      const ids = await fetchClinicPayPeriodIds(supabase, clinicId, year, month, payroll)
+      const statements = (await fetchProviderPayStatements(supabase, ids)).sort((a, b) =>
+        `${a.provider.last_name} ${a.provider.first_name}`.localeCompare(`${b.provider.last_name} ${b.provider.first_name}`)
+      )
+      if (statements.length === 0) {
+        alert('No Provider Pay has been saved for this month yet.')
+        return
+      }
+      const pdf = generateProviderPayStatementsPdf(statements)
+      pdf.save(`pay_statements_${year}-${String(month).padStart(2, '0')}${clinicPayroll === 2 ? `_payroll${payroll}` : ''}.pdf`)
+    } catch (err) {
+      console.error('[ProviderPayTab] pay statements error:', err)
+      alert('Failed to generate pay statements. Please try again.')
+    } finally {
+      setGeneratingStatements(false)
+    }
+  }
+
   // Apply header color to thead and to row 0 (first data row) via CSS variables
   useEffect(() => {
     const applyHeaderStyle = () => {
@@ -611,6 +712,7 @@ export default function ProviderPayTab({
                 </option>
               ))}
             </select>
+            {!isViewingBackup && <span className="text-xs text-slate-400 whitespace-nowrap">Template: {template.name}</span>}
           </div>
         )}
       </div>
@@ -629,7 +731,10 @@ export default function ProviderPayTab({
           <input
             type="date"
             value={payDate}
-            onChange={(e) => setPayDate(e.target.value)}
+            onChange={(e) => {
+              editedRef.current = true
+              setPayDate(e.target.value)
+            }}
             className={`flex-1 max-w-[12rem] bg-transparent border border-white/30 rounded px-2 py-1 outline-none text-inherit [color-scheme:dark] ${!payDate ? 'provider-pay-date-empty' : ''}`}
             style={{ color: headerStyle.textColor }}
           />
@@ -641,7 +746,10 @@ export default function ProviderPayTab({
             <input
               type="date"
               value={payPeriodFrom}
-              onChange={(e) => setPayPeriodFrom(e.target.value)}
+              onChange={(e) => {
+                editedRef.current = true
+                setPayPeriodFrom(e.target.value)
+              }}
               className={`w-[8.5rem] bg-transparent border border-white/30 rounded px-1.5 py-1 text-sm outline-none text-inherit [color-scheme:dark] ${!payPeriodFrom ? 'provider-pay-date-empty' : ''}`}
               style={{ color: headerStyle.textColor }}
             />
@@ -651,7 +759,10 @@ export default function ProviderPayTab({
             <input
               type="date"
               value={payPeriodTo}
-              onChange={(e) => setPayPeriodTo(e.target.value)}
+              onChange={(e) => {
+                editedRef.current = true
+                setPayPeriodTo(e.target.value)
+              }}
               className={`w-[8.5rem] bg-transparent border border-white/30 rounded px-1.5 py-1 text-sm outline-none text-inherit [color-scheme:dark] ${!payPeriodTo ? 'provider-pay-date-empty' : ''}`}
               style={{ color: headerStyle.textColor }}
             />
@@ -659,6 +770,125 @@ export default function ProviderPayTab({
         </div>
       </div>
 
+      {!isViewingBackup && canEdit && (
+        <div className="mt-3 flex items-center gap-3">
+          {hasSheetLines && (
+            <>
+              <button
+                onClick={handlePullFromSheet}
+                disabled={pullingSheet}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-600 bg-slate-800 text-slate-100 text-sm hover:bg-slate-700 disabled:opacity-50"
+              >
+                <Download size={16} />
+                {pullingSheet ? 'Pulling...' : 'Pull from sheet'}
+              </button>
+              {sheetPulledAt && <span className="text-xs text-slate-400">Last pulled {formatDateTime(sheetPulledAt)}</span>}
+            </>
+          )}
+          <button
+            onClick={handleRecompute}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-600 bg-slate-800 text-slate-100 text-sm hover:bg-slate-700"
+            title="Recalculate totals and the provider cut from the entered amounts and the compensation model"
+          >
+            <RefreshCw size={16} />
+            Recompute
+          </button>
+          <button
+            onClick={handleBatchStatements}
+            disabled={generatingStatements}
+            className="ml-auto flex items-center gap-2 px-3 py-1.5 rounded-lg border border-slate-600 bg-slate-800 text-slate-100 text-sm hover:bg-slate-700 disabled:opacity-50"
+            title="One PDF with a pay statement for every provider saved for this month"
+          >
+            <FileText size={16} />
+            {generatingStatements ? 'Generating...' : 'Pay statements'}
+          </button>
+        </div>
+      )}
+
+      {sheetPull && (
+        <div className="mt-3 rounded-lg border border-slate-600 bg-slate-900/80 p-3 text-slate-100">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold">Provider sheet vs saved</span>
+            <button onClick={() => setSheetPull(null)} className="text-slate-400 hover:text-slate-200" title="Close">
+              <X size={18} />
+            </button>
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-400">
+                <th className="py-1 font-medium">Line</th>
+                <th className="py-1 font-medium text-right">Saved</th>
+                <th className="py-1 font-medium text-right">From sheet</th>
+                <th className="py-1 font-medium text-right">Change</th>
+                <th className="py-1 font-medium text-right">Rows</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sheetPull.diffs.map((diff) => (
+                <Fragment key={diff.line.line_key}>
+                  <tr className="border-t border-slate-700">
+                    <td className="py-1">
+                      {diff.line.label}
+                      {diff.line.sheet_source && <span className="ml-1 text-xs text-slate-400">({PAY_SHEET_SOURCE_LABELS[diff.line.sheet_source]})</span>}
+                    </td>
+                    <td className="py-1 text-right">{formatCurrency(diff.saved)}</td>
+                    <td className="py-1 text-right">{formatCurrency(diff.pulled)}</td>
+                    <td className={`py-1 text-right ${diff.difference > 0 ? 'text-green-400' : diff.difference < 0 ? 'text-red-400' : 'text-slate-400'}`}>
+                      {diff.difference === 0 ? '—' : `${diff.difference > 0 ? '+' : ''}${formatCurrency(diff.difference)}`}
+                    </td>
+                    <td className="py-1 text-right">
+                      {diff.total && (
+                        <button
+                          onClick={() => setExpandedPullLine((k) => (k === diff.line.line_key ? null : diff.line.line_key))}
+                          className="text-blue-400 hover:text-blue-300 underline"
+                        >
+                          {diff.total.items.length} row{diff.total.items.length === 1 ? '' : 's'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {diff.total && expandedPullLine === diff.line.line_key && (
+                    <tr>
+                      <td colSpan={5} className="pb-2">
+                        {diff.total.items.length === 0 ? (
+                          <p className="text-xs text-slate-400 pl-3">No rows on the sheet for this month.</p>
+                        ) : (
+                          <table className="w-full text-xs text-slate-300">
+                            <tbody>
+                              {diff.total.items.map((item) => (
+                                <tr key={`${item.source}-${item.id}`}>
+                                  <td className="pl-3">{[item.patientId, item.patientName].filter(Boolean).join(' – ') || '—'}</td>
+                                  <td>{item.dateOfService ? toDisplayDate(item.dateOfService) : ''}</td>
+                                  <td>{item.detail}</td>
+                                  <td className="text-right">{formatCurrency(item.amount)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+          {sheetPull.totals.unattributedArCount > 0 && (
+            <p className="mt-2 text-xs text-yellow-300">
+              {sheetPull.totals.unattributedArCount} AR entr{sheetPull.totals.unattributedArCount === 1 ? 'y' : 'ies'} this month could not be tied to a single provider by ID # and {sheetPull.totals.unattributedArCount === 1 ? 'is' : 'are'} not included.
+            </p>
+          )}
+          <div className="mt-3 flex justify-end gap-2">
+            <button onClick={() => setSheetPull(null)} className="px-3 py-1.5 rounded-lg text-sm text-slate-300 hover:bg-slate-800">
+              Cancel
+            </button>
+            <button onClick={handleApplySheetPull} className="px-3 py-1.5 rounded-lg text-sm bg-blue-600 text-white hover:bg-blue-700">
+              Apply to pay table
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="mt-4 flex gap-4">
         <div
           ref={containerRef}
@@ -695,6 +925,38 @@ export default function ProviderPayTab({
 
       </div>
 
+      {cutBreakdown && (
+        <div className="mt-3 rounded-lg border border-slate-600 bg-slate-900/80 p-3 text-sm text-slate-100">
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-semibold">{cutBreakdown.line.label}</span>
+            <span className="text-xs text-slate-400">
+              {cutBreakdown.model
+                ? `${COMPENSATION_MODEL_TYPE_LABELS[cutBreakdown.model.model_type]} · effective ${formatEffectiveRange(cutBreakdown.model)}`
+                : 'Provider cut % (no compensation model)'}
+            </span>
+          </div>
+          <table className="w-full">
+            <tbody>
+              {cutBreakdown.lines.map((l, i) => (
+                <tr key={i} className="text-slate-300">
+                  <td className="py-0.5">{l.label}</td>
+                  <td className="py-0.5 text-right">{formatCurrency(l.amount)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-700 font-semibold">
+                <td className="py-1">Total</td>
+                <td className="py-1 text-right">{formatCurrency(cutBreakdown.amount)}</td>
+              </tr>
+            </tbody>
+          </table>
+          {cutBreakdown.saved !== roundMoney(cutBreakdown.amount) && (
+            <p className="mt-2 text-xs text-yellow-300">
+              The table has {formatCurrency(cutBreakdown.saved)} for {cutBreakdown.line.label}; use Recompute to apply the model.
+            </p>
+          )}
+        </div>
+      )}
+
       <style>{`
         .provider-pay-table .provider-pay-table-header-row {
           background: var(--provider-pay-header-bg, rgba(30, 41, 59, 0.95)) !important;
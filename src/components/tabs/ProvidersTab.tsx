@@ -1,6 +1,11 @@
-import { Provider, SheetRow, BillingCode, StatusColor, Patient, IsLockProviders } from '@/types'
-import { ChevronLeft, ChevronRight, X } from 'lucide-react'
+import { Provider, SheetRow, BillingCode, StatusColor, Patient, IsLockProviders, Payer, FeeSchedule, Clinic } from '@/types'
+import { ChevronLeft, ChevronRight, X, FileText, Printer, ShieldCheck, Layers, Receipt } from 'lucide-react'
 import HandsontableWrapper from '@/components/HandsontableWrapper'
+import ClaimBatchModal from '@/components/ClaimBatchModal'
+import Cms1500Modal from '@/components/Cms1500Modal'
+import SecondaryClaimModal from '@/components/SecondaryClaimModal'
+import ClaimScrubberRulesModal from '@/components/ClaimScrubberRulesModal'
+import AdjustmentLedgerModal from '@/components/AdjustmentLedgerModal'
 import Handsontable from 'handsontable'
 import { createBubbleDropdownRenderer, createMultiBubbleDropdownRenderer, MultiSelectCptEditor, DateOfServiceEditor, currencyCellRenderer, copayTextCellRenderer, coinsuranceTextCellRenderer } from '@/lib/handsontableCustomRenderers'
 import { useCallback, useMemo, useEffect, useLayoutEffect, useRef, useState } from 'react'
@@ -9,6 +14,12 @@ import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { toDisplayValue, toDisplayDate, parseDateOfServiceInput, toStoredString } from '@/lib/utils'
 import { computeBillingMetrics } from '@/lib/billingMetrics'
+import { markRowsClaimSent } from '@/lib/claim837p'
+import { PROVIDER_LOCK_KEY_BY_FIELD } from '@/lib/providerSheetLocks'
+import { fetchPayers } from '@/lib/payers'
+import { fetchFeeSchedules, createFeeScheduleLookup, computeRowReimbursement, type RowReimbursement } from '@/lib/feeSchedules'
+import { fetchRowAdjustments, rowBalanceAfterAdjustments, summarizePostedAdjustments, totalAdjustments, type RowAdjustmentTotals } from '@/lib/adjustments'
+import { defaultScrubSettings, fetchScrubSettings, isScrubbableRow, scrubRows, type ScrubIssue, type ScrubSettings } from '@/lib/claimScrubber'
 
 /** Only defer patient_id to DB validation for paste / fill / multi-cell — not per-keystroke cell edits. */
 function shouldBatchDeferPatientId(source: string, nonNullChangeCount: number): boolean {
@@ -259,6 +270,14 @@ export default function ProvidersTab({
   const commentTextareaRef = useRef<HTMLTextAreaElement>(null)
   const commentModalContainerRef = useRef<HTMLDivElement>(null)
   const hotInstanceRef = useRef<Handsontable | null>(null)
+  /** Last grid selection ranges ([r1, c1, r2, c2][]); kept after the grid deselects on outside click so toolbar actions can use it. */
+  const lastGridSelectionRef = useRef<number[][]>([])
+  /** Rows passed to the Create 837P batch dialog; null when closed. */
+  const [claimBatchRows, setClaimBatchRows] = useState<SheetRow[] | null>(null)
+  const [cms1500Rows, setCms1500Rows] = useState<SheetRow[] | null>(null)
+  /** Rows passed to the secondary / tertiary claim dialog; null when closed. */
+  const [secondaryClaimRows, setSecondaryClaimRows] = useState<SheetRow[] | null>(null)
+  const [adjustmentRows, setAdjustmentRows] = useState<SheetRow[] | null>(null)
 
   const showCondenseButton = !officeStaffView && !isProviderView
 
@@ -709,6 +728,119 @@ export default function ProvidersTab({
     return computeBillingMetrics(activeProviderRows)
   }, [activeProviderRows, isProviderView])
 
+  // Expected reimbursement per row from payer fee schedules (admin/billing views only)
+  const showReimbursement = !isProviderView && !officeStaffView
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [feeSchedules, setFeeSchedules] = useState<FeeSchedule[]>([])
+  useEffect(() => {
+    if (!showReimbursement) return
+    let cancelled = false
+    Promise.all([fetchPayers(supabase), fetchFeeSchedules(supabase)])
+      .then(([payerList, schedules]) => {
+        if (cancelled) return
+        setPayers(payerList)
+        setFeeSchedules(schedules)
+      })
+      .catch((err) => console.error('[ProvidersTab] fee schedules', err))
+    return () => { cancelled = true }
+  }, [showReimbursement])
+
+  const reimbursementByRowId = useMemo(() => {
+    const map = new Map<string, RowReimbursement>()
+    if (!showReimbursement || feeSchedules.length === 0) return map
+    const lookup = createFeeScheduleLookup(feeSchedules, payers, billingCodes)
+    activeProviderRows.forEach((row) => map.set(row.id, computeRowReimbursement(row, lookup)))
+    return map
+  }, [showReimbursement, feeSchedules, payers, billingCodes, activeProviderRows])
+
+  // Posted write-offs / adjustments per saved row; a row written down to zero is no longer underpaid
+  const [adjustmentTotalsByRowId, setAdjustmentTotalsByRowId] = useState<Map<string, RowAdjustmentTotals>>(new Map())
+  const [adjustmentsVersion, setAdjustmentsVersion] = useState(0)
+  const savedRowIdsKey = useMemo(
+    () => activeProviderRows.filter((r) => !r.id.startsWith('empty-')).map((r) => r.id).join(','),
+    [activeProviderRows]
+  )
+  useEffect(() => {
+    if (!showReimbursement || !savedRowIdsKey) {
+      setAdjustmentTotalsByRowId(new Map())
+      return
+    }
+    let cancelled = false
+    fetchRowAdjustments(supabase, savedRowIdsKey.split(','))
+      .then((entries) => {
+        if (!cancelled) setAdjustmentTotalsByRowId(summarizePostedAdjustments(entries))
+      })
+      .catch((err) => console.error('[ProvidersTab] adjustments', err))
+    return () => { cancelled = true }
+  }, [showReimbursement, savedRowIdsKey, adjustmentsVersion])
+
+  const isRowUnderpaid = useCallback(
+    (rowId: string) => {
+      const r = reimbursementByRowId.get(rowId)
+      if (!r?.underpaid) return false
+      return (rowBalanceAfterAdjustments(r.expected, r.actual, adjustmentTotalsByRowId.get(rowId)) ?? 0) > 0
+    },
+    [reimbursementByRowId, adjustmentTotalsByRowId]
+  )
+
+  const reimbursementSummary = useMemo(() => {
+    let expected = 0
+    let actual = 0
+    let adjusted = 0
+    let underpaid = 0
+    let priced = 0
+    reimbursementByRowId.forEach((r, rowId) => {
+      if (r.expected == null) return
+      priced++
+      expected += r.expected
+      actual += r.actual
+      adjusted += totalAdjustments(adjustmentTotalsByRowId.get(rowId))
+      if (isRowUnderpaid(rowId)) underpaid++
+    })
+    return { expected, actual, adjusted, variance: actual + adjusted - expected, underpaid, priced }
+  }, [reimbursementByRowId, adjustmentTotalsByRowId, isRowUnderpaid])
+
+  // Claim scrubber: per-row markers on unsent claims in admin/billing views; the Claim Sent gate applies in every view
+  const [scrubClinic, setScrubClinic] = useState<Clinic | null>(null)
+  const [scrubSettings, setScrubSettings] = useState<ScrubSettings>(defaultScrubSettings)
+  const [showScrubRulesModal, setShowScrubRulesModal] = useState(false)
+  const canEditScrubRules = userProfile?.role === 'super_admin' || userProfile?.role === 'admin'
+  useEffect(() => {
+    if (!clinicId) return
+    let cancelled = false
+    Promise.all([
+      supabase.from('clinics').select('*').eq('id', clinicId).single(),
+      fetchScrubSettings(supabase, clinicId),
+    ])
+      .then(([clinicResult, settings]) => {
+        if (cancelled) return
+        if (clinicResult.error) throw clinicResult.error
+        setScrubClinic(clinicResult.data as Clinic)
+        setScrubSettings(settings)
+      })
+      .catch((err) => console.error('[ProvidersTab] claim scrubber', err))
+    return () => { cancelled = true }
+  }, [clinicId])
+
+  const scrubIssuesByRowId = useMemo(() => {
+    if (!showReimbursement || !activeProvider) return new Map<string, ScrubIssue[]>()
+    return scrubRows(activeProviderRows.filter(isScrubbableRow), { patients, provider: activeProvider, clinic: scrubClinic }, scrubSettings)
+  }, [showReimbursement, activeProvider, activeProviderRows, patients, scrubClinic, scrubSettings])
+
+  /** Read by beforeChangeCorrect so the grid hook keeps a stable identity. */
+  const scrubGateRef = useRef({ enabled: false, rows: activeProviderRows, patients, clinic: scrubClinic, settings: scrubSettings })
+  scrubGateRef.current = { enabled: !isViewingBackup, rows: activeProviderRows, patients, clinic: scrubClinic, settings: scrubSettings }
+
+  const scrubSummary = useMemo(() => {
+    let errorRows = 0
+    let warningRows = 0
+    scrubIssuesByRowId.forEach((issues) => {
+      if (issues.some((i) => i.severity === 'error')) errorRows++
+      else warningRows++
+    })
+    return { errorRows, warningRows }
+  }, [scrubIssuesByRowId])
+
   const formatCurrency = (n: number) =>
     new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(n)
 
@@ -949,7 +1081,11 @@ export default function ProvidersTab({
       const key = `${sheetRow?.id ?? `row-${row}`}:${colKey}`
       const isResolved = resolvedCells.has(key)
       const isHighlighted = highlightedCells.has(key)
+      const field = providerSheetColumnFieldsForSync[col]
+      const scrubIssues = sheetRow ? scrubIssuesByRowId.get(sheetRow.id)?.filter((i) => i.field === field) : undefined
       const classes = [
+        colKey === 'ins_pay' && sheetRow && isRowUnderpaid(sheetRow.id) ? 'cell-underpaid' : '',
+        scrubIssues?.length ? (scrubIssues.some((i) => i.severity === 'error') ? 'cell-scrub-error' : 'cell-scrub-warning') : '',
         isHighlighted && !highlightColorByKey.get(key) ? 'cell-highlight-yellow' : '',
         commentsMap.has(key) && !isResolved ? 'cell-has-comment' : '',
         isResolved ? 'cell-comment-resolved' : '',
@@ -963,7 +1099,7 @@ export default function ProvidersTab({
       }
       return {}
     },
-    [activeProviderRows, columnFields, highlightedCells, highlightColorByKey, commentsMap, resolvedCells, userHighlightColor]
+    [activeProviderRows, columnFields, highlightedCells, highlightColorByKey, commentsMap, resolvedCells, userHighlightColor, isRowUnderpaid, providerSheetColumnFieldsForSync, scrubIssuesByRowId]
   )
 
   // Tooltip for cells with comments (e.g. on provider side when hovering)
@@ -973,9 +1109,27 @@ export default function ProvidersTab({
       const colKey = columnFields[col]
       if (!colKey) return undefined
       const key = `${sheetRow?.id ?? `row-${row}`}:${colKey}`
-      return commentsMap.get(key) ?? undefined
+      const comment = commentsMap.get(key)
+      if (comment) return comment
+      const field = providerSheetColumnFieldsForSync[col]
+      const scrubIssues = sheetRow ? scrubIssuesByRowId.get(sheetRow.id)?.filter((i) => i.field === field) : undefined
+      if (scrubIssues?.length) {
+        return scrubIssues.map((i) => `${i.severity === 'error' ? 'Error' : 'Warning'}: ${i.message}`).join('\n')
+      }
+      const reimbursement = colKey === 'ins_pay' && sheetRow ? reimbursementByRowId.get(sheetRow.id) : undefined
+      if (reimbursement?.expected != null) {
+        const adjustments = adjustmentTotalsByRowId.get(sheetRow!.id)
+        const summary = `Expected ${formatCurrency(reimbursement.expected)} · Collected ${formatCurrency(reimbursement.actual)} · Variance ${formatCurrency(reimbursement.variance ?? 0)}`
+        return adjustments
+          ? `${summary} · Adjusted ${formatCurrency(totalAdjustments(adjustments))} · Balance ${formatCurrency(rowBalanceAfterAdjustments(reimbursement.expected, reimbursement.actual, adjustments) ?? 0)}`
+          : summary
+      }
+      if (reimbursement && reimbursement.missingCodes.length > 0) {
+        return `No fee schedule for ${reimbursement.missingCodes.join(', ')}`
+      }
+      return undefined
     },
-    [activeProviderRows, columnFields, commentsMap]
+    [activeProviderRows, columnFields, commentsMap, reimbursementByRowId, adjustmentTotalsByRowId, providerSheetColumnFieldsForSync, scrubIssuesByRowId]
   )
 
   const handleCellRemoveComment = useCallback(
@@ -1431,6 +1585,38 @@ export default function ProvidersTab({
       if (!changes?.length) return
 
       const src = String(source)
+      const scrubGate = scrubGateRef.current
+      const ap = activeProviderRef.current
+      if (scrubGate.enabled && ap && hotInstance && src !== 'loadData' && src !== 'updateData') {
+        const claimStatusCol = providerSheetColumnFieldsForSync.indexOf('claim_status')
+        const ref = latestProviderRowsRef.current
+        const rowsSource = ref?.providerId === ap.id ? ref.rows : scrubGate.rows
+        const blocked: string[] = []
+        const warned: Array<{ change: Handsontable.CellChange; label: string; messages: string[] }> = []
+        for (const ch of changes) {
+          if (!ch || ch[1] !== claimStatusCol || ch[3] !== 'Claim Sent' || ch[2] === 'Claim Sent') continue
+          const row = rowsSource[hotInstance.toPhysicalRow(ch[0])]
+          if (!row) continue
+          const issues = scrubRows([row], { patients: scrubGate.patients, provider: ap, clinic: scrubGate.clinic }, scrubGate.settings).get(row.id) ?? []
+          const label = row.patient_id ? `Patient ${row.patient_id}` : `Row ${ch[0] + 1}`
+          const errors = issues.filter((i) => i.severity === 'error')
+          if (errors.length > 0) {
+            ;(ch as unknown[])[3] = ch[2]
+            blocked.push(`${label}: ${errors.map((i) => i.message).join(' ')}`)
+          } else if (issues.length > 0) {
+            warned.push({ change: ch, label, messages: issues.map((i) => i.message) })
+          }
+        }
+        if (warned.length > 0) {
+          const proceed = confirm(
+            `Claim scrubber warnings:\n\n${warned.map((w) => `${w.label}: ${w.messages.join(' ')}`).join('\n')}\n\nMark as Claim Sent anyway?`
+          )
+          if (!proceed) warned.forEach((w) => { ;(w.change as unknown[])[3] = w.change[2] })
+        }
+        if (blocked.length > 0) {
+          setTimeout(() => alert(`Cannot mark as Claim Sent until these are fixed:\n\n${blocked.join('\n')}`), 0)
+        }
+      }
       const deferPatientIds =
         src !== 'loadData' &&
         src !== 'updateData' &&
@@ -1519,7 +1705,7 @@ export default function ProvidersTab({
     badChanges.forEach((change) => {
       ;(change as unknown[])[3] = valueToApply
     })
-  }, [showVisitTypeColumn, isViewingBackup])
+  }, [showVisitTypeColumn, isViewingBackup, providerSheetColumnFieldsForSync])
 
   const handleProviderRowsHandsontableChange = useCallback((changes: Handsontable.CellChange[] | null, source: Handsontable.ChangeSource) => {
     if (!changes || source === 'loadData' || !activeProvider) return
@@ -2155,6 +2341,137 @@ export default function ProvidersTab({
     onSaveProviderSheetRowsDirect,
   ])
 
+  const handleProviderGridSelection = useCallback(() => {
+    const hot = hotInstanceRef.current as (Handsontable & { isDestroyed?: boolean }) | null
+    if (!hot || hot.isDestroyed) return
+    lastGridSelectionRef.current = (hot.getSelected() ?? []).map((range) => [...range])
+  }, [])
+
+  /** Rows covered by the last grid selection that carry enough data to bill, in display order. */
+  const getSelectedBillableRows = useCallback((): SheetRow[] => {
+    const hot = hotInstanceRef.current as (Handsontable & { isDestroyed?: boolean }) | null
+    if (!hot || hot.isDestroyed || !activeProvider) return []
+    const ref = latestProviderRowsRef.current
+    const rowsSource = ref?.providerId === activeProvider.id ? ref.rows : activeProviderRows
+    const physicalRows = new Set<number>()
+    lastGridSelectionRef.current.forEach(([r1, , r2]) => {
+      for (let r = Math.max(0, Math.min(r1, r2)); r <= Math.max(r1, r2); r++) {
+        physicalRows.add(hot.toPhysicalRow(r))
+      }
+    })
+    return Array.from(physicalRows)
+      .sort((a, b) => a - b)
+      .map((i) => rowsSource[i])
+      .filter((r): r is SheetRow => !!r && !!(r.patient_id || r.appointment_date || r.cpt_code))
+  }, [activeProvider, activeProviderRows])
+
+  const handleOpenClaimBatch = useCallback(() => {
+    if (!activeProvider) return
+    if (isProviderColumnLocked?.('claim_status') || isProviderColumnLocked?.('most_recent_submit_date')) {
+      alert('Claim Status or Most Recent Submit Date is locked for this month. Unlock them to create a claim batch.')
+      return
+    }
+    const picked = getSelectedBillableRows()
+    if (picked.length === 0) {
+      alert('Select the rows to bill in the grid first.')
+      return
+    }
+    const issuesByRowId = scrubRows(picked, { patients, provider: activeProvider, clinic: scrubClinic }, scrubSettings)
+    const describe = (row: SheetRow, severity: ScrubIssue['severity']) =>
+      `${row.patient_id || 'Row'}: ${(issuesByRowId.get(row.id) ?? []).filter((i) => i.severity === severity).map((i) => i.message).join(' ')}`
+    const errorRows = picked.filter((r) => issuesByRowId.get(r.id)?.some((i) => i.severity === 'error'))
+    if (errorRows.length > 0) {
+      alert(`Cannot create a claim batch until these are fixed:\n\n${errorRows.map((r) => describe(r, 'error')).join('\n')}`)
+      return
+    }
+    const warningRows = picked.filter((r) => issuesByRowId.has(r.id))
+    if (warningRows.length > 0 && !confirm(`Claim scrubber warnings:\n\n${warningRows.map((r) => describe(r, 'warning')).join('\n')}\n\nContinue anyway?`)) {
+      return
+    }
+    setClaimBatchRows(picked)
+  }, [activeProvider, getSelectedBillableRows, isProviderColumnLocked, patients, scrubClinic, scrubSettings])
+
+  const handleOpenCms1500 = useCallback(() => {
+    if (!activeProvider) return
+    const picked = getSelectedBillableRows()
+    if (picked.length === 0) {
+      alert('Select the rows to print in the grid first.')
+      return
+    }
+    setCms1500Rows(picked)
+  }, [activeProvider, getSelectedBillableRows])
+
+  const handleOpenSecondaryClaim = useCallback(() => {
+    if (!activeProvider) return
+    const picked = getSelectedBillableRows()
+    if (picked.length === 0) {
+      alert('Select the rows to bill to the secondary payer in the grid first.')
+      return
+    }
+    setSecondaryClaimRows(picked)
+  }, [activeProvider, getSelectedBillableRows])
+
+  const handleOpenAdjustments = useCallback(() => {
+    const picked = getSelectedBillableRows()
+    const unsaved = picked.filter((r) => r.id.startsWith('empty-'))
+    if (unsaved.length > 0) {
+      alert('Some selected rows have not been saved yet. Wait for the sheet to save, then open Adjustments again.')
+      return
+    }
+    setAdjustmentRows(picked)
+  }, [getSelectedBillableRows])
+
+  /** Columns the secondary claim dialog may not roll balances into (locked for the month). */
+  const cobLockedFields = useMemo(() => {
+    const fields: Array<keyof SheetRow> = ['insurance_payment', 'insurance_adjustment', 'payment_date', 'patient_pay_status']
+    return new Set(fields.filter((f) => Boolean(isProviderColumnLocked?.(PROVIDER_LOCK_KEY_BY_FIELD[f]!))))
+  }, [isProviderColumnLocked])
+
+  /** Replace rows whose balances were rolled across payers, refresh the grid and persist immediately. */
+  const handleCobRowsUpdated = useCallback(
+    async (updatedRows: SheetRow[]) => {
+      if (!activeProvider || updatedRows.length === 0) return
+      if (saveProviderSheetTimeoutRef.current) {
+        clearTimeout(saveProviderSheetTimeoutRef.current)
+        saveProviderSheetTimeoutRef.current = null
+      }
+      const ref = latestProviderRowsRef.current
+      const base = ref?.providerId === activeProvider.id ? ref.rows : activeProviderRows
+      const byId = new Map(updatedRows.map((r) => [r.id, r]))
+      const updated = base.map((row) => byId.get(row.id) ?? row)
+      pendingProviderSheetSaveRef.current = null
+      latestProviderRowsRef.current = null
+      latestTableDataRef.current = null
+      onReplaceProviderSheetRows?.(activeProvider.id, updated)
+      setStructureVersion((v) => v + 1)
+      logProvidersTab('COB balances rolled', { providerId: activeProvider.id, rows: updatedRows.length })
+      await onSaveProviderSheetRowsDirect(activeProvider.id, updated)
+    },
+    [activeProvider, activeProviderRows, onReplaceProviderSheetRows, onSaveProviderSheetRowsDirect]
+  )
+
+  /** Move billed rows to Claim Sent with submit_date, refresh the grid and persist immediately. */
+  const handleRowsClaimed = useCallback(
+    async (rowIds: string[], submitDate: string) => {
+      if (!activeProvider) return
+      if (saveProviderSheetTimeoutRef.current) {
+        clearTimeout(saveProviderSheetTimeoutRef.current)
+        saveProviderSheetTimeoutRef.current = null
+      }
+      const ref = latestProviderRowsRef.current
+      const base = ref?.providerId === activeProvider.id ? ref.rows : activeProviderRows
+      const updated = markRowsClaimSent(base, rowIds, submitDate)
+      pendingProviderSheetSaveRef.current = null
+      latestProviderRowsRef.current = null
+      latestTableDataRef.current = null
+      onReplaceProviderSheetRows?.(activeProvider.id, updated)
+      setStructureVersion((v) => v + 1)
+      logProvidersTab('claim batch rows marked Claim Sent', { providerId: activeProvider.id, rows: rowIds.length })
+      await onSaveProviderSheetRowsDirect(activeProvider.id, updated)
+    },
+    [activeProvider, activeProviderRows, onReplaceProviderSheetRows, onSaveProviderSheetRowsDirect]
+  )
+
   // Flush pending save when tab is left so data isn't lost on switch (prefer latest ref like PatientsTab flush).
   // On page refresh the browser aborts in-flight requests (AbortError) so we also backup to localStorage;
   // ClinicDetail restores and saves on next load.
@@ -2333,7 +2650,62 @@ export default function ProvidersTab({
       })()}
 
       {showCondenseButton && (
-        <div className="flex justify-end -mt-6">
+        <div className="flex justify-end items-center gap-2 -mt-6">
+          {canEdit && clinicId && activeProvider && !isViewingBackup && (
+            <button
+              type="button"
+              onClick={handleOpenClaimBatch}
+              className="h-6 px-2 flex items-center gap-1 rounded border border-white/30 bg-white/10 text-white hover:bg-white/20 text-xs"
+              title="Create an 837P claim file from the selected rows"
+            >
+              <FileText size={14} />
+              Create 837P batch
+            </button>
+          )}
+          {canEdit && clinicId && activeProvider && !isViewingBackup && (
+            <button
+              type="button"
+              onClick={handleOpenSecondaryClaim}
+              className="h-6 px-2 flex items-center gap-1 rounded border border-white/30 bg-white/10 text-white hover:bg-white/20 text-xs"
+              title="Bill the selected rows to the secondary / tertiary payer from the earlier payer's remittance"
+            >
+              <Layers size={14} />
+              Secondary claim
+            </button>
+          )}
+          {canEdit && showReimbursement && clinicId && activeProvider && !isViewingBackup && (
+            <button
+              type="button"
+              onClick={handleOpenAdjustments}
+              className="h-6 px-2 flex items-center gap-1 rounded border border-white/30 bg-white/10 text-white hover:bg-white/20 text-xs"
+              title="Write-offs and adjustments for the selected rows, and adjustments awaiting approval"
+            >
+              <Receipt size={14} />
+              Adjustments
+            </button>
+          )}
+          {canEditScrubRules && showReimbursement && clinicId && !isViewingBackup && (
+            <button
+              type="button"
+              onClick={() => setShowScrubRulesModal(true)}
+              className="h-6 px-2 flex items-center gap-1 rounded border border-white/30 bg-white/10 text-white hover:bg-white/20 text-xs"
+              title="Choose which claim scrubber checks block or warn before Claim Sent"
+            >
+              <ShieldCheck size={14} />
+              Scrubber rules
+            </button>
+          )}
+          {clinicId && activeProvider && (
+            <button
+              type="button"
+              onClick={handleOpenCms1500}
+              className="h-6 px-2 flex items-center gap-1 rounded border border-white/30 bg-white/10 text-white hover:bg-white/20 text-xs"
+              title="Print CMS-1500 claim forms for the selected rows"
+            >
+              <Printer size={14} />
+              CMS-1500
+            </button>
+          )}
           <button
             type="button"
             onClick={() => setIsCondensed(prev => !prev)}
@@ -2380,6 +2752,7 @@ export default function ProvidersTab({
             afterRemoveRow={handleProviderAfterRemoveRow}
             onAfterUndoRedoSync={syncProvidersFromHotAfterUndoRedo}
             contextMenuWithNativeRows
+            afterSelection={handleProviderGridSelection}
             onCellHighlight={handleCellHighlight}
             getCellIsHighlighted={getCellIsHighlighted}
             onCellSeeComment={clinicId && canEditComment ? handleCellSeeComment : undefined}
@@ -2440,11 +2813,83 @@ export default function ProvidersTab({
                   <span>CC Declines: <strong>{billingMetrics.ccDeclines}</strong></span>
                 </div>
               )}
+              {(scrubSummary.errorRows > 0 || scrubSummary.warningRows > 0) && (
+                <div className="flex items-center gap-4 flex-wrap text-sm border-t border-white/20 pt-2">
+                  <span className="font-medium text-red-500/90">Claim scrubber:</span>
+                  <span>Rows with errors: <strong className={scrubSummary.errorRows > 0 ? 'text-red-400' : undefined}>{scrubSummary.errorRows}</strong></span>
+                  <span>Rows with warnings: <strong className={scrubSummary.warningRows > 0 ? 'text-amber-400' : undefined}>{scrubSummary.warningRows}</strong></span>
+                  <span className="text-white/60">(unsent claims only; hover marked cells for details)</span>
+                </div>
+              )}
+              {reimbursementSummary.priced > 0 && (
+                <div className="flex items-center gap-4 flex-wrap text-sm border-t border-white/20 pt-2">
+                  <span className="font-medium text-red-500/90">Reimbursement:</span>
+                  <span>Expected: <strong>{formatCurrency(reimbursementSummary.expected)}</strong></span>
+                  <span>Collected: <strong>{formatCurrency(reimbursementSummary.actual)}</strong></span>
+                  {reimbursementSummary.adjusted !== 0 && <span>Adjusted: <strong>{formatCurrency(reimbursementSummary.adjusted)}</strong></span>}
+                  <span>Variance: <strong className={reimbursementSummary.variance < 0 ? 'text-red-400' : undefined}>{formatCurrency(reimbursementSummary.variance)}</strong></span>
+                  <span>Underpaid rows: <strong className={reimbursementSummary.underpaid > 0 ? 'text-red-400' : undefined}>{reimbursementSummary.underpaid}</strong></span>
+                  <span className="text-white/60">({reimbursementSummary.priced} priced row{reimbursementSummary.priced === 1 ? '' : 's'}; hover Ins Pay for details)</span>
+                </div>
+              )}
             </>
           )}
         </div>
       )}
 
+      {claimBatchRows && activeProvider && clinicId && (
+        <ClaimBatchModal
+          clinicId={clinicId}
+          provider={activeProvider}
+          rows={claimBatchRows}
+          patients={patients}
+          onClose={() => setClaimBatchRows(null)}
+          onRowsClaimed={handleRowsClaimed}
+        />
+      )}
+
+      {cms1500Rows && activeProvider && clinicId && (
+        <Cms1500Modal
+          clinicId={clinicId}
+          provider={activeProvider}
+          rows={cms1500Rows}
+          patients={patients}
+          onClose={() => setCms1500Rows(null)}
+        />
+      )}
+
+      {secondaryClaimRows && activeProvider && clinicId && (
+        <SecondaryClaimModal
+          clinicId={clinicId}
+          provider={activeProvider}
+          rows={secondaryClaimRows}
+          patients={patients}
+          lockedFields={cobLockedFields}
+          onClose={() => setSecondaryClaimRows(null)}
+          onRowsUpdated={handleCobRowsUpdated}
+        />
+      )}
+
+      {adjustmentRows && clinicId && (
+        <AdjustmentLedgerModal
+          clinicId={clinicId}
+          rows={adjustmentRows}
+          reimbursementByRowId={reimbursementByRowId}
+          onClose={() => setAdjustmentRows(null)}
+          onChanged={() => setAdjustmentsVersion((v) => v + 1)}
+        />
+      )}
+
+      {showScrubRulesModal && clinicId && (
+        <ClaimScrubberRulesModal
+          clinicId={clinicId}
+          settings={scrubSettings}
+          userId={userProfile?.id ?? null}
+          onClose={() => setShowScrubRulesModal(false)}
+          onSaved={setScrubSettings}
+        />
+      )}
+
       {commentModal != null && createPortal(
         <div
           ref={commentModalContainerRef}
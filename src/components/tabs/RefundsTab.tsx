@@ -0,0 +1,489 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Download, Loader, RefreshCw } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  REFUND_METHODS,
+  REFUND_METHOD_LABELS,
+  REFUND_STATUS_LABELS,
+  fetchOverpayments,
+  fetchRefunds,
+  issueRefund,
+  requestRefund,
+  reviewRefund,
+  type Overpayment,
+} from '@/lib/refunds'
+import { canPostAdjustment, fetchApprovalLimits, DEFAULT_APPROVAL_LIMITS, type ApprovalLimits } from '@/lib/adjustments'
+import { generateRefundRegisterReport } from '@/lib/reports'
+import { formatCurrency, formatDateTime, toDisplayDate, todayIso } from '@/lib/utils'
+import type { Clinic, PatientRefund, Provider, RefundMethod } from '@/types'
+
+interface RefundsTabProps {
+  clinicId: string
+  /** Can request, approve (within their approval limit) and issue refunds (billing staff, admin, super admin). */
+  canEdit: boolean
+}
+
+const inputClass = 'w-full px-3 py-2 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm'
+const labelClass = 'block text-xs font-medium text-white/80 mb-1'
+const buttonClass = 'text-primary-300 hover:text-primary-200 disabled:opacity-50'
+
+export default function RefundsTab({ clinicId, canEdit }: RefundsTabProps) {
+  const { userProfile } = useAuth()
+  const role = userProfile?.role
+  const [overpayments, setOverpayments] = useState<Overpayment[]>([])
+  const [refunds, setRefunds] = useState<PatientRefund[]>([])
+  const [limits, setLimits] = useState<ApprovalLimits>(DEFAULT_APPROVAL_LIMITS)
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [userNames, setUserNames] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [requesting, setRequesting] = useState<Overpayment | null>(null)
+  const [requestAmount, setRequestAmount] = useState('')
+  const [requestReason, setRequestReason] = useState('')
+  const [issuing, setIssuing] = useState<PatientRefund | null>(null)
+  const [issueMethod, setIssueMethod] = useState<RefundMethod>('check')
+  const [issueDate, setIssueDate] = useState(todayIso())
+  const [issueReference, setIssueReference] = useState('')
+  const [showClosed, setShowClosed] = useState(false)
+  const [registerMonth, setRegisterMonth] = useState(() => todayIso().slice(0, 7))
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const clinicRefunds = await fetchRefunds(supabase, clinicId)
+      const [clinicOverpayments, clinicLimits, clinicResult, { data: providersData }] = await Promise.all([
+        fetchOverpayments(supabase, clinicId, clinicRefunds),
+        fetchApprovalLimits(supabase, clinicId),
+        supabase.from('clinics').select('*').eq('id', clinicId).single(),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+      ])
+      if (clinicResult.error) throw clinicResult.error
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+      setRefunds(clinicRefunds)
+      setOverpayments(clinicOverpayments)
+      setLimits(clinicLimits)
+      setClinic(clinicResult.data as Clinic)
+      setProvidersById(providerMap)
+
+      const userIds = Array.from(new Set(clinicRefunds.flatMap((r) => [r.requested_by, r.reviewed_by, r.issued_by]).filter((id): id is string => !!id)))
+      if (userIds.length > 0) {
+        const { data } = await supabase.from('users').select('id, full_name, email').in('id', userIds)
+        setUserNames(Object.fromEntries(((data || []) as Array<{ id: string; full_name: string | null; email: string }>).map((u) => [u.id, u.full_name || u.email])))
+      }
+    } catch (err) {
+      console.error('[RefundsTab] load', err)
+      alert('Failed to load refunds. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const providerName = (id: string) => {
+    const p = providersById[id]
+    return p ? `${p.first_name} ${p.last_name}`.trim() : '—'
+  }
+
+  const workflowRefunds = useMemo(
+    () => (showClosed ? refunds : refunds.filter((r) => r.status === 'requested' || r.status === 'approved')),
+    [refunds, showClosed]
+  )
+
+  const registerRefunds = useMemo(
+    () => refunds
+      .filter((r) => r.status === 'issued' && r.issued_date?.startsWith(registerMonth))
+      .sort((a, b) => (a.issued_date ?? '').localeCompare(b.issued_date ?? '')),
+    [refunds, registerMonth]
+  )
+  const registerTotal = registerRefunds.reduce((sum, r) => sum + r.amount, 0)
+
+  const startRequest = (overpayment: Overpayment) => {
+    setRequesting(overpayment)
+    setRequestAmount(overpayment.credit.toFixed(2))
+    setRequestReason('')
+  }
+
+  const handleRequest = async () => {
+    if (!requesting) return
+    const amount = Math.round((parseFloat(requestAmount) || 0) * 100) / 100
+    if (amount <= 0 || amount > requesting.credit) {
+      alert(`Enter an amount between $0.01 and ${formatCurrency(requesting.credit)}.`)
+      return
+    }
+    if (!requestReason.trim()) {
+      alert('Enter a reason for the refund.')
+      return
+    }
+    setSaving(true)
+    try {
+      await requestRefund(supabase, {
+        clinic_id: clinicId,
+        provider_sheet_row_id: requesting.rowId,
+        patient_id: requesting.patientId,
+        amount,
+        reason: requestReason,
+      })
+      setRequesting(null)
+      await load()
+    } catch (err) {
+      console.error('[RefundsTab] request', err)
+      alert('Failed to request refund. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReview = async (refund: PatientRefund, status: 'approved' | 'denied' | 'voided') => {
+    const verb = status === 'approved' ? 'Approve' : status === 'denied' ? 'Deny' : 'Void'
+    const note = status === 'approved' ? '' : prompt(`${verb} this ${formatCurrency(refund.amount)} refund for ${refund.patient_id}? Note (optional):`, '')
+    if (note === null) return
+    setSaving(true)
+    try {
+      await reviewRefund(supabase, refund.id, status, note)
+      await load()
+    } catch (err) {
+      console.error('[RefundsTab] review', err)
+      alert(`Failed to ${verb.toLowerCase()} refund. Please try again.`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const startIssue = (refund: PatientRefund) => {
+    setIssuing(refund)
+    setIssueMethod('check')
+    setIssueDate(todayIso())
+    setIssueReference('')
+  }
+
+  const handleIssue = async () => {
+    if (!issuing || !issueDate) return
+    setSaving(true)
+    try {
+      await issueRefund(supabase, issuing.id, { refund_method: issueMethod, issued_date: issueDate, reference: issueReference })
+      setIssuing(null)
+      await load()
+    } catch (err) {
+      console.error('[RefundsTab] issue', err)
+      alert('Failed to record refund as issued. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDownloadRegister = async () => {
+    if (!clinic) return
+    const [year, month] = registerMonth.split('-').map(Number)
+    try {
+      const pdf = await generateRefundRegisterReport(registerRefunds, [clinic], {
+        startDate: new Date(year, month - 1, 1),
+        endDate: new Date(year, month, 0),
+        clinicId,
+      })
+      pdf.save(`refund_register_${registerMonth}.pdf`)
+    } catch (err) {
+      console.error('[RefundsTab] register', err)
+      alert('Failed to generate the refund register. Please try again.')
+    }
+  }
+
+  const actionButtons = (refund: PatientRefund) => {
+    if (!canEdit) return null
+    const covers = canPostAdjustment(refund.amount, role, limits)
+    return (
+      <div className="flex gap-3 whitespace-nowrap">
+        {refund.status === 'requested' && covers && (
+          <>
+            <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(refund, 'approved')}>Approve</button>
+            <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(refund, 'denied')}>Deny</button>
+          </>
+        )}
+        {refund.status === 'requested' && !covers && refund.requested_by === userProfile?.id && (
+          <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(refund, 'voided')}>Withdraw</button>
+        )}
+        {refund.status === 'approved' && (
+          <button type="button" disabled={saving} className={buttonClass} onClick={() => startIssue(refund)}>Issue</button>
+        )}
+        {(refund.status === 'approved' || refund.status === 'issued') && covers && (
+          <button type="button" disabled={saving} className={buttonClass} onClick={() => handleReview(refund, 'voided')}>Void</button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Patient Refunds</h2>
+          <p className="text-sm text-white/70">
+            Rows where insurance and patient payments (plus posted adjustments) exceed the expected amount, or PT Paid exceeds PT Res on unpriced rows.
+            Refunds are requested here, approved within each role's adjustment approval limit, then issued.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={load}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+        >
+          <RefreshCw size={18} />
+          Refresh
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading provider sheets...</p>
+      ) : (
+        <>
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <h3 className="text-white font-medium mb-3">Overpayments ({overpayments.length})</h3>
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>DOS</th>
+                    <th>Patient ID</th>
+                    <th>Patient</th>
+                    <th>Provider</th>
+                    <th>CPT</th>
+                    <th>PT Resp.</th>
+                    <th>Insurance Paid</th>
+                    <th>Patient Paid</th>
+                    <th>Adjustments</th>
+                    <th>Refunded</th>
+                    <th>Credit</th>
+                    {canEdit && <th></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {overpayments.length === 0 ? (
+                    <tr><td colSpan={canEdit ? 12 : 11} className="text-center text-white/60">No overpaid rows found.</td></tr>
+                  ) : overpayments.map((o) => (
+                    <tr key={o.rowId}>
+                      <td>{toDisplayDate(o.dateOfService)}</td>
+                      <td>{o.patientId}</td>
+                      <td>{o.patientName}</td>
+                      <td>{providerName(o.providerId)}</td>
+                      <td>{o.cptCode}</td>
+                      <td className="text-right" title={o.basis === 'pt_res' ? 'PT Res' : 'Fee schedule amount less insurance paid'}>
+                        {formatCurrency(o.patientResponsibility)}{o.basis === 'fee_schedule' && <span className="text-white/60"> (fee sched.)</span>}
+                      </td>
+                      <td className="text-right">{formatCurrency(o.insurancePaid)}</td>
+                      <td className="text-right">{formatCurrency(o.patientPaid)}</td>
+                      <td className="text-right">{formatCurrency(o.adjustments)}</td>
+                      <td className="text-right">{formatCurrency(o.refunded)}</td>
+                      <td className="text-right font-medium">{formatCurrency(o.credit)}</td>
+                      {canEdit && (
+                        <td>
+                          <button type="button" disabled={saving} className={buttonClass} onClick={() => startRequest(o)}>
+                            Request refund
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {requesting && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <div className="md:col-span-4 text-sm text-white/80">
+                  Refund for {requesting.patientId} {requesting.patientName && `(${requesting.patientName})`}, DOS {toDisplayDate(requesting.dateOfService)} — credit {formatCurrency(requesting.credit)}
+                </div>
+                <div>
+                  <label className={labelClass}>Amount</label>
+                  <input type="number" min={0} step="0.01" value={requestAmount} onChange={(e) => setRequestAmount(e.target.value)} className={inputClass} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className={labelClass}>Reason</label>
+                  <input
+                    type="text"
+                    value={requestReason}
+                    onChange={(e) => setRequestReason(e.target.value)}
+                    placeholder="e.g. Copay collected, then insurance paid in full"
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleRequest}
+                    disabled={saving}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm"
+                  >
+                    Request
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRequesting(null)}
+                    className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <div className="flex items-center justify-between gap-4 mb-3">
+              <h3 className="text-white font-medium">Refund requests</h3>
+              <label className="flex items-center gap-2 text-sm text-white/80">
+                <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+                Show issued, denied and voided
+              </label>
+            </div>
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme w-full text-sm">
+                <thead>
+                  <tr>
+                    <th>Requested</th>
+                    <th>Patient ID</th>
+                    <th>Amount</th>
+                    <th>Reason</th>
+                    <th>Status</th>
+                    <th>Payout</th>
+                    {canEdit && <th></th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {workflowRefunds.length === 0 ? (
+                    <tr><td colSpan={canEdit ? 7 : 6} className="text-center text-white/60">{showClosed ? 'No refunds yet.' : 'No open refund requests.'}</td></tr>
+                  ) : workflowRefunds.map((r) => (
+                    <tr key={r.id}>
+                      <td>
+                        {formatDateTime(r.created_at)}
+                        <div className="text-white/60">by {r.requested_by ? userNames[r.requested_by] ?? '—' : '—'}</div>
+                      </td>
+                      <td>{r.patient_id}</td>
+                      <td className="text-right">{formatCurrency(r.amount)}</td>
+                      <td>
+                        {r.reason}
+                        {r.review_note && <div className="text-white/60">Note: {r.review_note}</div>}
+                      </td>
+                      <td>
+                        {REFUND_STATUS_LABELS[r.status]}
+                        {r.reviewed_by && <div className="text-white/60">by {userNames[r.reviewed_by] ?? '—'}</div>}
+                      </td>
+                      <td>
+                        {r.issued_date
+                          ? `${toDisplayDate(r.issued_date)} · ${r.refund_method ? REFUND_METHOD_LABELS[r.refund_method] : ''}${r.reference ? ` #${r.reference}` : ''}`
+                          : '—'}
+                      </td>
+                      {canEdit && <td>{actionButtons(r)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {issuing && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                <div className="md:col-span-4 text-sm text-white/80">
+                  Issue {formatCurrency(issuing.amount)} refund to {issuing.patient_id}
+                </div>
+                <div>
+                  <label className={labelClass}>Method</label>
+                  <select value={issueMethod} onChange={(e) => setIssueMethod(e.target.value as RefundMethod)} className={inputClass}>
+                    {REFUND_METHODS.map((m) => (
+                      <option key={m.key} value={m.key} className="bg-slate-900">{m.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Issue date</label>
+                  <input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className={inputClass} />
+                </div>
+                <div>
+                  <label className={labelClass}>Check # / reference</label>
+                  <input type="text" value={issueReference} onChange={(e) => setIssueReference(e.target.value)} className={inputClass} />
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    onClick={handleIssue}
+                    disabled={saving || !issueDate}
+                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 text-sm"
+                  >
+                    Mark issued
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIssuing(null)}
+                    className="px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 text-sm"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+            <div className="flex items-center justify-between gap-4 mb-3 flex-wrap">
+              <h3 className="text-white font-medium">Refund register</h3>
+              <div className="flex items-center gap-3 text-sm text-white/90">
+                <input
+                  type="month"
+                  value={registerMonth}
+                  onChange={(e) => setRegisterMonth(e.target.value)}
+                  className="px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md text-sm"
+                />
+                <span>Issued: <strong>{formatCurrency(registerTotal)}</strong></span>
+                <button
+                  type="button"
+                  onClick={handleDownloadRegister}
+                  disabled={registerRefunds.length === 0}
+                  className="flex items-center gap-2 px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+                >
+                  <Download size={16} />
+                  PDF
+                </button>
+              </div>
+            </div>
+            {registerRefunds.length === 0 ? (
+              <p className="text-sm text-white/60">No refunds were issued this month.</p>
+            ) : (
+              <div className="table-container dark-theme">
+                <table className="table-spreadsheet dark-theme w-full text-sm">
+                  <thead>
+                    <tr>
+                      <th>Issued</th>
+                      <th>Patient ID</th>
+                      <th>Method</th>
+                      <th>Reference</th>
+                      <th>Reason</th>
+                      <th>Issued By</th>
+                      <th>Amount</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {registerRefunds.map((r) => (
+                      <tr key={r.id}>
+                        <td>{toDisplayDate(r.issued_date)}</td>
+                        <td>{r.patient_id}</td>
+                        <td>{r.refund_method ? REFUND_METHOD_LABELS[r.refund_method] : '—'}</td>
+                        <td>{r.reference || '—'}</td>
+                        <td>{r.reason}</td>
+                        <td>{r.issued_by ? userNames[r.issued_by] ?? '—' : '—'}</td>
+                        <td className="text-right">{formatCurrency(r.amount)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
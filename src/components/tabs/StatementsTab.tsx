@@ -0,0 +1,243 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { FileText, Loader, Printer, RefreshCw } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  DEFAULT_STATEMENT_MIN_BALANCE,
+  fetchPatientStatements,
+  fetchStatementRuns,
+  recordStatementRun,
+  type PatientStatement,
+} from '@/lib/patientStatements'
+import { generatePatientStatementsPdf } from '@/lib/patientStatementPdf'
+import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import { formatCurrency, formatDateTime, toDisplayDate } from '@/lib/utils'
+import type { Clinic, PatientStatementRun, Provider } from '@/types'
+
+interface StatementsTabProps {
+  clinicId: string
+  /** Can generate statements and record runs (billing staff, admin, super admin). */
+  canEdit: boolean
+}
+
+export default function StatementsTab({ clinicId, canEdit }: StatementsTabProps) {
+  const { userProfile } = useAuth()
+  const [statements, setStatements] = useState<PatientStatement[]>([])
+  const [runs, setRuns] = useState<PatientStatementRun[]>([])
+  const [clinic, setClinic] = useState<Clinic | null>(null)
+  const [addressLines, setAddressLines] = useState<string[]>([])
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [loading, setLoading] = useState(true)
+  const [generating, setGenerating] = useState(false)
+  const [minBalance, setMinBalance] = useState(String(DEFAULT_STATEMENT_MIN_BALANCE))
+  const [search, setSearch] = useState('')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [statementsResult, runsResult, clinicResult, addresses, { data: providersData }] = await Promise.all([
+        fetchPatientStatements(supabase, clinicId),
+        fetchStatementRuns(supabase, clinicId),
+        supabase.from('clinics').select('*').eq('id', clinicId).single(),
+        fetchClinicAddressesByClinicIds([clinicId]),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+      ])
+      if (clinicResult.error) throw clinicResult.error
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+      setStatements(statementsResult)
+      setRuns(runsResult)
+      setClinic(clinicResult.data as Clinic)
+      setAddressLines(addresses[clinicId] ?? [])
+      setProvidersById(providerMap)
+    } catch (err) {
+      console.error('[StatementsTab] load', err)
+      alert('Failed to load patient balances. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const threshold = parseFloat(minBalance) || 0
+
+  const visibleStatements = useMemo(() => {
+    const q = search.trim().toLowerCase()
+    if (!q) return statements
+    return statements.filter((s) => s.patientId.toLowerCase().includes(q) || s.patientName.toLowerCase().includes(q))
+  }, [statements, search])
+
+  const batchStatements = useMemo(() => statements.filter((s) => s.balanceDue >= threshold), [statements, threshold])
+
+  const generate = async (selected: PatientStatement[], batchMinBalance: number | null) => {
+    if (!clinic || selected.length === 0) return
+    setGenerating(true)
+    try {
+      const statementDate = new Date()
+      const pdf = generatePatientStatementsPdf(selected, { clinic, addressLines, providersById }, statementDate)
+      await recordStatementRun(supabase, clinicId, selected, batchMinBalance, userProfile?.id ?? null)
+      const fileName = selected.length === 1
+        ? `statement_${selected[0].patientId}_${statementDate.toISOString().split('T')[0]}.pdf`
+        : `statements_${statementDate.toISOString().split('T')[0]}.pdf`
+      pdf.save(fileName)
+      await load()
+    } catch (err) {
+      console.error('[StatementsTab] generate', err)
+      alert('Failed to generate statements. Please try again.')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleBatch = () => {
+    if (batchStatements.length === 0) return
+    const total = batchStatements.reduce((sum, s) => sum + s.balanceDue, 0)
+    if (!confirm(`Generate ${batchStatements.length} statement(s) totaling ${formatCurrency(total)}? The run will be recorded as each patient's last statement date.`)) return
+    generate(batchStatements, threshold)
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Patient Statements</h2>
+          <p className="text-sm text-white/70">
+            Open service lines from every provider sheet (PT Pay Status blank, Payment Plan, CC declined or Waiting on Claims) with a patient balance due.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+          >
+            <RefreshCw size={18} />
+            Refresh
+          </button>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={handleBatch}
+              disabled={generating || loading || batchStatements.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {generating ? <Loader className="animate-spin" size={18} /> : <Printer size={18} />}
+              Generate {batchStatements.length} statement(s)
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-4 flex-wrap text-sm text-white/90">
+        <label className="flex items-center gap-2">
+          Minimum balance
+          <input
+            type="number"
+            min={0}
+            step="0.01"
+            value={minBalance}
+            onChange={(e) => setMinBalance(e.target.value)}
+            className="w-28 px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md text-sm"
+          />
+        </label>
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search patient ID or name"
+          className="px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md placeholder-white/40 text-sm"
+        />
+        <span>Patients with a balance: <strong>{statements.length}</strong></span>
+        <span>Over minimum: <strong>{batchStatements.length}</strong></span>
+      </div>
+
+      {loading ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading provider sheets...</p>
+      ) : (
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme w-full text-sm">
+            <thead>
+              <tr>
+                <th>Patient ID</th>
+                <th>Patient</th>
+                <th>Lines</th>
+                <th>Charges</th>
+                <th>Insurance Paid</th>
+                <th>Patient Paid</th>
+                <th>Adjustments</th>
+                <th>Balance Due</th>
+                <th>Last Statement</th>
+                {canEdit && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleStatements.length === 0 ? (
+                <tr><td colSpan={canEdit ? 10 : 9} className="text-center text-white/60">No patient balances found.</td></tr>
+              ) : visibleStatements.map((s) => (
+                <tr key={s.patientId} className={s.balanceDue < threshold ? 'opacity-60' : undefined}>
+                  <td>{s.patientId}</td>
+                  <td>{s.patientName}</td>
+                  <td>{s.lines.length}</td>
+                  <td className="text-right">{formatCurrency(s.charges)}</td>
+                  <td className="text-right">{formatCurrency(s.insurancePaid)}</td>
+                  <td className="text-right">{formatCurrency(s.patientPaid)}</td>
+                  <td className="text-right">{formatCurrency(s.adjustments)}</td>
+                  <td className="text-right font-medium">{formatCurrency(s.balanceDue)}</td>
+                  <td>{s.lastStatementDate ? toDisplayDate(s.lastStatementDate) : 'Never'}</td>
+                  {canEdit && (
+                    <td>
+                      <button
+                        type="button"
+                        onClick={() => generate([s], null)}
+                        disabled={generating}
+                        className="flex items-center gap-1 text-primary-300 hover:text-primary-200 disabled:opacity-50"
+                        title="Generate this patient's statement"
+                      >
+                        <FileText size={16} />
+                        Statement
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white/10 backdrop-blur-md rounded-lg border border-white/20 p-4">
+        <h3 className="text-white font-medium mb-3">Statement runs</h3>
+        {runs.length === 0 ? (
+          <p className="text-sm text-white/60">No statements have been generated yet.</p>
+        ) : (
+          <div className="table-container dark-theme">
+            <table className="table-spreadsheet dark-theme w-full text-sm">
+              <thead>
+                <tr>
+                  <th>Generated</th>
+                  <th>Type</th>
+                  <th>Statements</th>
+                  <th>Total Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id}>
+                    <td>{formatDateTime(run.created_at)}</td>
+                    <td>{run.min_balance != null ? `Batch (balance ≥ ${formatCurrency(run.min_balance)})` : 'Single patient'}</td>
+                    <td>{run.statement_count}</td>
+                    <td className="text-right">{formatCurrency(run.total_due)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { AlertTriangle, ListTodo, Loader, RefreshCw } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { fetchTimelyFilingItems, syncTimelyFilingTodos, type TimelyFilingItem, type TimelyFilingStatus } from '@/lib/timelyFiling'
+import { toDisplayDate } from '@/lib/utils'
+import type { Provider } from '@/types'
+
+interface TimelyFilingTabProps {
+  clinicId: string
+  /** Can create Billing To-Do items (billing staff, admin, super admin). */
+  canEdit: boolean
+}
+
+type StatusFilter = 'at_risk' | TimelyFilingStatus | 'all'
+
+const STATUS_LABELS: Record<TimelyFilingStatus, string> = {
+  overdue: 'Overdue',
+  due_soon: 'Due soon',
+  ok: 'On track',
+}
+
+const STATUS_CLASSES: Record<TimelyFilingStatus, string> = {
+  overdue: 'bg-red-600 text-white',
+  due_soon: 'bg-amber-500 text-black',
+  ok: 'bg-white/20 text-white',
+}
+
+export default function TimelyFilingTab({ clinicId, canEdit }: TimelyFilingTabProps) {
+  const { userProfile } = useAuth()
+  const [items, setItems] = useState<TimelyFilingItem[]>([])
+  const [providersById, setProvidersById] = useState<Record<string, Provider>>({})
+  const [loading, setLoading] = useState(true)
+  const [syncing, setSyncing] = useState(false)
+  const [filter, setFilter] = useState<StatusFilter>('at_risk')
+  const [providerFilter, setProviderFilter] = useState('')
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    try {
+      const [result, { data: providersData }] = await Promise.all([
+        fetchTimelyFilingItems(supabase, clinicId),
+        supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+      ])
+      const providerMap: Record<string, Provider> = {}
+      ;((providersData || []) as Provider[]).forEach((p) => { providerMap[p.id] = p })
+      setItems(result)
+      setProvidersById(providerMap)
+      // Rows entering the danger window get a Billing To-Do item without anyone pressing a button.
+      if (canEdit && userProfile?.id) {
+        syncTimelyFilingTodos(supabase, clinicId, result, userProfile.id).catch((err) =>
+          console.error('[TimelyFilingTab] sync todos', err)
+        )
+      }
+    } catch (err) {
+      console.error('[TimelyFilingTab] load', err)
+      alert('Failed to load timely filing deadlines. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [clinicId, canEdit, userProfile?.id])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const counts = useMemo(() => {
+    const c = { overdue: 0, due_soon: 0, ok: 0 }
+    items.forEach((i) => { c[i.status]++ })
+    return c
+  }, [items])
+
+  const visibleItems = useMemo(
+    () =>
+      items.filter((i) => {
+        if (providerFilter && i.sheet.provider_id !== providerFilter) return false
+        if (filter === 'all') return true
+        if (filter === 'at_risk') return i.status !== 'ok'
+        return i.status === filter
+      }),
+    [items, filter, providerFilter]
+  )
+
+  const handleCreateTodos = async () => {
+    if (!userProfile?.id) return
+    setSyncing(true)
+    try {
+      const created = await syncTimelyFilingTodos(supabase, clinicId, items, userProfile.id)
+      alert(created > 0 ? `Created ${created} Billing To-Do item(s).` : 'Every overdue and due-soon visit already has a to-do item.')
+    } catch (err) {
+      console.error('[TimelyFilingTab] create todos', err)
+      alert('Failed to create to-do items. Please try again.')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const providerName = (providerId: string) => {
+    const p = providersById[providerId]
+    return p ? `${p.first_name} ${p.last_name}` : ''
+  }
+
+  const patientName = (item: TimelyFilingItem) =>
+    item.patient ? `${item.patient.first_name} ${item.patient.last_name}`.trim() : ''
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-lg font-semibold text-white">Timely Filing</h2>
+          <p className="text-sm text-white/70">
+            Unbilled visits and claims still at Claim Sent / IP, with the filing deadline from the payer's limit or the clinic default.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={load}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-white/10 hover:bg-white/20 text-white border border-white/20 disabled:opacity-50"
+          >
+            <RefreshCw size={18} />
+            Refresh
+          </button>
+          {canEdit && (
+            <button
+              type="button"
+              onClick={handleCreateTodos}
+              disabled={syncing || loading || counts.overdue + counts.due_soon === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {syncing ? <Loader className="animate-spin" size={18} /> : <ListTodo size={18} />}
+              Create to-do items
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-6 flex-wrap text-sm text-white/90">
+        <span className="flex items-center gap-2"><AlertTriangle size={16} className="text-red-400" />Overdue: <strong>{counts.overdue}</strong></span>
+        <span>Due soon: <strong>{counts.due_soon}</strong></span>
+        <span>On track: <strong>{counts.ok}</strong></span>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as StatusFilter)}
+          className="px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md text-sm"
+        >
+          <option value="at_risk" className="bg-slate-900">Overdue + due soon</option>
+          <option value="overdue" className="bg-slate-900">Overdue</option>
+          <option value="due_soon" className="bg-slate-900">Due soon</option>
+          <option value="ok" className="bg-slate-900">On track</option>
+          <option value="all" className="bg-slate-900">All open visits</option>
+        </select>
+        <select
+          value={providerFilter}
+          onChange={(e) => setProviderFilter(e.target.value)}
+          className="px-3 py-1 border border-white/20 bg-white/10 text-white rounded-md text-sm"
+        >
+          <option value="" className="bg-slate-900">All providers</option>
+          {Object.values(providersById).map((p) => (
+            <option key={p.id} value={p.id} className="bg-slate-900">{p.first_name} {p.last_name}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-white/80 flex items-center gap-2"><Loader className="animate-spin" size={18} />Loading provider sheets...</p>
+      ) : (
+        <div className="table-container dark-theme">
+          <table className="table-spreadsheet dark-theme w-full text-sm">
+            <thead>
+              <tr>
+                <th>Status</th>
+                <th>Provider</th>
+                <th>Patient ID</th>
+                <th>Patient</th>
+                <th>Date of Service</th>
+                <th>Insurance</th>
+                <th>Limit</th>
+                <th>Deadline</th>
+                <th>Days Left</th>
+                <th>Claim Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleItems.length === 0 ? (
+                <tr><td colSpan={10} className="text-center text-white/60">No visits match this filter.</td></tr>
+              ) : visibleItems.map((item) => (
+                <tr key={item.row.id}>
+                  <td>
+                    <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_CLASSES[item.status]}`}>{STATUS_LABELS[item.status]}</span>
+                  </td>
+                  <td>{providerName(item.sheet.provider_id)}</td>
+                  <td>{item.row.patient_id}</td>
+                  <td>{patientName(item)}</td>
+                  <td>{toDisplayDate(item.dateOfService)}</td>
+                  <td>{item.insurance}</td>
+                  <td title={item.payer ? `From payer ${item.payer.name}` : 'Clinic default'}>{item.filingDays} days</td>
+                  <td>{toDisplayDate(item.deadline)}</td>
+                  <td className={item.daysLeft < 0 ? 'text-red-300' : undefined}>{item.daysLeft}</td>
+                  <td>{item.row.claim_status || 'Not billed'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AdjustmentApprovalLimit, AdjustmentType, SheetRowAdjustment, UserRole } from '@/types'
+import { roundMoney } from '@/lib/utils'
+
+export const ADJUSTMENT_TYPES: Array<{ key: AdjustmentType; label: string; side: 'insurance' | 'patient' }> = [
+  { key: 'contractual', label: 'Contractual', side: 'insurance' },
+  { key: 'small_balance', label: 'Small balance', side: 'patient' },
+  { key: 'bad_debt', label: 'Bad debt', side: 'patient' },
+  { key: 'courtesy', label: 'Courtesy', side: 'patient' },
+  { key: 'refund', label: 'Refund', side: 'patient' },
+]
+
+export const ADJUSTMENT_TYPE_LABELS: Record<AdjustmentType, string> = Object.fromEntries(
+  ADJUSTMENT_TYPES.map((t) => [t.key, t.label])
+) as Record<AdjustmentType, string>
+
+/** Roles whose approval limit a clinic admin can change; super admins have no limit. */
+export const CONFIGURABLE_APPROVAL_ROLES: Array<AdjustmentApprovalLimit['role']> = ['office_staff', 'billing_staff', 'admin']
+
+/**
+ * Largest amount each role may post without approval when the clinic has not set one (null = no limit).
+ * Keep in sync with adjustment_approval_limit() in supabase/087_sheet_row_adjustments.sql.
+ */
+export const DEFAULT_APPROVAL_LIMITS: Record<AdjustmentApprovalLimit['role'], number | null> = {
+  office_staff: 0,
+  billing_staff: 25,
+  admin: null,
+}
+
+export type ApprovalLimits = Record<AdjustmentApprovalLimit['role'], number | null>
+
+/** Posted adjustments on one row: write-offs split by who the balance was owed by, and refunds kept apart. */
+export interface RowAdjustmentTotals {
+  /** Contractual write-downs of what the payer owes. */
+  insurance: number
+  /** Small balance, bad debt and courtesy write-offs of what the patient owes. */
+  patient: number
+  /** Money paid back to the patient; it cancels part of what was collected, so it raises the balance. */
+  refunds: number
+}
+
+/** Positive when the entry reduces the balance, negative for refunds. */
+export function adjustmentBalanceEffect(adjustment: Pick<SheetRowAdjustment, 'adjustment_type' | 'amount'>): number {
+  const amount = Number(adjustment.amount) || 0
+  return adjustment.adjustment_type === 'refund' ? -amount : amount
+}
+
+/** Net effect on the row balance: write-offs less refunds. */
+export function totalAdjustments(totals: RowAdjustmentTotals | undefined): number {
+  return totals ? roundMoney(totals.insurance + totals.patient - totals.refunds) : 0
+}
+
+/** Net effect on what the patient owes: patient write-offs less refunds (contractual write-offs excluded). */
+export function patientAdjustments(totals: RowAdjustmentTotals | undefined): number {
+  return totals ? roundMoney(totals.patient - totals.refunds) : 0
+}
+
+/** Posted entries summed per provider_sheet_rows id. */
+export function summarizePostedAdjustments(adjustments: SheetRowAdjustment[]): Map<string, RowAdjustmentTotals> {
+  const byRow = new Map<string, RowAdjustmentTotals>()
+  adjustments.forEach((a) => {
+    if (a.status !== 'posted') return
+    const totals = byRow.get(a.provider_sheet_row_id) ?? { insurance: 0, patient: 0, refunds: 0 }
+    const side = ADJUSTMENT_TYPES.find((t) => t.key === a.adjustment_type)?.side ?? 'patient'
+    const key = a.adjustment_type === 'refund' ? 'refunds' : side
+    totals[key] = roundMoney(totals[key] + (Number(a.amount) || 0))
+    byRow.set(a.provider_sheet_row_id, totals)
+  })
+  return byRow
+}
+
+/** Expected reimbursement less what was collected and what was written off; null when the row is not priced. */
+export function rowBalanceAfterAdjustments(expected: number | null, collected: number, totals: RowAdjustmentTotals | undefined): number | null {
+  if (expected == null) return null
+  return roundMoney(expected - collected - totalAdjustments(totals))
+}
+
+/** The role's posting limit in a clinic: null = no limit; roles that cannot adjust get 0. */
+export function approvalLimitFor(role: UserRole | null | undefined, limits: ApprovalLimits): number | null {
+  if (role === 'super_admin') return null
+  if (role === 'office_staff' || role === 'billing_staff' || role === 'admin') return limits[role]
+  return 0
+}
+
+export function canPostAdjustment(amount: number, role: UserRole | null | undefined, limits: ApprovalLimits): boolean {
+  if (role !== 'super_admin' && role !== 'admin' && role !== 'billing_staff' && role !== 'office_staff') return false
+  const limit = approvalLimitFor(role, limits)
+  return limit == null || amount <= limit
+}
+
+function toAdjustment(a: SheetRowAdjustment): SheetRowAdjustment {
+  return { ...a, amount: Number(a.amount) }
+}
+
+export async function fetchApprovalLimits(supabase: SupabaseClient, clinicId: string): Promise<ApprovalLimits> {
+  const { data, error } = await supabase.from('adjustment_approval_limits').select('*').eq('clinic_id', clinicId)
+  if (error) throw error
+  const limits: ApprovalLimits = { ...DEFAULT_APPROVAL_LIMITS }
+  ;((data || []) as AdjustmentApprovalLimit[]).forEach((l) => {
+    if (l.role in limits) limits[l.role] = l.max_amount == null ? null : Number(l.max_amount)
+  })
+  return limits
+}
+
+export async function saveApprovalLimits(
+  supabase: SupabaseClient,
+  clinicId: string,
+  limits: ApprovalLimits,
+  userId: string | null
+): Promise<void> {
+  const { error } = await supabase.from('adjustment_approval_limits').upsert(
+    CONFIGURABLE_APPROVAL_ROLES.map((role) => ({ clinic_id: clinicId, role, max_amount: limits[role], updated_by: userId })),
+    { onConflict: 'clinic_id,role' }
+  )
+  if (error) throw error
+}
+
+/** Every ledger entry on the rows, newest first. */
+export async function fetchRowAdjustments(supabase: SupabaseClient, rowIds: string[]): Promise<SheetRowAdjustment[]> {
+  if (rowIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('sheet_row_adjustments')
+    .select('*')
+    .in('provider_sheet_row_id', rowIds)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return ((data || []) as SheetRowAdjustment[]).map(toAdjustment)
+}
+
+export async function fetchPendingAdjustments(supabase: SupabaseClient, clinicId: string): Promise<SheetRowAdjustment[]> {
+  const { data, error } = await supabase
+    .from('sheet_row_adjustments')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+  if (error) throw error
+  return ((data || []) as SheetRowAdjustment[]).map(toAdjustment)
+}
+
+/** Posted adjustment totals per row for the clinics (used by balances, aging, statements and reports). */
+export async function fetchPostedAdjustmentTotals(supabase: SupabaseClient, clinicIds: string[]): Promise<Map<string, RowAdjustmentTotals>> {
+  if (clinicIds.length === 0) return new Map()
+  const { data, error } = await supabase
+    .from('sheet_row_adjustments')
+    .select('*')
+    .in('clinic_id', clinicIds)
+    .eq('status', 'posted')
+  if (error) throw error
+  return summarizePostedAdjustments(((data || []) as SheetRowAdjustment[]).map(toAdjustment))
+}
+
+export interface AdjustmentInput {
+  clinic_id: string
+  provider_sheet_row_id: string
+  adjustment_type: AdjustmentType
+  amount: number
+  reason: string
+  adjustment_date: string
+}
+
+/** Enters an adjustment, posted straight away when `post` (the caller's limit covers it) and pending otherwise. */
+export async function createAdjustment(supabase: SupabaseClient, input: AdjustmentInput, post: boolean): Promise<SheetRowAdjustment> {
+  const { data, error } = await supabase
+    .from('sheet_row_adjustments')
+    .insert({ ...input, reason: input.reason.trim(), status: post ? 'posted' : 'pending' })
+    .select('*')
+    .single()
+  if (error) throw error
+  return toAdjustment(data as SheetRowAdjustment)
+}
+
+/** Approve (posted) or reject a pending entry, void a posted one, or withdraw your own pending entry (voided). */
+export async function reviewAdjustment(
+  supabase: SupabaseClient,
+  id: string,
+  status: 'posted' | 'rejected' | 'voided',
+  note: string | null
+): Promise<SheetRowAdjustment> {
+  const { data, error } = await supabase
+    .from('sheet_row_adjustments')
+    .update({ status, review_note: note?.trim() || null })
+    .eq('id', id)
+    .select('*')
+    .single()
+  if (error) throw error
+  return toAdjustment(data as SheetRowAdjustment)
+}
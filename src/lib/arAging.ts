@@ -0,0 +1,246 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AccountsReceivable, BillingCode, Patient, Payer, Provider, ProviderSheet, SheetRow } from '@/types'
+import { fetchClinicSheetRows, NO_CHARGE_APPOINTMENT_STATUSES } from '@/lib/providerSheetRows'
+import { fetchPayers, findPayer } from '@/lib/payers'
+import { computeRowReimbursement, createFeeScheduleLookup, fetchFeeSchedules, type FeeScheduleLookup } from '@/lib/feeSchedules'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { fetchPostedAdjustmentTotals, rowBalanceAfterAdjustments, type RowAdjustmentTotals } from '@/lib/adjustments'
+import { parseAmount, toIsoDate, todayIso, roundMoney, daysBetween } from '@/lib/utils'
+
+export const AGING_BUCKETS = [
+  { key: '0-30', label: '0–30', max: 30 },
+  { key: '31-60', label: '31–60', max: 60 },
+  { key: '61-90', label: '61–90', max: 90 },
+  { key: '91-120', label: '91–120', max: 120 },
+  { key: '120+', label: '120+', max: Infinity },
+] as const
+
+export type AgingBucketKey = (typeof AGING_BUCKETS)[number]['key']
+
+export type AgingGroupBy = 'type' | 'payer' | 'provider' | 'patient'
+
+/** Sheet balances older than this are not scanned. */
+const SHEET_LOOKBACK_MONTHS = 24
+
+/** One open balance: an accounts_receivables row or an unpaid provider sheet row. */
+export interface AgingItem {
+  source: 'ar' | 'sheet'
+  /** accounts_receivables.id or provider_sheet_rows.id */
+  id: string
+  clinicId: string
+  /** YYYY-MM-DD the age is counted from. */
+  agingDate: string
+  agingBasis: 'date_of_service' | 'date_recorded'
+  days: number
+  bucket: AgingBucketKey
+  amount: number
+  /** ARType for AR rows; Insurance until the payer pays, then Patient, for sheet rows. */
+  type: 'Insurance' | 'Patient' | 'Admin' | 'Unassigned'
+  payer: string
+  providerId: string | null
+  patientId: string | null
+  patientName: string
+  /** AR notes, or CPT + claim status for sheet rows. */
+  detail: string
+}
+
+export interface AgingData {
+  items: AgingItem[]
+  /** Sheet rows with no fee schedule price, so no charge to age. */
+  unpricedRows: number
+  providersById: Record<string, Provider>
+}
+
+export interface AgingSummaryRow {
+  key: string
+  buckets: Record<AgingBucketKey, number>
+  total: number
+  count: number
+}
+
+export function bucketForDays(days: number): AgingBucketKey {
+  return (AGING_BUCKETS.find((b) => days <= b.max) ?? AGING_BUCKETS[AGING_BUCKETS.length - 1]).key
+}
+
+export function daysSince(iso: string, today: string): number {
+  return Math.max(0, daysBetween(iso, today))
+}
+
+/**
+ * Open balances for one clinic: AR rows with a positive amount (aged from date of service, else date recorded)
+ * and sheet rows whose fee-schedule charge is not covered by insurance + patient payments + posted adjustments
+ * (aged from date of service).
+ */
+export function buildAgingItems(
+  clinicId: string,
+  arRows: AccountsReceivable[],
+  sheetRows: Array<{ row: SheetRow; sheet: ProviderSheet }>,
+  context: {
+    patients: Patient[]
+    payers: Payer[]
+    feeLookup: FeeScheduleLookup
+    adjustmentTotals?: Map<string, RowAdjustmentTotals>
+    today?: string
+  }
+): { items: AgingItem[]; unpricedRows: number } {
+  const today = context.today ?? todayIso()
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+  const items: AgingItem[] = []
+  let unpricedRows = 0
+
+  arRows.forEach((ar) => {
+    const amount = Number(ar.amount) || 0
+    if (amount <= 0) return
+    const dos = toIsoDate(ar.date_of_service)
+    const agingDate = dos ?? toIsoDate(ar.date_recorded) ?? ar.created_at.slice(0, 10)
+    const days = daysSince(agingDate, today)
+    items.push({
+      source: 'ar',
+      id: ar.id,
+      clinicId,
+      agingDate,
+      agingBasis: dos ? 'date_of_service' : 'date_recorded',
+      days,
+      bucket: bucketForDays(days),
+      amount: roundMoney(amount),
+      type: ar.type ?? 'Unassigned',
+      payer: '—',
+      providerId: null,
+      patientId: null,
+      patientName: ar.name ?? '',
+      detail: [ar.ar_id, ar.notes].filter(Boolean).join(' · '),
+    })
+  })
+
+  sheetRows.forEach(({ row, sheet }) => {
+    const dos = toIsoDate(row.appointment_date)
+    if (!dos || !row.patient_id) return
+    if (row.appointment_status && NO_CHARGE_APPOINTMENT_STATUSES.has(row.appointment_status)) return
+    if (row.claim_status === 'N/A') return
+    const patient = patientsByKey.get(normalizePatientIdKey(row.patient_id))
+    const insurance = patient?.insurance ?? row.patient_insurance ?? null
+    const reimbursement = computeRowReimbursement({ ...row, patient_insurance: insurance }, context.feeLookup)
+    if (reimbursement.expected == null) {
+      unpricedRows++
+      return
+    }
+    const balance = rowBalanceAfterAdjustments(reimbursement.expected, reimbursement.actual, context.adjustmentTotals?.get(row.id)) ?? 0
+    if (balance <= 0) return
+    const insurancePaid = parseAmount(row.insurance_payment) > 0
+    const days = daysSince(dos, today)
+    items.push({
+      source: 'sheet',
+      id: row.id,
+      clinicId,
+      agingDate: dos,
+      agingBasis: 'date_of_service',
+      days,
+      bucket: bucketForDays(days),
+      amount: balance,
+      type: insurancePaid ? 'Patient' : 'Insurance',
+      payer: findPayer(insurance, context.payers)?.name ?? (insurance?.trim() || '—'),
+      providerId: sheet.provider_id,
+      patientId: row.patient_id,
+      patientName: patient ? `${patient.first_name} ${patient.last_name}`.trim() : '',
+      detail: [row.cpt_code, row.claim_status || 'Not billed'].filter(Boolean).join(' · '),
+    })
+  })
+
+  return { items, unpricedRows }
+}
+
+export function agingGroupKey(item: AgingItem, groupBy: AgingGroupBy, providersById: Record<string, Provider>): string {
+  switch (groupBy) {
+    case 'type':
+      return item.type
+    case 'payer':
+      return item.payer
+    case 'provider': {
+      const p = item.providerId ? providersById[item.providerId] : undefined
+      return p ? `${p.first_name} ${p.last_name}` : item.source === 'ar' ? 'AR entries' : 'Unknown'
+    }
+    case 'patient':
+      return [item.patientId, item.patientName].filter(Boolean).join(' – ') || 'Unknown'
+  }
+}
+
+/** Bucket totals per group, largest total first. */
+export function summarizeAging(items: AgingItem[], groupBy: AgingGroupBy, providersById: Record<string, Provider>): AgingSummaryRow[] {
+  const byKey = new Map<string, AgingSummaryRow>()
+  items.forEach((item) => {
+    const key = agingGroupKey(item, groupBy, providersById)
+    let row = byKey.get(key)
+    if (!row) {
+      row = { key, buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '91-120': 0, '120+': 0 }, total: 0, count: 0 }
+      byKey.set(key, row)
+    }
+    row.buckets[item.bucket] = roundMoney(row.buckets[item.bucket] + item.amount)
+    row.total = roundMoney(row.total + item.amount)
+    row.count++
+  })
+  return Array.from(byKey.values()).sort((a, b) => b.total - a.total)
+}
+
+/** Loads AR rows, recent sheet rows and pricing for each clinic and returns its open balances. */
+export async function fetchAgingData(supabase: SupabaseClient, clinicIds: string[]): Promise<AgingData> {
+  const [payers, feeSchedules, billingCodesResult] = await Promise.all([
+    fetchPayers(supabase),
+    fetchFeeSchedules(supabase),
+    supabase.from('billing_codes').select('*'),
+  ])
+  if (billingCodesResult.error) throw billingCodesResult.error
+  const feeLookup = createFeeScheduleLookup(feeSchedules, payers, (billingCodesResult.data || []) as BillingCode[])
+
+  const items: AgingItem[] = []
+  const providersById: Record<string, Provider> = {}
+  let unpricedRows = 0
+  for (const clinicId of clinicIds) {
+    const [arResult, patientsResult, providersResult, sheetRows, adjustmentTotals] = await Promise.all([
+      supabase.from('accounts_receivables').select('*').eq('clinic_id', clinicId),
+      supabase.from('patients').select('*').eq('clinic_id', clinicId),
+      supabase.from('providers').select('*').contains('clinic_ids', [clinicId]),
+      fetchClinicSheetRows(supabase, clinicId, SHEET_LOOKBACK_MONTHS),
+      fetchPostedAdjustmentTotals(supabase, [clinicId]),
+    ])
+    if (arResult.error) throw arResult.error
+    if (patientsResult.error) throw patientsResult.error
+    ;((providersResult.data || []) as Provider[]).forEach((p) => { providersById[p.id] = p })
+    const result = buildAgingItems(clinicId, (arResult.data || []) as AccountsReceivable[], sheetRows, {
+      patients: (patientsResult.data || []) as Patient[],
+      payers,
+      feeLookup,
+      adjustmentTotals,
+    })
+    items.push(...result.items)
+    unpricedRows += result.unpricedRows
+  }
+  return { items: items.sort((a, b) => b.days - a.days), unpricedRows, providersById }
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value)
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/** One line per open balance, for spreadsheet follow-up. */
+export function agingItemsToCsv(items: AgingItem[], providersById: Record<string, Provider>): string {
+  const header = ['Source', 'Type', 'Payer', 'Provider', 'Patient ID', 'Patient', 'Aging Date', 'Aged From', 'Days', 'Bucket', 'Balance', 'Detail']
+  const lines = items.map((i) =>
+    [
+      i.source === 'ar' ? 'AR' : 'Provider sheet',
+      i.type,
+      i.payer,
+      agingGroupKey(i, 'provider', providersById),
+      i.patientId ?? '',
+      i.patientName,
+      i.agingDate,
+      i.agingBasis === 'date_of_service' ? 'Date of service' : 'Date recorded',
+      i.days,
+      i.bucket,
+      i.amount.toFixed(2),
+      i.detail,
+    ].map(csvCell).join(',')
+  )
+  return [header.join(','), ...lines].join('\n')
+}
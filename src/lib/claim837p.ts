@@ -0,0 +1,494 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  ClaimAdjustment,
+  ClaimBatch,
+  ClaimPayerPayment,
+  Clinic,
+  CoverageRelationship,
+  Patient,
+  PatientCoverage,
+  PayerSequence,
+  Provider,
+  SheetRow,
+} from '@/types'
+import { parseDateOfServiceInput, roundMoney } from '@/lib/utils'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { parsePostalAddress, type PostalAddress } from '@/lib/postalAddress'
+import { cptCodesForRow } from '@/lib/providerSheetRows'
+
+/** Implementation guide version for professional claims (ST03 / GS08). */
+export const X12_837P_VERSION = '005010X222A1'
+
+/** Envelope and per-claim settings entered in the Create 837P batch dialog. */
+export interface Claim837pOptions {
+  /** ISA06 / GS02 / 1000A NM109 – ID assigned by the clearinghouse (ETIN). */
+  submitterId: string
+  submitterName: string
+  submitterContactName: string
+  submitterPhone: string
+  /** ISA08 / GS03 / 1000B NM109 – clearinghouse or payer receiving the file. */
+  receiverId: string
+  receiverName: string
+  /** ISA13 / IEA02; see allocateInterchangeControlNumber. */
+  interchangeControlNumber: number
+  /** ISA15: P = production, T = test. */
+  usageIndicator: 'P' | 'T'
+  /** SBR09 claim filing indicator (CI = commercial, MB = Medicare Part B, MC = Medicaid, ...). */
+  claimFilingIndicator: string
+  /** ICD-10-CM code sent in HI01 for every claim (sheet rows do not carry diagnoses). */
+  diagnosisCode: string
+  /** Charge per CPT service line, keyed by sheet row id. */
+  lineChargeByRowId: Record<string, number>
+  /** Payer ID (2010BB NM109) keyed by lowercased insurance name from the sheet. */
+  payerIdByInsurance: Record<string, string>
+  /** Rows billed to a secondary / tertiary payer, keyed by sheet row id; other rows are billed as primary claims. */
+  cobByRowId?: Record<string, Claim837pCob>
+  now?: Date
+}
+
+/** A payer ahead of the one being billed and its adjudication of the claim (2320 / 2330 loops). */
+export interface Claim837pPriorPayer {
+  coverage: PatientCoverage
+  payment: ClaimPayerPayment
+}
+
+/** Secondary or tertiary billing for one row: the coverage billed and every earlier payer's remittance, in order. */
+export interface Claim837pCob {
+  sequence: Exclude<PayerSequence, 'primary'>
+  coverage: PatientCoverage
+  priorPayers: Claim837pPriorPayer[]
+}
+
+/** Envelope fields remembered per clinic so billers don't re-enter clearinghouse IDs every batch. */
+export type Claim837pEnvelopeSettings = Pick<
+  Claim837pOptions,
+  'submitterId' | 'submitterName' | 'submitterContactName' | 'submitterPhone' | 'receiverId' | 'receiverName' | 'usageIndicator' | 'claimFilingIndicator' | 'diagnosisCode'
+> & { payerIdByInsurance: Record<string, string> }
+
+const SETTINGS_KEY_PREFIX = 'claim_837p_settings_'
+
+export function loadClaim837pSettings(clinicId: string): Claim837pEnvelopeSettings {
+  const defaults: Claim837pEnvelopeSettings = {
+    submitterId: '',
+    submitterName: '',
+    submitterContactName: '',
+    submitterPhone: '',
+    receiverId: '',
+    receiverName: '',
+    usageIndicator: 'P',
+    claimFilingIndicator: 'CI',
+    diagnosisCode: '',
+    payerIdByInsurance: {},
+  }
+  try {
+    const raw = localStorage.getItem(`${SETTINGS_KEY_PREFIX}${clinicId}`)
+    return raw ? { ...defaults, ...JSON.parse(raw) } : defaults
+  } catch {
+    return defaults
+  }
+}
+
+export function storeClaim837pSettings(clinicId: string, settings: Claim837pEnvelopeSettings): void {
+  localStorage.setItem(`${SETTINGS_KEY_PREFIX}${clinicId}`, JSON.stringify(settings))
+}
+
+/** Clinic / provider / patient data the claims are built from. */
+export interface Claim837pContext {
+  clinic: Clinic
+  /** clinic_addresses lines 1–6 (see fetchClinicAddressesByClinicIds). */
+  clinicAddressLines: string[]
+  provider: Provider
+  patients: Patient[]
+}
+
+/** A reason a row cannot be included in the batch. rowId is null for batch-level problems (clinic NPI, etc.). */
+export interface Claim837pIssue {
+  rowId: string | null
+  message: string
+}
+
+export interface Claim837pResult {
+  content: string
+  fileName: string
+  claimCount: number
+  totalCharge: number
+  rowIds: string[]
+}
+
+/** Rows that have been persisted (uuid ids); empty-/new- rows cannot be referenced by a claim. */
+export function isPersistedSheetRow(row: SheetRow): boolean {
+  return !row.id.startsWith('empty-') && !row.id.startsWith('new-')
+}
+
+/** CLM01 patient control number for a row: first 20 hex chars of the row uuid (echoed back in 835 CLP01 / 277 TRN). */
+export function claimControlNumberForRow(rowId: string): string {
+  return rowId.replace(/-/g, '').slice(0, 20).toUpperCase()
+}
+
+export function insuranceKey(insurance: string | null | undefined): string {
+  return String(insurance ?? '').trim().toLowerCase()
+}
+
+/** SBR01 payer responsibility sequence code. */
+const SEQUENCE_CODES: Record<PayerSequence, string> = { primary: 'P', secondary: 'S', tertiary: 'T' }
+
+/** SBR02 / PAT01 individual relationship code. */
+const RELATIONSHIP_CODES: Record<CoverageRelationship, string> = { self: '18', spouse: '01', child: '19', other: 'G8' }
+
+/** The coverage's own payer ID wins over the dialog mapping by payer name. */
+function payerIdFor(payerName: string | null | undefined, coverage: PatientCoverage | null, options: Claim837pOptions): string {
+  return coverage?.payer_id?.trim() || options.payerIdByInsurance[insuranceKey(payerName)]?.trim() || ''
+}
+
+function sumAdjustments(adjustments: ClaimAdjustment[]): number {
+  return adjustments.reduce((sum, a) => sum + a.amount, 0)
+}
+
+/** Strip X12 delimiters and collapse whitespace; names/addresses are sent upper case. */
+function el(value: string | number | null | undefined, upper = true): string {
+  const s = String(value ?? '')
+    .replace(/[*~:^]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return upper ? s.toUpperCase() : s
+}
+
+function digitsOnly(value: string | null | undefined): string {
+  return String(value ?? '').replace(/\D/g, '')
+}
+
+/** Accepts YYYY-MM-DD, MM-DD-YY(YY) or MM/DD/YY(YY); returns CCYYMMDD or null. */
+function toX12Date(value: string | null | undefined): string | null {
+  if (!value) return null
+  const iso = parseDateOfServiceInput(String(value).trim().replace(/\//g, '-'))
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null
+  return iso.replace(/-/g, '')
+}
+
+function formatAmount(n: number): string {
+  return roundMoney(n).toFixed(2).replace(/\.00$/, '').replace(/(\.\d)0$/, '$1')
+}
+
+function buildPatientLookup(patients: Patient[]): Map<string, Patient> {
+  const map = new Map<string, Patient>()
+  patients.forEach((p) => {
+    if (p.patient_id) map.set(normalizePatientIdKey(p.patient_id), p)
+  })
+  return map
+}
+
+/**
+ * Checks the batch before building: clinic NPI/EIN/address, provider NPI, and per-row patient,
+ * subscriber, date of service, CPT, payer ID and charge. Rows with issues are excluded by build837pBatch.
+ */
+export function validateClaimRows(
+  rows: SheetRow[],
+  context: Claim837pContext,
+  options: Claim837pOptions
+): Claim837pIssue[] {
+  const issues: Claim837pIssue[] = []
+  const { clinic, provider } = context
+  if (digitsOnly(clinic.npi).length !== 10) issues.push({ rowId: null, message: 'Clinic NPI must be 10 digits (Clinic Management).' })
+  if (digitsOnly(clinic.ein).length !== 9) issues.push({ rowId: null, message: 'Clinic EIN must be 9 digits (Clinic Management).' })
+  if (!parsePostalAddress(context.clinicAddressLines)) {
+    issues.push({ rowId: null, message: 'Clinic address needs a street line and a "City, ST 12345" line.' })
+  }
+  if (digitsOnly(provider.npi).length !== 10) issues.push({ rowId: null, message: 'Provider NPI must be 10 digits.' })
+  if (!options.submitterId.trim()) issues.push({ rowId: null, message: 'Submitter ID is required.' })
+  if (!options.receiverId.trim()) issues.push({ rowId: null, message: 'Receiver ID is required.' })
+  if (!/^[A-Z]\d{2}[0-9A-Z.]*$/i.test(options.diagnosisCode.trim())) {
+    issues.push({ rowId: null, message: 'Diagnosis code must be an ICD-10 code (e.g. F41.1).' })
+  }
+
+  const patientsByKey = buildPatientLookup(context.patients)
+  rows.forEach((row) => {
+    const add = (message: string) => issues.push({ rowId: row.id, message })
+    if (!isPersistedSheetRow(row)) {
+      add('Row has not been saved yet.')
+      return
+    }
+    const patient = row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined
+    const cob = options.cobByRowId?.[row.id]
+    if (!patient) {
+      add('Patient ID is not in Patient Info (subscriber data is required).')
+    } else {
+      if (!(cob ? cob.coverage.subscriber_id : patient.subscriber_id)?.trim()) add('Patient has no subscriber ID.')
+      if (!toX12Date(patient.date_of_birth)) add('Patient has no valid date of birth.')
+      if (!patient.last_name?.trim() || !patient.first_name?.trim()) add('Patient first and last name are required.')
+      if (!parsePostalAddress(patient.address ?? '')) add('Patient address must end with "City, ST 12345".')
+    }
+    if (!toX12Date(row.appointment_date)) add('Date of service is missing or invalid.')
+    if (cptCodesForRow(row).length === 0) add('CPT code is required.')
+    const insurance = cob ? cob.coverage.payer_name : patient?.insurance ?? row.patient_insurance
+    if (!insuranceKey(insurance)) add('Insurance is required.')
+    else if (!payerIdFor(insurance, cob?.coverage ?? null, options)) add(`No payer ID for "${insurance}".`)
+    const charge = options.lineChargeByRowId[row.id]
+    if (!(charge > 0)) add('Charge must be greater than 0.')
+    if (cob) validateCob(cob, charge * cptCodesForRow(row).length, options, add)
+  })
+  return issues
+}
+
+/**
+ * Secondary / tertiary checks: subscriber name when the patient is not the subscriber, and for each earlier payer a
+ * payer ID, subscriber ID and a remittance that balances (paid + adjustments = claim charge), since the claim
+ * carries claim-level adjudication only.
+ */
+function validateCob(cob: Claim837pCob, claimCharge: number, options: Claim837pOptions, add: (message: string) => void) {
+  if (cob.coverage.relationship !== 'self' && (!cob.coverage.subscriber_last_name?.trim() || !cob.coverage.subscriber_first_name?.trim())) {
+    add(`Subscriber name is required for ${cob.coverage.payer_name} (patient is not the subscriber).`)
+  }
+  const expected = cob.sequence === 'tertiary' ? 2 : 1
+  if (cob.priorPayers.length < expected) {
+    add(cob.sequence === 'tertiary' ? 'Primary and secondary remittances are required.' : 'Primary remittance is required.')
+  }
+  cob.priorPayers.forEach(({ coverage, payment }) => {
+    const name = payment.payer_name || coverage.payer_name
+    if (!payerIdFor(name, coverage, options)) add(`No payer ID for "${name}".`)
+    if (!coverage.subscriber_id?.trim()) add(`${name} coverage has no subscriber ID.`)
+    const adjudicated = payment.paid_amount + sumAdjustments(payment.adjustments)
+    if (claimCharge > 0 && Math.abs(adjudicated - claimCharge) > 0.005) {
+      add(`${name} paid + adjustments (${formatAmount(adjudicated)}) must equal the claim charge (${formatAmount(claimCharge)}).`)
+    }
+  })
+}
+
+/**
+ * Builds an 837P (005010X222A1) interchange for the given rows: one ISA/GS/ST envelope, billing provider
+ * (2000A) from the clinic, and one subscriber HL (2000B, patient = subscriber) with a CLM and one
+ * LX/SV1/DTP service line per CPT code for each row. Rows with validation issues are skipped.
+ * Rows in options.cobByRowId are billed to their secondary / tertiary coverage: SBR01 S or T, a 2000C patient
+ * loop when the patient is not the subscriber, and a 2320 / 2330A / 2330B loop per earlier payer carrying its
+ * claim-level CAS adjustments, paid amount (AMT*D) and remittance date.
+ */
+export function build837pBatch(
+  rows: SheetRow[],
+  context: Claim837pContext,
+  options: Claim837pOptions
+): Claim837pResult {
+  const issues = validateClaimRows(rows, context, options)
+  if (issues.some((i) => i.rowId === null)) {
+    throw new Error(issues.filter((i) => i.rowId === null).map((i) => i.message).join(' '))
+  }
+  const badRowIds = new Set(issues.map((i) => i.rowId))
+  const claimRows = rows.filter((r) => !badRowIds.has(r.id))
+  if (claimRows.length === 0) throw new Error('No rows are ready to bill.')
+
+  const { clinic, provider } = context
+  const clinicAddress = parsePostalAddress(context.clinicAddressLines) as PostalAddress
+  const patientsByKey = buildPatientLookup(context.patients)
+  const now = options.now ?? new Date()
+  const yyyy = String(now.getFullYear())
+  const mm = String(now.getMonth() + 1).padStart(2, '0')
+  const dd = String(now.getDate()).padStart(2, '0')
+  const hhmm = `${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`
+  const ccyymmdd = `${yyyy}${mm}${dd}`
+  const control = String(options.interchangeControlNumber).padStart(9, '0')
+  const groupControl = String(options.interchangeControlNumber)
+
+  const segments: string[] = []
+  const seg = (...elements: string[]) => {
+    let end = elements.length
+    while (end > 1 && elements[end - 1] === '') end--
+    segments.push(elements.slice(0, end).join('*'))
+  }
+
+  const isa = [
+    'ISA', '00', ' '.repeat(10), '00', ' '.repeat(10),
+    'ZZ', el(options.submitterId).padEnd(15).slice(0, 15),
+    'ZZ', el(options.receiverId).padEnd(15).slice(0, 15),
+    ccyymmdd.slice(2), hhmm, '^', '00501', control, '0', options.usageIndicator, ':',
+  ].join('*')
+  seg('GS', 'HC', el(options.submitterId), el(options.receiverId), ccyymmdd, hhmm, groupControl, 'X', X12_837P_VERSION)
+  const stIndex = segments.length
+  seg('ST', '837', '0001', X12_837P_VERSION)
+  seg('BHT', '0019', '00', control, ccyymmdd, hhmm, 'CH')
+
+  // 1000A submitter / 1000B receiver
+  seg('NM1', '41', '2', el(options.submitterName || clinic.name), '', '', '', '', '46', el(options.submitterId))
+  const contactPhone = digitsOnly(options.submitterPhone || clinic.phone)
+  seg('PER', 'IC', el(options.submitterContactName || options.submitterName || clinic.name), contactPhone ? 'TE' : '', contactPhone)
+  seg('NM1', '40', '2', el(options.receiverName), '', '', '', '', '46', el(options.receiverId))
+
+  // 2000A billing provider (clinic)
+  seg('HL', '1', '', '20', '1')
+  seg('NM1', '85', '2', el(clinic.name), '', '', '', '', 'XX', digitsOnly(clinic.npi))
+  seg('N3', el(clinicAddress.street))
+  seg('N4', el(clinicAddress.city), clinicAddress.state, clinicAddress.zip)
+  seg('REF', 'EI', digitsOnly(clinic.ein))
+
+  let hl = 1
+  let totalCharge = 0
+  claimRows.forEach((row) => {
+    const patient = patientsByKey.get(normalizePatientIdKey(row.patient_id ?? '')) as Patient
+    const patientAddress = parsePostalAddress(patient.address ?? '') as PostalAddress
+    const cob = options.cobByRowId?.[row.id]
+    const coverage = cob?.coverage ?? null
+    const relationship = coverage?.relationship ?? 'self'
+    const insurance = coverage ? coverage.payer_name : patient.insurance ?? row.patient_insurance ?? ''
+    const codes = cptCodesForRow(row)
+    const lineCharge = options.lineChargeByRowId[row.id]
+    const claimCharge = lineCharge * codes.length
+    totalCharge += claimCharge
+    const placeOfService = row.visit_type === 'Telehealth' ? '10' : '11'
+    const dos = toX12Date(row.appointment_date) as string
+
+    // 2000B subscriber (2000C patient loop follows only when the patient is not the subscriber)
+    hl++
+    const subscriberHl = hl
+    seg('HL', String(hl), '1', '22', relationship === 'self' ? '0' : '1')
+    seg(
+      'SBR',
+      SEQUENCE_CODES[cob?.sequence ?? 'primary'],
+      relationship === 'self' ? '18' : '',
+      el(coverage?.group_number),
+      '', '', '', '', '',
+      el(coverage?.claim_filing_indicator || options.claimFilingIndicator || 'CI')
+    )
+    if (relationship === 'self') {
+      seg('NM1', 'IL', '1', el(patient.last_name), el(patient.first_name), '', '', '', 'MI', el(coverage?.subscriber_id ?? patient.subscriber_id))
+      seg('N3', el(patientAddress.street))
+      seg('N4', el(patientAddress.city), patientAddress.state, patientAddress.zip)
+      seg('DMG', 'D8', toX12Date(patient.date_of_birth) as string, 'U')
+    } else {
+      seg('NM1', 'IL', '1', el(coverage?.subscriber_last_name), el(coverage?.subscriber_first_name), '', '', '', 'MI', el(coverage?.subscriber_id))
+      const subscriberDob = toX12Date(coverage?.subscriber_date_of_birth)
+      if (subscriberDob) seg('DMG', 'D8', subscriberDob, 'U')
+    }
+    seg('NM1', 'PR', '2', el(insurance), '', '', '', '', 'PI', el(payerIdFor(insurance, coverage, options)))
+
+    if (relationship !== 'self') {
+      // 2000C patient
+      hl++
+      seg('HL', String(hl), String(subscriberHl), '23', '0')
+      seg('PAT', RELATIONSHIP_CODES[relationship])
+      seg('NM1', 'QC', '1', el(patient.last_name), el(patient.first_name))
+      seg('N3', el(patientAddress.street))
+      seg('N4', el(patientAddress.city), patientAddress.state, patientAddress.zip)
+      seg('DMG', 'D8', toX12Date(patient.date_of_birth) as string, 'U')
+    }
+
+    // 2300 claim
+    seg('CLM', claimControlNumberForRow(row.id), formatAmount(claimCharge), '', '', `${placeOfService}:B:1`, 'Y', 'A', 'Y', 'Y')
+    seg('HI', `ABK:${el(options.diagnosisCode).replace('.', '')}`)
+    // 2310B rendering provider
+    seg('NM1', '82', '1', el(provider.last_name), el(provider.first_name), '', '', '', 'XX', digitsOnly(provider.npi))
+
+    // 2320 other subscriber / 2330A other subscriber name / 2330B other payer, one per earlier payer
+    cob?.priorPayers.forEach(({ coverage: prior, payment }) => {
+      seg(
+        'SBR',
+        SEQUENCE_CODES[payment.payer_sequence],
+        RELATIONSHIP_CODES[prior.relationship],
+        el(prior.group_number),
+        '', '', '', '', '',
+        el(prior.claim_filing_indicator || options.claimFilingIndicator || 'CI')
+      )
+      const byGroup = new Map<string, ClaimAdjustment[]>()
+      payment.adjustments.forEach((a) => byGroup.set(a.group, [...(byGroup.get(a.group) ?? []), a]))
+      byGroup.forEach((list, group) => {
+        // CAS carries up to six reason / amount / quantity triplets.
+        for (let i = 0; i < list.length; i += 6) {
+          seg('CAS', el(group), ...list.slice(i, i + 6).flatMap((a) => [el(a.reason), formatAmount(a.amount), '']))
+        }
+      })
+      seg('AMT', 'D', formatAmount(payment.paid_amount))
+      seg('OI', '', '', 'Y', '', '', 'Y')
+      const priorSelf = prior.relationship === 'self'
+      seg(
+        'NM1', 'IL', '1',
+        el(priorSelf ? patient.last_name : prior.subscriber_last_name),
+        el(priorSelf ? patient.first_name : prior.subscriber_first_name),
+        '', '', '', 'MI', el(prior.subscriber_id)
+      )
+      const priorPayerName = payment.payer_name || prior.payer_name
+      seg('NM1', 'PR', '2', el(priorPayerName), '', '', '', '', 'PI', el(payerIdFor(priorPayerName, prior, options)))
+      const remittanceDate = toX12Date(payment.paid_date)
+      if (remittanceDate) seg('DTP', '573', 'D8', remittanceDate)
+    })
+
+    // 2400 service lines
+    codes.forEach((code, i) => {
+      seg('LX', String(i + 1))
+      seg('SV1', `HC:${el(code)}`, formatAmount(lineCharge), 'UN', '1', '', '', '1')
+      seg('DTP', '472', 'D8', dos)
+    })
+  })
+
+  const transactionSegmentCount = segments.length - stIndex + 1
+  seg('SE', String(transactionSegmentCount), '0001')
+  seg('GE', '1', groupControl)
+  seg('IEA', '1', control)
+
+  const content = [isa, ...segments].join('~\n') + '~\n'
+  const providerSlug = `${provider.last_name ?? ''}`.replace(/[^a-zA-Z0-9]/g, '') || 'Provider'
+  return {
+    content,
+    fileName: `837P_${providerSlug}_${ccyymmdd}_${control}.txt`,
+    claimCount: claimRows.length,
+    totalCharge: Math.round(totalCharge * 100) / 100,
+    rowIds: claimRows.map((r) => r.id),
+  }
+}
+
+/** Rows in `rowIds` move to Claim Sent with submit_date stamped (YYYY-MM-DD); other rows are returned unchanged. */
+export function markRowsClaimSent(rows: SheetRow[], rowIds: string[], submitDate: string): SheetRow[] {
+  const ids = new Set(rowIds)
+  const now = new Date().toISOString()
+  return rows.map((row) =>
+    ids.has(row.id) ? { ...row, claim_status: 'Claim Sent', submit_date: submitDate, updated_at: now } : row
+  )
+}
+
+/** X12 file an interchange control number is allocated for; decides which roles may allocate it. */
+export type InterchangeTransaction = '837P' | '270' | '276'
+
+/**
+ * Allocates the next ISA13 for the clinic from the database counter (next_interchange_control_number), so concurrent
+ * exports never reuse a number. 837P batches, 270 and 276 inquiries go out under the same submitter ID and share it.
+ * Callers build the file with a placeholder first and allocate only once it validates, so rejected files leave no gaps.
+ */
+export async function allocateInterchangeControlNumber(
+  supabase: SupabaseClient,
+  clinicId: string,
+  transaction: InterchangeTransaction
+): Promise<number> {
+  const { data, error } = await supabase.rpc('next_interchange_control_number', { p_clinic_id: clinicId, p_transaction: transaction })
+  if (error) throw error
+  return data as number
+}
+
+export async function fetchClaimBatches(
+  supabase: SupabaseClient,
+  clinicId: string,
+  providerId: string
+): Promise<ClaimBatch[]> {
+  const { data, error } = await supabase
+    .from('claim_batches')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .eq('provider_id', providerId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return (data || []) as ClaimBatch[]
+}
+
+export async function saveClaimBatch(
+  supabase: SupabaseClient,
+  batch: Omit<ClaimBatch, 'id' | 'created_at'>
+): Promise<ClaimBatch> {
+  const { data, error } = await supabase.from('claim_batches').insert(batch).select().single()
+  if (error) throw error
+  return data as ClaimBatch
+}
+
+/** Triggers a browser download of a stored or freshly built batch. */
+export function downloadClaimFile(fileName: string, content: string): void {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Clinic, ClaimScrubberRule, ClaimScrubSeverity, Patient, Provider, SheetRow } from '@/types'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { cptCodesForRow, NO_CHARGE_APPOINTMENT_STATUSES } from '@/lib/providerSheetRows'
+import { toIsoDate, todayIso } from '@/lib/utils'
+
+export type ScrubRuleId =
+  | 'patient_on_file'
+  | 'insurance'
+  | 'subscriber_id'
+  | 'date_of_birth'
+  | 'cpt_code'
+  | 'date_of_service'
+  | 'future_date_of_service'
+  | 'rendering_npi'
+  | 'billing_npi'
+  | 'copay_coinsurance'
+
+export interface ScrubContext {
+  patient: Patient | undefined
+  provider: Provider | null
+  /** Null while the clinic is loading; billing NPI is then not checked. */
+  clinic: Clinic | null
+  /** YYYY-MM-DD */
+  today: string
+}
+
+/** One finding: which sheet field to mark and why. */
+export interface ScrubFinding {
+  field: keyof SheetRow
+  message: string
+}
+
+export interface ScrubRule {
+  id: ScrubRuleId
+  label: string
+  defaultSeverity: Exclude<ClaimScrubSeverity, 'off'>
+  check: (row: SheetRow, ctx: ScrubContext) => ScrubFinding[]
+}
+
+export interface ScrubIssue extends ScrubFinding {
+  ruleId: ScrubRuleId
+  severity: Exclude<ClaimScrubSeverity, 'off'>
+}
+
+export type ScrubSettings = Record<ScrubRuleId, ClaimScrubSeverity>
+
+/** Statuses whose rows still need a clean claim; scrubbing stops once a claim is out the door. */
+const UNSENT_CLAIM_STATUSES = new Set(['', 'RS', 'Rejection', 'Rejected'])
+
+const blank = (value: unknown) => value == null || String(value).trim() === '' || value === 'null'
+
+/** NPI check digit: Luhn over "80840" + the first nine digits. */
+export function isValidNpi(npi: string | null | undefined): boolean {
+  const digits = String(npi ?? '').trim()
+  if (!/^\d{10}$/.test(digits)) return false
+  const payload = `80840${digits.slice(0, 9)}`
+  let sum = 0
+  for (let i = 0; i < payload.length; i++) {
+    let d = Number(payload[payload.length - 1 - i])
+    if (i % 2 === 0) {
+      d *= 2
+      if (d > 9) d -= 9
+    }
+    sum += d
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[9])
+}
+
+export const SCRUB_RULES: ScrubRule[] = [
+  {
+    id: 'patient_on_file',
+    label: 'Patient ID matches a patient record',
+    defaultSeverity: 'error',
+    check: (row, ctx) => (!blank(row.patient_id) && !ctx.patient ? [{ field: 'patient_id', message: 'Patient ID is not in the Patient Info tab.' }] : []),
+  },
+  {
+    id: 'insurance',
+    label: 'Insurance is entered',
+    defaultSeverity: 'error',
+    check: (row, ctx) => (ctx.patient && blank(ctx.patient.insurance ?? row.patient_insurance) ? [{ field: 'patient_insurance', message: 'Insurance is missing.' }] : []),
+  },
+  {
+    id: 'subscriber_id',
+    label: 'Subscriber ID is entered',
+    defaultSeverity: 'error',
+    check: (_row, ctx) => (ctx.patient && blank(ctx.patient.subscriber_id) ? [{ field: 'patient_id', message: 'Subscriber ID is missing.' }] : []),
+  },
+  {
+    id: 'date_of_birth',
+    label: 'Patient date of birth is entered',
+    defaultSeverity: 'error',
+    check: (_row, ctx) => (ctx.patient && !toIsoDate(ctx.patient.date_of_birth) ? [{ field: 'patient_id', message: 'Date of birth is missing.' }] : []),
+  },
+  {
+    id: 'cpt_code',
+    label: 'CPT code is entered',
+    defaultSeverity: 'error',
+    check: (row) => (cptCodesForRow(row).length === 0 ? [{ field: 'cpt_code', message: 'CPT code is missing.' }] : []),
+  },
+  {
+    id: 'date_of_service',
+    label: 'Date of service is a valid date',
+    defaultSeverity: 'error',
+    check: (row) => (!toIsoDate(row.appointment_date) ? [{ field: 'appointment_date', message: 'Date of service is missing or invalid.' }] : []),
+  },
+  {
+    id: 'future_date_of_service',
+    label: 'Date of service is not in the future',
+    defaultSeverity: 'error',
+    check: (row, ctx) => {
+      const dos = toIsoDate(row.appointment_date)
+      return dos && dos > ctx.today ? [{ field: 'appointment_date', message: 'Date of service is in the future.' }] : []
+    },
+  },
+  {
+    id: 'rendering_npi',
+    label: 'Provider NPI is valid',
+    defaultSeverity: 'error',
+    check: (_row, ctx) =>
+      ctx.provider && !isValidNpi(ctx.provider.npi)
+        ? [{ field: 'claim_status', message: blank(ctx.provider.npi) ? 'Provider NPI is missing.' : 'Provider NPI fails the check digit.' }]
+        : [],
+  },
+  {
+    id: 'billing_npi',
+    label: 'Clinic (billing) NPI is valid',
+    defaultSeverity: 'error',
+    check: (_row, ctx) =>
+      ctx.clinic && !isValidNpi(ctx.clinic.npi)
+        ? [{ field: 'claim_status', message: blank(ctx.clinic.npi) ? 'Clinic NPI is missing.' : 'Clinic NPI fails the check digit.' }]
+        : [],
+  },
+  {
+    id: 'copay_coinsurance',
+    label: 'Copay and coinsurance are entered',
+    defaultSeverity: 'warning',
+    check: (_row, ctx) => {
+      if (!ctx.patient) return []
+      const findings: ScrubFinding[] = []
+      if (blank(ctx.patient.copay)) findings.push({ field: 'patient_copay', message: 'Copay is blank.' })
+      if (blank(ctx.patient.coinsurance)) findings.push({ field: 'patient_coinsurance', message: 'Coinsurance is blank.' })
+      return findings
+    },
+  },
+]
+
+export function defaultScrubSettings(): ScrubSettings {
+  return Object.fromEntries(SCRUB_RULES.map((r) => [r.id, r.defaultSeverity])) as ScrubSettings
+}
+
+/** Rows the scrubber shows markers for: has patient data, not a no-charge visit, claim not yet sent. */
+export function isScrubbableRow(row: SheetRow): boolean {
+  if (blank(row.patient_id) && blank(row.appointment_date) && blank(row.cpt_code)) return false
+  if (row.appointment_status && NO_CHARGE_APPOINTMENT_STATUSES.has(row.appointment_status)) return false
+  return UNSENT_CLAIM_STATUSES.has(row.claim_status ?? '')
+}
+
+export function scrubRow(row: SheetRow, ctx: ScrubContext, settings: ScrubSettings): ScrubIssue[] {
+  const issues: ScrubIssue[] = []
+  SCRUB_RULES.forEach((rule) => {
+    const severity = settings[rule.id] ?? rule.defaultSeverity
+    if (severity === 'off') return
+    rule.check(row, ctx).forEach((finding) => issues.push({ ...finding, ruleId: rule.id, severity }))
+  })
+  return issues
+}
+
+/** Scrubs each row against its patient (by patient_id), the provider and the clinic. Rows without issues are omitted. */
+export function scrubRows(
+  rows: SheetRow[],
+  context: { patients: Patient[]; provider: Provider | null; clinic: Clinic | null },
+  settings: ScrubSettings
+): Map<string, ScrubIssue[]> {
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+  const today = todayIso()
+  const result = new Map<string, ScrubIssue[]>()
+  rows.forEach((row) => {
+    const patient = row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined
+    const issues = scrubRow(row, { patient, provider: context.provider, clinic: context.clinic, today }, settings)
+    if (issues.length > 0) result.set(row.id, issues)
+  })
+  return result
+}
+
+export async function fetchScrubSettings(supabase: SupabaseClient, clinicId: string): Promise<ScrubSettings> {
+  const { data, error } = await supabase.from('claim_scrubber_rules').select('*').eq('clinic_id', clinicId)
+  if (error) throw error
+  const settings = defaultScrubSettings()
+  ;((data || []) as ClaimScrubberRule[]).forEach((r) => {
+    if (r.rule_id in settings) settings[r.rule_id as ScrubRuleId] = r.severity
+  })
+  return settings
+}
+
+export async function saveScrubSettings(
+  supabase: SupabaseClient,
+  clinicId: string,
+  settings: ScrubSettings,
+  userId: string | null
+): Promise<void> {
+  const { error } = await supabase.from('claim_scrubber_rules').upsert(
+    SCRUB_RULES.map((r) => ({ clinic_id: clinicId, rule_id: r.id, severity: settings[r.id], updated_by: userId })),
+    { onConflict: 'clinic_id,rule_id' }
+  )
+  if (error) throw error
+}
@@ -0,0 +1,560 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  ClaimStatus,
+  ClaimStatusHistoryEntry,
+  ClaimStatusInquiry,
+  Clinic,
+  Patient,
+  Payer,
+  ProviderSheet,
+  SheetRow,
+} from '@/types'
+import { claimControlNumberForRow } from '@/lib/claim837p'
+import { splitX12Segments, x12DateToIso } from '@/lib/era835'
+import { fetchClinicSheetRows, fetchSheetRows, saveSheetRows } from '@/lib/providerSheetRows'
+import { fetchLockedFieldsBySheetId } from '@/lib/providerSheetLocks'
+import { findPayer } from '@/lib/payers'
+import { daysSince } from '@/lib/arAging'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { parseDateOfServiceInput, toIsoDate, todayIso } from '@/lib/utils'
+
+/** Implementation guide version for claim status inquiries (ST03 / GS08). */
+export const X12_276_VERSION = '005010X212'
+
+/** Claim statuses worth asking the payer about. */
+export const CLAIM_STATUS_INQUIRY_STATUSES = new Set(['Claim Sent', 'IP'])
+export const DEFAULT_CLAIM_STATUS_MIN_DAYS = 30
+/** How far back provider sheets are scanned for outstanding claims and 277 matches. */
+const LOOKBACK_MONTHS = 12
+
+/** STC01-1 health care claim status category codes. */
+export const CLAIM_STATUS_CATEGORY_LABELS: Record<string, string> = {
+  A0: 'Acknowledgement / Forwarded',
+  A1: 'Acknowledgement / Receipt',
+  A2: 'Acknowledgement / Accepted into adjudication',
+  A3: 'Acknowledgement / Returned as unprocessable',
+  A4: 'Acknowledgement / Not found',
+  A5: 'Acknowledgement / Split claim',
+  A6: 'Acknowledgement / Rejected for missing information',
+  A7: 'Acknowledgement / Rejected for invalid information',
+  A8: 'Acknowledgement / Rejected for relational field in error',
+  D0: 'Data search unsuccessful',
+  E0: 'Response not possible – error on request',
+  E1: 'Response not possible – system status',
+  E2: 'Information holder not responding',
+  E3: 'Correction required – relational fields in error',
+  E4: 'Trading partner agreement requirement not met',
+  F0: 'Finalized',
+  F1: 'Finalized / Payment',
+  F2: 'Finalized / Denial',
+  F3: 'Finalized / Revised',
+  F3F: 'Finalized / Forwarded',
+  F3N: 'Finalized / Not forwarded',
+  F4: 'Finalized / No payment forthcoming',
+  P0: 'Pending / Adjudication details',
+  P1: 'Pending / In process',
+  P2: 'Pending / Payer review',
+  P3: 'Pending / Provider requested information',
+  P4: 'Pending / Patient requested information',
+  P5: 'Pending / Payer administrative hold',
+}
+
+/**
+ * Sheet Claim Status for the categories that map cleanly; everything else (not found, errors, F0/F3/F4,
+ * requests for information) is recorded in the history only.
+ */
+const CATEGORY_TO_CLAIM_STATUS: Record<string, string> = {
+  A2: 'IP',
+  A3: 'Rejected',
+  A6: 'Rejected',
+  A7: 'Rejected',
+  A8: 'Rejected',
+  P0: 'IP',
+  P1: 'IP',
+  P2: 'IP',
+  P3: 'IP',
+  P4: 'IP',
+  P5: 'IP',
+  F1: 'Paid',
+  F2: 'Denial',
+}
+
+/** Envelope settings entered on the Claim Status tab (remembered per clinic). */
+export interface Claim276Options {
+  /** ISA06 / GS02 / 2100B NM109 – ID assigned by the clearinghouse (ETIN). */
+  submitterId: string
+  /** ISA08 / GS03 – clearinghouse or payer receiving the inquiry. */
+  receiverId: string
+  /** ISA13 / IEA02; see allocateInterchangeControlNumber. */
+  interchangeControlNumber: number
+  /** ISA15: P = production, T = test. */
+  usageIndicator: 'P' | 'T'
+  now?: Date
+}
+
+/** A Claim Sent / IP row old enough to ask about. */
+export interface ClaimStatusCandidate {
+  row: SheetRow
+  sheet: ProviderSheet
+  patient: Patient | undefined
+  payer: Payer | null
+  insurance: string
+  /** YYYY-MM-DD */
+  dateOfService: string
+  /** Days since submit_date, or since the date of service when the row has no submit date. */
+  daysOutstanding: number
+  /** Why the row cannot go on a 276 (missing subscriber ID, payer ID, ...). Empty when ready. */
+  issues: string[]
+}
+
+export interface Claim276Result {
+  content: string
+  fileName: string
+  claimCount: number
+  rowIds: string[]
+}
+
+export interface Claim277Status {
+  categoryCode: string
+  statusCode: string | null
+  entityCode: string | null
+  effectiveDate: string | null
+  chargeAmount: number | null
+  paidAmount: number | null
+}
+
+/** One claim (2200D/2200E loop) of a 277; statuses are claim-level STC segments, current status first. */
+export interface Claim277 {
+  payerName: string | null
+  /** TRN02 echoed from our 276 (the row's claim control number). */
+  traceNumber: string | null
+  /** REF*EJ patient control number. */
+  patientAccountNumber: string | null
+  /** REF*1K payer claim control number. */
+  payerClaimNumber: string | null
+  memberId: string | null
+  patientName: string | null
+  serviceDate: string | null
+  statuses: Claim277Status[]
+}
+
+export interface Claim277IngestResult {
+  entries: ClaimStatusHistoryEntry[]
+  unmatched: Claim277[]
+}
+
+export interface ApplyClaimStatusResult {
+  applied: number
+  /** Entries left open because Claim Status is locked on the row's sheet or the row no longer exists. */
+  skipped: number
+}
+
+/** Strip X12 delimiters and collapse whitespace; names are sent upper case. */
+function el(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .replace(/[*~:^]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase()
+}
+
+function digitsOnly(value: string | null | undefined): string {
+  return String(value ?? '').replace(/\D/g, '')
+}
+
+/** Accepts YYYY-MM-DD, MM-DD-YY(YY) or MM/DD/YY(YY); returns CCYYMMDD or null. */
+function toX12Date(value: string | null | undefined): string | null {
+  if (!value) return null
+  const iso = parseDateOfServiceInput(String(value).trim().replace(/\//g, '-'))
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null
+  return iso.replace(/-/g, '')
+}
+
+function amountOrNull(value: string | undefined): number | null {
+  const n = parseFloat(value ?? '')
+  return Number.isFinite(n) ? n : null
+}
+
+export function claimStatusCategoryLabel(code: string): string {
+  return CLAIM_STATUS_CATEGORY_LABELS[code] ?? (code.startsWith('R') ? 'Request for additional information' : code)
+}
+
+/** Claim Status a 277 category maps to, or null when it does not map cleanly or the row already has it. */
+export function proposedClaimStatusFor(categoryCode: string, current: string | null): string | null {
+  const proposed = CATEGORY_TO_CLAIM_STATUS[categoryCode] ?? null
+  return proposed && proposed !== (current ?? '') ? proposed : null
+}
+
+/** Batch-level problems: envelope IDs and the clinic NPI sent as the service provider. */
+export function validateClaimStatusBatch(clinic: Clinic, options: Pick<Claim276Options, 'submitterId' | 'receiverId'>): string[] {
+  const issues: string[] = []
+  if (!options.submitterId.trim()) issues.push('Submitter ID is required.')
+  if (!options.receiverId.trim()) issues.push('Receiver ID is required.')
+  if (digitsOnly(clinic.npi).length !== 10) issues.push('Clinic NPI must be 10 digits.')
+  return issues
+}
+
+/** Claim Sent / IP rows outstanding at least `minDays`, oldest first, with per-row issues. */
+export function findClaimStatusCandidates(
+  rows: Array<{ row: SheetRow; sheet: ProviderSheet }>,
+  context: { patients: Patient[]; payers: Payer[]; minDays: number; today?: string }
+): ClaimStatusCandidate[] {
+  const today = context.today ?? todayIso()
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+
+  const result: ClaimStatusCandidate[] = []
+  rows.forEach(({ row, sheet }) => {
+    if (!CLAIM_STATUS_INQUIRY_STATUSES.has(row.claim_status ?? '')) return
+    const dateOfService = toIsoDate(row.appointment_date)
+    if (!dateOfService) return
+    const daysOutstanding = daysSince(toIsoDate(row.submit_date) ?? dateOfService, today)
+    if (daysOutstanding < context.minDays) return
+    const patient = row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined
+    const insurance = (patient?.insurance ?? row.patient_insurance ?? '').trim()
+    const payer = findPayer(insurance, context.payers)
+    const issues: string[] = []
+    if (!patient) issues.push('No patient record.')
+    else {
+      if (!patient.subscriber_id?.trim()) issues.push('No subscriber ID.')
+      if (!patient.first_name?.trim() || !patient.last_name?.trim()) issues.push('Missing patient name.')
+      if (!toX12Date(patient.date_of_birth)) issues.push('Missing date of birth.')
+    }
+    if (!insurance) issues.push('No insurance.')
+    else if (!payer?.payer_id?.trim()) issues.push(`No payer ID for ${insurance}.`)
+    result.push({ row, sheet, patient, payer, insurance, dateOfService, daysOutstanding, issues })
+  })
+  return result.sort((a, b) => b.daysOutstanding - a.daysOutstanding)
+}
+
+/**
+ * Builds an ANSI X12 276 (005010X212) with one 2000D subscriber per claim, grouped under a 2000A loop per payer.
+ * TRN02 and REF*EJ carry the row's claim control number (CLM01 on the 837P) so the 277 can be matched back.
+ */
+export function build276Batch(candidates: ClaimStatusCandidate[], clinic: Clinic, options: Claim276Options): Claim276Result {
+  const batchIssues = validateClaimStatusBatch(clinic, options)
+  if (batchIssues.length > 0) throw new Error(batchIssues.join(' '))
+  const ready = candidates.filter((c) => c.issues.length === 0)
+  if (ready.length === 0) throw new Error('No claims are ready for a status inquiry.')
+
+  const now = options.now ?? new Date()
+  const yyyy = String(now.getFullYear())
+  const mm = String(now.getMonth() + 1).padStart(2, '0')
+  const dd = String(now.getDate()).padStart(2, '0')
+  const hhmm = `${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`
+  const ccyymmdd = `${yyyy}${mm}${dd}`
+  const control = String(options.interchangeControlNumber).padStart(9, '0')
+  const groupControl = String(options.interchangeControlNumber)
+
+  const segments: string[] = []
+  const seg = (...elements: string[]) => {
+    let end = elements.length
+    while (end > 1 && elements[end - 1] === '') end--
+    segments.push(elements.slice(0, end).join('*'))
+  }
+
+  const isa = [
+    'ISA', '00', ' '.repeat(10), '00', ' '.repeat(10),
+    'ZZ', el(options.submitterId).padEnd(15).slice(0, 15),
+    'ZZ', el(options.receiverId).padEnd(15).slice(0, 15),
+    ccyymmdd.slice(2), hhmm, '^', '00501', control, '0', options.usageIndicator, ':',
+  ].join('*')
+  seg('GS', 'HR', el(options.submitterId), el(options.receiverId), ccyymmdd, hhmm, groupControl, 'X', X12_276_VERSION)
+  const stIndex = segments.length
+  seg('ST', '276', '0001', X12_276_VERSION)
+  seg('BHT', '0010', '13', control, ccyymmdd, hhmm)
+
+  const byPayer = new Map<string, ClaimStatusCandidate[]>()
+  ready.forEach((c) => {
+    const key = c.payer?.payer_id ?? ''
+    byPayer.set(key, [...(byPayer.get(key) ?? []), c])
+  })
+
+  let hl = 0
+  byPayer.forEach((claims) => {
+    const payer = claims[0].payer as Payer
+    // 2000A payer / 2000B information receiver (submitter) / 2000C service provider (clinic)
+    const payerHl = ++hl
+    seg('HL', String(payerHl), '', '20', '1')
+    seg('NM1', 'PR', '2', el(payer.name), '', '', '', '', 'PI', el(payer.payer_id))
+    const receiverHl = ++hl
+    seg('HL', String(receiverHl), String(payerHl), '21', '1')
+    seg('NM1', '41', '2', el(clinic.name), '', '', '', '', '46', el(options.submitterId))
+    const providerHl = ++hl
+    seg('HL', String(providerHl), String(receiverHl), '19', '1')
+    seg('NM1', '1P', '2', el(clinic.name), '', '', '', '', 'XX', digitsOnly(clinic.npi))
+
+    claims.forEach(({ row, patient, dateOfService }) => {
+      const p = patient as Patient
+      const dos = dateOfService.replace(/-/g, '')
+      const controlNumber = claimControlNumberForRow(row.id)
+      // 2000D subscriber (patient is the subscriber) / 2200D claim status tracking
+      seg('HL', String(++hl), String(providerHl), '22', '0')
+      seg('DMG', 'D8', toX12Date(p.date_of_birth) as string)
+      seg('NM1', 'IL', '1', el(p.last_name), el(p.first_name), '', '', '', 'MI', el(p.subscriber_id))
+      seg('TRN', '1', controlNumber)
+      seg('REF', 'EJ', controlNumber)
+      seg('DTP', '472', 'RD8', `${dos}-${dos}`)
+    })
+  })
+
+  const transactionSegmentCount = segments.length - stIndex + 1
+  seg('SE', String(transactionSegmentCount), '0001')
+  seg('GE', '1', groupControl)
+  seg('IEA', '1', control)
+
+  return {
+    content: [isa, ...segments].join('~\n') + '~\n',
+    fileName: `276_${ccyymmdd}_${control}.txt`,
+    claimCount: ready.length,
+    rowIds: ready.map((c) => c.row.id),
+  }
+}
+
+/**
+ * Parses an ANSI X12 277 (005010X212) claim status response. Only claim-level STC segments are kept; service line
+ * statuses (after SVC) are ignored because the sheet tracks one Claim Status per row.
+ */
+export function parse277(content: string): Claim277[] {
+  const { segments, componentSep } = splitX12Segments(content)
+  if (!segments.some((s) => s[0] === 'ST' && s[1] === '277')) throw new Error('File is not a 277 claim status response (no ST*277).')
+
+  const claims: Claim277[] = []
+  let payerName: string | null = null
+  let member: { memberId: string | null; patientName: string | null } = { memberId: null, patientName: null }
+  let claim: Claim277 | null = null
+  let inService = false
+
+  segments.forEach((el) => {
+    switch (el[0]) {
+      case 'HL':
+        claim = null
+        inService = false
+        if (el[3] === '20') payerName = null
+        if (el[3] === '22' || el[3] === '23') member = { memberId: null, patientName: null }
+        break
+      case 'NM1':
+        if (el[1] === 'PR') payerName = el[3] || null
+        else if (el[1] === 'IL' || el[1] === 'QC') {
+          if (el[9]) member.memberId = el[9]
+          member.patientName = [el[4], el[3]].filter(Boolean).join(' ') || member.patientName
+        }
+        break
+      case 'TRN':
+        if (el[1] === '2') {
+          claim = {
+            payerName,
+            traceNumber: el[2] || null,
+            patientAccountNumber: null,
+            payerClaimNumber: null,
+            memberId: member.memberId,
+            patientName: member.patientName,
+            serviceDate: null,
+            statuses: [],
+          }
+          inService = false
+          claims.push(claim)
+        }
+        break
+      case 'STC':
+        if (claim && !inService) {
+          const [categoryCode, statusCode, entityCode] = (el[1] ?? '').split(componentSep)
+          if (categoryCode) {
+            claim.statuses.push({
+              categoryCode,
+              statusCode: statusCode || null,
+              entityCode: entityCode || null,
+              effectiveDate: x12DateToIso(el[2]),
+              chargeAmount: amountOrNull(el[4]),
+              paidAmount: amountOrNull(el[5]),
+            })
+          }
+        }
+        break
+      case 'REF':
+        if (claim && !inService) {
+          if (el[1] === '1K') claim.payerClaimNumber = el[2] || null
+          else if (el[1] === 'EJ') claim.patientAccountNumber = el[2] || null
+        }
+        break
+      case 'DTP':
+        if (claim && !inService && el[1] === '472') claim.serviceDate = x12DateToIso((el[3] ?? '').split('-')[0])
+        break
+      case 'SVC':
+        inService = true
+        break
+    }
+  })
+  return claims
+}
+
+/**
+ * Outstanding Claim Sent / IP rows for the clinic with patient and payer checks. Rows younger than `minDays`
+ * are left out.
+ */
+export async function fetchClaimStatusCandidates(
+  supabase: SupabaseClient,
+  clinicId: string,
+  minDays: number,
+  payers: Payer[]
+): Promise<ClaimStatusCandidate[]> {
+  const [patientsResult, rows] = await Promise.all([
+    supabase.from('patients').select('*').eq('clinic_id', clinicId),
+    fetchClinicSheetRows(supabase, clinicId, LOOKBACK_MONTHS),
+  ])
+  if (patientsResult.error) throw patientsResult.error
+  return findClaimStatusCandidates(rows, { patients: (patientsResult.data || []) as Patient[], payers, minDays })
+}
+
+export async function fetchClaimStatusInquiries(supabase: SupabaseClient, clinicId: string): Promise<ClaimStatusInquiry[]> {
+  const { data, error } = await supabase
+    .from('claim_status_inquiries')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return (data || []) as ClaimStatusInquiry[]
+}
+
+export async function saveClaimStatusInquiry(
+  supabase: SupabaseClient,
+  inquiry: Omit<ClaimStatusInquiry, 'id' | 'created_at'>
+): Promise<ClaimStatusInquiry> {
+  const { data, error } = await supabase.from('claim_status_inquiries').insert(inquiry).select().single()
+  if (error) throw error
+  return data as ClaimStatusInquiry
+}
+
+export async function fetchClaimStatusHistory(supabase: SupabaseClient, clinicId: string): Promise<ClaimStatusHistoryEntry[]> {
+  const { data, error } = await supabase
+    .from('claim_status_history')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return (data || []) as ClaimStatusHistoryEntry[]
+}
+
+/**
+ * Records a 277 as claim_status_history entries. Claims are matched to sheet rows by the TRN / REF*EJ claim control
+ * number; each matched claim gets one entry from its current (first) claim-level STC. When the status maps to a
+ * different Claim Status the entry is left open for review, and older open proposals for the row are dismissed.
+ */
+export async function ingest277(
+  supabase: SupabaseClient,
+  clinicId: string,
+  fileName: string,
+  content: string,
+  userId: string | null
+): Promise<Claim277IngestResult> {
+  const claims = parse277(content)
+  if (claims.length === 0) throw new Error('The 277 contains no claim status responses.')
+  const rows = await fetchClinicSheetRows(supabase, clinicId, LOOKBACK_MONTHS)
+  const byControl = new Map<string, { row: SheetRow; sheet: ProviderSheet }>()
+  rows.forEach((c) => byControl.set(claimControlNumberForRow(c.row.id), c))
+
+  const unmatched: Claim277[] = []
+  const payloads: Array<Omit<ClaimStatusHistoryEntry, 'id' | 'created_at'>> = []
+  claims.forEach((claim) => {
+    const match =
+      byControl.get((claim.traceNumber ?? '').toUpperCase()) ?? byControl.get((claim.patientAccountNumber ?? '').toUpperCase())
+    const status = claim.statuses[0]
+    if (!match || !status) {
+      unmatched.push(claim)
+      return
+    }
+    const proposed = proposedClaimStatusFor(status.categoryCode, match.row.claim_status)
+    payloads.push({
+      clinic_id: clinicId,
+      provider_sheet_row_id: match.row.id,
+      provider_id: match.sheet.provider_id,
+      patient_id: match.row.patient_id,
+      date_of_service: toIsoDate(match.row.appointment_date),
+      claim_control_number: claimControlNumberForRow(match.row.id),
+      payer_name: claim.payerName,
+      payer_claim_number: claim.payerClaimNumber,
+      category_code: status.categoryCode,
+      status_code: status.statusCode,
+      entity_code: status.entityCode,
+      effective_date: status.effectiveDate,
+      charge_amount: status.chargeAmount,
+      paid_amount: status.paidAmount,
+      response_file_name: fileName,
+      claim_status_before: match.row.claim_status,
+      proposed_claim_status: proposed,
+      review_status: proposed ? 'open' : null,
+      reviewed_by: null,
+      reviewed_at: null,
+      created_by: userId,
+    })
+  })
+  if (payloads.length === 0) return { entries: [], unmatched }
+
+  const { error: dismissError } = await supabase
+    .from('claim_status_history')
+    .update({ review_status: 'dismissed', reviewed_by: userId, reviewed_at: new Date().toISOString() })
+    .eq('clinic_id', clinicId)
+    .eq('review_status', 'open')
+    .in('provider_sheet_row_id', payloads.map((p) => p.provider_sheet_row_id))
+  if (dismissError) throw dismissError
+  const { data, error } = await supabase.from('claim_status_history').insert(payloads).select()
+  if (error) throw error
+  return { entries: (data || []) as ClaimStatusHistoryEntry[], unmatched }
+}
+
+/**
+ * Writes the proposed Claim Status of each open entry to its sheet row (re-reading the sheet first so other edits
+ * are kept) and marks the entry applied. Rows whose Claim Status column is locked are skipped and stay open.
+ */
+export async function applyClaimStatusProposals(
+  supabase: SupabaseClient,
+  clinicId: string,
+  entries: ClaimStatusHistoryEntry[],
+  userId: string | null
+): Promise<ApplyClaimStatusResult> {
+  const open = entries.filter((e) => e.review_status === 'open' && e.proposed_claim_status && e.provider_sheet_row_id)
+  if (open.length === 0) return { applied: 0, skipped: 0 }
+  const { data: rowRefs, error: refError } = await supabase
+    .from('provider_sheet_rows')
+    .select('id, sheet_id')
+    .in('id', open.map((e) => e.provider_sheet_row_id))
+  if (refError) throw refError
+  const sheetIdByRowId = new Map(((rowRefs || []) as Array<{ id: string; sheet_id: string }>).map((r) => [r.id, r.sheet_id]))
+  const sheetIds = Array.from(new Set(sheetIdByRowId.values()))
+  const { data: sheetsData, error: sheetsError } = await supabase.from('provider_sheets').select('*').in('id', sheetIds)
+  if (sheetsError) throw sheetsError
+  const lockedBySheet = await fetchLockedFieldsBySheetId(supabase, clinicId, (sheetsData || []) as ProviderSheet[])
+
+  const appliedIds: string[] = []
+  for (const sheetId of sheetIds) {
+    if (lockedBySheet.get(sheetId)?.has('claim_status')) continue
+    const sheetEntries = open.filter((e) => sheetIdByRowId.get(e.provider_sheet_row_id as string) === sheetId)
+    const statusByRowId = new Map(sheetEntries.map((e) => [e.provider_sheet_row_id as string, e.proposed_claim_status as string]))
+    const rows = await fetchSheetRows(supabase, sheetId)
+    const now = new Date().toISOString()
+    const updated = rows.map((row) => {
+      const status = statusByRowId.get(row.id)
+      return status ? { ...row, claim_status: status as ClaimStatus, updated_at: now } : row
+    })
+    await saveSheetRows(supabase, sheetId, updated)
+    appliedIds.push(...sheetEntries.map((e) => e.id))
+  }
+
+  if (appliedIds.length > 0) {
+    const { error } = await supabase
+      .from('claim_status_history')
+      .update({ review_status: 'applied', reviewed_by: userId, reviewed_at: new Date().toISOString() })
+      .in('id', appliedIds)
+    if (error) throw error
+  }
+  return { applied: appliedIds.length, skipped: open.length - appliedIds.length }
+}
+
+export async function dismissClaimStatusProposals(supabase: SupabaseClient, ids: string[], userId: string | null): Promise<void> {
+  if (ids.length === 0) return
+  const { error } = await supabase
+    .from('claim_status_history')
+    .update({ review_status: 'dismissed', reviewed_by: userId, reviewed_at: new Date().toISOString() })
+    .in('id', ids)
+  if (error) throw error
+}
@@ -11,6 +11,8 @@ export interface ClinicInvoiceSummaryRow {
   patient_payment_total: number
   accounts_receivable_total: number
   additional_fee?: number
+  /** Patient refunds issued during the month. */
+  refund_total?: number
   total: number
   invoice_total: number
   invoice_rate: number | null
@@ -74,8 +76,9 @@ export async function generateClinicInvoicePdf(
   } else {
     y += 18
   }
-  // Total = ins + patient pay + AR + additional fee; billing amount = total * invoice rate
+  // Total = ins + patient pay + AR + additional fee - refunds issued; billing amount = total * invoice rate
   const total = row.total
+  const refundTotal = row.refund_total != null ? Number(row.refund_total) : 0
   const rate = row.invoice_rate != null ? row.invoice_rate : 0
   const billingAmount = total * rate
 
@@ -91,7 +94,8 @@ export async function generateClinicInvoicePdf(
 
   const ratePct = row.invoice_rate != null ? (row.invoice_rate * 100).toFixed(2) : '0'
   const tableBody: (string | number)[][] = [
-    ['Total (Insurance + Patient Pay + AR + Additional Fee)', '$0.00', formatCurrency(total)],
+    ...(refundTotal !== 0 ? [['Patient Refunds Issued', '$0.00', `-${formatCurrency(refundTotal)}`]] : []),
+    [refundTotal !== 0 ? 'Total (Insurance + Patient Pay + AR + Additional Fee - Refunds)' : 'Total (Insurance + Patient Pay + AR + Additional Fee)', '$0.00', formatCurrency(total)],
     [`Billing Fee: ${ratePct}% of Total`, formatCurrency(billingAmount), formatCurrency(billingAmount)],
   ]
   autoTable(doc, {
@@ -0,0 +1,289 @@
+import jsPDF from 'jspdf'
+import type { Clinic, Patient, Provider, SheetRow } from '@/types'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { parsePostalAddress } from '@/lib/postalAddress'
+import { claimControlNumberForRow, type Claim837pCob } from '@/lib/claim837p'
+import { cptCodesForRow } from '@/lib/providerSheetRows'
+import { roundMoney } from '@/lib/utils'
+
+/** Data to print a CMS-1500 from (same inputs as the 837P builder). */
+export interface Cms1500Context {
+  clinic: Clinic
+  /** clinic_addresses lines 1–6. */
+  clinicAddressLines: string[]
+  provider: Provider
+  patients: Patient[]
+}
+
+export interface Cms1500Options {
+  /** 'data' = text only, aligned for the red pre-printed form; 'full' = draws the form boxes and labels too. */
+  mode: 'data' | 'full'
+  /** ICD-10 code for box 21A (sheet rows do not carry diagnoses). */
+  diagnosisCode: string
+  /** Printer alignment nudge in inches (data mode); positive moves text right / down. */
+  offsetX?: number
+  offsetY?: number
+  /** Rows billed to a secondary / tertiary payer: insured from that coverage, box 9 from the payer ahead of it, box 29 its payments. */
+  cobByRowId?: Record<string, Claim837pCob>
+}
+
+/** Box 6 checkbox column per patient relationship to the insured. */
+const RELATIONSHIP_COLUMNS = { self: 33, spouse: 38, child: 42, other: 47 } as const
+
+/** Service lines per form (box 24 has six). Rows with more CPT codes continue on another page. */
+const LINES_PER_FORM = 6
+
+// The form is laid out on the NUCC character grid: 10 characters per inch, 6 lines per inch.
+const LEFT_IN = 0.25
+const TOP_IN = 0.33
+const COL_IN = 0.1
+const LINE_IN = 1 / 6
+
+function money(n: number): { dollars: string; cents: string } {
+  const fixed = roundMoney(n).toFixed(2)
+  const [dollars, cents] = fixed.split('.')
+  return { dollars, cents }
+}
+
+function dateParts(value: string | null | undefined): [string, string, string] | null {
+  const s = String(value ?? '').trim().replace(/\//g, '-')
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s)
+  if (iso) return [iso[2], iso[3], iso[1]]
+  const us = /^(\d{1,2})-(\d{1,2})-(\d{2}|\d{4})$/.exec(s)
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3]
+    return [us[1].padStart(2, '0'), us[2].padStart(2, '0'), year]
+  }
+  return null
+}
+
+function splitCharge(total: number, count: number): number[] {
+  if (count <= 0) return []
+  const cents = Math.round(total * 100)
+  const each = Math.floor(cents / count)
+  return Array.from({ length: count }, (_, i) => (i === 0 ? each + (cents - each * count) : each) / 100)
+}
+
+/** Draws the form outline and box labels in red (used for 'full' mode). */
+function drawFormBackground(doc: jsPDF) {
+  const x = (col: number) => LEFT_IN + (col - 1) * COL_IN
+  const y = (line: number) => TOP_IN + line * LINE_IN
+  doc.setDrawColor(200, 30, 30)
+  doc.setTextColor(200, 30, 30)
+  doc.setLineWidth(0.01)
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(14)
+  doc.text('HEALTH INSURANCE CLAIM FORM', x(1), y(5))
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(6)
+  doc.text('APPROVED BY NATIONAL UNIFORM CLAIM COMMITTEE (NUCC) 02/12', x(1), y(5.8))
+
+  const box = (col: number, line: number, widthCols: number, heightLines: number, label: string) => {
+    doc.rect(x(col), y(line - 1), widthCols * COL_IN, heightLines * LINE_IN)
+    doc.text(label, x(col) + 0.03, y(line - 1) + 0.08)
+  }
+  box(1, 8, 49, 2, '1. MEDICARE   MEDICAID   TRICARE   CHAMPVA   GROUP HEALTH PLAN   FECA BLK LUNG   OTHER')
+  box(50, 8, 29, 2, "1a. INSURED'S I.D. NUMBER")
+  box(1, 10, 30, 2, "2. PATIENT'S NAME (Last Name, First Name, Middle Initial)")
+  box(31, 10, 19, 2, "3. PATIENT'S BIRTH DATE        SEX")
+  box(50, 10, 29, 2, "4. INSURED'S NAME (Last Name, First Name, Middle Initial)")
+  box(1, 12, 30, 2, "5. PATIENT'S ADDRESS (No., Street)")
+  box(31, 12, 19, 2, '6. PATIENT RELATIONSHIP TO INSURED')
+  box(50, 12, 29, 2, "7. INSURED'S ADDRESS (No., Street)")
+  box(1, 14, 30, 2, 'CITY                                        STATE')
+  box(50, 14, 29, 2, 'CITY                                        STATE')
+  box(1, 16, 30, 2, 'ZIP CODE            TELEPHONE')
+  box(50, 16, 29, 2, 'ZIP CODE            TELEPHONE')
+  box(1, 18, 30, 8, "9. OTHER INSURED'S NAME")
+  box(31, 18, 19, 8, "10. IS PATIENT'S CONDITION RELATED TO:")
+  box(50, 18, 29, 8, "11. INSURED'S POLICY GROUP OR FECA NUMBER")
+  box(1, 28, 49, 3, "12. PATIENT'S OR AUTHORIZED PERSON'S SIGNATURE")
+  box(50, 28, 29, 3, "13. INSURED'S OR AUTHORIZED PERSON'S SIGNATURE")
+  box(1, 38, 78, 4, '21. DIAGNOSIS OR NATURE OF ILLNESS OR INJURY')
+  box(1, 43, 78, 12, '24. A. DATE(S) OF SERVICE   B. POS  C. EMG  D. PROCEDURES   E. DIAG PTR   F. $ CHARGES   G. UNITS   J. RENDERING NPI')
+  box(1, 56, 22, 2, '25. FEDERAL TAX I.D. NUMBER')
+  box(23, 56, 14, 2, "26. PATIENT'S ACCOUNT NO.")
+  box(37, 56, 13, 2, '27. ACCEPT ASSIGNMENT?')
+  box(50, 56, 12, 2, '28. TOTAL CHARGE')
+  box(62, 56, 17, 2, '29. AMOUNT PAID')
+  box(1, 58, 22, 5, '31. SIGNATURE OF PHYSICIAN OR SUPPLIER')
+  box(23, 58, 27, 5, '32. SERVICE FACILITY LOCATION INFORMATION')
+  box(50, 58, 29, 5, '33. BILLING PROVIDER INFO & PH #')
+  doc.setTextColor(0, 0, 0)
+}
+
+/**
+ * Renders CMS-1500 (02/12) claim forms, one per sheet row (continued on extra pages past six CPT lines).
+ * Patient/insured from `patients`, billing provider (box 25/33) from the clinic, rendering NPI (24J) from the
+ * provider, and service lines from cpt_code / appointment_date with `total` split across the row's CPT codes.
+ * Rows in options.cobByRowId print as secondary / tertiary claims (see Cms1500Options.cobByRowId).
+ */
+export function generateCms1500Pdf(rows: SheetRow[], context: Cms1500Context, options: Cms1500Options): jsPDF {
+  const doc = new jsPDF({ unit: 'in', format: 'letter' })
+  const offsetX = options.mode === 'data' ? options.offsetX ?? 0 : 0
+  const offsetY = options.mode === 'data' ? options.offsetY ?? 0 : 0
+  const x = (col: number) => LEFT_IN + (col - 1) * COL_IN + offsetX
+  const y = (line: number) => TOP_IN + line * LINE_IN + offsetY
+  const put = (line: number, col: number, value: string | null | undefined, maxCols?: number) => {
+    const s = String(value ?? '').toUpperCase()
+    if (!s) return
+    doc.text(maxCols ? s.slice(0, maxCols) : s, x(col), y(line))
+  }
+  const putRight = (line: number, endCol: number, value: string) => {
+    doc.text(value, x(endCol + 1) - 0.02, y(line), { align: 'right' })
+  }
+
+  const { clinic, provider } = context
+  const clinicAddress = parsePostalAddress(context.clinicAddressLines)
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+  const today = dateParts(new Date().toISOString().slice(0, 10))
+
+  let firstPage = true
+  rows.forEach((row) => {
+    const patient = row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined
+    const cob = options.cobByRowId?.[row.id]
+    const coverage = cob?.coverage
+    const insuredIsPatient = !coverage || coverage.relationship === 'self'
+    const otherPayer = cob?.priorPayers[cob.priorPayers.length - 1]
+    const codes = cptCodesForRow(row)
+    // Secondary claims repeat the charge the primary adjudicated.
+    const charge = cob?.priorPayers[0]?.payment.charge_amount ?? (parseFloat(row.total ?? '') || 0)
+    const charges = splitCharge(charge, codes.length)
+    const pages = Math.max(1, Math.ceil(codes.length / LINES_PER_FORM))
+
+    for (let page = 0; page < pages; page++) {
+      if (!firstPage) doc.addPage()
+      firstPage = false
+      if (options.mode === 'full') drawFormBackground(doc)
+      doc.setFont('courier', 'normal')
+      doc.setFontSize(10)
+
+      // Carrier block (top right): payer name
+      put(2, 50, coverage?.payer_name ?? patient?.insurance ?? row.patient_insurance, 29)
+
+      // Box 1 (Group health plan) / 1a
+      put(8, 31, 'X')
+      put(8, 50, coverage?.subscriber_id ?? patient?.subscriber_id, 29)
+
+      // Box 2 / 3 / 4
+      const lastName = patient?.last_name ?? row.patient_last_name ?? row.last_initial ?? ''
+      const firstName = patient?.first_name ?? row.patient_first_name ?? ''
+      const fullName = [lastName, firstName].filter(Boolean).join(', ')
+      put(10, 1, fullName, 28)
+      const dob = dateParts(patient?.date_of_birth)
+      if (dob) {
+        put(10, 31, dob[0])
+        put(10, 34, dob[1])
+        put(10, 37, dob[2])
+      }
+      const insuredName = insuredIsPatient
+        ? fullName
+        : [coverage?.subscriber_last_name, coverage?.subscriber_first_name].filter(Boolean).join(', ')
+      put(10, 50, insuredName, 29)
+
+      // Box 5 / 6 / 7 (insured address only when the patient is the insured)
+      const patientAddress = parsePostalAddress(patient?.address ?? '')
+      put(12, 1, patientAddress?.street ?? patient?.address, 28)
+      put(12, RELATIONSHIP_COLUMNS[coverage?.relationship ?? 'self'], 'X')
+      if (insuredIsPatient) put(12, 50, patientAddress?.street ?? patient?.address, 29)
+      if (patientAddress) {
+        put(14, 1, patientAddress.city, 24)
+        put(14, 26, patientAddress.state)
+        put(16, 1, patientAddress.zip)
+        if (insuredIsPatient) {
+          put(14, 50, patientAddress.city, 23)
+          put(14, 74, patientAddress.state)
+          put(16, 50, patientAddress.zip)
+        }
+      }
+      put(16, 15, patient?.phone, 14)
+
+      // Box 9 / 9a / 9d: the payer billed ahead of this one
+      if (otherPayer) {
+        const other = otherPayer.coverage
+        put(18, 1, other.relationship === 'self' ? fullName : [other.subscriber_last_name, other.subscriber_first_name].filter(Boolean).join(', '), 28)
+        put(20, 1, other.subscriber_id, 28)
+        put(26, 1, otherPayer.payment.payer_name || other.payer_name, 28)
+      }
+
+      // Box 10a–c (No), 11 / 11d (another plan: Yes for secondary claims)
+      put(20, 41, 'X')
+      put(22, 41, 'X')
+      put(24, 41, 'X')
+      put(18, 50, coverage ? coverage.group_number : 'NONE')
+      put(26, otherPayer ? 52 : 57, 'X')
+
+      // Box 12 / 13
+      put(28, 6, 'SIGNATURE ON FILE')
+      if (today) put(28, 39, `${today[0]} ${today[1]} ${today[2]}`)
+      put(28, 56, 'SIGNATURE ON FILE')
+
+      // Box 21: ICD indicator 0 (ICD-10) and diagnosis A
+      put(37, 37, '0')
+      put(38, 3, options.diagnosisCode.replace('.', ''))
+
+      // Box 24: up to six service lines on the unshaded rows
+      const dos = dateParts(row.appointment_date)
+      const pageCodes = codes.slice(page * LINES_PER_FORM, (page + 1) * LINES_PER_FORM)
+      const pageCharges = charges.slice(page * LINES_PER_FORM, (page + 1) * LINES_PER_FORM)
+      const placeOfService = row.visit_type === 'Telehealth' ? '10' : '11'
+      pageCodes.forEach((code, i) => {
+        const line = 44 + i * 2
+        if (dos) {
+          const yy = dos[2].slice(-2)
+          put(line, 1, dos[0]); put(line, 4, dos[1]); put(line, 7, yy)
+          put(line, 10, dos[0]); put(line, 13, dos[1]); put(line, 16, yy)
+        }
+        put(line, 19, placeOfService)
+        const [cpt, ...modifiers] = code.split(/[-:\s]+/)
+        put(line, 25, cpt)
+        modifiers.slice(0, 4).forEach((m, mi) => put(line, 32 + mi * 3, m))
+        put(line, 44, 'A')
+        const { dollars, cents } = money(pageCharges[i] ?? 0)
+        putRight(line, 57, dollars)
+        put(line, 58, cents)
+        put(line, 61, '1')
+        put(line, 68, provider.npi)
+      })
+
+      // Box 25 / 26 / 27 / 28 / 29
+      put(56, 1, clinic.ein)
+      put(56, 19, 'X')
+      put(56, 23, claimControlNumberForRow(row.id), 14)
+      put(56, 37, 'X')
+      const pageTotal = money(pageCharges.reduce((sum, c) => sum + c, 0))
+      putRight(56, 57, pageTotal.dollars)
+      put(56, 58, pageTotal.cents)
+      const paid = money(
+        cob ? cob.priorPayers.reduce((sum, p) => sum + p.payment.paid_amount, 0) : parseFloat(row.insurance_payment ?? '') || 0
+      )
+      putRight(56, 72, paid.dollars)
+      put(56, 73, paid.cents)
+
+      // Box 31: rendering provider signature; Box 32 / 33: clinic
+      doc.setFontSize(8)
+      put(60, 1, `${provider.first_name} ${provider.last_name}`, 22)
+      if (today) put(61, 1, `${today[0]}/${today[1]}/${today[2]}`)
+      put(58, 23, clinic.name, 26)
+      put(58, 50, clinic.name, 29)
+      if (clinicAddress) {
+        put(59, 23, clinicAddress.street, 26)
+        put(60, 23, `${clinicAddress.city}, ${clinicAddress.state} ${clinicAddress.zip}`, 26)
+        put(59, 50, clinicAddress.street, 29)
+        put(60, 50, `${clinicAddress.city}, ${clinicAddress.state} ${clinicAddress.zip}`, 29)
+      }
+      put(57, 66, clinic.phone, 13)
+      doc.setFontSize(10)
+      put(62, 24, clinic.npi)
+      put(62, 51, clinic.npi)
+
+      if (pages > 1) {
+        doc.setFontSize(8)
+        put(64, 1, `PAGE ${page + 1} OF ${pages}`)
+      }
+    }
+  })
+
+  return doc
+}
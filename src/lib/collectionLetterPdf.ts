@@ -0,0 +1,101 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import { formatCurrency, toDisplayDate, todayIso } from './utils'
+import { daysSince } from './arAging'
+import { patientAddressLines, type StatementClinicInfo } from './patientStatementPdf'
+import { COLLECTION_STAGE_LABELS, letterTemplateFor, nextStepDueDate, renderLetter, type CollectionSettingsInput, type LetterStage } from './collections'
+import type { PatientStatement } from './patientStatements'
+import type { PatientCollection } from '@/types'
+
+export interface CollectionLetter {
+  account: PatientCollection
+  statement: PatientStatement
+}
+
+function drawRightText(doc: jsPDF, text: string, rightX: number, y: number) {
+  doc.text(text, rightX - doc.getTextWidth(text), y)
+}
+
+function drawLetter(doc: jsPDF, letter: CollectionLetter, info: StatementClinicInfo, settings: CollectionSettingsInput) {
+  const { account, statement } = letter
+  const stage = account.stage as LetterStage
+  const pageW = doc.internal.pageSize.getWidth()
+  const clinicLines = info.addressLines.map((l) => l.trim()).filter(Boolean)
+  const today = todayIso()
+
+  doc.setFontSize(14)
+  doc.setFont('helvetica', 'bold')
+  doc.text(info.clinic.name, 14, 20)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  let y = 26
+  clinicLines.forEach((line) => {
+    doc.text(line, 14, y)
+    y += 5
+  })
+  if (info.clinic.phone) {
+    doc.text(`Phone: ${info.clinic.phone}`, 14, y)
+    y += 5
+  }
+
+  doc.setFontSize(16)
+  drawRightText(doc, stage === 'final_notice' ? 'FINAL NOTICE' : 'PAST DUE NOTICE', pageW - 14, 22)
+  doc.setFontSize(10)
+  drawRightText(doc, `Date: ${toDisplayDate(today)}`, pageW - 14, 30)
+  drawRightText(doc, `Account: ${statement.patientId}`, pageW - 14, 36)
+
+  y = Math.max(y, 42) + 6
+  const addressLines = patientAddressLines(statement)
+  addressLines.forEach((line, i) => doc.text(line, 14, y + i * 5))
+  y += addressLines.length * 5 + 8
+
+  const dueDate = nextStepDueDate(account, settings)
+  const oldest = statement.lines[0]?.dateOfService
+  const body = renderLetter(letterTemplateFor(stage, settings), {
+    patient_name: statement.patientName || statement.patientId,
+    account: statement.patientId,
+    balance_due: formatCurrency(statement.balanceDue),
+    days_past_due: oldest ? String(daysSince(oldest, today)) : '',
+    due_date: dueDate ? toDisplayDate(dueDate) : '',
+    clinic_name: info.clinic.name,
+    clinic_phone: info.clinic.phone ?? '',
+    agency_name: settings.agency_name?.trim() || 'a collection agency',
+    today: toDisplayDate(today),
+  })
+  doc.splitTextToSize(body, pageW - 28).forEach((line: string) => {
+    doc.text(line, 14, y)
+    y += 5
+  })
+  y += 4
+
+  autoTable(doc, {
+    head: [['Date of Service', 'Service', 'Charges', 'Paid', 'Adjustments', 'Balance Due']],
+    body: statement.lines.map((line) => [
+      toDisplayDate(line.dateOfService),
+      line.cptCode,
+      formatCurrency(line.charges),
+      formatCurrency(line.insurancePaid + line.patientPaid),
+      formatCurrency(line.adjustments),
+      formatCurrency(line.balanceDue),
+    ]),
+    foot: [['Total', '', '', '', '', formatCurrency(statement.balanceDue)]],
+    startY: y,
+    headStyles: { fillColor: [80, 80, 80] },
+    footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0] },
+    margin: { left: 14, right: 14 },
+    styles: { fontSize: 9 },
+  })
+
+  doc.setFontSize(8)
+  doc.text(`${COLLECTION_STAGE_LABELS[stage]} · Please make payment to ${info.clinic.name} and include your account number.`, 14, (doc as any).lastAutoTable.finalY + 8)
+}
+
+/** One letter per account (each on its own page) for the stage the account is now in. */
+export function generateCollectionLettersPdf(letters: CollectionLetter[], info: StatementClinicInfo, settings: CollectionSettingsInput): jsPDF {
+  const doc = new jsPDF()
+  letters.forEach((letter, i) => {
+    if (i > 0) doc.addPage()
+    drawLetter(doc, letter, info, settings)
+  })
+  return doc
+}
@@ -0,0 +1,443 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  BillingCode,
+  CollectionSettings,
+  CollectionStage,
+  Patient,
+  PatientCollection,
+  PatientCollectionEvent,
+} from '@/types'
+import { fetchClinicSheetRows } from '@/lib/providerSheetRows'
+import { fetchPayers } from '@/lib/payers'
+import { createFeeScheduleLookup, fetchFeeSchedules } from '@/lib/feeSchedules'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { daysSince } from '@/lib/arAging'
+import { fetchPostedAdjustmentTotals } from '@/lib/adjustments'
+import { STATEMENT_PAY_STATUSES, buildPatientStatements, fetchLastStatementDates, type PatientStatement } from '@/lib/patientStatements'
+import { parseAmount, todayIso, roundMoney, addDaysIso } from '@/lib/utils'
+
+/** Stages that send the patient a letter (the agency stage exports the account instead). */
+export type LetterStage = Exclude<CollectionStage, 'agency'>
+
+export const COLLECTION_STAGES: Array<{ key: CollectionStage; label: string }> = [
+  { key: 'statement_1', label: 'Statement 1' },
+  { key: 'statement_2', label: 'Statement 2' },
+  { key: 'final_notice', label: 'Final notice' },
+  { key: 'agency', label: 'Sent to agency' },
+]
+
+export const COLLECTION_STAGE_LABELS: Record<CollectionStage, string> = Object.fromEntries(
+  COLLECTION_STAGES.map((s) => [s.key, s.label])
+) as Record<CollectionStage, string>
+
+/** Lines billed in collections: the statement statuses plus rows the sheet already marks Collections. */
+export const COLLECTION_PAY_STATUSES = new Set([...STATEMENT_PAY_STATUSES, 'Collections'])
+
+/** Visits older than this are not counted toward a collections balance. */
+const COLLECTION_LOOKBACK_MONTHS = 24
+
+export const DEFAULT_COLLECTION_LETTERS: Record<LetterStage, string> = {
+  statement_1: `Dear {{patient_name}},
+
+Our records show a balance of {{balance_due}} on your account ({{account}}) for services received at {{clinic_name}}. This balance is more than {{days_past_due}} days past due.
+
+Please pay the balance by {{due_date}} or call us at {{clinic_phone}} to discuss a payment plan.`,
+  statement_2: `Dear {{patient_name}},
+
+This is our second notice that your account ({{account}}) has an unpaid balance of {{balance_due}}. We have not received payment or heard from you since our last statement.
+
+Please pay the balance by {{due_date}}. If you cannot pay in full, call us at {{clinic_phone}} to set up a payment plan.`,
+  final_notice: `Dear {{patient_name}},
+
+FINAL NOTICE: Your account ({{account}}) remains unpaid with a balance of {{balance_due}}.
+
+Unless the balance is paid or a payment arrangement is made by {{due_date}}, your account will be referred to {{agency_name}} for collection. Please call {{clinic_phone}} right away.`,
+}
+
+/** Placeholders a letter template may use. */
+export const LETTER_PLACEHOLDERS = [
+  'patient_name', 'account', 'balance_due', 'days_past_due', 'due_date', 'clinic_name', 'clinic_phone', 'agency_name', 'today',
+]
+
+export const DEFAULT_COLLECTION_SETTINGS: Omit<CollectionSettings, 'clinic_id' | 'updated_by' | 'updated_at'> = {
+  min_balance: 25,
+  start_after_days: 90,
+  statement_2_days: 30,
+  final_notice_days: 30,
+  agency_days: 30,
+  agency_name: null,
+  statement_1_letter: null,
+  statement_2_letter: null,
+  final_notice_letter: null,
+}
+
+export type CollectionSettingsInput = Omit<CollectionSettings, 'clinic_id' | 'updated_by' | 'updated_at'>
+
+export interface CollectionsData {
+  settings: CollectionSettingsInput
+  /** Every account in the clinic, newest first. */
+  accounts: PatientCollection[]
+  events: PatientCollectionEvent[]
+  /** Open balances (statement and Collections lines) by normalized patient ID. */
+  statementsByKey: Map<string, PatientStatement>
+  /** PT Paid over all of the patient's sheet rows (no lookback, so it never drops), by normalized patient ID. */
+  paidByKey: Map<string, number>
+}
+
+export interface CollectionCandidate {
+  statement: PatientStatement
+  /** Age in days of the oldest open visit. */
+  oldestDays: number
+}
+
+export interface StageRecovery {
+  stage: CollectionStage
+  /** Accounts that reached the stage. */
+  accounts: number
+  /** Balance owed when they reached it. */
+  balance: number
+  /** Payments received while accounts were in the stage. */
+  recovered: number
+  /** recovered / balance; null with no balance. */
+  rate: number | null
+}
+
+export function nextCollectionStage(stage: CollectionStage): CollectionStage | null {
+  const idx = COLLECTION_STAGES.findIndex((s) => s.key === stage)
+  return idx >= 0 && idx < COLLECTION_STAGES.length - 1 ? COLLECTION_STAGES[idx + 1].key : null
+}
+
+/** Days an account waits in `stage` before the next step is due. */
+function daysBeforeNextStage(stage: CollectionStage, settings: CollectionSettingsInput): number | null {
+  if (stage === 'statement_1') return settings.statement_2_days
+  if (stage === 'statement_2') return settings.final_notice_days
+  if (stage === 'final_notice') return settings.agency_days
+  return null
+}
+
+/** YYYY-MM-DD the account's next step is due, or null when it is at the agency or no longer active. */
+export function nextStepDueDate(account: PatientCollection, settings: CollectionSettingsInput): string | null {
+  if (account.status !== 'active') return null
+  const days = daysBeforeNextStage(account.stage, settings)
+  return days == null ? null : addDaysIso(account.stage_date, days)
+}
+
+export function isNextStepDue(account: PatientCollection, settings: CollectionSettingsInput, today = todayIso()): boolean {
+  const due = nextStepDueDate(account, settings)
+  return due != null && due <= today
+}
+
+export function letterTemplateFor(stage: LetterStage, settings: CollectionSettingsInput): string {
+  const custom = stage === 'statement_1' ? settings.statement_1_letter : stage === 'statement_2' ? settings.statement_2_letter : settings.final_notice_letter
+  return custom?.trim() ? custom : DEFAULT_COLLECTION_LETTERS[stage]
+}
+
+/** Replaces {{placeholder}} tokens; unknown tokens are left as typed. */
+export function renderLetter(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => (key in values ? values[key] : match))
+}
+
+/** Patients owing at least the minimum whose oldest open visit is past the start threshold and who have no active account. */
+export function findCollectionCandidates(data: CollectionsData, today = todayIso()): CollectionCandidate[] {
+  const active = new Set(data.accounts.filter((a) => a.status === 'active').map((a) => normalizePatientIdKey(a.patient_id)))
+  const candidates: CollectionCandidate[] = []
+  data.statementsByKey.forEach((statement, key) => {
+    if (active.has(key) || statement.balanceDue < data.settings.min_balance || statement.lines.length === 0) return
+    const oldestDays = daysSince(statement.lines[0].dateOfService, today)
+    if (oldestDays < data.settings.start_after_days) return
+    candidates.push({ statement, oldestDays })
+  })
+  return candidates.sort((a, b) => b.statement.balanceDue - a.statement.balanceDue)
+}
+
+/** Balance owed and payments recovered per stage, from the event history. */
+export function summarizeRecovery(events: PatientCollectionEvent[]): StageRecovery[] {
+  return COLLECTION_STAGES.map(({ key }) => {
+    const entered = events.filter((e) => e.event_type === 'stage' && e.stage === key)
+    const balance = roundMoney(entered.reduce((sum, e) => sum + (e.amount ?? 0), 0))
+    const recovered = roundMoney(events.filter((e) => e.event_type === 'payment' && e.stage === key).reduce((sum, e) => sum + (e.amount ?? 0), 0))
+    return { stage: key, accounts: entered.length, balance, recovered, rate: balance > 0 ? recovered / balance : null }
+  })
+}
+
+function toAccount(a: PatientCollection): PatientCollection {
+  return { ...a, balance_placed: Number(a.balance_placed), current_balance: Number(a.current_balance), paid_baseline: Number(a.paid_baseline) }
+}
+
+function toEvent(e: PatientCollectionEvent): PatientCollectionEvent {
+  return { ...e, amount: e.amount == null ? null : Number(e.amount) }
+}
+
+export async function fetchCollectionSettings(supabase: SupabaseClient, clinicId: string): Promise<CollectionSettingsInput> {
+  const { data, error } = await supabase.from('collection_settings').select('*').eq('clinic_id', clinicId).maybeSingle()
+  if (error) throw error
+  if (!data) return { ...DEFAULT_COLLECTION_SETTINGS }
+  const s = data as CollectionSettings
+  return {
+    min_balance: Number(s.min_balance),
+    start_after_days: s.start_after_days,
+    statement_2_days: s.statement_2_days,
+    final_notice_days: s.final_notice_days,
+    agency_days: s.agency_days,
+    agency_name: s.agency_name,
+    statement_1_letter: s.statement_1_letter,
+    statement_2_letter: s.statement_2_letter,
+    final_notice_letter: s.final_notice_letter,
+  }
+}
+
+export async function saveCollectionSettings(
+  supabase: SupabaseClient,
+  clinicId: string,
+  settings: CollectionSettingsInput,
+  userId: string | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('collection_settings')
+    .upsert({ ...settings, clinic_id: clinicId, updated_by: userId }, { onConflict: 'clinic_id' })
+  if (error) throw error
+}
+
+/** Loads settings, accounts, history and the clinic's current patient balances for the collections tab. */
+export async function fetchCollectionsData(supabase: SupabaseClient, clinicId: string): Promise<CollectionsData> {
+  const [candidates, paidRows, patientsResult, payers, feeSchedules, billingCodesResult, adjustmentTotals, lastStatementDates, settings, accountsResult, eventsResult] = await Promise.all([
+    fetchClinicSheetRows(supabase, clinicId, COLLECTION_LOOKBACK_MONTHS),
+    // Paid totals are compared with each account's paid_baseline, so visits aging out of the lookback must still count
+    fetchClinicSheetRows(supabase, clinicId, null, { nonBlank: ['patient_id', 'collected_from_patient'] }),
+    supabase.from('patients').select('*').eq('clinic_id', clinicId),
+    fetchPayers(supabase),
+    fetchFeeSchedules(supabase),
+    supabase.from('billing_codes').select('*'),
+    fetchPostedAdjustmentTotals(supabase, [clinicId]),
+    fetchLastStatementDates(supabase, clinicId),
+    fetchCollectionSettings(supabase, clinicId),
+    supabase.from('patient_collections').select('*').eq('clinic_id', clinicId).order('created_at', { ascending: false }),
+    supabase.from('patient_collection_events').select('*').eq('clinic_id', clinicId).order('created_at', { ascending: true }),
+  ])
+  if (patientsResult.error) throw patientsResult.error
+  if (billingCodesResult.error) throw billingCodesResult.error
+  if (accountsResult.error) throw accountsResult.error
+  if (eventsResult.error) throw eventsResult.error
+
+  const feeLookup = createFeeScheduleLookup(feeSchedules, payers, (billingCodesResult.data || []) as BillingCode[])
+  const statements = buildPatientStatements(candidates, {
+    patients: (patientsResult.data || []) as Patient[],
+    feeLookup,
+    lastStatementDates,
+    adjustmentTotals,
+    payStatuses: COLLECTION_PAY_STATUSES,
+  })
+  const statementsByKey = new Map(statements.map((s) => [normalizePatientIdKey(s.patientId), s]))
+  const paidByKey = new Map<string, number>()
+  paidRows.forEach(({ row }) => {
+    if (!row.patient_id) return
+    const key = normalizePatientIdKey(row.patient_id)
+    paidByKey.set(key, roundMoney((paidByKey.get(key) ?? 0) + parseAmount(row.collected_from_patient)))
+  })
+
+  return {
+    settings,
+    accounts: ((accountsResult.data || []) as PatientCollection[]).map(toAccount),
+    events: ((eventsResult.data || []) as PatientCollectionEvent[]).map(toEvent),
+    statementsByKey,
+    paidByKey,
+  }
+}
+
+async function insertEvents(supabase: SupabaseClient, events: Array<Omit<PatientCollectionEvent, 'id' | 'created_at' | 'event_date'>>): Promise<void> {
+  if (events.length === 0) return
+  const { error } = await supabase.from('patient_collection_events').insert(events)
+  if (error) throw error
+}
+
+/** Opens an account at statement 1 for each candidate (the caller sends the letters). */
+export async function startCollections(
+  supabase: SupabaseClient,
+  clinicId: string,
+  candidates: CollectionCandidate[],
+  paidByKey: Map<string, number>,
+  userId: string | null
+): Promise<PatientCollection[]> {
+  if (candidates.length === 0) return []
+  const today = todayIso()
+  const { data, error } = await supabase
+    .from('patient_collections')
+    .insert(candidates.map(({ statement }) => ({
+      clinic_id: clinicId,
+      patient_id: statement.patientId,
+      patient_name: statement.patientName || null,
+      stage: 'statement_1',
+      status: 'active',
+      stage_date: today,
+      balance_placed: statement.balanceDue,
+      current_balance: statement.balanceDue,
+      paid_baseline: paidByKey.get(normalizePatientIdKey(statement.patientId)) ?? 0,
+      created_by: userId,
+    })))
+    .select('*')
+  if (error) throw error
+  const accounts = ((data || []) as PatientCollection[]).map(toAccount)
+  await insertEvents(supabase, accounts.map((a) => ({
+    collection_id: a.id,
+    clinic_id: clinicId,
+    event_type: 'stage',
+    stage: 'statement_1',
+    amount: a.current_balance,
+    note: null,
+    created_by: userId,
+  })))
+  return accounts
+}
+
+/** Moves each account to its next stage at today's balance; the agency stage records the placement. */
+export async function advanceCollections(
+  supabase: SupabaseClient,
+  accounts: PatientCollection[],
+  statementsByKey: Map<string, PatientStatement>,
+  agencyName: string | null,
+  userId: string | null
+): Promise<PatientCollection[]> {
+  const today = todayIso()
+  const updated: PatientCollection[] = []
+  for (const account of accounts) {
+    const next = nextCollectionStage(account.stage)
+    if (!next || account.status !== 'active') continue
+    const balance = statementsByKey.get(normalizePatientIdKey(account.patient_id))?.balanceDue ?? account.current_balance
+    const { data, error } = await supabase
+      .from('patient_collections')
+      .update({
+        stage: next,
+        stage_date: today,
+        current_balance: balance,
+        ...(next === 'agency' ? { placed_date: today, agency_name: agencyName } : {}),
+      })
+      .eq('id', account.id)
+      .select('*')
+      .single()
+    if (error) throw error
+    updated.push(toAccount(data as PatientCollection))
+  }
+  await insertEvents(supabase, updated.map((a) => ({
+    collection_id: a.id,
+    clinic_id: a.clinic_id,
+    event_type: 'stage',
+    stage: a.stage,
+    amount: a.current_balance,
+    note: a.stage === 'agency' && a.agency_name ? `Placed with ${a.agency_name}` : null,
+    created_by: userId,
+  })))
+  return updated
+}
+
+/**
+ * Records PT Paid received since the account was last synced as a payment in its current stage, refreshes the
+ * balance, and marks accounts paid once nothing is owed. Returns the accounts that changed.
+ */
+export async function syncCollectionPayments(
+  supabase: SupabaseClient,
+  data: CollectionsData,
+  userId: string | null
+): Promise<PatientCollection[]> {
+  const changed: PatientCollection[] = []
+  const events: Array<Omit<PatientCollectionEvent, 'id' | 'created_at' | 'event_date'>> = []
+  for (const account of data.accounts) {
+    if (account.status !== 'active') continue
+    const key = normalizePatientIdKey(account.patient_id)
+    const paid = data.paidByKey.get(key) ?? 0
+    const received = roundMoney(paid - account.paid_baseline)
+    const balance = data.statementsByKey.get(key)?.balanceDue ?? 0
+    const paidOff = balance <= 0
+    if (received === 0 && balance === account.current_balance && !paidOff) continue
+    const { data: row, error } = await supabase
+      .from('patient_collections')
+      .update({ paid_baseline: paid, current_balance: Math.max(0, balance), ...(paidOff ? { status: 'paid' } : {}) })
+      .eq('id', account.id)
+      .select('*')
+      .single()
+    if (error) throw error
+    changed.push(toAccount(row as PatientCollection))
+    if (received > 0) {
+      events.push({ collection_id: account.id, clinic_id: account.clinic_id, event_type: 'payment', stage: account.stage, amount: received, note: null, created_by: userId })
+    }
+    if (paidOff) {
+      events.push({ collection_id: account.id, clinic_id: account.clinic_id, event_type: 'status', stage: account.stage, amount: null, note: 'Balance paid', created_by: userId })
+    }
+  }
+  await insertEvents(supabase, events)
+  return changed
+}
+
+export async function addCollectionNote(supabase: SupabaseClient, account: PatientCollection, note: string, userId: string | null): Promise<void> {
+  const { error } = await supabase.from('patient_collections').update({ notes: note.trim() }).eq('id', account.id)
+  if (error) throw error
+  await insertEvents(supabase, [{
+    collection_id: account.id,
+    clinic_id: account.clinic_id,
+    event_type: 'note',
+    stage: account.stage,
+    amount: null,
+    note: note.trim(),
+    created_by: userId,
+  }])
+}
+
+/** Takes an account out of the pipeline (settled, disputed, bankrupt, ...). */
+export async function closeCollection(supabase: SupabaseClient, account: PatientCollection, reason: string, userId: string | null): Promise<void> {
+  const { error } = await supabase.from('patient_collections').update({ status: 'closed' }).eq('id', account.id)
+  if (error) throw error
+  await insertEvents(supabase, [{
+    collection_id: account.id,
+    clinic_id: account.clinic_id,
+    event_type: 'status',
+    stage: account.stage,
+    amount: null,
+    note: reason.trim() || 'Closed',
+    created_by: userId,
+  }])
+}
+
+export async function markAgencyExported(supabase: SupabaseClient, accountIds: string[]): Promise<void> {
+  if (accountIds.length === 0) return
+  const { error } = await supabase
+    .from('patient_collections')
+    .update({ agency_exported_at: new Date().toISOString() })
+    .in('id', accountIds)
+  if (error) throw error
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value)
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/**
+ * Agency placement file: one line per account placed, with the patient's contact details and balances: the balance
+ * when collections started (balance_placed) and what is owed now (current_balance).
+ */
+export function agencyPlacementsToCsv(accounts: PatientCollection[], statementsByKey: Map<string, PatientStatement>, clinicName: string): string {
+  const header = [
+    'Account Number', 'Last Name', 'First Name', 'Date of Birth', 'Address', 'Phone', 'Email',
+    'Balance at Statement 1', 'Current Balance', 'Oldest Date of Service', 'Last Statement', 'Placed Date', 'Agency', 'Creditor',
+  ]
+  const lines = accounts.map((a) => {
+    const statement = statementsByKey.get(normalizePatientIdKey(a.patient_id))
+    const patient = statement?.patient
+    return [
+      a.patient_id,
+      patient?.last_name ?? '',
+      patient?.first_name ?? a.patient_name ?? '',
+      patient?.date_of_birth ?? '',
+      patient?.address ?? '',
+      patient?.phone ?? '',
+      patient?.email ?? '',
+      a.balance_placed.toFixed(2),
+      a.current_balance.toFixed(2),
+      statement?.lines[0]?.dateOfService ?? '',
+      statement?.lastStatementDate ?? '',
+      a.placed_date ?? '',
+      a.agency_name ?? '',
+      clinicName,
+    ].map(csvCell).join(',')
+  })
+  return [header.join(','), ...lines].join('\n')
+}
@@ -0,0 +1,301 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CompensationCodeRate, CompensationModelType, CompensationTier, ProviderCompensationModel } from '@/types'
+import type { ProviderCut } from '@/lib/providerPayTemplates'
+import { fetchSheetRows, cptCodesForRow, NO_CHARGE_APPOINTMENT_STATUSES } from '@/lib/providerSheetRows'
+import { formatCurrency, toDisplayDate, roundMoney } from '@/lib/utils'
+
+export const COMPENSATION_MODEL_TYPES: Array<{ key: CompensationModelType; label: string }> = [
+  { key: 'flat_percent', label: 'Flat percent' },
+  { key: 'tiered_percent', label: 'Tiered percent' },
+  { key: 'per_code', label: 'Fee per CPT code' },
+  { key: 'salary_bonus', label: 'Salary + bonus' },
+]
+
+export const COMPENSATION_MODEL_TYPE_LABELS: Record<CompensationModelType, string> = Object.fromEntries(
+  COMPENSATION_MODEL_TYPES.map((t) => [t.key, t.label])
+) as Record<CompensationModelType, string>
+
+/** Billed visits per CPT code on the provider's sheet for the pay period (per-code models). */
+export interface CompensationVisit {
+  code: string
+  count: number
+}
+
+export interface CompensationBreakdownLine {
+  label: string
+  amount: number
+}
+
+/** Provider Cut for a pay period and how it was reached, line by line. */
+export interface CompensationBreakdown {
+  amount: number
+  /** Model used; null when the provider has none in effect and their flat provider_cut_percent applies. */
+  model: ProviderCompensationModel | null
+  lines: CompensationBreakdownLine[]
+  /** True when the guaranteed minimum raised the amount. */
+  minimumApplied: boolean
+}
+
+const pct = (rate: number) => `${Math.round(rate * 10000) / 100}%`
+
+/** Model in effect on the first day of the pay month (latest effective_from wins); null when none. */
+export function activeCompensationModel(models: ProviderCompensationModel[], year: number, month: number): ProviderCompensationModel | null {
+  const date = `${year}-${String(month).padStart(2, '0')}-01`
+  let best: ProviderCompensationModel | null = null
+  models.forEach((m) => {
+    if (m.effective_from > date) return
+    if (m.effective_to && m.effective_to < date) return
+    if (!best || m.effective_from > best.effective_from) best = m
+  })
+  return best
+}
+
+function tieredLines(tiers: CompensationTier[], basis: number): CompensationBreakdownLine[] {
+  const lines: CompensationBreakdownLine[] = []
+  let floor = 0
+  tiers.forEach((tier) => {
+    const ceiling = tier.up_to ?? Infinity
+    const portion = Math.max(0, Math.min(basis, ceiling) - floor)
+    if (portion > 0) {
+      const band = tier.up_to != null ? `${formatCurrency(floor)}–${formatCurrency(tier.up_to)}` : `above ${formatCurrency(floor)}`
+      lines.push({ label: `${pct(tier.rate)} of ${formatCurrency(portion)} (${band})`, amount: roundMoney(portion * tier.rate) })
+    }
+    floor = ceiling
+  })
+  return lines
+}
+
+function perCodeLines(model: ProviderCompensationModel, visits: CompensationVisit[]): CompensationBreakdownLine[] {
+  const rates = new Map(model.code_rates.map((r) => [r.code, r.amount]))
+  const lines: CompensationBreakdownLine[] = []
+  let otherCount = 0
+  visits.forEach((v) => {
+    const rate = rates.get(v.code)
+    if (rate == null) otherCount += v.count
+    else lines.push({ label: `${v.code}: ${v.count} × ${formatCurrency(rate)}`, amount: roundMoney(v.count * rate) })
+  })
+  if (otherCount > 0) {
+    const rate = model.default_code_amount ?? 0
+    lines.push({ label: `Other codes: ${otherCount} × ${formatCurrency(rate)}`, amount: roundMoney(otherCount * rate) })
+  }
+  return lines
+}
+
+/**
+ * Provider Cut for a pay period. `basis` is the total the Provider Cut line is computed from (e.g. Total Payments);
+ * per-code models pay from `visits` instead. Without a model the provider's flat `fallbackPercent` applies.
+ */
+export function computeCompensation(
+  model: ProviderCompensationModel | null,
+  basis: number,
+  fallbackPercent: number,
+  visits: CompensationVisit[] = []
+): CompensationBreakdown {
+  let lines: CompensationBreakdownLine[]
+  if (!model) {
+    lines = [{ label: `${pct(fallbackPercent)} of ${formatCurrency(basis)} (provider cut %)`, amount: roundMoney(basis * fallbackPercent) }]
+  } else {
+    switch (model.model_type) {
+      case 'flat_percent':
+        lines = [{ label: `${pct(model.percent ?? 0)} of ${formatCurrency(basis)}`, amount: roundMoney(basis * (model.percent ?? 0)) }]
+        break
+      case 'tiered_percent':
+        lines = tieredLines(model.tiers, basis)
+        break
+      case 'per_code':
+        lines = perCodeLines(model, visits)
+        break
+      case 'salary_bonus': {
+        lines = [{ label: 'Salary', amount: model.salary ?? 0 }]
+        const threshold = model.bonus_threshold ?? 0
+        const above = basis - threshold
+        if (model.bonus_rate && above > 0) {
+          lines.push({ label: `Bonus: ${pct(model.bonus_rate)} of ${formatCurrency(above)} above ${formatCurrency(threshold)}`, amount: roundMoney(above * model.bonus_rate) })
+        }
+        break
+      }
+    }
+  }
+  const computed = roundMoney(lines.reduce((sum, l) => sum + l.amount, 0))
+  const minimum = model?.minimum_pay ?? null
+  if (minimum != null && computed < minimum) {
+    lines.push({ label: `Guaranteed minimum ${formatCurrency(minimum)} (top-up)`, amount: roundMoney(minimum - computed) })
+    return { amount: minimum, model, lines, minimumApplied: true }
+  }
+  return { amount: computed, model, lines, minimumApplied: false }
+}
+
+/** ProviderCut for pay templates: the Provider Cut line follows the model in effect. */
+export function compensationProviderCut(
+  model: ProviderCompensationModel | null,
+  fallbackPercent: number,
+  visits: CompensationVisit[] = []
+): ProviderCut {
+  return (basis) => computeCompensation(model, basis, fallbackPercent, visits).amount
+}
+
+/** Short description for lists, e.g. "60% to $20,000.00, then 70%; min $3,000.00". */
+export function describeCompensationModel(model: ProviderCompensationModel): string {
+  let text: string
+  switch (model.model_type) {
+    case 'flat_percent':
+      text = `${pct(model.percent ?? 0)} of total`
+      break
+    case 'tiered_percent':
+      text = model.tiers
+        .map((t, i) => (i === 0 ? `${pct(t.rate)}` : `then ${pct(t.rate)}`) + (t.up_to != null ? ` to ${formatCurrency(t.up_to)}` : ''))
+        .join(', ')
+      break
+    case 'per_code':
+      text = model.code_rates.map((r) => `${r.code} ${formatCurrency(r.amount)}`).join(', ')
+      if (model.default_code_amount != null) text += `${text ? ', ' : ''}other ${formatCurrency(model.default_code_amount)}`
+      break
+    case 'salary_bonus':
+      text = `${formatCurrency(model.salary ?? 0)} salary`
+      if (model.bonus_rate) text += ` + ${pct(model.bonus_rate)} above ${formatCurrency(model.bonus_threshold ?? 0)}`
+      break
+  }
+  if (model.minimum_pay != null) text += `; min ${formatCurrency(model.minimum_pay)}`
+  return text
+}
+
+/** "01/01/2026 – open" style range. */
+export function formatEffectiveRange(model: Pick<ProviderCompensationModel, 'effective_from' | 'effective_to'>): string {
+  return `${toDisplayDate(model.effective_from)} – ${model.effective_to ? toDisplayDate(model.effective_to) : 'open'}`
+}
+
+export type CompensationModelInput = Omit<ProviderCompensationModel, 'id' | 'provider_id' | 'created_at' | 'updated_at'>
+
+/** Problems that would make the model unusable, including overlap with the provider's other models; empty when it can be saved. */
+export function validateCompensationModel(input: CompensationModelInput, otherModels: ProviderCompensationModel[]): string[] {
+  const errors: string[] = []
+  const rateOk = (r: number | null) => r != null && r >= 0 && r <= 1
+  if (!input.effective_from) errors.push('Effective from date is required.')
+  if (input.effective_to && input.effective_from && input.effective_to < input.effective_from) {
+    errors.push('Effective to must be on or after effective from.')
+  }
+  if (input.effective_from) {
+    const end = input.effective_to ?? '9999-12-31'
+    const overlap = otherModels.find((m) => m.effective_from <= end && (m.effective_to ?? '9999-12-31') >= input.effective_from)
+    if (overlap) errors.push(`Dates overlap the model effective ${formatEffectiveRange(overlap)}.`)
+  }
+  switch (input.model_type) {
+    case 'flat_percent':
+      if (!rateOk(input.percent)) errors.push('Percentage must be between 0 and 100.')
+      break
+    case 'tiered_percent':
+      if (input.tiers.length === 0) errors.push('Add at least one tier.')
+      input.tiers.forEach((t, i) => {
+        const last = i === input.tiers.length - 1
+        if (!rateOk(t.rate)) errors.push(`Tier ${i + 1}: percentage must be between 0 and 100.`)
+        if (last && t.up_to != null) errors.push('The last tier must have no upper limit.')
+        if (!last && (t.up_to == null || t.up_to <= 0)) errors.push(`Tier ${i + 1}: enter the amount it goes up to.`)
+        const prev = i > 0 ? input.tiers[i - 1].up_to : null
+        if (!last && t.up_to != null && prev != null && t.up_to <= prev) errors.push(`Tier ${i + 1}: limits must increase.`)
+      })
+      break
+    case 'per_code': {
+      if (input.code_rates.length === 0 && input.default_code_amount == null) errors.push('Add a fee for at least one CPT code, or a fee for other codes.')
+      const seen = new Set<string>()
+      input.code_rates.forEach((r, i) => {
+        if (!r.code.trim()) errors.push(`Code ${i + 1}: CPT code is required.`)
+        else if (seen.has(r.code.trim())) errors.push(`Code ${r.code}: listed twice.`)
+        seen.add(r.code.trim())
+        if (!(r.amount >= 0)) errors.push(`Code ${r.code || i + 1}: fee must be 0 or more.`)
+      })
+      break
+    }
+    case 'salary_bonus':
+      if (input.salary == null || input.salary < 0) errors.push('Salary per pay period is required.')
+      if (input.bonus_rate != null && !rateOk(input.bonus_rate)) errors.push('Bonus percentage must be between 0 and 100.')
+      break
+  }
+  if (input.minimum_pay != null && input.minimum_pay < 0) errors.push('Guaranteed minimum must be 0 or more.')
+  return errors
+}
+
+function toModel(m: ProviderCompensationModel): ProviderCompensationModel {
+  const num = (v: number | null) => (v != null ? Number(v) : null)
+  return {
+    ...m,
+    percent: num(m.percent),
+    tiers: (m.tiers ?? []).map((t: CompensationTier) => ({ up_to: num(t.up_to), rate: Number(t.rate) })),
+    code_rates: (m.code_rates ?? []).map((r: CompensationCodeRate) => ({ code: r.code, amount: Number(r.amount) })),
+    default_code_amount: num(m.default_code_amount),
+    salary: num(m.salary),
+    bonus_threshold: num(m.bonus_threshold),
+    bonus_rate: num(m.bonus_rate),
+    minimum_pay: num(m.minimum_pay),
+  }
+}
+
+/** Compensation models, oldest first; all providers' when providerId is omitted. */
+export async function fetchCompensationModels(supabase: SupabaseClient, providerId?: string): Promise<ProviderCompensationModel[]> {
+  let query = supabase.from('provider_compensation_models').select('*').order('effective_from', { ascending: true })
+  if (providerId) query = query.eq('provider_id', providerId)
+  const { data, error } = await query
+  if (error) throw error
+  return ((data || []) as ProviderCompensationModel[]).map(toModel)
+}
+
+/** Creates or updates a model; fields that do not apply to its type are cleared. */
+export async function saveCompensationModel(
+  supabase: SupabaseClient,
+  providerId: string,
+  id: string | null,
+  input: CompensationModelInput
+): Promise<void> {
+  const type = input.model_type
+  const record = {
+    provider_id: providerId,
+    model_type: type,
+    effective_from: input.effective_from,
+    effective_to: input.effective_to || null,
+    percent: type === 'flat_percent' ? input.percent : null,
+    tiers: type === 'tiered_percent' ? input.tiers : [],
+    code_rates: type === 'per_code' ? input.code_rates.map((r) => ({ code: r.code.trim(), amount: r.amount })) : [],
+    default_code_amount: type === 'per_code' ? input.default_code_amount : null,
+    salary: type === 'salary_bonus' ? input.salary : null,
+    bonus_threshold: type === 'salary_bonus' && input.bonus_rate != null ? input.bonus_threshold : null,
+    bonus_rate: type === 'salary_bonus' ? input.bonus_rate : null,
+    minimum_pay: input.minimum_pay,
+    notes: input.notes?.trim() || null,
+  }
+  const { error } = id
+    ? await supabase.from('provider_compensation_models').update(record).eq('id', id)
+    : await supabase.from('provider_compensation_models').insert(record)
+  if (error) throw error
+}
+
+export async function deleteCompensationModel(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('provider_compensation_models').delete().eq('id', id)
+  if (error) throw error
+}
+
+/** Billed visits per CPT code on the provider's sheets for the month and payroll; no-charge appointments are skipped. */
+export async function fetchCompensationVisits(
+  supabase: SupabaseClient,
+  clinicId: string,
+  providerId: string,
+  year: number,
+  month: number,
+  payroll: number = 1
+): Promise<CompensationVisit[]> {
+  const { data: sheets, error } = await supabase
+    .from('provider_sheets')
+    .select('id')
+    .eq('clinic_id', clinicId)
+    .eq('provider_id', providerId)
+    .eq('month', month)
+    .eq('year', year)
+    .eq('payroll', payroll)
+    .order('id', { ascending: true })
+  if (error) throw error
+  const rows = (await Promise.all(((sheets || []) as Array<{ id: string }>).map((sheet) => fetchSheetRows(supabase, sheet.id)))).flat()
+  const counts = new Map<string, number>()
+  rows.forEach((row) => {
+    if (row.appointment_status && NO_CHARGE_APPOINTMENT_STATUSES.has(row.appointment_status)) return
+    cptCodesForRow(row).forEach((code) => counts.set(code, (counts.get(code) ?? 0) + 1))
+  })
+  return Array.from(counts, ([code, count]) => ({ code, count })).sort((a, b) => a.code.localeCompare(b.code))
+}
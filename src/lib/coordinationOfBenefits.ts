@@ -0,0 +1,379 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type {
+  ClaimAdjustment,
+  ClaimPayerPayment,
+  CoverageRelationship,
+  Patient,
+  PatientCoverage,
+  Payer,
+  PayerSequence,
+  SheetRow,
+} from '@/types'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { insuranceKey, type Claim837pCob } from '@/lib/claim837p'
+import { findPayer } from '@/lib/payers'
+import { toDisplayDate, toIsoDate, roundMoney, addDaysIso } from '@/lib/utils'
+import type { EraPosting } from '@/lib/era835'
+
+export const PAYER_SEQUENCES: PayerSequence[] = ['primary', 'secondary', 'tertiary']
+
+export const PAYER_SEQUENCE_LABELS: Record<PayerSequence, string> = {
+  primary: 'Primary',
+  secondary: 'Secondary',
+  tertiary: 'Tertiary',
+}
+
+export const COVERAGE_RELATIONSHIP_LABELS: Record<CoverageRelationship, string> = {
+  self: 'Self',
+  spouse: 'Spouse',
+  child: 'Child',
+  other: 'Other',
+}
+
+/** Coverages active on one date of service, by payer sequence. */
+export type ActiveCoverages = Partial<Record<PayerSequence, PatientCoverage>>
+
+/** The fields of a payer payment the balance roll reads (saved records and unsaved EOB entries alike). */
+export type PayerPaymentAmounts = Pick<ClaimPayerPayment, 'payer_sequence' | 'paid_amount' | 'adjustments' | 'paid_date'>
+
+export interface CobBalance {
+  /** Paid by every payer recorded on the row (Ins Pay). */
+  insurancePaid: number
+  /** PR adjustments of the last payer recorded: owed by the next payer while one is pending, otherwise by the patient (PT Res). */
+  patientResponsibility: number
+  /** Next payer to bill when a balance remains and a coverage for it is active; null when the patient owes the rest. */
+  pendingSequence: PayerSequence | null
+  /** Latest remittance date across payers (Ins Pay Date). */
+  lastPaidDate: string | null
+}
+
+/** Insert payload for claim_payer_payments. */
+export type ClaimPayerPaymentInput = Omit<ClaimPayerPayment, 'id' | 'created_at' | 'updated_at'>
+
+/** What an ERA posting records for a row covered by more than one plan, and the row totals rolled across payers. */
+export interface EraCobPlan {
+  payment: ClaimPayerPaymentInput
+  balance: CobBalance
+}
+
+export function sequenceForPriority(priority: number): PayerSequence {
+  return PAYER_SEQUENCES[priority - 1] ?? 'primary'
+}
+
+function sequenceIndex(sequence: PayerSequence): number {
+  return PAYER_SEQUENCES.indexOf(sequence)
+}
+
+export function sumAdjustments(adjustments: ClaimAdjustment[], group?: string): number {
+  return roundMoney(adjustments.filter((a) => !group || a.group === group).reduce((sum, a) => sum + a.amount, 0))
+}
+
+/** True when the date (YYYY-MM-DD) falls within the coverage's effective dates; null dates are open-ended. */
+export function coverageActiveOn(coverage: PatientCoverage, iso: string): boolean {
+  if (coverage.effective_from && iso < coverage.effective_from) return false
+  if (coverage.effective_to && iso > coverage.effective_to) return false
+  return true
+}
+
+/**
+ * The patient's coverages active on a date of service, one per payer sequence. When two plans of the same priority
+ * overlap, the one that started most recently wins.
+ */
+export function coveragesOnDate(coverages: PatientCoverage[], patientId: string, iso: string): ActiveCoverages {
+  const key = normalizePatientIdKey(patientId)
+  const active: ActiveCoverages = {}
+  coverages
+    .filter((c) => normalizePatientIdKey(c.patient_id) === key && coverageActiveOn(c, iso))
+    .sort((a, b) => (b.effective_from ?? '').localeCompare(a.effective_from ?? ''))
+    .forEach((c) => {
+      const sequence = sequenceForPriority(c.priority)
+      if (!active[sequence]) active[sequence] = c
+    })
+  return active
+}
+
+/** Coverages active on a sheet row's date of service (none when the row has no patient or valid date). */
+export function coveragesForRow(coverages: PatientCoverage[], row: SheetRow): ActiveCoverages {
+  const dos = toIsoDate(row.appointment_date)
+  return row.patient_id && dos ? coveragesOnDate(coverages, row.patient_id, dos) : {}
+}
+
+/**
+ * Plans a new coverage replaces: same patient and priority, started before it and still open on its effective_from.
+ * They should end the day before the new plan starts so each date of service has one payer per sequence.
+ */
+export function supersededCoverages(
+  coverages: PatientCoverage[],
+  next: Pick<PatientCoverage, 'patient_id' | 'priority' | 'effective_from'> & { id?: string }
+): Array<{ coverage: PatientCoverage; effectiveTo: string }> {
+  const from = next.effective_from
+  if (!from) return []
+  const key = normalizePatientIdKey(next.patient_id)
+  const effectiveTo = addDaysIso(from, -1)
+  return coverages
+    .filter(
+      (c) =>
+        c.id !== next.id &&
+        normalizePatientIdKey(c.patient_id) === key &&
+        c.priority === next.priority &&
+        (c.effective_from ?? '') < from &&
+        coverageActiveOn(c, from)
+    )
+    .map((coverage) => ({ coverage, effectiveTo }))
+}
+
+export interface PatientServiceDate {
+  rowId: string
+  dateOfService: string
+}
+
+/**
+ * Dates of service with no primary plan active. Only meaningful once the patient has a primary coverage record;
+ * without one every row still bills Patient.insurance.
+ */
+export function uncoveredServiceDates(coverages: PatientCoverage[], patientId: string, dates: PatientServiceDate[]): PatientServiceDate[] {
+  const key = normalizePatientIdKey(patientId)
+  if (!coverages.some((c) => c.priority === 1 && normalizePatientIdKey(c.patient_id) === key)) return []
+  return dates.filter((d) => !coveragesOnDate(coverages, patientId, d.dateOfService).primary)
+}
+
+/** The patient's visits on any provider sheet in the clinic, oldest first. */
+export async function fetchPatientServiceDates(
+  supabase: SupabaseClient,
+  clinicId: string,
+  patientId: string
+): Promise<PatientServiceDate[]> {
+  const { data: sheets, error: sheetsError } = await supabase.from('provider_sheets').select('id').eq('clinic_id', clinicId)
+  if (sheetsError) throw sheetsError
+  const sheetIds = (sheets || []).map((s: { id: string }) => s.id)
+  if (sheetIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('provider_sheet_rows')
+    .select('id, patient_id, appointment_date')
+    .in('sheet_id', sheetIds)
+    .ilike('patient_id', patientId.trim())
+  if (error) throw error
+  const key = normalizePatientIdKey(patientId)
+  const dates: PatientServiceDate[] = []
+  for (const r of (data || []) as Array<{ id: string; patient_id: string | null; appointment_date: string | null }>) {
+    const dos = toIsoDate(r.appointment_date)
+    if (!dos || normalizePatientIdKey(r.patient_id ?? '') !== key) continue
+    dates.push({ rowId: r.id, dateOfService: dos })
+  }
+  return dates.sort((a, b) => a.dateOfService.localeCompare(b.dateOfService))
+}
+
+/** Which of the active plans a remittance from `payerName` belongs to: by name, then by payer master entry or payer ID. */
+export function sequenceForPayer(active: ActiveCoverages, payerName: string | null, payers: Payer[]): PayerSequence | null {
+  const key = insuranceKey(payerName)
+  if (!key) return null
+  const remitPayer = findPayer(payerName, payers)
+  for (const sequence of PAYER_SEQUENCES) {
+    const coverage = active[sequence]
+    if (!coverage) continue
+    if (insuranceKey(coverage.payer_name) === key) return sequence
+    const coveragePayer = findPayer(coverage.payer_name, payers)
+    if (remitPayer && coveragePayer?.id === remitPayer.id) return sequence
+    if (remitPayer?.payer_id && coverage.payer_id?.trim() === remitPayer.payer_id) return sequence
+  }
+  return null
+}
+
+/**
+ * Rolls a row's balance across payers: Ins Pay is everything paid so far, and the last payer's PR adjustments are
+ * the balance. That balance goes to the next active coverage while one exists, otherwise to the patient.
+ */
+export function rollCobBalance(payments: PayerPaymentAmounts[], active: ActiveCoverages): CobBalance {
+  const ordered = [...payments].sort((a, b) => sequenceIndex(a.payer_sequence) - sequenceIndex(b.payer_sequence))
+  const last = ordered[ordered.length - 1]
+  const patientResponsibility = last ? sumAdjustments(last.adjustments, 'PR') : 0
+  const next = last ? PAYER_SEQUENCES[sequenceIndex(last.payer_sequence) + 1] : undefined
+  const paidDates = ordered.map((p) => p.paid_date).filter((d): d is string => !!d).sort()
+  return {
+    insurancePaid: roundMoney(ordered.reduce((sum, p) => sum + p.paid_amount, 0)),
+    patientResponsibility,
+    pendingSequence: next && active[next] && patientResponsibility > 0 ? next : null,
+    lastPaidDate: paidDates[paidDates.length - 1] ?? null,
+  }
+}
+
+/**
+ * Writes a rolled balance to the row's Ins Pay, PT Res and Ins Pay Date, and sets PT Pay Status to Secondary while
+ * another payer is pending (cleared again once it is settled). Locked columns are left as they are.
+ */
+export function applyCobBalance(row: SheetRow, balance: CobBalance, locked: Set<keyof SheetRow>): SheetRow {
+  const next: SheetRow = { ...row, updated_at: new Date().toISOString() }
+  if (!locked.has('insurance_payment')) next.insurance_payment = String(balance.insurancePaid)
+  if (!locked.has('insurance_adjustment')) next.insurance_adjustment = String(balance.patientResponsibility)
+  if (!locked.has('payment_date') && balance.lastPaidDate) next.payment_date = balance.lastPaidDate
+  if (!locked.has('patient_pay_status')) {
+    if (balance.pendingSequence) next.patient_pay_status = 'Secondary'
+    else if (row.patient_pay_status === 'Secondary') next.patient_pay_status = null
+  }
+  return next
+}
+
+/**
+ * Secondary / tertiary claim inputs for a row: the coverage at `sequence` active on the date of service and the
+ * recorded remittance of each payer ahead of it. Returns a message instead when a coverage or remittance is missing.
+ */
+export function buildClaimCob(
+  row: SheetRow,
+  sequence: Exclude<PayerSequence, 'primary'>,
+  coverages: PatientCoverage[],
+  payments: ClaimPayerPayment[]
+): Claim837pCob | string {
+  const dos = toIsoDate(row.appointment_date)
+  if (!row.patient_id || !dos) return 'Patient and date of service are required.'
+  const active = coveragesOnDate(coverages, row.patient_id, dos)
+  const coverage = active[sequence]
+  if (!coverage) return `No ${sequence} coverage active on ${toDisplayDate(dos)}.`
+  const priorPayers: Claim837pCob['priorPayers'] = []
+  for (const prior of PAYER_SEQUENCES.slice(0, sequenceIndex(sequence))) {
+    const priorCoverage = active[prior]
+    if (!priorCoverage) return `No ${prior} coverage active on ${toDisplayDate(dos)}.`
+    const payment = payments.find((p) => p.provider_sheet_row_id === row.id && p.payer_sequence === prior)
+    if (!payment) return `No ${prior} remittance recorded.`
+    priorPayers.push({ coverage: priorCoverage, payment })
+  }
+  return { sequence, coverage, priorPayers }
+}
+
+/** Claim-level adjustments from an ERA posting (service-line CAS plus claim-level CAS not already copied to a line). */
+function eraPostingAdjustments(posting: EraPosting): ClaimAdjustment[] {
+  const lineAdjustments = posting.lines.flatMap((l) => l.adjustments)
+  const claimCopied = posting.lines.some((l) => l.adjustments === posting.claim.adjustments)
+  return claimCopied ? lineAdjustments : [...posting.claim.adjustments, ...lineAdjustments]
+}
+
+/**
+ * For ERA postings on rows whose patient has more than one plan on the date of service (or that already have a payer
+ * payment recorded), works out which payer the remittance is from, the claim_payer_payments record to store, and the
+ * row totals rolled across payers. Rows covered by a single plan are left to the plain ERA posting.
+ */
+export async function planEraCob(
+  supabase: SupabaseClient,
+  clinicId: string,
+  postings: EraPosting[],
+  payerName: string | null,
+  payers: Payer[],
+  userId: string | null
+): Promise<Map<string, EraCobPlan>> {
+  const plans = new Map<string, EraCobPlan>()
+  if (postings.length === 0) return plans
+  const [coverages, existing] = await Promise.all([
+    fetchPatientCoverages(supabase, clinicId),
+    fetchClaimPayerPayments(supabase, postings.map((p) => p.row.id)),
+  ])
+  postings.forEach((posting) => {
+    const active = coveragesForRow(coverages, posting.row)
+    const rowPayments = existing.filter((p) => p.provider_sheet_row_id === posting.row.id)
+    if (Object.keys(active).length < 2 && rowPayments.length === 0) return
+    const sequence = sequenceForPayer(active, payerName, payers) ?? 'primary'
+    const payment: ClaimPayerPaymentInput = {
+      clinic_id: clinicId,
+      provider_sheet_row_id: posting.row.id,
+      coverage_id: active[sequence]?.id ?? null,
+      payer_sequence: sequence,
+      payer_name: payerName,
+      charge_amount: roundMoney(posting.lines.reduce((sum, l) => sum + l.chargeAmount, 0)),
+      paid_amount: roundMoney(posting.lines.reduce((sum, l) => sum + l.paidAmount, 0)),
+      adjustments: eraPostingAdjustments(posting),
+      paid_date: posting.proposed.payment_date,
+      payer_claim_number: posting.claim.payerClaimNumber,
+      source: 'era',
+      created_by: userId,
+    }
+    const others = rowPayments.filter((p) => p.payer_sequence !== sequence)
+    plans.set(posting.row.id, { payment, balance: rollCobBalance([...others, payment], active) })
+  })
+  return plans
+}
+
+/** Patient.insurance / subscriber_id mirror the primary plan active today (the grid, statements and primary claims read them). */
+export function primaryCoverageUpdates(
+  patient: Patient,
+  coverages: PatientCoverage[],
+  today: string
+): Partial<Pick<Patient, 'insurance' | 'subscriber_id'>> {
+  const primary = coveragesOnDate(coverages, patient.patient_id, today).primary
+  if (!primary) return {}
+  const updates: Partial<Pick<Patient, 'insurance' | 'subscriber_id'>> = {}
+  if ((patient.insurance ?? '') !== primary.payer_name) updates.insurance = primary.payer_name
+  if (primary.subscriber_id && (patient.subscriber_id ?? '') !== primary.subscriber_id) updates.subscriber_id = primary.subscriber_id
+  return updates
+}
+
+export async function fetchPatientCoverages(
+  supabase: SupabaseClient,
+  clinicId: string,
+  patientId?: string
+): Promise<PatientCoverage[]> {
+  let query = supabase.from('patient_coverages').select('*').eq('clinic_id', clinicId)
+  if (patientId) query = query.eq('patient_id', patientId)
+  const { data, error } = await query.order('priority').order('effective_from', { ascending: false, nullsFirst: false })
+  if (error) throw error
+  return (data || []) as PatientCoverage[]
+}
+
+export async function savePatientCoverage(
+  supabase: SupabaseClient,
+  coverage: Omit<PatientCoverage, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+): Promise<PatientCoverage> {
+  const { id, ...fields } = coverage
+  const { created_by: _createdBy, ...updates } = fields
+  const { data, error } = id
+    ? await supabase.from('patient_coverages').update(updates).eq('id', id).select().single()
+    : await supabase.from('patient_coverages').insert(fields).select().single()
+  if (error) throw error
+  return data as PatientCoverage
+}
+
+/** Closes a plan on `effectiveTo` (the day before the plan replacing it starts). */
+export async function endPatientCoverage(supabase: SupabaseClient, id: string, effectiveTo: string): Promise<void> {
+  const { error } = await supabase.from('patient_coverages').update({ effective_to: effectiveTo }).eq('id', id)
+  if (error) throw error
+}
+
+export async function deletePatientCoverage(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('patient_coverages').delete().eq('id', id)
+  if (error) throw error
+}
+
+export async function applyPrimaryCoverageToPatient(
+  supabase: SupabaseClient,
+  patientRowId: string,
+  updates: Partial<Pick<Patient, 'insurance' | 'subscriber_id'>>
+): Promise<void> {
+  const { error } = await supabase
+    .from('patients')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', patientRowId)
+  if (error) throw error
+}
+
+export async function fetchClaimPayerPayments(supabase: SupabaseClient, rowIds: string[]): Promise<ClaimPayerPayment[]> {
+  if (rowIds.length === 0) return []
+  const { data, error } = await supabase.from('claim_payer_payments').select('*').in('provider_sheet_row_id', rowIds)
+  if (error) throw error
+  return ((data || []) as ClaimPayerPayment[]).map((p) => ({
+    ...p,
+    charge_amount: Number(p.charge_amount),
+    paid_amount: Number(p.paid_amount),
+    adjustments: (p.adjustments ?? []).map((a) => ({ ...a, amount: Number(a.amount) })),
+  }))
+}
+
+/** Upserts one record per row and payer sequence (a re-posted ERA or corrected EOB replaces the earlier one). */
+export async function saveClaimPayerPayments(
+  supabase: SupabaseClient,
+  payments: ClaimPayerPaymentInput[]
+): Promise<ClaimPayerPayment[]> {
+  if (payments.length === 0) return []
+  const { data, error } = await supabase
+    .from('claim_payer_payments')
+    .upsert(payments, { onConflict: 'provider_sheet_row_id,payer_sequence' })
+    .select()
+  if (error) throw error
+  return (data || []) as ClaimPayerPayment[]
+}
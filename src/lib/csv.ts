@@ -0,0 +1,45 @@
+/** Split one CSV line into fields ("" escapes a quote inside a quoted field). */
+export function parseCsvLine(line: string): string[] {
+  const result: string[] = []
+  let current = ''
+  let inQuotes = false
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i]
+    if (c === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (inQuotes) {
+      current += c
+    } else if (c === ',') {
+      result.push(current)
+      current = ''
+    } else {
+      current += c
+    }
+  }
+  result.push(current)
+  return result
+}
+
+/** Parse CSV text into rows of fields, skipping blank lines. */
+export function parseCsv(text: string): string[][] {
+  return text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0)
+    .map(parseCsvLine)
+}
+
+/** Header name → column index, keyed by lower-cased header with spaces/underscores/dashes removed. */
+export function csvHeaderIndex(header: string[]): Map<string, number> {
+  const map = new Map<string, number>()
+  header.forEach((h, i) => {
+    const key = h.trim().toLowerCase().replace(/[\s_-]+/g, '')
+    if (key && !map.has(key)) map.set(key, i)
+  })
+  return map
+}
@@ -0,0 +1,206 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Denial, DenialCategory, DenialOutcome, Patient, ProviderSheet, SheetRow } from '@/types'
+import { fetchClinicSheetRows } from '@/lib/providerSheetRows'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { formatAdjustmentCodes, type EraPosting } from '@/lib/era835'
+import { toIsoDate } from '@/lib/utils'
+
+export type DenialInput = Omit<Denial, 'id' | 'clinic_id' | 'created_by' | 'created_at' | 'updated_at'>
+
+export const DENIAL_CATEGORY_LABELS: Record<DenialCategory, string> = {
+  eligibility: 'Eligibility',
+  coding: 'Coding',
+  authorization: 'Authorization',
+  timely_filing: 'Timely filing',
+  medical_necessity: 'Medical necessity',
+  duplicate: 'Duplicate',
+  coordination_of_benefits: 'Coordination of benefits',
+  missing_information: 'Missing information',
+  other: 'Other',
+}
+
+export const DENIAL_OUTCOME_LABELS: Record<DenialOutcome, string> = {
+  open: 'Open',
+  overturned: 'Overturned',
+  partially_overturned: 'Partially overturned',
+  upheld: 'Upheld',
+  written_off: 'Written off',
+}
+
+export const APPEAL_LEVEL_LABELS = ['Not appealed', '1st appeal', '2nd appeal', '3rd / external']
+
+/** Claim statuses that mean the payer denied or rejected the claim. */
+export const DENIED_CLAIM_STATUSES = new Set(['Denial', 'Rejection', 'Rejected'])
+
+/** Denied rows are looked for in sheets this many months back. */
+const DENIED_ROWS_LOOKBACK_MONTHS = 12
+
+/** Common CARC reason codes → category; anything else is 'other'. */
+const CARC_CATEGORIES: Record<string, DenialCategory> = {
+  '26': 'eligibility', '27': 'eligibility', '31': 'eligibility', '32': 'eligibility', '33': 'eligibility', '177': 'eligibility', '200': 'eligibility',
+  '4': 'coding', '5': 'coding', '6': 'coding', '7': 'coding', '8': 'coding', '9': 'coding', '10': 'coding', '11': 'coding', '97': 'coding', '181': 'coding', '182': 'coding', '236': 'coding',
+  '15': 'authorization', '39': 'authorization', '62': 'authorization', '197': 'authorization', '198': 'authorization', '243': 'authorization',
+  '29': 'timely_filing',
+  '50': 'medical_necessity', '55': 'medical_necessity', '56': 'medical_necessity', '57': 'medical_necessity', '150': 'medical_necessity', '151': 'medical_necessity', '167': 'medical_necessity',
+  '18': 'duplicate',
+  '22': 'coordination_of_benefits', '23': 'coordination_of_benefits', '24': 'coordination_of_benefits', '109': 'coordination_of_benefits',
+  '16': 'missing_information', '17': 'missing_information', '125': 'missing_information', '226': 'missing_information', '252': 'missing_information',
+}
+
+/** Reason codes from "CO-50, PR-1" style text, without the group code ("50", "1"). */
+export function parseCarcCodes(text: string | null | undefined): string[] {
+  return String(text ?? '')
+    .split(/[,;\s]+/)
+    .map((part) => part.trim().toUpperCase())
+    .filter(Boolean)
+    .map((part) => part.replace(/^(CO|PR|OA|PI|CR)-?/, ''))
+    .filter(Boolean)
+}
+
+/** Category of the first CARC code we recognize, else 'other'. */
+export function suggestDenialCategory(carcCodes: string | null | undefined): DenialCategory {
+  for (const code of parseCarcCodes(carcCodes)) {
+    const category = CARC_CATEGORIES[code]
+    if (category) return category
+  }
+  return 'other'
+}
+
+export function emptyDenialInput(): DenialInput {
+  return {
+    provider_sheet_row_id: null,
+    provider_id: null,
+    patient_id: null,
+    date_of_service: null,
+    cpt_code: null,
+    insurance: null,
+    denied_amount: null,
+    denial_date: null,
+    carc_codes: null,
+    rarc_codes: null,
+    category: 'other',
+    appeal_level: 0,
+    appeal_sent_date: null,
+    appeal_received_date: null,
+    outcome: 'open',
+    recovered_amount: null,
+    notes: null,
+  }
+}
+
+/** New denial prefilled from a denied sheet row (visit details copied so the record survives sheet edits). */
+export function denialInputFromRow(row: SheetRow, sheet: ProviderSheet, patient: Patient | undefined): DenialInput {
+  return {
+    ...emptyDenialInput(),
+    provider_sheet_row_id: row.id,
+    provider_id: sheet.provider_id,
+    patient_id: row.patient_id,
+    date_of_service: toIsoDate(row.appointment_date),
+    cpt_code: row.cpt_code,
+    insurance: patient?.insurance ?? row.patient_insurance ?? null,
+    denial_date: toIsoDate(row.payment_date),
+  }
+}
+
+export function denialToInput(denial: Denial): DenialInput {
+  const { id: _id, clinic_id: _clinicId, created_by: _createdBy, created_at: _createdAt, updated_at: _updatedAt, ...input } = denial
+  return input
+}
+
+export async function fetchDenials(supabase: SupabaseClient, clinicId: string): Promise<Denial[]> {
+  const { data, error } = await supabase
+    .from('denials')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .order('date_of_service', { ascending: false })
+  if (error) throw error
+  return (data || []) as Denial[]
+}
+
+export async function saveDenial(
+  supabase: SupabaseClient,
+  clinicId: string,
+  input: DenialInput,
+  userId: string | null,
+  id?: string
+): Promise<Denial> {
+  const query = id
+    ? supabase.from('denials').update(input).eq('id', id)
+    : supabase.from('denials').insert({ ...input, clinic_id: clinicId, created_by: userId })
+  const { data, error } = await query.select().single()
+  if (error) throw error
+  return data as Denial
+}
+
+export async function deleteDenial(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('denials').delete().eq('id', id)
+  if (error) throw error
+}
+
+/**
+ * Opens a denial record for each ERA posting that moves a row to Denial, carrying the CARC/RARC codes.
+ * Rows that already have a record are left alone.
+ */
+export async function recordEraDenials(
+  supabase: SupabaseClient,
+  clinicId: string,
+  postings: EraPosting[],
+  payerName: string | null,
+  userId: string | null
+): Promise<number> {
+  const payload = postings
+    .filter((p) => p.proposed.claim_status === 'Denial' && !p.lockedFields.includes('claim_status'))
+    .map((p) => {
+      const carcCodes = formatAdjustmentCodes([...p.claim.adjustments, ...p.lines.flatMap((l) => l.adjustments)]) || null
+      return {
+        ...emptyDenialInput(),
+        clinic_id: clinicId,
+        created_by: userId,
+        provider_sheet_row_id: p.row.id,
+        provider_id: p.sheet.provider_id,
+        patient_id: p.row.patient_id,
+        date_of_service: toIsoDate(p.row.appointment_date),
+        cpt_code: p.row.cpt_code,
+        insurance: payerName,
+        denied_amount: p.lines.reduce((sum, l) => sum + l.chargeAmount, 0) || null,
+        denial_date: p.proposed.payment_date,
+        carc_codes: carcCodes,
+        rarc_codes: [...p.claim.remarkCodes, ...p.lines.flatMap((l) => l.remarkCodes)].join(', ') || null,
+        category: suggestDenialCategory(carcCodes),
+      }
+    })
+  if (payload.length === 0) return 0
+  const { error } = await supabase.from('denials').upsert(payload, { onConflict: 'provider_sheet_row_id', ignoreDuplicates: true })
+  if (error) throw error
+  return payload.length
+}
+
+export interface DeniedRowCandidate {
+  row: SheetRow
+  sheet: ProviderSheet
+  patient: Patient | undefined
+}
+
+/** Sheet rows at Denial / Rejection in recent months that have no denial record yet. */
+export async function fetchDeniedRowsWithoutRecord(
+  supabase: SupabaseClient,
+  clinicId: string,
+  denials: Denial[]
+): Promise<DeniedRowCandidate[]> {
+  const [candidates, patientsResult] = await Promise.all([
+    fetchClinicSheetRows(supabase, clinicId, DENIED_ROWS_LOOKBACK_MONTHS),
+    supabase.from('patients').select('*').eq('clinic_id', clinicId),
+  ])
+  if (patientsResult.error) throw patientsResult.error
+  const patientsByKey = new Map<string, Patient>()
+  ;((patientsResult.data || []) as Patient[]).forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+  const recorded = new Set(denials.map((d) => d.provider_sheet_row_id).filter(Boolean))
+  return candidates
+    .filter(({ row }) => DENIED_CLAIM_STATUSES.has(row.claim_status ?? '') && !recorded.has(row.id))
+    .map(({ row, sheet }) => ({
+      row,
+      sheet,
+      patient: row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined,
+    }))
+    .sort((a, b) => (toIsoDate(b.row.appointment_date) ?? '').localeCompare(toIsoDate(a.row.appointment_date) ?? ''))
+}
@@ -0,0 +1,487 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Clinic, EligibilityCheck, EligibilityStatus, Patient } from '@/types'
+import { parseDateOfServiceInput } from '@/lib/utils'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { splitX12Segments, x12DateToIso } from '@/lib/era835'
+
+/** Implementation guide version for eligibility inquiries / responses (ST03 / GS08). */
+export const X12_270_VERSION = '005010X279A1'
+
+/** Envelope settings entered in the eligibility panel (remembered per clinic, like the 837P envelope). */
+export interface Eligibility270Options {
+  /** ISA06 / GS02 – ID assigned by the clearinghouse (ETIN). */
+  submitterId: string
+  /** ISA08 / GS03 – clearinghouse or payer receiving the inquiry. */
+  receiverId: string
+  /** ISA13 / IEA02; see allocateInterchangeControlNumber. */
+  interchangeControlNumber: number
+  /** ISA15: P = production, T = test. */
+  usageIndicator: 'P' | 'T'
+  /** Date of service being verified (YYYY-MM-DD); sent as 2100C DTP*291. */
+  serviceDate: string
+  now?: Date
+}
+
+/** The patient (who is the subscriber) and payer the inquiry is about. */
+export interface Eligibility270Context {
+  clinic: Clinic
+  patient: Patient
+  payerName: string
+  /** Electronic payer ID (2100A NM109), usually from the payer master. */
+  payerId: string
+}
+
+export interface Eligibility270Result {
+  content: string
+  fileName: string
+  /** 2000C TRN02; store it so the 271 can be matched back to the check. */
+  traceNumber: string
+}
+
+/** Benefits for one subscriber (2000C/2000D loop) of a 271. */
+export interface Eligibility271Subscriber {
+  /** TRN02 echoed from our 270 (TRN01 = 2). */
+  traceNumber: string | null
+  memberId: string | null
+  firstName: string | null
+  lastName: string | null
+  status: Exclude<EligibilityStatus, 'pending'>
+  planName: string | null
+  planBeginDate: string | null
+  planEndDate: string | null
+  copay: number | null
+  /** Percent (EB08 0.2 → 20). */
+  coinsurance: number | null
+  deductibleRemaining: number | null
+  rejectReason: string | null
+}
+
+export interface Eligibility271 {
+  payerName: string | null
+  subscribers: Eligibility271Subscriber[]
+  /** AAA returned above the subscriber level (payer or receiver not accepted). */
+  rejectReason: string | null
+}
+
+/** Result of loading a 271 against the clinic's pending checks. */
+export interface EligibilityResponseResult {
+  updated: EligibilityCheck[]
+  unmatched: Eligibility271Subscriber[]
+}
+
+/** Copay / coinsurance from a verified check that differ from the patient record. */
+export interface PatientEligibilityUpdates {
+  copay?: number
+  coinsurance?: number
+}
+
+/** AAA03 reject reason codes payers commonly return on a 271. */
+const AAA_REASONS: Record<string, string> = {
+  '15': 'Required application data missing',
+  '41': 'Authorization/access restrictions',
+  '42': 'Unable to respond at current time',
+  '43': 'Invalid/missing provider identification',
+  '56': 'Inappropriate date',
+  '57': 'Invalid/missing date(s) of service',
+  '58': 'Invalid/missing date of birth',
+  '62': 'Date of service not within allowable inquiry period',
+  '63': 'Date of service in future',
+  '71': 'Patient birth date does not match that for the patient on the database',
+  '72': 'Invalid/missing subscriber/insured ID',
+  '73': 'Invalid/missing subscriber/insured name',
+  '75': 'Subscriber/insured not found',
+  '76': 'Duplicate subscriber/insured ID number',
+  '79': 'Invalid participant identification',
+}
+
+/** EB01 codes meaning coverage is in force (1–5) or not (6–8). */
+const ACTIVE_BENEFIT_CODES = new Set(['1', '2', '3', '4', '5'])
+const INACTIVE_BENEFIT_CODES = new Set(['6', '7', '8'])
+
+/**
+ * EB03 service types in order of preference when a payer returns several copay/coinsurance amounts:
+ * mental health, psychotherapy, office visit, then health benefit plan coverage (also used when EB03 is blank).
+ */
+const PREFERRED_SERVICE_TYPES = ['MH', 'A6', '98', '30']
+
+/** Strip X12 delimiters and collapse whitespace; names are sent upper case. */
+function el(value: string | number | null | undefined): string {
+  return String(value ?? '')
+    .replace(/[*~:^]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toUpperCase()
+}
+
+function digitsOnly(value: string | null | undefined): string {
+  return String(value ?? '').replace(/\D/g, '')
+}
+
+/** Accepts YYYY-MM-DD, MM-DD-YY(YY) or MM/DD/YY(YY); returns CCYYMMDD or null. */
+function toX12Date(value: string | null | undefined): string | null {
+  if (!value) return null
+  const iso = parseDateOfServiceInput(String(value).trim().replace(/\//g, '-'))
+  if (!iso || !/^\d{4}-\d{2}-\d{2}$/.test(iso)) return null
+  return iso.replace(/-/g, '')
+}
+
+function amountOrNull(value: string | undefined): number | null {
+  const n = parseFloat(value ?? '')
+  return Number.isFinite(n) ? n : null
+}
+
+/** Problems that would make the payer reject the 270 outright. */
+export function validateEligibilityRequest(context: Eligibility270Context, options: Eligibility270Options): string[] {
+  const { clinic, patient } = context
+  const issues: string[] = []
+  if (!options.submitterId.trim()) issues.push('Submitter ID is required.')
+  if (!options.receiverId.trim()) issues.push('Receiver ID is required.')
+  if (digitsOnly(clinic.npi).length !== 10) issues.push('Clinic NPI must be 10 digits.')
+  if (digitsOnly(clinic.ein).length !== 9) issues.push('Clinic EIN must be 9 digits.')
+  if (!patient.subscriber_id?.trim()) issues.push('Patient has no subscriber ID.')
+  if (!patient.first_name?.trim() || !patient.last_name?.trim()) issues.push('Patient first and last name are required.')
+  if (!toX12Date(patient.date_of_birth)) issues.push('Patient date of birth is missing or invalid.')
+  if (!context.payerName.trim()) issues.push('Patient has no insurance.')
+  if (!context.payerId.trim()) issues.push(`No payer ID for ${context.payerName || 'the insurance'}; set it on the payer.`)
+  if (!toX12Date(options.serviceDate)) issues.push('Date of service is invalid.')
+  return issues
+}
+
+/**
+ * Builds an ANSI X12 270 (005010X279A1) inquiry for one patient, who is sent as the subscriber. Asks for
+ * health benefit plan coverage (EQ*30) on the date of service; the clinic is the information receiver.
+ */
+export function build270(context: Eligibility270Context, options: Eligibility270Options): Eligibility270Result {
+  const issues = validateEligibilityRequest(context, options)
+  if (issues.length > 0) throw new Error(issues.join(' '))
+
+  const { clinic, patient } = context
+  const now = options.now ?? new Date()
+  const yyyy = String(now.getFullYear())
+  const mm = String(now.getMonth() + 1).padStart(2, '0')
+  const dd = String(now.getDate()).padStart(2, '0')
+  const hhmm = `${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}`
+  const ccyymmdd = `${yyyy}${mm}${dd}`
+  const control = String(options.interchangeControlNumber).padStart(9, '0')
+  const groupControl = String(options.interchangeControlNumber)
+  const traceNumber = control
+
+  const segments: string[] = []
+  const seg = (...elements: string[]) => {
+    let end = elements.length
+    while (end > 1 && elements[end - 1] === '') end--
+    segments.push(elements.slice(0, end).join('*'))
+  }
+
+  const isa = [
+    'ISA', '00', ' '.repeat(10), '00', ' '.repeat(10),
+    'ZZ', el(options.submitterId).padEnd(15).slice(0, 15),
+    'ZZ', el(options.receiverId).padEnd(15).slice(0, 15),
+    ccyymmdd.slice(2), hhmm, '^', '00501', control, '0', options.usageIndicator, ':',
+  ].join('*')
+  seg('GS', 'HS', el(options.submitterId), el(options.receiverId), ccyymmdd, hhmm, groupControl, 'X', X12_270_VERSION)
+  const stIndex = segments.length
+  seg('ST', '270', '0001', X12_270_VERSION)
+  seg('BHT', '0022', '13', control, ccyymmdd, hhmm)
+
+  // 2000A information source (payer)
+  seg('HL', '1', '', '20', '1')
+  seg('NM1', 'PR', '2', el(context.payerName), '', '', '', '', 'PI', el(context.payerId))
+  // 2000B information receiver (clinic)
+  seg('HL', '2', '1', '21', '1')
+  seg('NM1', '1P', '2', el(clinic.name), '', '', '', '', 'XX', digitsOnly(clinic.npi))
+  // 2000C subscriber (patient)
+  seg('HL', '3', '2', '22', '0')
+  seg('TRN', '1', traceNumber, `9${digitsOnly(clinic.ein)}`)
+  seg('NM1', 'IL', '1', el(patient.last_name), el(patient.first_name), '', '', '', 'MI', el(patient.subscriber_id))
+  seg('DMG', 'D8', toX12Date(patient.date_of_birth) as string)
+  seg('DTP', '291', 'D8', toX12Date(options.serviceDate) as string)
+  seg('EQ', '30')
+
+  const transactionSegmentCount = segments.length - stIndex + 1
+  seg('SE', String(transactionSegmentCount), '0001')
+  seg('GE', '1', groupControl)
+  seg('IEA', '1', control)
+
+  const content = [isa, ...segments].join('~\n') + '~\n'
+  const patientSlug = String(patient.patient_id ?? '').replace(/[^a-zA-Z0-9]/g, '') || 'Patient'
+  return {
+    content,
+    fileName: `270_${patientSlug}_${ccyymmdd}_${control}.txt`,
+    traceNumber,
+  }
+}
+
+interface ParsedBenefit {
+  code: string
+  coverageLevel: string
+  serviceTypes: string[]
+  planName: string
+  timePeriod: string
+  amount: number | null
+  percent: number | null
+  inNetwork: boolean
+}
+
+/** Lower is better: in-network first, then by PREFERRED_SERVICE_TYPES; individual over family coverage. */
+function benefitRank(benefit: ParsedBenefit): number {
+  const types = benefit.serviceTypes.length > 0 ? benefit.serviceTypes : ['30']
+  const typeRank = Math.min(...types.map((t) => {
+    const i = PREFERRED_SERVICE_TYPES.indexOf(t)
+    return i === -1 ? PREFERRED_SERVICE_TYPES.length : i
+  }))
+  return (benefit.inNetwork ? 0 : 100) + typeRank * 10 + (benefit.coverageLevel === 'FAM' ? 1 : 0)
+}
+
+function bestBenefit(benefits: ParsedBenefit[], predicate: (b: ParsedBenefit) => boolean): ParsedBenefit | null {
+  const matches = benefits.filter(predicate)
+  if (matches.length === 0) return null
+  return matches.reduce((best, b) => (benefitRank(b) < benefitRank(best) ? b : best))
+}
+
+/** Parses DTP03 as D8 (CCYYMMDD) or RD8 (CCYYMMDD-CCYYMMDD) into begin/end dates. */
+function parseDtpRange(format: string | undefined, value: string | undefined): [string | null, string | null] {
+  if (format === 'RD8') {
+    const [from, to] = (value ?? '').split('-')
+    return [x12DateToIso(from), x12DateToIso(to)]
+  }
+  const date = x12DateToIso(value)
+  return [date, date]
+}
+
+function rejectReasonFor(code: string | undefined): string {
+  const c = (code ?? '').trim()
+  return AAA_REASONS[c] ? `${AAA_REASONS[c]} (${c})` : `Rejected${c ? ` (${c})` : ''}`
+}
+
+/**
+ * Parses an ANSI X12 271 (005010X279A1) response into one benefits snapshot per subscriber/dependent loop.
+ * Only the benefits stored on eligibility_checks are read: coverage status (EB01 1–8), plan dates (DTP 346/347,
+ * 291, 356/357), copay (EB*B), coinsurance (EB*A) and remaining deductible (EB*C with EB06 = 29).
+ */
+export function parse271(content: string): Eligibility271 {
+  const { segments, repetitionSep } = splitX12Segments(content)
+  if (!segments.some((s) => s[0] === 'ST' && s[1] === '271')) throw new Error('File is not a 271 eligibility response (no ST*271).')
+
+  const result: Eligibility271 = { payerName: null, subscribers: [], rejectReason: null }
+  let current: { subscriber: Eligibility271Subscriber; benefits: ParsedBenefit[]; rejected: boolean } | null = null
+  const finish = () => {
+    if (!current) return
+    const { subscriber, benefits } = current
+    const active = benefits.find((b) => ACTIVE_BENEFIT_CODES.has(b.code))
+    if (active) subscriber.status = 'active'
+    else if (benefits.some((b) => INACTIVE_BENEFIT_CODES.has(b.code))) subscriber.status = 'inactive'
+    else if (current.rejected) subscriber.status = 'rejected'
+    subscriber.planName = active?.planName || subscriber.planName
+    subscriber.copay = bestBenefit(benefits, (b) => b.code === 'B' && b.amount != null)?.amount ?? null
+    const coinsurance = bestBenefit(benefits, (b) => b.code === 'A' && b.percent != null)?.percent
+    subscriber.coinsurance = coinsurance != null ? Math.round(coinsurance * 10000) / 100 : null
+    subscriber.deductibleRemaining = bestBenefit(benefits, (b) => b.code === 'C' && b.timePeriod === '29' && b.amount != null)?.amount ?? null
+    result.subscribers.push(subscriber)
+    current = null
+  }
+
+  segments.forEach((el) => {
+    switch (el[0]) {
+      case 'HL':
+        if (el[3] === '22' || el[3] === '23') {
+          finish()
+          current = {
+            subscriber: {
+              traceNumber: null,
+              memberId: null,
+              firstName: null,
+              lastName: null,
+              status: 'inactive',
+              planName: null,
+              planBeginDate: null,
+              planEndDate: null,
+              copay: null,
+              coinsurance: null,
+              deductibleRemaining: null,
+              rejectReason: null,
+            },
+            benefits: [],
+            rejected: false,
+          }
+        }
+        break
+      case 'NM1':
+        if (el[1] === 'PR' && !current) result.payerName = el[3] || null
+        else if (current && (el[1] === 'IL' || el[1] === '03') && current.benefits.length === 0) {
+          current.subscriber.lastName = el[3] || null
+          current.subscriber.firstName = el[4] || null
+          if (el[9]) current.subscriber.memberId = el[9]
+        }
+        break
+      case 'TRN':
+        if (current && el[1] === '2' && !current.subscriber.traceNumber) current.subscriber.traceNumber = el[2] || null
+        break
+      case 'AAA':
+        if (current) {
+          current.rejected = true
+          current.subscriber.rejectReason = rejectReasonFor(el[3])
+        } else {
+          result.rejectReason = rejectReasonFor(el[3])
+        }
+        break
+      case 'DTP':
+        // Dates before the first EB belong to the subscriber; later ones qualify a single benefit.
+        if (current && current.benefits.length === 0) {
+          const [begin, end] = parseDtpRange(el[2], el[3])
+          const s = current.subscriber
+          if (el[1] === '346' || (el[1] === '356' && !s.planBeginDate)) s.planBeginDate = begin
+          else if (el[1] === '347' || (el[1] === '357' && !s.planEndDate)) s.planEndDate = end
+          else if (el[1] === '291') {
+            s.planBeginDate = s.planBeginDate ?? begin
+            s.planEndDate = s.planEndDate ?? (el[2] === 'RD8' ? end : null)
+          }
+        }
+        break
+      case 'EB':
+        if (current) {
+          current.benefits.push({
+            code: el[1] ?? '',
+            coverageLevel: el[2] ?? '',
+            serviceTypes: (el[3] ?? '').split(repetitionSep).filter(Boolean),
+            planName: el[5] ?? '',
+            timePeriod: el[6] ?? '',
+            amount: amountOrNull(el[7]),
+            percent: amountOrNull(el[8]),
+            inNetwork: el[12] !== 'N',
+          })
+        }
+        break
+    }
+  })
+  finish()
+  return result
+}
+
+/** Copay / coinsurance on the check that the patient record does not already have. */
+export function patientEligibilityUpdates(patient: Pick<Patient, 'copay' | 'coinsurance'>, check: EligibilityCheck): PatientEligibilityUpdates {
+  if (check.status !== 'active') return {}
+  const updates: PatientEligibilityUpdates = {}
+  const same = (current: string | number | null, verified: number) => {
+    const n = parseFloat(String(current ?? ''))
+    return Number.isFinite(n) && Math.abs(n - verified) < 0.005
+  }
+  if (check.copay != null && !same(patient.copay, check.copay)) updates.copay = check.copay
+  if (check.coinsurance != null && !same(patient.coinsurance, check.coinsurance)) updates.coinsurance = check.coinsurance
+  return updates
+}
+
+/** Latest answered (non-pending) check per patient, keyed by normalizePatientIdKey(patient_id). */
+export function latestEligibilityByPatient(checks: EligibilityCheck[]): Map<string, EligibilityCheck> {
+  const map = new Map<string, EligibilityCheck>()
+  checks.forEach((check) => {
+    if (check.status === 'pending' || !check.responded_at) return
+    const key = normalizePatientIdKey(check.patient_id)
+    const existing = map.get(key)
+    if (!existing || (existing.responded_at ?? '') < check.responded_at) map.set(key, check)
+  })
+  return map
+}
+
+export async function fetchEligibilityChecks(
+  supabase: SupabaseClient,
+  clinicId: string,
+  options: { patientId?: string; answeredOnly?: boolean } = {}
+): Promise<EligibilityCheck[]> {
+  let query = supabase.from('eligibility_checks').select('*').eq('clinic_id', clinicId)
+  if (options.patientId) query = query.eq('patient_id', options.patientId)
+  if (options.answeredOnly) query = query.neq('status', 'pending')
+  const { data, error } = await query.order('created_at', { ascending: false })
+  if (error) throw error
+  return (data || []) as EligibilityCheck[]
+}
+
+export async function saveEligibilityRequest(
+  supabase: SupabaseClient,
+  check: Pick<
+    EligibilityCheck,
+    | 'clinic_id' | 'patient_id' | 'patient_name' | 'subscriber_id' | 'payer_name' | 'payer_id' | 'service_date'
+    | 'interchange_control_number' | 'trace_number' | 'request_file_name' | 'request_content' | 'created_by'
+  >
+): Promise<EligibilityCheck> {
+  const { data, error } = await supabase
+    .from('eligibility_checks')
+    .insert({ ...check, status: 'pending' })
+    .select()
+    .single()
+  if (error) throw error
+  return data as EligibilityCheck
+}
+
+/**
+ * Stores a 271 on the clinic's pending checks. Each subscriber loop is matched by the TRN trace number echoed from
+ * our 270, falling back to the newest pending check with the same member ID. Subscribers that match nothing are
+ * returned so the user can see the file was for another clinic or an already-answered inquiry.
+ */
+export async function applyEligibilityResponse(
+  supabase: SupabaseClient,
+  clinicId: string,
+  content: string
+): Promise<EligibilityResponseResult> {
+  const response = parse271(content)
+  if (response.subscribers.length === 0) {
+    throw new Error(response.rejectReason ? `Payer rejected the inquiry: ${response.rejectReason}.` : 'The 271 contains no subscriber responses.')
+  }
+  const { data, error } = await supabase
+    .from('eligibility_checks')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  const pending = (data || []) as EligibilityCheck[]
+  const memberKey = (id: string | null) => String(id ?? '').trim().toUpperCase()
+
+  const updated: EligibilityCheck[] = []
+  const unmatched: Eligibility271Subscriber[] = []
+  const respondedAt = new Date().toISOString()
+  for (const subscriber of response.subscribers) {
+    const available = pending.filter((c) => !updated.some((u) => u.id === c.id))
+    const check =
+      available.find((c) => subscriber.traceNumber && c.trace_number === subscriber.traceNumber) ??
+      available.find((c) => subscriber.memberId && memberKey(c.subscriber_id) === memberKey(subscriber.memberId))
+    if (!check) {
+      unmatched.push(subscriber)
+      continue
+    }
+    const { data: saved, error: updateError } = await supabase
+      .from('eligibility_checks')
+      .update({
+        response_content: content,
+        status: subscriber.status,
+        plan_name: subscriber.planName,
+        plan_begin_date: subscriber.planBeginDate,
+        plan_end_date: subscriber.planEndDate,
+        copay: subscriber.copay,
+        coinsurance: subscriber.coinsurance,
+        deductible_remaining: subscriber.deductibleRemaining,
+        reject_reason: subscriber.rejectReason,
+        responded_at: respondedAt,
+      })
+      .eq('id', check.id)
+      .select()
+      .single()
+    if (updateError) throw updateError
+    updated.push(saved as EligibilityCheck)
+  }
+  return { updated, unmatched }
+}
+
+/** Writes verified copay / coinsurance to the patients row (by patients.id). */
+export async function applyEligibilityToPatient(
+  supabase: SupabaseClient,
+  patientRowId: string,
+  updates: PatientEligibilityUpdates
+): Promise<void> {
+  if (updates.copay === undefined && updates.coinsurance === undefined) return
+  const { error } = await supabase
+    .from('patients')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', patientRowId)
+  if (error) throw error
+}
@@ -1,4 +1,6 @@
-import type { Patient, SheetRow } from '@/types'
+import type { Patient, PatientCoverage, SheetRow } from '@/types'
+import { coveragesOnDate } from '@/lib/coordinationOfBenefits'
+import { toIsoDate } from '@/lib/utils'
 
 function isEmptyPatientCell(val: unknown): boolean {
   if (val == null) return true
@@ -6,12 +8,43 @@ function isEmptyPatientCell(val: unknown): boolean {
   return s === '' || s.toLowerCase() === 'null'
 }
 
+function coveragesByPatientKey(coverages: PatientCoverage[]): Map<string, PatientCoverage[]> {
+  const byPatient = new Map<string, PatientCoverage[]>()
+  for (const c of coverages) {
+    const k = String(c.patient_id ?? '').trim().toLowerCase()
+    if (!k) continue
+    const list = byPatient.get(k) ?? []
+    list.push(c)
+    byPatient.set(k, list)
+  }
+  return byPatient
+}
+
+/**
+ * Payer for the row's date of service. Once a patient has primary coverage records, the primary plan active on
+ * appointment_date wins (null when no plan covers that date, so a mid-year insurance change does not relabel older
+ * visits); otherwise, or when the row has no date yet, Patient.insurance is used.
+ */
+function insuranceForRow(row: SheetRow, patient: Patient, coverages: PatientCoverage[] | undefined): string | null {
+  const dos = toIsoDate(row.appointment_date)
+  if (dos && coverages?.some((c) => c.priority === 1)) {
+    return coveragesOnDate(coverages, patient.patient_id, dos).primary?.payer_name ?? null
+  }
+  return patient.insurance != null && String(patient.insurance).trim() !== '' ? patient.insurance : null
+}
+
 /**
  * When provider_sheet_rows has patient_id but empty denormalized patient fields, copy from patients table
  * (same clinic + patient_id). Only fills fields that are empty on the row so explicit sheet values win.
+ * With `coverages` (patient_coverages for the clinic), Insurance follows the plan active on each row's date of service.
  */
-export function enrichSheetRowsFromPatients(rows: SheetRow[], patients: Patient[]): SheetRow[] {
+export function enrichSheetRowsFromPatients(
+  rows: SheetRow[],
+  patients: Patient[],
+  coverages?: PatientCoverage[]
+): SheetRow[] {
   if (!rows.length || !patients.length) return rows
+  const coveragesByPatient = coveragesByPatientKey(coverages ?? [])
 
   const byPatientId = new Map<string, Patient>()
   for (const p of patients) {
@@ -41,8 +74,11 @@ export function enrichSheetRowsFromPatients(rows: SheetRow[], patients: Patient[
       next.patient_last_name = patient.last_name
       changed = true
     }
-    if (isEmptyPatientCell(next.patient_insurance) && patient.insurance != null && String(patient.insurance).trim() !== '') {
-      next.patient_insurance = patient.insurance
+    const insurance = isEmptyPatientCell(next.patient_insurance)
+      ? insuranceForRow(next, patient, coveragesByPatient.get(pid.toLowerCase()))
+      : null
+    if (insurance) {
+      next.patient_insurance = insurance
       changed = true
     }
     if (isEmptyPatientCell(next.patient_copay) && patient.copay != null && String(patient.copay).trim() !== '') {
@@ -65,8 +101,13 @@ export function enrichSheetRowsFromPatients(rows: SheetRow[], patients: Patient[
  * For rows whose patient_id matches a patient snapshot, fill only empty denormalized patient columns.
  * This mirrors Patient Info behavior (preserve in-flight/provider-entered values) and avoids late save clobber.
  */
-export function applyCoPatientSnapshotToSheetRows(rows: SheetRow[], patients: Patient[]): SheetRow[] {
+export function applyCoPatientSnapshotToSheetRows(
+  rows: SheetRow[],
+  patients: Patient[],
+  coverages?: PatientCoverage[]
+): SheetRow[] {
   if (!rows.length || !patients.length) return rows
+  const coveragesByPatient = coveragesByPatientKey(coverages ?? [])
 
   const byPatientId = new Map<string, Patient>()
   for (const p of patients) {
@@ -95,8 +136,11 @@ export function applyCoPatientSnapshotToSheetRows(rows: SheetRow[], patients: Pa
       next.patient_last_name = patient.last_name
       changed = true
     }
-    if (isEmptyPatientCell(next.patient_insurance) && patient.insurance != null && String(patient.insurance).trim() !== '') {
-      next.patient_insurance = patient.insurance
+    const insurance = isEmptyPatientCell(next.patient_insurance)
+      ? insuranceForRow(next, patient, coveragesByPatient.get(pid.toLowerCase()))
+      : null
+    if (insurance) {
+      next.patient_insurance = insurance
       changed = true
     }
     if (isEmptyPatientCell(next.patient_copay) && patient.copay != null && String(patient.copay).trim() !== '') {
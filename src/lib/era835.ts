@@ -0,0 +1,448 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ClaimStatus, EraException, EraImport, Patient, ProviderSheet, SheetRow } from '@/types'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { claimControlNumberForRow } from '@/lib/claim837p'
+import { cptCodesForRow } from '@/lib/providerSheetRows'
+import { parseAmount, toIsoDate, roundMoney } from '@/lib/utils'
+
+/** One CAS adjustment: group (CO, PR, OA, PI, CR) + CARC reason code + amount. */
+export interface Era835Adjustment {
+  group: string
+  reason: string
+  amount: number
+}
+
+export interface Era835ServiceLine {
+  cptCode: string | null
+  modifiers: string[]
+  chargeAmount: number
+  paidAmount: number
+  units: number
+  /** YYYY-MM-DD (DTM*472, or 150 service period start; falls back to the claim date). */
+  serviceDate: string | null
+  adjustments: Era835Adjustment[]
+  /** RARC codes from LQ*HE. */
+  remarkCodes: string[]
+}
+
+export interface Era835Claim {
+  /** CLP01 patient control number (claimControlNumberForRow for claims sent from our 837P). */
+  controlNumber: string
+  /** CLP02: 1/2/3 processed, 4 denied, 22 reversal, ... */
+  statusCode: string
+  chargeAmount: number
+  paidAmount: number
+  patientResponsibility: number
+  payerClaimNumber: string | null
+  patientFirstName: string | null
+  patientLastName: string | null
+  /** NM1*QC / NM1*IL NM109 member ID. */
+  memberId: string | null
+  serviceDate: string | null
+  adjustments: Era835Adjustment[]
+  remarkCodes: string[]
+  services: Era835ServiceLine[]
+}
+
+export interface Era835 {
+  payerName: string | null
+  payeeName: string | null
+  checkNumber: string | null
+  /** YYYY-MM-DD (BPR16, or DTM*405 production date). */
+  paymentDate: string | null
+  totalPaid: number
+  claims: Era835Claim[]
+}
+
+/** Fields an ERA posting can write on a provider sheet row. insurance_adjustment is the PT Res column (patient responsibility). */
+export type EraPostedField = 'insurance_payment' | 'insurance_adjustment' | 'payment_date' | 'claim_status'
+
+export interface EraPosting {
+  row: SheetRow
+  sheet: ProviderSheet
+  claim: Era835Claim
+  lines: Era835ServiceLine[]
+  proposed: {
+    insurance_payment: string
+    insurance_adjustment: string
+    payment_date: string | null
+    claim_status: ClaimStatus
+  }
+  /** Proposed fields that will not be written because the column is locked for the sheet. */
+  lockedFields: EraPostedField[]
+}
+
+/** An ERA service line that was not matched to exactly one row; becomes an era_exceptions row on post. */
+export interface EraUnmatchedLine {
+  claim: Era835Claim
+  line: Era835ServiceLine
+  reason: string
+}
+
+export interface EraMatchResult {
+  postings: EraPosting[]
+  unmatched: EraUnmatchedLine[]
+}
+
+function num(value: string | undefined): number {
+  const n = parseFloat(value ?? '')
+  return Number.isFinite(n) ? n : 0
+}
+
+export function x12DateToIso(value: string | undefined): string | null {
+  const s = (value ?? '').trim()
+  if (!/^\d{8}$/.test(s)) return null
+  return `${s.slice(0, 4)}-${s.slice(4, 6)}-${s.slice(6, 8)}`
+}
+
+function parseCas(elements: string[]): Era835Adjustment[] {
+  const group = elements[1] ?? ''
+  const adjustments: Era835Adjustment[] = []
+  for (let i = 2; i + 1 < elements.length; i += 3) {
+    const reason = elements[i]
+    if (!reason) continue
+    adjustments.push({ group, reason, amount: num(elements[i + 1]) })
+  }
+  return adjustments
+}
+
+/**
+ * Splits an X12 interchange into segments of elements, reading the element, repetition, component and segment
+ * delimiters from the fixed-width ISA header. Shared by the 835 and 271 parsers.
+ */
+export function splitX12Segments(content: string): { segments: string[][]; componentSep: string; repetitionSep: string } {
+  const text = content.replace(/^﻿/, '').trim()
+  if (!text.startsWith('ISA') || text.length < 106) throw new Error('Not an X12 file: missing ISA header.')
+  const elementSep = text[3]
+  const repetitionSep = text[82]
+  const componentSep = text[104]
+  const segmentSep = text[105]
+  const segments = text
+    .split(segmentSep)
+    .map((s) => s.replace(/[\r\n]/g, '').trim())
+    .filter(Boolean)
+    .map((s) => s.split(elementSep))
+  return { segments, componentSep, repetitionSep }
+}
+
+/**
+ * Parses an ANSI X12 835 (005010X221A1) remittance into claims and service lines. Delimiters are read from the ISA
+ * segment; segments outside the ones needed for posting (PLB, N3/N4, etc.) are ignored.
+ */
+export function parse835(content: string): Era835 {
+  const { segments, componentSep } = splitX12Segments(content)
+  if (!segments.some((s) => s[0] === 'ST' && s[1] === '835')) throw new Error('File is not an 835 remittance (no ST*835).')
+
+  const era: Era835 = { payerName: null, payeeName: null, checkNumber: null, paymentDate: null, totalPaid: 0, claims: [] }
+  let claim: Era835Claim | null = null
+  let service: Era835ServiceLine | null = null
+
+  segments.forEach((el) => {
+    switch (el[0]) {
+      case 'BPR':
+        era.totalPaid = num(el[2])
+        era.paymentDate = x12DateToIso(el[16]) ?? era.paymentDate
+        break
+      case 'TRN':
+        era.checkNumber = el[2] || null
+        break
+      case 'DTM':
+        if (el[1] === '405' && !era.paymentDate) era.paymentDate = x12DateToIso(el[2])
+        else if (service && (el[1] === '472' || el[1] === '150')) service.serviceDate = x12DateToIso(el[2])
+        else if (claim && !service && el[1] === '232') claim.serviceDate = x12DateToIso(el[2])
+        break
+      case 'N1':
+        if (el[1] === 'PR') era.payerName = el[2] || null
+        else if (el[1] === 'PE') era.payeeName = el[2] || null
+        break
+      case 'CLP':
+        service = null
+        claim = {
+          controlNumber: el[1] ?? '',
+          statusCode: el[2] ?? '',
+          chargeAmount: num(el[3]),
+          paidAmount: num(el[4]),
+          patientResponsibility: num(el[5]),
+          payerClaimNumber: el[7] || null,
+          patientFirstName: null,
+          patientLastName: null,
+          memberId: null,
+          serviceDate: null,
+          adjustments: [],
+          remarkCodes: [],
+          services: [],
+        }
+        era.claims.push(claim)
+        break
+      case 'NM1':
+        if (!claim) break
+        if (el[1] === 'QC') {
+          claim.patientLastName = el[3] || null
+          claim.patientFirstName = el[4] || null
+          claim.memberId = el[9] || claim.memberId
+        } else if (el[1] === 'IL' && !claim.memberId) {
+          claim.memberId = el[9] || null
+        }
+        break
+      case 'MOA':
+      case 'MIA':
+        if (claim) claim.remarkCodes.push(...el.slice(3).filter((c) => /^[A-Z]{1,2}\d+$/.test(c)))
+        break
+      case 'CAS':
+        if (service) service.adjustments.push(...parseCas(el))
+        else if (claim) claim.adjustments.push(...parseCas(el))
+        break
+      case 'SVC': {
+        if (!claim) break
+        const procedure = (el[1] ?? '').split(componentSep)
+        service = {
+          cptCode: procedure[1] || null,
+          modifiers: procedure.slice(2).filter(Boolean),
+          chargeAmount: num(el[2]),
+          paidAmount: num(el[3]),
+          units: el[5] ? num(el[5]) : 1,
+          serviceDate: null,
+          adjustments: [],
+          remarkCodes: [],
+        }
+        claim.services.push(service)
+        break
+      }
+      case 'LQ':
+        if (service && el[1] === 'HE' && el[2]) service.remarkCodes.push(el[2])
+        break
+      case 'SE':
+        claim = null
+        service = null
+        break
+    }
+  })
+
+  // Claims without SVC detail are posted as one line at claim level.
+  era.claims.forEach((c) => {
+    if (c.services.length === 0) {
+      c.services.push({
+        cptCode: null,
+        modifiers: [],
+        chargeAmount: c.chargeAmount,
+        paidAmount: c.paidAmount,
+        units: 1,
+        serviceDate: c.serviceDate,
+        adjustments: c.adjustments,
+        remarkCodes: c.remarkCodes,
+      })
+    }
+    c.services.forEach((s) => {
+      if (!s.serviceDate) s.serviceDate = c.serviceDate
+    })
+  })
+  return era
+}
+
+/** "CO-45, PR-1" style list of CAS adjustments (service line plus claim level). */
+export function formatAdjustmentCodes(adjustments: Era835Adjustment[]): string {
+  return adjustments.map((a) => `${a.group}-${a.reason}`).join(', ')
+}
+
+function patientResponsibilityForLine(claim: Era835Claim, line: Era835ServiceLine): number {
+  const pr = line.adjustments.filter((a) => a.group === 'PR').reduce((sum, a) => sum + a.amount, 0)
+  if (pr > 0 || line.adjustments.length > 0) return pr
+  return claim.services.length === 1 ? claim.patientResponsibility : 0
+}
+
+/** CO reasons that reduce the charge to the contracted amount rather than deny it (45 fee schedule, 253 sequestration). */
+const CONTRACTUAL_REASON_CODES = new Set(['45', '253'])
+
+/**
+ * CLP02 4 → Denial; paid → Paid. An unpaid claim the payer processed is a denial only when a non-PR adjustment other
+ * than a contractual write-down explains it. Otherwise the balance is the patient's: Deductible with PR-1, else Paid
+ * (coinsurance or copay, PR-2 / PR-3, took the allowed amount; PT Res carries it).
+ */
+function claimStatusForLines(claim: Era835Claim, lines: Era835ServiceLine[]): ClaimStatus {
+  if (claim.statusCode === '4') return 'Denial'
+  const paid = lines.reduce((sum, l) => sum + l.paidAmount, 0)
+  if (paid > 0) return 'Paid'
+  const adjustments = [...claim.adjustments, ...lines.flatMap((l) => l.adjustments)]
+  if (adjustments.some((a) => a.group !== 'PR' && a.amount !== 0 && !CONTRACTUAL_REASON_CODES.has(a.reason))) return 'Denial'
+  const patientResp = lines.reduce((sum, l) => sum + patientResponsibilityForLine(claim, l), 0)
+  if (patientResp <= 0) return 'Denial'
+  if (adjustments.some((a) => a.group === 'PR' && a.reason === '1')) return 'Deductible'
+  return 'Paid'
+}
+
+/**
+ * Matches each ERA service line to a provider sheet row: first by CLP01 against the 837P claim control number,
+ * then by patient (CLP01 or member ID → patient_id / subscriber_id), date of service and CPT code. Lines that match
+ * zero or several rows, and claim reversals, are returned as unmatched. Lines on the same row are combined.
+ */
+export function matchEraToRows(
+  era: Era835,
+  candidates: Array<{ row: SheetRow; sheet: ProviderSheet }>,
+  patients: Patient[],
+  lockedFieldsBySheetId: Map<string, Set<keyof SheetRow>>
+): EraMatchResult {
+  const unmatched: EraUnmatchedLine[] = []
+  const byControl = new Map<string, { row: SheetRow; sheet: ProviderSheet }>()
+  candidates.forEach((c) => byControl.set(claimControlNumberForRow(c.row.id), c))
+  const patientIdKeysBySubscriber = new Map<string, Set<string>>()
+  patients.forEach((p) => {
+    const sub = (p.subscriber_id ?? '').trim().toLowerCase()
+    if (!sub || !p.patient_id) return
+    const set = patientIdKeysBySubscriber.get(sub) ?? new Set<string>()
+    set.add(normalizePatientIdKey(p.patient_id))
+    patientIdKeysBySubscriber.set(sub, set)
+  })
+
+  const grouped = new Map<string, { candidate: { row: SheetRow; sheet: ProviderSheet }; claim: Era835Claim; lines: Era835ServiceLine[] }>()
+
+  era.claims.forEach((claim) => {
+    const direct = byControl.get(claim.controlNumber.toUpperCase())
+    const patientKeys = new Set<string>()
+    if (claim.controlNumber) patientKeys.add(normalizePatientIdKey(claim.controlNumber))
+    const member = (claim.memberId ?? '').trim().toLowerCase()
+    if (member) {
+      patientKeys.add(member)
+      patientIdKeysBySubscriber.get(member)?.forEach((k) => patientKeys.add(k))
+    }
+
+    claim.services.forEach((line) => {
+      if (claim.statusCode === '22') {
+        unmatched.push({ claim, line, reason: 'Claim reversal (CLP02 = 22); review manually.' })
+        return
+      }
+      let match = direct
+      if (!match) {
+        const hits = candidates.filter(({ row }) => {
+          if (!row.patient_id || !patientKeys.has(normalizePatientIdKey(row.patient_id))) return false
+          if (line.serviceDate && toIsoDate(row.appointment_date) !== line.serviceDate) return false
+          if (line.cptCode && !cptCodesForRow(row).includes(line.cptCode)) return false
+          return true
+        })
+        if (hits.length === 0) {
+          unmatched.push({ claim, line, reason: 'No sheet row matches patient, date of service and CPT.' })
+          return
+        }
+        if (hits.length > 1) {
+          unmatched.push({ claim, line, reason: `${hits.length} sheet rows match patient, date of service and CPT.` })
+          return
+        }
+        match = hits[0]
+      }
+      const existing = grouped.get(match.row.id)
+      if (existing) existing.lines.push(line)
+      else grouped.set(match.row.id, { candidate: match, claim, lines: [line] })
+    })
+  })
+
+  const postings: EraPosting[] = Array.from(grouped.values()).map(({ candidate, claim, lines }) => {
+    const paid = lines.reduce((sum, l) => sum + l.paidAmount, 0)
+    const patientResp = lines.reduce((sum, l) => sum + patientResponsibilityForLine(claim, l), 0)
+    const locked = lockedFieldsBySheetId.get(candidate.sheet.id) ?? new Set<keyof SheetRow>()
+    const fields: EraPostedField[] = ['insurance_payment', 'insurance_adjustment', 'payment_date', 'claim_status']
+    return {
+      row: candidate.row,
+      sheet: candidate.sheet,
+      claim,
+      lines,
+      proposed: {
+        insurance_payment: String(roundMoney(paid)),
+        insurance_adjustment: String(roundMoney(patientResp)),
+        payment_date: era.paymentDate,
+        claim_status: claimStatusForLines(claim, lines),
+      },
+      lockedFields: fields.filter((f) => locked.has(f)),
+    }
+  })
+  return { postings, unmatched }
+}
+
+/**
+ * Ins Pay already on the row, which posting replaces rather than adds to (a split payment or a reprocessed claim);
+ * null when the row has none or the column is locked. The review shows it and asks before posting over it.
+ */
+export function priorInsurancePayment(posting: EraPosting): number | null {
+  if (posting.lockedFields.includes('insurance_payment')) return null
+  const prior = parseAmount(posting.row.insurance_payment)
+  return prior !== 0 ? prior : null
+}
+
+/** Applies a posting's proposed values to its row, skipping locked fields. Ins Pay is replaced; see priorInsurancePayment. */
+export function applyEraPosting(row: SheetRow, posting: EraPosting): SheetRow {
+  const next: SheetRow = { ...row, updated_at: new Date().toISOString() }
+  const skip = new Set(posting.lockedFields)
+  if (!skip.has('insurance_payment')) next.insurance_payment = posting.proposed.insurance_payment
+  if (!skip.has('insurance_adjustment')) next.insurance_adjustment = posting.proposed.insurance_adjustment
+  if (!skip.has('payment_date') && posting.proposed.payment_date) next.payment_date = posting.proposed.payment_date
+  if (!skip.has('claim_status')) next.claim_status = posting.proposed.claim_status
+  return next
+}
+
+/** era_exceptions insert payload for a line that was not posted. */
+export function eraExceptionPayload(
+  clinicId: string,
+  eraImportId: string,
+  claim: Era835Claim,
+  line: Era835ServiceLine,
+  reason: string
+): Omit<EraException, 'id' | 'status' | 'resolved_by' | 'resolved_at' | 'created_at' | 'updated_at'> {
+  const patientName = [claim.patientFirstName, claim.patientLastName].filter(Boolean).join(' ')
+  return {
+    clinic_id: clinicId,
+    era_import_id: eraImportId,
+    claim_control_number: claim.controlNumber || null,
+    payer_claim_number: claim.payerClaimNumber,
+    patient_name: patientName || null,
+    member_id: claim.memberId,
+    date_of_service: line.serviceDate,
+    cpt_code: line.cptCode,
+    charge_amount: line.chargeAmount,
+    paid_amount: line.paidAmount,
+    patient_responsibility: patientResponsibilityForLine(claim, line),
+    adjustment_codes: formatAdjustmentCodes([...claim.adjustments, ...line.adjustments]) || null,
+    remark_codes: [...claim.remarkCodes, ...line.remarkCodes].join(', ') || null,
+    reason,
+  }
+}
+
+export async function saveEraImport(
+  supabase: SupabaseClient,
+  record: Omit<EraImport, 'id' | 'created_at'>
+): Promise<EraImport> {
+  const { data, error } = await supabase.from('era_imports').insert(record).select().single()
+  if (error) throw error
+  return data as EraImport
+}
+
+/** Previously posted imports with the same check/EFT number (to warn before double-posting). */
+export async function fetchEraImportsByCheckNumber(
+  supabase: SupabaseClient,
+  clinicId: string,
+  checkNumber: string
+): Promise<EraImport[]> {
+  const { data, error } = await supabase
+    .from('era_imports')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .eq('check_number', checkNumber)
+  if (error) throw error
+  return (data || []) as EraImport[]
+}
+
+export async function fetchOpenEraExceptions(supabase: SupabaseClient, clinicId: string): Promise<EraException[]> {
+  const { data, error } = await supabase
+    .from('era_exceptions')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .eq('status', 'Open')
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return (data || []) as EraException[]
+}
+
+export async function resolveEraException(supabase: SupabaseClient, id: string, userId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('era_exceptions')
+    .update({ status: 'Resolved', resolved_by: userId, resolved_at: new Date().toISOString() })
+    .eq('id', id)
+  if (error) throw error
+}
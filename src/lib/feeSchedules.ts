@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BillingCode, FeeSchedule, Payer, SheetRow } from '@/types'
+import { findPayer, payerKey } from '@/lib/payers'
+import { parseCsv, csvHeaderIndex } from '@/lib/csv'
+import { parseAmount, toIsoDate, roundMoney } from '@/lib/utils'
+import { cptCodesForRow } from '@/lib/providerSheetRows'
+
+export type FeeScheduleInput = Pick<FeeSchedule, 'payer_id' | 'billing_code_id' | 'allowed_amount' | 'effective_from' | 'effective_to'>
+
+export interface FeeScheduleCsvResult {
+  entries: FeeScheduleInput[]
+  /** One message per rejected line ("Line 4: ..."). */
+  errors: string[]
+}
+
+/** Expected vs actual reimbursement for one provider sheet row. */
+export interface RowReimbursement {
+  /** Sum of allowed amounts for the row's CPT codes; null when the payer or any code has no fee on the date of service. */
+  expected: number | null
+  /** Insurance payment + collected from patient. */
+  actual: number
+  /** actual − expected; null when expected is unknown. */
+  variance: number | null
+  /** CPT codes with no fee schedule entry for the payer on the date of service. */
+  missingCodes: string[]
+  /** Insurance has paid and the total collected is below the expected amount. */
+  underpaid: boolean
+}
+
+/** Resolves the allowed amount for (insurance text, CPT code, date of service). */
+export type FeeScheduleLookup = (insurance: string | null | undefined, code: string, dateOfService: string) => number | null
+
+export function createFeeScheduleLookup(feeSchedules: FeeSchedule[], payers: Payer[], billingCodes: BillingCode[]): FeeScheduleLookup {
+  const codeById = new Map(billingCodes.map((c) => [c.id, c.code.trim().toUpperCase()]))
+  const byPayerCode = new Map<string, FeeSchedule[]>()
+  feeSchedules.forEach((f) => {
+    const code = codeById.get(f.billing_code_id)
+    if (!code) return
+    const key = `${f.payer_id}|${code}`
+    const list = byPayerCode.get(key) ?? []
+    list.push(f)
+    byPayerCode.set(key, list)
+  })
+  const payerCache = new Map<string, Payer | null>()
+  return (insurance, code, dateOfService) => {
+    const key = payerKey(insurance)
+    if (!key) return null
+    if (!payerCache.has(key)) payerCache.set(key, findPayer(insurance, payers))
+    const payer = payerCache.get(key)
+    if (!payer) return null
+    const entries = byPayerCode.get(`${payer.id}|${code.trim().toUpperCase()}`)
+    if (!entries) return null
+    // Latest effective_from that covers the date wins when ranges overlap.
+    let best: FeeSchedule | null = null
+    entries.forEach((f) => {
+      if (f.effective_from > dateOfService) return
+      if (f.effective_to && f.effective_to < dateOfService) return
+      if (!best || f.effective_from > best.effective_from) best = f
+    })
+    return best ? Number((best as FeeSchedule).allowed_amount) : null
+  }
+}
+
+/** Expected amount and variance for a row from its insurance, CPT codes and date of service. */
+export function computeRowReimbursement(row: SheetRow, lookup: FeeScheduleLookup): RowReimbursement {
+  const actual = parseAmount(row.insurance_payment) + parseAmount(row.collected_from_patient)
+  const codes = cptCodesForRow(row)
+  const dos = toIsoDate(row.appointment_date)
+  if (codes.length === 0 || !dos) return { expected: null, actual, variance: null, missingCodes: [], underpaid: false }
+  let expected = 0
+  const missingCodes: string[] = []
+  codes.forEach((code) => {
+    const allowed = lookup(row.patient_insurance, code, dos)
+    if (allowed == null) missingCodes.push(code)
+    else expected += allowed
+  })
+  if (missingCodes.length > 0) return { expected: null, actual, variance: null, missingCodes, underpaid: false }
+  expected = roundMoney(expected)
+  const variance = Math.round((actual - expected) * 100) / 100
+  const insurancePaid = row.insurance_payment != null && String(row.insurance_payment).trim() !== '' && row.insurance_payment !== 'null'
+  return { expected, actual, variance, missingCodes, underpaid: insurancePaid && variance < 0 }
+}
+
+/**
+ * Parses a fee schedule CSV. Header names (any case): payer, cpt_code (or code / cpt), allowed_amount (or allowed / amount),
+ * effective_from (or start), effective_to (or end, optional). Payers resolve by name or alias; codes must exist in billing codes.
+ */
+export function parseFeeScheduleCsv(text: string, payers: Payer[], billingCodes: BillingCode[]): FeeScheduleCsvResult {
+  const rows = parseCsv(text)
+  if (rows.length === 0) return { entries: [], errors: ['The file is empty.'] }
+  const header = csvHeaderIndex(rows[0])
+  const col = (...names: string[]) => names.map((n) => header.get(n)).find((i) => i != null)
+  const payerCol = col('payer', 'payername', 'insurance')
+  const codeCol = col('cptcode', 'code', 'cpt', 'billingcode')
+  const amountCol = col('allowedamount', 'allowed', 'amount', 'fee')
+  const fromCol = col('effectivefrom', 'start', 'startdate', 'from')
+  const toCol = col('effectiveto', 'end', 'enddate', 'to')
+  const missing = [
+    payerCol == null && 'payer',
+    codeCol == null && 'cpt_code',
+    amountCol == null && 'allowed_amount',
+    fromCol == null && 'effective_from',
+  ].filter(Boolean)
+  if (missing.length > 0) return { entries: [], errors: [`Missing column(s): ${missing.join(', ')}.`] }
+
+  const codeByText = new Map(billingCodes.map((c) => [c.code.trim().toUpperCase(), c]))
+  const entries: FeeScheduleInput[] = []
+  const errors: string[] = []
+  rows.slice(1).forEach((fields, i) => {
+    const line = i + 2
+    const get = (index: number | undefined) => (index == null ? '' : (fields[index] ?? '').trim())
+    const payer = findPayer(get(payerCol), payers)
+    const code = codeByText.get(get(codeCol).toUpperCase())
+    const amountText = get(amountCol).replace(/[$,\s]/g, '')
+    const amount = amountText === '' ? NaN : Number(amountText)
+    const from = toIsoDate(get(fromCol))
+    const toText = get(toCol)
+    const to = toText ? toIsoDate(toText) : null
+    if (!payer) errors.push(`Line ${line}: unknown payer "${get(payerCol)}".`)
+    else if (!code) errors.push(`Line ${line}: unknown billing code "${get(codeCol)}".`)
+    else if (!Number.isFinite(amount) || amount < 0) errors.push(`Line ${line}: invalid allowed amount "${get(amountCol)}".`)
+    else if (!from) errors.push(`Line ${line}: invalid effective_from "${get(fromCol)}".`)
+    else if (toText && !to) errors.push(`Line ${line}: invalid effective_to "${toText}".`)
+    else if (to && to < from) errors.push(`Line ${line}: effective_to is before effective_from.`)
+    else {
+      entries.push({ payer_id: payer.id, billing_code_id: code.id, allowed_amount: amount, effective_from: from, effective_to: to })
+    }
+  })
+  return { entries, errors }
+}
+
+export async function fetchFeeSchedules(supabase: SupabaseClient): Promise<FeeSchedule[]> {
+  const { data, error } = await supabase.from('fee_schedules').select('*').order('effective_from', { ascending: false })
+  if (error) throw error
+  return (data || []) as FeeSchedule[]
+}
+
+/** Insert or replace fee schedule entries (same payer, code and effective_from overwrite). */
+export async function upsertFeeSchedules(supabase: SupabaseClient, entries: FeeScheduleInput[]): Promise<void> {
+  if (entries.length === 0) return
+  const { error } = await supabase
+    .from('fee_schedules')
+    .upsert(entries, { onConflict: 'payer_id,billing_code_id,effective_from' })
+  if (error) throw error
+}
+
+export async function updateFeeSchedule(supabase: SupabaseClient, id: string, entry: FeeScheduleInput): Promise<void> {
+  const { error } = await supabase.from('fee_schedules').update(entry).eq('id', id)
+  if (error) throw error
+}
+
+export async function deleteFeeSchedule(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('fee_schedules').delete().eq('id', id)
+  if (error) throw error
+}
@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Provider, ProviderTaxInfo } from '@/types'
+import { fetchPayTemplates, payoutLineKey } from '@/lib/providerPayTemplates'
+import { recordProviderCut, type ProviderPayRecord } from '@/lib/providerPayStatements'
+import { roundMoney } from '@/lib/utils'
+
+const PAGE_SIZE = 1000
+
+/** Box 1 nonemployee compensation at or above which a 1099-NEC is filed: $600 through 2025, $2,000 from 2026. */
+export function necFilingThreshold(year: number): number {
+  return year >= 2026 ? 2000 : 600
+}
+
+export interface Nec1099Recipient {
+  provider: Provider
+  /** null until tax details are entered. */
+  taxInfo: ProviderTaxInfo | null
+  /** Name for the form: tax_name, else first and last name. */
+  name: string
+  /** Box 1: Provider Cut paid in the tax year, all clinics. */
+  total: number
+  byClinic: Array<{ clinicId: string; clinicName: string; amount: number }>
+  periodCount: number
+  /** Total is at or above the filing threshold. */
+  mustFile: boolean
+  /** Tax details still needed before filing (empty when complete). */
+  missing: string[]
+}
+
+export interface Nec1099Summary {
+  year: number
+  threshold: number
+  /** Providers with pay in the year, highest total first. */
+  recipients: Nec1099Recipient[]
+}
+
+export const recipientName = (p: Provider, taxInfo: ProviderTaxInfo | null) => taxInfo?.tax_name?.trim() || `${p.first_name} ${p.last_name}`.trim()
+
+/** Calendar year a pay period was paid in: the pay date's year, else the period's own year. */
+function paidYear(record: Pick<ProviderPayRecord, 'pay_date' | 'year'>): number {
+  const match = /^(\d{4})-/.exec(record.pay_date ?? '')
+  return match ? Number(match[1]) : record.year
+}
+
+/** Tax details a provider still needs for a 1099-NEC. */
+export function missingTaxInfo(taxInfo: ProviderTaxInfo | null): string[] {
+  const missing: string[] = []
+  if (!taxInfo?.tin || taxInfo.tin.replace(/\D/g, '').length !== 9) missing.push('TIN')
+  if (!taxInfo?.tin_type) missing.push('TIN type')
+  if (!taxInfo?.mailing_address_1?.trim() || !taxInfo.mailing_city?.trim() || !taxInfo.mailing_state?.trim() || !taxInfo.mailing_zip?.trim()) {
+    missing.push('mailing address')
+  }
+  return missing
+}
+
+/** "123-45-6789" (SSN) or "12-3456789" (EIN); with mask, all but the last 4 digits hidden. */
+export function formatTin(tin: string | null | undefined, type: ProviderTaxInfo['tin_type'], mask = false): string {
+  const digits = (tin ?? '').replace(/\D/g, '')
+  if (digits.length !== 9) return digits
+  const shown = mask ? `*****${digits.slice(5)}` : digits
+  return type === 'EIN' ? `${shown.slice(0, 2)}-${shown.slice(2)}` : `${shown.slice(0, 3)}-${shown.slice(3, 5)}-${shown.slice(5)}`
+}
+
+/** Street, then "City, ST ZIP". */
+export function mailingAddressLines(taxInfo: ProviderTaxInfo | null): string[] {
+  if (!taxInfo) return []
+  const cityLine = [taxInfo.mailing_city?.trim(), [taxInfo.mailing_state?.trim(), taxInfo.mailing_zip?.trim()].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ')
+  return [taxInfo.mailing_address_1, taxInfo.mailing_address_2, cityLine].map((l) => (l ?? '').trim()).filter(Boolean)
+}
+
+/**
+ * Provider Cut paid in `year` per provider across all clinics, from saved Provider Pay (the payout line of each
+ * period). A period counts in the year its pay date falls in, so December pay dated in January counts the next year.
+ */
+export async function fetchNec1099Summary(supabase: SupabaseClient, year: number, threshold = necFilingThreshold(year)): Promise<Nec1099Summary> {
+  const records: ProviderPayRecord[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('provider_pay')
+      .select('id, clinic_id, provider_id, year, month, payroll, pay_date, template_id, rows:provider_pay_rows(line_key, amount)')
+      .gte('year', year - 1)
+      .lte('year', year + 1)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    const page = (data || []) as unknown as ProviderPayRecord[]
+    records.push(...page.filter((r) => paidYear(r) === year))
+    if (page.length < PAGE_SIZE) break
+  }
+
+  const [templates, providersResult, taxInfoResult, clinicsResult] = await Promise.all([
+    fetchPayTemplates(supabase),
+    supabase.from('providers').select('*'),
+    supabase.from('provider_tax_info').select('*'),
+    supabase.from('clinics').select('id, name'),
+  ])
+  if (providersResult.error) throw providersResult.error
+  if (taxInfoResult.error) throw taxInfoResult.error
+  if (clinicsResult.error) throw clinicsResult.error
+  const providersById = new Map(((providersResult.data || []) as Provider[]).map((p) => [p.id, p]))
+  const taxInfoByProvider = new Map(((taxInfoResult.data || []) as ProviderTaxInfo[]).map((t) => [t.provider_id, t]))
+  const clinicNames = new Map(((clinicsResult.data || []) as Array<{ id: string; name: string }>).map((c) => [c.id, c.name]))
+
+  const byProvider = new Map<string, { total: number; periods: number; byClinic: Map<string, number> }>()
+  records.forEach((r) => {
+    const amount = recordProviderCut({ ...r, rows: r.rows ?? [] }, payoutLineKey(templates, r.template_id))
+    const entry = byProvider.get(r.provider_id) ?? { total: 0, periods: 0, byClinic: new Map<string, number>() }
+    entry.total = roundMoney(entry.total + amount)
+    entry.periods++
+    entry.byClinic.set(r.clinic_id, roundMoney((entry.byClinic.get(r.clinic_id) ?? 0) + amount))
+    byProvider.set(r.provider_id, entry)
+  })
+
+  const recipients: Nec1099Recipient[] = []
+  byProvider.forEach((entry, providerId) => {
+    const provider = providersById.get(providerId)
+    if (!provider || entry.total === 0) return
+    const taxInfo = taxInfoByProvider.get(providerId) ?? null
+    recipients.push({
+      provider,
+      taxInfo,
+      name: recipientName(provider, taxInfo),
+      total: entry.total,
+      byClinic: Array.from(entry.byClinic, ([clinicId, amount]) => ({ clinicId, clinicName: clinicNames.get(clinicId) ?? '', amount })),
+      periodCount: entry.periods,
+      mustFile: entry.total >= threshold,
+      missing: missingTaxInfo(taxInfo),
+    })
+  })
+  return { year, threshold, recipients: recipients.sort((a, b) => b.total - a.total) }
+}
+
+function csvCell(value: string | number): string {
+  const s = String(value)
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+/**
+ * One line per recipient in the column layout e-filing services import for 1099-NEC
+ * (TIN digits only, 2-letter state, Box 1 as a plain decimal).
+ */
+export function nec1099RecipientsToCsv(recipients: Nec1099Recipient[], year: number): string {
+  const header = [
+    'Tax Year', 'Form', 'Recipient TIN Type', 'Recipient TIN', 'Recipient Name',
+    'Address Line 1', 'Address Line 2', 'City', 'State', 'ZIP', 'Country',
+    'Account Number', 'Box 1 Nonemployee Compensation', 'Box 4 Federal Income Tax Withheld',
+  ]
+  const lines = recipients.map(({ provider, taxInfo, name, total }) =>
+    [
+      year,
+      '1099-NEC',
+      taxInfo?.tin_type ?? '',
+      (taxInfo?.tin ?? '').replace(/\D/g, ''),
+      name,
+      taxInfo?.mailing_address_1?.trim() ?? '',
+      taxInfo?.mailing_address_2?.trim() ?? '',
+      taxInfo?.mailing_city?.trim() ?? '',
+      (taxInfo?.mailing_state ?? '').trim().toUpperCase(),
+      taxInfo?.mailing_zip?.trim() ?? '',
+      'US',
+      provider.npi ?? '',
+      total.toFixed(2),
+      '0.00',
+    ].map(csvCell).join(',')
+  )
+  return [header.join(','), ...lines].join('\n')
+}
+
+export type ProviderTaxInfoInput = Pick<
+  ProviderTaxInfo,
+  'tax_name' | 'tin' | 'tin_type' | 'mailing_address_1' | 'mailing_address_2' | 'mailing_city' | 'mailing_state' | 'mailing_zip'
+>
+
+/** Problems with entered tax details; empty when they can be saved. Blank fields are allowed (filled in later). */
+export function validateProviderTaxInfo(input: ProviderTaxInfoInput): string[] {
+  const errors: string[] = []
+  const tin = (input.tin ?? '').replace(/\D/g, '')
+  if (tin && tin.length !== 9) errors.push('TIN must be 9 digits.')
+  if (tin && !input.tin_type) errors.push('Choose whether the TIN is an SSN or an EIN.')
+  if (input.mailing_state?.trim() && !/^[A-Za-z]{2}$/.test(input.mailing_state.trim())) errors.push('State must be a 2-letter code.')
+  if (input.mailing_zip?.trim() && !/^\d{5}(-?\d{4})?$/.test(input.mailing_zip.trim())) errors.push('ZIP must be 5 or 9 digits.')
+  return errors
+}
+
+export async function saveProviderTaxInfo(supabase: SupabaseClient, providerId: string, input: ProviderTaxInfoInput): Promise<void> {
+  const text = (v: string | null | undefined) => v?.trim() || null
+  const { error } = await supabase.from('provider_tax_info').upsert(
+    {
+      provider_id: providerId,
+      tax_name: text(input.tax_name),
+      tin: (input.tin ?? '').replace(/\D/g, '') || null,
+      tin_type: input.tin_type || null,
+      mailing_address_1: text(input.mailing_address_1),
+      mailing_address_2: text(input.mailing_address_2),
+      mailing_city: text(input.mailing_city),
+      mailing_state: text(input.mailing_state)?.toUpperCase() ?? null,
+      mailing_zip: text(input.mailing_zip),
+    },
+    { onConflict: 'provider_id' }
+  )
+  if (error) throw error
+}
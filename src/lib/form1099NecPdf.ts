@@ -0,0 +1,59 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import { formatCurrency } from './utils'
+import { formatTin, mailingAddressLines, type Nec1099Summary } from './form1099Nec'
+
+function formatDateShort(d: Date): string {
+  return `${d.getMonth() + 1}/${d.getDate()}/${d.getFullYear()}`
+}
+
+/** Year-end summary of every provider's Provider Cut, with filing status and masked TINs, for review before e-filing. */
+export function generateNec1099SummaryPdf(summary: Nec1099Summary, generatedAt = new Date()): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape' })
+  const pageW = doc.internal.pageSize.getWidth()
+  const filing = summary.recipients.filter((r) => r.mustFile)
+
+  doc.setFontSize(16)
+  doc.setFont('helvetica', 'bold')
+  doc.text(`1099-NEC Summary – Tax Year ${summary.year}`, 14, 18)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.text(`Filing threshold: ${formatCurrency(summary.threshold)} · Generated ${formatDateShort(generatedAt)}`, 14, 25)
+  doc.text(
+    `${filing.length} of ${summary.recipients.length} provider(s) at or above the threshold; total ${formatCurrency(filing.reduce((s, r) => s + r.total, 0))}.`,
+    14,
+    31
+  )
+  const incomplete = filing.filter((r) => r.missing.length > 0).length
+  if (incomplete > 0) {
+    doc.setTextColor(180, 0, 0)
+    doc.text(`${incomplete} provider(s) to file are missing tax details.`, pageW - 14 - doc.getTextWidth(`${incomplete} provider(s) to file are missing tax details.`), 31)
+    doc.setTextColor(0, 0, 0)
+  }
+
+  autoTable(doc, {
+    head: [['Recipient', 'TIN', 'Mailing Address', 'Clinics', 'Periods', 'Box 1 Amount', 'Status']],
+    body: summary.recipients.map((r) => [
+      r.name,
+      r.taxInfo?.tin ? `${r.taxInfo.tin_type ?? ''} ${formatTin(r.taxInfo.tin, r.taxInfo.tin_type, true)}`.trim() : '',
+      mailingAddressLines(r.taxInfo).join('\n'),
+      r.byClinic.map((c) => `${c.clinicName}: ${formatCurrency(c.amount)}`).join('\n'),
+      String(r.periodCount),
+      formatCurrency(r.total),
+      !r.mustFile ? 'Below threshold' : r.missing.length > 0 ? `File – missing ${r.missing.join(', ')}` : 'File',
+    ]),
+    foot: [['Total', '', '', '', '', formatCurrency(summary.recipients.reduce((s, r) => s + r.total, 0)), '']],
+    startY: 37,
+    headStyles: { fillColor: [80, 80, 80] },
+    footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0] },
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' } },
+    didParseCell: (data) => {
+      const r = summary.recipients[data.row.index]
+      if (data.section === 'body' && data.column.index === 6 && r?.mustFile && r.missing.length > 0) data.cell.styles.textColor = [180, 0, 0]
+    },
+    margin: { left: 14, right: 14 },
+    styles: { fontSize: 8 },
+  })
+
+  return doc
+}
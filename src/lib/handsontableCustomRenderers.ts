@@ -861,3 +861,220 @@ export function createCPTCodeRenderer(colorMap: (value: string) => { color: stri
     textRenderer(instance, td as HTMLTableCellElement, row, col, prop, value || '', cellProperties)
   }
 }
+
+/**
+ * Single-select payer editor: search box over the payer list (matches names and aliases), arrow keys to move,
+ * Enter or click to pick. Column settings: `selectOptions` = payer names, optional `payerAliases` = name -> aliases.
+ * The stored value is the payer name, so the grid never gains new free-text spellings.
+ */
+export class PayerPickerEditor extends Handsontable.editors.BaseEditor {
+  private wrapper: HTMLDivElement | null = null
+  private searchInput: HTMLInputElement | null = null
+  private listEl: HTMLDivElement | null = null
+  private value = ''
+  private options: string[] = []
+  private aliases: Record<string, string[]> = {}
+  private filteredOptions: string[] = []
+  private highlighted = -1
+  private boundCloseOnClickOutside: (e: MouseEvent) => void = () => {}
+  private closeOnClickOutsideTimeoutId: ReturnType<typeof setTimeout> | null = null
+  /** Handsontable's focus manager focuses the active editor's TEXTAREA; here that is the dropdown wrapper. */
+  TEXTAREA: HTMLElement | null = null
+
+  createElements() {
+    this.wrapper = document.createElement('div')
+    this.wrapper.className = 'handsontable-payer-picker-editor'
+    this.wrapper.style.cssText = `
+      position: fixed;
+      min-width: 220px;
+      max-width: 340px;
+      max-height: 280px;
+      background: #fff;
+      border: 1px solid #ccc;
+      border-radius: 8px;
+      box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+      z-index: 10000;
+      display: flex;
+      flex-direction: column;
+      overflow: hidden;
+      color: #000000;
+    `
+    this.searchInput = document.createElement('input')
+    this.searchInput.type = 'text'
+    this.searchInput.placeholder = 'Search payers...'
+    this.searchInput.style.cssText = `
+      width: 100%;
+      box-sizing: border-box;
+      padding: 8px 12px;
+      border: none;
+      border-bottom: 1px solid #e5e7eb;
+      font-size: 14px;
+      outline: none;
+    `
+    this.listEl = document.createElement('div')
+    this.listEl.style.cssText = `
+      overflow-y: auto;
+      max-height: 240px;
+      padding: 4px 0;
+    `
+    this.wrapper.appendChild(this.searchInput)
+    this.wrapper.appendChild(this.listEl)
+    this.wrapper.addEventListener('mousedown', (e) => e.stopPropagation())
+    this.TEXTAREA = this.wrapper
+  }
+
+  open() {
+    if (!this.wrapper || !this.searchInput || !this.listEl) {
+      this.createElements()
+    }
+    const meta: Handsontable.CellProperties = this.hot.getCellMeta(this.row, this.col)
+    const columns: Handsontable.GridSettings['columns'] = this.hot.getSettings().columns
+    const colSettings: Handsontable.ColumnSettings | undefined = typeof columns === 'function' ? columns(this.col) : columns?.[this.col]
+    const rawOpts = meta.selectOptions ?? colSettings?.selectOptions
+    const resolved = typeof rawOpts === 'function' ? rawOpts(this.row, this.col, this.prop) : rawOpts
+    this.options = Array.isArray(resolved) ? resolved.map((o) => String(o == null ? '' : o)) : []
+    this.aliases = (meta.payerAliases ?? colSettings?.payerAliases ?? {}) as Record<string, string[]>
+    // Typing on a selected cell opens the editor with that text as the value: treat it as a search instead.
+    const original = this.originalValue != null ? String(this.originalValue) : ''
+    const typed = this.value !== original ? this.value : ''
+    this.value = original
+    this.positionDropdown()
+    this.searchInput!.value = typed
+    this.onSearch()
+    this.searchInput!.focus()
+    this.searchInput!.addEventListener('input', this.onSearch)
+    this.searchInput!.addEventListener('keydown', this.onSearchKeydown)
+    this.boundCloseOnClickOutside = (e: MouseEvent) => {
+      if (this.wrapper && !this.wrapper.contains(e.target as Node)) {
+        if (this.hot.isDestroyed) {
+          document.removeEventListener('mousedown', this.boundCloseOnClickOutside)
+          return
+        }
+        this.cancelChanges()
+      }
+    }
+    if (this.closeOnClickOutsideTimeoutId != null) clearTimeout(this.closeOnClickOutsideTimeoutId)
+    this.closeOnClickOutsideTimeoutId = setTimeout(() => {
+      this.closeOnClickOutsideTimeoutId = null
+      document.addEventListener('mousedown', this.boundCloseOnClickOutside)
+    }, 0)
+  }
+
+  close() {
+    if (this.closeOnClickOutsideTimeoutId != null) {
+      clearTimeout(this.closeOnClickOutsideTimeoutId)
+      this.closeOnClickOutsideTimeoutId = null
+    }
+    this.searchInput?.removeEventListener('input', this.onSearch)
+    this.searchInput?.removeEventListener('keydown', this.onSearchKeydown)
+    document.removeEventListener('mousedown', this.boundCloseOnClickOutside)
+    if (this.wrapper?.parentNode) {
+      this.wrapper.parentNode.removeChild(this.wrapper)
+    }
+  }
+
+  private onSearch = () => {
+    const q = (this.searchInput!.value || '').trim().toLowerCase()
+    this.filteredOptions = q
+      ? this.options.filter(opt =>
+          opt.toLowerCase().includes(q) || (this.aliases[opt] ?? []).some(a => a.toLowerCase().includes(q))
+        )
+      : [...this.options]
+    this.highlighted = q && this.filteredOptions.length > 0 ? 0 : -1
+    this.renderList()
+  }
+
+  private onSearchKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      this.cancelChanges()
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      e.stopPropagation()
+      if (this.filteredOptions.length === 0) return
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      this.highlighted = (this.highlighted + step + this.filteredOptions.length) % this.filteredOptions.length
+      this.renderList()
+    }
+  }
+
+  private positionDropdown() {
+    if (!this.wrapper || !this.TD) return
+    const tdRect = this.TD.getBoundingClientRect()
+    this.wrapper.style.left = `${tdRect.left}px`
+    this.wrapper.style.top = `${tdRect.bottom + 2}px`
+    this.wrapper.style.minWidth = `${Math.max(tdRect.width, 220)}px`
+    if (!this.wrapper.parentNode) {
+      document.body.appendChild(this.wrapper)
+    }
+  }
+
+  private pick(value: string) {
+    this.value = value
+    this.highlighted = -1
+    this.finishEditing()
+  }
+
+  private renderList() {
+    if (!this.listEl) return
+    this.listEl.innerHTML = ''
+    const addRow = (text: string, onPick: () => void, opts: { active?: boolean; muted?: boolean; hint?: string } = {}) => {
+      const row = document.createElement('div')
+      row.style.cssText = `
+        padding: 6px 12px;
+        cursor: pointer;
+        font-size: 13px;
+        background: ${opts.active ? '#dbeafe' : ''};
+        color: ${opts.muted ? '#6b7280' : '#000000'};
+      `
+      row.addEventListener('mouseenter', () => { if (!opts.active) row.style.backgroundColor = '#f3f4f6' })
+      row.addEventListener('mouseleave', () => { if (!opts.active) row.style.backgroundColor = '' })
+      row.textContent = text
+      if (opts.hint) {
+        const hint = document.createElement('span')
+        hint.textContent = ` ${opts.hint}`
+        hint.style.cssText = 'color: #6b7280; font-size: 11px;'
+        row.appendChild(hint)
+      }
+      row.addEventListener('mousedown', (e) => {
+        e.preventDefault()
+        e.stopPropagation()
+      })
+      row.addEventListener('click', (e) => {
+        e.preventDefault()
+        e.stopPropagation()
+        onPick()
+      })
+      this.listEl!.appendChild(row)
+      if (opts.active) row.scrollIntoView({ block: 'nearest' })
+    }
+    if (this.value) addRow('(clear)', () => this.pick(''), { muted: true })
+    this.filteredOptions.forEach((opt, i) => {
+      addRow(opt, () => this.pick(opt), {
+        active: i === this.highlighted || (this.highlighted < 0 && opt === this.value),
+        hint: opt === this.value ? '✓' : undefined,
+      })
+    })
+    if (this.filteredOptions.length === 0) {
+      const empty = document.createElement('div')
+      empty.style.cssText = 'padding: 8px 12px; color: #6b7280; font-size: 13px;'
+      empty.textContent = 'No matching payer'
+      this.listEl.appendChild(empty)
+    }
+  }
+
+  getValue(): string {
+    if (this.highlighted >= 0 && this.filteredOptions[this.highlighted] != null) {
+      return this.filteredOptions[this.highlighted]
+    }
+    return this.value
+  }
+
+  setValue(newValue?: any): void {
+    this.value = newValue != null ? String(newValue) : ''
+    if (this.listEl) this.renderList()
+  }
+
+  focus() {
+    this.searchInput?.focus()
+  }
+}
@@ -0,0 +1,310 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuditLog, Patient } from '@/types'
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 50
+
+export type DuplicateSignal = 'name' | 'date_of_birth' | 'phone' | 'email' | 'subscriber_id'
+
+export interface DuplicateMatch {
+  signal: DuplicateSignal
+  label: string
+  points: number
+}
+
+export interface PatientDuplicatePair {
+  a: Patient
+  b: Patient
+  /** 0–100; the sum of the matching signals' points. */
+  score: number
+  matches: DuplicateMatch[]
+}
+
+/** Patient fields the merge screen lets the user pick between; the survivor keeps its own patient_id. */
+export type MergeField =
+  | 'first_name'
+  | 'last_name'
+  | 'date_of_birth'
+  | 'phone'
+  | 'email'
+  | 'address'
+  | 'insurance'
+  | 'subscriber_id'
+  | 'copay'
+  | 'coinsurance'
+
+export const MERGE_FIELDS: Array<{ key: MergeField; label: string }> = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'date_of_birth', label: 'Date of birth' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'address', label: 'Address' },
+  { key: 'insurance', label: 'Insurance' },
+  { key: 'subscriber_id', label: 'Subscriber ID' },
+  { key: 'copay', label: 'Copay' },
+  { key: 'coinsurance', label: 'Coinsurance' },
+]
+
+export type PatientMergeValues = Record<MergeField, string | null>
+
+/** Rows rewritten from the duplicate's patient_id to the survivor's, by table (merge_patients RPC result). */
+export type PatientMergeCounts = Record<string, number>
+
+const NAME_POINTS = 40
+const DOB_POINTS = 25
+const DOB_TRANSPOSED_POINTS = 15
+const PHONE_POINTS = 15
+const EMAIL_POINTS = 15
+const SUBSCRIBER_POINTS = 20
+
+/** Common given-name short forms, so "Bob Smith" and "Robert Smith" compare as the same first name. */
+const NICKNAMES: string[][] = [
+  ['robert', 'rob', 'bob', 'bobby'],
+  ['william', 'will', 'bill', 'billy', 'liam'],
+  ['richard', 'rick', 'rich', 'dick'],
+  ['james', 'jim', 'jimmy', 'jamie'],
+  ['john', 'jack', 'johnny'],
+  ['joseph', 'joe', 'joey'],
+  ['michael', 'mike', 'mikey'],
+  ['thomas', 'tom', 'tommy'],
+  ['christopher', 'chris'],
+  ['daniel', 'dan', 'danny'],
+  ['anthony', 'tony'],
+  ['edward', 'ed', 'eddie', 'ted'],
+  ['elizabeth', 'liz', 'beth', 'betty', 'eliza'],
+  ['katherine', 'catherine', 'kate', 'katie', 'cathy', 'kathy'],
+  ['margaret', 'maggie', 'meg', 'peggy'],
+  ['jennifer', 'jen', 'jenny'],
+  ['patricia', 'pat', 'patty', 'trish'],
+  ['alexander', 'alex', 'xander'],
+  ['alexandra', 'alex', 'sandra'],
+  ['samuel', 'sam', 'sammy'],
+  ['samantha', 'sam', 'sammy'],
+  ['victoria', 'vicky', 'tori'],
+  ['deborah', 'debbie', 'deb'],
+  ['susan', 'sue', 'suzy'],
+]
+
+const NICKNAME_GROUPS = new Map<string, Set<number>>()
+NICKNAMES.forEach((names, i) => {
+  names.forEach((n) => {
+    const groups = NICKNAME_GROUPS.get(n) ?? new Set<number>()
+    groups.add(i)
+    NICKNAME_GROUPS.set(n, groups)
+  })
+})
+
+function normalizeName(value: string | null | undefined): string {
+  return String(value ?? '').toLowerCase().replace(/[^a-z]/g, '')
+}
+
+function digitsOnly(value: string | null | undefined): string {
+  const digits = String(value ?? '').replace(/\D/g, '')
+  return digits.length > 10 ? digits.slice(-10) : digits
+}
+
+function normalizeEmail(value: string | null | undefined): string {
+  return String(value ?? '').trim().toLowerCase()
+}
+
+function normalizeSubscriberId(value: string | null | undefined): string {
+  return String(value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+function isNickname(a: string, b: string): boolean {
+  const groups = NICKNAME_GROUPS.get(a)
+  if (!groups) return false
+  const other = NICKNAME_GROUPS.get(b)
+  return !!other && [...groups].some((g) => other.has(g))
+}
+
+/** Jaro–Winkler similarity (0–1); tolerant of typos and transposed letters, weighted toward a shared prefix. */
+function jaroWinkler(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const aMatched = new Array<boolean>(a.length).fill(false)
+  const bMatched = new Array<boolean>(b.length).fill(false)
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue
+      aMatched[i] = true
+      bMatched[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+  let transpositions = 0
+  let k = 0
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue
+    while (!bMatched[k]) k++
+    if (a[i] !== b[k]) transpositions++
+    k++
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+  let prefix = 0
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+function firstNameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (isNickname(a, b)) return 0.95
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return 0.85
+  return jaroWinkler(a, b)
+}
+
+/** Name similarity 0–1 on first and last name, also trying the names swapped (entered in the wrong columns). */
+export function patientNameSimilarity(a: Pick<Patient, 'first_name' | 'last_name'>, b: Pick<Patient, 'first_name' | 'last_name'>): number {
+  const af = normalizeName(a.first_name)
+  const al = normalizeName(a.last_name)
+  const bf = normalizeName(b.first_name)
+  const bl = normalizeName(b.last_name)
+  const straight = (firstNameSimilarity(af, bf) + jaroWinkler(al, bl)) / 2
+  const swapped = (jaroWinkler(af, bl) + jaroWinkler(al, bf)) / 2
+  return Math.max(straight, swapped)
+}
+
+/** Same digits with the month and day swapped, or two adjacent digits swapped (1985-03-12 vs 1958-03-12). */
+function isTransposedDate(a: string, b: string): boolean {
+  if (a.length !== 10 || b.length !== 10) return false
+  if (a.slice(0, 4) === b.slice(0, 4) && a.slice(5, 7) === b.slice(8, 10) && a.slice(8, 10) === b.slice(5, 7)) return true
+  const da = a.replace(/\D/g, '')
+  const db = b.replace(/\D/g, '')
+  const diff: number[] = []
+  for (let i = 0; i < da.length; i++) if (da[i] !== db[i]) diff.push(i)
+  return diff.length === 2 && diff[1] === diff[0]! + 1 && da[diff[0]!] === db[diff[1]!] && da[diff[1]!] === db[diff[0]!]
+}
+
+/** Scores one pair of patients; returns the matching signals and their points. */
+export function scorePatientPair(a: Patient, b: Patient): { score: number; matches: DuplicateMatch[] } {
+  const matches: DuplicateMatch[] = []
+
+  const nameSimilarity = patientNameSimilarity(a, b)
+  if (nameSimilarity >= 0.8) {
+    matches.push({
+      signal: 'name',
+      label: nameSimilarity >= 0.999 ? 'Same name' : `Similar name (${Math.round(nameSimilarity * 100)}%)`,
+      points: Math.round(NAME_POINTS * nameSimilarity),
+    })
+  }
+
+  const dobA = a.date_of_birth?.slice(0, 10) ?? ''
+  const dobB = b.date_of_birth?.slice(0, 10) ?? ''
+  if (dobA && dobB) {
+    if (dobA === dobB) matches.push({ signal: 'date_of_birth', label: 'Same DOB', points: DOB_POINTS })
+    else if (isTransposedDate(dobA, dobB)) matches.push({ signal: 'date_of_birth', label: 'DOB digits transposed', points: DOB_TRANSPOSED_POINTS })
+  }
+
+  const phoneA = digitsOnly(a.phone)
+  if (phoneA.length >= 7 && phoneA === digitsOnly(b.phone)) matches.push({ signal: 'phone', label: 'Same phone', points: PHONE_POINTS })
+
+  const emailA = normalizeEmail(a.email)
+  if (emailA && emailA === normalizeEmail(b.email)) matches.push({ signal: 'email', label: 'Same email', points: EMAIL_POINTS })
+
+  const subscriberA = normalizeSubscriberId(a.subscriber_id)
+  if (subscriberA && subscriberA === normalizeSubscriberId(b.subscriber_id)) {
+    matches.push({ signal: 'subscriber_id', label: 'Same subscriber ID', points: SUBSCRIBER_POINTS })
+  }
+
+  const score = Math.min(100, matches.reduce((sum, m) => sum + m.points, 0))
+  return { score, matches }
+}
+
+/** Keys that put two patients in the same comparison bucket, so the finder does not score every pair in the clinic. */
+function blockingKeys(p: Patient): string[] {
+  const keys: string[] = []
+  const first = normalizeName(p.first_name)
+  const last = normalizeName(p.last_name)
+  if (last) keys.push(`ln:${last.slice(0, 3)}`)
+  if (first) keys.push(`fn:${first.slice(0, 3)}`)
+  if (p.date_of_birth) keys.push(`dob:${p.date_of_birth.slice(0, 4)}`)
+  const phone = digitsOnly(p.phone)
+  if (phone.length >= 7) keys.push(`ph:${phone}`)
+  const email = normalizeEmail(p.email)
+  if (email) keys.push(`em:${email}`)
+  const subscriber = normalizeSubscriberId(p.subscriber_id)
+  if (subscriber) keys.push(`sub:${subscriber}`)
+  return keys
+}
+
+/** Likely duplicate pairs among the clinic's patients, highest score first. */
+export function findDuplicatePatients(patients: Patient[], minScore = DEFAULT_DUPLICATE_MIN_SCORE): PatientDuplicatePair[] {
+  const list = patients.filter((p) => p.patient_id?.trim())
+  const buckets = new Map<string, number[]>()
+  list.forEach((p, i) => {
+    blockingKeys(p).forEach((key) => {
+      const bucket = buckets.get(key) ?? []
+      bucket.push(i)
+      buckets.set(key, bucket)
+    })
+  })
+
+  const seen = new Set<string>()
+  const pairs: PatientDuplicatePair[] = []
+  buckets.forEach((bucket) => {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) {
+        const i = bucket[x]!
+        const j = bucket[y]!
+        const pairKey = i < j ? `${i}:${j}` : `${j}:${i}`
+        if (seen.has(pairKey)) continue
+        seen.add(pairKey)
+        const a = list[i]!
+        const b = list[j]!
+        const { score, matches } = scorePatientPair(a, b)
+        if (score >= minScore) pairs.push({ a, b, score, matches })
+      }
+    }
+  })
+  return pairs.sort((p, q) => q.score - p.score || p.a.patient_id.localeCompare(q.a.patient_id))
+}
+
+/** A patient's value for a merge field as text, null when blank. */
+export function mergeFieldValue(patient: Patient, field: MergeField): string | null {
+  const value = patient[field]
+  if (value == null) return null
+  const s = String(value).trim()
+  return s === '' ? null : s
+}
+
+/** Starting choice for each field: the survivor's value, or the duplicate's when the survivor has none. */
+export function defaultMergeValues(survivor: Patient, merged: Patient): PatientMergeValues {
+  const values = {} as PatientMergeValues
+  MERGE_FIELDS.forEach(({ key }) => {
+    values[key] = mergeFieldValue(survivor, key) ?? mergeFieldValue(merged, key)
+  })
+  return values
+}
+
+export async function mergePatients(
+  supabase: SupabaseClient,
+  survivorId: string,
+  mergedId: string,
+  values: PatientMergeValues
+): Promise<PatientMergeCounts> {
+  const { data, error } = await supabase.rpc('merge_patients', {
+    p_survivor_id: survivorId,
+    p_merged_id: mergedId,
+    p_values: values,
+  })
+  if (error) throw error
+  return (data || {}) as PatientMergeCounts
+}
+
+/** Recent patient merges in the clinic (audit_logs action MERGE), newest first. */
+export async function fetchPatientMergeLog(supabase: SupabaseClient, clinicId: string, limit = 20): Promise<AuditLog[]> {
+  const { data, error } = await supabase
+    .from('audit_logs')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .eq('action', 'MERGE')
+    .eq('table_name', 'patients')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw error
+  return (data || []) as AuditLog[]
+}
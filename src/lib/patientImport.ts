@@ -0,0 +1,332 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Patient } from '@/types'
+import { csvHeaderIndex, parseCsv } from '@/lib/csv'
+import { PATIENT_HEADER_ALIASES, type PatientCsvField } from '@/lib/tabBackups'
+import { readXlsxRows } from '@/lib/xlsxReader'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { DEFAULT_DUPLICATE_MIN_SCORE, scorePatientPair } from '@/lib/patientDuplicates'
+import { toDisplayDate, todayIso } from '@/lib/utils'
+
+export type PatientImportField = PatientCsvField
+
+export const PATIENT_IMPORT_FIELDS: Array<{ key: PatientImportField; label: string }> = [
+  { key: 'patient_id', label: 'Patient ID' },
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'date_of_birth', label: 'Date of birth' },
+  { key: 'insurance', label: 'Insurance' },
+  { key: 'subscriber_id', label: 'Subscriber ID' },
+  { key: 'copay', label: 'Copay' },
+  { key: 'coinsurance', label: 'Coinsurance' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'address', label: 'Address' },
+]
+
+/** Column headers common EHR exports use, on top of the Patients tab / backup headers. */
+const EHR_HEADER_ALIASES: Record<PatientImportField, string[]> = {
+  patient_id: ['mrn', 'chart number', 'chart #', 'chart no', 'account number', 'account #', 'acct #', 'patient number', 'patient #', 'patient account'],
+  first_name: ['first name', 'first', 'patient first name', 'given name', 'fname'],
+  last_name: ['last name', 'last', 'patient last name', 'surname', 'family name', 'lname'],
+  date_of_birth: ['dob', 'date of birth', 'birth date', 'birthdate', 'patient dob'],
+  insurance: ['primary insurance', 'insurance name', 'payer', 'payer name', 'carrier', 'insurance company', 'plan name'],
+  subscriber_id: ['subscriber id', 'member id', 'member #', 'policy number', 'policy #', 'insured id', 'insurance id'],
+  copay: ['co-pay', 'copay amount', 'office copay'],
+  coinsurance: ['co-insurance', 'coinsurance %', 'coins'],
+  phone: ['phone number', 'home phone', 'cell phone', 'mobile', 'mobile phone', 'primary phone'],
+  email: ['email address', 'e-mail', 'patient email'],
+  address: ['street', 'street address', 'address 1', 'address line 1', 'home address'],
+}
+
+/** Source column index per Patient field; null when the field is not imported. */
+export type PatientImportMapping = Record<PatientImportField, number | null>
+
+export type PatientImportValues = Partial<Record<PatientImportField, string | null>>
+
+export type PatientImportStatus = 'new' | 'updated' | 'skipped' | 'invalid'
+
+export interface PatientImportChange {
+  field: PatientImportField
+  from: string | null
+  to: string | null
+}
+
+export interface PatientImportRow {
+  /** 1-based line in the source file (the header is line 1). */
+  line: number
+  status: PatientImportStatus
+  values: PatientImportValues
+  /** Existing patient with the same patient_id (updated / skipped rows). */
+  existing: Patient | null
+  changes: PatientImportChange[]
+  messages: string[]
+  /** Skipped only because it looks like an existing patient under another ID; can be imported anyway. */
+  possibleDuplicate: boolean
+}
+
+export interface PatientImportFile {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface PatientImportResult {
+  inserted: Patient[]
+  updated: number
+}
+
+function headerKey(h: string): string {
+  return h.trim().toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+export async function readPatientImportFile(file: File): Promise<PatientImportFile> {
+  const rows = /\.xlsx$/i.test(file.name) ? await readXlsxRows(await file.arrayBuffer()) : parseCsv(await file.text())
+  if (rows.length === 0) return { headers: [], rows: [] }
+  const [headers, ...data] = rows
+  return { headers: headers!.map((h) => h.trim()), rows: data }
+}
+
+/** Maps each field to the first source column whose header matches one of its aliases. */
+export function autoMapPatientColumns(headers: string[]): PatientImportMapping {
+  const index = csvHeaderIndex(headers)
+  const mapping = {} as PatientImportMapping
+  const used = new Set<number>()
+  PATIENT_IMPORT_FIELDS.forEach(({ key }) => {
+    const aliases = [...PATIENT_HEADER_ALIASES[key], ...EHR_HEADER_ALIASES[key]]
+    const col = aliases.map((a) => index.get(headerKey(a))).find((i): i is number => i != null && !used.has(i))
+    mapping[key] = col ?? null
+    if (col != null) used.add(col)
+  })
+  return mapping
+}
+
+function blankToNull(value: string | null | undefined): string | null {
+  const s = String(value ?? '').trim()
+  return s === '' || s.toLowerCase() === 'null' ? null : s
+}
+
+/** "$1,025.00" -> "1025"; words such as N/A are kept as typed (the column is text). */
+export function normalizeCopay(raw: string | null | undefined): string | null {
+  const s = blankToNull(raw)
+  if (s == null) return null
+  const numeric = s.replace(/[$,\s]/g, '')
+  return numeric !== '' && !Number.isNaN(Number(numeric)) ? String(Number(numeric)) : s
+}
+
+/** "20%" or "20" -> "20"; a bare fraction such as 0.2 (Excel percent cells) -> "20". Words are kept as typed. */
+export function normalizeCoinsurance(raw: string | null | undefined): string | null {
+  const s = blankToNull(raw)
+  if (s == null) return null
+  const hasPercent = s.includes('%')
+  const numeric = s.replace(/[%\s]/g, '')
+  if (numeric === '' || Number.isNaN(Number(numeric))) return s
+  const n = Number(numeric)
+  return String(!hasPercent && n > 0 && n < 1 ? Math.round(n * 10000) / 100 : n)
+}
+
+function isoFromParts(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day))
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) return null
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Date of birth to YYYY-MM-DD. Accepts ISO (with or without time), M/D/YYYY, M-D-YYYY, M/D/YY (two-digit years after
+ * this year are 19xx), YYYYMMDD and Excel serial numbers. Returns undefined when the value is present but unreadable.
+ */
+export function normalizeDateOfBirth(raw: string | null | undefined): string | null | undefined {
+  const s = blankToNull(raw)
+  if (s == null) return null
+  let iso: string | null = null
+  let m: RegExpMatchArray | null
+  if ((m = s.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/))) {
+    iso = isoFromParts(Number(m[1]), Number(m[2]), Number(m[3]))
+  } else if ((m = s.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/))) {
+    let year = Number(m[3])
+    if (m[3]!.length === 2) year += year > new Date().getFullYear() % 100 ? 1900 : 2000
+    iso = isoFromParts(year, Number(m[1]), Number(m[2]))
+  } else if ((m = s.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    iso = isoFromParts(Number(m[1]), Number(m[2]), Number(m[3]))
+  } else if (/^\d{1,5}(\.\d+)?$/.test(s)) {
+    const serial = Math.floor(Number(s))
+    if (serial > 0 && serial < 80000) {
+      const d = new Date(Date.UTC(1899, 11, 30) + serial * 86400000)
+      iso = isoFromParts(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate())
+    }
+  }
+  if (!iso || iso > todayIso() || iso < '1900-01-01') return undefined
+  return iso
+}
+
+function comparable(field: PatientImportField, value: unknown): string | null {
+  const s = blankToNull(value == null ? null : String(value))
+  if (s == null) return null
+  if (field === 'date_of_birth') return s.slice(0, 10)
+  if (field === 'copay') return normalizeCopay(s)
+  if (field === 'coinsurance') return normalizeCoinsurance(s)
+  return s
+}
+
+function candidatePatient(clinicId: string, values: PatientImportValues): Patient {
+  return {
+    id: '',
+    clinic_id: clinicId,
+    patient_id: values.patient_id ?? '',
+    first_name: values.first_name ?? '',
+    last_name: values.last_name ?? '',
+    subscriber_id: values.subscriber_id ?? null,
+    insurance: values.insurance ?? null,
+    copay: values.copay ?? null,
+    coinsurance: values.coinsurance ?? null,
+    date_of_birth: values.date_of_birth ?? null,
+    phone: values.phone ?? null,
+    email: values.email ?? null,
+    address: values.address ?? null,
+    created_at: '',
+    updated_at: '',
+  }
+}
+
+/**
+ * Dry run: what committing the file would do to each row. Rows matching an existing patient_id update only the fields
+ * the file fills in and that differ; rows with a new ID that score as a likely duplicate of another patient are
+ * skipped unless their line is in `includeDuplicates`.
+ */
+export function planPatientImport(
+  clinicId: string,
+  file: PatientImportFile,
+  mapping: PatientImportMapping,
+  existing: Patient[],
+  includeDuplicates: Set<number> = new Set()
+): PatientImportRow[] {
+  const existingByKey = new Map<string, Patient>()
+  existing.forEach((p) => {
+    const key = normalizePatientIdKey(p.patient_id)
+    if (key) existingByKey.set(key, p)
+  })
+  const seenLines = new Map<string, number>()
+  const plan: PatientImportRow[] = []
+
+  file.rows.forEach((cells, i) => {
+    const line = i + 2
+    const raw: PatientImportValues = {}
+    PATIENT_IMPORT_FIELDS.forEach(({ key }) => {
+      const col = mapping[key]
+      if (col != null) raw[key] = blankToNull(cells[col])
+    })
+    if (Object.values(raw).every((v) => v == null)) return
+
+    const messages: string[] = []
+    const values: PatientImportValues = { ...raw }
+    if ('copay' in raw) values.copay = normalizeCopay(raw.copay)
+    if ('coinsurance' in raw) values.coinsurance = normalizeCoinsurance(raw.coinsurance)
+    if ('email' in raw) values.email = raw.email ? raw.email.toLowerCase() : null
+    if ('date_of_birth' in raw) {
+      const dob = normalizeDateOfBirth(raw.date_of_birth)
+      if (dob === undefined) messages.push(`Unreadable date of birth "${raw.date_of_birth}"`)
+      values.date_of_birth = dob ?? null
+    }
+
+    const row: PatientImportRow = { line, status: 'new', values, existing: null, changes: [], messages, possibleDuplicate: false }
+    plan.push(row)
+
+    const key = normalizePatientIdKey(values.patient_id ?? '')
+    if (!key) messages.push('Missing patient ID')
+    else if (seenLines.has(key)) messages.push(`Patient ID also on line ${seenLines.get(key)}`)
+    else seenLines.set(key, line)
+
+    const match = key ? existingByKey.get(key) ?? null : null
+    if (!match && (!values.first_name || !values.last_name)) messages.push('First and last name are required for new patients')
+    if (messages.length > 0) {
+      row.status = 'invalid'
+      return
+    }
+
+    if (match) {
+      row.existing = match
+      PATIENT_IMPORT_FIELDS.forEach(({ key: field }) => {
+        if (field === 'patient_id' || !(field in values)) return
+        const to = values[field] ?? null
+        const from = comparable(field, match[field])
+        if (to != null && to !== from) row.changes.push({ field, from, to })
+      })
+      if (row.changes.length === 0) {
+        row.status = 'skipped'
+        messages.push(`Matches ${match.patient_id}; nothing to change`)
+      } else {
+        row.status = 'updated'
+      }
+      return
+    }
+
+    const candidate = candidatePatient(clinicId, values)
+    let best: { patient: Patient; score: number; labels: string[] } | null = null
+    for (const p of existing) {
+      const { score, matches } = scorePatientPair(candidate, p)
+      if (score >= DEFAULT_DUPLICATE_MIN_SCORE && (!best || score > best.score)) {
+        best = { patient: p, score, labels: matches.map((m) => m.label) }
+      }
+    }
+    if (best) {
+      row.possibleDuplicate = true
+      messages.push(`Possible duplicate of ${best.patient.patient_id} (${best.labels.join(', ')})`)
+      if (!includeDuplicates.has(line)) row.status = 'skipped'
+    }
+  })
+  return plan
+}
+
+export function patientImportCounts(plan: PatientImportRow[]): Record<PatientImportStatus, number> {
+  const counts: Record<PatientImportStatus, number> = { new: 0, updated: 0, skipped: 0, invalid: 0 }
+  plan.forEach((r) => counts[r.status]++)
+  return counts
+}
+
+export function formatImportValue(field: PatientImportField, value: string | null): string {
+  if (value == null) return '—'
+  return field === 'date_of_birth' ? toDisplayDate(value) : value
+}
+
+/** Inserts the new rows and applies the updates in one database transaction (import_patients RPC). */
+export async function commitPatientImport(
+  supabase: SupabaseClient,
+  clinicId: string,
+  plan: PatientImportRow[]
+): Promise<PatientImportResult> {
+  const inserts = plan.filter((r) => r.status === 'new').map((r) => r.values)
+  const updates = plan
+    .filter((r) => r.status === 'updated' && r.existing)
+    .map((r) => ({ id: r.existing!.id, ...Object.fromEntries(r.changes.map((c) => [c.field, c.to])) }))
+  const { data, error } = await supabase.rpc('import_patients', {
+    p_clinic_id: clinicId,
+    p_inserts: inserts,
+    p_updates: updates,
+  })
+  if (error) throw error
+  const result = (data || {}) as { inserted?: Patient[]; updated?: number }
+  return { inserted: result.inserted ?? [], updated: result.updated ?? 0 }
+}
+
+/** Appends the newly imported patients to every active provider's sheet for the month (add-patients-to-provider-sheets). */
+export async function addPatientsToProviderSheets(
+  supabase: SupabaseClient,
+  clinicId: string,
+  selectedMonthKey: string,
+  patients: Patient[]
+): Promise<number> {
+  const supabaseUrl = (import.meta.env.VITE_SUPABASE_URL || '').replace(/\/$/, '')
+  if (!supabaseUrl) throw new Error('App is not configured for provider sheet updates.')
+  const { data: sessionData } = await supabase.auth.getSession()
+  const token = sessionData.session?.access_token
+  if (!token) throw new Error('Not signed in')
+  const res = await fetch(`${supabaseUrl}/functions/v1/add-patients-to-provider-sheets`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify({ clinicId, selectedMonthKey, patients }),
+  })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || 'Failed to add patients to provider sheets.')
+  return Number(data.added ?? 0)
+}
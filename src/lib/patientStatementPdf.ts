@@ -0,0 +1,165 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import { formatCurrency, toDisplayDate } from './utils'
+import { AGING_BUCKETS } from './arAging'
+import type { PatientStatement } from './patientStatements'
+import type { Clinic, Provider } from '@/types'
+
+export interface StatementClinicInfo {
+  clinic: Pick<Clinic, 'name' | 'phone'>
+  /** clinic_addresses lines 1–6 (see fetchClinicAddressesByClinicIds). */
+  addressLines: string[]
+  providersById: Record<string, Provider>
+}
+
+/** Height reserved at the bottom of the last page for the remittance slip. */
+const REMIT_SLIP_HEIGHT = 62
+
+function formatDateShort(d: Date): string {
+  return `${d.getMonth() + 1}/${d.getDate()}/${d.getFullYear()}`
+}
+
+function drawRightText(doc: jsPDF, text: string, rightX: number, y: number) {
+  doc.text(text, rightX - doc.getTextWidth(text), y)
+}
+
+/** Patient mailing block: name, then the patient's address split on commas after the street. */
+export function patientAddressLines(statement: PatientStatement): string[] {
+  const lines = [statement.patientName || statement.patientId]
+  const address = statement.patient?.address?.trim()
+  if (address) {
+    const idx = address.indexOf(',')
+    if (idx > 0) lines.push(address.slice(0, idx).trim(), address.slice(idx + 1).trim())
+    else lines.push(address)
+  }
+  return lines
+}
+
+function drawStatement(doc: jsPDF, statement: PatientStatement, info: StatementClinicInfo, statementDate: Date) {
+  const pageW = doc.internal.pageSize.getWidth()
+  const pageH = doc.internal.pageSize.getHeight()
+  const clinicLines = info.addressLines.map((l) => l.trim()).filter(Boolean)
+
+  doc.setFontSize(14)
+  doc.setFont('helvetica', 'bold')
+  doc.text(info.clinic.name, 14, 20)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  let y = 26
+  clinicLines.forEach((line) => {
+    doc.text(line, 14, y)
+    y += 5
+  })
+  if (info.clinic.phone) {
+    doc.text(`Phone: ${info.clinic.phone}`, 14, y)
+    y += 5
+  }
+
+  doc.setFontSize(20)
+  drawRightText(doc, 'STATEMENT', pageW - 14, 22)
+  doc.setFontSize(10)
+  drawRightText(doc, `Statement Date: ${formatDateShort(statementDate)}`, pageW - 14, 30)
+  drawRightText(doc, `Account: ${statement.patientId}`, pageW - 14, 36)
+
+  y = Math.max(y, 42) + 6
+  doc.setFont('helvetica', 'bold')
+  doc.text('Patient:', 14, y)
+  doc.setFont('helvetica', 'normal')
+  patientAddressLines(statement).forEach((line, i) => doc.text(line, 14, y + 6 + i * 5))
+  y += 6 + patientAddressLines(statement).length * 5 + 4
+
+  doc.setDrawColor(200, 200, 200)
+  doc.setFillColor(240, 240, 240)
+  doc.rect(14, y - 4, pageW - 28, 14, 'FD')
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(12)
+  doc.text('Balance Due:', 18, y + 5)
+  drawRightText(doc, formatCurrency(statement.balanceDue), pageW - 18, y + 5)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  y += 18
+
+  const providerName = (id: string) => {
+    const p = info.providersById[id]
+    return p ? `${p.first_name} ${p.last_name}` : ''
+  }
+
+  autoTable(doc, {
+    head: [['Date of Service', 'Provider', 'Service', 'Charges', 'Insurance Paid', 'Patient Paid', 'Adjustments', 'Balance Due']],
+    body: statement.lines.map((line) => [
+      toDisplayDate(line.dateOfService),
+      providerName(line.providerId),
+      line.cptCode,
+      formatCurrency(line.charges),
+      formatCurrency(line.insurancePaid),
+      formatCurrency(line.patientPaid),
+      formatCurrency(line.adjustments),
+      formatCurrency(line.balanceDue),
+    ]),
+    foot: [[
+      'Total', '', '',
+      formatCurrency(statement.charges),
+      formatCurrency(statement.insurancePaid),
+      formatCurrency(statement.patientPaid),
+      formatCurrency(statement.adjustments),
+      formatCurrency(statement.balanceDue),
+    ]],
+    startY: y,
+    headStyles: { fillColor: [80, 80, 80] },
+    footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0] },
+    margin: { left: 14, right: 14, bottom: REMIT_SLIP_HEIGHT + 10 },
+    styles: { fontSize: 9 },
+  })
+
+  autoTable(doc, {
+    head: [[...AGING_BUCKETS.map((b) => `${b.label} days`), 'Total Due']],
+    body: [[...AGING_BUCKETS.map((b) => formatCurrency(statement.aging[b.key])), formatCurrency(statement.balanceDue)]],
+    startY: (doc as any).lastAutoTable.finalY + 6,
+    headStyles: { fillColor: [120, 120, 120] },
+    margin: { left: 14, right: 14, bottom: REMIT_SLIP_HEIGHT + 10 },
+    styles: { fontSize: 9, halign: 'center' },
+  })
+
+  // Remittance slip on the statement's last page, below a dashed cut line.
+  const slipTop = pageH - REMIT_SLIP_HEIGHT
+  doc.setLineDashPattern([2, 2], 0)
+  doc.setDrawColor(120, 120, 120)
+  doc.line(10, slipTop, pageW - 10, slipTop)
+  doc.setLineDashPattern([], 0)
+  doc.setFontSize(8)
+  doc.text('Please detach and return this portion with your payment.', 14, slipTop + 5)
+
+  doc.setFontSize(10)
+  doc.setFont('helvetica', 'bold')
+  doc.text('Remit To:', 14, slipTop + 13)
+  doc.setFont('helvetica', 'normal')
+  ;[info.clinic.name, ...clinicLines].slice(0, 5).forEach((line, i) => doc.text(line, 14, slipTop + 19 + i * 5))
+
+  const col = pageW / 2 + 6
+  const rows: Array<[string, string]> = [
+    ['Patient', statement.patientName || statement.patientId],
+    ['Account', statement.patientId],
+    ['Statement Date', formatDateShort(statementDate)],
+    ['Amount Due', formatCurrency(statement.balanceDue)],
+  ]
+  rows.forEach(([label, value], i) => {
+    doc.setFont('helvetica', 'bold')
+    doc.text(`${label}:`, col, slipTop + 13 + i * 6)
+    doc.setFont('helvetica', 'normal')
+    drawRightText(doc, value, pageW - 14, slipTop + 13 + i * 6)
+  })
+  doc.setFont('helvetica', 'bold')
+  doc.text('Amount Enclosed:', col, slipTop + 43)
+  doc.setFont('helvetica', 'normal')
+  doc.line(col + doc.getTextWidth('Amount Enclosed:') + 4, slipTop + 44, pageW - 14, slipTop + 44)
+}
+
+/** One statement per patient (each starting on a new page), each ending with a remittance slip. */
+export function generatePatientStatementsPdf(statements: PatientStatement[], info: StatementClinicInfo, statementDate = new Date()): jsPDF {
+  const doc = new jsPDF()
+  statements.forEach((statement, i) => {
+    if (i > 0) doc.addPage()
+    drawStatement(doc, statement, info, statementDate)
+  })
+  return doc
+}
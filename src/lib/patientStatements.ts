@@ -0,0 +1,242 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BillingCode, Patient, PatientStatementRecord, PatientStatementRun, ProviderSheet, SheetRow } from '@/types'
+import { fetchClinicSheetRows, NO_CHARGE_APPOINTMENT_STATUSES } from '@/lib/providerSheetRows'
+import { fetchPayers } from '@/lib/payers'
+import { computeRowReimbursement, createFeeScheduleLookup, fetchFeeSchedules, type FeeScheduleLookup } from '@/lib/feeSchedules'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { bucketForDays, daysSince, type AgingBucketKey } from '@/lib/arAging'
+import { fetchPostedAdjustmentTotals, patientAdjustments, type RowAdjustmentTotals } from '@/lib/adjustments'
+import { parseAmount, toIsoDate, todayIso, roundMoney } from '@/lib/utils'
+
+/**
+ * PT Pay Status values the office writes statements for. "Waiting on Claim" is the spelling used by the
+ * sheet dropdown; "Waiting on Claims" is the PatientPayStatus type's.
+ */
+export const STATEMENT_PAY_STATUSES = new Set(['Payment Plan', 'CC declined', 'Waiting on Claims', 'Waiting on Claim'])
+
+/** Default batch threshold: patients owing less than this are skipped. */
+export const DEFAULT_STATEMENT_MIN_BALANCE = 10
+
+/** Visits older than this are not put on statements. */
+const STATEMENT_LOOKBACK_MONTHS = 24
+
+export interface StatementLine {
+  rowId: string
+  providerId: string
+  /** YYYY-MM-DD */
+  dateOfService: string
+  cptCode: string
+  charges: number
+  insurancePaid: number
+  patientPaid: number
+  /** Posted write-offs less refunds that apply to what the patient owes. */
+  adjustments: number
+  balanceDue: number
+  payStatus: string
+  bucket: AgingBucketKey
+}
+
+export interface PatientStatement {
+  patientId: string
+  patient: Patient | undefined
+  patientName: string
+  lines: StatementLine[]
+  charges: number
+  insurancePaid: number
+  patientPaid: number
+  adjustments: number
+  balanceDue: number
+  /** Balance due by age of the visit. */
+  aging: Record<AgingBucketKey, number>
+  /** YYYY-MM-DD of the last statement sent, if any. */
+  lastStatementDate: string | null
+}
+
+/**
+ * Open service line for a statement, or null. Charges are the fee schedule amount, else Ins Pay + PT Res.
+ * The patient owes PT Res when it is filled in, otherwise whatever insurance has not covered; balance due
+ * is that minus PT Paid and posted adjustments (contractual write-downs only when there is no PT Res, since PT Res
+ * is already net of them). Lines with a PT Pay Status other than the statement statuses (Paid, Secondary,
+ * Collections, ...) are left off; pass `payStatuses` to bill a different set.
+ */
+export function statementLineForRow(
+  row: SheetRow,
+  sheet: ProviderSheet,
+  insurance: string | null,
+  feeLookup: FeeScheduleLookup,
+  adjustmentTotals?: RowAdjustmentTotals,
+  payStatuses: Set<string> = STATEMENT_PAY_STATUSES
+): StatementLine | null {
+  const dateOfService = toIsoDate(row.appointment_date)
+  if (!dateOfService || !row.patient_id) return null
+  if (row.appointment_status && NO_CHARGE_APPOINTMENT_STATUSES.has(row.appointment_status)) return null
+  const payStatus = row.patient_pay_status ?? ''
+  if (payStatus && !payStatuses.has(payStatus)) return null
+
+  const insurancePaid = parseAmount(row.insurance_payment)
+  const patientPaid = parseAmount(row.collected_from_patient)
+  const hasPtRes = row.insurance_adjustment != null && String(row.insurance_adjustment).trim() !== '' && row.insurance_adjustment !== 'null'
+  const ptRes = parseAmount(row.insurance_adjustment)
+  const expected = computeRowReimbursement({ ...row, patient_insurance: insurance }, feeLookup).expected
+  const charges = roundMoney(expected ?? insurancePaid + ptRes)
+  if (charges <= 0) return null
+  const owed = hasPtRes ? ptRes : charges - insurancePaid
+  const adjustments = roundMoney(patientAdjustments(adjustmentTotals) + (hasPtRes ? 0 : adjustmentTotals?.insurance ?? 0))
+  const balanceDue = roundMoney(owed - patientPaid - adjustments)
+  if (balanceDue <= 0) return null
+
+  return {
+    rowId: row.id,
+    providerId: sheet.provider_id,
+    dateOfService,
+    cptCode: row.cpt_code ?? '',
+    charges,
+    insurancePaid: roundMoney(insurancePaid),
+    patientPaid: roundMoney(patientPaid),
+    adjustments,
+    balanceDue,
+    payStatus,
+    bucket: bucketForDays(daysSince(dateOfService, todayIso())),
+  }
+}
+
+/** Groups open lines by patient; statements sorted by balance due, largest first. */
+export function buildPatientStatements(
+  candidates: Array<{ row: SheetRow; sheet: ProviderSheet }>,
+  context: {
+    patients: Patient[]
+    feeLookup: FeeScheduleLookup
+    lastStatementDates: Record<string, string>
+    adjustmentTotals?: Map<string, RowAdjustmentTotals>
+    /** PT Pay Status values to include besides blank; defaults to STATEMENT_PAY_STATUSES. */
+    payStatuses?: Set<string>
+  }
+): PatientStatement[] {
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+  const byPatient = new Map<string, PatientStatement>()
+
+  candidates.forEach(({ row, sheet }) => {
+    if (!row.patient_id) return
+    const key = normalizePatientIdKey(row.patient_id)
+    const patient = patientsByKey.get(key)
+    const line = statementLineForRow(row, sheet, patient?.insurance ?? row.patient_insurance ?? null, context.feeLookup, context.adjustmentTotals?.get(row.id), context.payStatuses)
+    if (!line) return
+    let statement = byPatient.get(key)
+    if (!statement) {
+      const patientId = patient?.patient_id ?? row.patient_id
+      statement = {
+        patientId,
+        patient,
+        patientName: patient ? `${patient.first_name} ${patient.last_name}`.trim() : '',
+        lines: [],
+        charges: 0,
+        insurancePaid: 0,
+        patientPaid: 0,
+        adjustments: 0,
+        balanceDue: 0,
+        aging: { '0-30': 0, '31-60': 0, '61-90': 0, '91-120': 0, '120+': 0 },
+        lastStatementDate: context.lastStatementDates[normalizePatientIdKey(patientId)] ?? null,
+      }
+      byPatient.set(key, statement)
+    }
+    statement.lines.push(line)
+    statement.charges = roundMoney(statement.charges + line.charges)
+    statement.insurancePaid = roundMoney(statement.insurancePaid + line.insurancePaid)
+    statement.patientPaid = roundMoney(statement.patientPaid + line.patientPaid)
+    statement.adjustments = roundMoney(statement.adjustments + line.adjustments)
+    statement.balanceDue = roundMoney(statement.balanceDue + line.balanceDue)
+    statement.aging[line.bucket] = roundMoney(statement.aging[line.bucket] + line.balanceDue)
+  })
+
+  const statements = Array.from(byPatient.values())
+  statements.forEach((s) => s.lines.sort((a, b) => a.dateOfService.localeCompare(b.dateOfService)))
+  return statements.sort((a, b) => b.balanceDue - a.balanceDue)
+}
+
+/** Most recent statement date per patient (keyed by normalized patient ID). */
+export async function fetchLastStatementDates(supabase: SupabaseClient, clinicId: string): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('patient_statements')
+    .select('patient_id, statement_date')
+    .eq('clinic_id', clinicId)
+    .order('statement_date', { ascending: false })
+  if (error) throw error
+  const map: Record<string, string> = {}
+  ;((data || []) as Array<Pick<PatientStatementRecord, 'patient_id' | 'statement_date'>>).forEach((r) => {
+    const key = normalizePatientIdKey(r.patient_id)
+    if (!map[key]) map[key] = r.statement_date
+  })
+  return map
+}
+
+/** Loads the clinic's recent sheet rows, patients and pricing and builds a statement per patient with a balance. */
+export async function fetchPatientStatements(supabase: SupabaseClient, clinicId: string): Promise<PatientStatement[]> {
+  const [candidates, patientsResult, payers, feeSchedules, billingCodesResult, lastStatementDates, adjustmentTotals] = await Promise.all([
+    fetchClinicSheetRows(supabase, clinicId, STATEMENT_LOOKBACK_MONTHS),
+    supabase.from('patients').select('*').eq('clinic_id', clinicId),
+    fetchPayers(supabase),
+    fetchFeeSchedules(supabase),
+    supabase.from('billing_codes').select('*'),
+    fetchLastStatementDates(supabase, clinicId),
+    fetchPostedAdjustmentTotals(supabase, [clinicId]),
+  ])
+  if (patientsResult.error) throw patientsResult.error
+  if (billingCodesResult.error) throw billingCodesResult.error
+  const feeLookup = createFeeScheduleLookup(feeSchedules, payers, (billingCodesResult.data || []) as BillingCode[])
+  return buildPatientStatements(candidates, {
+    patients: (patientsResult.data || []) as Patient[],
+    feeLookup,
+    lastStatementDates,
+    adjustmentTotals,
+  })
+}
+
+export async function fetchStatementRuns(supabase: SupabaseClient, clinicId: string): Promise<PatientStatementRun[]> {
+  const { data, error } = await supabase
+    .from('patient_statement_runs')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return (data || []) as PatientStatementRun[]
+}
+
+/** Records a statement run and the patients on it. minBalance is null for a single-patient statement. */
+export async function recordStatementRun(
+  supabase: SupabaseClient,
+  clinicId: string,
+  statements: PatientStatement[],
+  minBalance: number | null,
+  userId: string | null
+): Promise<PatientStatementRun> {
+  const statementDate = todayIso()
+  const { data: run, error: runError } = await supabase
+    .from('patient_statement_runs')
+    .insert({
+      clinic_id: clinicId,
+      statement_date: statementDate,
+      min_balance: minBalance,
+      statement_count: statements.length,
+      total_due: roundMoney(statements.reduce((sum, s) => sum + s.balanceDue, 0)),
+      created_by: userId,
+    })
+    .select()
+    .single()
+  if (runError) throw runError
+  if (statements.length > 0) {
+    const { error } = await supabase.from('patient_statements').insert(
+      statements.map((s) => ({
+        run_id: run.id,
+        clinic_id: clinicId,
+        patient_id: s.patientId,
+        patient_name: s.patientName || null,
+        statement_date: statementDate,
+        line_count: s.lines.length,
+        balance_due: s.balanceDue,
+      }))
+    )
+    if (error) throw error
+  }
+  return run as PatientStatementRun
+}
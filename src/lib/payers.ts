@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Payer } from '@/types'
+
+export type PayerInput = Pick<
+  Payer,
+  'name' | 'aliases' | 'payer_id' | 'claim_address' | 'phone' | 'timely_filing_days' | 'submission_method' | 'is_active'
+>
+
+/** Free-text insurance value with how many records use it (normalization tool). */
+export interface InsuranceValueUsage {
+  value: string
+  patientCount: number
+  scheduleCount: number
+  /** Payer whose name or alias already matches the value exactly (case/punctuation-insensitive). */
+  matched: Payer | null
+}
+
+export interface PayerSuggestion {
+  payer: Payer
+  /** 0–1, higher is closer. */
+  score: number
+}
+
+/** Comparison key for insurance text: lower case, punctuation dropped, whitespace collapsed. */
+export function payerKey(value: string | null | undefined): string {
+  return String(value ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/** Payer whose name or one of its aliases equals `value` (by payerKey), or null. */
+export function findPayer(value: string | null | undefined, payers: Payer[]): Payer | null {
+  const key = payerKey(value)
+  if (!key) return null
+  return payers.find((p) => payerKey(p.name) === key || p.aliases.some((a) => payerKey(a) === key)) ?? null
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i]
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = cur
+  }
+  return prev[b.length]
+}
+
+/**
+ * Similarity of two payerKeys. Takes the best of: edit distance, shared words, and initials
+ * ("bcbs" vs "blue cross blue shield"), so abbreviations and state suffixes still score high.
+ */
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+  const edit = 1 - levenshtein(a, b) / Math.max(a.length, b.length)
+  const wordsA = a.split(' ')
+  const wordsB = b.split(' ')
+  const shared = wordsA.filter((w) => wordsB.includes(w)).length
+  const words = shared / Math.max(wordsA.length, wordsB.length)
+  const initialsA = wordsA.map((w) => w[0]).join('')
+  const initialsB = wordsB.map((w) => w[0]).join('')
+  const initials =
+    (wordsA.length === 1 && wordsB.length > 1 && initialsB.startsWith(wordsA[0])) ||
+    (wordsB.length === 1 && wordsA.length > 1 && initialsA.startsWith(wordsB[0]))
+      ? 0.9
+      : 0
+  const prefix = a.startsWith(b) || b.startsWith(a) ? 0.8 : 0
+  return Math.max(edit, words, initials, prefix)
+}
+
+/** Closest payers for a free-text value, best first, for the normalization review. */
+export function suggestPayers(value: string, payers: Payer[], limit = 3, minScore = 0.5): PayerSuggestion[] {
+  const key = payerKey(value)
+  if (!key) return []
+  return payers
+    .map((payer) => ({
+      payer,
+      score: Math.max(similarity(key, payerKey(payer.name)), ...payer.aliases.map((a) => similarity(key, payerKey(a)))),
+    }))
+    .filter((s) => s.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+export async function fetchPayers(supabase: SupabaseClient): Promise<Payer[]> {
+  const { data, error } = await supabase.from('payers').select('*').order('name')
+  if (error) throw error
+  return ((data || []) as Payer[]).map((p) => ({ ...p, aliases: p.aliases ?? [] }))
+}
+
+export async function savePayer(supabase: SupabaseClient, input: PayerInput, id?: string): Promise<Payer> {
+  const payload = {
+    ...input,
+    name: input.name.trim(),
+    aliases: Array.from(new Set(input.aliases.map((a) => a.trim()).filter(Boolean))),
+  }
+  const query = id
+    ? supabase.from('payers').update(payload).eq('id', id)
+    : supabase.from('payers').insert(payload)
+  const { data, error } = await query.select('*').single()
+  if (error) throw error
+  return data as Payer
+}
+
+export async function deletePayer(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('payers').delete().eq('id', id)
+  if (error) throw error
+}
+
+const PAGE_SIZE = 1000
+
+/** Reads one column from every row of a table in pages (PostgREST caps a single select). */
+async function fetchColumnValues(supabase: SupabaseClient, table: string, column: string): Promise<string[]> {
+  const values: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select(column)
+      .not(column, 'is', null)
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    const page = (data || []) as unknown as Record<string, string | null>[]
+    page.forEach((r) => {
+      const v = r[column]
+      if (v != null && String(v).trim()) values.push(String(v))
+    })
+    if (page.length < PAGE_SIZE) return values
+  }
+}
+
+/** Distinct insurance values in patients and provider_schedules with usage counts, most used first. */
+export async function fetchInsuranceValueUsage(supabase: SupabaseClient, payers: Payer[]): Promise<InsuranceValueUsage[]> {
+  const [patientValues, scheduleValues] = await Promise.all([
+    fetchColumnValues(supabase, 'patients', 'insurance'),
+    fetchColumnValues(supabase, 'provider_schedules', 'insurance'),
+  ])
+  const byValue = new Map<string, InsuranceValueUsage>()
+  const entry = (value: string) => {
+    let e = byValue.get(value)
+    if (!e) {
+      e = { value, patientCount: 0, scheduleCount: 0, matched: findPayer(value, payers) }
+      byValue.set(value, e)
+    }
+    return e
+  }
+  patientValues.forEach((v) => { entry(v).patientCount++ })
+  scheduleValues.forEach((v) => { entry(v).scheduleCount++ })
+  return Array.from(byValue.values()).sort(
+    (a, b) => b.patientCount + b.scheduleCount - (a.patientCount + a.scheduleCount) || a.value.localeCompare(b.value)
+  )
+}
+
+/**
+ * Rewrites every patients / provider_schedules insurance cell equal to `value` to the payer's name and
+ * records `value` as an alias so future entries of the same spelling resolve without review.
+ */
+export async function applyPayerMapping(supabase: SupabaseClient, value: string, payer: Payer): Promise<Payer> {
+  if (value !== payer.name) {
+    const [patientsResult, schedulesResult] = await Promise.all([
+      supabase.from('patients').update({ insurance: payer.name }).eq('insurance', value),
+      supabase.from('provider_schedules').update({ insurance: payer.name }).eq('insurance', value),
+    ])
+    if (patientsResult.error) throw patientsResult.error
+    if (schedulesResult.error) throw schedulesResult.error
+  }
+  const key = payerKey(value)
+  if (key === payerKey(payer.name) || payer.aliases.some((a) => payerKey(a) === key)) return payer
+  const { data, error } = await supabase
+    .from('payers')
+    .update({ aliases: [...payer.aliases, value.trim()] })
+    .eq('id', payer.id)
+    .select('*')
+    .single()
+  if (error) throw error
+  return data as Payer
+}
@@ -0,0 +1,260 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PaymentPlan, PaymentPlanFrequency, PaymentPlanPayment, PaymentPlanRow, ProviderSheet, SheetRow } from '@/types'
+import { fetchLockedFieldsBySheetId } from '@/lib/providerSheetLocks'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import type { StatementLine } from '@/lib/patientStatements'
+import { todayIso, roundMoney, addDaysIso } from '@/lib/utils'
+
+export type PaymentPlanInput = Pick<PaymentPlan, 'patient_id' | 'total_amount' | 'installment_amount' | 'frequency' | 'start_date' | 'grace_days' | 'notes'>
+
+export type PaymentPlanPaymentInput = Pick<PaymentPlanPayment, 'amount' | 'paid_date' | 'method' | 'notes'>
+
+export const PAYMENT_PLAN_FREQUENCY_LABELS: Record<PaymentPlanFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+}
+
+export const DEFAULT_PAYMENT_PLAN_GRACE_DAYS = 5
+
+/** Plan with the sheet rows it covers and the payments recorded against it. */
+export interface PaymentPlanDetail {
+  plan: PaymentPlan
+  rows: PaymentPlanRow[]
+  payments: PaymentPlanPayment[]
+}
+
+export type InstallmentStatus = 'paid' | 'missed' | 'due' | 'upcoming'
+
+export interface Installment {
+  number: number
+  /** YYYY-MM-DD */
+  dueDate: string
+  amount: number
+  /** Part of the plan's payments applied to this installment (payments fill installments in order). */
+  paidToward: number
+  status: InstallmentStatus
+}
+
+export interface PaymentPlanSummary {
+  paid: number
+  remaining: number
+  installments: Installment[]
+  nextDue: Installment | null
+  missedCount: number
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+function addToIsoDate(iso: string, frequency: PaymentPlanFrequency, steps: number): string {
+  const [y, m, d] = iso.split('-').map(Number)
+  if (frequency === 'monthly') {
+    // Keep the start day, clamped to the month's last day (Jan 31 → Feb 28 → Mar 31).
+    const lastDay = new Date(y, m - 1 + steps + 1, 0).getDate()
+    return new Date(y, m - 1 + steps, Math.min(d, lastDay)).toLocaleDateString('en-CA')
+  }
+  return addDaysIso(iso, steps * (frequency === 'weekly' ? 7 : 14))
+}
+
+/**
+ * Installments for the plan: installment_amount each (the last one takes the remainder) every period from start_date.
+ * Payments are applied to installments in order; an installment not covered grace_days after its due date is missed.
+ */
+export function buildInstallmentSchedule(plan: PaymentPlan, payments: PaymentPlanPayment[], today = todayIso()): Installment[] {
+  const total = Number(plan.total_amount) || 0
+  const step = Number(plan.installment_amount) || 0
+  if (total <= 0 || step <= 0) return []
+  let available = payments.reduce((sum, p) => sum + (Number(p.amount) || 0), 0)
+  const count = Math.ceil(roundMoney(total / step))
+  const installments: Installment[] = []
+  for (let i = 0; i < count; i++) {
+    const amount = roundMoney(Math.min(step, total - step * i))
+    if (amount <= 0) break
+    const paidToward = roundMoney(Math.min(amount, Math.max(0, available)))
+    available -= paidToward
+    const dueDate = addToIsoDate(plan.start_date, plan.frequency, i)
+    const status: InstallmentStatus =
+      paidToward >= amount - 0.005 ? 'paid'
+        : addDaysIso(dueDate, plan.grace_days) < today ? 'missed'
+          : dueDate <= today ? 'due'
+            : 'upcoming'
+    installments.push({ number: i + 1, dueDate, amount, paidToward, status })
+  }
+  return installments
+}
+
+export function summarizePaymentPlan(detail: PaymentPlanDetail, today = todayIso()): PaymentPlanSummary {
+  const installments = buildInstallmentSchedule(detail.plan, detail.payments, today)
+  const paid = roundMoney(detail.payments.reduce((sum, p) => sum + (Number(p.amount) || 0), 0))
+  return {
+    paid,
+    remaining: roundMoney(Math.max(0, Number(detail.plan.total_amount) - paid)),
+    installments,
+    nextDue: installments.find((i) => i.status !== 'paid') ?? null,
+    missedCount: detail.plan.status === 'active' ? installments.filter((i) => i.status === 'missed').length : 0,
+  }
+}
+
+/** "PT Payment AR Ref Date" dropdown value for a payment date: month name, or "1st"/"2nd" half for payroll 2 clinics. */
+export function ptPaymentRefLabel(iso: string, payroll: 1 | 2 = 1): string {
+  const [, m, d] = iso.split('-').map(Number)
+  const month = MONTH_NAMES[m - 1] ?? ''
+  return payroll === 2 ? `${d <= 15 ? '1st' : '2nd'} ${month}` : month
+}
+
+/** Plans for a clinic (optionally one patient) with their rows and payments, newest first. */
+export async function fetchPaymentPlans(supabase: SupabaseClient, clinicId: string, patientId?: string): Promise<PaymentPlanDetail[]> {
+  const { data, error } = await supabase
+    .from('payment_plans')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  let plans = (data || []) as PaymentPlan[]
+  if (patientId) {
+    const key = normalizePatientIdKey(patientId)
+    plans = plans.filter((p) => normalizePatientIdKey(p.patient_id) === key)
+  }
+  if (plans.length === 0) return []
+  const planIds = plans.map((p) => p.id)
+  const [rowsResult, paymentsResult] = await Promise.all([
+    supabase.from('payment_plan_rows').select('*').in('plan_id', planIds),
+    supabase.from('payment_plan_payments').select('*').in('plan_id', planIds).order('paid_date'),
+  ])
+  if (rowsResult.error) throw rowsResult.error
+  if (paymentsResult.error) throw paymentsResult.error
+  const rows = (rowsResult.data || []) as PaymentPlanRow[]
+  const payments = (paymentsResult.data || []) as PaymentPlanPayment[]
+  return plans.map((plan) => ({
+    plan,
+    rows: rows.filter((r) => r.plan_id === plan.id),
+    payments: payments.filter((p) => p.plan_id === plan.id),
+  }))
+}
+
+/**
+ * Writes the plan's payments back to its sheet rows: payments fill rows oldest date of service first, up to each
+ * row's amount owed. PT Paid becomes the row's pre-plan amount plus its share; PT Payment AR Ref Date gets the month
+ * of the latest payment (payment_date is the Ins Pay Date column, so it is left alone). Rows whose share covers what
+ * they owed move to PT Pay Status "Paid". Columns locked in the Providers grid or by Month Close are not written.
+ */
+export async function applyPlanPaymentsToRows(supabase: SupabaseClient, detail: PaymentPlanDetail, payroll: 1 | 2 = 1): Promise<void> {
+  if (detail.rows.length === 0) return
+  const rowIds = detail.rows.map((r) => r.provider_sheet_row_id)
+  const { data: sheetRowData, error: sheetRowError } = await supabase
+    .from('provider_sheet_rows')
+    .select('id, sheet_id')
+    .in('id', rowIds)
+  if (sheetRowError) throw sheetRowError
+  const sheetIdByRowId = new Map(((sheetRowData || []) as Array<{ id: string; sheet_id: string }>).map((r) => [r.id, r.sheet_id]))
+  const sheetIds = Array.from(new Set(sheetIdByRowId.values()))
+  const { data: sheetsData, error: sheetsError } = sheetIds.length > 0
+    ? await supabase.from('provider_sheets').select('*').in('id', sheetIds)
+    : { data: [], error: null }
+  if (sheetsError) throw sheetsError
+  const lockedBySheetId = await fetchLockedFieldsBySheetId(supabase, detail.plan.clinic_id, (sheetsData || []) as ProviderSheet[])
+
+  const lastPayment = [...detail.payments].sort((a, b) => b.paid_date.localeCompare(a.paid_date))[0]
+  let available = detail.payments.reduce((sum, p) => sum + (Number(p.amount) || 0), 0)
+  const ordered = [...detail.rows].sort((a, b) => (a.date_of_service ?? '').localeCompare(b.date_of_service ?? ''))
+
+  for (const planRow of ordered) {
+    const sheetId = sheetIdByRowId.get(planRow.provider_sheet_row_id)
+    if (!sheetId) continue
+    const locked = lockedBySheetId.get(sheetId) ?? new Set<keyof SheetRow>()
+    const owed = Number(planRow.amount_owed) || 0
+    const share = roundMoney(Math.min(owed, Math.max(0, available)))
+    available -= share
+    const update: Partial<SheetRow> = {}
+    if (!locked.has('collected_from_patient')) update.collected_from_patient = String(roundMoney((Number(planRow.collected_before) || 0) + share))
+    if (!locked.has('ar_date') && share > 0 && lastPayment) update.ar_date = ptPaymentRefLabel(lastPayment.paid_date, payroll)
+    if (!locked.has('patient_pay_status')) update.patient_pay_status = share >= owed - 0.005 && owed > 0 ? 'Paid' : 'Payment Plan'
+    if (Object.keys(update).length === 0) continue
+    const { error } = await supabase
+      .from('provider_sheet_rows')
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', planRow.provider_sheet_row_id)
+    if (error) throw error
+  }
+}
+
+/** Creates the plan and links the chosen open lines (their balance due becomes each row's amount owed). */
+export async function createPaymentPlan(
+  supabase: SupabaseClient,
+  clinicId: string,
+  input: PaymentPlanInput,
+  lines: StatementLine[],
+  userId: string | null,
+  payroll: 1 | 2 = 1
+): Promise<PaymentPlanDetail> {
+  const { data: plan, error } = await supabase
+    .from('payment_plans')
+    .insert({ ...input, clinic_id: clinicId, created_by: userId })
+    .select()
+    .single()
+  if (error) throw error
+  let rows: PaymentPlanRow[] = []
+  if (lines.length > 0) {
+    const { data: rowData, error: rowsError } = await supabase
+      .from('payment_plan_rows')
+      .insert(
+        lines.map((line) => ({
+          plan_id: plan.id,
+          clinic_id: clinicId,
+          provider_sheet_row_id: line.rowId,
+          date_of_service: line.dateOfService,
+          amount_owed: line.balanceDue,
+          collected_before: line.patientPaid,
+        }))
+      )
+      .select()
+    if (rowsError) throw rowsError
+    rows = (rowData || []) as PaymentPlanRow[]
+  }
+  const detail: PaymentPlanDetail = { plan: plan as PaymentPlan, rows, payments: [] }
+  await applyPlanPaymentsToRows(supabase, detail, payroll)
+  return detail
+}
+
+/** Records a payment, writes the plan's totals back to its rows and completes the plan once it is paid off. */
+export async function recordPlanPayment(
+  supabase: SupabaseClient,
+  detail: PaymentPlanDetail,
+  input: PaymentPlanPaymentInput,
+  userId: string | null,
+  payroll: 1 | 2 = 1
+): Promise<PaymentPlanDetail> {
+  const { data, error } = await supabase
+    .from('payment_plan_payments')
+    .insert({ ...input, plan_id: detail.plan.id, clinic_id: detail.plan.clinic_id, created_by: userId })
+    .select()
+    .single()
+  if (error) throw error
+  return syncPlanAfterPaymentChange(supabase, { ...detail, payments: [...detail.payments, data as PaymentPlanPayment] }, payroll)
+}
+
+export async function deletePlanPayment(
+  supabase: SupabaseClient,
+  detail: PaymentPlanDetail,
+  paymentId: string,
+  payroll: 1 | 2 = 1
+): Promise<PaymentPlanDetail> {
+  const { error } = await supabase.from('payment_plan_payments').delete().eq('id', paymentId)
+  if (error) throw error
+  return syncPlanAfterPaymentChange(supabase, { ...detail, payments: detail.payments.filter((p) => p.id !== paymentId) }, payroll)
+}
+
+async function syncPlanAfterPaymentChange(supabase: SupabaseClient, detail: PaymentPlanDetail, payroll: 1 | 2): Promise<PaymentPlanDetail> {
+  await applyPlanPaymentsToRows(supabase, detail, payroll)
+  if (detail.plan.status === 'cancelled') return detail
+  const status = summarizePaymentPlan(detail).remaining <= 0 ? 'completed' : 'active'
+  if (status === detail.plan.status) return detail
+  const plan = await updatePaymentPlanStatus(supabase, detail.plan.id, status)
+  return { ...detail, plan }
+}
+
+export async function updatePaymentPlanStatus(supabase: SupabaseClient, planId: string, status: PaymentPlan['status']): Promise<PaymentPlan> {
+  const { data, error } = await supabase.from('payment_plans').update({ status }).eq('id', planId).select().single()
+  if (error) throw error
+  return data as PaymentPlan
+}
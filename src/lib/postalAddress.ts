@@ -0,0 +1,38 @@
+/** US mailing address split into the parts claim formats need (837P N3/N4, CMS-1500 boxes). */
+export interface PostalAddress {
+  street: string
+  city: string
+  state: string
+  zip: string
+}
+
+const CITY_STATE_ZIP = /^(.*?)[,\s]+([A-Za-z]{2})[\s,]+(\d{5}(?:-?\d{4})?)$/
+
+/**
+ * Parses free-text address lines (clinic_addresses lines, or a patient's single address string) into
+ * street / city / state / zip. Accepts "City, ST 12345" on its own line or at the end of a
+ * comma-separated single line. Returns null when no city/state/zip can be found.
+ */
+export function parsePostalAddress(lines: string | Array<string | null | undefined>): PostalAddress | null {
+  const source = typeof lines === 'string' ? [lines] : lines
+  const cleaned = source.map((l) => String(l ?? '').trim()).filter(Boolean)
+  for (let i = cleaned.length - 1; i >= 0; i--) {
+    const match = cleaned[i].match(CITY_STATE_ZIP)
+    if (!match) continue
+    let cityPart = match[1].trim().replace(/,$/, '')
+    let street = cleaned.slice(0, i).join(' ')
+    if (!street && cityPart.includes(',')) {
+      const idx = cityPart.lastIndexOf(',')
+      street = cityPart.slice(0, idx).trim()
+      cityPart = cityPart.slice(idx + 1).trim()
+    }
+    if (!street || !cityPart) return null
+    return {
+      street,
+      city: cityPart,
+      state: match[2].toUpperCase(),
+      zip: match[3].replace('-', ''),
+    }
+  }
+  return null
+}
@@ -1,21 +1,85 @@
 import { supabase } from '@/lib/supabase'
+import type { AccountsReceivable, PaySheetSource, PayTemplate, PayTemplateLine, ProviderSheet, SheetRow } from '@/types'
+import { applyPayTemplate, evaluatePayTemplate, formatPayAmount, payLineForRow, payTableInputs, type ProviderCut } from '@/lib/providerPayTemplates'
+import { fetchClinicSheetRows, fetchSheetRows } from '@/lib/providerSheetRows'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { parseAmount, toIsoDate, roundMoney } from '@/lib/utils'
+
+/** AR entries are matched to providers through patients seen on sheets at least this far back. */
+const AR_ATTRIBUTION_LOOKBACK_MONTHS = 24
+
+/** One provider sheet row or AR entry behind a pulled amount. */
+export interface SheetPayItem {
+  source: 'sheet' | 'ar'
+  /** provider_sheet_rows.id or accounts_receivables.id */
+  id: string
+  /** Patient ID on the sheet row, or the AR entry's ID #. */
+  patientId: string
+  patientName: string
+  /** YYYY-MM-DD date of service ('' when unknown). */
+  dateOfService: string
+  /** CPT code for sheet rows; AR type and notes for AR entries. */
+  detail: string
+  amount: number
+}
+
+export interface SheetPayTotal {
+  amount: number
+  items: SheetPayItem[]
+}
+
+export interface SheetPayTotals {
+  bySource: Record<PaySheetSource, SheetPayTotal>
+  /** AR entries for the month whose ID # matches patients of more than one provider (or none), so they are not counted. */
+  unattributedArCount: number
+}
+
+/** Per-line comparison of what is saved with what the sheet gives, for every template line. */
+export interface SheetPayDiff {
+  line: PayTemplateLine
+  saved: number
+  pulled: number
+  difference: number
+  /** Contributing rows, for lines filled from the sheet. */
+  total: SheetPayTotal | null
+}
+
+export interface SavedProviderPay {
+  payDate: string
+  payPeriod: string
+  notes: string
+  /** Pay template the month was saved with (null for months saved before templates). */
+  templateId: string | null
+  rows: string[][]
+  /** line_key of each row in `rows` (null for the header and free-form rows). */
+  lineKeys: Array<string | null>
+  /** When amounts were last pulled from the provider sheet and applied. */
+  sheetPulledAt: string | null
+  /** Only in pull-from-sheet mode: the provider sheet totals for the same month and payroll. */
+  sheetTotals?: SheetPayTotals
+}
 
 /**
  * Fetch Provider Pay for a given clinic, provider, and month.
- * Returns { payDate, payPeriod, rows } or null if none exists.
+ * Returns { payDate, payPeriod, templateId, rows, lineKeys } or null if none exists.
  * rows is a 2D array [row_index][0=description, 1=amount, 2=notes]; row 0 is the header row.
+ * Lay rows out for display with buildPayTableRows.
  * payroll: 1 or 2 when clinic has two pay periods; default 1.
+ * With pullFromSheet, sheetTotals holds the provider sheet totals, and a blank result (no rows) is returned
+ * instead of null when nothing is saved yet.
  */
 export async function fetchProviderPay(
   clinicId: string,
   providerId: string,
   year: number,
   month: number,
-  payroll: number = 1
-): Promise<{ payDate: string; payPeriod: string; notes: string; rows: string[][] } | null> {
+  payroll: number = 1,
+  options: { pullFromSheet?: boolean } = {}
+): Promise<SavedProviderPay | null> {
+  const sheetTotals = options.pullFromSheet ? await fetchSheetPayTotals(clinicId, providerId, year, month, payroll) : undefined
   const { data: header, error: headerError } = await supabase
     .from('provider_pay')
-    .select('id, pay_date, pay_period, notes')
+    .select('id, pay_date, pay_period, notes, template_id, sheet_pulled_at')
     .eq('clinic_id', clinicId)
     .eq('provider_id', providerId)
     .eq('year', year)
@@ -27,37 +91,40 @@ export async function fetchProviderPay(
     console.error('[fetchProviderPay] Error fetching provider_pay:', headerError)
     return null
   }
-  if (!header) return null
+  if (!header) {
+    return sheetTotals
+      ? { payDate: '', payPeriod: '', notes: '', templateId: null, rows: [], lineKeys: [], sheetPulledAt: null, sheetTotals }
+      : null
+  }
 
   const { data: rowsData, error: rowsError } = await supabase
     .from('provider_pay_rows')
-    .select('row_index, description, amount, notes')
+    .select('row_index, description, amount, notes, line_key')
     .eq('provider_pay_id', header.id)
     .order('row_index', { ascending: true })
 
   if (rowsError) {
     console.error('[fetchProviderPay] Error fetching provider_pay_rows:', rowsError)
-    return {
-      payDate: header.pay_date ?? '',
-      payPeriod: header.pay_period ?? '',
-      notes: header.notes ?? '',
-      rows: buildEmptyRows(),
-    }
   }
 
-  const rows = buildRowsFromDb(rowsData ?? [])
   return {
     payDate: header.pay_date ?? '',
     payPeriod: header.pay_period ?? '',
     notes: header.notes ?? '',
-    rows,
+    templateId: header.template_id ?? null,
+    ...buildRowsFromDb(rowsError ? [] : rowsData ?? []),
+    sheetPulledAt: header.sheet_pulled_at ?? null,
+    sheetTotals,
   }
 }
 
 /**
  * Save Provider Pay for a given clinic, provider, and month.
  * Upserts the header and replaces all rows for that header.
+ * tableData is laid out for `template` (rows 1..n are its lines), which is recorded on the header;
+ * pass null to keep the header's template and save every row as free-form.
  * payroll: 1 or 2 when clinic has two pay periods; default 1.
+ * pulledFromSheet: the amounts were just applied from the sheet; stamps sheet_pulled_at.
  */
 export async function saveProviderPay(
   clinicId: string,
@@ -68,8 +135,11 @@ export async function saveProviderPay(
   payPeriod: string,
   tableData: string[][],
   notes: string,
-  payroll: number = 1
+  payroll: number = 1,
+  template: PayTemplate | null = null,
+  options: { pulledFromSheet?: boolean } = {}
 ): Promise<void> {
+  const pulled = options.pulledFromSheet ? { sheet_pulled_at: new Date().toISOString() } : {}
   const { data: existing, error: fetchError } = await supabase
     .from('provider_pay')
     .select('id')
@@ -93,6 +163,8 @@ export async function saveProviderPay(
         pay_date: payDate || null,
         pay_period: payPeriod || null,
         notes: notes || null,
+        ...(template?.id ? { template_id: template.id } : {}),
+        ...pulled,
         updated_at: new Date().toISOString(),
       })
       .eq('id', existing.id)
@@ -110,6 +182,8 @@ export async function saveProviderPay(
         pay_date: payDate || null,
         pay_period: payPeriod || null,
         notes: notes || null,
+        template_id: template?.id || null,
+        ...pulled,
       })
       .select('id')
       .single()
@@ -127,35 +201,176 @@ export async function saveProviderPay(
       description: row[0] ?? null,
       amount: row[1] ?? null,
       notes: row[2] ?? null,
+      line_key: template ? payLineForRow(template, rowIndex)?.line_key ?? null : null,
     }))
     const { error: rowsError } = await supabase.from('provider_pay_rows').insert(rowsToInsert)
     if (rowsError) throw rowsError
   }
 }
 
-const DEFAULT_ROW_TEMPLATE: string[][] = [
-  ['Description', 'Amount', 'Notes'],
-  ['Patient Payments', '', ''],
-  ['Insurance Payments', '', ''],
-  ['A/R Payments', '', ''],
-  ['', '', ''],
-  ['Total Payments', '', ''],
-  ['Provider Cut', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-  ['', '', ''],
-]
-
-function buildEmptyRows(): string[][] {
-  return DEFAULT_ROW_TEMPLATE.map((r) => [...r])
+function emptyTotal(): SheetPayTotal {
+  return { amount: 0, items: [] }
+}
+
+function addItem(total: SheetPayTotal, item: SheetPayItem) {
+  total.items.push(item)
+  total.amount = roundMoney(total.amount + item.amount)
+}
+
+function sheetRowItem(row: SheetRow, amount: number): SheetPayItem {
+  return {
+    source: 'sheet',
+    id: row.id,
+    patientId: row.patient_id ?? '',
+    patientName: [row.patient_first_name, row.patient_last_name].filter(Boolean).join(' '),
+    dateOfService: toIsoDate(row.appointment_date) ?? '',
+    detail: row.cpt_code ?? row.billing_code ?? '',
+    amount: roundMoney(amount),
+  }
+}
+
+/**
+ * Provider whose sheets have the AR entry's patient (ID # = Patient ID), preferring rows on the AR date of service.
+ * null when no provider or more than one provider matches.
+ */
+export function attributeArToProvider(ar: AccountsReceivable, clinicRows: Array<{ row: SheetRow; sheet: ProviderSheet }>): string | null {
+  const key = normalizePatientIdKey(ar.ar_id)
+  if (!key) return null
+  const patientRows = clinicRows.filter(({ row }) => row.patient_id && normalizePatientIdKey(row.patient_id) === key)
+  const dos = toIsoDate(ar.date_of_service)
+  const sameDay = dos ? patientRows.filter(({ row }) => toIsoDate(row.appointment_date) === dos) : []
+  const providerIds = new Set((sameDay.length > 0 ? sameDay : patientRows).map(({ sheet }) => sheet.provider_id))
+  return providerIds.size === 1 ? Array.from(providerIds)[0] : null
+}
+
+/**
+ * Totals the provider's sheets for the month and payroll: PT Paid, Ins Pay, and AR amounts plus the clinic's
+ * AR entries for the month (and payroll) attributable to the provider. An AR entry for the same patient and date
+ * of service as a sheet row with an AR amount is the same payment and is only counted from the sheet.
+ * Each total lists its contributing rows.
+ */
+export async function fetchSheetPayTotals(
+  clinicId: string,
+  providerId: string,
+  year: number,
+  month: number,
+  payroll: number = 1
+): Promise<SheetPayTotals> {
+  // AR month as in the AR tab: date of service, else date recorded.
+  const monthStart = `${year}-${String(month).padStart(2, '0')}-01`
+  const nextMonthStart = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`
+  const [sheetResult, arResult] = await Promise.all([
+    supabase
+      .from('provider_sheets')
+      .select('*')
+      .eq('clinic_id', clinicId)
+      .eq('provider_id', providerId)
+      .eq('month', month)
+      .eq('year', year)
+      .eq('payroll', payroll)
+      .order('id', { ascending: true }),
+    supabase
+      .from('accounts_receivables')
+      .select('*')
+      .eq('clinic_id', clinicId)
+      .eq('payroll', payroll)
+      .or(
+        `and(date_of_service.gte.${monthStart},date_of_service.lt.${nextMonthStart}),` +
+          `and(date_of_service.is.null,date_recorded.gte.${monthStart},date_recorded.lt.${nextMonthStart})`
+      ),
+  ])
+  if (sheetResult.error) throw sheetResult.error
+  if (arResult.error) throw arResult.error
+
+  const bySource: Record<PaySheetSource, SheetPayTotal> = {
+    patient_payments: emptyTotal(),
+    insurance_payments: emptyTotal(),
+    ar_payments: emptyTotal(),
+  }
+  // Every sheet the provider has for the period counts, in case more than one was created
+  const sheets = (sheetResult.data || []) as ProviderSheet[]
+  const rows = (await Promise.all(sheets.map((sheet) => fetchSheetRows(supabase, sheet.id)))).flat()
+  const sheetArVisits = new Set<string>()
+  rows.forEach((row) => {
+    const patientPaid = parseAmount(row.collected_from_patient)
+    const insurancePaid = parseAmount(row.insurance_payment)
+    const ar = parseAmount(row.ar_amount)
+    if (patientPaid !== 0) addItem(bySource.patient_payments, sheetRowItem(row, patientPaid))
+    if (insurancePaid !== 0) addItem(bySource.insurance_payments, sheetRowItem(row, insurancePaid))
+    if (ar !== 0) {
+      addItem(bySource.ar_payments, { ...sheetRowItem(row, ar), detail: ['Sheet AR', row.ar_type, row.ar_notes].filter(Boolean).join(' · ') })
+      if (row.patient_id) sheetArVisits.add(`${normalizePatientIdKey(row.patient_id)}|${toIsoDate(row.appointment_date) ?? ''}`)
+    }
+  })
+
+  const arEntries = ((arResult.data || []) as AccountsReceivable[]).filter(
+    (ar) => (Number(ar.amount) || 0) !== 0 && !sheetArVisits.has(`${normalizePatientIdKey(ar.ar_id)}|${toIsoDate(ar.date_of_service) ?? ''}`)
+  )
+  // Attribution only needs the sheet rows of the patients on those entries.
+  const now = new Date()
+  const monthsBack = Math.max(AR_ATTRIBUTION_LOOKBACK_MONTHS, now.getFullYear() * 12 + now.getMonth() + 1 - (year * 12 + month) + 12)
+  const patientRows = await fetchClinicSheetRows(supabase, clinicId, monthsBack, {
+    patientIds: Array.from(new Set(arEntries.map((ar) => ar.ar_id.trim()).filter(Boolean))),
+  })
+
+  let unattributedArCount = 0
+  arEntries.forEach((ar) => {
+    const attributed = attributeArToProvider(ar, patientRows)
+    if (attributed == null) {
+      unattributedArCount++
+      return
+    }
+    if (attributed !== providerId) return
+    addItem(bySource.ar_payments, {
+      source: 'ar',
+      id: ar.id,
+      patientId: ar.ar_id,
+      patientName: ar.name ?? '',
+      dateOfService: toIsoDate(ar.date_of_service) ?? '',
+      detail: ['AR entry', ar.type, ar.notes].filter(Boolean).join(' · '),
+      amount: roundMoney(Number(ar.amount)),
+    })
+  })
+
+  return { bySource, unattributedArCount }
+}
+
+function pulledInputs(template: PayTemplate, savedInputs: Record<string, number>, totals: SheetPayTotals): Record<string, number> {
+  const inputs = { ...savedInputs }
+  template.lines.forEach((line) => {
+    if (line.line_type === 'input' && line.sheet_source) inputs[line.line_key] = totals.bySource[line.sheet_source].amount
+  })
+  return inputs
+}
+
+/**
+ * Saved vs pulled amount for every template line. Saved is the amount stored on the row (computed lines are not
+ * recalculated); pulled computed lines follow from the pulled inputs.
+ */
+export function diffSheetPay(template: PayTemplate, rows: string[][], totals: SheetPayTotals, providerCut: ProviderCut): SheetPayDiff[] {
+  const pulled = evaluatePayTemplate(template, pulledInputs(template, payTableInputs(template, rows), totals), providerCut)
+  return template.lines.map((line, i) => {
+    const saved = roundMoney(parseAmount(rows[i + 1]?.[1]))
+    return {
+      line,
+      saved,
+      pulled: pulled[line.line_key],
+      difference: roundMoney(pulled[line.line_key] - saved),
+      total: line.line_type === 'input' && line.sheet_source ? totals.bySource[line.sheet_source] : null,
+    }
+  })
+}
+
+/** Table rows with the sheet totals written into the pulled lines and computed lines recalculated. */
+export function applySheetPay(template: PayTemplate, rows: string[][], totals: SheetPayTotals, providerCut: ProviderCut): string[][] {
+  const next = rows.map((r) => [...r])
+  template.lines.forEach((line, i) => {
+    const row = next[i + 1]
+    if (!row || line.line_type !== 'input' || !line.sheet_source) return
+    const amount = totals.bySource[line.sheet_source].amount
+    row[1] = amount === 0 ? '' : formatPayAmount(amount)
+  })
+  return applyPayTemplate(next, template, providerCut)
 }
 
 interface RowRecord {
@@ -163,12 +378,14 @@ interface RowRecord {
   description: string | null
   amount: string | null
   notes: string | null
+  line_key: string | null
 }
 
-function buildRowsFromDb(rowsData: RowRecord[]): string[][] {
-  if (rowsData.length === 0) return buildEmptyRows()
+function buildRowsFromDb(rowsData: RowRecord[]): { rows: string[][]; lineKeys: Array<string | null> } {
+  if (rowsData.length === 0) return { rows: [], lineKeys: [] }
   const maxIndex = Math.max(...rowsData.map((r) => r.row_index), 0)
   const rows: string[][] = []
+  const lineKeys: Array<string | null> = []
   for (let i = 0; i <= maxIndex; i++) {
     const r = rowsData.find((x) => x.row_index === i)
     rows.push([
@@ -176,10 +393,7 @@ function buildRowsFromDb(rowsData: RowRecord[]): string[][] {
       r?.amount ?? '',
       r?.notes ?? '',
     ])
+    lineKeys.push(r?.line_key ?? null)
   }
-  // Ensure we have at least the template shape; pad with empty rows if needed
-  while (rows.length < DEFAULT_ROW_TEMPLATE.length) {
-    rows.push(['', '', ''])
-  }
-  return rows
+  return { rows, lineKeys }
 }
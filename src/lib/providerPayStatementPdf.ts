@@ -0,0 +1,119 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import { formatCurrency, toDisplayDate } from './utils'
+import type { ProviderPayStatement } from './providerPayStatements'
+
+function formatDateShort(d: Date): string {
+  return `${d.getMonth() + 1}/${d.getDate()}/${d.getFullYear()}`
+}
+
+function drawRightText(doc: jsPDF, text: string, rightX: number, y: number) {
+  doc.text(text, rightX - doc.getTextWidth(text), y)
+}
+
+/** Saved pay period "2026-03-01 to 2026-03-15" as "3/1/2026 – 3/15/2026". */
+function formatPayPeriod(payPeriod: string): string {
+  const parts = payPeriod.split(/ to | - /).map((s) => s.trim()).filter(Boolean)
+  return parts.map((p) => toDisplayDate(p) || p).join(' – ')
+}
+
+function drawStatement(doc: jsPDF, statement: ProviderPayStatement, generatedAt: Date) {
+  const pageW = doc.internal.pageSize.getWidth()
+  const provider = statement.provider
+
+  doc.setFontSize(14)
+  doc.setFont('helvetica', 'bold')
+  doc.text(statement.clinicName, 14, 20)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  doc.text(statement.periodLabel, 14, 26)
+
+  doc.setFontSize(20)
+  drawRightText(doc, 'PAY STATEMENT', pageW - 14, 22)
+  doc.setFontSize(10)
+  drawRightText(doc, `Pay Date: ${statement.payDate ? toDisplayDate(statement.payDate) : '—'}`, pageW - 14, 30)
+  drawRightText(doc, `Pay Period: ${statement.payPeriod ? formatPayPeriod(statement.payPeriod) : '—'}`, pageW - 14, 36)
+
+  let y = 46
+  doc.setFont('helvetica', 'bold')
+  doc.text('Provider:', 14, y)
+  doc.setFont('helvetica', 'normal')
+  doc.text(`${provider.first_name} ${provider.last_name}`, 34, y)
+  if (provider.npi) {
+    doc.text(`NPI: ${provider.npi}`, 34, y + 5)
+    y += 5
+  }
+  y += 8
+
+  doc.setDrawColor(200, 200, 200)
+  doc.setFillColor(240, 240, 240)
+  doc.rect(14, y - 4, pageW - 28, 14, 'FD')
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(12)
+  doc.text('Provider Cut:', 18, y + 5)
+  drawRightText(doc, formatCurrency(statement.providerCut), pageW / 2 - 4, y + 5)
+  doc.text('YTD:', pageW / 2 + 4, y + 5)
+  drawRightText(doc, formatCurrency(statement.ytdProviderCut), pageW - 18, y + 5)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  y += 18
+
+  autoTable(doc, {
+    head: [['Description', 'This Period', `YTD ${statement.year}`, 'Notes']],
+    body: statement.lines.map((line) => [
+      line.description,
+      line.amount != null ? formatCurrency(line.amount) : '',
+      formatCurrency(line.ytd),
+      line.notes,
+    ]),
+    foot: [['Provider Cut', formatCurrency(statement.providerCut), formatCurrency(statement.ytdProviderCut), '']],
+    startY: y,
+    headStyles: { fillColor: [80, 80, 80] },
+    footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0] },
+    columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.section === 'body' && statement.lines[data.row.index]?.isPayout) data.cell.styles.fontStyle = 'bold'
+    },
+    margin: { left: 14, right: 14 },
+    styles: { fontSize: 9 },
+  })
+  y = (doc as any).lastAutoTable.finalY + 8
+
+  if (statement.ytdByClinic.length > 1) {
+    autoTable(doc, {
+      head: [['Clinic', `YTD ${statement.year} Provider Cut`]],
+      body: statement.ytdByClinic.map((c) => [c.clinicName, formatCurrency(c.providerCut)]),
+      foot: [['Total', formatCurrency(statement.ytdProviderCut)]],
+      startY: y,
+      headStyles: { fillColor: [120, 120, 120] },
+      footStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0] },
+      columnStyles: { 1: { halign: 'right' } },
+      margin: { left: 14, right: 14 },
+      styles: { fontSize: 9 },
+    })
+    y = (doc as any).lastAutoTable.finalY + 8
+  }
+
+  if (statement.notes) {
+    doc.setFont('helvetica', 'bold')
+    doc.text('Notes:', 14, y)
+    doc.setFont('helvetica', 'normal')
+    doc.text(doc.splitTextToSize(statement.notes, pageW - 28), 14, y + 5)
+  }
+
+  const pageH = doc.internal.pageSize.getHeight()
+  doc.setFontSize(8)
+  doc.setTextColor(120, 120, 120)
+  doc.text(`Generated ${formatDateShort(generatedAt)}. YTD covers ${statement.year} pay periods through this one.`, 14, pageH - 10)
+  doc.setTextColor(0, 0, 0)
+}
+
+/** One pay statement per saved pay period, each starting on a new page. */
+export function generateProviderPayStatementsPdf(statements: ProviderPayStatement[], generatedAt = new Date()): jsPDF {
+  const doc = new jsPDF()
+  statements.forEach((statement, i) => {
+    if (i > 0) doc.addPage()
+    drawStatement(doc, statement, generatedAt)
+  })
+  return doc
+}
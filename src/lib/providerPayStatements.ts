@@ -0,0 +1,204 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Provider, ProviderPay, ProviderPayRow } from '@/types'
+import { fetchPayTemplates, payoutLineKey } from '@/lib/providerPayTemplates'
+import { parseAmount, roundMoney } from '@/lib/utils'
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+
+/** One line item on a pay statement, with the year-to-date total of the same line across all pay periods and clinics. */
+export interface PayStatementLine {
+  description: string
+  /** null when the row has a description but no amount. */
+  amount: number | null
+  ytd: number
+  notes: string
+  isPayout: boolean
+}
+
+export interface ProviderPayStatement {
+  providerPayId: string
+  provider: Provider
+  clinicId: string
+  clinicName: string
+  year: number
+  month: number
+  payroll: number
+  /** e.g. "March 2026" or "March 2026 – 2nd Half". */
+  periodLabel: string
+  payDate: string
+  /** "YYYY-MM-DD to YYYY-MM-DD" as saved. */
+  payPeriod: string
+  notes: string
+  lines: PayStatementLine[]
+  providerCut: number
+  ytdProviderCut: number
+  /** Year-to-date provider cut per clinic, through this pay period. */
+  ytdByClinic: Array<{ clinicId: string; clinicName: string; providerCut: number }>
+}
+
+/** A provider_pay header with its rows. */
+export type ProviderPayRecord = ProviderPay & { rows: ProviderPayRow[] }
+
+/** Sort key: year, month, then payroll (1st half before 2nd). */
+const periodKey = (p: Pick<ProviderPay, 'year' | 'month' | 'payroll'>) => p.year * 1000 + p.month * 10 + (p.payroll ?? 1)
+
+/** Rows that carry something to print: not the header row, and with a description or an amount. */
+function statementRows(record: ProviderPayRecord): ProviderPayRow[] {
+  return [...record.rows]
+    .sort((a, b) => a.row_index - b.row_index)
+    .filter((r) => r.row_index > 0 && ((r.description ?? '').trim() !== '' || (r.amount ?? '').trim() !== ''))
+}
+
+/** Same line across months: template line_key, else the free-form description. */
+const lineIdentity = (row: ProviderPayRow) => row.line_key ?? `desc:${(row.description ?? '').trim().toLowerCase()}`
+
+/** Provider Cut (payout line amount) saved for a pay period. */
+export function recordProviderCut(record: ProviderPayRecord, payoutKey: string): number {
+  const row = record.rows.find((r) => r.line_key === payoutKey)
+  return row ? roundMoney(parseAmount(row.amount)) : 0
+}
+
+/**
+ * Saved pay periods for a provider in a year across every clinic the viewer can read (providers see all of their
+ * own), with rows; oldest first.
+ */
+export async function fetchProviderPayYear(supabase: SupabaseClient, providerId: string, year: number): Promise<ProviderPayRecord[]> {
+  const { data, error } = await supabase
+    .from('provider_pay')
+    .select('*, rows:provider_pay_rows(*)')
+    .eq('provider_id', providerId)
+    .eq('year', year)
+  if (error) throw error
+  return ((data || []) as ProviderPayRecord[]).map((r) => ({ ...r, rows: r.rows ?? [] })).sort((a, b) => periodKey(a) - periodKey(b))
+}
+
+function buildStatement(
+  record: ProviderPayRecord,
+  yearRecords: ProviderPayRecord[],
+  provider: Provider,
+  clinicNames: Record<string, string>,
+  payoutKeyFor: (record: ProviderPayRecord) => string
+): ProviderPayStatement {
+  const through = yearRecords.filter((r) => periodKey(r) <= periodKey(record))
+  const ytdByLine = new Map<string, number>()
+  through.forEach((r) =>
+    statementRows(r).forEach((row) => {
+      const key = lineIdentity(row)
+      ytdByLine.set(key, roundMoney((ytdByLine.get(key) ?? 0) + parseAmount(row.amount)))
+    })
+  )
+  const payoutKey = payoutKeyFor(record)
+  const lines: PayStatementLine[] = statementRows(record).map((row) => ({
+    description: (row.description ?? '').trim(),
+    amount: (row.amount ?? '').trim() === '' ? null : roundMoney(parseAmount(row.amount)),
+    ytd: ytdByLine.get(lineIdentity(row)) ?? 0,
+    notes: (row.notes ?? '').trim(),
+    isPayout: row.line_key === payoutKey,
+  }))
+
+  const byClinic = new Map<string, number>()
+  through.forEach((r) => byClinic.set(r.clinic_id, roundMoney((byClinic.get(r.clinic_id) ?? 0) + recordProviderCut(r, payoutKeyFor(r)))))
+  const payroll = record.payroll ?? 1
+  const split = payroll === 2 || yearRecords.some((r) => r.clinic_id === record.clinic_id && r.month === record.month && (r.payroll ?? 1) === 2)
+
+  return {
+    providerPayId: record.id,
+    provider,
+    clinicId: record.clinic_id,
+    clinicName: clinicNames[record.clinic_id] ?? '',
+    year: record.year,
+    month: record.month,
+    payroll,
+    periodLabel: `${MONTH_NAMES[record.month - 1] ?? ''} ${record.year}${split ? ` – ${payroll === 2 ? '2nd' : '1st'} Half` : ''}`,
+    payDate: record.pay_date ?? '',
+    payPeriod: record.pay_period ?? '',
+    notes: (record.notes ?? '').trim(),
+    lines,
+    providerCut: recordProviderCut(record, payoutKey),
+    ytdProviderCut: roundMoney(Array.from(byClinic.values()).reduce((a, b) => a + b, 0)),
+    ytdByClinic: Array.from(byClinic, ([clinicId, providerCut]) => ({ clinicId, clinicName: clinicNames[clinicId] ?? '', providerCut })),
+  }
+}
+
+/**
+ * Pay statements for saved pay periods (provider_pay ids), with YTD totals from each provider's other periods that
+ * year. Statements come back in the order of `providerPayIds`.
+ */
+export async function fetchProviderPayStatements(supabase: SupabaseClient, providerPayIds: string[]): Promise<ProviderPayStatement[]> {
+  if (providerPayIds.length === 0) return []
+  const { data: headers, error } = await supabase.from('provider_pay').select('id, provider_id, year').in('id', providerPayIds)
+  if (error) throw error
+  const targets = (headers || []) as Array<Pick<ProviderPay, 'id' | 'provider_id' | 'year'>>
+
+  const groups = new Map<string, { providerId: string; year: number }>()
+  targets.forEach((t) => groups.set(`${t.provider_id}-${t.year}`, { providerId: t.provider_id, year: t.year }))
+  const providerIds = Array.from(new Set(targets.map((t) => t.provider_id)))
+
+  const [templates, providersResult, yearGroups] = await Promise.all([
+    fetchPayTemplates(supabase),
+    supabase.from('providers').select('*').in('id', providerIds),
+    Promise.all(Array.from(groups, async ([key, g]) => [key, await fetchProviderPayYear(supabase, g.providerId, g.year)] as const)),
+  ])
+  if (providersResult.error) throw providersResult.error
+  const providersById = new Map(((providersResult.data || []) as Provider[]).map((p) => [p.id, p]))
+  const recordsByGroup = new Map(yearGroups)
+
+  const clinicIds = Array.from(new Set(yearGroups.flatMap(([, records]) => records.map((r) => r.clinic_id))))
+  const clinicNames: Record<string, string> = {}
+  if (clinicIds.length > 0) {
+    const { data: clinics, error: clinicsError } = await supabase.from('clinics').select('id, name').in('id', clinicIds)
+    if (clinicsError) throw clinicsError
+    ;((clinics || []) as Array<{ id: string; name: string }>).forEach((c) => { clinicNames[c.id] = c.name })
+  }
+
+  const payoutKeyFor = (r: ProviderPayRecord) => payoutLineKey(templates, r.template_id)
+  const statements: ProviderPayStatement[] = []
+  providerPayIds.forEach((id) => {
+    const target = targets.find((t) => t.id === id)
+    const provider = target && providersById.get(target.provider_id)
+    const yearRecords = target ? recordsByGroup.get(`${target.provider_id}-${target.year}`) ?? [] : []
+    const record = yearRecords.find((r) => r.id === id)
+    if (!provider || !record) return
+    statements.push(buildStatement(record, yearRecords, provider, clinicNames, payoutKeyFor))
+  })
+  return statements
+}
+
+/** provider_pay ids saved for a clinic's month and payroll (for batch statements). */
+export async function fetchClinicPayPeriodIds(
+  supabase: SupabaseClient,
+  clinicId: string,
+  year: number,
+  month: number,
+  payroll: number = 1
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('provider_pay')
+    .select('id')
+    .eq('clinic_id', clinicId)
+    .eq('year', year)
+    .eq('month', month)
+    .eq('payroll', payroll)
+  if (error) throw error
+  return ((data || []) as Array<{ id: string }>).map((r) => r.id)
+}
+
+/** Year-to-date Provider Cut per pay period and clinic, for the provider dashboard. */
+export interface ProviderYtdEarnings {
+  total: number
+  periods: Array<{ providerPayId: string; clinicId: string; year: number; month: number; payroll: number; payDate: string; providerCut: number }>
+}
+
+export async function fetchProviderYtdEarnings(supabase: SupabaseClient, providerId: string, year: number): Promise<ProviderYtdEarnings> {
+  const [records, templates] = await Promise.all([fetchProviderPayYear(supabase, providerId, year), fetchPayTemplates(supabase)])
+  const periods = records.map((r) => ({
+    providerPayId: r.id,
+    clinicId: r.clinic_id,
+    year: r.year,
+    month: r.month,
+    payroll: r.payroll ?? 1,
+    payDate: r.pay_date ?? '',
+    providerCut: recordProviderCut(r, payoutLineKey(templates, r.template_id)),
+  }))
+  return { total: roundMoney(periods.reduce((sum, p) => sum + p.providerCut, 0)), periods }
+}
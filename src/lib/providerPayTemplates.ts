@@ -0,0 +1,357 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PaySheetSource, PayTemplate, PayTemplateLine, PayTemplateLineType } from '@/types'
+import { parseAmount, roundMoney } from '@/lib/utils'
+
+export const PAY_LINE_TYPES: Array<{ key: PayTemplateLineType; label: string }> = [
+  { key: 'input', label: 'Entered amount' },
+  { key: 'sum', label: 'Sum of lines' },
+  { key: 'percent', label: 'Percent of lines' },
+  { key: 'flat', label: 'Flat fee' },
+  { key: 'deduction', label: 'Deduction' },
+]
+
+export const PAY_SHEET_SOURCES: Array<{ key: PaySheetSource; label: string }> = [
+  { key: 'patient_payments', label: 'PT Paid' },
+  { key: 'insurance_payments', label: 'Ins Pay' },
+  { key: 'ar_payments', label: 'AR' },
+]
+
+export const PAY_SHEET_SOURCE_LABELS: Record<PaySheetSource, string> = Object.fromEntries(
+  PAY_SHEET_SOURCES.map((s) => [s.key, s.label])
+) as Record<PaySheetSource, string>
+
+/** Used when a provider's percent line has no fixed rate and the provider has neither a compensation model nor provider_cut_percent. */
+export const DEFAULT_PROVIDER_CUT_PERCENT = 0.7
+
+export const PAY_TABLE_HEADER = ['Description', 'Amount', 'Notes']
+
+/** The Provider Pay table always shows at least this many rows (header + template lines + free-form rows). */
+const MIN_PAY_TABLE_ROWS = 18
+
+const builtinLine = (
+  sort_order: number,
+  line_key: string,
+  label: string,
+  line_type: PayTemplateLineType,
+  source_keys: string[] = [],
+  is_payout = false,
+  sheet_source: PaySheetSource | null = null
+): PayTemplateLine => ({ id: '', template_id: '', sort_order, line_key, label, line_type, source_keys, rate: null, amount: null, is_payout, sheet_source })
+
+/**
+ * Same layout as the default template seeded by migration 090. Used until templates load, or when none exist,
+ * so the table always has working totals.
+ */
+export const BUILTIN_PAY_TEMPLATE: PayTemplate = {
+  id: '',
+  name: 'Standard',
+  description: null,
+  is_default: true,
+  lines: [
+    builtinLine(1, 'patient_payments', 'Patient Payments', 'input', [], false, 'patient_payments'),
+    builtinLine(2, 'insurance_payments', 'Insurance Payments', 'input', [], false, 'insurance_payments'),
+    builtinLine(3, 'ar_payments', 'A/R Payments', 'input', [], false, 'ar_payments'),
+    builtinLine(4, 'total_payments', 'Total Payments', 'sum', ['patient_payments', 'insurance_payments', 'ar_payments']),
+    builtinLine(5, 'provider_cut', 'Provider Cut', 'percent', ['total_payments'], true),
+  ],
+  created_at: '',
+  updated_at: '',
+}
+
+/**
+ * Amount of a percent line without a fixed rate, given the total of its source lines: the provider's cut
+ * from their compensation model (see compensationModels.ts).
+ */
+export type ProviderCut = (basis: number) => number
+
+/** Provider cut at a flat percentage (fraction 0-1). */
+export const flatProviderCut = (percent: number): ProviderCut => (basis) => basis * percent
+
+/** Currency text for the Amount column; blank for empty input. */
+export function formatPayAmount(val: unknown): string {
+  const n = parseAmount(val)
+  if (n === 0 && (val == null || String(val).trim() === '')) return ''
+  return n.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+/** The template with this id, else the default template, else the built-in layout. */
+export function resolvePayTemplate(templates: PayTemplate[], templateId: string | null | undefined): PayTemplate {
+  return (
+    (templateId ? templates.find((t) => t.id === templateId) : undefined) ??
+    templates.find((t) => t.is_default) ??
+    BUILTIN_PAY_TEMPLATE
+  )
+}
+
+/** line_key of the payout line of a saved month's template; the built-in Provider Cut line when the template is gone or has none. */
+export function payoutLineKey(templates: PayTemplate[], templateId: string | null | undefined): string {
+  const template = templateId ? templates.find((t) => t.id === templateId) : undefined
+  return template?.lines.find((l) => l.is_payout)?.line_key ?? 'provider_cut'
+}
+
+export function isComputedLine(line: PayTemplateLine): boolean {
+  return line.line_type !== 'input'
+}
+
+function sourceTotal(line: PayTemplateLine, values: Record<string, number>): number {
+  return line.source_keys.reduce((sum, key) => sum + (values[key] ?? 0), 0)
+}
+
+/**
+ * Amount of every line, in template order. Inputs come from `inputs`; formulas only see earlier lines.
+ * Each computed line is rounded to cents before later lines use it.
+ */
+export function evaluatePayTemplate(
+  template: PayTemplate,
+  inputs: Record<string, number>,
+  providerCut: ProviderCut
+): Record<string, number> {
+  const values: Record<string, number> = {}
+  template.lines.forEach((line) => {
+    let value: number
+    switch (line.line_type) {
+      case 'input':
+        value = inputs[line.line_key] ?? 0
+        break
+      case 'sum':
+        value = sourceTotal(line, values)
+        break
+      case 'percent':
+        value = line.rate != null ? sourceTotal(line, values) * line.rate : providerCut(sourceTotal(line, values))
+        break
+      case 'flat':
+        value = line.amount ?? 0
+        break
+      case 'deduction':
+        value = -(line.rate != null ? sourceTotal(line, values) * line.rate : line.amount ?? 0)
+        break
+    }
+    values[line.line_key] = roundMoney(value)
+  })
+  return values
+}
+
+/** Entered amounts of the template's input lines, read from table rows laid out by buildPayTableRows. */
+export function payTableInputs(template: PayTemplate, rows: string[][]): Record<string, number> {
+  const inputs: Record<string, number> = {}
+  template.lines.forEach((line, i) => {
+    if (line.line_type === 'input') inputs[line.line_key] = parseAmount(rows[i + 1]?.[1])
+  })
+  return inputs
+}
+
+/**
+ * The percent line paid at the provider's cut (no fixed rate) and the total of its source lines for the table;
+ * null when the template has no such line.
+ */
+export function providerCutBasis(template: PayTemplate, rows: string[][], providerCut: ProviderCut): { line: PayTemplateLine; basis: number } | null {
+  const line = template.lines.find((l) => l.line_type === 'percent' && l.rate == null)
+  if (!line) return null
+  const values = evaluatePayTemplate(template, payTableInputs(template, rows), providerCut)
+  return { line, basis: roundMoney(sourceTotal(line, values)) }
+}
+
+/** Template line shown on a table row (row 0 is the header; rows 1..n are the template lines). */
+export function payLineForRow(template: PayTemplate, rowIndex: number): PayTemplateLine | null {
+  return rowIndex >= 1 && rowIndex <= template.lines.length ? template.lines[rowIndex - 1] : null
+}
+
+/**
+ * Lays saved rows out for a template: header, one row per template line (matched by line_key), then the
+ * free-form rows in their saved order. Saved rows whose line is no longer in the template become free-form rows.
+ */
+export function buildPayTableRows(template: PayTemplate, saved: { rows: string[][]; lineKeys: Array<string | null> } | null): string[][] {
+  const byKey = new Map<string, string[]>()
+  const freeRows: string[][] = []
+  saved?.rows.forEach((row, i) => {
+    if (i === 0) return
+    const key = saved.lineKeys[i]
+    if (key && template.lines.some((l) => l.line_key === key) && !byKey.has(key)) byKey.set(key, row)
+    else freeRows.push([row[0] ?? '', row[1] ?? '', row[2] ?? ''])
+  })
+  const rows: string[][] = [[...PAY_TABLE_HEADER]]
+  template.lines.forEach((line) => {
+    const savedRow = byKey.get(line.line_key)
+    rows.push([line.label, savedRow?.[1] ?? '', savedRow?.[2] ?? ''])
+  })
+  rows.push(...freeRows)
+  while (rows.length < MIN_PAY_TABLE_ROWS) rows.push(['', '', ''])
+  return rows
+}
+
+/** Recomputes the template rows of the table: entered amounts are formatted, computed lines filled in (blank when 0). */
+export function applyPayTemplate(rows: string[][], template: PayTemplate, providerCut: ProviderCut): string[][] {
+  const next = rows.map((r) => [...r])
+  const inputs: Record<string, number> = {}
+  template.lines.forEach((line, i) => {
+    const row = next[i + 1]
+    if (!row) return
+    if (line.line_type === 'input') {
+      if (row[1] != null && row[1] !== '') row[1] = formatPayAmount(row[1])
+      inputs[line.line_key] = parseAmount(row[1])
+    }
+  })
+  const values = evaluatePayTemplate(template, inputs, providerCut)
+  template.lines.forEach((line, i) => {
+    const row = next[i + 1]
+    if (!row || !isComputedLine(line)) return
+    const value = values[line.line_key]
+    row[1] = value === 0 ? '' : formatPayAmount(value)
+  })
+  return next
+}
+
+/** Formula in words, e.g. "70% of Total Payments" or "Patient Payments + A/R Payments". */
+export function describePayLine(line: PayTemplateLine | PayTemplateLineInput, lines: Array<PayTemplateLine | PayTemplateLineInput>): string {
+  const labelByKey = new Map(lines.map((l) => [l.line_key, l.label]))
+  const sources = line.source_keys.map((k) => labelByKey.get(k) ?? k).join(' + ')
+  const pct = (rate: number) => `${Math.round(rate * 10000) / 100}%`
+  switch (line.line_type) {
+    case 'input':
+      return line.sheet_source ? `Entered, or pulled from sheet ${PAY_SHEET_SOURCE_LABELS[line.sheet_source]}` : 'Entered each period'
+    case 'sum':
+      return sources || '—'
+    case 'percent':
+      return `${line.rate != null ? pct(line.rate) : "Provider's cut"} of ${sources || '—'}`
+    case 'flat':
+      return formatPayAmount(line.amount ?? 0)
+    case 'deduction':
+      return line.rate != null ? `minus ${pct(line.rate)} of ${sources || '—'}` : `minus ${formatPayAmount(line.amount ?? 0)}`
+  }
+}
+
+/** Lowercase snake_case key from a label, made unique among `taken`. */
+export function payLineKeyFromLabel(label: string, taken: Iterable<string>): string {
+  const used = new Set(taken)
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'line'
+  let key = base
+  for (let n = 2; used.has(key); n++) key = `${base}_${n}`
+  return key
+}
+
+export type PayTemplateLineInput = Pick<PayTemplateLine, 'line_key' | 'label' | 'line_type' | 'source_keys' | 'rate' | 'amount' | 'is_payout' | 'sheet_source'>
+
+export interface PayTemplateInput {
+  name: string
+  description: string | null
+  lines: PayTemplateLineInput[]
+}
+
+/** Problems that would make the template unusable; empty when it can be saved. */
+export function validatePayTemplate(input: PayTemplateInput): string[] {
+  const errors: string[] = []
+  if (!input.name.trim()) errors.push('Template name is required.')
+  if (input.lines.length === 0) errors.push('Add at least one line.')
+  const seen = new Set<string>()
+  input.lines.forEach((line, i) => {
+    const label = line.label.trim() || `Line ${i + 1}`
+    if (!line.label.trim()) errors.push(`Line ${i + 1}: label is required.`)
+    if (seen.has(line.line_key)) errors.push(`${label}: duplicate line key "${line.line_key}".`)
+    const unknown = line.source_keys.filter((k) => !seen.has(k))
+    if (unknown.length > 0) errors.push(`${label}: can only use lines above it.`)
+    if ((line.line_type === 'sum' || line.line_type === 'percent') && line.source_keys.length === 0) {
+      errors.push(`${label}: choose the lines it is computed from.`)
+    }
+    if (line.rate != null && (line.rate < 0 || line.rate > 1)) errors.push(`${label}: percentage must be between 0 and 100.`)
+    if (line.line_type === 'flat' && line.amount == null) errors.push(`${label}: amount is required.`)
+    if (line.line_type === 'deduction' && line.amount == null && (line.rate == null || line.source_keys.length === 0)) {
+      errors.push(`${label}: enter a flat amount, or a percentage and the lines it applies to.`)
+    }
+    seen.add(line.line_key)
+  })
+  if (input.lines.filter((l) => l.is_payout).length > 1) errors.push('Only one line can be the payout.')
+  PAY_SHEET_SOURCES.forEach((source) => {
+    const pulled = input.lines.filter((l) => l.line_type === 'input' && l.sheet_source === source.key)
+    if (pulled.length > 1) errors.push(`Only one line can be pulled from sheet ${source.label}.`)
+  })
+  return errors
+}
+
+function toTemplateLine(l: PayTemplateLine): PayTemplateLine {
+  return {
+    ...l,
+    source_keys: l.source_keys ?? [],
+    rate: l.rate != null ? Number(l.rate) : null,
+    amount: l.amount != null ? Number(l.amount) : null,
+    sheet_source: l.sheet_source ?? null,
+  }
+}
+
+/** All templates with their lines, default first then by name. */
+export async function fetchPayTemplates(supabase: SupabaseClient): Promise<PayTemplate[]> {
+  const { data, error } = await supabase
+    .from('provider_pay_templates')
+    .select('*, lines:provider_pay_template_lines(*)')
+    .order('name', { ascending: true })
+  if (error) throw error
+  return ((data || []) as PayTemplate[])
+    .map((t) => ({ ...t, lines: (t.lines ?? []).map(toTemplateLine).sort((a, b) => a.sort_order - b.sort_order) }))
+    .sort((a, b) => Number(b.is_default) - Number(a.is_default))
+}
+
+/** Creates a template, or updates one and replaces its lines. The first template created becomes the default. */
+export async function savePayTemplate(supabase: SupabaseClient, id: string | null, input: PayTemplateInput): Promise<string> {
+  const header = { name: input.name.trim(), description: input.description?.trim() || null }
+  let templateId: string
+  if (id) {
+    const { error } = await supabase.from('provider_pay_templates').update(header).eq('id', id)
+    if (error) throw error
+    templateId = id
+  } else {
+    const { count, error: countError } = await supabase
+      .from('provider_pay_templates')
+      .select('id', { count: 'exact', head: true })
+      .eq('is_default', true)
+    if (countError) throw countError
+    const { data, error } = await supabase
+      .from('provider_pay_templates')
+      .insert({ ...header, is_default: (count ?? 0) === 0 })
+      .select('id')
+      .single()
+    if (error) throw error
+    templateId = data.id
+  }
+
+  const { error: deleteError } = await supabase.from('provider_pay_template_lines').delete().eq('template_id', templateId)
+  if (deleteError) throw deleteError
+  if (input.lines.length > 0) {
+    const { error: linesError } = await supabase.from('provider_pay_template_lines').insert(
+      input.lines.map((line, i) => ({
+        template_id: templateId,
+        sort_order: i + 1,
+        line_key: line.line_key,
+        label: line.label.trim(),
+        line_type: line.line_type,
+        source_keys: line.line_type === 'input' || line.line_type === 'flat' ? [] : line.source_keys,
+        rate: line.line_type === 'percent' || line.line_type === 'deduction' ? line.rate : null,
+        amount: line.line_type === 'flat' || (line.line_type === 'deduction' && line.rate == null) ? line.amount : null,
+        is_payout: line.is_payout,
+        sheet_source: line.line_type === 'input' ? line.sheet_source : null,
+      }))
+    )
+    if (linesError) throw linesError
+  }
+  return templateId
+}
+
+/** Deletes a non-default template; providers assigned to it fall back to the default. */
+export async function deletePayTemplate(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.from('provider_pay_templates').delete().eq('id', id).eq('is_default', false)
+  if (error) throw error
+}
+
+export async function setDefaultPayTemplate(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error: clearError } = await supabase.from('provider_pay_templates').update({ is_default: false }).eq('is_default', true).neq('id', id)
+  if (clearError) throw clearError
+  const { error } = await supabase.from('provider_pay_templates').update({ is_default: true }).eq('id', id)
+  if (error) throw error
+}
+
+/** Assigns a template to a provider for new pay months; null = the default template. */
+export async function assignProviderPayTemplate(supabase: SupabaseClient, providerId: string, templateId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('providers')
+    .update({ pay_template_id: templateId, updated_at: new Date().toISOString() })
+    .eq('id', providerId)
+  if (error) throw error
+}
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { IsLockProviders, ProviderSheet, SheetRow } from '@/types'
+
+/** SheetRow field → is_lock_providers column for the Providers grid (full view). */
+export const PROVIDER_LOCK_KEY_BY_FIELD: Partial<Record<keyof SheetRow, keyof IsLockProviders>> = {
+  patient_id: 'patient_id',
+  patient_first_name: 'first_name',
+  last_initial: 'last_initial',
+  patient_insurance: 'insurance',
+  patient_copay: 'copay',
+  patient_coinsurance: 'coinsurance',
+  appointment_date: 'date_of_service',
+  cpt_code: 'cpt_code',
+  appointment_status: 'appointment_note_status',
+  claim_status: 'claim_status',
+  submit_date: 'most_recent_submit_date',
+  insurance_payment: 'ins_pay',
+  payment_date: 'ins_pay_date',
+  insurance_adjustment: 'pt_res',
+  collected_from_patient: 'collected_from_pt',
+  patient_pay_status: 'pt_pay_status',
+  ar_date: 'pt_payment_ar_ref_date',
+  total: 'total',
+  notes: 'notes',
+}
+
+/** SheetRow field → legacy column letter stored in provider_sheets.locked_columns by Month Close. */
+const LEGACY_COLUMN_BY_FIELD: Partial<Record<keyof SheetRow, string>> = {
+  claim_status: 'J',
+  submit_date: 'K',
+  insurance_payment: 'L',
+  insurance_adjustment: 'M',
+  invoice_amount: 'N',
+  collected_from_patient: 'O',
+  patient_pay_status: 'P',
+  payment_date: 'Q',
+  ar_type: 'U',
+  ar_amount: 'V',
+  ar_date: 'W',
+  ar_notes: 'X',
+  provider_payment_amount: 'AC',
+  provider_payment_date: 'AD',
+  provider_payment_notes: 'AE',
+}
+
+/** Month keys a sheet's locks can live under: "YYYY-M" plus both pay-period halves for payroll=2 clinics. */
+function monthKeysForSheet(sheet: Pick<ProviderSheet, 'year' | 'month'>): string[] {
+  const base = `${sheet.year}-${sheet.month}`
+  return [base, `${base}-1`, `${base}-2`]
+}
+
+/**
+ * Locked SheetRow fields per sheet id, combining is_lock_providers (any month key for the sheet's month, falling back
+ * to the "legacy" row) with provider_sheets.locked_columns from Month Close. Used by bulk posting (ERA, etc.) so
+ * automated updates never write into columns a user has locked.
+ */
+export async function fetchLockedFieldsBySheetId(
+  supabase: SupabaseClient,
+  clinicId: string,
+  sheets: ProviderSheet[]
+): Promise<Map<string, Set<keyof SheetRow>>> {
+  const result = new Map<string, Set<keyof SheetRow>>()
+  if (sheets.length === 0) return result
+  const monthKeys = Array.from(new Set(sheets.flatMap(monthKeysForSheet)))
+  const { data, error } = await supabase
+    .from('is_lock_providers')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .in('month_key', [...monthKeys, 'legacy'])
+  if (error) throw error
+  const lockRows = (data || []) as IsLockProviders[]
+  const legacy = lockRows.find((r) => r.month_key === 'legacy') ?? null
+
+  sheets.forEach((sheet) => {
+    const keys = monthKeysForSheet(sheet)
+    const forMonth = lockRows.filter((r) => keys.includes(r.month_key))
+    const applicable = forMonth.length > 0 ? forMonth : legacy ? [legacy] : []
+    const locked = new Set<keyof SheetRow>()
+    ;(Object.keys(PROVIDER_LOCK_KEY_BY_FIELD) as Array<keyof SheetRow>).forEach((field) => {
+      const lockKey = PROVIDER_LOCK_KEY_BY_FIELD[field]!
+      if (applicable.some((r) => r[lockKey] === true)) locked.add(field)
+    })
+    const sheetLetters = sheet.locked_columns ?? []
+    ;(Object.keys(LEGACY_COLUMN_BY_FIELD) as Array<keyof SheetRow>).forEach((field) => {
+      if (sheetLetters.includes(LEGACY_COLUMN_BY_FIELD[field]!)) locked.add(field)
+    })
+    result.set(sheet.id, locked)
+  })
+  return result
+}
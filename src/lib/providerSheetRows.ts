@@ -1,4 +1,4 @@
-import type { SheetRow } from '@/types'
+import type { ProviderSheet, SheetRow } from '@/types'
 import type { SupabaseClient } from '@supabase/supabase-js'
 
 /** DB row shape for provider_sheet_rows (snake_case, id is UUID). Patient demographics live in `patients`. */
@@ -154,6 +154,14 @@ async function mapWithConcurrency<T, R>(
   return results
 }
 
+/** Appointment statuses that are never billed to insurance. */
+export const NO_CHARGE_APPOINTMENT_STATUSES = new Set(['NS/LC/RS - No Charge', 'NS/LC - No Charge', 'RS No Charge', 'NS No Charge'])
+
+/** CPT codes on a row (the grid stores multi-select as "90837, 90785"). */
+export function cptCodesForRow(row: SheetRow): string[] {
+  return row.cpt_code ? row.cpt_code.split(',').map((s) => s.trim()).filter(Boolean) : []
+}
+
 /**
  * Fetch all rows for a provider sheet from provider_sheet_rows, ordered by sort_order.
  */
@@ -168,6 +176,78 @@ export async function fetchSheetRows(supabase: SupabaseClient, sheetId: string):
   return (data || []).map(dbToSheetRow)
 }
 
+/** Narrows fetchClinicSheetRows in the database instead of loading every row. */
+export interface ClinicSheetRowFilter {
+  /** Rows whose claim_status is one of these; '' also matches rows with no claim status. */
+  claimStatuses?: string[]
+  /** Rows with a non-empty value in every one of these text columns. */
+  nonBlank?: Array<'patient_id' | 'appointment_date' | 'collected_from_patient' | 'insurance_payment'>
+  /** Rows for any of these patients; Patient ID is matched ignoring case. An empty list matches no rows. */
+  patientIds?: string[]
+}
+
+const SHEET_ID_CHUNK = 100
+const ROW_PAGE_SIZE = 1000
+
+/** PostgREST double-quoted value, so commas and parentheses in it are not read as filter syntax. */
+function postgrestQuote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/** PostgREST list literal for in.(...) filters, quoting each value. */
+function postgrestList(values: string[]): string {
+  return `(${values.map(postgrestQuote).join(',')})`
+}
+
+/**
+ * Fetch rows of every provider sheet in a clinic for the current month and the `monthsBack` before it
+ * (null = every month), each paired with its sheet (for provider_id / month). `filter` is applied in the query.
+ */
+export async function fetchClinicSheetRows(
+  supabase: SupabaseClient,
+  clinicId: string,
+  monthsBack: number | null,
+  filter: ClinicSheetRowFilter = {}
+): Promise<Array<{ row: SheetRow; sheet: ProviderSheet }>> {
+  if (filter.patientIds?.length === 0) return []
+  const now = new Date()
+  const cutoff = monthsBack == null ? -Infinity : now.getFullYear() * 12 + now.getMonth() + 1 - monthsBack
+  const { data, error } = await supabase.from('provider_sheets').select('*').eq('clinic_id', clinicId)
+  if (error) throw error
+  const sheets = ((data || []) as ProviderSheet[]).filter((s) => s.year * 12 + s.month >= cutoff)
+  const sheetsById = new Map(sheets.map((s) => [s.id, s]))
+  const sheetIds = sheets.map((s) => s.id)
+
+  const result: Array<{ row: SheetRow; sheet: ProviderSheet }> = []
+  for (let i = 0; i < sheetIds.length; i += SHEET_ID_CHUNK) {
+    const chunk = sheetIds.slice(i, i + SHEET_ID_CHUNK)
+    for (let from = 0; ; from += ROW_PAGE_SIZE) {
+      let query = supabase.from('provider_sheet_rows').select('*').in('sheet_id', chunk)
+      if (filter.claimStatuses) {
+        const clauses = [`claim_status.in.${postgrestList(filter.claimStatuses)}`]
+        if (filter.claimStatuses.includes('')) clauses.push('claim_status.is.null')
+        query = query.or(clauses.join(','))
+      }
+      filter.nonBlank?.forEach((column) => {
+        query = query.not(column, 'is', null).neq(column, '')
+      })
+      if (filter.patientIds) {
+        query = query.or(filter.patientIds.map((id) => `patient_id.ilike.${postgrestQuote(id.trim().replace(/[\\%_]/g, '\\$&'))}`).join(','))
+      }
+      const { data: rows, error: rowsError } = await query
+        .order('sheet_id', { ascending: true })
+        .order('sort_order', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, from + ROW_PAGE_SIZE - 1)
+      if (rowsError) throw rowsError
+      const page = (rows || []) as ProviderSheetRowDb[]
+      page.forEach((db) => result.push({ row: dbToSheetRow(db), sheet: sheetsById.get(db.sheet_id)! }))
+      if (page.length < ROW_PAGE_SIZE) break
+    }
+  }
+  return result
+}
+
 /**
  * Save rows to provider_sheet_rows. Rows with id matching existing UUID are updated;
  * rows with client ids (new-*, empty-*) are inserted. Any existing DB rows for this sheet
@@ -0,0 +1,279 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BillingCode, Patient, PatientRefund, ProviderSheet, RefundMethod, RefundStatus, SheetRow } from '@/types'
+import { fetchClinicSheetRows } from '@/lib/providerSheetRows'
+import { fetchPayers } from '@/lib/payers'
+import { computeRowReimbursement, createFeeScheduleLookup, fetchFeeSchedules, type FeeScheduleLookup } from '@/lib/feeSchedules'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { fetchPostedAdjustmentTotals, patientAdjustments, type RowAdjustmentTotals } from '@/lib/adjustments'
+import { parseAmount, toIsoDate, roundMoney } from '@/lib/utils'
+
+export const REFUND_METHODS: Array<{ key: RefundMethod; label: string }> = [
+  { key: 'check', label: 'Check' },
+  { key: 'card', label: 'Card reversal' },
+  { key: 'ach', label: 'ACH' },
+  { key: 'cash', label: 'Cash' },
+  { key: 'other', label: 'Other' },
+]
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = Object.fromEntries(
+  REFUND_METHODS.map((m) => [m.key, m.label])
+) as Record<RefundMethod, string>
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  denied: 'Denied',
+  issued: 'Issued',
+  voided: 'Voided',
+}
+
+/** Refunds that already account for (part of) a credit: denied and voided ones do not. */
+const OPEN_REFUND_STATUSES = new Set<RefundStatus>(['requested', 'approved', 'issued'])
+
+/** Overpayments are looked for on visits up to this old. */
+const OVERPAYMENT_LOOKBACK_MONTHS = 24
+
+export interface Overpayment {
+  rowId: string
+  providerId: string
+  patientId: string
+  patientName: string
+  /** YYYY-MM-DD */
+  dateOfService: string
+  cptCode: string
+  /** What the patient owed: PT Res, else the fee schedule amount less what insurance paid (never below zero). */
+  patientResponsibility: number
+  /** 'pt_res' = PT Res from the payer; 'fee_schedule' = the fee schedule amount less the insurance payment. */
+  basis: 'fee_schedule' | 'pt_res'
+  insurancePaid: number
+  patientPaid: number
+  /** Posted patient write-offs less refund adjustments (contractual write-offs do not count). */
+  adjustments: number
+  /** Refunds already requested, approved or issued for the row. */
+  refunded: number
+  /** Amount still owed back to the patient. */
+  credit: number
+}
+
+/** Requested, approved and issued refund amounts per provider_sheet_rows id. */
+export function openRefundTotalsByRow(refunds: PatientRefund[]): Map<string, number> {
+  const byRow = new Map<string, number>()
+  refunds.forEach((r) => {
+    if (!r.provider_sheet_row_id || !OPEN_REFUND_STATUSES.has(r.status)) return
+    byRow.set(r.provider_sheet_row_id, roundMoney((byRow.get(r.provider_sheet_row_id) ?? 0) + r.amount))
+  })
+  return byRow
+}
+
+/**
+ * Patient credit on one row, or null when it is not overpaid: what the patient paid plus posted patient write-offs,
+ * over what the patient owed (PT Res, else the fee schedule amount less the insurance payment). Insurance paying more
+ * than the fee schedule is not a patient credit. Refunds already in the workflow come off, and rows the sheet already
+ * marks Refunded are skipped.
+ */
+export function overpaymentForRow(
+  row: SheetRow,
+  sheet: ProviderSheet,
+  insurance: string | null,
+  feeLookup: FeeScheduleLookup,
+  adjustmentTotals: RowAdjustmentTotals | undefined,
+  refunded: number
+): Omit<Overpayment, 'patientName'> | null {
+  const dateOfService = toIsoDate(row.appointment_date)
+  if (!dateOfService || !row.patient_id) return null
+  if (row.patient_pay_status === 'Refunded') return null
+
+  const insurancePaid = parseAmount(row.insurance_payment)
+  const patientPaid = parseAmount(row.collected_from_patient)
+  if (patientPaid <= 0) return null
+  const hasPtRes = row.insurance_adjustment != null && String(row.insurance_adjustment).trim() !== '' && row.insurance_adjustment !== 'null'
+
+  let patientResponsibility: number
+  let basis: Overpayment['basis']
+  if (hasPtRes) {
+    patientResponsibility = parseAmount(row.insurance_adjustment)
+    basis = 'pt_res'
+  } else {
+    const expected = computeRowReimbursement({ ...row, patient_insurance: insurance }, feeLookup).expected
+    if (expected == null) return null
+    patientResponsibility = Math.max(0, expected - insurancePaid)
+    basis = 'fee_schedule'
+  }
+  const adjustments = patientAdjustments(adjustmentTotals)
+  const credit = roundMoney(patientPaid + adjustments - patientResponsibility - refunded)
+  if (credit < 0.01) return null
+
+  return {
+    rowId: row.id,
+    providerId: sheet.provider_id,
+    patientId: row.patient_id,
+    dateOfService,
+    cptCode: row.cpt_code ?? '',
+    patientResponsibility: roundMoney(patientResponsibility),
+    basis,
+    insurancePaid: roundMoney(insurancePaid),
+    patientPaid: roundMoney(patientPaid),
+    adjustments,
+    refunded,
+    credit,
+  }
+}
+
+/** Overpaid rows, largest credit first. */
+export function findOverpayments(
+  candidates: Array<{ row: SheetRow; sheet: ProviderSheet }>,
+  context: {
+    patients: Patient[]
+    feeLookup: FeeScheduleLookup
+    adjustmentTotals: Map<string, RowAdjustmentTotals>
+    refundedByRow: Map<string, number>
+  }
+): Overpayment[] {
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+  const overpayments: Overpayment[] = []
+  candidates.forEach(({ row, sheet }) => {
+    if (!row.patient_id) return
+    const patient = patientsByKey.get(normalizePatientIdKey(row.patient_id))
+    const found = overpaymentForRow(
+      row,
+      sheet,
+      patient?.insurance ?? row.patient_insurance ?? null,
+      context.feeLookup,
+      context.adjustmentTotals.get(row.id),
+      context.refundedByRow.get(row.id) ?? 0
+    )
+    if (!found) return
+    overpayments.push({
+      ...found,
+      patientId: patient?.patient_id ?? found.patientId,
+      patientName: patient ? `${patient.first_name} ${patient.last_name}`.trim() : '',
+    })
+  })
+  return overpayments.sort((a, b) => b.credit - a.credit)
+}
+
+function toRefund(r: PatientRefund): PatientRefund {
+  return { ...r, amount: Number(r.amount) }
+}
+
+/** Every refund in the clinic, newest first. */
+export async function fetchRefunds(supabase: SupabaseClient, clinicId: string): Promise<PatientRefund[]> {
+  const { data, error } = await supabase
+    .from('patient_refunds')
+    .select('*')
+    .eq('clinic_id', clinicId)
+    .order('created_at', { ascending: false })
+  if (error) throw error
+  return ((data || []) as PatientRefund[]).map(toRefund)
+}
+
+/** Issued refunds with an issue date in [startDate, endDate] (YYYY-MM-DD), for the register report. */
+export async function fetchIssuedRefunds(
+  supabase: SupabaseClient,
+  clinicIds: string[],
+  startDate: string,
+  endDate: string
+): Promise<PatientRefund[]> {
+  if (clinicIds.length === 0) return []
+  const { data, error } = await supabase
+    .from('patient_refunds')
+    .select('*')
+    .in('clinic_id', clinicIds)
+    .eq('status', 'issued')
+    .gte('issued_date', startDate)
+    .lte('issued_date', endDate)
+    .order('issued_date', { ascending: true })
+  if (error) throw error
+  return ((data || []) as PatientRefund[]).map(toRefund)
+}
+
+/** Issued refund total per clinic for a calendar month (month is 1-12); clinic invoices subtract it. */
+export async function fetchIssuedRefundTotals(
+  supabase: SupabaseClient,
+  clinicIds: string[],
+  year: number,
+  month: number
+): Promise<Record<string, number>> {
+  const lastDay = new Date(year, month, 0).getDate()
+  const mm = String(month).padStart(2, '0')
+  const refunds = await fetchIssuedRefunds(supabase, clinicIds, `${year}-${mm}-01`, `${year}-${mm}-${String(lastDay).padStart(2, '0')}`)
+  const totals: Record<string, number> = {}
+  refunds.forEach((r) => {
+    totals[r.clinic_id] = roundMoney((totals[r.clinic_id] ?? 0) + r.amount)
+  })
+  return totals
+}
+
+/** Loads the clinic's recent rows with a patient payment, plus pricing, adjustments and refunds, and returns the overpaid rows. */
+export async function fetchOverpayments(supabase: SupabaseClient, clinicId: string, refunds?: PatientRefund[]): Promise<Overpayment[]> {
+  const [candidates, patientsResult, payers, feeSchedules, billingCodesResult, adjustmentTotals, clinicRefunds] = await Promise.all([
+    fetchClinicSheetRows(supabase, clinicId, OVERPAYMENT_LOOKBACK_MONTHS, { nonBlank: ['patient_id', 'collected_from_patient'] }),
+    supabase.from('patients').select('*').eq('clinic_id', clinicId),
+    fetchPayers(supabase),
+    fetchFeeSchedules(supabase),
+    supabase.from('billing_codes').select('*'),
+    fetchPostedAdjustmentTotals(supabase, [clinicId]),
+    refunds ? Promise.resolve(refunds) : fetchRefunds(supabase, clinicId),
+  ])
+  if (patientsResult.error) throw patientsResult.error
+  if (billingCodesResult.error) throw billingCodesResult.error
+  const feeLookup = createFeeScheduleLookup(feeSchedules, payers, (billingCodesResult.data || []) as BillingCode[])
+  return findOverpayments(candidates, {
+    patients: (patientsResult.data || []) as Patient[],
+    feeLookup,
+    adjustmentTotals,
+    refundedByRow: openRefundTotalsByRow(clinicRefunds),
+  })
+}
+
+export interface RefundRequestInput {
+  clinic_id: string
+  provider_sheet_row_id: string
+  patient_id: string
+  amount: number
+  reason: string
+}
+
+export async function requestRefund(supabase: SupabaseClient, input: RefundRequestInput): Promise<PatientRefund> {
+  const { data, error } = await supabase
+    .from('patient_refunds')
+    .insert({ ...input, reason: input.reason.trim(), status: 'requested' })
+    .select('*')
+    .single()
+  if (error) throw error
+  return toRefund(data as PatientRefund)
+}
+
+/** Approve or deny a requested refund, void an approved or issued one, or withdraw your own request (voided). */
+export async function reviewRefund(
+  supabase: SupabaseClient,
+  id: string,
+  status: 'approved' | 'denied' | 'voided',
+  note: string | null
+): Promise<PatientRefund> {
+  const { data, error } = await supabase
+    .from('patient_refunds')
+    .update({ status, review_note: note?.trim() || null })
+    .eq('id', id)
+    .select('*')
+    .single()
+  if (error) throw error
+  return toRefund(data as PatientRefund)
+}
+
+/** Records the payout of an approved refund. */
+export async function issueRefund(
+  supabase: SupabaseClient,
+  id: string,
+  payout: { refund_method: RefundMethod; issued_date: string; reference: string }
+): Promise<PatientRefund> {
+  const { data, error } = await supabase
+    .from('patient_refunds')
+    .update({ status: 'issued', refund_method: payout.refund_method, issued_date: payout.issued_date, reference: payout.reference.trim() || null })
+    .eq('id', id)
+    .select('*')
+    .single()
+  if (error) throw error
+  return toRefund(data as PatientRefund)
+}
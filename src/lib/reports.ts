@@ -1,7 +1,11 @@
 import jsPDF from 'jspdf'
 import autoTable from 'jspdf-autotable'
-import { formatCurrency, formatDate } from './utils'
-import { ProviderSheet, SheetRow, Timecard, User, Clinic } from '@/types'
+import { formatCurrency, formatDate, toDisplayDate, parseAmount } from './utils'
+import { ProviderSheet, SheetRow, Timecard, User, Clinic, Denial, PatientRefund } from '@/types'
+import { DENIAL_CATEGORY_LABELS, parseCarcCodes } from './denials'
+import { AGING_BUCKETS, agingGroupKey, summarizeAging, type AgingData, type AgingGroupBy } from './arAging'
+import { patientAdjustments, totalAdjustments, type RowAdjustmentTotals } from './adjustments'
+import { REFUND_METHOD_LABELS } from './refunds'
 
 export interface ReportData {
   startDate: Date
@@ -10,11 +14,21 @@ export interface ReportData {
   providerId?: string
 }
 
+/**
+ * Patient AR less posted patient write-offs; never below zero. Contractual write-offs reduce what the payer owes, not
+ * patient AR, and refunds return a credit rather than create a receivable, so neither changes it.
+ */
+function rowArAfterAdjustments(row: SheetRow, adjustmentTotals: Map<string, RowAdjustmentTotals>): number {
+  const writtenOff = adjustmentTotals.get(row.id)?.patient ?? 0
+  return writtenOff === 0 ? row.ar_amount || 0 : Math.max(0, (row.ar_amount || 0) - writtenOff)
+}
+
 export async function generateProviderReport(
   sheets: ProviderSheet[],
   users: User[],
   reportData: ReportData,
-  rowsBySheetId: Record<string, SheetRow[]>
+  rowsBySheetId: Record<string, SheetRow[]>,
+  adjustmentTotals: Map<string, RowAdjustmentTotals> = new Map()
 ): Promise<jsPDF> {
   const doc = new jsPDF()
   
@@ -31,25 +45,28 @@ export async function generateProviderReport(
     
     let totalInsurance = 0
     let totalPatient = 0
+    let totalAdjusted = 0
     let totalAR = 0
 
     rows.forEach((row: SheetRow) => {
       totalInsurance += parseFloat(row.insurance_payment as string) || 0
       totalPatient += parseFloat(row.collected_from_patient as string) || 0
-      totalAR += row.ar_amount || 0
+      totalAdjusted += totalAdjustments(adjustmentTotals.get(row.id))
+      totalAR += rowArAfterAdjustments(row, adjustmentTotals)
     })
 
     tableData.push([
       provider?.full_name || provider?.email || 'Unknown',
       formatCurrency(totalInsurance),
       formatCurrency(totalPatient),
+      formatCurrency(totalAdjusted),
       formatCurrency(totalAR),
       formatCurrency(totalInsurance + totalPatient + totalAR),
     ])
   })
 
   autoTable(doc, {
-    head: [['Provider', 'Insurance Payments', 'Patient Payments', 'AR', 'Total']],
+    head: [['Provider', 'Insurance Payments', 'Patient Payments', 'Adjustments', 'AR', 'Total']],
     body: tableData,
     startY: 40,
   })
@@ -62,7 +79,8 @@ export async function generateClinicReport(
   users: User[],
   clinics: Clinic[],
   reportData: ReportData,
-  rowsBySheetId: Record<string, SheetRow[]>
+  rowsBySheetId: Record<string, SheetRow[]>,
+  adjustmentTotals: Map<string, RowAdjustmentTotals> = new Map()
 ): Promise<jsPDF> {
   const doc = new jsPDF()
   
@@ -83,6 +101,7 @@ export async function generateClinicReport(
         providers: new Map(),
         totalInsurance: 0,
         totalPatient: 0,
+        totalAdjusted: 0,
         totalAR: 0,
       })
     }
@@ -94,17 +113,20 @@ export async function generateClinicReport(
     
     let insurance = 0
     let patient = 0
+    let adjusted = 0
     let ar = 0
 
     rows.forEach((row: SheetRow) => {
       insurance += parseFloat(row.insurance_payment as string) || 0
       patient += parseFloat(row.collected_from_patient as string) || 0
-      ar += row.ar_amount || 0
+      adjusted += totalAdjustments(adjustmentTotals.get(row.id))
+      ar += rowArAfterAdjustments(row, adjustmentTotals)
     })
 
-    data.providers.set(providerName, { insurance, patient, ar })
+    data.providers.set(providerName, { insurance, patient, adjusted, ar })
     data.totalInsurance += insurance
     data.totalPatient += patient
+    data.totalAdjusted += adjusted
     data.totalAR += ar
   })
 
@@ -120,11 +142,12 @@ export async function generateClinicReport(
     yPos += 10
 
     const tableData: any[] = []
-    data.providers.forEach((totals: { insurance: number; patient: number; ar: number }, providerName: string) => {
+    data.providers.forEach((totals: { insurance: number; patient: number; adjusted: number; ar: number }, providerName: string) => {
       tableData.push([
         providerName,
         formatCurrency(totals.insurance),
         formatCurrency(totals.patient),
+        formatCurrency(totals.adjusted),
         formatCurrency(totals.ar),
         formatCurrency(totals.insurance + totals.patient + totals.ar),
       ])
@@ -134,12 +157,13 @@ export async function generateClinicReport(
       'TOTAL',
       formatCurrency(data.totalInsurance),
       formatCurrency(data.totalPatient),
+      formatCurrency(data.totalAdjusted),
       formatCurrency(data.totalAR),
       formatCurrency(data.totalInsurance + data.totalPatient + data.totalAR),
     ])
 
     autoTable(doc, {
-      head: [['Provider', 'Insurance', 'Patient', 'AR', 'Total']],
+      head: [['Provider', 'Insurance', 'Patient', 'Adjustments', 'AR', 'Total']],
       body: tableData,
       startY: yPos,
     })
@@ -153,7 +177,8 @@ export async function generateClinicReport(
 export async function generateClaimReport(
   sheets: ProviderSheet[],
   reportData: ReportData,
-  rowsBySheetId: Record<string, SheetRow[]>
+  rowsBySheetId: Record<string, SheetRow[]>,
+  adjustmentTotals: Map<string, RowAdjustmentTotals> = new Map()
 ): Promise<jsPDF> {
   const doc = new jsPDF()
   
@@ -162,27 +187,28 @@ export async function generateClaimReport(
   doc.setFontSize(12)
   doc.text(`Period: ${formatDate(reportData.startDate.toISOString())} - ${formatDate(reportData.endDate.toISOString())}`, 14, 30)
 
-  const claimData = new Map<string, number>()
+  const claimData = new Map<string, { count: number; adjusted: number }>()
 
   sheets.forEach(sheet => {
     const rows = rowsBySheetId[sheet.id] || []
     rows.forEach((row: SheetRow) => {
       if (row.claim_status) {
-        claimData.set(
-          row.claim_status,
-          (claimData.get(row.claim_status) || 0) + 1
-        )
+        const entry = claimData.get(row.claim_status) || { count: 0, adjusted: 0 }
+        entry.count++
+        entry.adjusted += totalAdjustments(adjustmentTotals.get(row.id))
+        claimData.set(row.claim_status, entry)
       }
     })
   })
 
-  const tableData = Array.from(claimData.entries()).map(([status, count]) => [
+  const tableData = Array.from(claimData.entries()).map(([status, entry]) => [
     status,
-    count.toString(),
+    entry.count.toString(),
+    formatCurrency(entry.adjusted),
   ])
 
   autoTable(doc, {
-    head: [['Claim Status', 'Count']],
+    head: [['Claim Status', 'Count', 'Adjustments']],
     body: tableData,
     startY: 40,
   })
@@ -190,10 +216,156 @@ export async function generateClaimReport(
   return doc
 }
 
+/**
+ * Denial rate by reason: denials (by date of service in the period) against claims billed on the period's sheets,
+ * grouped by category and by CARC reason code, with appeal results.
+ */
+export async function generateDenialReport(
+  sheets: ProviderSheet[],
+  denials: Denial[],
+  reportData: ReportData,
+  rowsBySheetId: Record<string, SheetRow[]>,
+  adjustmentTotals: Map<string, RowAdjustmentTotals> = new Map()
+): Promise<jsPDF> {
+  const doc = new jsPDF()
+
+  doc.setFontSize(18)
+  doc.text('Denial Rate by Reason', 14, 22)
+  doc.setFontSize(12)
+  doc.text(`Period: ${formatDate(reportData.startDate.toISOString())} - ${formatDate(reportData.endDate.toISOString())}`, 14, 30)
+
+  let claimsBilled = 0
+  sheets.forEach(sheet => {
+    const rows = rowsBySheetId[sheet.id] || []
+    rows.forEach((row: SheetRow) => {
+      if (row.claim_status && row.claim_status !== 'N/A') claimsBilled++
+    })
+  })
+
+  const start = reportData.startDate.toISOString().slice(0, 10)
+  const end = reportData.endDate.toISOString().slice(0, 10)
+  const periodDenials = denials.filter(d => d.date_of_service && d.date_of_service >= start && d.date_of_service <= end)
+
+  type Group = { count: number; appealed: number; overturned: number; recovered: number; writtenOff: number }
+  const addTo = (map: Map<string, Group>, key: string, d: Denial) => {
+    const g = map.get(key) || { count: 0, appealed: 0, overturned: 0, recovered: 0, writtenOff: 0 }
+    g.count++
+    if (d.appeal_level > 0) g.appealed++
+    if (d.outcome === 'overturned' || d.outcome === 'partially_overturned') g.overturned++
+    g.recovered += d.recovered_amount || 0
+    if (d.provider_sheet_row_id) g.writtenOff += totalAdjustments(adjustmentTotals.get(d.provider_sheet_row_id))
+    map.set(key, g)
+  }
+  const byCategory = new Map<string, Group>()
+  const byCode = new Map<string, Group>()
+  periodDenials.forEach(d => {
+    addTo(byCategory, DENIAL_CATEGORY_LABELS[d.category] || d.category, d)
+    const codes = parseCarcCodes(d.carc_codes)
+    ;(codes.length > 0 ? codes : ['(none)']).forEach(code => addTo(byCode, code, d))
+  })
+
+  const pct = (n: number, of: number) => (of > 0 ? `${((n / of) * 100).toFixed(1)}%` : '—')
+  const toRows = (map: Map<string, Group>) =>
+    Array.from(map.entries())
+      .sort((a, b) => b[1].count - a[1].count)
+      .map(([key, g]) => [
+        key,
+        g.count.toString(),
+        pct(g.count, periodDenials.length),
+        pct(g.count, claimsBilled),
+        g.appealed.toString(),
+        g.overturned.toString(),
+        formatCurrency(g.recovered),
+        formatCurrency(g.writtenOff),
+      ])
+
+  doc.text(`Claims billed: ${claimsBilled}   Denials: ${periodDenials.length}   Denial rate: ${pct(periodDenials.length, claimsBilled)}`, 14, 38)
+
+  autoTable(doc, {
+    head: [['Category', 'Denials', '% of Denials', 'Denial Rate', 'Appealed', 'Overturned', 'Recovered', 'Written Off']],
+    body: toRows(byCategory),
+    startY: 46,
+  })
+
+  autoTable(doc, {
+    head: [['CARC', 'Denials', '% of Denials', 'Denial Rate', 'Appealed', 'Overturned', 'Recovered', 'Written Off']],
+    body: toRows(byCode),
+    startY: (doc as any).lastAutoTable.finalY + 10,
+  })
+
+  return doc
+}
+
+const AGING_GROUP_LABELS: Record<AgingGroupBy, string> = {
+  type: 'AR Type',
+  payer: 'Payer',
+  provider: 'Provider',
+  patient: 'Patient',
+}
+
+export async function generateArAgingReport(
+  data: AgingData,
+  groupBy: AgingGroupBy,
+  clinicLabel: string
+): Promise<jsPDF> {
+  const doc = new jsPDF({ orientation: 'landscape' })
+
+  doc.setFontSize(18)
+  doc.text('AR Aging', 14, 22)
+  doc.setFontSize(12)
+  doc.text(`${clinicLabel} · As of ${formatDate(new Date().toISOString())} · By ${AGING_GROUP_LABELS[groupBy]}`, 14, 30)
+
+  const summary = summarizeAging(data.items, groupBy, data.providersById)
+  const totals: Record<string, number> = { '0-30': 0, '31-60': 0, '61-90': 0, '91-120': 0, '120+': 0 }
+  data.items.forEach(item => { totals[item.bucket] += item.amount })
+  const grandTotal = data.items.reduce((sum, item) => sum + item.amount, 0)
+
+  autoTable(doc, {
+    head: [[AGING_GROUP_LABELS[groupBy], 'Items', ...AGING_BUCKETS.map(b => b.label), 'Total']],
+    body: summary.map(row => [
+      row.key,
+      row.count.toString(),
+      ...AGING_BUCKETS.map(b => formatCurrency(row.buckets[b.key])),
+      formatCurrency(row.total),
+    ]),
+    foot: [['Total', data.items.length.toString(), ...AGING_BUCKETS.map(b => formatCurrency(totals[b.key])), formatCurrency(grandTotal)]],
+    startY: 38,
+  })
+
+  autoTable(doc, {
+    head: [['Source', 'Type', 'Payer', 'Provider', 'Patient', 'Aged From', 'Days', 'Balance', 'Detail']],
+    body: data.items.map(item => [
+      item.source === 'ar' ? 'AR' : 'Sheet',
+      item.type,
+      item.payer,
+      agingGroupKey(item, 'provider', data.providersById),
+      [item.patientId, item.patientName].filter(Boolean).join(' – '),
+      toDisplayDate(item.agingDate),
+      item.days.toString(),
+      formatCurrency(item.amount),
+      item.detail,
+    ]),
+    startY: (doc as any).lastAutoTable.finalY + 10,
+    styles: { fontSize: 8 },
+  })
+
+  if (data.unpricedRows > 0) {
+    doc.setFontSize(10)
+    doc.text(
+      `${data.unpricedRows} provider sheet row(s) have no fee schedule price and are not included.`,
+      14,
+      (doc as any).lastAutoTable.finalY + 8
+    )
+  }
+
+  return doc
+}
+
 export async function generatePatientInvoiceReport(
   sheets: ProviderSheet[],
   reportData: ReportData,
-  rowsBySheetId: Record<string, SheetRow[]>
+  rowsBySheetId: Record<string, SheetRow[]>,
+  adjustmentTotals: Map<string, RowAdjustmentTotals> = new Map()
 ): Promise<jsPDF> {
   const doc = new jsPDF()
   
@@ -209,9 +381,12 @@ export async function generatePatientInvoiceReport(
     rows.forEach((row: SheetRow) => {
       if (row.invoice_amount && row.patient_pay_status && 
           ['CC declined', 'Payment Plan'].includes(row.patient_pay_status)) {
+        const adjusted = patientAdjustments(adjustmentTotals.get(row.id))
         tableData.push([
           row.patient_id || 'N/A',
           formatCurrency(row.invoice_amount),
+          formatCurrency(adjusted),
+          formatCurrency(row.invoice_amount - parseAmount(row.collected_from_patient) - adjusted),
           row.patient_pay_status,
           row.payment_date ? formatDate(row.payment_date) : 'N/A',
         ])
@@ -220,7 +395,7 @@ export async function generatePatientInvoiceReport(
   })
 
   autoTable(doc, {
-    head: [['Patient ID', 'Invoice Amount', 'Status', 'Payment Date']],
+    head: [['Patient ID', 'Invoice Amount', 'Adjustments', 'Balance', 'Status', 'Payment Date']],
     body: tableData,
     startY: 40,
   })
@@ -228,6 +403,66 @@ export async function generatePatientInvoiceReport(
   return doc
 }
 
+/** Issued refunds grouped by clinic and month of issue, one line per refund with a subtotal per group. */
+export async function generateRefundRegisterReport(
+  refunds: PatientRefund[],
+  clinics: Clinic[],
+  reportData: ReportData
+): Promise<jsPDF> {
+  const doc = new jsPDF()
+
+  doc.setFontSize(18)
+  doc.text('Refund Register', 14, 22)
+  doc.setFontSize(12)
+  doc.text(`Period: ${formatDate(reportData.startDate.toISOString())} - ${formatDate(reportData.endDate.toISOString())}`, 14, 30)
+
+  const clinicNames = new Map(clinics.map(c => [c.id, c.name]))
+  const groups = new Map<string, PatientRefund[]>()
+  refunds
+    .filter(r => r.status === 'issued' && r.issued_date && (!reportData.clinicId || r.clinic_id === reportData.clinicId))
+    .forEach(r => {
+      const key = `${clinicNames.get(r.clinic_id) || 'Unknown'}|${r.issued_date!.slice(0, 7)}`
+      const list = groups.get(key) || []
+      list.push(r)
+      groups.set(key, list)
+    })
+
+  const tableData: any[] = []
+  let grandTotal = 0
+  Array.from(groups.keys()).sort().forEach(key => {
+    const [clinicName, month] = key.split('|')
+    const list = groups.get(key)!.sort((a, b) => a.issued_date!.localeCompare(b.issued_date!))
+    let subtotal = 0
+    list.forEach(r => {
+      subtotal += r.amount
+      tableData.push([
+        clinicName,
+        toDisplayDate(r.issued_date),
+        r.patient_id,
+        r.refund_method ? REFUND_METHOD_LABELS[r.refund_method] : '',
+        r.reference || '',
+        r.reason,
+        formatCurrency(r.amount),
+      ])
+    })
+    grandTotal += subtotal
+    tableData.push([
+      { content: `${clinicName} — ${month} (${list.length} refund${list.length === 1 ? '' : 's'})`, colSpan: 6, styles: { fontStyle: 'bold' } },
+      { content: formatCurrency(subtotal), styles: { fontStyle: 'bold' } },
+    ])
+  })
+
+  doc.text(`Refunds issued: ${formatCurrency(grandTotal)}`, 14, 38)
+
+  autoTable(doc, {
+    head: [['Clinic', 'Issued', 'Patient ID', 'Method', 'Reference', 'Reason', 'Amount']],
+    body: tableData,
+    startY: 46,
+  })
+
+  return doc
+}
+
 export async function generateLaborReport(
   timecards: Timecard[],
   users: User[],
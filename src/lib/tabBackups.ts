@@ -154,6 +154,41 @@ function parseCoinsuranceFromCsv(v: unknown): number | null {
   return Number.isNaN(n) ? null : n
 }
 
+export type PatientCsvField =
+  | 'patient_id'
+  | 'first_name'
+  | 'last_name'
+  | 'insurance'
+  | 'copay'
+  | 'coinsurance'
+  | 'subscriber_id'
+  | 'date_of_birth'
+  | 'phone'
+  | 'email'
+  | 'address'
+
+/** Lower-cased CSV headers accepted per Patient field: Patients tab display headers first, then DB column names. */
+export const PATIENT_HEADER_ALIASES: Record<PatientCsvField, string[]> = {
+  patient_id: ['patient id', 'patient_id'],
+  first_name: ['patient first', 'first_name'],
+  last_name: ['patient last', 'last_name'],
+  insurance: ['insurance'],
+  copay: ['copay'],
+  coinsurance: ['coinsurance'],
+  subscriber_id: ['subscriber_id'],
+  date_of_birth: ['date_of_birth'],
+  phone: ['phone'],
+  email: ['email'],
+  address: ['address'],
+}
+
+function patientCsvValue(row: Record<string, unknown>, field: PatientCsvField): unknown {
+  for (const alias of PATIENT_HEADER_ALIASES[field]) {
+    if (row[alias] != null) return row[alias]
+  }
+  return null
+}
+
 /** Fetch patients backup CSV and parse into Patient[]. Supports both legacy (DB columns) and display-format CSV (Patient ID, Copay as $, Coinsurance as %). */
 export async function fetchBackupCsvAsPatients(
   supabase: SupabaseClient,
@@ -177,12 +212,12 @@ export async function fetchBackupCsvAsPatients(
       row[h] = v === '' || v == null ? null : v
     })
     // Support display headers ("patient id", "patient first", …) and legacy ("patient_id", …)
-    const patientId = (row['patient id'] ?? row.patient_id ?? '') as string
-    const firstName = (row['patient first'] ?? row.first_name ?? '') as string
-    const lastName = (row['patient last'] ?? row.last_name ?? '') as string
-    const insurance = (row.insurance ?? null) as string | null
-    const copay = parseCopayFromCsv(row['copay'] ?? row.copay)
-    const coinsurance = parseCoinsuranceFromCsv(row['coinsurance'] ?? row.coinsurance)
+    const patientId = (patientCsvValue(row, 'patient_id') ?? '') as string
+    const firstName = (patientCsvValue(row, 'first_name') ?? '') as string
+    const lastName = (patientCsvValue(row, 'last_name') ?? '') as string
+    const insurance = patientCsvValue(row, 'insurance') as string | null
+    const copay = parseCopayFromCsv(patientCsvValue(row, 'copay'))
+    const coinsurance = parseCoinsuranceFromCsv(patientCsvValue(row, 'coinsurance'))
     const id = (row.id as string) || `backup-patient-${i}`
     const clinic_id = (row.clinic_id as string) ?? clinicId ?? ''
     list.push({
@@ -191,14 +226,14 @@ export async function fetchBackupCsvAsPatients(
       patient_id: patientId ?? '',
       first_name: firstName ?? '',
       last_name: lastName ?? '',
-      subscriber_id: (row.subscriber_id as string) ?? null,
+      subscriber_id: (patientCsvValue(row, 'subscriber_id') as string) ?? null,
       insurance: insurance ?? null,
       copay: copay ?? null,
       coinsurance: coinsurance ?? null,
-      date_of_birth: (row.date_of_birth as string) ?? null,
-      phone: (row.phone as string) ?? null,
-      email: (row.email as string) ?? null,
-      address: (row.address as string) ?? null,
+      date_of_birth: (patientCsvValue(row, 'date_of_birth') as string) ?? null,
+      phone: (patientCsvValue(row, 'phone') as string) ?? null,
+      email: (patientCsvValue(row, 'email') as string) ?? null,
+      address: (patientCsvValue(row, 'address') as string) ?? null,
       created_at: (row.created_at as string) ?? iso,
       updated_at: (row.updated_at as string) ?? iso,
     })
@@ -0,0 +1,124 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Clinic, Patient, Payer, ProviderSheet, SheetRow } from '@/types'
+import { fetchClinicSheetRows, NO_CHARGE_APPOINTMENT_STATUSES } from '@/lib/providerSheetRows'
+import { fetchPayers, findPayer } from '@/lib/payers'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { toDisplayDate, toIsoDate, todayIso, addDaysIso, daysBetween } from '@/lib/utils'
+
+export const DEFAULT_TIMELY_FILING_DAYS = 90
+export const DEFAULT_TIMELY_FILING_ALERT_DAYS = 14
+/** todo_lists.source for items created by syncTimelyFilingTodos. */
+export const TIMELY_FILING_TODO_SOURCE = 'timely_filing'
+/** How far back provider sheets are scanned; longest common payer limit is one year. */
+const LOOKBACK_MONTHS = 24
+
+/** Claim statuses that still need a claim filed or followed up. */
+const AWAITING_CLAIM_STATUSES = new Set(['', 'Claim Sent', 'IP'])
+
+export type TimelyFilingStatus = 'overdue' | 'due_soon' | 'ok'
+
+export interface TimelyFilingItem {
+  row: SheetRow
+  sheet: ProviderSheet
+  patient: Patient | undefined
+  payer: Payer | null
+  insurance: string
+  /** Filing limit in days: payer's, else the clinic default. */
+  filingDays: number
+  /** YYYY-MM-DD */
+  dateOfService: string
+  /** YYYY-MM-DD */
+  deadline: string
+  /** Negative once the deadline has passed. */
+  daysLeft: number
+  status: TimelyFilingStatus
+}
+
+/** Visit has a date of service and its claim is unbilled or still waiting on the payer. */
+export function isAwaitingFiling(row: SheetRow): boolean {
+  if (!toIsoDate(row.appointment_date)) return false
+  if (row.appointment_status && NO_CHARGE_APPOINTMENT_STATUSES.has(row.appointment_status)) return false
+  return AWAITING_CLAIM_STATUSES.has(row.claim_status ?? '')
+}
+
+/** Filing deadline per awaiting row, soonest first. */
+export function computeTimelyFiling(
+  candidates: Array<{ row: SheetRow; sheet: ProviderSheet }>,
+  context: { patients: Patient[]; payers: Payer[]; clinic: Clinic | null; today?: string }
+): TimelyFilingItem[] {
+  const today = context.today ?? todayIso()
+  const clinicDays = context.clinic?.timely_filing_days ?? DEFAULT_TIMELY_FILING_DAYS
+  const alertDays = context.clinic?.timely_filing_alert_days ?? DEFAULT_TIMELY_FILING_ALERT_DAYS
+  const patientsByKey = new Map<string, Patient>()
+  context.patients.forEach((p) => patientsByKey.set(normalizePatientIdKey(p.patient_id), p))
+
+  const items: TimelyFilingItem[] = []
+  candidates.forEach(({ row, sheet }) => {
+    if (!isAwaitingFiling(row)) return
+    const dateOfService = toIsoDate(row.appointment_date)!
+    const patient = row.patient_id ? patientsByKey.get(normalizePatientIdKey(row.patient_id)) : undefined
+    const insurance = (patient?.insurance ?? row.patient_insurance ?? '').trim()
+    const payer = findPayer(insurance, context.payers)
+    const filingDays = payer?.timely_filing_days ?? clinicDays
+    const deadline = addDaysIso(dateOfService, filingDays)
+    const daysLeft = daysBetween(today, deadline)
+    const status: TimelyFilingStatus = daysLeft < 0 ? 'overdue' : daysLeft <= alertDays ? 'due_soon' : 'ok'
+    items.push({ row, sheet, patient, payer, insurance, filingDays, dateOfService, deadline, daysLeft, status })
+  })
+  return items.sort((a, b) => a.deadline.localeCompare(b.deadline))
+}
+
+/** Loads the clinic's unbilled and awaiting-payer rows from the last LOOKBACK_MONTHS and computes deadlines. */
+export async function fetchTimelyFilingItems(supabase: SupabaseClient, clinicId: string): Promise<TimelyFilingItem[]> {
+  const [clinicResult, patientsResult, payers, candidates] = await Promise.all([
+    supabase.from('clinics').select('*').eq('id', clinicId).single(),
+    supabase.from('patients').select('*').eq('clinic_id', clinicId),
+    fetchPayers(supabase),
+    fetchClinicSheetRows(supabase, clinicId, LOOKBACK_MONTHS, { claimStatuses: [...AWAITING_CLAIM_STATUSES] }),
+  ])
+  if (clinicResult.error) throw clinicResult.error
+  if (patientsResult.error) throw patientsResult.error
+  return computeTimelyFiling(candidates, {
+    patients: (patientsResult.data || []) as Patient[],
+    payers,
+    clinic: clinicResult.data as Clinic,
+  })
+}
+
+/**
+ * Creates a Billing To-Do item for each overdue / due-soon row that does not have one yet.
+ * Returns how many rows were submitted (existing items are left untouched).
+ */
+export async function syncTimelyFilingTodos(
+  supabase: SupabaseClient,
+  clinicId: string,
+  items: TimelyFilingItem[],
+  userId: string
+): Promise<number> {
+  const atRisk = items.filter((i) => i.status !== 'ok')
+  if (atRisk.length === 0) return 0
+  const { data: existing, error: existingError } = await supabase
+    .from('todo_lists')
+    .select('provider_sheet_row_id')
+    .eq('clinic_id', clinicId)
+    .eq('source', TIMELY_FILING_TODO_SOURCE)
+  if (existingError) throw existingError
+  const existingRowIds = new Set((existing || []).map((t: { provider_sheet_row_id: string | null }) => t.provider_sheet_row_id))
+  const payload = atRisk
+    .filter((i) => !existingRowIds.has(i.row.id))
+    .map((i) => ({
+      clinic_id: clinicId,
+      status: 'New',
+      issue: `Timely filing ${i.status === 'overdue' ? 'deadline passed' : 'due'} ${toDisplayDate(i.deadline)}: ${i.row.patient_id ?? 'No patient ID'} DOS ${toDisplayDate(i.dateOfService)}`,
+      notes: `${i.insurance || 'No insurance'} · ${i.filingDays}-day limit · Claim status: ${i.row.claim_status || 'not billed'}`,
+      created_by: userId,
+      provider_sheet_row_id: i.row.id,
+      source: TIMELY_FILING_TODO_SOURCE,
+    }))
+  if (payload.length === 0) return 0
+  const { error } = await supabase
+    .from('todo_lists')
+    .upsert(payload, { onConflict: 'provider_sheet_row_id,source', ignoreDuplicates: true })
+  if (error) throw error
+  return payload.length
+}
@@ -57,6 +57,30 @@ export function toDisplayDate(value: string | null | undefined): string {
   return `${mm}-${dd}-${yy}`
 }
 
+/** Date text (YYYY-MM-DD, MM-DD-YY, M/D/YYYY) as YYYY-MM-DD, or null. */
+export function toIsoDate(value: string | null | undefined): string | null {
+  const parsed = parseDateOfServiceInput(String(value ?? '').trim().replace(/\//g, '-'))
+  return parsed && /^\d{4}-\d{2}-\d{2}$/.test(parsed) ? parsed : null
+}
+
+/** Today's local date as YYYY-MM-DD. */
+export function todayIso(): string {
+  return new Date().toLocaleDateString('en-CA')
+}
+
+/** YYYY-MM-DD moved by `days` (negative goes back). */
+export function addDaysIso(iso: string, days: number): string {
+  const [y, m, d] = iso.split('-').map(Number)
+  return new Date(y, m - 1, d + days).toLocaleDateString('en-CA')
+}
+
+/** Whole days from one YYYY-MM-DD to another; negative when `toIso` is earlier. */
+export function daysBetween(fromIso: string, toIso: string): number {
+  const [fy, fm, fd] = fromIso.split('-').map(Number)
+  const [ty, tm, td] = toIso.split('-').map(Number)
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000)
+}
+
 /**
  * Format raw input (digits + optional dashes) as MM-DD-YY while typing.
  * e.g. "03", "031", "0311", "03112", "031125" -> "03", "03-1", "03-11", "03-11-2", "03-11-25"
@@ -121,3 +145,15 @@ export function toStoredString(value: string | null | undefined): string | null
   if (value === '' || value === 'null') return null
   return value ?? null
 }
+
+/** Money cell value ("$1,234.50", "12", null) as a number; blanks are 0. */
+export function parseAmount(value: unknown): number {
+  if (value == null || value === '' || value === 'null') return 0
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/[$,\s]/g, ''))
+  return Number.isFinite(n) ? n : 0
+}
+
+/** Round a dollar amount to cents. */
+export function roundMoney(n: number): number {
+  return Math.round(n * 100) / 100
+}
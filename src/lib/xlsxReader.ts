@@ -0,0 +1,115 @@
+/**
+ * Minimal XLSX reader: returns the first worksheet as rows of cell text. An .xlsx file is a zip of XML parts; entries are
+ * inflated with the browser's DecompressionStream and parsed with DOMParser, so no spreadsheet library is needed for
+ * the plain tabular exports EHRs produce. Numeric cells come back as their stored value (dates as Excel serial numbers).
+ */
+
+interface ZipEntry {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let eocd = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid XLSX file')
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries = new Map<string, ZipEntry>()
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Corrupt XLSX directory')
+    const method = view.getUint16(offset + 10, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localHeaderOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    entries.set(name, { method, compressedSize, localHeaderOffset })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+async function readZipText(bytes: Uint8Array, entries: Map<string, ZipEntry>, name: string): Promise<string | null> {
+  const entry = entries.get(name)
+  if (!entry) return null
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const start = entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true)
+  const data = bytes.slice(start, start + entry.compressedSize)
+  if (entry.method === 0) return new TextDecoder().decode(data)
+  if (entry.method !== 8) throw new Error(`Unsupported XLSX compression (${entry.method})`)
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+/** Zero-based column index from a cell reference such as "AB12". */
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/\d+$/, '')
+  let n = 0
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64)
+  return n - 1
+}
+
+/** Path of the first worksheet in workbook order, falling back to sheet1.xml. */
+async function firstSheetPath(bytes: Uint8Array, entries: Map<string, ZipEntry>): Promise<string> {
+  const workbook = await readZipText(bytes, entries, 'xl/workbook.xml')
+  const rels = await readZipText(bytes, entries, 'xl/_rels/workbook.xml.rels')
+  if (workbook && rels) {
+    const sheet = parseXml(workbook).getElementsByTagName('sheet')[0]
+    const relId = sheet?.getAttribute('r:id')
+    const rel = Array.from(parseXml(rels).getElementsByTagName('Relationship')).find((r) => r.getAttribute('Id') === relId)
+    const target = rel?.getAttribute('Target')
+    if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`
+  }
+  return 'xl/worksheets/sheet1.xml'
+}
+
+export async function readXlsxRows(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer)
+  const entries = readZipDirectory(bytes)
+
+  const sharedStrings: string[] = []
+  const sharedXml = await readZipText(bytes, entries, 'xl/sharedStrings.xml')
+  if (sharedXml) {
+    Array.from(parseXml(sharedXml).getElementsByTagName('si')).forEach((si) => {
+      sharedStrings.push(Array.from(si.getElementsByTagName('t')).map((t) => t.textContent ?? '').join(''))
+    })
+  }
+
+  const sheetXml = await readZipText(bytes, entries, await firstSheetPath(bytes, entries))
+  if (!sheetXml) throw new Error('XLSX file has no worksheet')
+
+  const rows: string[][] = []
+  Array.from(parseXml(sheetXml).getElementsByTagName('row')).forEach((rowEl) => {
+    const cells: string[] = []
+    Array.from(rowEl.getElementsByTagName('c')).forEach((c, i) => {
+      const ref = c.getAttribute('r')
+      const col = ref ? columnIndex(ref) : i
+      const type = c.getAttribute('t')
+      let text = ''
+      if (type === 'inlineStr') {
+        text = Array.from(c.getElementsByTagName('t')).map((t) => t.textContent ?? '').join('')
+      } else {
+        const v = c.getElementsByTagName('v')[0]?.textContent ?? ''
+        text = type === 's' ? sharedStrings[Number(v)] ?? '' : type === 'b' ? (v === '1' ? 'TRUE' : 'FALSE') : v
+      }
+      while (cells.length < col) cells.push('')
+      cells[col] = text
+    })
+    if (cells.some((v) => v.trim() !== '')) rows.push(cells)
+  })
+  return rows
+}
@@ -4,6 +4,8 @@ import { useParams, useNavigate, useLocation } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { fetchSheetRows, saveSheetRows } from '@/lib/providerSheetRows'
 import { enrichSheetRowsFromPatients, applyCoPatientSnapshotToSheetRows } from '@/lib/enrichProviderSheetRowsFromPatients'
+import { fetchPatientCoverages } from '@/lib/coordinationOfBenefits'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
 import { fetchBackupCsvAsSheetRows, padSheetRowsTo200 } from '@/lib/providerSheetBackups'
 import BackupVersionsBar, { type BackupVersionMeta } from '@/components/BackupVersionsBar'
 import {
@@ -13,17 +15,24 @@ import {
   padARTo200,
   padPatientsTo500,
 } from '@/lib/tabBackups'
-import { Patient, ProviderSheet, SheetRow, Clinic, Provider, BillingCode, StatusColor, ColumnLock, IsLockPatients, IsLockBillingTodo, IsLockProviders, IsLockAccountsReceivable, AccountsReceivable } from '@/types'
+import { Patient, PatientCoverage, ProviderSheet, SheetRow, Clinic, Provider, BillingCode, StatusColor, ColumnLock, IsLockPatients, IsLockBillingTodo, IsLockProviders, IsLockAccountsReceivable, AccountsReceivable } from '@/types'
 import { useAuth } from '@/contexts/AuthContext'
-import { Users, CheckSquare, FileText, Trash2, Lock, Unlock, Download, Columns, DollarSign } from 'lucide-react'
+import { Users, CheckSquare, FileText, Trash2, Lock, Unlock, Download, Columns, DollarSign, Receipt, Clock, ShieldX, Mail, SearchCheck, Undo2, Gavel } from 'lucide-react'
 import { useDebouncedSave } from '@/lib/useDebouncedSave'
 import PatientsTab from '@/components/tabs/PatientsTab'
 import BillingTodoTab from '@/components/tabs/BillingTodoTab'
 import ProvidersTab from '@/components/tabs/ProvidersTab'
 import AccountsReceivableTab from '@/components/tabs/AccountsReceivableTab'
 import ProviderPayTab, { type IsLockProviderPay } from '@/components/tabs/ProviderPayTab'
+import EraPostingTab from '@/components/tabs/EraPostingTab'
+import TimelyFilingTab from '@/components/tabs/TimelyFilingTab'
+import DenialsTab from '@/components/tabs/DenialsTab'
+import StatementsTab from '@/components/tabs/StatementsTab'
+import RefundsTab from '@/components/tabs/RefundsTab'
+import CollectionsTab from '@/components/tabs/CollectionsTab'
+import ClaimStatusTab from '@/components/tabs/ClaimStatusTab'
 
-type TabType = 'patients' | 'todo' | 'providers' | 'accounts_receivable' | 'provider_pay'
+type TabType = 'patients' | 'todo' | 'providers' | 'accounts_receivable' | 'provider_pay' | 'era_posting' | 'timely_filing' | 'denials' | 'statements' | 'refunds' | 'collections' | 'claim_status'
 
 /** Pre-migration `is_lock_providers` rows use this month_key; first open of a calendar month clones them into that month. */
 const IS_LOCK_PROVIDERS_LEGACY_MONTH_KEY = 'legacy'
@@ -83,6 +92,8 @@ export default function ClinicDetail() {
   // Patients data - still needed for Providers tab (patient dropdown)
   const [patients, setPatients] = useState<Patient[]>([])
   const patientsRef = useRef<Patient[]>([])
+  /** Clinic coverage history; sheet Insurance cells follow the plan active on each row's date of service. */
+  const patientCoveragesRef = useRef<PatientCoverage[]>([])
 
   // Providers data - editable provider records from providers table
   const [providers, setProviders] = useState<Provider[]>([])
@@ -230,9 +241,11 @@ export default function ClinicDetail() {
       setActiveTab('providers')
     } else if (isProvidersRoute) {
       setActiveTab('providers')
-    } else if (tab && ['patients', 'todo', 'providers', 'accounts_receivable', 'provider_pay'].includes(tab)) {
+    } else if (tab && ['patients', 'todo', 'providers', 'accounts_receivable', 'provider_pay', 'era_posting', 'timely_filing', 'denials', 'statements', 'refunds', 'collections', 'claim_status'].includes(tab)) {
       if (isOfficialStaff && tab !== 'todo' && tab !== 'providers') {
         navigate(`/clinic/${clinicId}/todo`, { replace: true })
+      } else if (isOfficeStaff && (tab === 'era_posting' || tab === 'timely_filing' || tab === 'denials' || tab === 'statements' || tab === 'refunds' || tab === 'collections' || tab === 'claim_status')) {
+        navigate(`/clinic/${clinicId}/providers`, { replace: true })
       } else if (tab === 'todo' && userProfile?.role === 'admin') {
         navigate(`/clinic/${clinicId}/providers`, { replace: true })
       } else if (isBillingStaff && (tab === 'accounts_receivable' || tab === 'provider_pay')) {
@@ -249,7 +262,7 @@ export default function ClinicDetail() {
         navigate(`/clinic/${clinicId}/todo`, { replace: true })
       }
     }
-  }, [tab, clinicId, navigate, providerId, isProvidersRoute, userProfile?.role, isBillingStaff, isOfficialStaff, loading])
+  }, [tab, clinicId, navigate, providerId, isProvidersRoute, userProfile?.role, isBillingStaff, isOfficialStaff, isOfficeStaff, loading])
 
   // Remember provider when viewing a provider's sheet so Billing tab can return to it (persist in sessionStorage so it survives switching to another tab, which mounts a different route/instance)
   const lastProviderStorageKey = clinicId ? `clinic_${clinicId}_lastProviderId` : null
@@ -1382,6 +1395,17 @@ export default function ClinicDetail() {
     ]
   }
 
+  /** Coverage history for sheet enrichment; keeps the last list when the fetch fails so Insurance cells stay stable. */
+  const loadPatientCoverages = useCallback(async (): Promise<PatientCoverage[]> => {
+    if (!clinicId) return []
+    try {
+      return await fetchPatientCoverages(supabase, clinicId)
+    } catch (error) {
+      console.error('Error fetching patient coverages:', error)
+      return patientCoveragesRef.current
+    }
+  }, [clinicId])
+
   // Simplified fetchPatients - only needed for Providers tab patient dropdown
   const fetchPatients = useCallback(async (): Promise<Patient[] | undefined> => {
     if (!clinicId) return undefined
@@ -1394,6 +1418,7 @@ export default function ClinicDetail() {
 
       if (error) throw error
       const fetchedPatients = data || []
+      patientCoveragesRef.current = await loadPatientCoverages()
       setPatients(fetchedPatients)
       setPatientAssignmentRevision((r) => r + 1)
       return fetchedPatients
@@ -1401,7 +1426,7 @@ export default function ClinicDetail() {
       console.error('Error fetching patients:', error)
       return undefined
     }
-  }, [clinicId, selectedMonthKey])
+  }, [clinicId, selectedMonthKey, loadPatientCoverages])
 
   /** After Patient Info saves, refresh co-patient snapshot into all provider sheets for the selected month. */
   const handlePatientsCreated = useCallback(async (_changedPatients: Patient[]) => {
@@ -1411,13 +1436,55 @@ export default function ClinicDetail() {
       const month = prev[selectedMonthKey] ?? {}
       const next: Record<string, SheetRow[]> = {}
       for (const [pid, rows] of Object.entries(month)) {
-        next[pid] = applyCoPatientSnapshotToSheetRows(rows, freshPatients)
+        next[pid] = applyCoPatientSnapshotToSheetRows(rows, freshPatients, patientCoveragesRef.current)
       }
       return { ...prev, [selectedMonthKey]: next }
     })
     setProviderRowsVersion((v) => v + 1)
   }, [fetchPatients, selectedMonthKey])
 
+  /** After a patient merge, point cached provider sheet rows at the survivor so a later save does not write the old ID back. */
+  const handlePatientsMerged = useCallback(async (survivor: Patient, merged: Patient) => {
+    const mergedKey = normalizePatientIdKey(merged.patient_id)
+    setProviderSheetRowsByMonth((prev) => {
+      const next: Record<string, Record<string, SheetRow[]>> = {}
+      for (const [monthKey, byProvider] of Object.entries(prev)) {
+        const month: Record<string, SheetRow[]> = {}
+        for (const [pid, rows] of Object.entries(byProvider)) {
+          month[pid] = rows.map((row) =>
+            row.patient_id && normalizePatientIdKey(row.patient_id) === mergedKey ? { ...row, patient_id: survivor.patient_id } : row
+          )
+        }
+        next[monthKey] = month
+      }
+      return next
+    })
+    await handlePatientsCreated([])
+  }, [handlePatientsCreated])
+
+  /**
+   * After a bulk import, the edge function has appended rows server-side for monthKey. Refetch that month when it is on
+   * screen, otherwise drop its cache so a later save of stale rows does not delete the new ones.
+   */
+  const handlePatientsImported = useCallback(async (_inserted: Patient[], monthKey: string | null) => {
+    if (monthKey === selectedMonthKey) {
+      await fetchPatients()
+      await fetchProviderSheets(monthKey, false)
+      return
+    }
+    if (monthKey) {
+      setProviderSheetRowsByMonth((prev) => {
+        const { [monthKey]: _dropped, ...rest } = prev
+        return rest
+      })
+      setProviderSheetsByMonth((prev) => {
+        const { [monthKey]: _dropped, ...rest } = prev
+        return rest
+      })
+    }
+    await handlePatientsCreated([])
+  }, [fetchPatients, handlePatientsCreated, selectedMonthKey])
+
   // Removed unused functions: savePatients, handleUpdatePatient, handleAddPatientRow, handleDeletePatient
   // These are now handled by PatientsTab component
   
@@ -1572,7 +1639,8 @@ export default function ClinicDetail() {
       if (sheet) {
         sheetRows = await fetchSheetRows(supabase, sheet.id)
         const { data: clinicPatients } = await supabase.from('patients').select('*').eq('clinic_id', clinicId)
-        sheetRows = enrichSheetRowsFromPatients(sheetRows, (clinicPatients || []) as Patient[])
+        patientCoveragesRef.current = await loadPatientCoverages()
+        sheetRows = enrichSheetRowsFromPatients(sheetRows, (clinicPatients || []) as Patient[], patientCoveragesRef.current)
 
         sheetRows.forEach((row: SheetRow) => {
           rows.push({
@@ -1786,6 +1854,7 @@ export default function ClinicDetail() {
 
       const { data: clinicPatientsForEnrich } = await supabase.from('patients').select('*').eq('clinic_id', clinicId)
       const clinicPatientsList = (clinicPatientsForEnrich || []) as Patient[]
+      patientCoveragesRef.current = await loadPatientCoverages()
 
       // Fetch or create provider sheets for all providers
       const sheetsMap: Record<string, ProviderSheet> = {}
@@ -1857,7 +1926,7 @@ export default function ClinicDetail() {
 
         sheetsMap[providerId] = sheet
         let sheetRows = await fetchSheetRows(supabase, sheet.id)
-        sheetRows = enrichSheetRowsFromPatients(sheetRows, clinicPatientsList)
+        sheetRows = enrichSheetRowsFromPatients(sheetRows, clinicPatientsList, patientCoveragesRef.current)
 
         // Add empty rows to reach 200 total rows per provider
         const createEmptyProviderSheetRow = (index: number): SheetRow => ({
@@ -2072,7 +2141,7 @@ export default function ClinicDetail() {
         if (freshPatients) {
           const merged: Record<string, SheetRow[]> = {}
           for (const [pid, rws] of Object.entries(nextMonthRows)) {
-            merged[pid] = applyCoPatientSnapshotToSheetRows(rws, freshPatients)
+            merged[pid] = applyCoPatientSnapshotToSheetRows(rws, freshPatients, patientCoveragesRef.current)
           }
           nextMonthRows = merged
         }
@@ -2601,6 +2670,12 @@ export default function ClinicDetail() {
     saveProviderSheetRows(providerId, newRows).catch(err => console.error('Failed to persist provider row order', err))
   }, [providerSheetRows, saveProviderSheetRows, selectedMonthKey])
 
+  /** Rows were written outside the Providers grid (e.g. ERA posting); drop cached months so the next visit refetches. */
+  const handleProviderSheetRowsPostedExternally = useCallback(() => {
+    lastProviderSheetContextRef.current = null
+    setProviderSheetRowsByMonth({})
+  }, [])
+
   const handleTabChange = (tab: TabType) => {
     if (splitScreen) {
       // In split screen mode, update the appropriate side
@@ -2699,6 +2774,9 @@ export default function ClinicDetail() {
               clinicId={clinicId!}
               canEdit={canEdit && !backupOverridePatients}
               onPatientsCreated={handlePatientsCreated}
+              onPatientsMerged={handlePatientsMerged}
+              onPatientsImported={handlePatientsImported}
+              providerSheetMonthKey={selectedMonthKey}
             isInSplitScreen={!!splitScreen}
             isLockPatients={isLockPatients}
             onLockColumn={canLockColumns ? (columnName: string) => {
@@ -2982,6 +3060,57 @@ export default function ClinicDetail() {
           </>
         )
       }
+      case 'era_posting':
+        return (
+          <EraPostingTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+            onSheetRowsPosted={handleProviderSheetRowsPostedExternally}
+          />
+        )
+      case 'claim_status':
+        return (
+          <ClaimStatusTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+            onSheetRowsPosted={handleProviderSheetRowsPostedExternally}
+          />
+        )
+      case 'timely_filing':
+        return (
+          <TimelyFilingTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+          />
+        )
+      case 'denials':
+        return (
+          <DenialsTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+          />
+        )
+      case 'statements':
+        return (
+          <StatementsTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+          />
+        )
+      case 'refunds':
+        return (
+          <RefundsTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+          />
+        )
+      case 'collections':
+        return (
+          <CollectionsTab
+            clinicId={clinicId!}
+            canEdit={canPostEra}
+          />
+        )
       default:
         return null
     }
@@ -3004,6 +3133,8 @@ export default function ClinicDetail() {
   const showProviderPayTab =
     !isBillingStaff && !isOfficeStaff && !hideFinanceTabsForTopLevel
   const showProvidersTab = !hideFinanceTabsForTopLevel
+  const showEraPostingTab = !isOfficeStaff && !isOfficialStaff && !hideFinanceTabsForTopLevel
+  const canPostEra = userProfile?.role === 'super_admin' || userProfile?.role === 'admin' || userProfile?.role === 'billing_staff'
   /** Official staff and office staff can edit only patient_id through date_of_service on the provider sheet; other columns read-only */
   const restrictProviderSheetEditToScheduling = isOfficialStaff || isOfficeStaff
 
@@ -3059,7 +3190,7 @@ export default function ClinicDetail() {
     return next
   }
   const getTabLabel = (tab: TabType) =>
-    tab === 'patients' ? 'Patient Info' : tab === 'todo' ? 'Billing To-Do' : tab === 'providers' ? 'Providers' : tab === 'provider_pay' ? 'Provider Pay' : 'Accounts Receivable'
+    tab === 'patients' ? 'Patient Info' : tab === 'todo' ? 'Billing To-Do' : tab === 'providers' ? 'Providers' : tab === 'provider_pay' ? 'Provider Pay' : tab === 'era_posting' ? 'ERA Posting' : tab === 'claim_status' ? 'Claim Status' : tab === 'timely_filing' ? 'Timely Filing' : tab === 'denials' ? 'Denials' : tab === 'statements' ? 'Statements' : tab === 'refunds' ? 'Refunds' : tab === 'collections' ? 'Collections' : 'Accounts Receivable'
 
   // Open split screen: provider billing sheet on the left, current tab (or next) on the right
   const openSplitScreen = () => {
@@ -3235,6 +3366,97 @@ export default function ClinicDetail() {
             Billing
           </button>
           )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('era_posting')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'era_posting'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <Receipt size={18} />
+            ERA Posting
+          </button>
+          )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('claim_status')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'claim_status'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <SearchCheck size={18} />
+            Claim Status
+          </button>
+          )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('timely_filing')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'timely_filing'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <Clock size={18} />
+            Timely Filing
+          </button>
+          )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('denials')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'denials'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <ShieldX size={18} />
+            Denials
+          </button>
+          )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('statements')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'statements'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <Mail size={18} />
+            Statements
+          </button>
+          )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('refunds')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'refunds'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <Undo2 size={18} />
+            Refunds
+          </button>
+          )}
+          {showEraPostingTab && (
+          <button
+            onClick={() => handleTabChange('collections')}
+            className={`px-6 py-3 font-medium transition-colors flex items-center gap-2 ${
+              activeTab === 'collections'
+                ? 'text-primary-400 border-b-2 border-primary-400'
+                : 'text-white/70 hover:text-white'
+            }`}
+          >
+            <Gavel size={18} />
+            Collections
+          </button>
+          )}
           {showAccountsReceivableTab && (
           <button
             onClick={() => handleTabChange('accounts_receivable')}
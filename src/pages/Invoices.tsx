@@ -6,6 +6,7 @@ import { useAuth } from '@/contexts/AuthContext'
 import { formatCurrency, formatDate } from '@/lib/utils'
 import { generateClinicInvoicePdf } from '@/lib/clinicInvoicePdf'
 import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import { fetchIssuedRefundTotals } from '@/lib/refunds'
 import { Download } from 'lucide-react'
 
 interface InvoiceRow {
@@ -31,6 +32,8 @@ interface ClinicInvoiceSummaryRow {
   patient_payment_total: number
   accounts_receivable_total: number
   additional_fee: number
+  /** Patient refunds issued during the month; subtracted from the total. */
+  refund_total: number
   total: number
   invoice_total: number
   invoice_rate: number | null
@@ -110,6 +113,7 @@ export default function Invoices() {
       const allClinics = allClinicsData || []
       const clinicIds = allClinics.map((c: { id: string }) => c.id)
       const clinicAddressesByClinic = clinicIds.length > 0 ? await fetchClinicAddressesByClinicIds(clinicIds) : {}
+      const refundTotals = await fetchIssuedRefundTotals(supabase, clinicIds, year, month)
       const { data: sheetsData, error: sheetsError } = await supabase
         .from('provider_sheets')
         .select('*')
@@ -166,7 +170,8 @@ export default function Invoices() {
         const patient = agg?.patient ?? 0
         const ar = agg?.ar ?? 0
         const additionalFee = additionalFeesMap[clinic.id] ?? 0
-        const total = insurance + patient + ar + additionalFee
+        const refundTotal = refundTotals[clinic.id] ?? 0
+        const total = insurance + patient + ar + additionalFee - refundTotal
         const rate = clinic.invoice_rate != null ? Number(clinic.invoice_rate) : 0
         const invoice_total = total * rate
         const paymentDate = agg?.paymentDates?.length
@@ -186,6 +191,7 @@ export default function Invoices() {
           patient_payment_total: patient,
           accounts_receivable_total: ar,
           additional_fee: additionalFee,
+          refund_total: refundTotal,
           total,
           invoice_total,
           invoice_rate: clinic.invoice_rate != null ? clinic.invoice_rate : null,
@@ -375,6 +381,7 @@ export default function Invoices() {
                         <th>PP Total</th>
                         <th>AR Total</th>
                         <th>Additional Fee</th>
+                        <th>Refunds</th>
                         <th>Total</th>
                         <th>Invoice Total</th>
                         <th>Payment Status</th>
@@ -386,7 +393,7 @@ export default function Invoices() {
                     <tbody>
                       {clinicSummaries.length === 0 ? (
                         <tr>
-                          <td colSpan={11} className="text-center text-white/70 py-8">
+                          <td colSpan={12} className="text-center text-white/70 py-8">
                             No data for this month
                           </td>
                         </tr>
@@ -398,6 +405,7 @@ export default function Invoices() {
                             <td>{formatCurrency(row.patient_payment_total)}</td>
                             <td>{formatCurrency(row.accounts_receivable_total)}</td>
                             <td>{formatCurrency(row.additional_fee)}</td>
+                            <td>{row.refund_total > 0 ? `-${formatCurrency(row.refund_total)}` : formatCurrency(0)}</td>
                             <td>{formatCurrency(row.total)}</td>
                             <td>{formatCurrency(row.invoice_total)}</td>
                             <td>
@@ -477,7 +485,7 @@ export default function Invoices() {
                           setClinicSummaries((prev) =>
                             prev.map((r) =>
                               r.clinic_id === selectedClinicForNote
-                                ? { ...r, additional_fee: additionalFee, total: r.insurance_payment_total + r.patient_payment_total + r.accounts_receivable_total + additionalFee }
+                                ? { ...r, additional_fee: additionalFee, total: r.insurance_payment_total + r.patient_payment_total + r.accounts_receivable_total + additionalFee - r.refund_total }
                                 : r
                             )
                           )
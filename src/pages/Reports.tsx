@@ -2,17 +2,22 @@ import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { fetchSheetRows } from '@/lib/providerSheetRows'
+import { fetchPostedAdjustmentTotals } from '@/lib/adjustments'
+import { fetchIssuedRefunds } from '@/lib/refunds'
 import { useAuth } from '@/contexts/AuthContext'
 import { Download, Loader } from 'lucide-react'
+import ArAgingPanel from '@/components/ArAgingPanel'
 import {
   generateProviderReport,
   generateClinicReport,
   generateClaimReport,
+  generateDenialReport,
   generatePatientInvoiceReport,
   generateLaborReport,
+  generateRefundRegisterReport,
   getDateRange,
 } from '@/lib/reports'
-import { ProviderSheet, Timecard, User, Clinic } from '@/types'
+import { ProviderSheet, Timecard, User, Clinic, Denial, PatientRefund } from '@/types'
 
 export default function Reports() {
   const { userProfile } = useAuth()
@@ -99,6 +104,11 @@ export default function Reports() {
         rowsBySheetId[sheet.id] = await fetchSheetRows(supabase, sheet.id)
       }))
 
+      // Posted write-offs / adjustments per row (sheet reports net them out of AR and balances)
+      const adjustmentTotals = reportType === 'labor'
+        ? new Map()
+        : await fetchPostedAdjustmentTotals(supabase, Array.from(new Set(sheets.map(sheet => sheet.clinic_id))))
+
       // Fetch timecards for labor report
       if (reportType === 'labor') {
         let timecardsQuery = supabase
@@ -127,20 +137,54 @@ export default function Reports() {
         }
       }
 
+      // Denial records for the denial-rate report (filtered to the period inside the report)
+      let denials: Denial[] = []
+      if (reportType === 'denial') {
+        let denialsQuery = supabase.from('denials').select('*')
+        if (selectedClinic) {
+          denialsQuery = denialsQuery.eq('clinic_id', selectedClinic)
+        } else if (userProfile.role !== 'super_admin' && userProfile.clinic_ids.length > 0) {
+          denialsQuery = denialsQuery.in('clinic_id', userProfile.clinic_ids)
+        }
+        const { data: denialsData, error: denialsError } = await denialsQuery
+        if (denialsError) throw denialsError
+        denials = denialsData || []
+      }
+
+      // Issued refunds for the register (by issue date, not date of service)
+      let refunds: PatientRefund[] = []
+      if (reportType === 'refund') {
+        const refundClinicIds = selectedClinic
+          ? [selectedClinic]
+          : userProfile.role === 'super_admin' ? clinicsData.map(c => c.id) : userProfile.clinic_ids
+        refunds = await fetchIssuedRefunds(
+          supabase,
+          refundClinicIds,
+          startDate.toISOString().split('T')[0],
+          endDate.toISOString().split('T')[0]
+        )
+      }
+
       let pdf: any
 
       switch (reportType) {
         case 'provider':
-          pdf = await generateProviderReport(sheets, users, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId)
+          pdf = await generateProviderReport(sheets, users, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId, adjustmentTotals)
           break
         case 'clinic':
-          pdf = await generateClinicReport(sheets, users, clinicsData, { startDate, endDate }, rowsBySheetId)
+          pdf = await generateClinicReport(sheets, users, clinicsData, { startDate, endDate }, rowsBySheetId, adjustmentTotals)
           break
         case 'claim':
-          pdf = await generateClaimReport(sheets, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId)
+          pdf = await generateClaimReport(sheets, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId, adjustmentTotals)
+          break
+        case 'denial':
+          pdf = await generateDenialReport(sheets, denials, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId, adjustmentTotals)
           break
         case 'patient':
-          pdf = await generatePatientInvoiceReport(sheets, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId)
+          pdf = await generatePatientInvoiceReport(sheets, { startDate, endDate, clinicId: selectedClinic }, rowsBySheetId, adjustmentTotals)
+          break
+        case 'refund':
+          pdf = await generateRefundRegisterReport(refunds, clinicsData, { startDate, endDate, clinicId: selectedClinic })
           break
         case 'labor':
           pdf = await generateLaborReport(timecards, users, { startDate, endDate })
@@ -162,7 +206,10 @@ export default function Reports() {
     { value: 'provider', label: 'By Provider' },
     { value: 'clinic', label: 'By Clinic' },
     { value: 'claim', label: 'By Claim' },
+    { value: 'denial', label: 'Denial Rate by Reason' },
+    { value: 'ar_aging', label: 'AR Aging' },
     { value: 'patient', label: 'By Patient Invoices' },
+    { value: 'refund', label: 'Refund Register' },
     { value: 'labor', label: 'By Labor' },
   ]
 
@@ -195,24 +242,26 @@ export default function Reports() {
             </select>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-white/90 mb-2">
-              Time Period
-            </label>
-            <select
-              value={timeFilter}
-              onChange={(e) => setTimeFilter(e.target.value)}
-              className="w-full px-4 py-2 border border-white/20 bg-white/10 backdrop-blur-sm text-white rounded-lg focus:ring-2 focus:ring-primary-500"
-            >
-              {timeFilters.map((filter) => (
-                <option key={filter.value} value={filter.value} className="bg-slate-900">
-                  {filter.label}
-                </option>
-              ))}
-            </select>
-          </div>
+          {reportType !== 'ar_aging' && (
+            <div>
+              <label className="block text-sm font-medium text-white/90 mb-2">
+                Time Period
+              </label>
+              <select
+                value={timeFilter}
+                onChange={(e) => setTimeFilter(e.target.value)}
+                className="w-full px-4 py-2 border border-white/20 bg-white/10 backdrop-blur-sm text-white rounded-lg focus:ring-2 focus:ring-primary-500"
+              >
+                {timeFilters.map((filter) => (
+                  <option key={filter.value} value={filter.value} className="bg-slate-900">
+                    {filter.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
 
-          {(reportType === 'provider' || reportType === 'claim' || reportType === 'patient') && clinics.length > 0 && (
+          {(reportType === 'provider' || reportType === 'claim' || reportType === 'denial' || reportType === 'patient' || reportType === 'refund' || reportType === 'ar_aging') && clinics.length > 0 && (
             <div className="md:col-span-2">
               <label className="block text-sm font-medium text-white/90 mb-2">
                 Clinic (optional)
@@ -231,23 +280,30 @@ export default function Reports() {
           )}
         </div>
 
-        <button
-          onClick={handleGenerateReport}
-          disabled={generating}
-          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {generating ? (
-            <>
-              <Loader className="animate-spin" size={20} />
-              Generating...
-            </>
-          ) : (
-            <>
-              <Download size={20} />
-              Generate & Download PDF
-            </>
-          )}
-        </button>
+        {reportType === 'ar_aging' ? (
+          <ArAgingPanel
+            clinicIds={selectedClinic ? [selectedClinic] : clinics.map(c => c.id)}
+            clinicLabel={clinics.find(c => c.id === selectedClinic)?.name ?? 'All Clinics'}
+          />
+        ) : (
+          <button
+            onClick={handleGenerateReport}
+            disabled={generating}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {generating ? (
+              <>
+                <Loader className="animate-spin" size={20} />
+                Generating...
+              </>
+            ) : (
+              <>
+                <Download size={20} />
+                Generate & Download PDF
+              </>
+            )}
+          </button>
+        )}
       </div>
     </div>
   )
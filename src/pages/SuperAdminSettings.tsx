@@ -3,10 +3,15 @@ import { useSearchParams, useLocation, useNavigate } from 'react-router-dom'
 import { supabase, createSupabaseClientForSignUp, createSupabaseClientWithStorageKey } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { User, BillingCode, Clinic, ProviderSheet, AuditLog, Provider } from '@/types'
-import { Users, Palette, FileText, Plus, Edit, Trash2, X, Unlock, Building2, Download, Link2, Check, Key, MapPin, Eye, EyeOff } from 'lucide-react'
+import { Users, Palette, FileText, Plus, Edit, Trash2, X, Unlock, Building2, Download, Link2, Check, Key, MapPin, Eye, EyeOff, Landmark, DollarSign, Calculator, Receipt } from 'lucide-react'
 import { formatDateTime } from '@/lib/utils'
 import { fetchClinicAddressesByClinicIds } from '@/lib/clinicAddresses'
+import { DEFAULT_TIMELY_FILING_DAYS, DEFAULT_TIMELY_FILING_ALERT_DAYS } from '@/lib/timelyFiling'
 import MonthCloseTab from '@/components/MonthCloseTab'
+import PayersTab from '@/components/PayersTab'
+import FeeSchedulesTab from '@/components/FeeSchedulesTab'
+import PayTemplatesTab from '@/components/PayTemplatesTab'
+import Form1099NecTab from '@/components/Form1099NecTab'
 
 /** Convert array of objects to CSV string (header row + data rows, values escaped). */
 function toCSV(rows: Record<string, unknown>[]): string {
@@ -26,7 +31,7 @@ function toCSV(rows: Record<string, unknown>[]): string {
   return [header, ...dataLines].join('\r\n')
 }
 
-type SettingsTabId = 'users' | 'billing-codes' | 'audit-logs' | 'unlock' | 'clinics' | 'export' | 'month-close' | 'change-password'
+type SettingsTabId = 'users' | 'billing-codes' | 'payers' | 'fee-schedules' | 'pay-templates' | '1099-nec' | 'audit-logs' | 'unlock' | 'clinics' | 'export' | 'month-close' | 'change-password'
 type Variant = 'super_admin' | 'admin'
 
 export default function SuperAdminSettings() {
@@ -108,13 +113,13 @@ export default function SuperAdminSettings() {
     const tab = (searchParams.get('tab') || 'users') as SettingsTabId
     const validForVariant: SettingsTabId[] =
       variant === 'super_admin'
-        ? ['users', 'billing-codes', 'clinics', 'export', 'audit-logs', 'unlock', 'change-password']
+        ? ['users', 'billing-codes', 'payers', 'fee-schedules', 'pay-templates', '1099-nec', 'clinics', 'export', 'audit-logs', 'unlock', 'change-password']
         : variant === 'admin'
           ? ['users', 'billing-codes', 'clinics', 'export', 'audit-logs', 'month-close']
           : ['users', 'billing-codes', 'clinics', 'export', 'audit-logs']
     if (validForVariant.includes(tab) && tab !== activeTab) {
       setActiveTab(tab)
-    } else if (variant === 'admin' && (tab === 'unlock' || tab === 'change-password')) {
+    } else if (variant === 'admin' && (tab === 'unlock' || tab === 'change-password' || tab === 'payers' || tab === 'fee-schedules' || tab === 'pay-templates' || tab === '1099-nec')) {
       setActiveTab('users')
       setSearchParams({ tab: 'users' })
     } else if (variant === 'super_admin' && tab === 'month-close') {
@@ -739,6 +744,8 @@ export default function SuperAdminSettings() {
             ein: clinicData.ein ?? editingClinic.ein ?? null,
             payroll: clinicData.payroll ?? editingClinic.payroll ?? 1,
             invoice_rate: clinicData.invoice_rate !== undefined ? clinicData.invoice_rate : editingClinic.invoice_rate ?? null,
+            timely_filing_days: clinicData.timely_filing_days !== undefined ? clinicData.timely_filing_days : editingClinic.timely_filing_days ?? null,
+            timely_filing_alert_days: clinicData.timely_filing_alert_days !== undefined ? clinicData.timely_filing_alert_days : editingClinic.timely_filing_alert_days ?? null,
             updated_at: new Date().toISOString(),
           })
           .eq('id', editingClinic.id)
@@ -755,6 +762,8 @@ export default function SuperAdminSettings() {
             ein: clinicData.ein ?? null,
             payroll: clinicData.payroll ?? 1,
             invoice_rate: clinicData.invoice_rate ?? null,
+            timely_filing_days: clinicData.timely_filing_days ?? null,
+            timely_filing_alert_days: clinicData.timely_filing_alert_days ?? null,
           })
 
         if (error) throw error
@@ -853,7 +862,7 @@ export default function SuperAdminSettings() {
   ]
   const tabs =
     variant === 'super_admin'
-      ? [...baseTabs, { id: 'unlock' as const, label: 'Locked Sheets', icon: Unlock }, { id: 'change-password' as const, label: 'Change Password', icon: Key }]
+      ? [...baseTabs, { id: 'payers' as const, label: 'Payers', icon: Landmark }, { id: 'fee-schedules' as const, label: 'Fee Schedules', icon: DollarSign }, { id: 'pay-templates' as const, label: 'Pay Templates', icon: Calculator }, { id: '1099-nec' as const, label: '1099-NEC', icon: Receipt }, { id: 'unlock' as const, label: 'Locked Sheets', icon: Unlock }, { id: 'change-password' as const, label: 'Change Password', icon: Key }]
       // : variant === 'admin'
       //   ? [...baseTabs, { id: 'month-close' as const, label: 'Month Close', icon: Calendar }]
         : baseTabs
@@ -1197,6 +1206,14 @@ export default function SuperAdminSettings() {
                 </div>
               )}
 
+              {activeTab === 'payers' && variant === 'super_admin' && <PayersTab />}
+
+              {activeTab === 'fee-schedules' && variant === 'super_admin' && <FeeSchedulesTab billingCodes={billingCodes} />}
+
+              {activeTab === 'pay-templates' && variant === 'super_admin' && <PayTemplatesTab />}
+
+              {activeTab === '1099-nec' && variant === 'super_admin' && <Form1099NecTab />}
+
               {activeTab === 'audit-logs' && (
                 <div>
                   <h2 className="text-xl font-semibold text-white mb-4">Audit Logs</h2>
@@ -2218,6 +2235,8 @@ function ClinicFormModal({
     ein: clinic?.ein ?? '',
     payroll: (clinic?.payroll ?? 1) as 1 | 2,
     invoice_rate: clinic?.invoice_rate != null ? (Math.round(clinic.invoice_rate * 10000) / 100).toFixed(2) : '',
+    timely_filing_days: clinic?.timely_filing_days != null ? String(clinic.timely_filing_days) : String(DEFAULT_TIMELY_FILING_DAYS),
+    timely_filing_alert_days: clinic?.timely_filing_alert_days != null ? String(clinic.timely_filing_alert_days) : String(DEFAULT_TIMELY_FILING_ALERT_DAYS),
   })
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -2227,6 +2246,8 @@ function ClinicFormModal({
       return
     }
     const rateNum = formData.invoice_rate.trim() ? parseFloat(formData.invoice_rate) : null
+    const filingDays = parseInt(formData.timely_filing_days, 10)
+    const alertDays = parseInt(formData.timely_filing_alert_days, 10)
     await onSave({
       name: formData.name.trim(),
       phone: formData.phone.trim() || null,
@@ -2235,6 +2256,8 @@ function ClinicFormModal({
       ein: formData.ein.trim() || null,
       payroll: formData.payroll,
       invoice_rate: rateNum != null && Number.isFinite(rateNum) ? rateNum / 100 : null,
+      timely_filing_days: Number.isFinite(filingDays) && filingDays > 0 ? filingDays : null,
+      timely_filing_alert_days: Number.isFinite(alertDays) && alertDays >= 0 ? alertDays : null,
     })
     onClose()
   }
@@ -2328,6 +2351,28 @@ function ClinicFormModal({
               />
               <p className="text-xs text-gray-500 mt-1">Used on Invoices page: Invoice Total = (Insurance + Patient + AR) × this rate. Leave empty for none.</p>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Timely filing limit (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={formData.timely_filing_days}
+                onChange={(e) => setFormData({ ...formData, timely_filing_days: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+              <p className="text-xs text-gray-500 mt-1">Used when the patient's payer has no timely filing limit.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Filing alert window (days)</label>
+              <input
+                type="number"
+                min={0}
+                value={formData.timely_filing_alert_days}
+                onChange={(e) => setFormData({ ...formData, timely_filing_alert_days: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-black"
+              />
+              <p className="text-xs text-gray-500 mt-1">Visits this close to their deadline are flagged due soon and added to Billing To-Do.</p>
+            </div>
           </div>
 
           <div className="flex justify-end gap-3 pt-6 mt-4 border-t border-gray-200">
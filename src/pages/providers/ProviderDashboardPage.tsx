@@ -1,10 +1,13 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
 import { Clinic, Provider } from '@/types'
-import { LayoutDashboard, Building2, Users } from 'lucide-react'
+import { LayoutDashboard, Building2, Users, DollarSign, Download, FileText } from 'lucide-react'
 import ClinicCard, { ClinicCardStats } from '@/components/ClinicCard'
+import { fetchProviderPayStatements, fetchProviderYtdEarnings, type ProviderYtdEarnings } from '@/lib/providerPayStatements'
+import { generateProviderPayStatementsPdf } from '@/lib/providerPayStatementPdf'
+import { formatCurrency, toDisplayDate } from '@/lib/utils'
 
 export default function ProviderDashboardPage() {
   const { user, userProfile, loading: authLoading } = useAuth()
@@ -17,6 +20,10 @@ export default function ProviderDashboardPage() {
   const [providersByClinic, setProvidersByClinic] = useState<Record<string, Provider[]>>({})
   const [patientCountByClinic, setPatientCountByClinic] = useState<Record<string, number>>({})
   // const [providerCountByClinic, setProviderCountByClinic] = useState<Record<string, number>>({})
+  const [payYear, setPayYear] = useState(() => new Date().getFullYear())
+  const [earnings, setEarnings] = useState<ProviderYtdEarnings | null>(null)
+  /** provider_pay id being downloaded, or 'all' for the whole year. */
+  const [downloadingStatement, setDownloadingStatement] = useState<string | null>(null)
 
   useEffect(() => {
     if (authLoading) return
@@ -158,6 +165,42 @@ export default function ProviderDashboardPage() {
     load()
   }, [user?.email, userProfile?.role, userProfile?.clinic_ids])
 
+  useEffect(() => {
+    if (!provider) return
+    let cancelled = false
+    fetchProviderYtdEarnings(supabase, provider.id, payYear)
+      .then((result) => {
+        if (!cancelled) setEarnings(result)
+      })
+      .catch((err) => {
+        console.error('[ProviderDashboardPage] YTD earnings error:', err)
+        if (!cancelled) setEarnings(null)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [provider, payYear])
+
+  const downloadStatements = useCallback(
+    async (providerPayIds: string[], key: string) => {
+      if (!provider || providerPayIds.length === 0) return
+      setDownloadingStatement(key)
+      try {
+        const statements = await fetchProviderPayStatements(supabase, providerPayIds)
+        const pdf = generateProviderPayStatementsPdf(statements)
+        const name = `${provider.last_name}_${provider.first_name}`.replace(/[^A-Za-z0-9_-]+/g, '')
+        const suffix = statements.length === 1 ? `${statements[0].year}-${String(statements[0].month).padStart(2, '0')}` : String(payYear)
+        pdf.save(`pay_statement_${name}_${suffix}.pdf`)
+      } catch (err) {
+        console.error('[ProviderDashboardPage] pay statement error:', err)
+        alert('Failed to generate the pay statement. Please try again.')
+      } finally {
+        setDownloadingStatement(null)
+      }
+    },
+    [provider, payYear]
+  )
+
   if (authLoading || (userProfile?.role === 'provider' && loading)) {
     return (
       <div className="flex justify-center items-center min-h-[400px]">
@@ -207,8 +250,87 @@ export default function ProviderDashboardPage() {
           <h3 className="text-sm font-medium text-white/70">Total Patients</h3>
         </div>
 
+        <div className="bg-white/10 backdrop-blur-md p-6 rounded-lg shadow-xl border border-white/20">
+          <div className="flex items-center justify-between mb-2">
+            <DollarSign className="text-yellow-400" size={24} />
+            <span className="text-3xl font-bold text-white">{formatCurrency(earnings?.total ?? 0)}</span>
+          </div>
+          <h3 className="text-sm font-medium text-white/70">{payYear} Earnings (YTD)</h3>
+        </div>
+
       </div>
 
+      {/* Pay statements – one per saved Provider Pay period, with YTD totals */}
+      {provider && (
+        <div className="bg-white/10 backdrop-blur-md rounded-lg shadow-xl p-6 border border-white/20 mb-8">
+          <div className="flex items-center justify-between gap-4 mb-4 flex-wrap">
+            <h2 className="text-xl font-semibold text-white italic">Pay Statements</h2>
+            <div className="flex items-center gap-2">
+              <select
+                value={payYear}
+                onChange={(e) => setPayYear(Number(e.target.value))}
+                className="px-3 py-2 rounded-lg border border-slate-600 bg-slate-800 text-white text-sm"
+              >
+                {Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i).map((y) => (
+                  <option key={y} value={y}>{y}</option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => downloadStatements(earnings?.periods.map((p) => p.providerPayId) ?? [], 'all')}
+                disabled={!earnings || earnings.periods.length === 0 || downloadingStatement != null}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                <FileText size={16} />
+                {downloadingStatement === 'all' ? 'Generating...' : `All ${payYear} statements`}
+              </button>
+            </div>
+          </div>
+          {!earnings || earnings.periods.length === 0 ? (
+            <p className="text-white/60 text-sm">No pay periods saved for {payYear}.</p>
+          ) : (
+            <div className="table-container dark-theme">
+              <table className="table-spreadsheet dark-theme">
+                <thead>
+                  <tr>
+                    <th>Period</th>
+                    <th>Clinic</th>
+                    <th>Pay Date</th>
+                    <th>Provider Cut</th>
+                    <th style={{ width: '60px' }}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...earnings.periods].reverse().map((p) => (
+                    <tr key={p.providerPayId}>
+                      <td>
+                        {new Date(p.year, p.month - 1, 1).toLocaleString('en-US', { month: 'long', year: 'numeric' })}
+                        {p.payroll === 2 && <span className="ml-1 text-xs text-white/60">(Payroll 2)</span>}
+                      </td>
+                      <td>{clinics.find((c) => c.id === p.clinicId)?.name ?? ''}</td>
+                      <td>{p.payDate ? toDisplayDate(p.payDate) : '—'}</td>
+                      <td>{formatCurrency(p.providerCut)}</td>
+                      <td>
+                        <button
+                          type="button"
+                          onClick={() => downloadStatements([p.providerPayId], p.providerPayId)}
+                          disabled={downloadingStatement != null}
+                          className="text-primary-400 hover:text-primary-300 disabled:opacity-50"
+                          style={{ padding: '4px' }}
+                          title="Download pay statement"
+                        >
+                          <Download size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Clinic cards – same layout as super admin dashboard */}
       {clinics.length > 0 && (
         <div className="bg-white/10 backdrop-blur-md rounded-lg shadow-xl p-6 border border-white/20">
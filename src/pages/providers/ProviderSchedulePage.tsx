@@ -2,14 +2,25 @@ import { useState, useEffect, useCallback, useRef } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/contexts/AuthContext'
-import { Clinic, Provider, ProviderScheduleEntry, Patient } from '@/types'
+import { Clinic, EligibilityCheck, Provider, ProviderScheduleEntry, Patient, Payer } from '@/types'
 import HandsontableWrapper from '@/components/HandsontableWrapper'
 import Handsontable from 'handsontable'
-import { DateEditor } from '@/lib/handsontableCustomRenderers'
+import { DateEditor, PayerPickerEditor } from '@/lib/handsontableCustomRenderers'
+import { fetchPayers } from '@/lib/payers'
+import { fetchEligibilityChecks, latestEligibilityByPatient } from '@/lib/eligibility270'
+import { normalizePatientIdKey } from '@/lib/providerSheetPatientAssignment'
+import { formatDate } from '@/lib/utils'
 import { ChevronLeft, ChevronRight } from 'lucide-react'
 
 const SCHEDULE_COLUMNS = ['patient_id', 'patient_name', 'insurance', 'copay', 'coinsurance', 'date_of_service'] as const
-const COLUMN_TITLES = ['Patient ID', 'Patient Name', 'Insurance', 'Co Pay', 'Co Ins', 'Date of Service']
+const COLUMN_TITLES = ['Patient ID', 'Patient Name', 'Insurance', 'Co Pay', 'Co Ins', 'Date of Service', 'Eligibility Verified']
+
+/** Read-only snapshot column: status and date of the patient's latest answered 270/271 check. */
+function eligibilityLabel(check: EligibilityCheck | undefined): string {
+  if (!check) return 'Not verified'
+  const status = check.status.charAt(0).toUpperCase() + check.status.slice(1)
+  return `${status} ${formatDate(check.responded_at)}`
+}
 
 function createEmptyEntry(index: number, clinicId: string, providerId: string): ProviderScheduleEntry {
   return {
@@ -41,10 +52,19 @@ export default function ProviderSchedulePage() {
   const [saving, setSaving] = useState(false)
   const [selectedMonth, setSelectedMonth] = useState<Date>(new Date())
 
+  const [payers, setPayers] = useState<Payer[]>([])
+  const [eligibilityByPatient, setEligibilityByPatient] = useState<Map<string, EligibilityCheck>>(new Map())
+
   useEffect(() => {
     entriesRef.current = entries
   }, [entries])
 
+  useEffect(() => {
+    fetchPayers(supabase)
+      .then((list) => setPayers(list.filter((p) => p.is_active)))
+      .catch((err) => console.error('Failed to load payers', err))
+  }, [])
+
   useEffect(() => {
     if (authLoading) return
     if (!user) {
@@ -185,6 +205,13 @@ export default function ProviderSchedulePage() {
     }
   }, [provider, clinicId, fetchClinic, fetchSchedule])
 
+  useEffect(() => {
+    if (!clinicId) return
+    fetchEligibilityChecks(supabase, clinicId, { answeredOnly: true })
+      .then((checks) => setEligibilityByPatient(latestEligibilityByPatient(checks)))
+      .catch((err) => console.error('Failed to load eligibility checks', err))
+  }, [clinicId])
+
   const formatMonthYear = (date: Date) =>
     date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
   const handlePreviousMonth = () =>
@@ -352,16 +379,20 @@ export default function ProviderSchedulePage() {
       e.copay ?? '',
       e.coinsurance ?? '',
       e.date_of_service ?? '',
+      e.patient_id ? eligibilityLabel(eligibilityByPatient.get(normalizePatientIdKey(e.patient_id))) : '',
     ])
-  }, [entries])
+  }, [entries, eligibilityByPatient])
 
   const scheduleColumns = [
     { data: 0, title: COLUMN_TITLES[0], type: 'text' as const, width: 120 },
     { data: 1, title: COLUMN_TITLES[1], type: 'text' as const, width: 160 },
-    { data: 2, title: COLUMN_TITLES[2], type: 'text' as const, width: 140 },
+    payers.length > 0
+      ? { data: 2, title: COLUMN_TITLES[2], type: 'text' as const, width: 140, editor: PayerPickerEditor, selectOptions: payers.map((p) => p.name), payerAliases: Object.fromEntries(payers.map((p) => [p.name, p.aliases])) }
+      : { data: 2, title: COLUMN_TITLES[2], type: 'text' as const, width: 140 },
     { data: 3, title: COLUMN_TITLES[3], type: 'numeric' as const, width: 90, numericFormat: { pattern: '0.00', culture: 'en-US' } },
     { data: 4, title: COLUMN_TITLES[4], type: 'numeric' as const, width: 90, numericFormat: { pattern: '0.00', culture: 'en-US' } },
     { data: 5, title: COLUMN_TITLES[5], type: 'date' as const, width: 120, editor: DateEditor },
+    { data: 6, title: COLUMN_TITLES[6], type: 'text' as const, width: 160, readOnly: true },
   ]
 
   const handleScheduleChange = useCallback((changes: Handsontable.CellChange[] | null, source: Handsontable.ChangeSource) => {
@@ -3,6 +3,7 @@ import { useNavigate, useParams } from 'react-router-dom'
 import { supabase } from '@/lib/supabase'
 import { fetchSheetRows, saveSheetRows } from '@/lib/providerSheetRows'
 import { enrichSheetRowsFromPatients, applyCoPatientSnapshotToSheetRows } from '@/lib/enrichProviderSheetRowsFromPatients'
+import { fetchPatientCoverages } from '@/lib/coordinationOfBenefits'
 import { useAuth } from '@/contexts/AuthContext'
 import {
   Clinic,
@@ -10,6 +11,7 @@ import {
   SheetRow,
   ProviderSheet,
   Patient,
+  PatientCoverage,
   BillingCode,
   StatusColor,
 } from '@/types'
@@ -35,6 +37,8 @@ export default function ProviderSheetPage() {
   const providerSheetRowsRef = useRef<Record<string, SheetRow[]>>({})
   const saveProviderSheetInProgressRef = useRef<Set<string>>(new Set())
   const pendingProviderSheetSaveRef = useRef<Record<string, SheetRow[]>>({})
+  /** Clinic coverage history; Insurance cells follow the plan active on each row's date of service. */
+  const patientCoveragesRef = useRef<PatientCoverage[]>([])
   const [currentSheet, setCurrentSheet] = useState<ProviderSheet | null>(null)
   /** When provider level is 2: 'sheet' | 'accounts_receivable' | 'provider_pay' */
   const [providerViewTab, setProviderViewTab] = useState<'sheet' | 'accounts_receivable' | 'provider_pay'>('sheet')
@@ -107,6 +111,16 @@ export default function ProviderSheetPage() {
     }
   }, [provider, urlClinicId, navigate])
 
+  const loadPatientCoverages = useCallback(async (): Promise<PatientCoverage[]> => {
+    if (!clinicId) return []
+    try {
+      return await fetchPatientCoverages(supabase, clinicId)
+    } catch (err) {
+      console.error('Error fetching patient coverages:', err)
+      return patientCoveragesRef.current
+    }
+  }, [clinicId])
+
   const refetchPatients = useCallback(async (): Promise<Patient[] | undefined> => {
     if (!clinicId) return undefined
     const { data, error: err } = await supabase
@@ -117,10 +131,11 @@ export default function ProviderSheetPage() {
     if (err) return undefined
 
     const fetchedPatients = data || []
+    patientCoveragesRef.current = await loadPatientCoverages()
     setPatients(fetchedPatients)
     setPatientAssignmentRevision((r) => r + 1)
     return fetchedPatients
-  }, [clinicId])
+  }, [clinicId, loadPatientCoverages])
 
   // Fetch clinic, patients, billing codes, status colors, and sheet when provider is set
   useEffect(() => {
@@ -217,7 +232,8 @@ export default function ProviderSheetPage() {
 
       let sheetRows = await fetchSheetRows(supabase, sheet.id)
       const { data: clinicPatientsForRows } = await supabase.from('patients').select('*').eq('clinic_id', clinicId)
-      sheetRows = enrichSheetRowsFromPatients(sheetRows, (clinicPatientsForRows || []) as Patient[])
+      patientCoveragesRef.current = await loadPatientCoverages()
+      sheetRows = enrichSheetRowsFromPatients(sheetRows, (clinicPatientsForRows || []) as Patient[], patientCoveragesRef.current)
       const createEmptyRow = (index: number): SheetRow => ({
         id: `empty-${providerId}-${index}`,
         patient_id: null,
@@ -271,7 +287,7 @@ export default function ProviderSheetPage() {
     } finally {
       setLoading(false)
     }
-  }, [provider, clinic, selectedMonth])
+  }, [provider, clinic, selectedMonth, loadPatientCoverages])
 
   useEffect(() => {
     providerSheetRowsRef.current = providerSheetRows
@@ -429,7 +445,7 @@ export default function ProviderSheetPage() {
         if (fresh && provider) {
           setProviderSheetRows((prev) => ({
             ...prev,
-            [provider.id]: applyCoPatientSnapshotToSheetRows(prev[provider.id] || [], fresh),
+            [provider.id]: applyCoPatientSnapshotToSheetRows(prev[provider.id] || [], fresh, patientCoveragesRef.current),
           }))
         }
       } catch (e) {
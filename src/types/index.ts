@@ -63,6 +63,10 @@ export interface Clinic {
   payroll?: 1 | 2
   /** Decimal rate for invoice total (e.g. 0.05 = 5%). Invoice Total = (Ins + Patient + AR) * invoice_rate. Set in Clinic Management. */
   invoice_rate?: number | null
+  /** Default days from date of service to file a claim when the payer has no limit. */
+  timely_filing_days?: number | null
+  /** Days before the filing deadline that a visit is flagged due soon. */
+  timely_filing_alert_days?: number | null
   created_at: string
   updated_at: string
 }
@@ -91,12 +95,32 @@ export interface Provider {
   level?: 1 | 2
   /** Provider cut percent 0–1 (default 0.7). Provider Cut = Total Payments × this. Set in Super Admin Settings. */
   provider_cut_percent?: number
+  /** Provider Pay template for new pay months; null = the default template. Set in Super Admin Settings. */
+  pay_template_id?: string | null
   /** When true, Providers tab shows a "Visit Type" column (In-person / Telehealth) for this provider. Toggled in User Management. */
   show_visit_type_column?: boolean
   created_at: string
   updated_at: string
 }
 
+/** 1099-NEC recipient details (provider_tax_info); only super admins can read them. Set in Super Admin Settings > 1099-NEC. */
+export interface ProviderTaxInfo {
+  provider_id: string
+  /** 1099-NEC recipient name; null = first and last name. */
+  tax_name: string | null
+  /** Taxpayer identification number, digits only. */
+  tin: string | null
+  tin_type: 'SSN' | 'EIN' | null
+  mailing_address_1: string | null
+  mailing_address_2: string | null
+  mailing_city: string | null
+  /** 2-letter state code. */
+  mailing_state: string | null
+  mailing_zip: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface Patient {
   id: string
   clinic_id: string
@@ -136,6 +160,8 @@ export interface ProviderSheet {
   provider_id: string
   month: number
   year: number
+  /** 1 or 2 when clinic has payroll 2; otherwise 1 */
+  payroll?: 1 | 2
   locked: boolean
   locked_columns: string[]
   created_at: string
@@ -211,6 +237,36 @@ export interface BillingCode {
   updated_at: string
 }
 
+export type PayerSubmissionMethod = 'electronic' | 'paper'
+
+/** Insurance payer (payers table). Insurance cells store `name`; `aliases` are other spellings that resolve to it. */
+export interface Payer {
+  id: string
+  name: string
+  aliases: string[]
+  /** Electronic payer ID used on 837P/835. */
+  payer_id: string | null
+  claim_address: string | null
+  phone: string | null
+  timely_filing_days: number | null
+  submission_method: PayerSubmissionMethod
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+/** Allowed amount for a payer and billing code from effective_from through effective_to (NULL = open-ended). */
+export interface FeeSchedule {
+  id: string
+  payer_id: string
+  billing_code_id: string
+  allowed_amount: number
+  effective_from: string
+  effective_to: string | null
+  created_at: string
+  updated_at: string
+}
+
 export interface StatusColor {
   id: string
   status: string
@@ -244,10 +300,16 @@ export interface ProviderPay {
   provider_id: string
   year: number
   month: number
+  /** 1, or 2 for the second pay period of a month when the clinic has two. */
+  payroll?: number
   pay_date: string | null
   pay_period: string | null
   /** Freeform notes/description for the Provider Pay sheet (shown on the right side). */
   notes?: string | null
+  /** Pay template the month was built with. */
+  template_id?: string | null
+  /** When amounts were last pulled from the provider sheet and applied. */
+  sheet_pulled_at?: string | null
   created_at: string
   updated_at: string
 }
@@ -260,10 +322,562 @@ export interface ProviderPayRow {
   description: string | null
   amount: string | null
   notes: string | null
+  /** Template line this row holds; null for the header and free-form rows. */
+  line_key?: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** input = entered by hand; sum / percent / flat / deduction are computed from the template. */
+export type PayTemplateLineType = 'input' | 'sum' | 'percent' | 'flat' | 'deduction'
+
+/** Provider sheet total an input line can be pulled from: PT Paid, Ins Pay, or AR (sheet + attributable AR entries). */
+export type PaySheetSource = 'patient_payments' | 'insurance_payments' | 'ar_payments'
+
+/** One line item of a Provider Pay template (provider_pay_template_lines table). */
+export interface PayTemplateLine {
+  id: string
+  template_id: string
+  sort_order: number
+  line_key: string
+  label: string
+  line_type: PayTemplateLineType
+  /** line_keys of earlier lines that sum, percent and percentage deductions are computed from. */
+  source_keys: string[]
+  /** Fraction 0–1. On percent lines null = the provider's provider_cut_percent. */
+  rate: number | null
+  /** Fixed amount for flat lines and flat deductions. */
+  amount: number | null
+  /** The line whose amount is what the provider is paid for the period. */
+  is_payout: boolean
+  /** Input lines only: sheet total "Pull from sheet" fills the line with. */
+  sheet_source: PaySheetSource | null
+}
+
+/** Named Provider Pay layout managed by super admins (provider_pay_templates table). */
+export interface PayTemplate {
+  id: string
+  name: string
+  description: string | null
+  is_default: boolean
+  /** Sorted by sort_order. */
+  lines: PayTemplateLine[]
+  created_at: string
+  updated_at: string
+}
+
+/** How a provider's cut is computed: flat %, marginal tiers, a fee per CPT code, or salary plus bonus. */
+export type CompensationModelType = 'flat_percent' | 'tiered_percent' | 'per_code' | 'salary_bonus'
+
+/** Tiered percent band: `rate` applies to the part of the pay period's total up to `up_to` (null = everything above). */
+export interface CompensationTier {
+  up_to: number | null
+  rate: number
+}
+
+export interface CompensationCodeRate {
+  code: string
+  amount: number
+}
+
+export interface ProviderCompensationModel {
+  id: string
+  provider_id: string
+  model_type: CompensationModelType
+  effective_from: string
+  effective_to: string | null
+  /** flat_percent: fraction 0–1 of the period total. */
+  percent: number | null
+  /** tiered_percent: ascending bands; the last has up_to null. */
+  tiers: CompensationTier[]
+  /** per_code: fee per visit billed with the code. */
+  code_rates: CompensationCodeRate[]
+  /** per_code: fee for codes not listed in code_rates (null = 0). */
+  default_code_amount: number | null
+  /** salary_bonus: fixed amount per pay period. */
+  salary: number | null
+  /** salary_bonus: bonus_rate × the period total above bonus_threshold. */
+  bonus_threshold: number | null
+  bonus_rate: number | null
+  /** Guaranteed minimum per pay period, for every model type. */
+  minimum_pay: number | null
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type ClaimScrubSeverity = 'error' | 'warning' | 'off'
+
+/** Per-clinic override of a claim scrubber rule's severity (claim_scrubber_rules table). */
+export interface ClaimScrubberRule {
+  clinic_id: string
+  rule_id: string
+  severity: ClaimScrubSeverity
+  updated_by: string | null
+  updated_at: string
+}
+
+/** Generated 837P claim file (claim_batches table). Content is the full X12 text so the batch can be re-downloaded. */
+export interface ClaimBatch {
+  id: string
+  clinic_id: string
+  provider_id: string
+  /** ISA13 / IEA02 control number; unique per clinic. */
+  interchange_control_number: number
+  file_name: string
+  content: string
+  /** provider_sheet_rows ids included in the batch (moved to Claim Sent). */
+  row_ids: string[]
+  claim_count: number
+  total_charge: number
+  submitter_id: string | null
+  receiver_id: string | null
+  /** Payer the batch billed: primary claims, or secondary / tertiary claims with COB loops. */
+  payer_sequence: PayerSequence
+  created_by: string | null
+  created_at: string
+}
+
+/** Exported X12 276 claim status inquiry file (claim_status_inquiries table). */
+export interface ClaimStatusInquiry {
+  id: string
+  clinic_id: string
+  /** ISA13; shares the clinic sequence with claim_batches and eligibility_checks. */
+  interchange_control_number: number
+  file_name: string
+  content: string
+  /** provider_sheet_rows ids asked about. */
+  row_ids: string[]
+  claim_count: number
+  min_days_outstanding: number
+  created_by: string | null
+  created_at: string
+}
+
+export type ClaimStatusReview = 'open' | 'applied' | 'dismissed'
+
+/** Claim-level 277 status for a sheet row (claim_status_history table). */
+export interface ClaimStatusHistoryEntry {
+  id: string
+  clinic_id: string
+  provider_sheet_row_id: string | null
+  provider_id: string | null
+  patient_id: string | null
+  date_of_service: string | null
+  claim_control_number: string | null
+  payer_name: string | null
+  payer_claim_number: string | null
+  /** STC01-1 category (A1, P1, F1, F2, ...). */
+  category_code: string
+  /** STC01-2 status code. */
+  status_code: string | null
+  entity_code: string | null
+  effective_date: string | null
+  charge_amount: number | null
+  paid_amount: number | null
+  response_file_name: string | null
+  claim_status_before: string | null
+  /** Sheet Claim Status the response maps to; null when it does not map cleanly. */
+  proposed_claim_status: string | null
+  /** null when there is nothing to review. */
+  review_status: ClaimStatusReview | null
+  reviewed_by: string | null
+  reviewed_at: string | null
+  created_by: string | null
+  created_at: string
+}
+
+/** Posted 835 remittance file (era_imports table). */
+export interface EraImport {
+  id: string
+  clinic_id: string
+  file_name: string
+  content: string
+  payer_name: string | null
+  /** TRN02 check / EFT trace number. */
+  check_number: string | null
+  payment_date: string | null
+  total_paid: number
+  claim_count: number
+  posted_count: number
+  exception_count: number
+  created_by: string | null
+  created_at: string
+}
+
+/** ERA service line that was not auto-posted (era_exceptions table); worked from the ERA Posting tab. */
+export interface EraException {
+  id: string
+  clinic_id: string
+  era_import_id: string | null
+  claim_control_number: string | null
+  payer_claim_number: string | null
+  patient_name: string | null
+  member_id: string | null
+  date_of_service: string | null
+  cpt_code: string | null
+  charge_amount: number | null
+  paid_amount: number | null
+  patient_responsibility: number | null
+  /** CARC adjustments as "GROUP-CODE" (e.g. "CO-45, PR-1"). */
+  adjustment_codes: string | null
+  /** RARC remark codes (e.g. "N130, M15"). */
+  remark_codes: string | null
+  /** Why the line was not posted (no matching row, multiple matches, reversal, held at review). */
+  reason: string
+  status: 'Open' | 'Resolved'
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type DenialCategory =
+  | 'eligibility'
+  | 'coding'
+  | 'authorization'
+  | 'timely_filing'
+  | 'medical_necessity'
+  | 'duplicate'
+  | 'coordination_of_benefits'
+  | 'missing_information'
+  | 'other'
+
+export type DenialOutcome = 'open' | 'overturned' | 'partially_overturned' | 'upheld' | 'written_off'
+
+/** Denied or rejected claim on a provider sheet row, with reason codes and appeal tracking (denials table). */
+export interface Denial {
+  id: string
+  clinic_id: string
+  provider_sheet_row_id: string | null
+  provider_id: string | null
+  patient_id: string | null
+  date_of_service: string | null
+  cpt_code: string | null
+  insurance: string | null
+  denied_amount: number | null
+  denial_date: string | null
+  /** CARC adjustments as "GROUP-CODE" (e.g. "CO-50, PR-1"). */
+  carc_codes: string | null
+  /** RARC remark codes (e.g. "N130, M15"). */
+  rarc_codes: string | null
+  category: DenialCategory
+  /** 0 = not appealed; 1–3 = first, second, third/external appeal. */
+  appeal_level: number
+  appeal_sent_date: string | null
+  appeal_received_date: string | null
+  outcome: DenialOutcome
+  recovered_amount: number | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type PaymentPlanFrequency = 'weekly' | 'biweekly' | 'monthly'
+
+export type PaymentPlanStatus = 'active' | 'completed' | 'cancelled'
+
+/** Patient payment plan. Installments are derived from start_date / frequency / installment_amount. */
+export interface PaymentPlan {
+  id: string
+  clinic_id: string
+  /** patients.patient_id */
+  patient_id: string
+  total_amount: number
+  installment_amount: number
+  frequency: PaymentPlanFrequency
+  start_date: string
+  /** Days after a due date before the installment counts as missed. */
+  grace_days: number
+  status: PaymentPlanStatus
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Provider sheet row covered by a payment plan. */
+export interface PaymentPlanRow {
+  id: string
+  plan_id: string
+  clinic_id: string
+  provider_sheet_row_id: string
+  date_of_service: string | null
+  /** Patient balance on the row when it joined the plan. */
+  amount_owed: number
+  /** PT Paid on the row before the plan. */
+  collected_before: number
+  created_at: string
+}
+
+export interface PaymentPlanPayment {
+  id: string
+  plan_id: string
+  clinic_id: string
+  amount: number
+  paid_date: string
+  method: string | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+}
+
+/** One statement generation (single patient or batch). Stored in patient_statement_runs. */
+export interface PatientStatementRun {
+  id: string
+  clinic_id: string
+  statement_date: string
+  /** Batch threshold; null for a single-patient statement. */
+  min_balance: number | null
+  statement_count: number
+  total_due: number
+  created_by: string | null
+  created_at: string
+}
+
+/** A patient billed in a statement run. Stored in patient_statements. */
+export interface PatientStatementRecord {
+  id: string
+  run_id: string
+  clinic_id: string
+  patient_id: string
+  patient_name: string | null
+  statement_date: string
+  line_count: number
+  balance_due: number
+  created_at: string
+}
+
+export type EligibilityStatus = 'pending' | 'active' | 'inactive' | 'rejected'
+
+/** X12 270 inquiry and the benefits parsed from its 271 (eligibility_checks table). */
+export interface EligibilityCheck {
+  id: string
+  clinic_id: string
+  /** patients.patient_id */
+  patient_id: string
+  patient_name: string | null
+  subscriber_id: string | null
+  payer_name: string | null
+  payer_id: string | null
+  service_date: string
+  interchange_control_number: number
+  /** 2000C TRN02 sent on the 270 and echoed on the 271. */
+  trace_number: string
+  request_file_name: string
+  request_content: string
+  response_content: string | null
+  /** 'pending' until the 271 is loaded. */
+  status: EligibilityStatus
+  plan_name: string | null
+  plan_begin_date: string | null
+  plan_end_date: string | null
+  copay: number | null
+  /** Percent (20 = 20%), same unit as Patient.coinsurance. */
+  coinsurance: number | null
+  deductible_remaining: number | null
+  /** AAA rejection reason when the payer could not return benefits. */
+  reject_reason: string | null
+  /** When the 271 was loaded (coverage verified). */
+  responded_at: string | null
+  created_by: string | null
   created_at: string
   updated_at: string
 }
 
+export type PayerSequence = 'primary' | 'secondary' | 'tertiary'
+
+/** Patient relationship to the subscriber of a coverage. */
+export type CoverageRelationship = 'self' | 'spouse' | 'child' | 'other'
+
+/** One insurance plan on a patient (patient_coverages table). */
+export interface PatientCoverage {
+  id: string
+  clinic_id: string
+  /** patients.patient_id */
+  patient_id: string
+  /** 1 = primary, 2 = secondary, 3 = tertiary. */
+  priority: 1 | 2 | 3
+  payer_name: string
+  /** Electronic payer ID; null falls back to the payer master. */
+  payer_id: string | null
+  subscriber_id: string | null
+  group_number: string | null
+  /** SBR09 (CI, MB, MC, ...); null uses the 837P dialog default. */
+  claim_filing_indicator: string | null
+  relationship: CoverageRelationship
+  /** Subscriber name / DOB; only used when relationship is not 'self'. */
+  subscriber_first_name: string | null
+  subscriber_last_name: string | null
+  subscriber_date_of_birth: string | null
+  /** Covered dates of service (YYYY-MM-DD); null = open-ended. */
+  effective_from: string | null
+  effective_to: string | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** One CAS adjustment: group (CO, PR, OA, PI, CR) + CARC reason code + amount. */
+export interface ClaimAdjustment {
+  group: string
+  reason: string
+  amount: number
+}
+
+/** What one payer paid and adjusted on a provider sheet row (claim_payer_payments table). */
+export interface ClaimPayerPayment {
+  id: string
+  clinic_id: string
+  provider_sheet_row_id: string
+  coverage_id: string | null
+  payer_sequence: PayerSequence
+  payer_name: string | null
+  charge_amount: number
+  paid_amount: number
+  /** Claim-level adjustments; PR amounts are what the next payer or the patient owes. */
+  adjustments: ClaimAdjustment[]
+  paid_date: string | null
+  payer_claim_number: string | null
+  /** 'era' when recorded by ERA posting, 'manual' when entered from an EOB. */
+  source: 'era' | 'manual'
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type AdjustmentType = 'contractual' | 'small_balance' | 'bad_debt' | 'courtesy' | 'refund'
+
+export type AdjustmentStatus = 'pending' | 'posted' | 'rejected' | 'voided'
+
+/** Write-off / adjustment ledger entry on a provider sheet row (sheet_row_adjustments table). */
+export interface SheetRowAdjustment {
+  id: string
+  clinic_id: string
+  provider_sheet_row_id: string
+  adjustment_type: AdjustmentType
+  /** Always positive; refunds add to the row balance, every other type reduces it. */
+  amount: number
+  reason: string
+  adjustment_date: string
+  /** Only posted entries count toward balances. */
+  status: AdjustmentStatus
+  created_by: string | null
+  created_at: string
+  /** Who posted, rejected or voided the entry. */
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  updated_at: string
+}
+
+/** Per-clinic override of the largest adjustment a role may post without approval (adjustment_approval_limits). */
+export interface AdjustmentApprovalLimit {
+  clinic_id: string
+  role: 'office_staff' | 'billing_staff' | 'admin'
+  /** null = no limit */
+  max_amount: number | null
+  updated_by: string | null
+  updated_at: string
+}
+
+export type RefundStatus = 'requested' | 'approved' | 'denied' | 'issued' | 'voided'
+
+export type RefundMethod = 'check' | 'card' | 'ach' | 'cash' | 'other'
+
+/** Refund of a patient overpayment (patient_refunds table). */
+export interface PatientRefund {
+  id: string
+  clinic_id: string
+  /** Overpaid row the refund was requested against; null if the row was later deleted. */
+  provider_sheet_row_id: string | null
+  patient_id: string
+  amount: number
+  reason: string
+  status: RefundStatus
+  /** Set when issued. */
+  refund_method: RefundMethod | null
+  /** Check number, card transaction or ACH trace. */
+  reference: string | null
+  /** YYYY-MM-DD the refund was paid out. */
+  issued_date: string | null
+  requested_by: string | null
+  created_at: string
+  /** Who approved, denied or voided the refund. */
+  reviewed_by: string | null
+  reviewed_at: string | null
+  review_note: string | null
+  issued_by: string | null
+  updated_at: string
+}
+
+export type CollectionStage = 'statement_1' | 'statement_2' | 'final_notice' | 'agency'
+
+export type CollectionStatus = 'active' | 'paid' | 'closed'
+
+/** Per-clinic collections thresholds and letter templates (collection_settings table). */
+export interface CollectionSettings {
+  clinic_id: string
+  min_balance: number
+  /** Oldest open visit age (days) before a patient is eligible. */
+  start_after_days: number
+  /** Days after statement 1 before statement 2 is due. */
+  statement_2_days: number
+  /** Days after statement 2 before the final notice is due. */
+  final_notice_days: number
+  /** Days after the final notice before the account goes to the agency. */
+  agency_days: number
+  agency_name: string | null
+  /** Letter templates; null = the built-in default. */
+  statement_1_letter: string | null
+  statement_2_letter: string | null
+  final_notice_letter: string | null
+  updated_by: string | null
+  updated_at: string
+}
+
+/** A patient in the collections pipeline (patient_collections table). */
+export interface PatientCollection {
+  id: string
+  clinic_id: string
+  patient_id: string
+  patient_name: string | null
+  /** Last step taken. */
+  stage: CollectionStage
+  status: CollectionStatus
+  /** YYYY-MM-DD the current stage was reached. */
+  stage_date: string
+  balance_placed: number
+  current_balance: number
+  /** PT Paid already accounted for; increases beyond it are new payments. */
+  paid_baseline: number
+  placed_date: string | null
+  agency_name: string | null
+  agency_exported_at: string | null
+  notes: string | null
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/** Collections history entry (patient_collection_events table). */
+export interface PatientCollectionEvent {
+  id: string
+  collection_id: string
+  clinic_id: string
+  event_type: 'stage' | 'payment' | 'note' | 'status'
+  /** Stage entered (stage events) or the stage the account was in. */
+  stage: CollectionStage
+  /** Balance at the stage change, or the payment received. */
+  amount: number | null
+  note: string | null
+  event_date: string
+  created_by: string | null
+  created_at: string
+}
+
 export interface ColumnLock {
   id: string
   clinic_id: string
@@ -394,6 +1008,10 @@ export interface TodoItem {
   created_at: string
   updated_at: string
   completed_at: string | null
+  /** Provider sheet row a system-created item is about (e.g. timely filing). */
+  provider_sheet_row_id?: string | null
+  /** Set on system-created items, e.g. 'timely_filing'; null for hand-entered items. */
+  source?: string | null
 }
 
 export interface Timecard {
@@ -0,0 +1,53 @@
+-- 837P claim batches: one row per generated X12 file so it can be re-downloaded from the Providers tab.
+-- Stores the full file content, the provider_sheet_rows included, and the interchange control number used.
+
+CREATE TABLE IF NOT EXISTS claim_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  interchange_control_number INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  row_ids UUID[] NOT NULL DEFAULT '{}',
+  claim_count INTEGER NOT NULL DEFAULT 0,
+  total_charge NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  submitter_id TEXT,
+  receiver_id TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (clinic_id, interchange_control_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_batches_clinic_provider ON claim_batches (clinic_id, provider_id);
+CREATE INDEX IF NOT EXISTS idx_claim_batches_created_at ON claim_batches (created_at DESC);
+
+COMMENT ON TABLE claim_batches IS 'Generated ANSI X12 837P (005010X222A1) files; row_ids are the provider_sheet_rows marked Claim Sent by the batch.';
+
+ALTER TABLE claim_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view claim_batches for their clinics" ON claim_batches;
+CREATE POLICY "Users can view claim_batches for their clinics" ON claim_batches
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can insert claim_batches for their clinics" ON claim_batches;
+CREATE POLICY "Billing users can insert claim_batches for their clinics" ON claim_batches
+  FOR INSERT WITH CHECK (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Super admins can delete claim_batches" ON claim_batches;
+CREATE POLICY "Super admins can delete claim_batches" ON claim_batches
+  FOR DELETE USING (is_super_admin());
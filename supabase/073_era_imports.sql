@@ -0,0 +1,102 @@
+-- 835 ERA imports: one row per posted remittance file, plus an exception queue for service lines that
+-- could not be matched to a provider_sheet_rows row (or were held back at review) so nothing is dropped.
+
+CREATE TABLE IF NOT EXISTS era_imports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  file_name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  payer_name TEXT,
+  check_number TEXT,
+  payment_date DATE,
+  total_paid NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  claim_count INTEGER NOT NULL DEFAULT 0,
+  posted_count INTEGER NOT NULL DEFAULT 0,
+  exception_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS era_exceptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  era_import_id UUID REFERENCES era_imports(id) ON DELETE CASCADE,
+  claim_control_number TEXT,
+  payer_claim_number TEXT,
+  patient_name TEXT,
+  member_id TEXT,
+  date_of_service DATE,
+  cpt_code TEXT,
+  charge_amount NUMERIC(12, 2),
+  paid_amount NUMERIC(12, 2),
+  patient_responsibility NUMERIC(12, 2),
+  adjustment_codes TEXT,
+  remark_codes TEXT,
+  reason TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Resolved')),
+  resolved_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_era_imports_clinic_check ON era_imports (clinic_id, check_number);
+CREATE INDEX IF NOT EXISTS idx_era_exceptions_clinic_status ON era_exceptions (clinic_id, status);
+CREATE INDEX IF NOT EXISTS idx_era_exceptions_era_import_id ON era_exceptions (era_import_id);
+
+COMMENT ON TABLE era_imports IS 'Posted 835 remittance files (content kept for audit/re-download).';
+COMMENT ON TABLE era_exceptions IS 'ERA service lines not auto-posted: unmatched, ambiguous, reversals, or unchecked at review.';
+
+DROP TRIGGER IF EXISTS update_era_exceptions_updated_at ON era_exceptions;
+CREATE TRIGGER update_era_exceptions_updated_at
+  BEFORE UPDATE ON era_exceptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE era_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE era_exceptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view era_imports for their clinics" ON era_imports;
+CREATE POLICY "Users can view era_imports for their clinics" ON era_imports
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can insert era_imports for their clinics" ON era_imports;
+CREATE POLICY "Billing users can insert era_imports for their clinics" ON era_imports
+  FOR INSERT WITH CHECK (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view era_exceptions for their clinics" ON era_exceptions;
+CREATE POLICY "Users can view era_exceptions for their clinics" ON era_exceptions
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage era_exceptions for their clinics" ON era_exceptions;
+CREATE POLICY "Billing users can manage era_exceptions for their clinics" ON era_exceptions
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
@@ -0,0 +1,37 @@
+-- Payer master table: one row per insurance company with the per-payer rules billing needs.
+-- Free-text insurance columns (patients.insurance, provider_schedules.insurance) keep storing the payer's
+-- canonical name; aliases let old spellings ("BCBS", "bcbs tx") resolve to the same payer.
+
+CREATE TABLE IF NOT EXISTS payers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  payer_id TEXT,
+  claim_address TEXT,
+  phone TEXT,
+  timely_filing_days INTEGER,
+  submission_method TEXT NOT NULL DEFAULT 'electronic' CHECK (submission_method IN ('electronic', 'paper')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payers_aliases ON payers USING GIN (aliases);
+
+COMMENT ON TABLE payers IS 'Insurance payers shared by all clinics. Insurance cells store payers.name; aliases are alternate spellings mapped by the normalization tool.';
+COMMENT ON COLUMN payers.payer_id IS 'Electronic payer ID (837P NM1*PR / 835 N1*PR).';
+COMMENT ON COLUMN payers.timely_filing_days IS 'Days from date of service the payer accepts a first claim; NULL = unknown.';
+
+DROP TRIGGER IF EXISTS update_payers_updated_at ON payers;
+CREATE TRIGGER update_payers_updated_at BEFORE UPDATE ON payers
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE payers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Everyone can view payers" ON payers;
+CREATE POLICY "Everyone can view payers" ON payers
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Super admins can manage payers" ON payers;
+CREATE POLICY "Super admins can manage payers" ON payers
+  FOR ALL USING (is_super_admin());
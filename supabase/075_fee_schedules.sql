@@ -0,0 +1,33 @@
+-- Fee schedules: what a payer allows for a billing code over an effective date range.
+-- Used to compute expected reimbursement per provider sheet row and flag underpaid rows.
+
+CREATE TABLE IF NOT EXISTS fee_schedules (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payer_id UUID NOT NULL REFERENCES payers(id) ON DELETE CASCADE,
+  billing_code_id UUID NOT NULL REFERENCES billing_codes(id) ON DELETE CASCADE,
+  allowed_amount NUMERIC(10, 2) NOT NULL CHECK (allowed_amount >= 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  UNIQUE (payer_id, billing_code_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_payer_code ON fee_schedules (payer_id, billing_code_id);
+
+COMMENT ON TABLE fee_schedules IS 'Allowed amount (payer + patient share) per payer and billing code; effective_to NULL = open-ended.';
+
+DROP TRIGGER IF EXISTS update_fee_schedules_updated_at ON fee_schedules;
+CREATE TRIGGER update_fee_schedules_updated_at BEFORE UPDATE ON fee_schedules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE fee_schedules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Everyone can view fee schedules" ON fee_schedules;
+CREATE POLICY "Everyone can view fee schedules" ON fee_schedules
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Super admins can manage fee schedules" ON fee_schedules;
+CREATE POLICY "Super admins can manage fee schedules" ON fee_schedules
+  FOR ALL USING (is_super_admin());
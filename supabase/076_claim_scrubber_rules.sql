@@ -0,0 +1,42 @@
+-- Claim scrubber rule settings per clinic. Rules themselves live in the app (src/lib/claimScrubber.ts);
+-- a row here overrides a rule's default severity: 'error' blocks Claim Sent, 'warning' asks first, 'off' skips it.
+
+CREATE TABLE IF NOT EXISTS claim_scrubber_rules (
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  rule_id TEXT NOT NULL,
+  severity TEXT NOT NULL CHECK (severity IN ('error', 'warning', 'off')),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (clinic_id, rule_id)
+);
+
+COMMENT ON TABLE claim_scrubber_rules IS 'Per-clinic severity overrides for claim scrubber rules checked before a row is marked Claim Sent.';
+
+DROP TRIGGER IF EXISTS update_claim_scrubber_rules_updated_at ON claim_scrubber_rules;
+CREATE TRIGGER update_claim_scrubber_rules_updated_at BEFORE UPDATE ON claim_scrubber_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE claim_scrubber_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view claim_scrubber_rules for their clinics" ON claim_scrubber_rules;
+CREATE POLICY "Users can view claim_scrubber_rules for their clinics" ON claim_scrubber_rules
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Admins can manage claim_scrubber_rules for their clinics" ON claim_scrubber_rules;
+CREATE POLICY "Admins can manage claim_scrubber_rules for their clinics" ON claim_scrubber_rules
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+      )
+    )
+  );
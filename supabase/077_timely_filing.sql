@@ -0,0 +1,17 @@
+-- Timely filing: clinic default filing limit (used when the patient's payer has no timely_filing_days)
+-- and how many days before the deadline a visit counts as "due soon".
+ALTER TABLE clinics
+  ADD COLUMN IF NOT EXISTS timely_filing_days INTEGER DEFAULT 90,
+  ADD COLUMN IF NOT EXISTS timely_filing_alert_days INTEGER DEFAULT 14;
+
+COMMENT ON COLUMN clinics.timely_filing_days IS 'Default days from date of service to file a claim when the payer has no timely_filing_days.';
+COMMENT ON COLUMN clinics.timely_filing_alert_days IS 'Visits within this many days of their filing deadline are flagged due soon and get a Billing To-Do item.';
+
+-- Link auto-created to-do items to the provider sheet row they are about, so each row gets at most one per source.
+ALTER TABLE todo_lists
+  ADD COLUMN IF NOT EXISTS provider_sheet_row_id UUID REFERENCES provider_sheet_rows(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS source TEXT;
+
+COMMENT ON COLUMN todo_lists.source IS 'Set on system-created items (e.g. timely_filing); NULL for items entered by hand.';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_todo_lists_row_source ON todo_lists(provider_sheet_row_id, source);
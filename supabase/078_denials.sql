@@ -0,0 +1,68 @@
+-- Denial records: why a claim was denied or rejected, what was done about it (appeals) and how it ended.
+-- One record per provider_sheet_rows row; the visit details are copied so the record survives sheet edits.
+
+CREATE TABLE IF NOT EXISTS denials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_sheet_row_id UUID REFERENCES provider_sheet_rows(id) ON DELETE SET NULL,
+  provider_id UUID REFERENCES providers(id) ON DELETE SET NULL,
+  patient_id TEXT,
+  date_of_service DATE,
+  cpt_code TEXT,
+  insurance TEXT,
+  denied_amount NUMERIC(12, 2),
+  denial_date DATE,
+  carc_codes TEXT,
+  rarc_codes TEXT,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN (
+    'eligibility', 'coding', 'authorization', 'timely_filing', 'medical_necessity',
+    'duplicate', 'coordination_of_benefits', 'missing_information', 'other'
+  )),
+  appeal_level INTEGER NOT NULL DEFAULT 0 CHECK (appeal_level BETWEEN 0 AND 3),
+  appeal_sent_date DATE,
+  appeal_received_date DATE,
+  outcome TEXT NOT NULL DEFAULT 'open' CHECK (outcome IN ('open', 'overturned', 'partially_overturned', 'upheld', 'written_off')),
+  recovered_amount NUMERIC(12, 2),
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_denials_sheet_row ON denials (provider_sheet_row_id);
+CREATE INDEX IF NOT EXISTS idx_denials_clinic_outcome ON denials (clinic_id, outcome);
+CREATE INDEX IF NOT EXISTS idx_denials_clinic_dos ON denials (clinic_id, date_of_service);
+
+COMMENT ON TABLE denials IS 'Denied/rejected claims with CARC/RARC reason codes, category, appeal tracking and outcome.';
+COMMENT ON COLUMN denials.carc_codes IS 'CARC adjustments as "GROUP-CODE" (e.g. "CO-50, PR-1"), same format as era_exceptions.adjustment_codes.';
+COMMENT ON COLUMN denials.appeal_level IS '0 = not appealed, 1-3 = first, second, third/external appeal.';
+
+DROP TRIGGER IF EXISTS update_denials_updated_at ON denials;
+CREATE TRIGGER update_denials_updated_at
+  BEFORE UPDATE ON denials
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE denials ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view denials for their clinics" ON denials;
+CREATE POLICY "Users can view denials for their clinics" ON denials
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage denials for their clinics" ON denials;
+CREATE POLICY "Billing users can manage denials for their clinics" ON denials
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
@@ -0,0 +1,82 @@
+-- Patient statement runs: each time statements are generated (one patient or a batch) a run is recorded,
+-- with one patient_statements row per patient billed, so the clinic can see when a patient was last sent a statement.
+
+CREATE TABLE IF NOT EXISTS patient_statement_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  statement_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  min_balance NUMERIC(12, 2),
+  statement_count INTEGER NOT NULL DEFAULT 0,
+  total_due NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS patient_statements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id UUID NOT NULL REFERENCES patient_statement_runs(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  patient_name TEXT,
+  statement_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  line_count INTEGER NOT NULL DEFAULT 0,
+  balance_due NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_statement_runs_clinic ON patient_statement_runs (clinic_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_patient_statements_clinic_patient ON patient_statements (clinic_id, patient_id, statement_date DESC);
+CREATE INDEX IF NOT EXISTS idx_patient_statements_run ON patient_statements (run_id);
+
+COMMENT ON TABLE patient_statement_runs IS 'One row per statement generation (single patient or batch over min_balance).';
+COMMENT ON TABLE patient_statements IS 'Patients included in a statement run, with the balance billed.';
+COMMENT ON COLUMN patient_statements.patient_id IS 'patients.patient_id (the clinic''s patient ID, same as provider_sheet_rows.patient_id).';
+
+ALTER TABLE patient_statement_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_statements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view statement runs for their clinics" ON patient_statement_runs;
+CREATE POLICY "Users can view statement runs for their clinics" ON patient_statement_runs
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage statement runs for their clinics" ON patient_statement_runs;
+CREATE POLICY "Billing users can manage statement runs for their clinics" ON patient_statement_runs
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view patient statements for their clinics" ON patient_statements;
+CREATE POLICY "Users can view patient statements for their clinics" ON patient_statements
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage patient statements for their clinics" ON patient_statements;
+CREATE POLICY "Billing users can manage patient statements for their clinics" ON patient_statements
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
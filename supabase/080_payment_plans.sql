@@ -0,0 +1,130 @@
+-- Patient payment plans: total owed split into installments on a schedule (weekly / biweekly / monthly),
+-- linked to the provider sheet rows it covers. Payments are recorded against the plan and written back to
+-- the linked rows (PT Paid / PT Payment AR Ref Date). The installment schedule is derived from the plan, not stored.
+
+CREATE TABLE IF NOT EXISTS payment_plans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  total_amount NUMERIC(12, 2) NOT NULL CHECK (total_amount > 0),
+  installment_amount NUMERIC(12, 2) NOT NULL CHECK (installment_amount > 0),
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'biweekly', 'monthly')),
+  start_date DATE NOT NULL,
+  grace_days INTEGER NOT NULL DEFAULT 5 CHECK (grace_days >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payment_plan_rows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_sheet_row_id UUID NOT NULL REFERENCES provider_sheet_rows(id) ON DELETE CASCADE,
+  date_of_service DATE,
+  amount_owed NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  collected_before NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS payment_plan_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plan_id UUID NOT NULL REFERENCES payment_plans(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  paid_date DATE NOT NULL,
+  method TEXT,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_plans_clinic_patient ON payment_plans (clinic_id, patient_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_plan_rows_plan_row ON payment_plan_rows (plan_id, provider_sheet_row_id);
+CREATE INDEX IF NOT EXISTS idx_payment_plan_rows_sheet_row ON payment_plan_rows (provider_sheet_row_id);
+CREATE INDEX IF NOT EXISTS idx_payment_plan_payments_plan ON payment_plan_payments (plan_id, paid_date);
+
+COMMENT ON COLUMN payment_plans.patient_id IS 'patients.patient_id (same as provider_sheet_rows.patient_id).';
+COMMENT ON COLUMN payment_plans.grace_days IS 'Days after an installment''s due date before it counts as missed.';
+COMMENT ON COLUMN payment_plan_rows.amount_owed IS 'Patient balance on the row when it was added to the plan; payments are applied up to this.';
+COMMENT ON COLUMN payment_plan_rows.collected_before IS 'PT Paid on the row before the plan; the plan''s payments are added on top.';
+
+DROP TRIGGER IF EXISTS update_payment_plans_updated_at ON payment_plans;
+CREATE TRIGGER update_payment_plans_updated_at
+  BEFORE UPDATE ON payment_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE payment_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_plan_rows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_plan_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view payment plans for their clinics" ON payment_plans;
+CREATE POLICY "Users can view payment plans for their clinics" ON payment_plans
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Staff can manage payment plans for their clinics" ON payment_plans;
+CREATE POLICY "Staff can manage payment plans for their clinics" ON payment_plans
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view payment plan rows for their clinics" ON payment_plan_rows;
+CREATE POLICY "Users can view payment plan rows for their clinics" ON payment_plan_rows
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Staff can manage payment plan rows for their clinics" ON payment_plan_rows;
+CREATE POLICY "Staff can manage payment plan rows for their clinics" ON payment_plan_rows
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view payment plan payments for their clinics" ON payment_plan_payments;
+CREATE POLICY "Users can view payment plan payments for their clinics" ON payment_plan_payments
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Staff can manage payment plan payments for their clinics" ON payment_plan_payments;
+CREATE POLICY "Staff can manage payment plan payments for their clinics" ON payment_plan_payments
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
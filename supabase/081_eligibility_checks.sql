@@ -0,0 +1,71 @@
+-- Insurance eligibility checks: the X12 270 inquiry sent for a patient and the benefits parsed from the payer's 271.
+-- A check is 'pending' until its 271 is loaded; the verified snapshot (status, plan dates, copay, coinsurance,
+-- deductible remaining) stays on the row so front desk and providers can see when coverage was last confirmed.
+
+CREATE TABLE IF NOT EXISTS eligibility_checks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  patient_name TEXT,
+  subscriber_id TEXT,
+  payer_name TEXT,
+  payer_id TEXT,
+  service_date DATE NOT NULL,
+  interchange_control_number INTEGER NOT NULL,
+  trace_number TEXT NOT NULL,
+  request_file_name TEXT NOT NULL,
+  request_content TEXT NOT NULL,
+  response_content TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'inactive', 'rejected')),
+  plan_name TEXT,
+  plan_begin_date DATE,
+  plan_end_date DATE,
+  copay NUMERIC(12, 2),
+  coinsurance NUMERIC(5, 2),
+  deductible_remaining NUMERIC(12, 2),
+  reject_reason TEXT,
+  responded_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_eligibility_checks_clinic_control ON eligibility_checks (clinic_id, interchange_control_number);
+CREATE INDEX IF NOT EXISTS idx_eligibility_checks_clinic_patient ON eligibility_checks (clinic_id, patient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_eligibility_checks_trace ON eligibility_checks (clinic_id, trace_number);
+
+COMMENT ON TABLE eligibility_checks IS 'X12 270 eligibility inquiries and the benefits snapshot parsed from the matching 271.';
+COMMENT ON COLUMN eligibility_checks.patient_id IS 'patients.patient_id (clinic patient number), same as provider_sheet_rows.patient_id.';
+COMMENT ON COLUMN eligibility_checks.trace_number IS '2000C TRN02 sent on the 270; the payer echoes it on the 271 so the response can be matched.';
+COMMENT ON COLUMN eligibility_checks.coinsurance IS 'Patient coinsurance as a percent (20 = 20%), same unit as patients.coinsurance.';
+COMMENT ON COLUMN eligibility_checks.responded_at IS 'When the 271 was loaded: the date coverage was verified.';
+
+DROP TRIGGER IF EXISTS update_eligibility_checks_updated_at ON eligibility_checks;
+CREATE TRIGGER update_eligibility_checks_updated_at
+  BEFORE UPDATE ON eligibility_checks
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE eligibility_checks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view eligibility checks for their clinics" ON eligibility_checks;
+CREATE POLICY "Users can view eligibility checks for their clinics" ON eligibility_checks
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Staff can manage eligibility checks for their clinics" ON eligibility_checks;
+CREATE POLICY "Staff can manage eligibility checks for their clinics" ON eligibility_checks
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
@@ -0,0 +1,103 @@
+-- Claim status inquiries: X12 276 files exported for claims stuck at Claim Sent / IP, and the 277 responses
+-- recorded as a status history per provider_sheet_rows row. Responses that map cleanly to a sheet Claim Status
+-- carry a proposed status that a reviewer applies or dismisses.
+
+CREATE TABLE IF NOT EXISTS claim_status_inquiries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  interchange_control_number INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  row_ids UUID[] NOT NULL DEFAULT '{}',
+  claim_count INTEGER NOT NULL DEFAULT 0,
+  min_days_outstanding INTEGER NOT NULL,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_claim_status_inquiries_clinic_control ON claim_status_inquiries (clinic_id, interchange_control_number);
+
+COMMENT ON TABLE claim_status_inquiries IS 'X12 276 claim status inquiry files; ISA13 shares the clinic sequence with claim_batches and eligibility_checks.';
+
+CREATE TABLE IF NOT EXISTS claim_status_history (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_sheet_row_id UUID REFERENCES provider_sheet_rows(id) ON DELETE CASCADE,
+  provider_id UUID REFERENCES providers(id) ON DELETE SET NULL,
+  patient_id TEXT,
+  date_of_service DATE,
+  claim_control_number TEXT,
+  payer_name TEXT,
+  payer_claim_number TEXT,
+  category_code TEXT NOT NULL,
+  status_code TEXT,
+  entity_code TEXT,
+  effective_date DATE,
+  charge_amount NUMERIC(12, 2),
+  paid_amount NUMERIC(12, 2),
+  response_file_name TEXT,
+  claim_status_before TEXT,
+  proposed_claim_status TEXT,
+  review_status TEXT CHECK (review_status IN ('open', 'applied', 'dismissed')),
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_status_history_row ON claim_status_history (provider_sheet_row_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_claim_status_history_review ON claim_status_history (clinic_id, review_status);
+
+COMMENT ON TABLE claim_status_history IS 'Claim-level 277 STC responses per sheet row, newest first.';
+COMMENT ON COLUMN claim_status_history.category_code IS 'STC01-1 health care claim status category (A1 received, P1 pending, F1 finalized/payment, F2 finalized/denial, ...).';
+COMMENT ON COLUMN claim_status_history.status_code IS 'STC01-2 health care claim status code.';
+COMMENT ON COLUMN claim_status_history.review_status IS 'NULL when the response maps to no Claim Status change; otherwise open until a reviewer applies or dismisses it.';
+
+ALTER TABLE claim_status_inquiries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE claim_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view claim status inquiries for their clinics" ON claim_status_inquiries;
+CREATE POLICY "Users can view claim status inquiries for their clinics" ON claim_status_inquiries
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage claim status inquiries for their clinics" ON claim_status_inquiries;
+CREATE POLICY "Billing users can manage claim status inquiries for their clinics" ON claim_status_inquiries
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view claim status history for their clinics" ON claim_status_history;
+CREATE POLICY "Users can view claim status history for their clinics" ON claim_status_history
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage claim status history for their clinics" ON claim_status_history;
+CREATE POLICY "Billing users can manage claim status history for their clinics" ON claim_status_history
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
@@ -0,0 +1,122 @@
+-- Coordination of benefits: primary / secondary / tertiary coverage per patient with effective dates and the
+-- subscriber relationship, and what each payer paid and adjusted on a provider_sheet_rows row. Secondary claims
+-- are built from the earlier payer's remittance; the sheet Ins Pay / PT Res columns hold the rolled-up totals.
+
+CREATE TABLE IF NOT EXISTS patient_coverages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  priority INTEGER NOT NULL CHECK (priority IN (1, 2, 3)),
+  payer_name TEXT NOT NULL,
+  payer_id TEXT,
+  subscriber_id TEXT,
+  group_number TEXT,
+  claim_filing_indicator TEXT,
+  relationship TEXT NOT NULL DEFAULT 'self' CHECK (relationship IN ('self', 'spouse', 'child', 'other')),
+  subscriber_first_name TEXT,
+  subscriber_last_name TEXT,
+  subscriber_date_of_birth DATE,
+  effective_from DATE,
+  effective_to DATE,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_from IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_coverages_patient ON patient_coverages (clinic_id, patient_id, priority);
+
+COMMENT ON TABLE patient_coverages IS 'Insurance plans per patient (patients.patient_id); priority 1 = primary, 2 = secondary, 3 = tertiary.';
+COMMENT ON COLUMN patient_coverages.payer_id IS 'Electronic payer ID; when NULL the payer master / 837P dialog mapping is used.';
+COMMENT ON COLUMN patient_coverages.claim_filing_indicator IS 'SBR09 for this plan (CI, MB, MC, ...); NULL uses the 837P dialog default.';
+COMMENT ON COLUMN patient_coverages.relationship IS 'Patient relationship to the subscriber; subscriber name / DOB are required unless self.';
+COMMENT ON COLUMN patient_coverages.effective_from IS 'First covered date of service; NULL = open-ended.';
+COMMENT ON COLUMN patient_coverages.effective_to IS 'Last covered date of service; NULL = open-ended.';
+
+CREATE TABLE IF NOT EXISTS claim_payer_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_sheet_row_id UUID NOT NULL REFERENCES provider_sheet_rows(id) ON DELETE CASCADE,
+  coverage_id UUID REFERENCES patient_coverages(id) ON DELETE SET NULL,
+  payer_sequence TEXT NOT NULL CHECK (payer_sequence IN ('primary', 'secondary', 'tertiary')),
+  payer_name TEXT,
+  charge_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  paid_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  adjustments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  paid_date DATE,
+  payer_claim_number TEXT,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('era', 'manual')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (provider_sheet_row_id, payer_sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_claim_payer_payments_clinic ON claim_payer_payments (clinic_id);
+
+COMMENT ON TABLE claim_payer_payments IS 'Adjudication per payer on a sheet row; the source of the 2320 / CMS-1500 box 9 and 29 data on secondary claims.';
+COMMENT ON COLUMN claim_payer_payments.adjustments IS 'Claim-level CAS adjustments: [{"group": "CO", "reason": "45", "amount": 20}, ...]. PR adjustments are what the next payer (or the patient) owes.';
+
+-- Which payer a stored 837P batch billed.
+ALTER TABLE claim_batches ADD COLUMN IF NOT EXISTS payer_sequence TEXT NOT NULL DEFAULT 'primary'
+  CHECK (payer_sequence IN ('primary', 'secondary', 'tertiary'));
+
+DROP TRIGGER IF EXISTS update_patient_coverages_updated_at ON patient_coverages;
+CREATE TRIGGER update_patient_coverages_updated_at
+  BEFORE UPDATE ON patient_coverages
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_claim_payer_payments_updated_at ON claim_payer_payments;
+CREATE TRIGGER update_claim_payer_payments_updated_at
+  BEFORE UPDATE ON claim_payer_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE patient_coverages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE claim_payer_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view patient coverages for their clinics" ON patient_coverages;
+CREATE POLICY "Users can view patient coverages for their clinics" ON patient_coverages
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can manage patient coverages for their clinics" ON patient_coverages;
+CREATE POLICY "Clinic staff can manage patient coverages for their clinics" ON patient_coverages
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view claim payer payments for their clinics" ON claim_payer_payments;
+CREATE POLICY "Users can view claim payer payments for their clinics" ON claim_payer_payments
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage claim payer payments for their clinics" ON claim_payer_payments;
+CREATE POLICY "Billing users can manage claim payer payments for their clinics" ON claim_payer_payments
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
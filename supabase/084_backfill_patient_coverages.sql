@@ -0,0 +1,16 @@
+-- Insurance history: seed each patient's current plan as an open-ended primary coverage so that the first dated plan
+-- added in Patient Info ends it instead of replacing it. Sheet rows then show the payer active on their date of
+-- service rather than whatever patients.insurance says today. Patients that already have coverage are left alone.
+
+INSERT INTO patient_coverages (clinic_id, patient_id, priority, payer_name, subscriber_id, notes)
+SELECT DISTINCT ON (p.clinic_id, LOWER(TRIM(p.patient_id)))
+  p.clinic_id, TRIM(p.patient_id), 1, TRIM(p.insurance), NULLIF(TRIM(p.subscriber_id), ''), 'Seeded from patient record'
+FROM patients p
+WHERE p.clinic_id IS NOT NULL
+  AND NULLIF(TRIM(p.patient_id), '') IS NOT NULL
+  AND NULLIF(TRIM(p.insurance), '') IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM patient_coverages c
+    WHERE c.clinic_id = p.clinic_id AND LOWER(TRIM(c.patient_id)) = LOWER(TRIM(p.patient_id))
+  )
+ORDER BY p.clinic_id, LOWER(TRIM(p.patient_id)), p.updated_at DESC NULLS LAST;
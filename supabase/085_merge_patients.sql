@@ -0,0 +1,123 @@
+-- Merge duplicate patients: the surviving patients row takes the chosen field values, every row in the clinic that
+-- points at the duplicate's patient_id is rewritten to the survivor's, the duplicate is deleted, and the merge is
+-- written to audit_logs (action MERGE) with both original records and the per-table rewrite counts.
+-- Runs as SECURITY DEFINER so provider_schedules (provider-only RLS) and audit_logs can be written in one transaction.
+
+CREATE OR REPLACE FUNCTION public.merge_patients(p_survivor_id UUID, p_merged_id UUID, p_values JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  survivor patients%ROWTYPE;
+  merged patients%ROWTYPE;
+  updated patients%ROWTYPE;
+  survivor_key TEXT;
+  merged_key TEXT;
+  tbl TEXT;
+  n INTEGER;
+  counts JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO survivor FROM patients WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO merged FROM patients WHERE id = p_merged_id FOR UPDATE;
+  IF survivor.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+  IF survivor.id = merged.id THEN
+    RAISE EXCEPTION 'Cannot merge a patient into itself';
+  END IF;
+  IF survivor.clinic_id <> merged.clinic_id THEN
+    RAISE EXCEPTION 'Patients belong to different clinics';
+  END IF;
+  IF NOT (
+    is_super_admin() OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+        AND survivor.clinic_id = ANY(users.clinic_ids)
+        AND users.role IN ('office_staff', 'billing_staff', 'admin')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to merge patients in this clinic';
+  END IF;
+
+  survivor_key := lower(trim(survivor.patient_id));
+  merged_key := lower(trim(merged.patient_id));
+
+  UPDATE provider_sheet_rows r
+  SET patient_id = survivor.patient_id
+  FROM provider_sheets s
+  WHERE r.sheet_id = s.id AND s.clinic_id = survivor.clinic_id AND lower(trim(r.patient_id)) = merged_key;
+  GET DIAGNOSTICS n = ROW_COUNT;
+  counts := counts || jsonb_build_object('provider_sheet_rows', n);
+
+  FOREACH tbl IN ARRAY ARRAY[
+    'provider_schedules', 'patient_coverages', 'payment_plans', 'patient_statements',
+    'eligibility_checks', 'claim_status_history', 'denials'
+  ] LOOP
+    EXECUTE format('UPDATE %I SET patient_id = $1 WHERE clinic_id = $2 AND lower(trim(patient_id)) = $3', tbl)
+      USING survivor.patient_id, survivor.clinic_id, merged_key;
+    GET DIAGNOSTICS n = ROW_COUNT;
+    counts := counts || jsonb_build_object(tbl, n);
+  END LOOP;
+
+  -- private_patient_claims is unique per clinic on the normalized ID: keep the survivor's claim when both exist.
+  n := 0;
+  IF survivor_key <> merged_key THEN
+    IF EXISTS (SELECT 1 FROM private_patient_claims WHERE clinic_id = survivor.clinic_id AND patient_id_key = survivor_key) THEN
+      DELETE FROM private_patient_claims WHERE clinic_id = survivor.clinic_id AND patient_id_key = merged_key;
+    ELSE
+      UPDATE private_patient_claims SET patient_id = survivor.patient_id
+      WHERE clinic_id = survivor.clinic_id AND patient_id_key = merged_key;
+    END IF;
+    GET DIAGNOSTICS n = ROW_COUNT;
+  END IF;
+  counts := counts || jsonb_build_object('private_patient_claims', n);
+
+  DELETE FROM patients WHERE id = merged.id;
+
+  UPDATE patients SET
+    first_name = COALESCE(NULLIF(trim(p_values->>'first_name'), ''), first_name),
+    last_name = COALESCE(NULLIF(trim(p_values->>'last_name'), ''), last_name),
+    date_of_birth = CASE WHEN p_values ? 'date_of_birth' THEN NULLIF(p_values->>'date_of_birth', '')::DATE ELSE date_of_birth END,
+    phone = CASE WHEN p_values ? 'phone' THEN NULLIF(p_values->>'phone', '') ELSE phone END,
+    email = CASE WHEN p_values ? 'email' THEN NULLIF(p_values->>'email', '') ELSE email END,
+    address = CASE WHEN p_values ? 'address' THEN NULLIF(p_values->>'address', '') ELSE address END,
+    insurance = CASE WHEN p_values ? 'insurance' THEN NULLIF(p_values->>'insurance', '') ELSE insurance END,
+    subscriber_id = CASE WHEN p_values ? 'subscriber_id' THEN NULLIF(p_values->>'subscriber_id', '') ELSE subscriber_id END,
+    copay = CASE WHEN p_values ? 'copay' THEN NULLIF(p_values->>'copay', '') ELSE copay END,
+    coinsurance = CASE WHEN p_values ? 'coinsurance' THEN NULLIF(p_values->>'coinsurance', '') ELSE coinsurance END,
+    updated_at = NOW()
+  WHERE id = survivor.id
+  RETURNING * INTO updated;
+
+  INSERT INTO audit_logs (user_id, clinic_id, action, table_name, record_id, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    survivor.clinic_id,
+    'MERGE',
+    'patients',
+    survivor.id,
+    jsonb_build_object('survivor', to_jsonb(survivor), 'merged', to_jsonb(merged)),
+    jsonb_build_object('survivor', to_jsonb(updated), 'rewritten', counts)
+  );
+
+  RETURN counts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_patients(UUID, UUID, JSONB) IS 'Merges p_merged_id into p_survivor_id (same clinic): applies p_values to the survivor, rewrites patient_id references, deletes the duplicate and logs a MERGE audit entry. Returns rows rewritten per table.';
+
+GRANT EXECUTE ON FUNCTION public.merge_patients(UUID, UUID, JSONB) TO authenticated;
+
+-- Clinic staff review their clinic's merges (other audit entries stay super-admin only).
+DROP POLICY IF EXISTS "Clinic staff can view patient merge audit logs" ON audit_logs;
+CREATE POLICY "Clinic staff can view patient merge audit logs" ON audit_logs
+  FOR SELECT USING (
+    action = 'MERGE' AND table_name = 'patients' AND clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid() AND users.role IN ('office_staff', 'billing_staff', 'admin')
+    )
+  );
@@ -0,0 +1,57 @@
+-- Bulk patient import: inserts the new patients and applies field updates to existing ones in a single transaction,
+-- so a failed row (e.g. a patient_id another user created meanwhile) leaves the Patients table untouched.
+-- Runs as SECURITY INVOKER; the patients insert/update RLS policies decide who may import.
+-- p_inserts: [{patient_id, first_name, last_name, ...}]; p_updates: [{id, <changed fields>}] (absent fields are kept).
+
+CREATE OR REPLACE FUNCTION public.import_patients(p_clinic_id UUID, p_inserts JSONB, p_updates JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  inserted JSONB;
+  updated_count INTEGER := 0;
+BEGIN
+  WITH ins AS (
+    INSERT INTO patients (
+      clinic_id, patient_id, first_name, last_name, subscriber_id, insurance, copay, coinsurance,
+      date_of_birth, phone, email, address
+    )
+    SELECT p_clinic_id, trim(r.patient_id), r.first_name, r.last_name, r.subscriber_id, r.insurance, r.copay, r.coinsurance,
+      r.date_of_birth, r.phone, r.email, r.address
+    FROM jsonb_to_recordset(COALESCE(p_inserts, '[]'::jsonb)) AS r(
+      patient_id TEXT, first_name TEXT, last_name TEXT, subscriber_id TEXT, insurance TEXT, copay TEXT,
+      coinsurance TEXT, date_of_birth DATE, phone TEXT, email TEXT, address TEXT
+    )
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(ins)), '[]'::jsonb) INTO inserted FROM ins;
+
+  UPDATE patients p SET
+    first_name = COALESCE(u.first_name, p.first_name),
+    last_name = COALESCE(u.last_name, p.last_name),
+    subscriber_id = COALESCE(u.subscriber_id, p.subscriber_id),
+    insurance = COALESCE(u.insurance, p.insurance),
+    copay = COALESCE(u.copay, p.copay),
+    coinsurance = COALESCE(u.coinsurance, p.coinsurance),
+    date_of_birth = COALESCE(u.date_of_birth, p.date_of_birth),
+    phone = COALESCE(u.phone, p.phone),
+    email = COALESCE(u.email, p.email),
+    address = COALESCE(u.address, p.address),
+    updated_at = NOW()
+  FROM jsonb_to_recordset(COALESCE(p_updates, '[]'::jsonb)) AS u(
+    id UUID, first_name TEXT, last_name TEXT, subscriber_id TEXT, insurance TEXT, copay TEXT, coinsurance TEXT,
+    date_of_birth DATE, phone TEXT, email TEXT, address TEXT
+  )
+  WHERE p.id = u.id AND p.clinic_id = p_clinic_id;
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('inserted', inserted, 'updated', updated_count);
+END;
+$$;
+
+COMMENT ON FUNCTION public.import_patients(UUID, JSONB, JSONB) IS
+  'Bulk patient import from the Patients tab: inserts new patients and updates existing ones atomically; returns {inserted, updated}.';
+
+GRANT EXECUTE ON FUNCTION public.import_patients(UUID, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,212 @@
+-- Adjustment / write-off ledger per provider_sheet_rows row. Each entry keeps its type, amount, reason, who entered it
+-- and who approved it; entries are never edited or deleted, only approved, rejected or voided, so the history stays.
+-- Posted entries reduce the row balance (refunds add back to it). Staff may post up to their role's approval limit
+-- (adjustment_approval_limits, else the defaults in adjustment_approval_limit()); larger amounts wait for approval.
+
+CREATE TABLE IF NOT EXISTS adjustment_approval_limits (
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('office_staff', 'billing_staff', 'admin')),
+  max_amount NUMERIC(12, 2) CHECK (max_amount IS NULL OR max_amount >= 0),
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (clinic_id, role)
+);
+
+COMMENT ON TABLE adjustment_approval_limits IS 'Largest adjustment each role may post without approval, per clinic; overrides the defaults in adjustment_approval_limit().';
+COMMENT ON COLUMN adjustment_approval_limits.max_amount IS 'NULL = no limit; 0 = every adjustment needs approval.';
+
+CREATE TABLE IF NOT EXISTS sheet_row_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_sheet_row_id UUID NOT NULL REFERENCES provider_sheet_rows(id) ON DELETE CASCADE,
+  adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('contractual', 'small_balance', 'bad_debt', 'courtesy', 'refund')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  adjustment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'posted', 'rejected', 'voided')),
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sheet_row_adjustments_row ON sheet_row_adjustments (provider_sheet_row_id);
+CREATE INDEX IF NOT EXISTS idx_sheet_row_adjustments_clinic_status ON sheet_row_adjustments (clinic_id, status);
+
+COMMENT ON TABLE sheet_row_adjustments IS 'Write-offs and adjustments on a sheet row; posted entries count toward the row balance in the app and reports.';
+COMMENT ON COLUMN sheet_row_adjustments.adjustment_type IS 'contractual (payer write-down), small_balance, bad_debt, courtesy (patient write-offs), refund (money returned; adds to the balance).';
+COMMENT ON COLUMN sheet_row_adjustments.status IS 'pending = awaiting approval; posted = counts toward balances; rejected / voided = kept for history only.';
+
+DROP TRIGGER IF EXISTS update_adjustment_approval_limits_updated_at ON adjustment_approval_limits;
+CREATE TRIGGER update_adjustment_approval_limits_updated_at BEFORE UPDATE ON adjustment_approval_limits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_sheet_row_adjustments_updated_at ON sheet_row_adjustments;
+CREATE TRIGGER update_sheet_row_adjustments_updated_at BEFORE UPDATE ON sheet_row_adjustments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Largest amount the role may post in the clinic; NULL = no limit. Keep the defaults in sync with
+-- DEFAULT_APPROVAL_LIMITS in src/lib/adjustments.ts.
+CREATE OR REPLACE FUNCTION public.adjustment_approval_limit(p_clinic_id UUID, p_role TEXT)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  configured adjustment_approval_limits%ROWTYPE;
+BEGIN
+  IF p_role = 'super_admin' THEN
+    RETURN NULL;
+  END IF;
+  SELECT * INTO configured FROM adjustment_approval_limits WHERE clinic_id = p_clinic_id AND role = p_role;
+  IF FOUND THEN
+    RETURN configured.max_amount;
+  END IF;
+  RETURN CASE p_role
+    WHEN 'admin' THEN NULL
+    WHEN 'billing_staff' THEN 25
+    ELSE 0
+  END;
+END;
+$$;
+
+COMMENT ON FUNCTION public.adjustment_approval_limit(UUID, TEXT) IS
+  'Adjustment amount a role may post without approval in a clinic (NULL = unlimited).';
+
+GRANT EXECUTE ON FUNCTION public.adjustment_approval_limit(UUID, TEXT) TO authenticated;
+
+-- Ledger rules: amounts and types are fixed once entered; posting, rejecting or voiding a posted entry needs a
+-- limit that covers the amount; whoever entered a pending entry may withdraw it (voided).
+CREATE OR REPLACE FUNCTION public.enforce_sheet_row_adjustment_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  caller_role TEXT;
+  caller_limit NUMERIC;
+  covers BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  SELECT role INTO caller_role FROM users WHERE id = auth.uid();
+  caller_limit := adjustment_approval_limit(NEW.clinic_id, caller_role);
+  covers := caller_role IN ('super_admin', 'admin', 'billing_staff', 'office_staff')
+    AND (caller_limit IS NULL OR NEW.amount <= caller_limit);
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.created_by := auth.uid();
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    IF NEW.status NOT IN ('pending', 'posted') THEN
+      RAISE EXCEPTION 'New adjustments must be pending or posted';
+    END IF;
+    IF NEW.status = 'posted' THEN
+      IF NOT covers THEN
+        RAISE EXCEPTION 'Adjustment of % is over your approval limit; save it as pending instead', NEW.amount;
+      END IF;
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := NOW();
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.provider_sheet_row_id IS DISTINCT FROM OLD.provider_sheet_row_id
+    OR NEW.clinic_id IS DISTINCT FROM OLD.clinic_id
+    OR NEW.adjustment_type IS DISTINCT FROM OLD.adjustment_type
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.adjustment_date IS DISTINCT FROM OLD.adjustment_date
+    OR NEW.reason IS DISTINCT FROM OLD.reason
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'Adjustments cannot be edited; void it and enter a new one';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'pending' AND NEW.status = 'voided' AND OLD.created_by = auth.uid() THEN
+      NULL;
+    ELSIF (OLD.status = 'pending' AND NEW.status IN ('posted', 'rejected')) OR (OLD.status = 'posted' AND NEW.status = 'voided') THEN
+      IF NOT covers THEN
+        RAISE EXCEPTION 'Adjustment of % is over your approval limit', NEW.amount;
+      END IF;
+    ELSE
+      RAISE EXCEPTION 'Cannot change an adjustment from % to %', OLD.status, NEW.status;
+    END IF;
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := NOW();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_sheet_row_adjustment_rules ON sheet_row_adjustments;
+CREATE TRIGGER enforce_sheet_row_adjustment_rules BEFORE INSERT OR UPDATE ON sheet_row_adjustments
+  FOR EACH ROW EXECUTE FUNCTION enforce_sheet_row_adjustment_rules();
+
+ALTER TABLE adjustment_approval_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sheet_row_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view adjustment approval limits for their clinics" ON adjustment_approval_limits;
+CREATE POLICY "Users can view adjustment approval limits for their clinics" ON adjustment_approval_limits
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Admins can manage adjustment approval limits for their clinics" ON adjustment_approval_limits;
+CREATE POLICY "Admins can manage adjustment approval limits for their clinics" ON adjustment_approval_limits
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view sheet row adjustments for their clinics" ON sheet_row_adjustments;
+CREATE POLICY "Users can view sheet row adjustments for their clinics" ON sheet_row_adjustments
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can enter sheet row adjustments for their clinics" ON sheet_row_adjustments;
+CREATE POLICY "Clinic staff can enter sheet row adjustments for their clinics" ON sheet_row_adjustments
+  FOR INSERT WITH CHECK (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can review sheet row adjustments for their clinics" ON sheet_row_adjustments;
+CREATE POLICY "Clinic staff can review sheet row adjustments for their clinics" ON sheet_row_adjustments
+  FOR UPDATE USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
@@ -0,0 +1,260 @@
+-- Patient refunds for overpaid sheet rows. A refund is requested against a row whose payments exceed the expected amount,
+-- approved (or denied) by someone whose adjustment approval limit covers it, then issued with a method, date and reference.
+-- Entries are never deleted; withdrawn or mistaken refunds are voided so the register keeps its history. Issued refunds
+-- reduce the clinic's invoice total for the month they were issued in.
+
+CREATE TABLE IF NOT EXISTS patient_refunds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  provider_sheet_row_id UUID REFERENCES provider_sheet_rows(id) ON DELETE SET NULL,
+  patient_id TEXT NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  status TEXT NOT NULL DEFAULT 'requested' CHECK (status IN ('requested', 'approved', 'denied', 'issued', 'voided')),
+  refund_method TEXT CHECK (refund_method IS NULL OR refund_method IN ('check', 'card', 'ach', 'cash', 'other')),
+  reference TEXT,
+  issued_date DATE,
+  requested_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+  issued_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (status <> 'issued' OR (refund_method IS NOT NULL AND issued_date IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_refunds_clinic_status ON patient_refunds (clinic_id, status);
+CREATE INDEX IF NOT EXISTS idx_patient_refunds_row ON patient_refunds (provider_sheet_row_id);
+CREATE INDEX IF NOT EXISTS idx_patient_refunds_issued_date ON patient_refunds (clinic_id, issued_date);
+
+COMMENT ON TABLE patient_refunds IS 'Refunds of patient overpayments: requested, approved, issued (or denied / voided), with method, date and reason.';
+COMMENT ON COLUMN patient_refunds.patient_id IS 'Patient ID on the row when the refund was requested; rewritten by merge_patients().';
+COMMENT ON COLUMN patient_refunds.status IS 'requested = awaiting approval; approved = ready to pay out; issued = paid (counts against the clinic invoice); denied / voided = history only.';
+COMMENT ON COLUMN patient_refunds.reference IS 'Check number, card transaction or ACH trace for the payout.';
+
+DROP TRIGGER IF EXISTS update_patient_refunds_updated_at ON patient_refunds;
+CREATE TRIGGER update_patient_refunds_updated_at BEFORE UPDATE ON patient_refunds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Workflow rules: amount, row, patient and reason are fixed once requested. Approving, denying and voiding an approved
+-- or issued refund need an adjustment approval limit that covers the amount; any clinic staff member may issue an
+-- approved refund (method and date required); whoever requested a refund may withdraw it while it is still requested.
+CREATE OR REPLACE FUNCTION public.enforce_patient_refund_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  caller_role TEXT;
+  caller_limit NUMERIC;
+  covers BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+  SELECT role INTO caller_role FROM users WHERE id = auth.uid();
+  caller_limit := adjustment_approval_limit(NEW.clinic_id, caller_role);
+  covers := caller_role IN ('super_admin', 'admin', 'billing_staff', 'office_staff')
+    AND (caller_limit IS NULL OR NEW.amount <= caller_limit);
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'requested' THEN
+      RAISE EXCEPTION 'New refunds must be requested';
+    END IF;
+    NEW.requested_by := auth.uid();
+    NEW.reviewed_by := NULL;
+    NEW.reviewed_at := NULL;
+    NEW.issued_by := NULL;
+    NEW.issued_date := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.clinic_id IS DISTINCT FROM OLD.clinic_id
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.reason IS DISTINCT FROM OLD.reason
+    OR NEW.requested_by IS DISTINCT FROM OLD.requested_by
+    OR (NEW.provider_sheet_row_id IS DISTINCT FROM OLD.provider_sheet_row_id AND NEW.provider_sheet_row_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Refunds cannot be edited; void it and request a new one';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status = 'requested' AND NEW.status = 'voided' AND OLD.requested_by = auth.uid() THEN
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := NOW();
+    ELSIF (OLD.status = 'requested' AND NEW.status IN ('approved', 'denied')) OR (OLD.status IN ('approved', 'issued') AND NEW.status = 'voided') THEN
+      IF NOT covers THEN
+        RAISE EXCEPTION 'Refund of % is over your approval limit', NEW.amount;
+      END IF;
+      NEW.reviewed_by := auth.uid();
+      NEW.reviewed_at := NOW();
+    ELSIF OLD.status = 'approved' AND NEW.status = 'issued' THEN
+      IF NEW.refund_method IS NULL OR NEW.issued_date IS NULL THEN
+        RAISE EXCEPTION 'Issued refunds need a method and issue date';
+      END IF;
+      NEW.issued_by := auth.uid();
+    ELSE
+      RAISE EXCEPTION 'Cannot change a refund from % to %', OLD.status, NEW.status;
+    END IF;
+  ELSIF OLD.status = 'issued' AND (
+    NEW.refund_method IS DISTINCT FROM OLD.refund_method
+    OR NEW.issued_date IS DISTINCT FROM OLD.issued_date
+    OR NEW.reference IS DISTINCT FROM OLD.reference
+  ) THEN
+    RAISE EXCEPTION 'Issued refunds cannot be edited; void it and request a new one';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_patient_refund_rules ON patient_refunds;
+CREATE TRIGGER enforce_patient_refund_rules BEFORE INSERT OR UPDATE ON patient_refunds
+  FOR EACH ROW EXECUTE FUNCTION enforce_patient_refund_rules();
+
+ALTER TABLE patient_refunds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view patient refunds for their clinics" ON patient_refunds;
+CREATE POLICY "Users can view patient refunds for their clinics" ON patient_refunds
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can request patient refunds for their clinics" ON patient_refunds;
+CREATE POLICY "Clinic staff can request patient refunds for their clinics" ON patient_refunds
+  FOR INSERT WITH CHECK (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Clinic staff can process patient refunds for their clinics" ON patient_refunds;
+CREATE POLICY "Clinic staff can process patient refunds for their clinics" ON patient_refunds
+  FOR UPDATE USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin', 'office_staff')
+      )
+    )
+  );
+
+-- Patient merges also rewrite refunds (same function as 085_merge_patients.sql plus patient_refunds).
+CREATE OR REPLACE FUNCTION public.merge_patients(p_survivor_id UUID, p_merged_id UUID, p_values JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  survivor patients%ROWTYPE;
+  merged patients%ROWTYPE;
+  updated patients%ROWTYPE;
+  survivor_key TEXT;
+  merged_key TEXT;
+  tbl TEXT;
+  n INTEGER;
+  counts JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO survivor FROM patients WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO merged FROM patients WHERE id = p_merged_id FOR UPDATE;
+  IF survivor.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+  IF survivor.id = merged.id THEN
+    RAISE EXCEPTION 'Cannot merge a patient into itself';
+  END IF;
+  IF survivor.clinic_id <> merged.clinic_id THEN
+    RAISE EXCEPTION 'Patients belong to different clinics';
+  END IF;
+  IF NOT (
+    is_super_admin() OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+        AND survivor.clinic_id = ANY(users.clinic_ids)
+        AND users.role IN ('office_staff', 'billing_staff', 'admin')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to merge patients in this clinic';
+  END IF;
+
+  survivor_key := lower(trim(survivor.patient_id));
+  merged_key := lower(trim(merged.patient_id));
+
+  UPDATE provider_sheet_rows r
+  SET patient_id = survivor.patient_id
+  FROM provider_sheets s
+  WHERE r.sheet_id = s.id AND s.clinic_id = survivor.clinic_id AND lower(trim(r.patient_id)) = merged_key;
+  GET DIAGNOSTICS n = ROW_COUNT;
+  counts := counts || jsonb_build_object('provider_sheet_rows', n);
+
+  FOREACH tbl IN ARRAY ARRAY[
+    'provider_schedules', 'patient_coverages', 'payment_plans', 'patient_statements',
+    'eligibility_checks', 'claim_status_history', 'denials', 'patient_refunds'
+  ] LOOP
+    EXECUTE format('UPDATE %I SET patient_id = $1 WHERE clinic_id = $2 AND lower(trim(patient_id)) = $3', tbl)
+      USING survivor.patient_id, survivor.clinic_id, merged_key;
+    GET DIAGNOSTICS n = ROW_COUNT;
+    counts := counts || jsonb_build_object(tbl, n);
+  END LOOP;
+
+  -- private_patient_claims is unique per clinic on the normalized ID: keep the survivor's claim when both exist.
+  n := 0;
+  IF survivor_key <> merged_key THEN
+    IF EXISTS (SELECT 1 FROM private_patient_claims WHERE clinic_id = survivor.clinic_id AND patient_id_key = survivor_key) THEN
+      DELETE FROM private_patient_claims WHERE clinic_id = survivor.clinic_id AND patient_id_key = merged_key;
+    ELSE
+      UPDATE private_patient_claims SET patient_id = survivor.patient_id
+      WHERE clinic_id = survivor.clinic_id AND patient_id_key = merged_key;
+    END IF;
+    GET DIAGNOSTICS n = ROW_COUNT;
+  END IF;
+  counts := counts || jsonb_build_object('private_patient_claims', n);
+
+  DELETE FROM patients WHERE id = merged.id;
+
+  UPDATE patients SET
+    first_name = COALESCE(NULLIF(trim(p_values->>'first_name'), ''), first_name),
+    last_name = COALESCE(NULLIF(trim(p_values->>'last_name'), ''), last_name),
+    date_of_birth = CASE WHEN p_values ? 'date_of_birth' THEN NULLIF(p_values->>'date_of_birth', '')::DATE ELSE date_of_birth END,
+    phone = CASE WHEN p_values ? 'phone' THEN NULLIF(p_values->>'phone', '') ELSE phone END,
+    email = CASE WHEN p_values ? 'email' THEN NULLIF(p_values->>'email', '') ELSE email END,
+    address = CASE WHEN p_values ? 'address' THEN NULLIF(p_values->>'address', '') ELSE address END,
+    insurance = CASE WHEN p_values ? 'insurance' THEN NULLIF(p_values->>'insurance', '') ELSE insurance END,
+    subscriber_id = CASE WHEN p_values ? 'subscriber_id' THEN NULLIF(p_values->>'subscriber_id', '') ELSE subscriber_id END,
+    copay = CASE WHEN p_values ? 'copay' THEN NULLIF(p_values->>'copay', '') ELSE copay END,
+    coinsurance = CASE WHEN p_values ? 'coinsurance' THEN NULLIF(p_values->>'coinsurance', '') ELSE coinsurance END,
+    updated_at = NOW()
+  WHERE id = survivor.id
+  RETURNING * INTO updated;
+
+  INSERT INTO audit_logs (user_id, clinic_id, action, table_name, record_id, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    survivor.clinic_id,
+    'MERGE',
+    'patients',
+    survivor.id,
+    jsonb_build_object('survivor', to_jsonb(survivor), 'merged', to_jsonb(merged)),
+    jsonb_build_object('survivor', to_jsonb(updated), 'rewritten', counts)
+  );
+
+  RETURN counts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_patients(UUID, UUID, JSONB) IS 'Merges p_merged_id into p_survivor_id (same clinic): applies p_values to the survivor, rewrites patient_id references, deletes the duplicate and logs a MERGE audit entry. Returns rows rewritten per table.';
+
+GRANT EXECUTE ON FUNCTION public.merge_patients(UUID, UUID, JSONB) TO authenticated;
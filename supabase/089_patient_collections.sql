@@ -0,0 +1,261 @@
+-- Patient collections pipeline for aged self-pay balances: statement 1 -> statement 2 -> final notice -> sent to agency.
+-- collection_settings holds each clinic's day thresholds and letter templates (defaults live in src/lib/collections.ts).
+-- patient_collections is one account per patient while they are in the pipeline; patient_collection_events records
+-- every stage change (with the balance at that point), note and payment, and payments carry the stage they arrived in
+-- so recovery can be measured per stage.
+
+CREATE TABLE IF NOT EXISTS collection_settings (
+  clinic_id UUID PRIMARY KEY REFERENCES clinics(id) ON DELETE CASCADE,
+  min_balance NUMERIC(12, 2) NOT NULL DEFAULT 25 CHECK (min_balance >= 0),
+  start_after_days INTEGER NOT NULL DEFAULT 90 CHECK (start_after_days >= 0),
+  statement_2_days INTEGER NOT NULL DEFAULT 30 CHECK (statement_2_days >= 0),
+  final_notice_days INTEGER NOT NULL DEFAULT 30 CHECK (final_notice_days >= 0),
+  agency_days INTEGER NOT NULL DEFAULT 30 CHECK (agency_days >= 0),
+  agency_name TEXT,
+  statement_1_letter TEXT,
+  statement_2_letter TEXT,
+  final_notice_letter TEXT,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE collection_settings IS 'Per-clinic collections thresholds and letter templates; missing rows / NULL letters use the app defaults.';
+COMMENT ON COLUMN collection_settings.start_after_days IS 'A patient becomes eligible once their oldest open visit is this many days old.';
+COMMENT ON COLUMN collection_settings.statement_2_days IS 'Days after statement 1 before statement 2 is due (likewise final_notice_days and agency_days for the next steps).';
+
+CREATE TABLE IF NOT EXISTS patient_collections (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  patient_id TEXT NOT NULL,
+  patient_name TEXT,
+  stage TEXT NOT NULL DEFAULT 'statement_1' CHECK (stage IN ('statement_1', 'statement_2', 'final_notice', 'agency')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paid', 'closed')),
+  stage_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  balance_placed NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  current_balance NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  paid_baseline NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  placed_date DATE,
+  agency_name TEXT,
+  agency_exported_at TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_collections_clinic_status ON patient_collections (clinic_id, status);
+CREATE INDEX IF NOT EXISTS idx_patient_collections_clinic_patient ON patient_collections (clinic_id, patient_id);
+
+COMMENT ON TABLE patient_collections IS 'A patient in the collections pipeline; closed or paid accounts stay for history and recovery reporting.';
+COMMENT ON COLUMN patient_collections.stage IS 'Last step taken: statement_1, statement_2, final_notice or agency (placed with the collection agency).';
+COMMENT ON COLUMN patient_collections.stage_date IS 'Date the current stage was reached; the next step is due after that stage''s day threshold.';
+COMMENT ON COLUMN patient_collections.balance_placed IS 'Patient balance when the account entered collections.';
+COMMENT ON COLUMN patient_collections.paid_baseline IS 'PT Paid across the patient''s sheet rows when the account entered collections plus payments attributed since; later increases are new payments.';
+COMMENT ON COLUMN patient_collections.agency_exported_at IS 'When the account was last included in an agency placement file.';
+
+CREATE TABLE IF NOT EXISTS patient_collection_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  collection_id UUID NOT NULL REFERENCES patient_collections(id) ON DELETE CASCADE,
+  clinic_id UUID NOT NULL REFERENCES clinics(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('stage', 'payment', 'note', 'status')),
+  stage TEXT NOT NULL CHECK (stage IN ('statement_1', 'statement_2', 'final_notice', 'agency')),
+  amount NUMERIC(12, 2),
+  note TEXT,
+  event_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_collection_events_collection ON patient_collection_events (collection_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_patient_collection_events_clinic_type ON patient_collection_events (clinic_id, event_type);
+
+COMMENT ON TABLE patient_collection_events IS 'Collections history: stage changes (amount = balance at that point), payments (amount received, attributed to the stage the account was in), notes and status changes.';
+
+DROP TRIGGER IF EXISTS update_collection_settings_updated_at ON collection_settings;
+CREATE TRIGGER update_collection_settings_updated_at BEFORE UPDATE ON collection_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_patient_collections_updated_at ON patient_collections;
+CREATE TRIGGER update_patient_collections_updated_at BEFORE UPDATE ON patient_collections
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE collection_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_collection_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view collection settings for their clinics" ON collection_settings;
+CREATE POLICY "Users can view collection settings for their clinics" ON collection_settings
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Admins can manage collection settings for their clinics" ON collection_settings;
+CREATE POLICY "Admins can manage collection settings for their clinics" ON collection_settings
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role = 'admin'
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view patient collections for their clinics" ON patient_collections;
+CREATE POLICY "Users can view patient collections for their clinics" ON patient_collections
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can manage patient collections for their clinics" ON patient_collections;
+CREATE POLICY "Billing users can manage patient collections for their clinics" ON patient_collections
+  FOR ALL USING (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can view patient collection events for their clinics" ON patient_collection_events;
+CREATE POLICY "Users can view patient collection events for their clinics" ON patient_collection_events
+  FOR SELECT USING (
+    clinic_id = ANY(
+      SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+    ) OR is_super_admin()
+  );
+
+DROP POLICY IF EXISTS "Billing users can add patient collection events for their clinics" ON patient_collection_events;
+CREATE POLICY "Billing users can add patient collection events for their clinics" ON patient_collection_events
+  FOR INSERT WITH CHECK (
+    (
+      is_super_admin()
+    ) OR (
+      clinic_id = ANY(
+        SELECT unnest(clinic_ids) FROM users WHERE id = auth.uid()
+      ) AND EXISTS (
+        SELECT 1 FROM users
+        WHERE users.id = auth.uid() AND users.role IN ('billing_staff', 'admin')
+      )
+    )
+  );
+
+-- Patient merges also rewrite collections accounts (same function as 088_patient_refunds.sql plus patient_collections).
+CREATE OR REPLACE FUNCTION public.merge_patients(p_survivor_id UUID, p_merged_id UUID, p_values JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  survivor patients%ROWTYPE;
+  merged patients%ROWTYPE;
+  updated patients%ROWTYPE;
+  survivor_key TEXT;
+  merged_key TEXT;
+  tbl TEXT;
+  n INTEGER;
+  counts JSONB := '{}'::jsonb;
+BEGIN
+  SELECT * INTO survivor FROM patients WHERE id = p_survivor_id FOR UPDATE;
+  SELECT * INTO merged FROM patients WHERE id = p_merged_id FOR UPDATE;
+  IF survivor.id IS NULL OR merged.id IS NULL THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+  IF survivor.id = merged.id THEN
+    RAISE EXCEPTION 'Cannot merge a patient into itself';
+  END IF;
+  IF survivor.clinic_id <> merged.clinic_id THEN
+    RAISE EXCEPTION 'Patients belong to different clinics';
+  END IF;
+  IF NOT (
+    is_super_admin() OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+        AND survivor.clinic_id = ANY(users.clinic_ids)
+        AND users.role IN ('office_staff', 'billing_staff', 'admin')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to merge patients in this clinic';
+  END IF;
+
+  survivor_key := lower(trim(survivor.patient_id));
+  merged_key := lower(trim(merged.patient_id));
+
+  UPDATE provider_sheet_rows r
+  SET patient_id = survivor.patient_id
+  FROM provider_sheets s
+  WHERE r.sheet_id = s.id AND s.clinic_id = survivor.clinic_id AND lower(trim(r.patient_id)) = merged_key;
+  GET DIAGNOSTICS n = ROW_COUNT;
+  counts := counts || jsonb_build_object('provider_sheet_rows', n);
+
+  FOREACH tbl IN ARRAY ARRAY[
+    'provider_schedules', 'patient_coverages', 'payment_plans', 'patient_statements',
+    'eligibility_checks', 'claim_status_history', 'denials', 'patient_refunds', 'patient_collections'
+  ] LOOP
+    EXECUTE format('UPDATE %I SET patient_id = $1 WHERE clinic_id = $2 AND lower(trim(patient_id)) = $3', tbl)
+      USING survivor.patient_id, survivor.clinic_id, merged_key;
+    GET DIAGNOSTICS n = ROW_COUNT;
+    counts := counts || jsonb_build_object(tbl, n);
+  END LOOP;
+
+  -- private_patient_claims is unique per clinic on the normalized ID: keep the survivor's claim when both exist.
+  n := 0;
+  IF survivor_key <> merged_key THEN
+    IF EXISTS (SELECT 1 FROM private_patient_claims WHERE clinic_id = survivor.clinic_id AND patient_id_key = survivor_key) THEN
+      DELETE FROM private_patient_claims WHERE clinic_id = survivor.clinic_id AND patient_id_key = merged_key;
+    ELSE
+      UPDATE private_patient_claims SET patient_id = survivor.patient_id
+      WHERE clinic_id = survivor.clinic_id AND patient_id_key = merged_key;
+    END IF;
+    GET DIAGNOSTICS n = ROW_COUNT;
+  END IF;
+  counts := counts || jsonb_build_object('private_patient_claims', n);
+
+  DELETE FROM patients WHERE id = merged.id;
+
+  UPDATE patients SET
+    first_name = COALESCE(NULLIF(trim(p_values->>'first_name'), ''), first_name),
+    last_name = COALESCE(NULLIF(trim(p_values->>'last_name'), ''), last_name),
+    date_of_birth = CASE WHEN p_values ? 'date_of_birth' THEN NULLIF(p_values->>'date_of_birth', '')::DATE ELSE date_of_birth END,
+    phone = CASE WHEN p_values ? 'phone' THEN NULLIF(p_values->>'phone', '') ELSE phone END,
+    email = CASE WHEN p_values ? 'email' THEN NULLIF(p_values->>'email', '') ELSE email END,
+    address = CASE WHEN p_values ? 'address' THEN NULLIF(p_values->>'address', '') ELSE address END,
+    insurance = CASE WHEN p_values ? 'insurance' THEN NULLIF(p_values->>'insurance', '') ELSE insurance END,
+    subscriber_id = CASE WHEN p_values ? 'subscriber_id' THEN NULLIF(p_values->>'subscriber_id', '') ELSE subscriber_id END,
+    copay = CASE WHEN p_values ? 'copay' THEN NULLIF(p_values->>'copay', '') ELSE copay END,
+    coinsurance = CASE WHEN p_values ? 'coinsurance' THEN NULLIF(p_values->>'coinsurance', '') ELSE coinsurance END,
+    updated_at = NOW()
+  WHERE id = survivor.id
+  RETURNING * INTO updated;
+
+  INSERT INTO audit_logs (user_id, clinic_id, action, table_name, record_id, old_values, new_values)
+  VALUES (
+    auth.uid(),
+    survivor.clinic_id,
+    'MERGE',
+    'patients',
+    survivor.id,
+    jsonb_build_object('survivor', to_jsonb(survivor), 'merged', to_jsonb(merged)),
+    jsonb_build_object('survivor', to_jsonb(updated), 'rewritten', counts)
+  );
+
+  RETURN counts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.merge_patients(UUID, UUID, JSONB) IS 'Merges p_merged_id into p_survivor_id (same clinic): applies p_values to the survivor, rewrites patient_id references, deletes the duplicate and logs a MERGE audit entry. Returns rows rewritten per table.';
+
+GRANT EXECUTE ON FUNCTION public.merge_patients(UUID, UUID, JSONB) TO authenticated;
@@ -0,0 +1,128 @@
+-- Provider Pay templates: named line-item layouts for the Provider Pay table, managed by super admins.
+-- Each line is either entered by hand (input) or computed from earlier lines: sum, percent, flat fee or deduction.
+-- Providers are assigned a template (NULL = the default template); each saved provider_pay month records the
+-- template it was built with, and provider_pay_rows.line_key ties a row to its template line.
+-- Existing months are moved to the default template, which reproduces the previous fixed layout
+-- (Patient + Insurance + A/R Payments = Total Payments; Provider Cut = Total Payments x provider_cut_percent).
+
+CREATE TABLE IF NOT EXISTS provider_pay_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_pay_templates_single_default
+  ON provider_pay_templates (is_default) WHERE is_default;
+
+COMMENT ON TABLE provider_pay_templates IS 'Named Provider Pay layouts; exactly one is the default for providers without an assignment.';
+
+CREATE TABLE IF NOT EXISTS provider_pay_template_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES provider_pay_templates(id) ON DELETE CASCADE,
+  sort_order SMALLINT NOT NULL,
+  line_key TEXT NOT NULL,
+  label TEXT NOT NULL,
+  line_type TEXT NOT NULL CHECK (line_type IN ('input', 'sum', 'percent', 'flat', 'deduction')),
+  source_keys TEXT[] NOT NULL DEFAULT '{}',
+  rate NUMERIC(7, 4) CHECK (rate IS NULL OR (rate >= 0 AND rate <= 1)),
+  amount NUMERIC(12, 2) CHECK (amount IS NULL OR amount >= 0),
+  is_payout BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (template_id, line_key),
+  UNIQUE (template_id, sort_order)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_pay_template_lines_template ON provider_pay_template_lines (template_id, sort_order);
+
+COMMENT ON COLUMN provider_pay_template_lines.line_key IS 'Stable identifier of the line within its template; formulas and saved provider_pay_rows refer to it.';
+COMMENT ON COLUMN provider_pay_template_lines.line_type IS 'input = entered by hand; sum = total of source lines; percent = rate x total of source lines; flat = fixed amount; deduction = negative flat amount, or negative rate x source lines when rate is set.';
+COMMENT ON COLUMN provider_pay_template_lines.source_keys IS 'line_keys of earlier lines that sum, percent and percentage deduction lines are computed from.';
+COMMENT ON COLUMN provider_pay_template_lines.rate IS 'Fraction 0-1. On percent lines NULL means the provider''s provider_cut_percent.';
+COMMENT ON COLUMN provider_pay_template_lines.is_payout IS 'The line whose amount is what the provider is paid for the period (at most one per template).';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_pay_template_lines_single_payout
+  ON provider_pay_template_lines (template_id) WHERE is_payout;
+
+DROP TRIGGER IF EXISTS update_provider_pay_templates_updated_at ON provider_pay_templates;
+CREATE TRIGGER update_provider_pay_templates_updated_at BEFORE UPDATE ON provider_pay_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_provider_pay_template_lines_updated_at ON provider_pay_template_lines;
+CREATE TRIGGER update_provider_pay_template_lines_updated_at BEFORE UPDATE ON provider_pay_template_lines
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE provider_pay_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE provider_pay_template_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Everyone can view provider pay templates" ON provider_pay_templates;
+CREATE POLICY "Everyone can view provider pay templates" ON provider_pay_templates
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Super admins can manage provider pay templates" ON provider_pay_templates;
+CREATE POLICY "Super admins can manage provider pay templates" ON provider_pay_templates
+  FOR ALL USING (is_super_admin());
+
+DROP POLICY IF EXISTS "Everyone can view provider pay template lines" ON provider_pay_template_lines;
+CREATE POLICY "Everyone can view provider pay template lines" ON provider_pay_template_lines
+  FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Super admins can manage provider pay template lines" ON provider_pay_template_lines;
+CREATE POLICY "Super admins can manage provider pay template lines" ON provider_pay_template_lines
+  FOR ALL USING (is_super_admin());
+
+-- Assignment and history
+ALTER TABLE providers
+  ADD COLUMN IF NOT EXISTS pay_template_id UUID REFERENCES provider_pay_templates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN providers.pay_template_id IS 'Provider Pay template for new pay months; NULL = the default template. Set in Super Admin Settings.';
+
+ALTER TABLE provider_pay
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES provider_pay_templates(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN provider_pay.template_id IS 'Template the month was built with, so later assignment changes do not reshape saved months.';
+
+ALTER TABLE provider_pay_rows
+  ADD COLUMN IF NOT EXISTS line_key TEXT;
+
+COMMENT ON COLUMN provider_pay_rows.line_key IS 'Template line this row holds; NULL for the header and free-form rows.';
+
+-- Default template matching the previous hard-coded layout
+INSERT INTO provider_pay_templates (name, description, is_default)
+SELECT 'Standard', 'Patient, insurance and A/R payments; provider cut at the provider''s percentage.', TRUE
+WHERE NOT EXISTS (SELECT 1 FROM provider_pay_templates WHERE is_default);
+
+INSERT INTO provider_pay_template_lines (template_id, sort_order, line_key, label, line_type, source_keys, rate, is_payout)
+SELECT t.id, l.sort_order, l.line_key, l.label, l.line_type, l.source_keys, NULL, l.is_payout
+FROM provider_pay_templates t
+CROSS JOIN (VALUES
+  (1, 'patient_payments', 'Patient Payments', 'input', '{}'::TEXT[], FALSE),
+  (2, 'insurance_payments', 'Insurance Payments', 'input', '{}'::TEXT[], FALSE),
+  (3, 'ar_payments', 'A/R Payments', 'input', '{}'::TEXT[], FALSE),
+  (4, 'total_payments', 'Total Payments', 'sum', '{patient_payments,insurance_payments,ar_payments}'::TEXT[], FALSE),
+  (5, 'provider_cut', 'Provider Cut', 'percent', '{total_payments}'::TEXT[], TRUE)
+) AS l(sort_order, line_key, label, line_type, source_keys, is_payout)
+WHERE t.is_default
+  AND NOT EXISTS (SELECT 1 FROM provider_pay_template_lines x WHERE x.template_id = t.id);
+
+-- Existing months: rows 1-3, 5 and 6 of the old layout had fixed, read-only descriptions, so the index identifies the line.
+-- Only line_key and template_id are set; amounts stay exactly as stored (row 4, an entered line outside the old
+-- total, becomes a free-form row), and the app shows saved months as stored without recomputing them.
+UPDATE provider_pay_rows
+SET line_key = CASE row_index
+  WHEN 1 THEN 'patient_payments'
+  WHEN 2 THEN 'insurance_payments'
+  WHEN 3 THEN 'ar_payments'
+  WHEN 5 THEN 'total_payments'
+  WHEN 6 THEN 'provider_cut'
+END
+WHERE line_key IS NULL
+  AND row_index IN (1, 2, 3, 5, 6)
+  AND provider_pay_id IN (SELECT id FROM provider_pay WHERE template_id IS NULL);
+
+UPDATE provider_pay
+SET template_id = (SELECT id FROM provider_pay_templates WHERE is_default)
+WHERE template_id IS NULL;
@@ -0,0 +1,26 @@
+-- Provider Pay "pull from sheet": entered template lines can name the provider sheet total they are filled from.
+-- patient_payments = sum of PT Paid (collected_from_patient), insurance_payments = sum of Ins Pay (insurance_payment),
+-- ar_payments = sum of the sheet's AR amounts plus accounts_receivables entries attributable to the provider
+-- (an entry for the same patient and date of service as a sheet AR amount is only counted once, from the sheet).
+-- provider_pay.sheet_pulled_at records when amounts were last applied from the sheet.
+
+ALTER TABLE provider_pay_template_lines
+  ADD COLUMN IF NOT EXISTS sheet_source TEXT
+  CHECK (sheet_source IS NULL OR sheet_source IN ('patient_payments', 'insurance_payments', 'ar_payments'));
+
+COMMENT ON COLUMN provider_pay_template_lines.sheet_source IS 'Input lines only: provider sheet total the line is filled from by "Pull from sheet" (patient_payments, insurance_payments or ar_payments).';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_provider_pay_template_lines_sheet_source
+  ON provider_pay_template_lines (template_id, sheet_source) WHERE sheet_source IS NOT NULL;
+
+UPDATE provider_pay_template_lines
+SET sheet_source = line_key
+WHERE line_type = 'input'
+  AND sheet_source IS NULL
+  AND line_key IN ('patient_payments', 'insurance_payments', 'ar_payments')
+  AND template_id IN (SELECT id FROM provider_pay_templates WHERE is_default);
+
+ALTER TABLE provider_pay
+  ADD COLUMN IF NOT EXISTS sheet_pulled_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN provider_pay.sheet_pulled_at IS 'When amounts were last pulled from the provider sheet and applied; NULL = entered by hand only.';
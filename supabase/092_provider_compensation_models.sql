@@ -0,0 +1,57 @@
+-- Provider compensation models: how the Provider Cut line of Provider Pay is computed, per provider and effective date range.
+-- flat_percent = percent x period total; tiered_percent = marginal bands (e.g. 60% of the first $20,000, 70% above);
+-- per_code = fee per visit by CPT code on the provider's sheet; salary_bonus = salary + bonus_rate x total above bonus_threshold.
+-- minimum_pay guarantees a minimum per pay period for any model. Providers without a model in effect keep
+-- providers.provider_cut_percent as a flat percent.
+
+CREATE TABLE IF NOT EXISTS provider_compensation_models (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider_id UUID NOT NULL REFERENCES providers(id) ON DELETE CASCADE,
+  model_type TEXT NOT NULL CHECK (model_type IN ('flat_percent', 'tiered_percent', 'per_code', 'salary_bonus')),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  percent NUMERIC(7, 4) CHECK (percent IS NULL OR (percent >= 0 AND percent <= 1)),
+  tiers JSONB NOT NULL DEFAULT '[]'::JSONB,
+  code_rates JSONB NOT NULL DEFAULT '[]'::JSONB,
+  default_code_amount NUMERIC(12, 2) CHECK (default_code_amount IS NULL OR default_code_amount >= 0),
+  salary NUMERIC(12, 2) CHECK (salary IS NULL OR salary >= 0),
+  bonus_threshold NUMERIC(12, 2) CHECK (bonus_threshold IS NULL OR bonus_threshold >= 0),
+  bonus_rate NUMERIC(7, 4) CHECK (bonus_rate IS NULL OR (bonus_rate >= 0 AND bonus_rate <= 1)),
+  minimum_pay NUMERIC(12, 2) CHECK (minimum_pay IS NULL OR minimum_pay >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from),
+  UNIQUE (provider_id, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_provider_compensation_models_provider ON provider_compensation_models (provider_id, effective_from);
+
+COMMENT ON TABLE provider_compensation_models IS 'Provider Cut rules per provider; the model in effect on the first day of the pay month applies. effective_to NULL = open-ended.';
+COMMENT ON COLUMN provider_compensation_models.tiers IS 'tiered_percent: [{"up_to": 20000, "rate": 0.6}, {"up_to": null, "rate": 0.7}], ascending; rates are fractions 0-1 of the pay period total.';
+COMMENT ON COLUMN provider_compensation_models.code_rates IS 'per_code: [{"code": "90837", "amount": 120}], fee per visit billed with the code on the provider sheet.';
+COMMENT ON COLUMN provider_compensation_models.minimum_pay IS 'Guaranteed minimum Provider Cut per pay period; NULL = none.';
+
+DROP TRIGGER IF EXISTS update_provider_compensation_models_updated_at ON provider_compensation_models;
+CREATE TRIGGER update_provider_compensation_models_updated_at BEFORE UPDATE ON provider_compensation_models
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE provider_compensation_models ENABLE ROW LEVEL SECURITY;
+
+-- Same audience as Provider Pay: staff of the provider's clinics and the provider; only super admins edit.
+DROP POLICY IF EXISTS "Clinic users can view provider compensation models" ON provider_compensation_models;
+CREATE POLICY "Clinic users can view provider compensation models" ON provider_compensation_models
+  FOR SELECT TO authenticated
+  USING (
+    is_super_admin()
+    OR provider_id = current_user_provider_id()
+    OR EXISTS (
+      SELECT 1 FROM providers p
+      WHERE p.id = provider_compensation_models.provider_id
+        AND p.clinic_ids && (SELECT clinic_ids FROM users WHERE id = auth.uid())
+    )
+  );
+
+DROP POLICY IF EXISTS "Super admins can manage provider compensation models" ON provider_compensation_models;
+CREATE POLICY "Super admins can manage provider compensation models" ON provider_compensation_models
+  FOR ALL USING (is_super_admin());
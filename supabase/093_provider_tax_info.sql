@@ -0,0 +1,34 @@
+-- Provider tax information for the year-end 1099-NEC export (providers are paid as contractors).
+-- Amounts come from saved Provider Pay; this table holds the recipient details the forms need.
+-- Kept out of providers because clinic staff and providers can read that table (and the app selects * from it):
+-- only super admins can read or edit these rows, in Super Admin Settings > 1099-NEC.
+
+CREATE TABLE IF NOT EXISTS provider_tax_info (
+  provider_id UUID PRIMARY KEY REFERENCES providers(id) ON DELETE CASCADE,
+  tax_name TEXT,
+  tin TEXT,
+  tin_type TEXT CHECK (tin_type IS NULL OR tin_type IN ('SSN', 'EIN')),
+  mailing_address_1 TEXT,
+  mailing_address_2 TEXT,
+  mailing_city TEXT,
+  mailing_state TEXT,
+  mailing_zip TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE provider_tax_info IS '1099-NEC recipient details per provider; super admins only.';
+COMMENT ON COLUMN provider_tax_info.tax_name IS 'Recipient name for 1099-NEC (individual or business); NULL = first and last name.';
+COMMENT ON COLUMN provider_tax_info.tin IS 'Taxpayer identification number, digits only (9).';
+COMMENT ON COLUMN provider_tax_info.tin_type IS 'SSN (individual) or EIN (business).';
+COMMENT ON COLUMN provider_tax_info.mailing_address_1 IS '1099 mailing address street line; with mailing_address_2, mailing_city, mailing_state (2-letter) and mailing_zip.';
+
+DROP TRIGGER IF EXISTS update_provider_tax_info_updated_at ON provider_tax_info;
+CREATE TRIGGER update_provider_tax_info_updated_at BEFORE UPDATE ON provider_tax_info
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE provider_tax_info ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Super admins can manage provider tax info" ON provider_tax_info;
+CREATE POLICY "Super admins can manage provider tax info" ON provider_tax_info
+  FOR ALL USING (is_super_admin()) WITH CHECK (is_super_admin());
@@ -0,0 +1,70 @@
+-- ISA13 interchange control numbers allocated in the database, one counter per clinic.
+-- 837P batches, 270 eligibility inquiries and 276 claim status inquiries go out under the same submitter ID and
+-- share the sequence. Allocation is a single UPSERT, so two users exporting at once never get the same number.
+
+CREATE TABLE IF NOT EXISTS interchange_control_numbers (
+  clinic_id UUID PRIMARY KEY REFERENCES clinics(id) ON DELETE CASCADE,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE interchange_control_numbers IS 'Last ISA13 handed out per clinic; read and advanced only through next_interchange_control_number().';
+
+-- Start each clinic after the highest number already stored
+INSERT INTO interchange_control_numbers (clinic_id, last_number)
+SELECT clinic_id, MAX(n)
+FROM (
+  SELECT clinic_id, interchange_control_number AS n FROM claim_batches
+  UNION ALL
+  SELECT clinic_id, interchange_control_number FROM eligibility_checks
+  UNION ALL
+  SELECT clinic_id, interchange_control_number FROM claim_status_inquiries
+) used
+GROUP BY clinic_id
+ON CONFLICT (clinic_id) DO UPDATE SET last_number = GREATEST(interchange_control_numbers.last_number, EXCLUDED.last_number);
+
+ALTER TABLE interchange_control_numbers ENABLE ROW LEVEL SECURITY;
+-- No policies: clients go through the function below.
+
+-- Callers need the role that may save the file's record: claim_batches (072) and claim_status_inquiries (082) take
+-- billing staff and admins; eligibility_checks (081) also takes office staff.
+CREATE OR REPLACE FUNCTION public.next_interchange_control_number(p_clinic_id UUID, p_transaction TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  next_number INTEGER;
+BEGIN
+  IF p_transaction IS NULL OR p_transaction NOT IN ('837P', '270', '276') THEN
+    RAISE EXCEPTION 'Unknown X12 transaction %', p_transaction;
+  END IF;
+
+  IF NOT (
+    is_super_admin() OR EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+        AND p_clinic_id = ANY(users.clinic_ids)
+        AND (
+          users.role IN ('billing_staff', 'admin')
+          OR (users.role = 'office_staff' AND p_transaction = '270')
+        )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to send X12 files for this clinic';
+  END IF;
+
+  INSERT INTO interchange_control_numbers (clinic_id, last_number, updated_at)
+  VALUES (p_clinic_id, 1, NOW())
+  ON CONFLICT (clinic_id) DO UPDATE
+    SET last_number = interchange_control_numbers.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO next_number;
+
+  RETURN next_number;
+END;
+$$;
+
+COMMENT ON FUNCTION public.next_interchange_control_number(UUID, TEXT) IS 'Allocates the next ISA13 for the clinic (shared by 837P, 270 and 276 files); p_transaction is 837P, 270 or 276.';
+
+GRANT EXECUTE ON FUNCTION public.next_interchange_control_number(UUID, TEXT) TO authenticated;